@@ -296,4 +296,6 @@ export const activityTypeLabels: Record<ActivityType, string> = {
   [ActivityType.POOL_CREATED]: 'Pool Created',
   [ActivityType.POOL_STATUS_CHANGED]: 'Pool Status Changed',
   [ActivityType.REMINDER_SENT]: 'Reminder Sent',
+  [ActivityType.PAYMENT_LATE]: 'Payment Late',
+  [ActivityType.PAYMENT_MISSED]: 'Payment Missed',
 };
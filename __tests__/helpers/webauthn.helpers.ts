@@ -0,0 +1,171 @@
+/**
+ * WebAuthn test helpers
+ * A software authenticator that creates passkeys and signs assertions the way
+ * a browser and platform authenticator would, for testing lib/security/passkeys.ts
+ */
+
+import { createHash, generateKeyPairSync, randomBytes, sign, KeyObject } from 'crypto';
+import { isoCBOR } from '@simplewebauthn/server/helpers';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+
+// Authenticator data flags (WebAuthn §6.1)
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+// COSE key parameters for an ES256 (P-256) public key
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_CRV = -1;
+const COSE_X = -2;
+const COSE_Y = -3;
+
+export interface SoftwareAuthenticatorOptions {
+  rpID?: string;
+  origin?: string;
+  // Synced passkey (backup eligible and backed up)
+  synced?: boolean;
+}
+
+function toBase64URL(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+export class SoftwareAuthenticator {
+  readonly credentialId: Buffer = randomBytes(16);
+  readonly rpID: string;
+  readonly origin: string;
+  readonly synced: boolean;
+  counter = 0;
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor(options: SoftwareAuthenticatorOptions = {}) {
+    this.rpID = options.rpID || 'localhost';
+    this.origin = options.origin || 'http://localhost:3000';
+    this.synced = options.synced || false;
+
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  get id(): string {
+    return toBase64URL(this.credentialId);
+  }
+
+  /**
+   * Respond to navigator.credentials.create() with a 'none' attestation
+   */
+  createCredential(challenge: string, options: { origin?: string } = {}): RegistrationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.create', challenge, options.origin);
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+    const attestedCredentialData = Buffer.concat([
+      Buffer.alloc(16), // AAGUID: all zeros for a 'none' attestation
+      credentialIdLength,
+      this.credentialId,
+      Buffer.from(this.cosePublicKey()),
+    ]);
+
+    const authData = this.authenticatorData(
+      FLAG_USER_PRESENT | FLAG_USER_VERIFIED | FLAG_ATTESTED_CREDENTIAL_DATA,
+      attestedCredentialData
+    );
+
+    const attestationObject = isoCBOR.encode(
+      new Map<string, unknown>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', new Uint8Array(authData)],
+      ]) as any
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64URL(clientDataJSON),
+        attestationObject: toBase64URL(attestationObject),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  /**
+   * Respond to navigator.credentials.get(), incrementing the signature counter
+   */
+  getAssertion(
+    challenge: string,
+    options: { origin?: string; userVerified?: boolean; counter?: number } = {}
+  ): AuthenticationResponseJSON {
+    this.counter = options.counter ?? this.counter + 1;
+
+    const clientDataJSON = this.clientData('webauthn.get', challenge, options.origin);
+    const flags = FLAG_USER_PRESENT | (options.userVerified === false ? 0 : FLAG_USER_VERIFIED);
+    const authData = this.authenticatorData(flags);
+
+    const clientDataHash = createHash('sha256').update(clientDataJSON).digest();
+    const signature = sign('sha256', Buffer.concat([authData, clientDataHash]), this.privateKey);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64URL(clientDataJSON),
+        authenticatorData: toBase64URL(authData),
+        signature: toBase64URL(signature),
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  private clientData(type: string, challenge: string, origin?: string): Buffer {
+    return Buffer.from(JSON.stringify({
+      type,
+      challenge,
+      origin: origin || this.origin,
+      crossOrigin: false,
+    }));
+  }
+
+  private authenticatorData(flags: number, attestedCredentialData?: Buffer): Buffer {
+    const rpIdHash = createHash('sha256').update(this.rpID).digest();
+    const syncFlags = this.synced ? FLAG_BACKUP_ELIGIBLE | FLAG_BACKED_UP : 0;
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(this.counter);
+
+    return Buffer.concat([
+      rpIdHash,
+      Buffer.from([flags | syncFlags]),
+      signCount,
+      ...(attestedCredentialData ? [attestedCredentialData] : []),
+    ]);
+  }
+
+  private cosePublicKey(): Uint8Array {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    return isoCBOR.encode(
+      new Map<number, number | Uint8Array>([
+        [COSE_KTY, 2],    // EC2
+        [COSE_ALG, -7],   // ES256
+        [COSE_CRV, 1],    // P-256
+        [COSE_X, new Uint8Array(Buffer.from(jwk.x as string, 'base64url'))],
+        [COSE_Y, new Uint8Array(Buffer.from(jwk.y as string, 'base64url'))],
+      ])
+    );
+  }
+}
+
+/**
+ * A random challenge, as the server would issue
+ */
+export function createChallenge(): string {
+  return toBase64URL(randomBytes(32));
+}
@@ -26,9 +26,10 @@ jest.mock('next-auth', () => ({
   getServerSession: jest.fn(),
 }));
 
-// Mock the utils module for activity logging
-jest.mock('@/lib/utils', () => ({
-  logServerActivity: jest.fn(),
+// Mock the security activity log
+jest.mock('@/lib/security', () => ({
+  logSecurityActivity: jest.fn(),
+  getRequestContext: jest.fn(() => ({})),
 }));
 
 describe('User Profile API Tests', () => {
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for lib/hooks/useActiveSessions.ts
+ * Tests listing the user's signed-in devices and signing them out
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useActiveSessions } from '@/lib/hooks/useActiveSessions';
+import { ActiveSession } from '@/types/security';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockSessions: ActiveSession[] = [
+  {
+    id: 'session-1',
+    provider: 'credentials',
+    deviceInfo: { browser: 'Chrome', os: 'macOS', device: 'Desktop' },
+    createdAt: '2024-05-20T08:00:00.000Z',
+    lastSeenAt: '2024-06-01T11:58:00.000Z',
+    current: true,
+  },
+  {
+    id: 'session-2',
+    provider: 'google',
+    deviceInfo: { browser: 'Safari', os: 'iOS', device: 'Mobile' },
+    location: { city: 'Austin', country: 'US' },
+    createdAt: '2024-05-01T08:00:00.000Z',
+    lastSeenAt: '2024-05-30T09:00:00.000Z',
+    current: false,
+  },
+];
+
+const okResponse = (data: unknown) => ({
+  ok: true,
+  json: async () => ({ success: true, data }),
+});
+
+describe('useActiveSessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load the active sessions', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse({ sessions: mockSessions }));
+
+    const { result } = renderHook(() => useActiveSessions());
+
+    expect(result.current.isLoading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/security/sessions');
+    expect(result.current.sessions).toEqual(mockSessions);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should surface API errors', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ success: false, error: 'Not authenticated' }),
+    });
+
+    const { result } = renderHook(() => useActiveSessions());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.error).toBe('Not authenticated');
+  });
+
+  it('should sign out one device and drop it from the list', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ sessions: mockSessions }))
+      .mockResolvedValueOnce(okResponse({ sessionId: 'session-2', current: false }));
+
+    const { result } = renderHook(() => useActiveSessions());
+
+    await waitFor(() => {
+      expect(result.current.sessions).toHaveLength(2);
+    });
+
+    let outcome: { success: boolean; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.revokeSession('session-2');
+    });
+
+    expect(outcome).toEqual({ success: true });
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/security/sessions/session-2', { method: 'DELETE' });
+    expect(result.current.sessions.map(s => s.id)).toEqual(['session-1']);
+  });
+
+  it('should report a failed sign-out everywhere without clearing the list', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ sessions: mockSessions }))
+      .mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({ success: false, error: 'Failed to sign out of all devices' }),
+      });
+
+    const { result } = renderHook(() => useActiveSessions());
+
+    await waitFor(() => {
+      expect(result.current.sessions).toHaveLength(2);
+    });
+
+    let outcome: { success: boolean; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.revokeAllSessions();
+    });
+
+    expect(outcome).toEqual({ success: false, error: 'Failed to sign out of all devices' });
+    expect(result.current.sessions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for lib/hooks/useBackupCodes.ts
+ * Tests loading the backup code status and regenerating the codes
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useBackupCodes } from '@/lib/hooks/useBackupCodes';
+import { BackupCodeStatus } from '@/types/security';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockStatus: BackupCodeStatus = {
+  remaining: 2,
+  total: 8,
+  generatedAt: '2024-05-20T08:00:00.000Z',
+  low: true,
+};
+
+const okResponse = (data: unknown) => ({
+  ok: true,
+  json: async () => ({ success: true, data }),
+});
+
+describe('useBackupCodes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load how many codes are left and how to re-authenticate', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse({ enabled: true, status: mockStatus, reauthentication: 'email' }));
+
+    const { result } = renderHook(() => useBackupCodes());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/security/two-factor/backup-codes');
+    expect(result.current.status).toEqual(mockStatus);
+    expect(result.current.enabled).toBe(true);
+    expect(result.current.reauthentication).toBe('email');
+  });
+
+  it('should regenerate the codes with the password and return them once', async () => {
+    const codes = ['11111111', '22222222'];
+    const newStatus = { ...mockStatus, remaining: 8, low: false };
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ enabled: true, status: mockStatus, reauthentication: 'password' }))
+      .mockResolvedValueOnce(okResponse({ codes, status: newStatus }));
+
+    const { result } = renderHook(() => useBackupCodes());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    let outcome: { success: boolean; codes?: string[]; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.regenerateCodes({ password: 'hunter22' });
+    });
+
+    expect(outcome).toEqual({ success: true, codes });
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/security/two-factor/backup-codes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: 'hunter22' }),
+    });
+    expect(result.current.status).toEqual(newStatus);
+  });
+
+  it('should report a failed re-authentication', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ enabled: true, status: mockStatus, reauthentication: 'password' }))
+      .mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({ success: false, error: 'Incorrect password' }),
+      });
+
+    const { result } = renderHook(() => useBackupCodes());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    let outcome: { success: boolean; codes?: string[]; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.regenerateCodes({ password: 'wrong' });
+    });
+
+    expect(outcome).toEqual({ success: false, error: 'Incorrect password' });
+    expect(result.current.status).toEqual(mockStatus);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for lib/hooks/usePasskeys.ts
+ * Tests listing, registering, and removing the user's passkeys
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { startRegistration } from '@simplewebauthn/browser';
+import { usePasskeys } from '@/lib/hooks/usePasskeys';
+import { Passkey } from '@/types/security';
+
+jest.mock('@simplewebauthn/browser', () => ({
+  startRegistration: jest.fn(),
+}));
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockStartRegistration = startRegistration as jest.Mock;
+
+const mockPasskeys: Passkey[] = [
+  {
+    id: 'cred-1',
+    name: 'Chrome on macOS',
+    deviceType: 'multiDevice',
+    backedUp: true,
+    transports: ['internal', 'hybrid'],
+    createdAt: '2024-05-20T08:00:00.000Z',
+    lastUsedAt: '2024-06-01T11:58:00.000Z',
+  },
+];
+
+const newPasskey: Passkey = {
+  id: 'cred-2',
+  name: 'My phone',
+  deviceType: 'singleDevice',
+  backedUp: false,
+  createdAt: '2024-06-02T09:00:00.000Z',
+};
+
+const okResponse = (data: unknown) => ({
+  ok: true,
+  json: async () => ({ success: true, data }),
+});
+
+describe('usePasskeys', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load the passkeys and whether they are the second factor', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse({ passkeys: mockPasskeys, usedForTwoFactor: true }));
+
+    const { result } = renderHook(() => usePasskeys());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/security/passkeys');
+    expect(result.current.passkeys).toEqual(mockPasskeys);
+    expect(result.current.usedForTwoFactor).toBe(true);
+  });
+
+  it('should register a passkey with the browser and add it to the list', async () => {
+    const registration = { id: 'cred-2', response: {} };
+    mockStartRegistration.mockResolvedValueOnce(registration);
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ passkeys: mockPasskeys, usedForTwoFactor: false }))
+      .mockResolvedValueOnce(okResponse({ options: { challenge: 'abc' } }))
+      .mockResolvedValueOnce(okResponse({ passkey: newPasskey, usedForTwoFactor: true }));
+
+    const { result } = renderHook(() => usePasskeys());
+
+    await waitFor(() => {
+      expect(result.current.passkeys).toHaveLength(1);
+    });
+
+    let outcome: { success: boolean; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.addPasskey({ name: 'My phone', useForTwoFactor: true });
+    });
+
+    expect(outcome).toEqual({ success: true });
+    expect(mockFetch).toHaveBeenCalledWith('/api/security/passkeys/options', { method: 'POST' });
+    expect(mockStartRegistration).toHaveBeenCalledWith({ optionsJSON: { challenge: 'abc' } });
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/security/passkeys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ response: registration, name: 'My phone', useForTwoFactor: true }),
+    });
+    expect(result.current.passkeys.map(p => p.id)).toEqual(['cred-2', 'cred-1']);
+    expect(result.current.usedForTwoFactor).toBe(true);
+  });
+
+  it('should report a dismissed browser prompt as cancelled', async () => {
+    const dismissed = new Error('The operation either timed out or was not allowed');
+    dismissed.name = 'NotAllowedError';
+    mockStartRegistration.mockRejectedValueOnce(dismissed);
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ passkeys: [], usedForTwoFactor: false }))
+      .mockResolvedValueOnce(okResponse({ options: { challenge: 'abc' } }));
+
+    const { result } = renderHook(() => usePasskeys());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    let outcome: { success: boolean; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.addPasskey();
+    });
+
+    expect(outcome).toEqual({ success: false, error: 'Passkey setup was cancelled' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove a passkey and pick up the two-factor fallback', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ passkeys: mockPasskeys, usedForTwoFactor: true }))
+      .mockResolvedValueOnce(okResponse({ passkeyId: 'cred-1', remaining: 0, usedForTwoFactor: false }));
+
+    const { result } = renderHook(() => usePasskeys());
+
+    await waitFor(() => {
+      expect(result.current.passkeys).toHaveLength(1);
+    });
+
+    let outcome: { success: boolean; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.removePasskey('cred-1');
+    });
+
+    expect(outcome).toEqual({ success: true });
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/security/passkeys/cred-1', { method: 'DELETE' });
+    expect(result.current.passkeys).toEqual([]);
+    expect(result.current.usedForTwoFactor).toBe(false);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Unit tests for lib/analytics
+ * Tests the per-round and per-member rollups and the reports built from them
+ * @jest-environment node
+ */
+
+import {
+  buildPoolRollups,
+  buildPoolAnalytics,
+  buildUserAnalytics,
+  getTimeframeStart,
+  getPaymentOutcome,
+  RollupPool,
+  RollupRound,
+  RollupEntry,
+} from '@/lib/analytics';
+import { LedgerEntryType } from '@/lib/ledger';
+import { getRoundPayoutDate } from '@/lib/schedule';
+import { PoolStatus } from '@/types/pool';
+
+describe('Pool analytics', () => {
+  const now = new Date('2024-06-10T00:00:00.000Z');
+  const lateAt = new Date('2024-04-02T00:00:00.000Z');
+
+  const pool: RollupPool = {
+    id: 'pool-1',
+    status: PoolStatus.ACTIVE,
+    frequency: 'monthly',
+    startDate: '2024-04-01T00:00:00.000Z',
+    currentCycle: 0,
+    currentRound: 3,
+    totalRounds: 3,
+    contributionAmount: 100,
+    members: [
+      { id: 1, name: 'Ana', position: 1 },
+      { id: 2, name: 'Luis', position: 2 },
+      { id: 3, name: 'Marta', position: 3 },
+    ],
+    currentRoundPayments: [
+      { memberId: 1, status: 'member_confirmed', dueDate: '2024-06-01T00:00:00.000Z' },
+      { memberId: 2, status: 'pending', dueDate: '2024-06-01T00:00:00.000Z' },
+      { memberId: 3, status: 'pending', dueDate: '2024-06-01T00:00:00.000Z' },
+    ],
+  };
+
+  const archivedRounds: RollupRound[] = [
+    {
+      cycle: 0,
+      roundNumber: 1,
+      dueDate: new Date('2024-04-01T00:00:00.000Z'),
+      contributionAmount: 100,
+      totalMembers: 3,
+      payments: [
+        { memberId: 1, status: 'admin_verified' },
+        { memberId: 2, status: 'admin_verified' },
+        { memberId: 3, status: 'admin_verified', lateAt },
+      ],
+    },
+    {
+      cycle: 0,
+      roundNumber: 2,
+      dueDate: new Date('2024-05-01T00:00:00.000Z'),
+      contributionAmount: 100,
+      totalMembers: 3,
+      payments: [
+        { memberId: 1, status: 'admin_verified' },
+        { memberId: 2, status: 'missed' },
+        { memberId: 3, status: 'admin_verified' },
+      ],
+    },
+  ];
+
+  const contribution = (memberId: number, round: number, occurredAt: string): RollupEntry => ({
+    type: LedgerEntryType.CONTRIBUTION,
+    cycle: 0,
+    round,
+    memberId,
+    amount: 100,
+    occurredAt: new Date(occurredAt),
+  });
+
+  const entries: RollupEntry[] = [
+    contribution(1, 1, '2024-03-31T12:00:00.000Z'),
+    contribution(2, 1, '2024-04-01T00:00:00.000Z'),
+    contribution(3, 1, '2024-04-03T00:00:00.000Z'),
+    contribution(1, 2, '2024-04-30T00:00:00.000Z'),
+    contribution(3, 2, '2024-05-02T00:00:00.000Z'),
+    contribution(1, 3, '2024-05-31T00:00:00.000Z'),
+    { type: LedgerEntryType.PAYOUT, cycle: 0, round: 1, memberId: 1, amount: 300, occurredAt: '2024-04-05T00:00:00.000Z' },
+    { type: LedgerEntryType.PAYOUT, cycle: 0, round: 2, memberId: 2, amount: 300, occurredAt: '2024-05-05T00:00:00.000Z' },
+  ];
+
+  const rollups = buildPoolRollups(pool, archivedRounds, entries, now);
+
+  describe('getPaymentOutcome', () => {
+    it('should count paid contributions as late once they went late or missed', () => {
+      expect(getPaymentOutcome({ status: 'admin_verified' })).toBe('on_time');
+      expect(getPaymentOutcome({ status: 'member_confirmed', lateAt })).toBe('late');
+      expect(getPaymentOutcome({ status: 'admin_verified', missedAt: lateAt })).toBe('late');
+      expect(getPaymentOutcome({ status: 'missed' })).toBe('missed');
+      expect(getPaymentOutcome({ status: 'pending' })).toBe('pending');
+    });
+  });
+
+  describe('buildPoolRollups', () => {
+    it('should roll up collection and latency per round, including the live round', () => {
+      expect(rollups.rounds.map(r => ({ ...r, outcomes: undefined }))).toEqual([
+        {
+          cycle: 0,
+          round: 1,
+          dueDate: '2024-04-01T00:00:00.000Z',
+          closed: true,
+          expected: 300,
+          collected: 300,
+          onTime: 2,
+          late: 1,
+          missed: 0,
+          onTimeRate: 66.7,
+          averageLatencyHours: 12,
+          collectionLatencyHours: 48,
+          payoutAmount: 300,
+          payoutAt: '2024-04-05T00:00:00.000Z',
+          outcomes: undefined,
+        },
+        {
+          cycle: 0,
+          round: 2,
+          dueDate: '2024-05-01T00:00:00.000Z',
+          closed: true,
+          expected: 300,
+          collected: 200,
+          onTime: 2,
+          late: 0,
+          missed: 1,
+          onTimeRate: 66.7,
+          averageLatencyHours: 0,
+          collectionLatencyHours: null,
+          payoutAmount: 300,
+          payoutAt: '2024-05-05T00:00:00.000Z',
+          outcomes: undefined,
+        },
+        {
+          cycle: 0,
+          round: 3,
+          dueDate: '2024-06-01T00:00:00.000Z',
+          closed: false,
+          expected: 300,
+          collected: 100,
+          onTime: 1,
+          late: 0,
+          missed: 0,
+          onTimeRate: 100,
+          averageLatencyHours: -24,
+          collectionLatencyHours: null,
+          payoutAmount: 0,
+          payoutAt: null,
+          outcomes: undefined,
+        },
+      ]);
+    });
+
+    it('should keep each member\'s contributions with their timing', () => {
+      const marta = rollups.members.find(m => m.memberId === 3)!;
+      expect(marta.contributions).toEqual([
+        { cycle: 0, round: 1, amount: 100, date: '2024-04-03T00:00:00.000Z', latencyHours: 48 },
+        { cycle: 0, round: 2, amount: 100, date: '2024-05-02T00:00:00.000Z', latencyHours: 24 },
+      ]);
+      expect(rollups.members.find(m => m.memberId === 2)!.payouts).toEqual([
+        { cycle: 0, round: 2, amount: 300, date: '2024-05-05T00:00:00.000Z' },
+      ]);
+    });
+
+    it('should keep departed members by the name on their exit', () => {
+      const departed = buildPoolRollups(
+        { ...pool, memberExits: [{ memberId: 4, memberName: 'Iris' }] },
+        [],
+        [contribution(4, 1, '2024-04-01T00:00:00.000Z')],
+        now
+      );
+      expect(departed.members.find(m => m.memberId === 4)?.name).toBe('Iris');
+    });
+
+    it('should leave out contributions that were reversed', () => {
+      const undone = buildPoolRollups(pool, archivedRounds, [
+        ...entries,
+        { type: LedgerEntryType.REVERSAL, cycle: 0, round: 3, memberId: 1, amount: 100, occurredAt: '2024-06-01T00:00:00.000Z' },
+      ], now);
+
+      expect(undone.rounds.find(r => r.round === 3)?.collected).toBe(0);
+      expect(undone.members.find(m => m.memberId === 1)!.contributions.map(c => c.round)).toEqual([1, 2]);
+    });
+  });
+
+  describe('getTimeframeStart', () => {
+    it('should count back whole months, or return null for all time', () => {
+      expect(getTimeframeStart('1month', now)?.toISOString()).toBe('2024-05-10T00:00:00.000Z');
+      expect(getTimeframeStart('1year', now)?.toISOString()).toBe('2023-06-10T00:00:00.000Z');
+      expect(getTimeframeStart('all', now)).toBeNull();
+    });
+  });
+
+  describe('buildPoolAnalytics', () => {
+    it('should report on every round for all time', () => {
+      const report = buildPoolAnalytics(pool, rollups, 'all', now);
+
+      expect(report).toMatchObject({
+        totalSaved: 600,
+        onTimeRate: 71.4,
+        averageContribution: 100,
+        averageCollectionLatencyHours: 48,
+        riskLevel: 57,
+        projectedTotalValue: 900,
+        expectedReturn: 300,
+      });
+      expect(report.completionPercentage).toBeCloseTo(66.67, 1);
+      expect(report.savingsGrowthData).toEqual([
+        { period: 'Round 1', amount: 300 },
+        { period: 'Round 2', amount: 500 },
+        { period: 'Round 3', amount: 600 },
+      ]);
+      expect(report.onTimeRateData.map(p => p.rate)).toEqual([66.7, 66.7, 100]);
+      expect(report.payoutDistributionData).toEqual([
+        { name: 'Paid Out', value: 600 },
+        { name: 'Remaining', value: 300 },
+      ]);
+      expect(report.memberContributionData.find(m => m.name === 'Marta')).toEqual({
+        memberId: 3,
+        name: 'Marta',
+        totalContributed: 200,
+        totalReceived: 0,
+        onTimeRate: 50,
+        averageLatencyHours: 36,
+      });
+      expect(report.memberHistories[0].contributions.map(c => c.period)).toEqual(['Round 3', 'Round 2', 'Round 1']);
+    });
+
+    it('should only include rounds and contributions inside the timeframe', () => {
+      const report = buildPoolAnalytics(pool, rollups, '1month', now);
+
+      expect(report.totalSaved).toBe(100);
+      expect(report.contributionData).toEqual([{ period: 'Round 3', onTime: 1, late: 0, missed: 0 }]);
+      // The running total still starts from everything collected before
+      expect(report.savingsGrowthData).toEqual([{ period: 'Round 3', amount: 600 }]);
+      expect(report.memberContributionData.find(m => m.name === 'Luis')).toMatchObject({
+        totalContributed: 0,
+        totalReceived: 0,
+        onTimeRate: 100,
+      });
+    });
+
+    it('should project the rest of the cycle and the payout schedule from the pool schedule', () => {
+      const earlier = { ...pool, currentRound: 2, totalRounds: 4, currentRoundPayments: [] };
+      const report = buildPoolAnalytics(earlier, buildPoolRollups(earlier, archivedRounds, entries.filter(e => e.round !== 3), now), 'all', now);
+
+      expect(report.projectedGrowthData).toEqual([
+        { period: 'Round 1', actual: 300, projected: null },
+        { period: 'Round 2', actual: 500, projected: 500 },
+        { period: 'Round 3', actual: null, projected: 800 },
+        { period: 'Round 4', actual: null, projected: 1100 },
+      ]);
+      expect(report.projectedCompletionDate).toBe(getRoundPayoutDate(earlier, 4).toISOString().split('T')[0]);
+      expect(report.payoutSchedule.map(p => [p.member, p.status])).toEqual([
+        ['Ana', 'completed'],
+        ['Luis', 'completed'],
+        ['Marta', 'scheduled'],
+        ['Unknown', 'scheduled'],
+      ]);
+      expect(report.payoutSchedule[0].date).toBe('2024-04-05');
+    });
+  });
+
+  describe('buildUserAnalytics', () => {
+    it('should total one member\'s record across pools', () => {
+      const emptyPool = buildPoolRollups({ ...pool, id: 'pool-2', currentRoundPayments: [] }, [], [], now);
+      const report = buildUserAnalytics(
+        [
+          { pool: { id: 'pool-1', name: 'Family', status: PoolStatus.ACTIVE }, memberId: 3, rollups },
+          { pool: { id: 'pool-2', name: 'Work', status: PoolStatus.ACTIVE }, memberId: 1, rollups: emptyPool },
+        ],
+        'all',
+        now
+      );
+
+      expect(report.totals).toEqual({
+        pools: 2,
+        contributed: 200,
+        received: 0,
+        onTimeRate: 50,
+        averageLatencyHours: 36,
+      });
+      expect(report.pools[1]).toMatchObject({ poolId: 'pool-2', contributed: 0, onTimeRate: null });
+      expect(report.onTimeRateData).toEqual([
+        { period: '2024-04', rate: 0 },
+        { period: '2024-05', rate: 100 },
+      ]);
+      expect(report.contributionHistory.map(c => c.date)).toEqual([
+        '2024-05-02T00:00:00.000Z',
+        '2024-04-03T00:00:00.000Z',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for lib/currency
+ * Tests minor-unit arithmetic, per-currency contribution limits, pool
+ * creation validation, and payment links for currencies apps can't send
+ * @jest-environment node
+ */
+
+import {
+  CURRENCIES,
+  resolveCurrency,
+  isSupportedCurrency,
+  supportsDeepLinkIn,
+  toMinorUnits,
+  fromMinorUnits,
+  sumAmounts,
+  getPotAmount,
+  formatAmount,
+  formatAmountLabel,
+} from '@/lib/currency';
+import { describeContributionRange, validateContributionAmount } from '@/lib/pools/tiers';
+import { generatePayoutLink, supportsDeepLink } from '@/lib/payments/deep-links';
+import { CreatePoolSchema } from '@/lib/validation/schemas';
+
+describe('Currency', () => {
+  describe('resolveCurrency', () => {
+    it('accepts supported codes in any case', () => {
+      expect(resolveCurrency('mxn')).toBe('MXN');
+      expect(resolveCurrency(' DOP ')).toBe('DOP');
+    });
+
+    it('treats missing and unknown codes as dollars', () => {
+      expect(resolveCurrency(undefined)).toBe('USD');
+      expect(resolveCurrency(null)).toBe('USD');
+      expect(resolveCurrency('EUR')).toBe('USD');
+      expect(isSupportedCurrency('EUR')).toBe(false);
+    });
+  });
+
+  describe('minor units', () => {
+    it('converts between major and minor units', () => {
+      expect(toMinorUnits(12.35, 'MXN')).toBe(1235);
+      expect(toMinorUnits(0.1 + 0.2, 'USD')).toBe(30);
+      expect(fromMinorUnits(1235, 'MXN')).toBe(12.35);
+    });
+
+    it('adds amounts without floating point drift', () => {
+      expect(sumAmounts([0.1, 0.2, 0.3])).toBe(0.6);
+      expect(sumAmounts([19.99, 0.01], 'GTQ')).toBe(20);
+    });
+
+    it('computes a pot exactly', () => {
+      expect(getPotAmount({ contributionAmount: 12.35, currency: 'MXN' }, 7)).toBe(86.45);
+      expect(getPotAmount({ contributionAmount: 10 }, 4, 2.5)).toBe(37.5);
+    });
+
+    it('only offers currencies with cents, which the ledger rounds to', () => {
+      for (const info of Object.values(CURRENCIES)) {
+        expect(info.minorDigits).toBe(2);
+      }
+    });
+  });
+
+  describe('validateContributionAmount', () => {
+    it('applies each currency\'s limits', () => {
+      expect(validateContributionAmount(20, 'USD').error).toBeUndefined();
+      expect(validateContributionAmount(25, 'USD').error).toBe('Contribution must be at most 20 USD for Standard pools');
+      expect(validateContributionAmount(200, 'MXN').error).toBeUndefined();
+      expect(validateContributionAmount(10, 'MXN').error).toBe('Contribution must be at least 20 MXN');
+      expect(validateContributionAmount(1200, 'DOP').error).toBeUndefined();
+    });
+
+    it('rejects fractional and non-numeric amounts', () => {
+      expect(validateContributionAmount(10.5, 'USD').error).toBe('Contribution must be a whole number');
+      expect(validateContributionAmount(NaN, 'USD').error).toBe('Contribution must be a number');
+    });
+
+    it('describes the range for form messages', () => {
+      expect(describeContributionRange('USD')).toBe('$1 and $20');
+      expect(describeContributionRange('MXN')).toBe('MX$20 and MX$400');
+      expect(formatAmountLabel(10)).toBe('$10');
+    });
+
+    it('formats amounts for messages with every minor digit', () => {
+      expect(formatAmount(12.5)).toBe('$12.50');
+      expect(formatAmount(1200, 'MXN')).toBe('MX$1,200.00');
+    });
+  });
+
+  describe('CreatePoolSchema', () => {
+    const basePool = {
+      name: 'Family Pool',
+      contributionAmount: 10,
+      frequency: 'weekly',
+      totalRounds: 4,
+      startDate: '2030-01-01',
+    };
+
+    it('defaults to dollars', () => {
+      const result = CreatePoolSchema.safeParse(basePool);
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.currency).toBe('USD');
+    });
+
+    it('validates the amount in the chosen currency', () => {
+      expect(CreatePoolSchema.safeParse({ ...basePool, currency: 'MXN' }).success).toBe(false);
+      expect(CreatePoolSchema.safeParse({ ...basePool, currency: 'MXN', contributionAmount: 200 }).success).toBe(true);
+      expect(CreatePoolSchema.safeParse({ ...basePool, contributionAmount: 200 }).success).toBe(false);
+    });
+
+    it('rejects unsupported currencies', () => {
+      expect(CreatePoolSchema.safeParse({ ...basePool, currency: 'EUR' }).success).toBe(false);
+    });
+  });
+
+  describe('payment links', () => {
+    const params = { recipientHandle: 'maria', amount: 200, note: 'Round 1' };
+
+    it('only links apps that can send the currency', () => {
+      expect(supportsDeepLinkIn('venmo', 'USD')).toBe(true);
+      expect(supportsDeepLinkIn('venmo', 'MXN')).toBe(false);
+      expect(supportsDeepLinkIn('paypal', 'GTQ')).toBe(false);
+      expect(supportsDeepLink('cashapp', 'MXN')).toBe(false);
+    });
+
+    it('returns no link for apps that can\'t send the currency', () => {
+      expect(generatePayoutLink('venmo', { ...params, currency: 'MXN' })).toBeNull();
+      expect(generatePayoutLink('cashapp', { ...params, currency: 'DOP' })).toBeNull();
+    });
+
+    it('puts the currency in PayPal links', () => {
+      expect(generatePayoutLink('paypal', { ...params, currency: 'MXN' })).toMatch(/MXN$/);
+      expect(generatePayoutLink('paypal', params)).toMatch(/USD$/);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Unit tests for lib/email
+ * Tests retry backoff, bounce and complaint suppression, webhook parsing, and
+ * the capture provider
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createEmailService,
+  CaptureProvider,
+  getRetryDelayMs,
+  getRecipientHourlyLimit,
+  applyEmailEvent,
+  isSuppressedFor,
+  parseEmailEvents,
+  verifyEmailWebhookSecret,
+  EMAIL_RECIPIENT_WINDOW_MS,
+  SOFT_BOUNCE_SUPPRESSION_THRESHOLD,
+  SOFT_BOUNCE_WINDOW_DAYS,
+} from '@/lib/email/index';
+import {
+  supportTicketSubject,
+  supportTicketTemplate,
+  supportTicketPlainText,
+} from '@/lib/email/templates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requestWithAuth(value?: string) {
+  return { headers: new Headers(value ? { authorization: value } : {}) };
+}
+
+describe('Email', () => {
+  describe('getRetryDelayMs', () => {
+    it('should double the delay after each failed attempt', () => {
+      expect(getRetryDelayMs(1)).toBe(60 * 1000);
+      expect(getRetryDelayMs(2)).toBe(2 * 60 * 1000);
+      expect(getRetryDelayMs(4)).toBe(8 * 60 * 1000);
+    });
+
+    it('should cap the delay at six hours', () => {
+      expect(getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('getRecipientHourlyLimit', () => {
+    const original = process.env.EMAIL_RECIPIENT_HOURLY_LIMIT;
+
+    afterEach(() => {
+      process.env.EMAIL_RECIPIENT_HOURLY_LIMIT = original;
+    });
+
+    it('should read the limit from the environment and fall back to the default', () => {
+      process.env.EMAIL_RECIPIENT_HOURLY_LIMIT = '5';
+      expect(getRecipientHourlyLimit()).toBe(5);
+
+      process.env.EMAIL_RECIPIENT_HOURLY_LIMIT = 'abc';
+      expect(getRecipientHourlyLimit()).toBe(20);
+      expect(EMAIL_RECIPIENT_WINDOW_MS).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('applyEmailEvent', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    it('should suppress an address at once after a hard bounce or complaint', () => {
+      const bounced = applyEmailEvent(null, { type: 'bounce', bounceType: 'hard', email: 'a@example.com' }, now);
+      expect(bounced).toMatchObject({ suppressed: true, reason: 'hard_bounce', suppressedAt: now });
+
+      const complained = applyEmailEvent(null, { type: 'complaint', email: 'a@example.com' }, now);
+      expect(complained).toMatchObject({ suppressed: true, reason: 'complaint' });
+    });
+
+    it('should suppress after repeated soft bounces within the window', () => {
+      let state = applyEmailEvent(null, { type: 'bounce', bounceType: 'soft', email: 'a@example.com' }, now);
+      expect(state.suppressed).toBe(false);
+
+      for (let i = 1; i < SOFT_BOUNCE_SUPPRESSION_THRESHOLD; i++) {
+        state = applyEmailEvent(state, { type: 'bounce', bounceType: 'soft', email: 'a@example.com' }, now);
+      }
+      expect(state).toMatchObject({ suppressed: true, reason: 'soft_bounce' });
+      expect(state.softBounceCount).toBe(SOFT_BOUNCE_SUPPRESSION_THRESHOLD);
+    });
+
+    it('should restart the soft bounce count after the window passes', () => {
+      const earlier = new Date(now.getTime() - (SOFT_BOUNCE_WINDOW_DAYS + 1) * DAY_MS);
+      const first = applyEmailEvent(null, { type: 'bounce', bounceType: 'soft', email: 'a@example.com' }, earlier);
+      const second = applyEmailEvent(first, { type: 'bounce', bounceType: 'soft', email: 'a@example.com' }, now);
+
+      expect(second.softBounceCount).toBe(1);
+      expect(second.suppressed).toBe(false);
+    });
+
+    it('should keep a suppression and only upgrade its reason', () => {
+      const complained = applyEmailEvent(null, { type: 'complaint', email: 'a@example.com' }, now);
+      const soft = applyEmailEvent(complained, { type: 'bounce', bounceType: 'soft', email: 'a@example.com' }, now);
+      expect(soft).toMatchObject({ suppressed: true, reason: 'complaint' });
+
+      const hard = applyEmailEvent(soft, { type: 'bounce', bounceType: 'hard', email: 'a@example.com' }, now);
+      expect(hard).toMatchObject({ suppressed: true, reason: 'hard_bounce', suppressedAt: now });
+    });
+  });
+
+  describe('isSuppressedFor', () => {
+    it('should let high priority mail through to complaining addresses only', () => {
+      const complaint = { suppressed: true, reason: 'complaint' as const };
+      const bounce = { suppressed: true, reason: 'hard_bounce' as const };
+
+      expect(isSuppressedFor(complaint, 'normal')).toBe(true);
+      expect(isSuppressedFor(complaint, 'high')).toBe(false);
+      expect(isSuppressedFor(bounce, 'high')).toBe(true);
+      expect(isSuppressedFor({ suppressed: false, reason: 'soft_bounce' }, 'normal')).toBe(false);
+      expect(isSuppressedFor(null)).toBe(false);
+    });
+  });
+
+  describe('parseEmailEvents', () => {
+    it('should accept one event or a list and drop invalid entries', () => {
+      expect(parseEmailEvents({ type: 'complaint', email: ' User@Example.com ' })).toEqual([
+        { type: 'complaint', email: 'user@example.com', bounceType: undefined, details: undefined },
+      ]);
+
+      const events = parseEmailEvents({
+        events: [
+          { type: 'bounce', bounceType: 'soft', email: 'a@example.com', details: 'Mailbox full' },
+          { type: 'bounce', email: 'b@example.com' },
+          { type: 'delivered', email: 'c@example.com' },
+          { type: 'bounce', email: 'not-an-email' },
+          null,
+        ],
+      });
+
+      expect(events).toEqual([
+        { type: 'bounce', bounceType: 'soft', email: 'a@example.com', details: 'Mailbox full' },
+        { type: 'bounce', bounceType: 'hard', email: 'b@example.com', details: undefined },
+      ]);
+    });
+  });
+
+  describe('verifyEmailWebhookSecret', () => {
+    const original = process.env.EMAIL_WEBHOOK_SECRET;
+
+    afterEach(() => {
+      process.env.EMAIL_WEBHOOK_SECRET = original;
+    });
+
+    it('should require the configured bearer secret', () => {
+      process.env.EMAIL_WEBHOOK_SECRET = 'webhook-secret';
+
+      expect(verifyEmailWebhookSecret(requestWithAuth('Bearer webhook-secret'))).toBe(true);
+      expect(verifyEmailWebhookSecret(requestWithAuth('Bearer wrong-secret'))).toBe(false);
+      expect(verifyEmailWebhookSecret(requestWithAuth())).toBe(false);
+    });
+
+    it('should reject every request when no secret is configured', () => {
+      delete process.env.EMAIL_WEBHOOK_SECRET;
+      expect(verifyEmailWebhookSecret(requestWithAuth('Bearer '))).toBe(false);
+    });
+  });
+
+  describe('CaptureProvider', () => {
+    it('should be the default provider in tests', () => {
+      const service = createEmailService({
+        defaultFrom: 'noreply@example.com',
+        smtp: { auth: { user: '', pass: '' } },
+      });
+      expect(service.providerName).toBe('capture');
+    });
+
+    it('should keep sent mail in memory', async () => {
+      const provider = new CaptureProvider({ defaultFrom: 'noreply@example.com' });
+      const result = await provider.send({
+        to: { email: 'Member@Example.com', name: 'Member' },
+        subject: 'Payment Reminder',
+        html: '<p>Due soon</p>',
+      });
+
+      expect(result).toMatchObject({ success: true, provider: 'capture' });
+      expect(provider.messagesTo('member@example.com')).toHaveLength(1);
+      expect(provider.messages[0]).toMatchObject({ from: 'noreply@example.com', subject: 'Payment Reminder' });
+
+      provider.clear();
+      expect(provider.messages).toHaveLength(0);
+    });
+
+    it('should report simulated failures', async () => {
+      const provider = new CaptureProvider();
+      provider.simulateFailure('550 Mailbox does not exist', { permanent: true });
+
+      const result = await provider.send({ to: 'a@example.com', subject: 'Hi', html: '<p>Hi</p>' });
+      expect(result).toMatchObject({ success: false, permanent: true, error: '550 Mailbox does not exist' });
+      expect(provider.messages).toHaveLength(0);
+    });
+
+    it('should write rendered mail to the capture directory', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-capture-'));
+      try {
+        const provider = new CaptureProvider({ directory });
+        await provider.send({ to: 'a@example.com', subject: 'Verify your account', html: '<p>123456</p>', text: '123456' });
+
+        const { files } = provider.messages[0];
+        expect(await fs.readFile(files!.html, 'utf8')).toBe('<p>123456</p>');
+        expect(JSON.parse(await fs.readFile(files!.json, 'utf8'))).toMatchObject({
+          to: 'a@example.com',
+          subject: 'Verify your account',
+          text: '123456',
+        });
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('support ticket template', () => {
+    const ticket = {
+      ticketId: 'TKT-1',
+      subject: 'Payout <missing>',
+      status: 'in_progress',
+      category: 'payments',
+      priority: 'high',
+      fromName: 'Ana',
+      fromEmail: 'ana@example.com',
+      message: 'Round 2 never arrived',
+    };
+
+    it('should give the support inbox the ticket details and the user\'s message', () => {
+      const data = { ...ticket, event: 'new_ticket' as const };
+
+      expect(supportTicketSubject(data)).toBe('[payments] Payout <missing> (TKT-1)');
+      const html = supportTicketTemplate(data);
+      expect(html).toContain('Payout &lt;missing&gt;');
+      expect(html).toContain('ana@example.com');
+      expect(supportTicketPlainText(data)).toContain('Ana opened ticket TKT-1.\n');
+      expect(supportTicketPlainText(data)).toContain('Round 2 never arrived');
+    });
+
+    it('should tell the user about a status change without the staff-only fields', () => {
+      const data = { ...ticket, event: 'ticket_updated' as const, recipientName: 'Ana', message: undefined };
+
+      expect(supportTicketSubject(data)).toBe('Re: Payout <missing> (TKT-1)');
+      const text = supportTicketPlainText(data);
+      expect(text).toContain('Hi Ana,');
+      expect(text).toContain('Ticket TKT-1 is now in progress.');
+      expect(text).not.toContain('ana@example.com');
+    });
+  });
+});
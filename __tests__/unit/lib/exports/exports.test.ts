@@ -0,0 +1,214 @@
+/**
+ * Unit tests for lib/exports
+ * Tests CSV escaping, OFX structure, PDF output, and the payout schedule
+ * @jest-environment node
+ */
+
+import {
+  toCsv,
+  formatCsvCell,
+  toOfx,
+  formatOfxDate,
+  renderPdf,
+  wrapText,
+  escapePdfText,
+  getSignedAmount,
+  paymentHistoryToOfx,
+  buildPayoutSchedule,
+  renderRoundStatement,
+  getStatementFilename,
+  StatementPool,
+} from '@/lib/exports';
+import type { PaymentHistoryItem } from '@/lib/payments/history';
+import type { RoundHistory } from '@/lib/payments/types';
+
+describe('Exports', () => {
+  const historyItem = (overrides: Partial<PaymentHistoryItem>): PaymentHistoryItem => ({
+    id: 'tx-1',
+    paymentId: 'pmt_1',
+    poolId: 'pool-1',
+    poolName: 'Family Pool',
+    amount: 50,
+    currency: 'USD',
+    type: 'contribution',
+    status: 'completed',
+    description: 'Round 1 contribution',
+    member: 'Ana',
+    round: 1,
+    createdAt: new Date('2024-03-01T12:00:00Z'),
+    source: 'payment',
+    ...overrides,
+  });
+
+  const pool = (): StatementPool => ({
+    id: 'pool-1',
+    name: 'Family Pool',
+    status: 'active',
+    contributionAmount: 50,
+    frequency: 'weekly',
+    currentRound: 2,
+    totalRounds: 3,
+    startDate: '2024-03-08T00:00:00.000Z',
+    members: [
+      { id: 1, name: 'Ana', position: 1, payoutReceived: true, payoutDate: '2024-03-08T00:00:00.000Z' },
+      { id: 2, name: 'Luis', position: 2 },
+      { id: 3, name: 'Rosa', position: 3 },
+    ],
+  });
+
+  const round = (overrides: Partial<RoundHistory> = {}): RoundHistory => ({
+    id: 'round-1',
+    poolId: 'pool-1',
+    cycle: 0,
+    roundNumber: 1,
+    dueDate: new Date('2024-03-08T00:00:00Z'),
+    isArchived: true,
+    winnerId: '1',
+    winnerName: 'Ana',
+    winnerEmail: 'ana@example.com',
+    contributionAmount: 50,
+    totalMembers: 3,
+    potAmount: 150,
+    status: 'completed',
+    payoutStatus: 'completed',
+    payoutCompletedAt: new Date('2024-03-09T00:00:00Z'),
+    paymentsCollected: 3,
+    paymentsVerified: 3,
+    paymentsLate: 0,
+    paymentsMissed: 0,
+    paymentsExcused: 0,
+    totalPaymentsExpected: 3,
+    amountCollected: 150,
+    payments: [],
+    transactions: [],
+    createdAt: new Date('2024-03-01T00:00:00Z'),
+    updatedAt: new Date('2024-03-09T00:00:00Z'),
+    ...overrides,
+  });
+
+  describe('CSV', () => {
+    it('should quote cells with commas, quotes, and line breaks', () => {
+      expect(formatCsvCell('plain')).toBe('plain');
+      expect(formatCsvCell('a, b')).toBe('"a, b"');
+      expect(formatCsvCell('say "hi"')).toBe('"say ""hi"""');
+      expect(formatCsvCell('two\nlines')).toBe('"two\nlines"');
+      expect(formatCsvCell(null)).toBe('');
+    });
+
+    it('should keep text cells from opening as formulas', () => {
+      expect(formatCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+      expect(formatCsvCell(-50)).toBe('-50');
+    });
+
+    it('should write a BOM, a header row, and CRLF line breaks', () => {
+      const csv = toCsv([{ a: 1, b: 'x' }], [
+        { header: 'A', value: row => row.a },
+        { header: 'B', value: row => row.b },
+      ]);
+
+      expect(csv).toBe('\uFEFFA,B\r\n1,x\r\n');
+    });
+  });
+
+  describe('OFX', () => {
+    it('should format dates in UTC', () => {
+      expect(formatOfxDate(new Date('2024-03-01T09:05:07Z'))).toBe('20240301090507');
+    });
+
+    it('should sign amounts from the member side and skip unsettled rows', () => {
+      expect(getSignedAmount({ type: 'contribution', amount: 50 })).toBe(-50);
+      expect(getSignedAmount({ type: 'payout', amount: 150 })).toBe(150);
+
+      const ofx = paymentHistoryToOfx(
+        [
+          historyItem({}),
+          historyItem({ paymentId: 'pmt_2', type: 'payout', amount: 150 }),
+          historyItem({ paymentId: 'pmt_3', status: 'pending' }),
+        ],
+        { accountId: 'user-1', generatedAt: new Date('2024-03-10T00:00:00Z') }
+      );
+
+      expect(ofx.match(/<STMTTRN>/g)).toHaveLength(2);
+      expect(ofx).toContain('<TRNTYPE>DEBIT\r\n<DTPOSTED>20240301120000\r\n<TRNAMT>-50.00\r\n<FITID>pmt_1');
+      expect(ofx).toContain('<TRNTYPE>CREDIT');
+      expect(ofx).toContain('<BALAMT>100.00');
+      expect(ofx).not.toContain('pmt_3');
+    });
+
+    it('should escape markup in names', () => {
+      const ofx = toOfx({
+        accountId: 'user-1',
+        currency: 'USD',
+        transactions: [{ id: 't1', date: new Date('2024-03-01T00:00:00Z'), amount: -5, name: 'Tom & <Jerry>' }],
+      });
+
+      expect(ofx).toContain('<NAME>Tom &amp; &lt;Jerry&gt;');
+      expect(ofx.startsWith('OFXHEADER:100\r\nDATA:OFXSGML')).toBe(true);
+    });
+  });
+
+  describe('PDF', () => {
+    it('should wrap on spaces and break long words', () => {
+      expect(wrapText('one two three', 7)).toEqual(['one two', 'three']);
+      expect(wrapText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+
+    it('should escape string delimiters and replace characters outside WinAnsi', () => {
+      expect(escapePdfText('a (b) \\ c')).toBe('a \\(b\\) \\\\ c');
+      expect(escapePdfText('Peña – 日本')).toBe('Peña - ??');
+    });
+
+    it('should produce a valid document with one page per overflow', () => {
+      const lines = Array.from({ length: 80 }, (_, i) => ({ text: `Line ${i + 1}` }));
+      const pdf = renderPdf(lines, { title: 'Test', generatedAt: new Date('2024-03-01T00:00:00Z') });
+      const text = pdf.toString('latin1');
+
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(text).toContain('/Count 2');
+      expect(text).toContain('(Test - Page 2 of 2)');
+
+      // The xref offset points at the xref table
+      const startxref = parseInt(text.match(/startxref\n(\d+)/)![1], 10);
+      expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    });
+  });
+
+  describe('Statements', () => {
+    it('should build the payout schedule from the archive and estimated dates', () => {
+      const schedule = buildPayoutSchedule(pool(), [
+        round(),
+        round({ id: 'live', roundNumber: 2, isArchived: false, winnerName: 'Luis', payoutStatus: 'pending_collection' }),
+      ]);
+
+      expect(schedule).toEqual([
+        { round: 1, recipient: 'Ana', date: '2024-03-09', status: 'Paid' },
+        { round: 2, recipient: 'Luis', date: '2024-03-15', status: 'Collecting' },
+        { round: 3, recipient: 'Rosa', date: '2024-03-22', status: 'Scheduled' },
+      ]);
+    });
+
+    it('should render a round statement with each member\'s verification status', () => {
+      const pdf = renderRoundStatement(
+        pool(),
+        round({
+          payments: [
+            { memberId: 1, memberName: 'Ana', amount: 50, status: 'admin_verified', reminderCount: 0 },
+            { memberId: 2, memberName: 'Luis', amount: 50, status: 'member_confirmed', reminderCount: 0, lateFee: 5 },
+          ],
+        }),
+        new Date('2024-03-10T00:00:00Z')
+      ).toString('latin1');
+
+      expect(pdf).toContain('Verified');
+      expect(pdf).toContain('Awaiting verification');
+      expect(pdf).toContain('$5.00');
+      expect(pdf).not.toContain('ana@example.com');
+    });
+
+    it('should slug the pool name for the filename', () => {
+      expect(getStatementFilename('Family Pool #1')).toBe('family-pool-1-statement.pdf');
+      expect(getStatementFilename('Family Pool', 3)).toBe('family-pool-round-3.pdf');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for lib/i18n
+ * Tests catalog completeness, translation fallback and plurals, locale
+ * negotiation, per-locale formatting, and localized email templates
+ * @jest-environment node
+ */
+
+import {
+  translate,
+  interpolate,
+  isTranslationKey,
+  translateFrequency,
+  translateTransactionType,
+  translateTransactionStatus,
+  negotiateLocale,
+  resolveLocale,
+  getRequestLocale,
+  formatCurrency,
+  formatDate,
+  findAllCatalogIssues,
+  findCatalogIssues,
+} from '@/lib/i18n';
+import { catalogs } from '@/lib/i18n/messages';
+import {
+  paymentReminderSubject,
+  paymentReminderTemplate,
+  paymentReminderPlainText,
+  poolInvitationSubject,
+  poolInvitationPlainText,
+} from '@/lib/email/templates';
+
+describe('Localization', () => {
+  describe('catalogs', () => {
+    // This is the CI check for translations; `npm run i18n:check` runs just these
+    it('should have every key, with the same placeholders, in every locale', () => {
+      expect(findAllCatalogIssues()).toEqual([]);
+    });
+
+    it('should report keys missing from a catalog', () => {
+      const original = catalogs.es['nav.dashboard'];
+      delete catalogs.es['nav.dashboard'];
+      try {
+        expect(findCatalogIssues('es').missing).toEqual(['nav.dashboard']);
+      } finally {
+        catalogs.es['nav.dashboard'] = original;
+      }
+    });
+
+    it('should report messages whose placeholders differ from English', () => {
+      const original = catalogs.pt['email.greeting'];
+      catalogs.pt['email.greeting'] = 'Olá, {nome},';
+      try {
+        expect(findCatalogIssues('pt').placeholderMismatches).toEqual(['email.greeting']);
+      } finally {
+        catalogs.pt['email.greeting'] = original;
+      }
+    });
+  });
+
+  describe('translate', () => {
+    it('should translate and interpolate placeholders', () => {
+      expect(translate('es', 'email.greeting', { name: 'Ana' })).toBe('Hola, Ana:');
+      expect(translate('pt', 'email.greeting', { name: 'Ana' })).toBe('Olá, Ana,');
+      expect(translate('en', 'email.greeting', { name: 'Ana' })).toBe('Hi Ana,');
+    });
+
+    it('should pick the plural form for the count', () => {
+      expect(translate('en', 'email.days', { count: 1 })).toBe('1 day');
+      expect(translate('en', 'email.days', { count: 7 })).toBe('7 days');
+      expect(translate('es', 'email.days', { count: 1 })).toBe('1 día');
+      expect(translate('pt', 'email.days', { count: 3 })).toBe('3 dias');
+    });
+
+    it('should fall back to English and then to the key', () => {
+      const original = catalogs.es['nav.help'];
+      delete catalogs.es['nav.help'];
+      try {
+        expect(translate('es', 'nav.help')).toBe('Help');
+      } finally {
+        catalogs.es['nav.help'] = original;
+      }
+      expect(translate('es', 'nav.unknown' as never)).toBe('nav.unknown');
+    });
+
+    it('should leave unknown placeholders as they are', () => {
+      expect(interpolate('{a} and {b}', { a: 1 })).toBe('1 and {b}');
+    });
+
+    it('should recognise message and plural keys built at runtime', () => {
+      expect(isTranslationKey('frequency.weekly')).toBe(true);
+      expect(isTranslationKey('email.days')).toBe(true);
+      expect(isTranslationKey('frequency.daily')).toBe(false);
+    });
+
+    it('should translate pool frequencies for use mid-sentence', () => {
+      expect(translateFrequency('en', 'monthly')).toBe('monthly');
+      expect(translateFrequency('es', 'Weekly')).toBe('semanal');
+      expect(translateFrequency('pt', 'daily')).toBe('daily');
+    });
+
+    it('should label transaction types and statuses, keeping unknown values', () => {
+      expect(translateTransactionType('es', 'payout')).toBe('Pago');
+      expect(translateTransactionType('pt', 'Refund')).toBe('Reembolso');
+      expect(translateTransactionStatus('en', 'escrowed')).toBe('Escrowed');
+      expect(translateTransactionStatus('es', 'on_hold')).toBe('on_hold');
+    });
+  });
+
+  describe('locale selection', () => {
+    it('should choose the best supported language from Accept-Language', () => {
+      expect(negotiateLocale('pt-BR,pt;q=0.9,en;q=0.8')).toBe('pt');
+      expect(negotiateLocale('fr-FR,fr;q=0.9,es;q=0.5,en;q=0.3')).toBe('es');
+      expect(negotiateLocale('en;q=0.2, es-MX')).toBe('es');
+      expect(negotiateLocale('de')).toBe('en');
+      expect(negotiateLocale(null)).toBe('en');
+    });
+
+    it('should prefer the saved cookie over the browser', () => {
+      expect(getRequestLocale('pt', 'es')).toBe('pt');
+      expect(getRequestLocale('fr', 'es')).toBe('es');
+      expect(getRequestLocale(undefined, undefined)).toBe('en');
+    });
+
+    it('should resolve stored values to a supported locale', () => {
+      expect(resolveLocale('es-MX')).toBe('es');
+      expect(resolveLocale('fr')).toBe('en');
+      expect(resolveLocale(undefined)).toBe('en');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format currency for each locale', () => {
+      expect(formatCurrency(1234.5, 'en')).toBe('$1,234.50');
+      expect(formatCurrency(1234.5, 'pt')).toMatch(/^US\$\s1\.234,50$/);
+      expect(formatCurrency(1234.5, 'es', 'MXN')).toBe('$1,234.50');
+    });
+
+    it('should format dates in the locale and time zone given', () => {
+      const date = new Date('2026-03-05T12:00:00Z');
+      expect(formatDate(date, 'en', 'long', 'UTC')).toBe('Thursday, March 5, 2026');
+      expect(formatDate(date, 'es', 'long', 'UTC')).toBe('jueves, 5 de marzo de 2026');
+      expect(formatDate(date, 'pt', 'long', 'UTC')).toBe('quinta-feira, 5 de março de 2026');
+    });
+  });
+
+  describe('email templates', () => {
+    const reminder = {
+      recipientName: 'Lucía',
+      poolName: 'Tanda Familiar',
+      amount: 100,
+      dueDate: '2026-03-05T12:00:00Z',
+      round: 2,
+      totalRounds: 5,
+      adminPaymentMethods: { venmo: 'ana-admin', preferred: 'venmo' as const },
+    };
+
+    it('should write the payment reminder in the recipient language', () => {
+      expect(paymentReminderSubject({ ...reminder, locale: 'es' })).toBe('Recordatorio de pago - Tanda Familiar');
+
+      const html = paymentReminderTemplate({ ...reminder, locale: 'es' });
+      expect(html).toContain('<html lang="es"');
+      expect(html).toContain('Detalles del pago');
+      expect(html).toContain('2 de 5');
+
+      const text = paymentReminderPlainText({ ...reminder, locale: 'pt' });
+      expect(text).toContain('DETALHES DO PAGAMENTO');
+      expect(text).toContain('Venmo: ana-admin (Preferida)');
+    });
+
+    it('should keep English as the default', () => {
+      expect(paymentReminderSubject(reminder)).toBe('Payment Reminder - Tanda Familiar');
+      expect(paymentReminderPlainText(reminder)).toContain('PAYMENT DETAILS');
+    });
+
+    it('should write the invitation in the recipient language', () => {
+      const invitation = {
+        poolName: 'Tanda Familiar',
+        inviterName: 'Ana',
+        contributionAmount: 50,
+        frequency: 'weekly',
+        memberCount: 4,
+        invitationUrl: 'https://example.com/pools/join?code=abc',
+        expiresInDays: 7,
+        locale: 'es' as const,
+      };
+
+      expect(poolInvitationSubject(invitation)).toBe('¡Te invitaron a unirte a Tanda Familiar!');
+
+      const text = poolInvitationPlainText(invitation);
+      expect(text).toContain('Ana te invitó a unirte a la tanda de ahorro "Tanda Familiar".');
+      expect(text).toContain('Semanal');
+      expect(text).toContain('7 días');
+    });
+  });
+});
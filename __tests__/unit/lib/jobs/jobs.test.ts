@@ -0,0 +1,96 @@
+/**
+ * Unit tests for lib/jobs
+ * Tests job registry lookups, idempotency keys, and endpoint access checks
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  listJobs,
+  getJob,
+  isJobName,
+  getIdempotencyKey,
+  verifyCronSecret,
+  isAdminEmail,
+} from '@/lib/jobs';
+
+describe('Scheduled jobs', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('registry', () => {
+    it('should register every scheduled job in run order', () => {
+      expect(listJobs().map(job => job.name)).toEqual([
+        'reminders',
+        'digests',
+        'late-payments',
+        'round-advance',
+        'invitation-expiry',
+        'email-queue',
+      ]);
+    });
+
+    it('should look up jobs by name', () => {
+      expect(getJob('digests')?.period).toBe('hour');
+      expect(getJob('collections')).toBeUndefined();
+      expect(isJobName('invitation-expiry')).toBe(true);
+      expect(isJobName('process')).toBe(false);
+      expect(isJobName(undefined)).toBe(false);
+    });
+  });
+
+  describe('getIdempotencyKey', () => {
+    it('should key hourly jobs by UTC hour', () => {
+      const job = getJob('reminders')!;
+
+      expect(getIdempotencyKey(job, new Date('2024-03-01T08:05:00Z'))).toBe('reminders:2024-03-01T08');
+      expect(getIdempotencyKey(job, new Date('2024-03-01T08:59:59Z'))).toBe('reminders:2024-03-01T08');
+      expect(getIdempotencyKey(job, new Date('2024-03-01T09:00:00Z'))).toBe('reminders:2024-03-01T09');
+    });
+
+    it('should key daily jobs by UTC date', () => {
+      const job = getJob('invitation-expiry')!;
+
+      expect(getIdempotencyKey(job, new Date('2024-03-01T00:00:00Z'))).toBe('invitation-expiry:2024-03-01');
+      expect(getIdempotencyKey(job, new Date('2024-03-01T23:59:59Z'))).toBe('invitation-expiry:2024-03-01');
+    });
+  });
+
+  describe('verifyCronSecret', () => {
+    const request = (headers: Record<string, string> = {}) =>
+      new NextRequest('http://localhost/api/cron/jobs', { headers });
+
+    it('should accept the bearer secret', () => {
+      process.env.CRON_SECRET = 'cron-secret';
+
+      expect(verifyCronSecret(request({ authorization: 'Bearer cron-secret' }))).toBe(true);
+      expect(verifyCronSecret(request({ authorization: 'Bearer wrong' }))).toBe(false);
+      expect(verifyCronSecret(request())).toBe(false);
+    });
+
+    it('should reject requests when no secret is configured outside development', () => {
+      delete process.env.CRON_SECRET;
+      (process.env as Record<string, string>).NODE_ENV = 'production';
+
+      expect(verifyCronSecret(request({ authorization: 'Bearer anything' }))).toBe(false);
+    });
+  });
+
+  describe('isAdminEmail', () => {
+    it('should match configured admins case-insensitively', () => {
+      process.env.ADMIN_EMAILS = 'ops@example.com, Admin@Example.com';
+
+      expect(isAdminEmail('admin@example.com')).toBe(true);
+      expect(isAdminEmail('OPS@example.com')).toBe(true);
+      expect(isAdminEmail('member@example.com')).toBe(false);
+      expect(isAdminEmail(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for lib/ledger
+ * Tests entry lines, balances, and the reconciliation report
+ * @jest-environment node
+ */
+
+import {
+  buildLedgerLines,
+  isBalanced,
+  ledgerKeys,
+  computeLedgerBalances,
+  collectExpectedEntries,
+  buildReconciliationReport,
+  DiscrepancyType,
+  LedgerEntryType,
+  LedgerAccount,
+  LedgerPool,
+} from '@/lib/ledger';
+
+describe('Pool ledger', () => {
+  const entry = (type: LedgerEntryType, memberId: number, amount: number, sourceKey: string) => ({
+    entryId: `led_${sourceKey}`,
+    type,
+    amount,
+    sourceKey,
+    lines: buildLedgerLines(type, memberId, amount),
+  });
+
+  const basePool = (): LedgerPool => ({
+    id: 'pool-1',
+    currentCycle: 0,
+    currentRound: 2,
+    members: [
+      { id: 1, name: 'Ana', userId: 'user-1', totalContributed: 20 },
+      { id: 2, name: 'Luis', userId: 'user-2', totalContributed: 10 },
+    ],
+    transactions: [],
+    currentRoundPayments: [],
+  });
+
+  describe('buildLedgerLines', () => {
+    it('should produce balanced lines for every entry type', () => {
+      for (const type of Object.values(LedgerEntryType)) {
+        expect(isBalanced(buildLedgerLines(type, 1, 12.34))).toBe(true);
+      }
+    });
+
+    it('should credit the member for contributions and debit them for payouts', () => {
+      expect(buildLedgerLines(LedgerEntryType.CONTRIBUTION, 1, 10)).toEqual([
+        { account: LedgerAccount.POOL_CASH, debit: 10, credit: 0 },
+        { account: LedgerAccount.MEMBER, memberId: 1, debit: 0, credit: 10 },
+      ]);
+      expect(buildLedgerLines(LedgerEntryType.PAYOUT, 1, 20)).toEqual([
+        { account: LedgerAccount.MEMBER, memberId: 1, debit: 20, credit: 0 },
+        { account: LedgerAccount.POOL_CASH, debit: 0, credit: 20 },
+      ]);
+    });
+
+    it('should detect unbalanced lines to the cent', () => {
+      expect(isBalanced([{ debit: 0.1 + 0.2, credit: 0 }, { debit: 0, credit: 0.3 }])).toBe(true);
+      expect(isBalanced([{ debit: 10, credit: 0 }, { debit: 0, credit: 9.99 }])).toBe(false);
+    });
+  });
+
+  describe('computeLedgerBalances', () => {
+    it('should total pool cash, fees, and member positions', () => {
+      const balances = computeLedgerBalances([
+        entry(LedgerEntryType.CONTRIBUTION, 1, 10, 'c1'),
+        entry(LedgerEntryType.CONTRIBUTION, 2, 10, 'c2'),
+        entry(LedgerEntryType.PAYOUT, 1, 20, 'p1'),
+        entry(LedgerEntryType.LATE_FEE, 2, 2, 'f1'),
+        entry(LedgerEntryType.REFUND, 2, 5, 'r1'),
+      ]);
+
+      expect(balances.poolCash).toBe(-5);
+      expect(balances.fees).toBe(2);
+      expect(balances.members).toEqual([
+        { memberId: 1, contributed: 10, received: 20, fees: 0, adjustments: 0, balance: -10 },
+        { memberId: 2, contributed: 5, received: 0, fees: 2, adjustments: 0, balance: 3 },
+      ]);
+    });
+  });
+
+  describe('collectExpectedEntries', () => {
+    it('should merge the same contribution from every source into one entry', () => {
+      const pool = basePool();
+      pool.currentRoundPayments = [{ memberId: 1, amount: 10, status: 'admin_verified' }];
+      pool.transactions = [
+        { id: 1, type: 'contribution', amount: 10, date: '2024-03-01T00:00:00Z', member: 'Ana', status: 'completed', round: 2 },
+      ];
+
+      const { expected, conflicts } = collectExpectedEntries(pool, [
+        { paymentId: 'pmt_1', userId: 'user-1', amount: 10, type: 'contribution', status: 'completed', round: 2 },
+      ]);
+
+      expect(expected).toHaveLength(1);
+      expect(expected[0]).toMatchObject({ sourceKey: ledgerKeys.contribution(0, 2, 1), source: 'round_payment' });
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should flag sources that disagree on the amount', () => {
+      const pool = basePool();
+      pool.transactions = [
+        { id: 1, type: 'payout', amount: 20, date: '2024-03-01T00:00:00Z', member: 'Ana', status: 'completed', round: 1 },
+      ];
+
+      const { conflicts } = collectExpectedEntries(pool, [
+        { paymentId: 'pmt_2', userId: 'user-1', amount: 18, type: 'payout', status: 'completed', round: 1 },
+      ]);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({ type: DiscrepancyType.AMOUNT_MISMATCH, expected: 20, actual: 18 });
+    });
+
+    it('should skip pending transactions and unknown members', () => {
+      const pool = basePool();
+      pool.transactions = [
+        { id: 1, type: 'payout', amount: 20, date: '2024-03-01T00:00:00Z', member: 'Ana', status: 'pending', round: 1 },
+        { id: 2, type: 'contribution', amount: 10, date: '2024-03-01T00:00:00Z', member: 'Former member', status: 'completed', round: 1 },
+      ];
+
+      expect(collectExpectedEntries(pool).expected).toEqual([]);
+    });
+
+    it('should key transactions and payments from earlier cycles to their own cycle', () => {
+      const pool = { ...basePool(), currentCycle: 1 };
+      pool.transactions = [
+        { id: 1, type: 'payout', amount: 20, date: '2024-03-01T00:00:00Z', member: 'Ana', status: 'completed', round: 1, cycle: 0 },
+        { id: 2, type: 'payout', amount: 20, date: '2024-05-01T00:00:00Z', member: 'Luis', status: 'completed', round: 1 },
+      ];
+
+      const { expected, conflicts } = collectExpectedEntries(pool, [
+        { paymentId: 'pmt_3', userId: 'user-1', amount: 20, type: 'payout', status: 'completed', round: 1, cycle: 0 },
+      ]);
+
+      expect(expected.map(e => e.sourceKey)).toEqual([ledgerKeys.payout(0, 1), ledgerKeys.payout(1, 1)]);
+      expect(expected[0].cycle).toBe(0);
+      expect(conflicts).toEqual([]);
+    });
+  });
+
+  describe('buildReconciliationReport', () => {
+    it('should report a clean ledger as balanced', () => {
+      const pool = basePool();
+      pool.transactions = [
+        { id: 1, type: 'contribution', amount: 10, date: '2024-03-01T00:00:00Z', member: 'Ana', status: 'completed', round: 1 },
+        { id: 2, type: 'contribution', amount: 10, date: '2024-03-01T00:00:00Z', member: 'Ana', status: 'completed', round: 2 },
+        { id: 3, type: 'contribution', amount: 10, date: '2024-03-01T00:00:00Z', member: 'Luis', status: 'completed', round: 1 },
+      ];
+
+      const report = buildReconciliationReport(pool, [
+        entry(LedgerEntryType.CONTRIBUTION, 1, 10, ledgerKeys.contribution(0, 1, 1)),
+        entry(LedgerEntryType.CONTRIBUTION, 1, 10, ledgerKeys.contribution(0, 2, 1)),
+        entry(LedgerEntryType.CONTRIBUTION, 2, 10, ledgerKeys.contribution(0, 1, 2)),
+      ]);
+
+      expect(report.discrepancies).toEqual([]);
+      expect(report.balanced).toBe(true);
+      expect(report.balances.poolCash).toBe(30);
+    });
+
+    it('should flag missing entries and counters that drift from the ledger', () => {
+      const pool = basePool();
+      pool.members[1].totalContributed = 0;
+      pool.transactions = [
+        { id: 1, type: 'contribution', amount: 10, date: '2024-03-01T00:00:00Z', member: 'Luis', status: 'completed', round: 1 },
+      ];
+
+      const report = buildReconciliationReport(pool, []);
+      const types = report.discrepancies.map(d => [d.type, d.memberId]);
+
+      expect(types).toEqual([
+        [DiscrepancyType.MISSING_LEDGER_ENTRY, 2],
+        [DiscrepancyType.MEMBER_COUNTER_DRIFT, 1],
+        [DiscrepancyType.MEMBER_COUNTER_DRIFT, 2],
+      ]);
+      expect(report.discrepancies.every(d => d.repairable)).toBe(true);
+    });
+
+    it('should flag amount mismatches and negative cash as needing an admin', () => {
+      const pool = basePool();
+      pool.members = [{ id: 1, name: 'Ana', totalContributed: 0 }];
+      pool.transactions = [
+        { id: 1, type: 'payout', amount: 20, date: '2024-03-01T00:00:00Z', member: 'Ana', status: 'completed', round: 1 },
+      ];
+
+      const report = buildReconciliationReport(pool, [
+        entry(LedgerEntryType.PAYOUT, 1, 25, ledgerKeys.payout(0, 1)),
+      ]);
+
+      expect(report.discrepancies.map(d => d.type)).toEqual([
+        DiscrepancyType.AMOUNT_MISMATCH,
+        DiscrepancyType.NEGATIVE_CASH,
+      ]);
+      expect(report.discrepancies.some(d => d.repairable)).toBe(false);
+    });
+  });
+});
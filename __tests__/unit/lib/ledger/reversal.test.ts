@@ -0,0 +1,121 @@
+/**
+ * Unit tests for contribution reversals in lib/ledger
+ * Tests that an undone or disputed payment comes back out of the ledger and
+ * the member's counter, and counts again once it is paid again
+ * @jest-environment node
+ */
+
+import {
+  recordContribution,
+  reverseContribution,
+  computeLedgerBalances,
+  buildReconciliationReport,
+  LedgerEntryType,
+  LedgerPool,
+  LedgerSource,
+} from '@/lib/ledger';
+
+const mockEntries: any[] = [];
+const mockCounters = new Map<number, number>();
+
+jest.mock('@/lib/db/models/ledgerEntry', () => {
+  const actual = jest.requireActual('@/lib/db/models/ledgerEntry');
+  const matches = (entry: any, query: Record<string, unknown>) =>
+    Object.entries(query).every(([key, value]) => entry[key] === value);
+
+  const model = {
+    create: async (doc: any) => {
+      if (mockEntries.some(e => e.poolId === doc.poolId && e.sourceKey === doc.sourceKey)) {
+        throw Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+      }
+      mockEntries.push(doc);
+      return doc;
+    },
+    findOne: async (query: Record<string, unknown>) => mockEntries.find(e => matches(e, query)) || null,
+    countDocuments: async (query: Record<string, unknown>) => mockEntries.filter(e => matches(e, query)).length,
+  };
+
+  return { ...actual, getLedgerEntryModel: () => model };
+});
+
+jest.mock('@/lib/db/models/pool', () => {
+  const model = {
+    updateOne: async (_filter: unknown, update: any, options: any) => {
+      const memberId = options.arrayFilters[0]['member.id'];
+      const amount = update.$inc['members.$[member].totalContributed'];
+      mockCounters.set(memberId, (mockCounters.get(memberId) || 0) + amount);
+    },
+  };
+  return { __esModule: true, default: () => model, getPoolModel: () => model, Pool: model };
+});
+
+jest.mock('@/lib/analytics/rollups', () => ({
+  refreshPoolRollupsSafely: jest.fn(),
+}));
+
+describe('Contribution reversals', () => {
+  const options = { source: LedgerSource.ROUND_PAYMENT, round: 2 };
+
+  const pool: LedgerPool = {
+    id: 'pool-1',
+    currentCycle: 0,
+    currentRound: 2,
+    members: [
+      { id: 1, name: 'Ana', userId: 'user-1', totalContributed: 0 },
+      { id: 2, name: 'Luis', userId: 'user-2', totalContributed: 0 },
+    ],
+    transactions: [],
+    currentRoundPayments: [],
+  };
+
+  const memberBalance = (memberId: number) =>
+    computeLedgerBalances(mockEntries).members.find(m => m.memberId === memberId);
+
+  beforeEach(() => {
+    mockEntries.length = 0;
+    mockCounters.clear();
+  });
+
+  it('should take an undone payment back out and count it again once it is re-recorded', async () => {
+    await recordContribution(pool, 1, 10, options);
+    expect(memberBalance(1)?.contributed).toBe(10);
+
+    const reversal = await reverseContribution(pool, 1, 'Ana undid their contribution for round 2', options);
+    expect(reversal?.created).toBe(true);
+    expect(reversal?.entry.type).toBe(LedgerEntryType.REVERSAL);
+    expect(reversal?.entry.sourceKey).toBe('contribution:0:2:1:reversal');
+    expect(memberBalance(1)?.contributed).toBe(0);
+    expect(computeLedgerBalances(mockEntries).poolCash).toBe(0);
+    expect(mockCounters.get(1)).toBe(0);
+
+    const again = await recordContribution(pool, 1, 10, options);
+    expect(again.created).toBe(true);
+    expect(again.entry.sourceKey).toBe('contribution:0:2:1:2');
+    expect(memberBalance(1)?.contributed).toBe(10);
+    expect(computeLedgerBalances(mockEntries).poolCash).toBe(10);
+    expect(mockCounters.get(1)).toBe(10);
+
+    // The re-recorded payment matches the pool's transaction and counter
+    const report = buildReconciliationReport(
+      {
+        ...pool,
+        members: [{ ...pool.members[0], totalContributed: 10 }, pool.members[1]],
+        transactions: [
+          { id: 1, type: 'contribution', amount: 10, date: '2026-01-01', member: 'Ana', status: 'completed', round: 2 },
+        ],
+      },
+      mockEntries
+    );
+    expect(report.discrepancies).toEqual([]);
+  });
+
+  it('should not reverse a payment twice or one that was never recorded', async () => {
+    await recordContribution(pool, 1, 10, options);
+    await reverseContribution(pool, 1, 'Disputed', options);
+
+    expect(await reverseContribution(pool, 1, 'Disputed again', options)).toBeNull();
+    expect(await reverseContribution(pool, 2, 'Disputed', options)).toBeNull();
+    expect(memberBalance(1)?.contributed).toBe(0);
+    expect(mockCounters.get(1)).toBe(0);
+  });
+});
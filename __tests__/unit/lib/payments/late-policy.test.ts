@@ -0,0 +1,91 @@
+/**
+ * Unit tests for lib/payments/late-policy.ts
+ * Tests policy defaults, validation, and late/missed transitions
+ * @jest-environment node
+ */
+
+import {
+  DEFAULT_LATE_POLICY,
+  getLatePolicy,
+  validateLatePolicy,
+  getLatePaymentTransition,
+  isPaidOnTime,
+} from '@/lib/payments/late-policy';
+import { LatePaymentPolicy } from '@/types/pool';
+
+describe('Late payment policy', () => {
+  const dueDate = new Date('2024-03-01T00:00:00Z');
+  const daysAfterDue = (days: number) => new Date(dueDate.getTime() + days * 24 * 60 * 60 * 1000);
+  const policy: LatePaymentPolicy = { gracePeriodDays: 2, missedAfterDays: 5, lateFeeAmount: 1 };
+
+  describe('getLatePolicy', () => {
+    it('should use defaults when the pool has no policy', () => {
+      expect(getLatePolicy({})).toEqual(DEFAULT_LATE_POLICY);
+      expect(getLatePolicy({ latePolicy: null })).toEqual(DEFAULT_LATE_POLICY);
+    });
+
+    it('should fill in unset fields', () => {
+      expect(getLatePolicy({ latePolicy: { gracePeriodDays: 0 } })).toEqual({
+        ...DEFAULT_LATE_POLICY,
+        gracePeriodDays: 0,
+      });
+    });
+  });
+
+  describe('validateLatePolicy', () => {
+    it('should merge updates over the current policy', () => {
+      expect(validateLatePolicy({ lateFeeAmount: 2 }, policy, 10)).toEqual({
+        policy: { ...policy, lateFeeAmount: 2 },
+      });
+    });
+
+    it('should reject invalid values', () => {
+      expect(validateLatePolicy({ gracePeriodDays: -1 }, policy, 10).error).toBeDefined();
+      expect(validateLatePolicy({ gracePeriodDays: '2' }, policy, 10).error).toBeDefined();
+      expect(validateLatePolicy({ gracePeriodDays: 1.5 }, policy, 10).error).toBeDefined();
+      expect(validateLatePolicy({ missedAfterDays: 365 }, policy, 10).error).toBeDefined();
+    });
+
+    it('should require missed to come after the grace period', () => {
+      expect(validateLatePolicy({ missedAfterDays: 2 }, policy, 10).error).toMatch(/grace period/);
+    });
+
+    it('should cap the late fee at the contribution amount', () => {
+      expect(validateLatePolicy({ lateFeeAmount: 11 }, policy, 10).error).toMatch(/contribution amount/);
+    });
+  });
+
+  describe('getLatePaymentTransition', () => {
+    it('should leave payments alone during the grace period', () => {
+      expect(getLatePaymentTransition({ status: 'pending', dueDate }, policy, daysAfterDue(1))).toBeNull();
+    });
+
+    it('should mark pending payments late after the grace period', () => {
+      expect(getLatePaymentTransition({ status: 'pending', dueDate }, policy, daysAfterDue(2))).toBe('late');
+      expect(getLatePaymentTransition({ status: 'late', dueDate }, policy, daysAfterDue(3))).toBeNull();
+    });
+
+    it('should mark pending or late payments missed', () => {
+      expect(getLatePaymentTransition({ status: 'late', dueDate }, policy, daysAfterDue(5))).toBe('missed');
+      expect(getLatePaymentTransition({ status: 'pending', dueDate }, policy, daysAfterDue(6))).toBe('missed');
+    });
+
+    it('should ignore claimed, settled, and undated payments', () => {
+      const later = daysAfterDue(10);
+
+      expect(getLatePaymentTransition({ status: 'member_confirmed', dueDate }, policy, later)).toBeNull();
+      expect(getLatePaymentTransition({ status: 'admin_verified', dueDate }, policy, later)).toBeNull();
+      expect(getLatePaymentTransition({ status: 'excused', dueDate }, policy, later)).toBeNull();
+      expect(getLatePaymentTransition({ status: 'missed', dueDate }, policy, later)).toBeNull();
+      expect(getLatePaymentTransition({ status: 'pending' }, policy, later)).toBeNull();
+    });
+  });
+
+  describe('isPaidOnTime', () => {
+    it('should only count payments that never went late or missed', () => {
+      expect(isPaidOnTime({})).toBe(true);
+      expect(isPaidOnTime({ lateAt: dueDate })).toBe(false);
+      expect(isPaidOnTime({ missedAt: dueDate })).toBe(false);
+    });
+  });
+});
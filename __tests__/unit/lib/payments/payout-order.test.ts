@@ -0,0 +1,136 @@
+/**
+ * Unit tests for lib/payments/payout-order.ts
+ * Tests the seeded draw, swap validation, and bid resolution
+ */
+
+import {
+  hashDrawSeed,
+  runPayoutDraw,
+  verifyPayoutDraw,
+  getRoundRecipient,
+  validatePositionSwap,
+  swapMemberPositions,
+  resolveWinningBid,
+  getWinningDiscount,
+} from '@/lib/payments/payout-order';
+import { PayoutBid } from '@/types/pool';
+
+describe('Payout order', () => {
+  const seed = 'a'.repeat(64);
+
+  describe('runPayoutDraw', () => {
+    it('should be deterministic for the same seed', () => {
+      const first = runPayoutDraw([3, 1, 2, 4, 5], seed);
+      const second = runPayoutDraw([5, 4, 3, 2, 1], seed);
+
+      expect(first.order).toEqual(second.order);
+      expect(first.memberIds).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should include every member exactly once', () => {
+      const { order } = runPayoutDraw([1, 2, 3, 4, 5, 6], seed);
+      expect([...order].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('should produce different orders for different seeds', () => {
+      const ids = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+      const orders = new Set(
+        ['seed-1', 'seed-2', 'seed-3', 'seed-4'].map(s => runPayoutDraw(ids, s).order.join(','))
+      );
+      expect(orders.size).toBeGreaterThan(1);
+    });
+  });
+
+  describe('verifyPayoutDraw', () => {
+    it('should accept a draw that matches its commitment', () => {
+      const { memberIds, order } = runPayoutDraw([1, 2, 3, 4], seed);
+      expect(verifyPayoutDraw({ seedHash: hashDrawSeed(seed), seed, memberIds, order })).toBe(true);
+    });
+
+    it('should reject a seed that does not match the hash', () => {
+      const { memberIds, order } = runPayoutDraw([1, 2, 3, 4], seed);
+      expect(verifyPayoutDraw({ seedHash: hashDrawSeed('other'), seed, memberIds, order })).toBe(false);
+    });
+
+    it('should reject a tampered order', () => {
+      const { memberIds, order } = runPayoutDraw([1, 2, 3, 4], seed);
+      const tampered = [...order].reverse();
+      expect(verifyPayoutDraw({ seedHash: hashDrawSeed(seed), seed, memberIds, order: tampered })).toBe(false);
+    });
+
+    it('should not verify a draw that has not been revealed', () => {
+      expect(verifyPayoutDraw({ seedHash: hashDrawSeed(seed) })).toBe(false);
+    });
+  });
+
+  describe('position swaps', () => {
+    const createPool = () => ({
+      id: 'pool-1',
+      currentRound: 2,
+      currentRoundPayoutStatus: 'pending_collection',
+      members: [
+        { id: 1, name: 'Ana', position: 1, payoutReceived: true },
+        { id: 2, name: 'Ben', position: 2, payoutReceived: false },
+        { id: 3, name: 'Cruz', position: 3, payoutReceived: false },
+      ],
+    });
+
+    it('should find the recipient by position', () => {
+      expect(getRoundRecipient(createPool().members, 2)?.name).toBe('Ben');
+    });
+
+    it('should allow swapping upcoming positions', () => {
+      const pool = createPool();
+      const [, ben, cruz] = pool.members;
+
+      expect(validatePositionSwap(pool, ben, cruz)).toBeNull();
+
+      swapMemberPositions(ben, cruz);
+      expect(ben.position).toBe(3);
+      expect(cruz.position).toBe(2);
+    });
+
+    it('should reject swaps with a member who was already paid', () => {
+      const pool = createPool();
+      expect(validatePositionSwap(pool, pool.members[2], pool.members[0])).toMatch(/already received/);
+    });
+
+    it('should reject swapping the current round after payout', () => {
+      const pool = { ...createPool(), currentRoundPayoutStatus: 'paid' };
+      expect(validatePositionSwap(pool, pool.members[2], pool.members[1])).toMatch(/already been paid out/);
+    });
+
+    it('should reject swapping with yourself', () => {
+      const pool = createPool();
+      expect(validatePositionSwap(pool, pool.members[1], pool.members[1])).toMatch(/yourself/);
+    });
+  });
+
+  describe('bidding', () => {
+    const bids: PayoutBid[] = [
+      { round: 2, memberId: 2, discountAmount: 5, createdAt: '2024-01-01T00:00:00.000Z' },
+      { round: 2, memberId: 3, discountAmount: 8, createdAt: '2024-01-02T00:00:00.000Z' },
+      { round: 2, memberId: 4, discountAmount: 8, createdAt: '2024-01-01T12:00:00.000Z' },
+      { round: 3, memberId: 5, discountAmount: 20, createdAt: '2024-01-01T00:00:00.000Z' },
+    ];
+
+    it('should pick the highest discount for the round, earliest on ties', () => {
+      expect(resolveWinningBid(bids, 2)?.memberId).toBe(4);
+    });
+
+    it('should return null when the round has no bids', () => {
+      expect(resolveWinningBid(bids, 1)).toBeNull();
+    });
+
+    it('should only apply the discount of a winning bid', () => {
+      const pool = {
+        id: 'pool-1',
+        members: [],
+        payoutBids: [...bids.slice(0, 2), { ...bids[2], won: true }],
+      };
+
+      expect(getWinningDiscount(pool, 2)).toBe(8);
+      expect(getWinningDiscount(pool, 3)).toBe(0);
+    });
+  });
+});
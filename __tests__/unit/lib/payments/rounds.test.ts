@@ -0,0 +1,87 @@
+/**
+ * Unit tests for lib/payments/rounds.ts
+ * Tests round snapshots built from the live pool and their API serialization
+ */
+
+import { buildRoundSnapshot, serializeRound } from '@/lib/payments/rounds';
+
+describe('Round history', () => {
+  const dueDate = new Date('2024-03-01T00:00:00.000Z');
+
+  const createPool = (overrides: Record<string, unknown> = {}) => ({
+    id: 'pool-1',
+    currentRound: 2,
+    currentCycle: 0,
+    contributionAmount: 10,
+    members: [
+      { id: 1, name: 'Ana', email: 'ana@example.com', position: 1 },
+      { id: 2, name: 'Ben', email: 'ben@example.com', position: 2 },
+      { id: 3, name: 'Cruz', email: 'cruz@example.com', position: 3 },
+    ],
+    currentRoundPayments: [
+      { memberId: 1, memberName: 'Ana', amount: 10, status: 'admin_verified', dueDate, reminderCount: 0 },
+      { memberId: 2, memberName: 'Ben', amount: 10, status: 'member_confirmed', dueDate, reminderCount: 1 },
+      { memberId: 3, memberName: 'Cruz', amount: 10, status: 'missed', dueDate, reminderCount: 2 },
+    ],
+    currentRoundPayoutStatus: 'paid',
+    currentRoundPayoutMethod: 'venmo',
+    transactions: [
+      { id: 1, type: 'payout', amount: 30, date: '2024-02-01', member: 'Ana', status: 'completed', round: 1 },
+      { id: 2, type: 'payout', amount: 30, date: '2024-03-02', member: 'Ben', status: 'completed', round: 2 },
+    ],
+    ...overrides,
+  });
+
+  describe('buildRoundSnapshot', () => {
+    it('should capture the current round payments and stats', () => {
+      const snapshot = buildRoundSnapshot(createPool());
+
+      expect(snapshot.poolId).toBe('pool-1');
+      expect(snapshot.roundNumber).toBe(2);
+      expect(snapshot.potAmount).toBe(30);
+      expect(snapshot.payments).toHaveLength(3);
+      expect(snapshot.paymentsVerified).toBe(1);
+      expect(snapshot.paymentsCollected).toBe(2);
+      expect(snapshot.paymentsMissed).toBe(1);
+      expect(snapshot.amountCollected).toBe(10);
+      expect(snapshot.dueDate).toEqual(dueDate);
+    });
+
+    it('should only include transactions from the round', () => {
+      const snapshot = buildRoundSnapshot(createPool());
+
+      expect(snapshot.transactions).toHaveLength(1);
+      expect(snapshot.transactions[0].id).toBe(2);
+      expect(snapshot.winnerName).toBe('Ben');
+      expect(snapshot.payoutCompletedAt).toEqual(new Date('2024-03-02'));
+    });
+
+    it('should reflect the live payout status until closed', () => {
+      expect(buildRoundSnapshot(createPool()).status).toBe('paid');
+
+      const closed = buildRoundSnapshot(createPool(), { closed: true });
+      expect(closed.status).toBe('completed');
+      expect(closed.payoutStatus).toBe('completed');
+    });
+  });
+
+  describe('serializeRound', () => {
+    it('should mark live rounds as not archived', () => {
+      const round = serializeRound(buildRoundSnapshot(createPool()), false);
+
+      expect(round.isArchived).toBe(false);
+      expect(round.closedAt).toBeUndefined();
+      expect(round.id).toBe('pool-1-0-2');
+      expect(round.winnerId).toBe('2');
+    });
+
+    it('should keep the close time on archived rounds', () => {
+      const snapshot = buildRoundSnapshot(createPool(), { closed: true });
+      const round = serializeRound(snapshot, true);
+
+      expect(round.isArchived).toBe(true);
+      expect(round.closedAt).toEqual(snapshot.closedAt);
+      expect(round.payments.map(p => p.status)).toEqual(['admin_verified', 'member_confirmed', 'missed']);
+    });
+  });
+});
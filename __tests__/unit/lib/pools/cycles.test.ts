@@ -0,0 +1,168 @@
+/**
+ * Unit tests for lib/pools/cycles
+ * Tests next-cycle enrollment, the rollover reset, and the finished cycle's summary
+ * @jest-environment node
+ */
+
+import {
+  getNextCycleError,
+  openCycleEnrollment,
+  respondToEnrollment,
+  getCycleParticipants,
+  getNextCycleStartDate,
+  applyNextCycle,
+  getCurrentCycleTransactions,
+  CyclePool,
+} from '@/lib/pools';
+import { PayoutOrderStrategy, PayoutSwapStatus, PoolMemberStatus, PoolStatus } from '@/types/pool';
+
+describe('Pool cycles', () => {
+  const member = (id: number, name: string, position: number) => ({
+    id,
+    name,
+    email: `${name.toLowerCase()}@example.com`,
+    position,
+    status: PoolMemberStatus.COMPLETED,
+    payoutReceived: true,
+    payoutDate: `2024-03-0${position}T12:00:00.000Z`,
+    paymentsOnTime: 3,
+    paymentsMissed: id === 2 ? 1 : 0,
+    totalContributed: 30,
+  });
+
+  const pool = (overrides: Partial<CyclePool> = {}): CyclePool => ({
+    id: 'pool-1',
+    name: 'Family junta',
+    status: PoolStatus.COMPLETED,
+    contributionAmount: 10,
+    frequency: 'weekly',
+    startDate: '2024-03-01T12:00:00.000Z',
+    currentCycle: 0,
+    currentRound: 3,
+    totalRounds: 3,
+    memberCount: 3,
+    members: [member(1, 'Ana', 1), member(2, 'Luis', 2), member(3, 'Rosa', 3)],
+    transactions: [
+      { type: 'payout', amount: 30, status: 'completed', round: 1 },
+      { type: 'payout', amount: 30, status: 'completed', round: 2 },
+      { type: 'payout', amount: 30, status: 'completed', round: 3 },
+    ],
+    currentRoundPayments: [{ memberId: 1 }],
+    currentRoundPayoutStatus: 'completed',
+    ...overrides,
+  });
+
+  const now = new Date('2024-03-20T00:00:00.000Z');
+
+  describe('enrollment', () => {
+    it('should only roll over completed pools within their cycle limit', () => {
+      expect(getNextCycleError({ status: PoolStatus.COMPLETED })).toBeNull();
+      expect(getNextCycleError({ status: PoolStatus.ACTIVE })).not.toBeNull();
+      expect(getNextCycleError({ status: PoolStatus.COMPLETED, currentCycle: 0, totalCycles: 2 })).toBeNull();
+      expect(getNextCycleError({ status: PoolStatus.COMPLETED, currentCycle: 1, totalCycles: 2 })).toBe(
+        'This pool is set to run 2 cycles'
+      );
+    });
+
+    it('should sort members by their answers and count newcomers in', () => {
+      const p = pool();
+      const enrollment = openCycleEnrollment(p, 'Ana', undefined, now);
+      expect(enrollment).toMatchObject({ cycle: 1, previousMemberIds: [1, 2, 3], responses: [] });
+
+      respondToEnrollment(enrollment, p.members[0], true, now);
+      respondToEnrollment(enrollment, p.members[1], true, now);
+      respondToEnrollment(enrollment, p.members[1], false, now);
+      p.members.push({ ...member(4, 'Marta', 4), payoutReceived: false });
+
+      const participants = getCycleParticipants(p, enrollment);
+      expect(enrollment.responses).toHaveLength(2);
+      expect(participants.continuing.map(m => m.id)).toEqual([1]);
+      expect(participants.leaving.map(m => m.id)).toEqual([2]);
+      expect(participants.undecided.map(m => m.id)).toEqual([3]);
+      expect(participants.joining.map(m => m.id)).toEqual([4]);
+    });
+
+    it('should start the next cycle one period after the last round, or from now if that has passed', () => {
+      expect(getNextCycleStartDate(pool(), new Date('2024-03-10T00:00:00.000Z')).toISOString()).toBe(
+        '2024-03-22T12:00:00.000Z'
+      );
+      expect(getNextCycleStartDate(pool(), new Date('2024-04-01T00:00:00.000Z')).toISOString()).toBe(
+        '2024-04-08T00:00:00.000Z'
+      );
+
+      const p = pool();
+      openCycleEnrollment(p, 'Ana', new Date('2024-05-03T12:00:00.000Z'), now);
+      expect(getNextCycleStartDate(p, now).toISOString()).toBe('2024-05-03T12:00:00.000Z');
+    });
+  });
+
+  describe('rollover', () => {
+    it('should reset rounds and payouts but keep reliability stats', () => {
+      const p = pool({
+        payoutOrderStrategy: PayoutOrderStrategy.RANDOM_DRAW,
+        payoutDraw: { seedHash: 'old', seed: 'old', order: [1, 2, 3] },
+        payoutSwapRequests: [
+          {
+            id: 'swap_1',
+            requesterId: 1,
+            requesterPosition: 1,
+            targetId: 3,
+            targetPosition: 3,
+            status: PayoutSwapStatus.PENDING,
+            createdAt: '2024-03-10T00:00:00.000Z',
+          },
+        ],
+      });
+      const enrollment = openCycleEnrollment(p, 'Ana', undefined, now);
+      respondToEnrollment(enrollment, p.members[0], true, now);
+      respondToEnrollment(enrollment, p.members[1], false, now);
+      respondToEnrollment(enrollment, p.members[2], true, now);
+      p.members.push({ ...member(4, 'Marta', 4), payoutReceived: false, paymentsOnTime: 0, totalContributed: 0 });
+
+      const { summary, startDate } = applyNextCycle(p, now);
+
+      expect(startDate.toISOString()).toBe('2024-03-22T12:00:00.000Z');
+      expect(p).toMatchObject({
+        status: PoolStatus.ACTIVE,
+        currentCycle: 1,
+        currentRound: 1,
+        totalRounds: 3,
+        memberCount: 3,
+        startDate: '2024-03-22T12:00:00.000Z',
+        nextPayoutDate: '2024-03-22T12:00:00.000Z',
+        currentRoundPayments: [],
+        currentRoundPayoutStatus: 'pending_collection',
+        nextCycleEnrollment: null,
+      });
+      expect(p.members.map(m => [m.name, m.position, m.status])).toEqual([
+        ['Ana', 1, PoolMemberStatus.CURRENT],
+        ['Rosa', 2, PoolMemberStatus.ACTIVE],
+        ['Marta', 3, PoolMemberStatus.ACTIVE],
+      ]);
+      expect(p.members.every(m => !m.payoutReceived)).toBe(true);
+      expect(p.members[2].payoutDate).toBe('2024-04-05T12:00:00.000Z');
+      expect(p.members[1]).toMatchObject({ paymentsOnTime: 3, totalContributed: 30 });
+
+      expect(p.payoutSwapRequests![0].status).toBe(PayoutSwapStatus.CANCELLED);
+      expect(p.payoutDraw!.seedHash).not.toBe('old');
+      expect(p.payoutDraw!.order).toBeUndefined();
+
+      // Finished cycle's transactions are stamped so the new rounds start clean
+      expect(p.transactions!.every(t => t.cycle === 0)).toBe(true);
+      expect(getCurrentCycleTransactions(p.transactions)).toEqual([]);
+
+      expect(summary).toMatchObject({
+        poolId: 'pool-1',
+        cycle: 0,
+        totalRounds: 3,
+        roundsCompleted: 3,
+        totalPaidOut: 90,
+      });
+      expect(summary.members.map(m => [m.name, m.continued, m.paymentsMissed])).toEqual([
+        ['Ana', true, 0],
+        ['Luis', false, 1],
+        ['Rosa', true, 0],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for lib/pools/exits
+ * Tests a departing member's net position, replacements, and debt resolution
+ * @jest-environment node
+ */
+
+import {
+  isExitTracked,
+  getExitError,
+  buildMemberExit,
+  applyMemberExit,
+  applyReplacement,
+  getReplacementError,
+  resolveDebt,
+  hasOpenItems,
+  ExitPool,
+} from '@/lib/pools';
+import {
+  MemberDebtStatus,
+  MemberExitStatus,
+  PoolMemberRole,
+  PoolMemberStatus,
+  PoolStatus,
+} from '@/types/pool';
+
+describe('Member exits', () => {
+  const member = (id: number, name: string, position: number, payoutReceived = false) => ({
+    id,
+    name,
+    email: `${name.toLowerCase()}@example.com`,
+    role: id === 1 ? PoolMemberRole.CREATOR : PoolMemberRole.MEMBER,
+    position,
+    status: PoolMemberStatus.ACTIVE,
+    payoutReceived,
+  });
+
+  const pool = (): ExitPool => ({
+    id: 'pool-1',
+    status: PoolStatus.ACTIVE,
+    contributionAmount: 10,
+    frequency: 'weekly',
+    startDate: '2024-03-01T12:00:00.000Z',
+    currentRound: 2,
+    memberCount: 3,
+    members: [member(1, 'Ana', 1, true), member(2, 'Luis', 2), member(3, 'Rosa', 3)],
+    currentRoundPayments: [
+      { memberId: 1, status: 'admin_verified' },
+      { memberId: 2, status: 'pending' },
+      { memberId: 3, status: 'admin_verified' },
+    ],
+  });
+
+  const balance = (memberId: number, contributed: number, received: number, fees = 0) => ({
+    memberId,
+    contributed,
+    received,
+    fees,
+    adjustments: 0,
+    balance: contributed - received - fees,
+  });
+
+  const now = new Date('2024-03-10T00:00:00.000Z');
+
+  it('should only track exits from running pools, and never for the admin', () => {
+    expect(isExitTracked({ status: PoolStatus.ACTIVE })).toBe(true);
+    expect(isExitTracked({ status: PoolStatus.PAUSED })).toBe(true);
+    expect(isExitTracked({ status: PoolStatus.COMPLETED })).toBe(false);
+    expect(getExitError({ role: PoolMemberRole.CREATOR })).toBe('You cannot remove the pool administrator');
+    expect(getExitError({ role: PoolMemberRole.MEMBER })).toBeNull();
+  });
+
+  it('should owe a refund to a member who leaves before their payout', () => {
+    const exit = buildMemberExit(member(2, 'Luis', 2), balance(2, 20, 0, 2), { recordedBy: 'Ana', now });
+
+    expect(exit).toMatchObject({
+      memberId: 2,
+      position: 2,
+      payoutReceived: false,
+      status: MemberExitStatus.AWAITING_REPLACEMENT,
+      netPosition: { contributed: 20, received: 0, fees: 2, net: 18 },
+      refundOwed: 18,
+    });
+    expect(exit.debt).toBeUndefined();
+  });
+
+  it('should record a debt for a member who leaves after their payout', () => {
+    const exit = buildMemberExit(member(3, 'Rosa', 3, true), balance(3, 10, 30), {
+      recordedBy: 'Ana',
+      reason: 'Moved away',
+      now,
+    });
+
+    expect(exit).toMatchObject({
+      status: MemberExitStatus.CLOSED,
+      reason: 'Moved away',
+      refundOwed: 0,
+      debt: { amount: 20, status: MemberDebtStatus.OUTSTANDING },
+    });
+    expect(hasOpenItems(exit)).toBe(true);
+
+    resolveDebt(exit, MemberDebtStatus.FORGIVEN, 'Ana', 'Family emergency', now);
+    expect(exit.debt).toMatchObject({ status: MemberDebtStatus.FORGIVEN, resolvedBy: 'Ana', notes: 'Family emergency' });
+    expect(hasOpenItems(exit)).toBe(false);
+  });
+
+  it('should remove the member and drop their unverified payment', () => {
+    const p = pool();
+    const exit = buildMemberExit(p.members[1], balance(2, 10, 0), { recordedBy: 'Ana', now });
+    applyMemberExit(p, exit);
+
+    expect(p.members.map(m => m.id)).toEqual([1, 3]);
+    expect(p.memberCount).toBe(2);
+    expect(p.currentRoundPayments!.map(rp => rp.memberId)).toEqual([1, 3]);
+    expect(p.memberExits).toEqual([exit]);
+  });
+
+  it('should put the replacement in the open position with a new id and a catch-up', () => {
+    const p = pool();
+    const exit = buildMemberExit(p.members[1], balance(2, 10, 0), { recordedBy: 'Ana', now });
+    applyMemberExit(p, exit);
+
+    const details = { name: 'Marta', email: 'Marta@example.com' };
+    expect(getReplacementError(p, exit, { ...details, email: 'rosa@example.com' })).toBe(
+      'A member with this email already exists in the pool'
+    );
+    expect(getReplacementError(p, exit, details)).toBeNull();
+
+    const replacement = applyReplacement(p, exit, details, now);
+
+    expect(replacement).toMatchObject({
+      id: 4,
+      email: 'marta@example.com',
+      position: 2,
+      status: PoolMemberStatus.CURRENT,
+      replacesMemberId: 2,
+      payoutDate: '2024-03-08T12:00:00.000Z',
+    });
+    expect(p.currentRoundPayments!.find(rp => rp.memberId === 4)).toMatchObject({ status: 'pending', amount: 10 });
+    expect(exit.status).toBe(MemberExitStatus.REPLACED);
+    expect(exit.replacement).toMatchObject({ memberId: 4, catchUpAmount: 10 });
+    expect(getReplacementError(p, exit, details)).toBe('This position already has a replacement');
+  });
+});
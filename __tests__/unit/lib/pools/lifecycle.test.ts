@@ -0,0 +1,177 @@
+/**
+ * Unit tests for lib/pools
+ * Tests vote thresholds, pause/resume schedule shifts, and cancellation settlement
+ * @jest-environment node
+ */
+
+import {
+  getRequiredVotes,
+  getVotingMemberIds,
+  tallyVotes,
+  createProposal,
+  castVote,
+  getLifecycleError,
+  applyPause,
+  applyResume,
+  buildSettlementPlan,
+  LifecyclePool,
+} from '@/lib/pools';
+import { LifecycleProposalAction, PoolStatus, PoolMemberStatus } from '@/types/pool';
+import { getRoundPayoutDate } from '@/lib/schedule';
+
+describe('Pool lifecycle', () => {
+  const pool = (overrides: Partial<LifecyclePool> = {}): LifecyclePool => ({
+    id: 'pool-1',
+    status: PoolStatus.ACTIVE,
+    frequency: 'weekly',
+    startDate: '2024-03-01T12:00:00.000Z',
+    currentRound: 2,
+    members: [
+      { id: 1, name: 'Ana', position: 1, payoutReceived: true },
+      { id: 2, name: 'Luis', position: 2 },
+      { id: 3, name: 'Rosa', position: 3 },
+    ],
+    currentRoundPayments: [
+      { status: 'admin_verified', dueDate: '2024-03-08T12:00:00.000Z' },
+      { status: 'pending', dueDate: '2024-03-08T12:00:00.000Z' },
+    ],
+    ...overrides,
+  });
+
+  describe('votes', () => {
+    it('should need a majority to resume and two-thirds to cancel', () => {
+      expect(getRequiredVotes(LifecycleProposalAction.RESUME, 4)).toBe(3);
+      expect(getRequiredVotes(LifecycleProposalAction.RESUME, 5)).toBe(3);
+      expect(getRequiredVotes(LifecycleProposalAction.CANCEL, 3)).toBe(2);
+      expect(getRequiredVotes(LifecycleProposalAction.CANCEL, 6)).toBe(4);
+      expect(getRequiredVotes(LifecycleProposalAction.CANCEL, 1)).toBe(1);
+    });
+
+    it('should count the proposer in favor and apply once the threshold is met', () => {
+      const proposal = createProposal(LifecycleProposalAction.CANCEL, { id: 1, name: 'Ana' }, undefined);
+      expect(tallyVotes(proposal, [1, 2, 3]).outcome).toBe('pending');
+
+      castVote(proposal, { id: 2, name: 'Luis' }, true);
+      expect(tallyVotes(proposal, [1, 2, 3])).toMatchObject({ approvals: 2, required: 2, outcome: 'approved' });
+    });
+
+    it('should reject once the threshold is out of reach and let members change votes', () => {
+      const proposal = createProposal(LifecycleProposalAction.RESUME, { id: 1, name: 'Ana' }, undefined);
+      castVote(proposal, { id: 2, name: 'Luis' }, false);
+      expect(tallyVotes(proposal, [1, 2, 3, 4]).outcome).toBe('pending');
+      castVote(proposal, { id: 3, name: 'Rosa' }, false);
+      expect(tallyVotes(proposal, [1, 2, 3, 4]).outcome).toBe('rejected');
+
+      castVote(proposal, { id: 2, name: 'Luis' }, true);
+      expect(proposal.votes).toHaveLength(3);
+      expect(tallyVotes(proposal, [1, 2, 3, 4]).outcome).toBe('pending');
+    });
+
+    it('should not let inactive members vote', () => {
+      const p = pool();
+      p.members[2].status = PoolMemberStatus.INACTIVE;
+      expect(getVotingMemberIds(p)).toEqual([1, 2]);
+    });
+
+    it('should ignore votes from members who can no longer vote', () => {
+      const proposal = createProposal(LifecycleProposalAction.RESUME, { id: 1, name: 'Ana' }, undefined);
+      castVote(proposal, { id: 9, name: 'Gone' }, true);
+      expect(tallyVotes(proposal, [1, 2, 3]).approvals).toBe(1);
+    });
+  });
+
+  describe('transitions', () => {
+    it('should only allow transitions from the right statuses', () => {
+      expect(getLifecycleError({ status: PoolStatus.ACTIVE }, 'pause')).toBeNull();
+      expect(getLifecycleError({ status: PoolStatus.PAUSED }, 'pause')).toBe("A paused pool can't be paused");
+      expect(getLifecycleError({ status: PoolStatus.ACTIVE }, LifecycleProposalAction.RESUME)).not.toBeNull();
+      expect(getLifecycleError({ status: PoolStatus.COMPLETED }, LifecycleProposalAction.CANCEL)).not.toBeNull();
+      expect(getLifecycleError({ status: PoolStatus.PAUSED }, LifecycleProposalAction.CANCEL)).toBeNull();
+    });
+
+    it('should shift the remaining schedule by the length of the pause', () => {
+      const p = pool();
+      applyPause(p, 'Ana', 'Luis is travelling', new Date('2024-03-05T00:00:00.000Z'));
+      expect(p.status).toBe(PoolStatus.PAUSED);
+
+      const { change, shiftedDays } = applyResume(p, 'Ana', 'lcp_1', new Date('2024-03-19T00:00:00.000Z'));
+
+      expect(shiftedDays).toBe(14);
+      expect(change).toMatchObject({ from: PoolStatus.PAUSED, to: PoolStatus.ACTIVE, proposalId: 'lcp_1' });
+      expect(p.pausedAt).toBeNull();
+      expect(p.nextPayoutDate).toBe('2024-03-22T12:00:00.000Z');
+      expect(getRoundPayoutDate(p, 3).toISOString()).toBe('2024-03-29T12:00:00.000Z');
+      // Rounds before the pause keep their dates
+      expect(getRoundPayoutDate(p, 1).toISOString()).toBe('2024-03-01T12:00:00.000Z');
+
+      expect(p.members[0].payoutDate).toBeUndefined();
+      expect(p.members[2].payoutDate).toBe('2024-03-29T12:00:00.000Z');
+      expect(p.currentRoundPayments![0].dueDate).toBe('2024-03-08T12:00:00.000Z');
+      expect(p.currentRoundPayments![1].dueDate).toEqual(new Date('2024-03-22T12:00:00.000Z'));
+      expect(p.statusHistory!.map(h => h.to)).toEqual([PoolStatus.PAUSED, PoolStatus.ACTIVE]);
+    });
+
+    it('should stack a second pause on top of the first', () => {
+      const p = pool();
+      applyPause(p, 'Ana', undefined, new Date('2024-03-05T00:00:00.000Z'));
+      applyResume(p, 'Ana', undefined, new Date('2024-03-12T00:00:00.000Z'));
+      p.currentRound = 3;
+      applyPause(p, 'Ana', undefined, new Date('2024-03-20T00:00:00.000Z'));
+      applyResume(p, 'Ana', undefined, new Date('2024-03-27T00:00:00.000Z'));
+
+      expect(getRoundPayoutDate(p, 2).toISOString()).toBe('2024-03-15T12:00:00.000Z');
+      expect(getRoundPayoutDate(p, 3).toISOString()).toBe('2024-03-29T12:00:00.000Z');
+      expect(p.scheduleRestarts).toHaveLength(2);
+    });
+  });
+
+  describe('settlement', () => {
+    const members = [
+      { id: 1, name: 'Ana' },
+      { id: 2, name: 'Luis' },
+      { id: 3, name: 'Rosa' },
+    ];
+    const balance = (memberId: number, contributed: number, received: number) => ({
+      memberId,
+      contributed,
+      received,
+      fees: 0,
+      adjustments: 0,
+      balance: contributed - received,
+    });
+
+    it('should refund members who paid in more than they received from pool funds first', () => {
+      // Round 1 paid Ana 150; round 2 collected 100 before the pool was cancelled
+      const plan = buildSettlementPlan(
+        members,
+        {
+          poolCash: 100,
+          fees: 0,
+          adjustments: 0,
+          members: [balance(1, 100, 150), balance(2, 100, 0), balance(3, 50, 0)],
+        },
+        new Date('2024-03-20T00:00:00.000Z')
+      );
+
+      expect(plan.members.map(m => m.net)).toEqual([-50, 100, 50]);
+      expect(plan).toMatchObject({ poolCash: 100, refundsOwed: 150, collectionsOwed: 50, shortfall: 0 });
+      expect(plan.transfers).toEqual([
+        { fromMemberId: null, fromName: 'Pool funds', toMemberId: 2, toName: 'Luis', amount: 100 },
+        { fromMemberId: 1, fromName: 'Ana', toMemberId: 3, toName: 'Rosa', amount: 50 },
+      ]);
+    });
+
+    it('should report refunds nobody can cover as a shortfall', () => {
+      const plan = buildSettlementPlan(members, {
+        poolCash: 20,
+        fees: 0,
+        adjustments: 0,
+        members: [balance(2, 50, 0)],
+      });
+
+      expect(plan.shortfall).toBe(30);
+      expect(plan.members.find(m => m.memberId === 3)?.net).toBe(0);
+      expect(plan.transfers).toHaveLength(1);
+    });
+  });
+});
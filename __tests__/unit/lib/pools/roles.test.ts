@@ -0,0 +1,117 @@
+/**
+ * Unit tests for lib/pools/roles
+ * Tests what each pool role is allowed to do, finding the signed-in user's
+ * membership, and the rules for changing a member's role
+ * @jest-environment node
+ */
+
+import {
+  ASSIGNABLE_ROLES,
+  getPoolRoleInfo,
+  describePoolRole,
+  hasPoolPermission,
+  isPoolAdmin,
+  getPermissionError,
+  findPoolMember,
+  getRoleChangeError,
+  getVotingMemberIds,
+} from '@/lib/pools';
+import { PoolMemberRole, PoolMemberStatus, PoolPermission } from '@/types/pool';
+
+describe('Pool roles', () => {
+  describe('permissions', () => {
+    it('gives creators and admins every permission', () => {
+      for (const permission of Object.values(PoolPermission)) {
+        expect(hasPoolPermission({ role: PoolMemberRole.CREATOR }, permission)).toBe(true);
+        expect(hasPoolPermission({ role: PoolMemberRole.ADMIN }, permission)).toBe(true);
+      }
+    });
+
+    it('lets treasurers handle money but not settings or roles', () => {
+      const treasurer = { role: PoolMemberRole.TREASURER };
+
+      expect(hasPoolPermission(treasurer, PoolPermission.VERIFY_PAYMENTS)).toBe(true);
+      expect(hasPoolPermission(treasurer, PoolPermission.MANAGE_PAYOUTS)).toBe(true);
+      expect(hasPoolPermission(treasurer, PoolPermission.MANAGE_POOL)).toBe(false);
+      expect(hasPoolPermission(treasurer, PoolPermission.MANAGE_ROLES)).toBe(false);
+      expect(isPoolAdmin(treasurer)).toBe(false);
+    });
+
+    it('lets moderators moderate discussions only', () => {
+      const moderator = { role: PoolMemberRole.MODERATOR };
+
+      expect(hasPoolPermission(moderator, PoolPermission.MODERATE_DISCUSSIONS)).toBe(true);
+      expect(hasPoolPermission(moderator, PoolPermission.VERIFY_PAYMENTS)).toBe(false);
+      expect(hasPoolPermission({ role: PoolMemberRole.MEMBER }, PoolPermission.MODERATE_DISCUSSIONS)).toBe(false);
+    });
+
+    it('keeps viewers read-only', () => {
+      const viewer = { role: PoolMemberRole.VIEWER };
+
+      expect(hasPoolPermission(viewer, PoolPermission.VIEW)).toBe(true);
+      expect(hasPoolPermission(viewer, PoolPermission.PARTICIPATE)).toBe(false);
+    });
+
+    it('treats missing or unknown roles as plain members', () => {
+      expect(getPoolRoleInfo(undefined).role).toBe(PoolMemberRole.MEMBER);
+      expect(getPoolRoleInfo('owner').role).toBe(PoolMemberRole.MEMBER);
+      expect(hasPoolPermission({}, PoolPermission.PARTICIPATE)).toBe(true);
+      expect(hasPoolPermission(null, PoolPermission.VIEW)).toBe(false);
+    });
+
+    it('describes roles and missing permissions', () => {
+      expect(describePoolRole(PoolMemberRole.ADMIN)).toBe('an admin');
+      expect(describePoolRole(PoolMemberRole.TREASURER)).toBe('a treasurer');
+      expect(getPermissionError(PoolPermission.MANAGE_ROLES)).toBe('You don\'t have permission to change roles in this pool');
+    });
+  });
+
+  describe('findPoolMember', () => {
+    const members = [
+      { id: 1, userId: 'user-1', email: 'ana@example.com' },
+      { id: 2, userId: null, email: 'Ben@Example.com' },
+    ];
+
+    it('matches by user id, then by email ignoring case', () => {
+      expect(findPoolMember(members, { _id: 'user-1' })?.id).toBe(1);
+      expect(findPoolMember(members, { _id: 'user-2', email: 'ben@example.com' })?.id).toBe(2);
+      expect(findPoolMember(members, { _id: 'user-3', email: 'cal@example.com' })).toBeUndefined();
+    });
+  });
+
+  describe('getRoleChangeError', () => {
+    const admin = { id: 1, role: PoolMemberRole.ADMIN };
+    const member = { id: 2, role: PoolMemberRole.MEMBER };
+
+    it('allows an admin to give another member any assignable role', () => {
+      for (const role of ASSIGNABLE_ROLES.filter(role => role !== PoolMemberRole.MEMBER)) {
+        expect(getRoleChangeError(admin, member, role)).toBeNull();
+      }
+    });
+
+    it('rejects changes the actor can\'t make', () => {
+      expect(getRoleChangeError({ id: 3, role: PoolMemberRole.TREASURER }, member, PoolMemberRole.ADMIN))
+        .toBe('You don\'t have permission to change roles in this pool');
+      expect(getRoleChangeError(admin, member, PoolMemberRole.CREATOR)).toMatch(/Role must be one of/);
+      expect(getRoleChangeError(admin, member, 'owner')).toMatch(/Role must be one of/);
+      expect(getRoleChangeError(admin, { id: 4, role: PoolMemberRole.CREATOR }, PoolMemberRole.MEMBER))
+        .toBe('The pool creator\'s role can\'t be changed');
+      expect(getRoleChangeError(admin, admin, PoolMemberRole.MEMBER)).toBe('You can\'t change your own role');
+      expect(getRoleChangeError(admin, member, PoolMemberRole.MEMBER)).toBe('This member is already a member');
+    });
+  });
+
+  describe('voting', () => {
+    it('leaves viewers out of lifecycle votes', () => {
+      const pool = {
+        members: [
+          { id: 1, role: PoolMemberRole.ADMIN, status: PoolMemberStatus.ACTIVE },
+          { id: 2, role: PoolMemberRole.VIEWER, status: PoolMemberStatus.ACTIVE },
+          { id: 3, role: PoolMemberRole.TREASURER, status: PoolMemberStatus.ACTIVE },
+        ],
+      };
+
+      expect(getVotingMemberIds(pool as any)).toEqual([1, 3]);
+    });
+  });
+});
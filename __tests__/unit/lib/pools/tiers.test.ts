@@ -0,0 +1,159 @@
+/**
+ * Unit tests for lib/pools/tiers
+ * Tests per-tier contribution limits, deployment overrides, and the
+ * identity, escrow, and co-signer payout safeguards
+ * @jest-environment node
+ */
+
+import {
+  getPoolTiers,
+  isPoolTierAvailable,
+  getContributionLimits,
+  getContributionPresets,
+  getTierForAmount,
+  validateContributionAmount,
+  getIdentityVerificationError,
+  getEscrowReleaseDate,
+  getPayoutApprovalError,
+  getPayoutReadinessReset,
+  getPayoutSafeguardError,
+} from '@/lib/pools';
+import { CreatePoolSchema } from '@/lib/validation/schemas';
+import { PoolTier } from '@/types/pool';
+
+describe('Pool tiers', () => {
+  const originalLimits = process.env.NEXT_PUBLIC_POOL_TIER_LIMITS;
+
+  afterEach(() => {
+    if (originalLimits === undefined) {
+      delete process.env.NEXT_PUBLIC_POOL_TIER_LIMITS;
+    } else {
+      process.env.NEXT_PUBLIC_POOL_TIER_LIMITS = originalLimits;
+    }
+  });
+
+  describe('contribution limits', () => {
+    it('keeps the $20 cap for standard pools', () => {
+      expect(getContributionLimits('USD', PoolTier.STANDARD)).toEqual({ min: 1, max: 20 });
+      expect(getContributionLimits('USD', PoolTier.PREMIUM)).toEqual({ min: 1, max: 500 });
+      expect(getContributionLimits('USD', undefined)).toEqual({ min: 1, max: 20 });
+    });
+
+    it('scales tier limits by currency', () => {
+      expect(getContributionLimits('MXN', PoolTier.PLUS)).toEqual({ min: 20, max: 2000 });
+      expect(validateContributionAmount(2000, 'MXN', PoolTier.PLUS).error).toBeUndefined();
+      expect(validateContributionAmount(2000, 'MXN').error).toBe('Contribution must be at most 400 MXN for Standard pools');
+    });
+
+    it('offers presets up to the tier limit', () => {
+      expect(getContributionPresets('USD', PoolTier.STANDARD)).toEqual([1, 3, 5, 10, 15, 20]);
+      expect(getContributionPresets('USD', PoolTier.PLUS).slice(-2)).toEqual([75, 100]);
+    });
+
+    it('picks the smallest tier that allows an amount', () => {
+      expect(getTierForAmount(20, 'USD')).toBe(PoolTier.STANDARD);
+      expect(getTierForAmount(21, 'USD')).toBe(PoolTier.PLUS);
+      expect(getTierForAmount(5000, 'USD')).toBeNull();
+    });
+  });
+
+  describe('deployment overrides', () => {
+    it('reads limits from NEXT_PUBLIC_POOL_TIER_LIMITS', () => {
+      process.env.NEXT_PUBLIC_POOL_TIER_LIMITS = 'standard:50, plus:bad, premium:0';
+
+      expect(getContributionLimits('USD', PoolTier.STANDARD).max).toBe(50);
+      expect(getContributionLimits('USD', PoolTier.PLUS).max).toBe(100);
+      expect(isPoolTierAvailable(PoolTier.PREMIUM)).toBe(false);
+      expect(getPoolTiers().map(info => info.tier)).toEqual([PoolTier.STANDARD, PoolTier.PLUS]);
+    });
+
+    it('rejects new pools in a tier that isn\'t offered', () => {
+      process.env.NEXT_PUBLIC_POOL_TIER_LIMITS = 'premium:0';
+      const result = CreatePoolSchema.safeParse({
+        name: 'Family Pool',
+        contributionAmount: 10,
+        frequency: 'weekly',
+        totalRounds: 4,
+        startDate: '2030-01-01',
+        tier: 'premium',
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('identity verification', () => {
+    it('is only required above the standard tier', () => {
+      expect(getIdentityVerificationError({ tier: PoolTier.STANDARD }, { identityVerified: false })).toBeNull();
+      expect(getIdentityVerificationError({ tier: PoolTier.PLUS }, { identityVerified: true })).toBeNull();
+      expect(getIdentityVerificationError({ tier: PoolTier.PLUS }, { identityVerified: false })).toMatch(/verified their identity/);
+    });
+  });
+
+  describe('payout safeguards', () => {
+    const readyAt = new Date('2030-01-01T00:00:00Z');
+    const premiumPool = {
+      tier: PoolTier.PREMIUM,
+      currentRoundPayoutStatus: 'ready_to_pay',
+      currentRoundReadyAt: readyAt,
+      currentRoundPayoutApprovedBy: 'admin-1',
+    };
+    const afterEscrow = new Date('2030-01-05T00:00:00Z');
+
+    it('lets standard pools pay out without extra checks', () => {
+      expect(getPayoutSafeguardError({ tier: PoolTier.STANDARD }, { userId: 'admin-1', recipientVerified: false })).toBeNull();
+    });
+
+    it('requires a verified recipient', () => {
+      expect(getPayoutSafeguardError({ tier: PoolTier.PLUS }, { userId: 'admin-1', recipientVerified: false }))
+        .toMatch(/recipient must verify/);
+    });
+
+    it('holds payouts until the round\'s last payment starts the escrow', () => {
+      // e.g. a round paid through /contributions, as POST /payouts sees it
+      const unstarted = { ...premiumPool, currentRoundReadyAt: null };
+
+      expect(getEscrowReleaseDate(unstarted)).toBeNull();
+      expect(getPayoutSafeguardError(unstarted, { userId: 'admin-2', recipientVerified: true, now: afterEscrow }))
+        .toBe('Contributions are held in escrow for 3 days once every payment is in');
+      expect(getPayoutSafeguardError({ tier: PoolTier.PLUS }, { userId: 'admin-1', recipientVerified: true }))
+        .toBeNull();
+    });
+
+    it('holds contributions in escrow', () => {
+      expect(getEscrowReleaseDate(premiumPool)).toEqual(new Date('2030-01-04T00:00:00Z'));
+      expect(getPayoutSafeguardError(premiumPool, {
+        userId: 'admin-2',
+        recipientVerified: true,
+        now: new Date('2030-01-02T00:00:00Z'),
+      })).toMatch(/held in escrow/);
+    });
+
+    it('needs a second admin to co-sign', () => {
+      const unapproved = { ...premiumPool, currentRoundPayoutApprovedBy: null };
+
+      expect(getPayoutApprovalError(unapproved)).toBeNull();
+      expect(getPayoutApprovalError(premiumPool)).toBe('This payout has already been approved');
+      expect(getPayoutApprovalError({ tier: PoolTier.PLUS })).toMatch(/don't need a co-signer/);
+      expect(getPayoutSafeguardError(unapproved, { userId: 'admin-2', recipientVerified: true, now: afterEscrow }))
+        .toMatch(/second admin must approve/);
+      expect(getPayoutSafeguardError(premiumPool, { userId: 'admin-1', recipientVerified: true, now: afterEscrow }))
+        .toMatch(/different admin/);
+      expect(getPayoutSafeguardError(premiumPool, { userId: 'admin-2', recipientVerified: true, now: afterEscrow }))
+        .toBeNull();
+    });
+
+    it('blocks the payout again once a payment is disputed', () => {
+      const disputed = { ...premiumPool, ...getPayoutReadinessReset() };
+
+      expect(getPayoutApprovalError(disputed)).toMatch(/must be verified/);
+      expect(getPayoutSafeguardError(disputed, { userId: 'admin-2', recipientVerified: true, now: afterEscrow }))
+        .toMatch(/held in escrow/);
+
+      // Paid again: the earlier co-signer approval doesn't carry over
+      const repaid = { ...disputed, currentRoundPayoutStatus: 'ready_to_pay', currentRoundReadyAt: readyAt };
+      expect(getPayoutSafeguardError(repaid, { userId: 'admin-2', recipientVerified: true, now: afterEscrow }))
+        .toMatch(/second admin must approve/);
+    });
+  });
+});
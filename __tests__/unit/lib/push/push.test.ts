@@ -0,0 +1,180 @@
+/**
+ * Unit tests for lib/push
+ * Sends real encrypted messages to a local push endpoint stub and decrypts them
+ * @jest-environment node
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  sendPushNotification,
+  sendPushToSubscriptions,
+  generateVapidKeys,
+  isValidPushSubscription,
+  PushSubscriptionRecord,
+  VapidConfig,
+} from '@/lib/push';
+
+interface ReceivedPush {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+const hmac = (key: Buffer, data: Buffer) => crypto.createHmac('sha256', key).update(data).digest();
+const expand = (prk: Buffer, info: string | Buffer, length: number) =>
+  hmac(prk, Buffer.concat([Buffer.from(info), Buffer.from([1])])).subarray(0, length);
+
+// What the browser does with an aes128gcm message (RFC 8291)
+function decrypt(body: Buffer, userAgent: crypto.ECDH, authSecret: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgent.getPublicKey(), senderPublicKey]);
+  const ikm = expand(hmac(authSecret, userAgent.computeSecret(senderPublicKey)), keyInfo, 32);
+  const prk = hmac(salt, ikm);
+
+  const decipher = crypto.createDecipheriv(
+    'aes-128-gcm',
+    expand(prk, 'Content-Encoding: aes128gcm\0', 16),
+    expand(prk, 'Content-Encoding: nonce\0', 12)
+  );
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+
+  // Strip the last-record delimiter
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString();
+}
+
+describe('Web push', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const received: ReceivedPush[] = [];
+
+  const { publicKey, privateKey } = generateVapidKeys();
+  const vapid: VapidConfig = { publicKey, privateKey, subject: 'mailto:test@example.com' };
+
+  const userAgent = crypto.createECDH('prime256v1');
+  userAgent.generateKeys();
+  const authSecret = crypto.randomBytes(16);
+
+  const subscriptionFor = (path: string): PushSubscriptionRecord => ({
+    endpoint: `${baseUrl}${path}`,
+    keys: {
+      p256dh: userAgent.getPublicKey().toString('base64url'),
+      auth: authSecret.toString('base64url'),
+    },
+  });
+
+  const payload = {
+    title: 'Payment due: Family Pool',
+    body: 'Your $20 contribution for round 2 is due Fri, Mar 1.',
+    url: '/pools/pool-1?tab=contributions',
+    type: 'payment_due',
+    tag: 'payment_due-pool-1-2',
+  };
+
+  beforeAll(async () => {
+    // Push endpoint stub: /gone behaves like an expired subscription
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ path: req.url || '', headers: req.headers, body: Buffer.concat(chunks) });
+        if (req.url?.startsWith('/gone')) {
+          res.writeHead(410).end('push subscription has unsubscribed or expired');
+        } else if (req.url?.startsWith('/error')) {
+          res.writeHead(500).end('internal error');
+        } else {
+          res.writeHead(201).end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  it('should deliver an encrypted payload the subscriber can decrypt', async () => {
+    const result = await sendPushNotification(subscriptionFor('/ok'), payload, { vapid, ttl: 60 });
+
+    expect(result).toEqual({ success: true, statusCode: 201 });
+    expect(received).toHaveLength(1);
+
+    const [push] = received;
+    expect(push.headers['content-encoding']).toBe('aes128gcm');
+    expect(push.headers.ttl).toBe('60');
+    expect(JSON.parse(decrypt(push.body, userAgent, authSecret))).toEqual(payload);
+  });
+
+  it('should sign a VAPID token for the endpoint origin', async () => {
+    await sendPushNotification(subscriptionFor('/ok'), payload, { vapid });
+
+    const match = /^vapid t=([^,]+), k=(.+)$/.exec(received[0].headers.authorization || '');
+    expect(match).not.toBeNull();
+    const [, token, key] = match!;
+    expect(key).toBe(publicKey);
+
+    const [header, claims, signature] = token.split('.');
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toMatchObject({
+      aud: baseUrl,
+      sub: 'mailto:test@example.com',
+    });
+
+    const raw = Buffer.from(publicKey, 'base64url');
+    const verifyKey = crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: raw.subarray(1, 33).toString('base64url'),
+        y: raw.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(
+      crypto.verify('sha256', Buffer.from(`${header}.${claims}`), { key: verifyKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+    ).toBe(true);
+  });
+
+  it('should report expired subscriptions', async () => {
+    const result = await sendPushNotification(subscriptionFor('/gone'), payload, { vapid });
+
+    expect(result.success).toBe(false);
+    expect(result.expired).toBe(true);
+    expect(result.statusCode).toBe(410);
+  });
+
+  it('should collect expired endpoints across devices', async () => {
+    const subscriptions = [subscriptionFor('/ok/1'), subscriptionFor('/gone/2'), subscriptionFor('/error/3')];
+    const result = await sendPushToSubscriptions(subscriptions, payload, { vapid });
+
+    expect(result.sent).toBe(1);
+    expect(result.failed).toBe(2);
+    expect(result.expiredEndpoints).toEqual([`${baseUrl}/gone/2`]);
+    expect(result.errors).toEqual(['internal error']);
+  });
+
+  it('should not send without VAPID keys', async () => {
+    const result = await sendPushNotification(subscriptionFor('/ok'), payload);
+
+    expect(result).toEqual({ success: false, error: 'VAPID keys not configured' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('should validate client subscriptions', () => {
+    expect(isValidPushSubscription(subscriptionFor('/ok'))).toBe(true);
+    expect(isValidPushSubscription({ endpoint: 'https://push.example.com/1' })).toBe(false);
+    expect(isValidPushSubscription({ endpoint: 'not a url', keys: { p256dh: 'a', auth: 'b' } })).toBe(false);
+    expect(isValidPushSubscription(null)).toBe(false);
+  });
+});
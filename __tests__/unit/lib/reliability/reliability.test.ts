@@ -0,0 +1,137 @@
+/**
+ * Unit tests for lib/reliability
+ * Tests cross-pool history, the score, and what other admins can see
+ * @jest-environment node
+ */
+
+import {
+  collectReliabilityBreakdown,
+  computeReliabilityScore,
+  viewReliability,
+  describeReliability,
+  HistoryPool,
+  HistoryCycle,
+} from '@/lib/reliability';
+import { MemberDebtStatus, PoolStatus } from '@/types/pool';
+import { ReliabilityLevel, ReliabilityVisibility } from '@/types/reliability';
+
+describe('Member reliability', () => {
+  const subject = { id: 'user-1', email: 'Ana@example.com' };
+  const now = new Date('2024-06-01T00:00:00.000Z');
+
+  const emptyBreakdown = {
+    poolsJoined: 0,
+    paymentsOnTime: 0,
+    paymentsMissed: 0,
+    onTimeRate: null,
+    completedCycles: 0,
+    outstandingDebts: 0,
+    outstandingDebtAmount: 0,
+    forgivenDebts: 0,
+  };
+
+  describe('collectReliabilityBreakdown', () => {
+    it('should total payments and cycles across pools without counting a pool twice', () => {
+      const pools: HistoryPool[] = [
+        {
+          id: 'pool-1',
+          status: PoolStatus.COMPLETED,
+          members: [{ userId: 'user-1', email: 'ana@example.com', paymentsOnTime: 5, paymentsMissed: 1 }],
+        },
+        {
+          id: 'pool-2',
+          status: PoolStatus.ACTIVE,
+          // Matched by email, with the older missed counter ahead of the new one
+          members: [{ email: 'ana@example.com', paymentsOnTime: 2, paymentsMissed: 0, missedPayments: 1 }],
+        },
+      ];
+      const cycles: HistoryCycle[] = [
+        // Pool-2's earlier cycle: counters already carried into the current membership
+        { poolId: 'pool-2', cycle: 0, members: [{ email: 'ana@example.com', paymentsOnTime: 1, paymentsMissed: 0 }] },
+        // A pool Ana has left: the last cycle's counters are used
+        { poolId: 'pool-3', cycle: 0, members: [{ email: 'ana@example.com', paymentsOnTime: 2, paymentsMissed: 0 }] },
+        { poolId: 'pool-3', cycle: 1, members: [{ email: 'ana@example.com', paymentsOnTime: 4, paymentsMissed: 1 }] },
+      ];
+
+      expect(collectReliabilityBreakdown(subject, pools, cycles)).toEqual({
+        poolsJoined: 3,
+        paymentsOnTime: 11,
+        paymentsMissed: 3,
+        onTimeRate: 0.786,
+        completedCycles: 4,
+        outstandingDebts: 0,
+        outstandingDebtAmount: 0,
+        forgivenDebts: 0,
+      });
+    });
+
+    it('should count debts from pools the user left', () => {
+      const pools: HistoryPool[] = [
+        {
+          id: 'pool-1',
+          status: PoolStatus.ACTIVE,
+          members: [],
+          memberExits: [
+            { memberEmail: 'ana@example.com', debt: { amount: 40, status: MemberDebtStatus.OUTSTANDING } },
+            { memberEmail: 'ana@example.com', debt: { amount: 10, status: MemberDebtStatus.FORGIVEN } },
+            { memberEmail: 'luis@example.com', debt: { amount: 25, status: MemberDebtStatus.OUTSTANDING } },
+          ],
+        },
+      ];
+
+      expect(collectReliabilityBreakdown(subject, pools, [])).toMatchObject({
+        poolsJoined: 1,
+        outstandingDebts: 1,
+        outstandingDebtAmount: 40,
+        forgivenDebts: 1,
+      });
+    });
+  });
+
+  describe('computeReliabilityScore', () => {
+    it('should leave users with no history unscored', () => {
+      expect(computeReliabilityScore(emptyBreakdown, now)).toEqual({
+        score: null,
+        level: ReliabilityLevel.NEW,
+        breakdown: emptyBreakdown,
+        computedAt: '2024-06-01T00:00:00.000Z',
+      });
+    });
+
+    it('should weigh on-time rate, completed cycles, and debts', () => {
+      const perfect = { ...emptyBreakdown, paymentsOnTime: 12, onTimeRate: 1, completedCycles: 6 };
+      expect(computeReliabilityScore(perfect, now)).toMatchObject({ score: 100, level: ReliabilityLevel.EXCELLENT });
+
+      const spotty = { ...emptyBreakdown, paymentsOnTime: 6, paymentsMissed: 4, onTimeRate: 0.6, completedCycles: 1 };
+      expect(computeReliabilityScore(spotty, now)).toMatchObject({ score: 53, level: ReliabilityLevel.FAIR });
+
+      const inDebt = { ...perfect, outstandingDebts: 1, forgivenDebts: 1 };
+      expect(computeReliabilityScore(inDebt, now)).toMatchObject({ score: 55, level: ReliabilityLevel.FAIR });
+
+      const defaulter = { ...spotty, outstandingDebts: 2 };
+      expect(computeReliabilityScore(defaulter, now)).toMatchObject({ score: 0, level: ReliabilityLevel.POOR });
+    });
+  });
+
+  describe('viewReliability', () => {
+    const score = computeReliabilityScore({ ...emptyBreakdown, paymentsOnTime: 4, onTimeRate: 1, completedCycles: 1 }, now);
+
+    it('should trim the score to the user\'s visibility setting', () => {
+      expect(viewReliability(score, ReliabilityVisibility.FULL).breakdown).toEqual(score.breakdown);
+      expect(viewReliability(score, ReliabilityVisibility.SCORE)).toEqual({
+        visibility: ReliabilityVisibility.SCORE,
+        score: 85,
+        level: ReliabilityLevel.EXCELLENT,
+      });
+      expect(viewReliability(score, ReliabilityVisibility.HIDDEN)).toEqual({ visibility: ReliabilityVisibility.HIDDEN });
+      expect(viewReliability(score, ReliabilityVisibility.HIDDEN, true).score).toBe(85);
+    });
+
+    it('should describe only what is shared', () => {
+      expect(describeReliability(viewReliability(score, ReliabilityVisibility.SCORE))).toBe(
+        'Reliability score 85/100 (excellent)'
+      );
+      expect(describeReliability(viewReliability(score, ReliabilityVisibility.HIDDEN))).toBeNull();
+    });
+  });
+});
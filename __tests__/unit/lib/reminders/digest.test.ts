@@ -0,0 +1,174 @@
+/**
+ * Unit tests for lib/reminders/digest.ts
+ * Tests digest scheduling, frequency resolution, timezone-aware quiet hours and rendering
+ * @jest-environment node
+ */
+
+import { isDigestDue, buildDigestEmailData } from '@/lib/reminders/digest';
+import {
+  NotificationFrequency,
+  NotificationPreferenceDocument,
+  getNotificationFrequency,
+  isInQuietHours,
+} from '@/lib/db/models/notificationPreference';
+import { DigestSource } from '@/lib/db/models/digestItem';
+import { ReminderType } from '@/lib/db/models/reminder';
+import { digestTemplate, digestPlainText } from '@/lib/email/templates';
+
+describe('Notification digests', () => {
+  const createPreferences = (overrides: Record<string, unknown> = {}) => ({
+    globalEnabled: true,
+    digestFrequency: NotificationFrequency.DAILY_DIGEST,
+    quietHours: { enabled: false, startHour: 22, endHour: 8, timezone: 'America/New_York' },
+    typePreferences: {},
+    lastDigestSentAt: {},
+    ...overrides,
+  }) as unknown as NotificationPreferenceDocument;
+
+  describe('isInQuietHours', () => {
+    const quietHours = { enabled: true, startHour: 22, endHour: 8, timezone: 'America/New_York' };
+
+    it('should use the user timezone rather than the server clock', () => {
+      const preferences = createPreferences({ quietHours });
+
+      // 03:00 UTC is 23:00 the previous evening in New York (EDT)
+      expect(isInQuietHours(preferences, new Date('2024-06-01T03:00:00Z'))).toBe(true);
+      // 15:00 UTC is 11:00 in New York
+      expect(isInQuietHours(preferences, new Date('2024-06-01T15:00:00Z'))).toBe(false);
+    });
+
+    it('should handle quiet hours that do not span midnight', () => {
+      const preferences = createPreferences({
+        quietHours: { enabled: true, startHour: 1, endHour: 6, timezone: 'Asia/Tokyo' },
+      });
+
+      // 18:30 UTC is 03:30 in Tokyo
+      expect(isInQuietHours(preferences, new Date('2024-06-01T18:30:00Z'))).toBe(true);
+      expect(isInQuietHours(preferences, new Date('2024-06-01T22:00:00Z'))).toBe(false);
+    });
+
+    it('should fall back to UTC for an unknown timezone', () => {
+      const preferences = createPreferences({
+        quietHours: { ...quietHours, timezone: 'Not/AZone' },
+      });
+
+      expect(isInQuietHours(preferences, new Date('2024-06-01T23:00:00Z'))).toBe(true);
+      expect(isInQuietHours(preferences, new Date('2024-06-01T12:00:00Z'))).toBe(false);
+    });
+
+    it('should never be quiet when disabled', () => {
+      const preferences = createPreferences({ quietHours: { ...quietHours, enabled: false } });
+
+      expect(isInQuietHours(preferences, new Date('2024-06-01T03:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('getNotificationFrequency', () => {
+    it('should use the global digest frequency by default', () => {
+      expect(getNotificationFrequency(createPreferences())).toBe(NotificationFrequency.DAILY_DIGEST);
+      expect(getNotificationFrequency(createPreferences({ digestFrequency: undefined }))).toBe(
+        NotificationFrequency.IMMEDIATE
+      );
+    });
+
+    it('should let a per-type digest setting override the default', () => {
+      const preferences = createPreferences({
+        digestFrequency: NotificationFrequency.IMMEDIATE,
+        typePreferences: {
+          [ReminderType.PAYOUT_COMING]: { enabled: true, channels: [], frequency: NotificationFrequency.WEEKLY_DIGEST },
+          [ReminderType.PAYMENT_DUE]: { enabled: true, channels: [], frequency: NotificationFrequency.IMMEDIATE },
+        },
+      });
+
+      expect(getNotificationFrequency(preferences, ReminderType.PAYOUT_COMING)).toBe(NotificationFrequency.WEEKLY_DIGEST);
+      expect(getNotificationFrequency(preferences, ReminderType.PAYMENT_DUE)).toBe(NotificationFrequency.IMMEDIATE);
+    });
+  });
+
+  describe('isDigestDue', () => {
+    const now = new Date('2024-06-01T15:00:00Z');
+
+    it('should be due when no digest was sent before', () => {
+      expect(isDigestDue(createPreferences(), 'daily', now)).toBe(true);
+    });
+
+    it('should wait a full period between digests, allowing for cron drift', () => {
+      const sentAt = (hoursAgo: number) => new Date(now.getTime() - hoursAgo * 60 * 60 * 1000);
+
+      expect(isDigestDue(createPreferences({ lastDigestSentAt: { daily: sentAt(12) } }), 'daily', now)).toBe(false);
+      expect(isDigestDue(createPreferences({ lastDigestSentAt: { daily: sentAt(23.5) } }), 'daily', now)).toBe(true);
+      expect(isDigestDue(createPreferences({ lastDigestSentAt: { weekly: sentAt(24 * 5) } }), 'weekly', now)).toBe(false);
+      expect(isDigestDue(createPreferences({ lastDigestSentAt: { weekly: sentAt(24 * 7) } }), 'weekly', now)).toBe(true);
+    });
+
+    it('should hold digests during quiet hours', () => {
+      const preferences = createPreferences({
+        quietHours: { enabled: true, startHour: 22, endHour: 8, timezone: 'America/New_York' },
+      });
+
+      expect(isDigestDue(preferences, 'daily', new Date('2024-06-01T03:00:00Z'))).toBe(false);
+      expect(isDigestDue(preferences, 'daily', now)).toBe(true);
+    });
+  });
+
+  describe('buildDigestEmailData', () => {
+    const items = [
+      {
+        source: DigestSource.REMINDER,
+        poolId: 'pool-1',
+        poolName: 'Family Pool',
+        title: 'Payment due: Family Pool',
+        body: 'Your $20 contribution for round 2 is due Fri, Mar 1.',
+        url: '/pools/pool-1?tab=contributions',
+        occurredAt: new Date('2024-06-01T12:00:00Z'),
+      },
+      {
+        source: DigestSource.MENTION,
+        poolId: 'pool-2',
+        poolName: 'Work <Pool>',
+        title: 'Ana mentioned you',
+        body: 'Hey @Ben, can you pay early?',
+        url: '/pools/pool-2',
+        occurredAt: new Date('2024-06-01T13:00:00Z'),
+      },
+      {
+        source: DigestSource.ACTIVITY,
+        poolId: 'pool-1',
+        poolName: 'Family Pool',
+        title: 'Ana made a contribution of $20.00 for round 2.',
+        occurredAt: new Date('2024-06-01T14:00:00Z'),
+      },
+    ];
+
+    it('should group items by pool', () => {
+      const data = buildDigestEmailData(items, { frequency: 'daily', recipientName: 'Ben' });
+
+      expect(data.totalItems).toBe(3);
+      expect(data.sections.map(section => section.poolName)).toEqual(['Family Pool', 'Work <Pool>']);
+      expect(data.sections[0].items).toHaveLength(2);
+      expect(data.sections[0].poolLink).toBe('/pools/pool-1');
+    });
+
+    it('should cap the items shown in one email', () => {
+      const many = Array.from({ length: 60 }, (_, i) => ({ ...items[2], title: `Activity ${i}` }));
+      const data = buildDigestEmailData(many, { frequency: 'weekly' });
+
+      expect(data.totalItems).toBe(60);
+      expect(data.sections[0].items).toHaveLength(50);
+      expect(digestPlainText(data)).toContain('And 10 more');
+    });
+
+    it('should render escaped HTML and plain text with absolute links', () => {
+      const data = buildDigestEmailData(items, { frequency: 'daily', recipientName: 'Ben', timezone: 'America/New_York' });
+      const html = digestTemplate(data);
+      const text = digestPlainText(data);
+
+      expect(html).toContain('Work &lt;Pool&gt;');
+      expect(html).not.toContain('Work <Pool>');
+      expect(html).toContain('/pools/pool-1?tab=contributions');
+      expect(text).toContain('== Family Pool ==');
+      expect(text).toContain('[Mention, Sat, Jun 1] Ana mentioned you');
+      expect(text).toMatch(/https?:\/\/\S+\/pools\/pool-1\?tab=contributions/);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for lib/schedule
+ * Tests anchored round dates, time zones, holidays, and settings validation
+ * @jest-environment node
+ */
+
+import {
+  getPoolSchedule,
+  getRoundDates,
+  getRoundPayoutDate,
+  getScheduleSettings,
+  validateScheduleSettings,
+  parseScheduleStartDate,
+  describeSchedule,
+  zonedTimeToUtc,
+  ScheduleSource,
+} from '@/lib/schedule';
+import { ScheduleAnchorType, HolidayRule } from '@/types/pool';
+
+describe('Pool schedule engine', () => {
+  const days = (source: ScheduleSource, count: number) =>
+    getPoolSchedule(source, count).map(r => r.payoutDay);
+
+  describe('interval schedules', () => {
+    it('should pay round 1 on the start date and step by the frequency', () => {
+      const source = { frequency: 'weekly', startDate: '2024-03-01T15:00:00.000Z' };
+
+      expect(days(source, 3)).toEqual(['2024-03-01', '2024-03-08', '2024-03-15']);
+      expect(getRoundPayoutDate(source, 3).toISOString()).toBe('2024-03-15T15:00:00.000Z');
+    });
+
+    it('should keep a month-end start date from drifting', () => {
+      const source = { frequency: 'monthly', startDate: '2024-01-31T00:00:00.000Z' };
+
+      expect(days(source, 4)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+    });
+
+    it('should not depend on when the previous payout happened', () => {
+      const source = { frequency: 'biweekly', startDate: '2024-03-01T00:00:00.000Z' };
+
+      expect(getRoundDates(source, 4).payoutDay).toBe('2024-04-12');
+    });
+
+    it('should count legacy pools without a start date from one period after creation', () => {
+      const source = { frequency: 'weekly', createdAt: '2024-03-01T00:00:00.000Z' };
+
+      expect(getRoundDates(source, 1).payoutDay).toBe('2024-03-08');
+    });
+  });
+
+  describe('anchored schedules', () => {
+    it('should pay on the 1st and 15th of each month', () => {
+      const source = {
+        frequency: 'monthly',
+        startDate: '2024-03-05T00:00:00.000Z',
+        schedule: { anchor: ScheduleAnchorType.MONTH_DAYS, monthDays: [1, 15] },
+      };
+
+      expect(days(source, 4)).toEqual(['2024-03-15', '2024-04-01', '2024-04-15', '2024-05-01']);
+    });
+
+    it('should pay on the last Friday of each month', () => {
+      const source = {
+        frequency: 'monthly',
+        startDate: '2024-01-01T00:00:00.000Z',
+        schedule: { anchor: ScheduleAnchorType.MONTH_WEEKDAY, weekday: 5, weekOfMonth: -1 },
+      };
+
+      expect(days(source, 3)).toEqual(['2024-01-26', '2024-02-23', '2024-03-29']);
+    });
+
+    it('should pay every other Friday from the first Friday after the start', () => {
+      const source = {
+        frequency: 'biweekly',
+        startDate: '2024-03-04T00:00:00.000Z',
+        schedule: { anchor: ScheduleAnchorType.WEEKDAY, weekday: 5 },
+      };
+
+      expect(days(source, 3)).toEqual(['2024-03-08', '2024-03-22', '2024-04-05']);
+    });
+  });
+
+  describe('time zones', () => {
+    it('should keep the local time across daylight saving changes', () => {
+      const source = {
+        frequency: 'weekly',
+        startDate: '2024-03-01T17:00:00.000Z', // 12:00 in New York (EST)
+        schedule: { timezone: 'America/New_York' },
+      };
+
+      // 2024-03-15 is after the switch to EDT, so noon is 16:00 UTC
+      expect(getRoundPayoutDate(source, 3).toISOString()).toBe('2024-03-15T16:00:00.000Z');
+    });
+
+    it('should read a plain start date as midnight in the pool time zone', () => {
+      expect(parseScheduleStartDate('2024-03-01', 'America/New_York')?.toISOString()).toBe('2024-03-01T05:00:00.000Z');
+      expect(parseScheduleStartDate('not a date')).toBeNull();
+      expect(
+        zonedTimeToUtc({ year: 2024, month: 7, day: 1 }, { hour: 9, minute: 30, second: 0 }, 'Europe/Madrid').toISOString()
+      ).toBe('2024-07-01T07:30:00.000Z');
+    });
+  });
+
+  describe('holidays and due dates', () => {
+    const base = { frequency: 'weekly', startDate: '2024-12-18T00:00:00.000Z' };
+
+    it('should skip a holiday and move later rounds along', () => {
+      const source = { ...base, schedule: { holidays: ['2024-12-25'], holidayRule: HolidayRule.SKIP } };
+
+      expect(days(source, 3)).toEqual(['2024-12-18', '2025-01-01', '2025-01-08']);
+    });
+
+    it('should shift a holiday to the nearest non-holiday without moving later rounds', () => {
+      const source = {
+        ...base,
+        schedule: { holidays: ['2024-12-25', '2024-12-26'], holidayRule: HolidayRule.SHIFT_FORWARD },
+      };
+      const schedule = getPoolSchedule(source, 3);
+
+      expect(schedule.map(r => r.payoutDay)).toEqual(['2024-12-18', '2024-12-27', '2025-01-01']);
+      expect(schedule[1].shiftedForHoliday).toBe(true);
+    });
+
+    it('should make contributions due before the payout', () => {
+      const source = { ...base, schedule: { contributionLeadDays: 2 } };
+
+      expect(getRoundDates(source, 1)).toMatchObject({ payoutDay: '2024-12-18', dueDay: '2024-12-16' });
+    });
+  });
+
+  describe('validateScheduleSettings', () => {
+    const current = getScheduleSettings({});
+
+    it('should accept a valid anchor and drop fields that do not apply', () => {
+      const { settings, error } = validateScheduleSettings(
+        { anchor: ScheduleAnchorType.MONTH_DAYS, monthDays: [15, 1, 15], weekday: 3 },
+        current,
+        'monthly'
+      );
+
+      expect(error).toBeUndefined();
+      expect(settings?.monthDays).toEqual([15, 1]);
+      expect(settings?.weekday).toBeUndefined();
+    });
+
+    it('should reject anchors that do not fit the frequency', () => {
+      expect(validateScheduleSettings({ anchor: ScheduleAnchorType.MONTH_DAYS, monthDays: [1] }, current, 'weekly').error)
+        .toMatch(/monthly pool/);
+      expect(validateScheduleSettings({ anchor: ScheduleAnchorType.WEEKDAY, weekday: 1 }, current, 'monthly').error)
+        .toMatch(/weekly or biweekly/);
+    });
+
+    it('should reject bad time zones, holidays, and lead times', () => {
+      expect(validateScheduleSettings({ timezone: 'Mars/Olympus' }, current).error).toMatch(/timezone/);
+      expect(validateScheduleSettings({ holidays: ['2024-02-30'] }, current).error).toMatch(/holiday/);
+      expect(validateScheduleSettings({ contributionLeadDays: 7 }, current, 'weekly').error).toMatch(/shorter/);
+    });
+  });
+
+  it('should describe anchored schedules in words', () => {
+    expect(describeSchedule({ frequency: 'monthly', schedule: { anchor: ScheduleAnchorType.MONTH_DAYS, monthDays: [1, 15] } }))
+      .toBe('Monthly on the 1st and 15th');
+    expect(describeSchedule({ frequency: 'monthly', schedule: { anchor: ScheduleAnchorType.MONTH_WEEKDAY, weekday: 5, weekOfMonth: -1 } }))
+      .toBe('Monthly on the last Friday');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for lib/security
+ * Tests request context parsing, retention, new-device / new-location detection,
+ * and which activities the browser may report
+ * @jest-environment node
+ */
+
+import {
+  ACTIVITY_RETENTION_DAYS,
+  getActivityExpiry,
+  parseUserAgent,
+  getRequestContext,
+  detectNewSignIn,
+  toActivityLog,
+  isActivityType,
+  getClientActivityError,
+} from '@/lib/security';
+import { ActivityType } from '@/types/security';
+import { AuditLogType } from '@/types/audit';
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const FIREFOX_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0';
+
+describe('Security activity', () => {
+  describe('parseUserAgent', () => {
+    it('should pick out the browser, OS, and kind of device', () => {
+      expect(parseUserAgent(CHROME_MAC)).toEqual({ browser: 'Chrome', os: 'macOS', device: 'Desktop' });
+      expect(parseUserAgent(SAFARI_IPHONE)).toEqual({ browser: 'Safari', os: 'iOS', device: 'Mobile' });
+      expect(parseUserAgent(FIREFOX_WINDOWS)).toEqual({ browser: 'Firefox', os: 'Windows', device: 'Desktop' });
+    });
+
+    it('should return nothing for unknown or missing user agents', () => {
+      expect(parseUserAgent(undefined)).toBeUndefined();
+      expect(parseUserAgent('curl/8.4.0')).toBeUndefined();
+    });
+  });
+
+  describe('getRequestContext', () => {
+    it('should read the client IP, device, and edge location headers', () => {
+      const headers = new Headers({
+        'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+        'user-agent': CHROME_MAC,
+        'x-vercel-ip-city': 'San%20Jos%C3%A9',
+        'x-vercel-ip-country': 'CR',
+      });
+
+      expect(getRequestContext(headers)).toEqual({
+        ipAddress: '203.0.113.7',
+        userAgent: CHROME_MAC,
+        deviceInfo: { browser: 'Chrome', os: 'macOS', device: 'Desktop' },
+        location: { city: 'San José', country: 'CR' },
+      });
+    });
+
+    it('should accept the plain header object NextAuth passes to authorize', () => {
+      const context = getRequestContext({ 'user-agent': SAFARI_IPHONE, 'cf-ipcountry': 'MX' });
+
+      expect(context.deviceInfo?.os).toBe('iOS');
+      expect(context.location).toEqual({ city: undefined, country: 'MX' });
+      expect(context.ipAddress).toBeUndefined();
+    });
+  });
+
+  describe('detectNewSignIn', () => {
+    const mac = { browser: 'Chrome', os: 'macOS', device: 'Desktop' };
+    const iphone = { browser: 'Safari', os: 'iOS', device: 'Mobile' };
+    const previous = [
+      { deviceInfo: mac, location: { city: 'Austin', country: 'US' } },
+      { deviceInfo: mac, location: { city: 'Dallas', country: 'US' } },
+    ];
+
+    it('should not report a first sign-in or a known device and location', () => {
+      expect(detectNewSignIn([], { deviceInfo: iphone, location: { country: 'MX' } })).toBeNull();
+      expect(detectNewSignIn(previous, { deviceInfo: mac, location: { city: 'Dallas', country: 'US' } })).toBeNull();
+    });
+
+    it('should report a new device, a new location, or both', () => {
+      expect(detectNewSignIn(previous, { deviceInfo: iphone, location: { city: 'Austin', country: 'US' } })).toBe('new_device');
+      expect(detectNewSignIn(previous, { deviceInfo: mac, location: { city: 'Monterrey', country: 'MX' } })).toBe('new_location');
+      expect(detectNewSignIn(previous, { deviceInfo: iphone, location: { country: 'MX' } })).toBe('new_device_and_location');
+    });
+
+    it('should ignore what it can\'t tell', () => {
+      expect(detectNewSignIn(previous, { deviceInfo: undefined, location: undefined })).toBeNull();
+      expect(detectNewSignIn(previous, { deviceInfo: mac, location: undefined })).toBeNull();
+    });
+  });
+
+  describe('retention', () => {
+    it('should keep security changes longer than routine activity', () => {
+      const now = new Date('2024-01-01T00:00:00.000Z');
+
+      expect(ACTIVITY_RETENTION_DAYS[ActivityType.PASSWORD_CHANGE]).toBeGreaterThan(ACTIVITY_RETENTION_DAYS[ActivityType.POOL_JOIN]);
+      expect(getActivityExpiry(ActivityType.LOGIN, now).toISOString()).toBe('2024-12-31T00:00:00.000Z');
+      expect(getActivityExpiry(ActivityType.PROFILE_UPDATE, now).toISOString()).toBe('2024-06-29T00:00:00.000Z');
+    });
+  });
+
+  describe('toActivityLog', () => {
+    it('should map a stored audit entry to the activity log shape', () => {
+      expect(toActivityLog({
+        id: 'audit_1',
+        userId: 'user-1',
+        type: AuditLogType.SECURITY_EVENT,
+        action: ActivityType.LOGIN,
+        activityType: ActivityType.LOGIN,
+        timestamp: '2024-01-01T00:00:00.000Z',
+        ip: '203.0.113.7',
+        deviceInfo: { browser: 'Chrome', os: 'macOS', device: 'Desktop' },
+        location: {},
+        metadata: new Map([['newSignIn', 'new_device']]),
+      })).toEqual({
+        id: 'audit_1',
+        userId: 'user-1',
+        type: ActivityType.LOGIN,
+        timestamp: '2024-01-01T00:00:00.000Z',
+        ipAddress: '203.0.113.7',
+        deviceInfo: { browser: 'Chrome', os: 'macOS', device: 'Desktop' },
+        location: undefined,
+        metadata: { newSignIn: 'new_device' },
+      });
+    });
+
+    it('should only accept known activity types', () => {
+      expect(isActivityType('login')).toBe(true);
+      expect(isActivityType('pool_invitation_accepted')).toBe(false);
+    });
+  });
+
+  describe('getClientActivityError', () => {
+    it('should accept settings changes with short metadata', () => {
+      expect(getClientActivityError(ActivityType.SETTINGS_CHANGE, undefined)).toBeNull();
+      expect(getClientActivityError(ActivityType.SETTINGS_CHANGE, { setting: 'theme', value: 'dark' })).toBeNull();
+    });
+
+    it('should not let the browser report sign-ins or security changes', () => {
+      expect(getClientActivityError(ActivityType.LOGIN, {})).toMatch(/Activity type must be one of/);
+      expect(getClientActivityError(ActivityType.TWO_FACTOR_DISABLE, {})).toMatch(/Activity type must be one of/);
+      expect(getClientActivityError('pool_invitation_accepted', {})).toMatch(/Activity type must be one of/);
+    });
+
+    it('should reject nested, long, or oversized metadata', () => {
+      const manyFields = Object.fromEntries(Array.from({ length: 11 }, (_, i) => [`field${i}`, i]));
+
+      expect(getClientActivityError(ActivityType.SETTINGS_CHANGE, 'theme')).toBe('metadata must be an object');
+      expect(getClientActivityError(ActivityType.SETTINGS_CHANGE, { nested: { a: 1 } })).toMatch(/metadata values/);
+      expect(getClientActivityError(ActivityType.SETTINGS_CHANGE, { value: 'x'.repeat(201) })).toMatch(/metadata values/);
+      expect(getClientActivityError(ActivityType.SETTINGS_CHANGE, manyFields)).toMatch(/at most 10 fields/);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for lib/security/backupCodes.ts
+ * Tests backup code generation, hashing, matching, and status
+ * @jest-environment node
+ */
+
+import {
+  BACKUP_CODE_COUNT,
+  BACKUP_CODE_LENGTH,
+  generateBackupCodes,
+  normalizeBackupCode,
+  hashBackupCode,
+  findBackupCode,
+  getBackupCodeStatus,
+} from '@/lib/security';
+
+describe('Backup codes', () => {
+  describe('generateBackupCodes', () => {
+    it('should generate a full set of numeric codes', () => {
+      const codes = generateBackupCodes();
+
+      expect(codes).toHaveLength(BACKUP_CODE_COUNT);
+      codes.forEach(code => expect(code).toMatch(new RegExp(`^\\d{${BACKUP_CODE_LENGTH}}$`)));
+      expect(new Set(codes).size).toBe(codes.length);
+    });
+  });
+
+  describe('normalizeBackupCode', () => {
+    it('should strip the spaces and dashes added when copying', () => {
+      expect(normalizeBackupCode(' 1234-5678 ')).toBe('12345678');
+      expect(normalizeBackupCode('1234 5678')).toBe('12345678');
+    });
+  });
+
+  describe('hashBackupCode', () => {
+    it('should store a salted hash rather than the code', async () => {
+      const first = await hashBackupCode('12345678');
+      const second = await hashBackupCode('12345678');
+
+      expect(first).toMatch(/^scrypt:[^:]+:[^:]+$/);
+      expect(first).not.toContain('12345678');
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('findBackupCode', () => {
+    it('should find the stored hash a code matches', async () => {
+      const stored = await Promise.all(['11111111', '22222222', '33333333'].map(hashBackupCode));
+
+      expect(await findBackupCode(stored, '22222222')).toBe(1);
+      expect(await findBackupCode(stored, '2222-2222')).toBe(1);
+    });
+
+    it('should not match a wrong or empty code', async () => {
+      const stored = await Promise.all(['11111111', '22222222'].map(hashBackupCode));
+
+      expect(await findBackupCode(stored, '99999999')).toBe(-1);
+      expect(await findBackupCode(stored, '1111111')).toBe(-1);
+      expect(await findBackupCode(stored, ' - ')).toBe(-1);
+      expect(await findBackupCode([], '11111111')).toBe(-1);
+    });
+
+    it('should still match codes stored in plaintext before hashing', async () => {
+      const stored = ['11111111', await hashBackupCode('22222222')];
+
+      expect(await findBackupCode(stored, '11111111')).toBe(0);
+      expect(await findBackupCode(stored, '22222222')).toBe(1);
+      expect(await findBackupCode(stored, '1111111')).toBe(-1);
+    });
+  });
+
+  describe('getBackupCodeStatus', () => {
+    it('should count the codes left and flag when few remain', () => {
+      expect(getBackupCodeStatus({
+        backupCodes: ['a', 'b', 'c'],
+        backupCodesGeneratedAt: '2024-06-01T12:00:00.000Z',
+      })).toEqual({
+        remaining: 3,
+        total: BACKUP_CODE_COUNT,
+        generatedAt: '2024-06-01T12:00:00.000Z',
+        low: false,
+      });
+      expect(getBackupCodeStatus({ backupCodes: ['a', 'b'] })).toMatchObject({ remaining: 2, low: true });
+      expect(getBackupCodeStatus(undefined)).toMatchObject({ remaining: 0, low: true });
+    });
+  });
+});
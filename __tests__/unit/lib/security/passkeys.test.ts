@@ -0,0 +1,196 @@
+/**
+ * Unit tests for lib/security/passkeys.ts
+ * Tests passkey registration and sign-in verification against a software authenticator
+ * @jest-environment node
+ */
+
+import {
+  getRelyingParty,
+  getResponseChallenge,
+  getDefaultPasskeyName,
+  toPasskey,
+  verifyPasskeyRegistration,
+  verifyPasskeyAssertion,
+  StoredPasskeyCredential,
+} from '@/lib/security';
+import { SoftwareAuthenticator, createChallenge } from '../../../helpers/webauthn.helpers';
+
+describe('Passkeys', () => {
+  const rp = getRelyingParty('http://localhost:3000');
+
+  async function register(authenticator: SoftwareAuthenticator): Promise<StoredPasskeyCredential> {
+    const challenge = createChallenge();
+    const result = await verifyPasskeyRegistration(authenticator.createCredential(challenge), challenge, rp);
+    if ('error' in result) throw new Error(result.error);
+    return result;
+  }
+
+  describe('getRelyingParty', () => {
+    it('should bind passkeys to the app host and origin', () => {
+      expect(getRelyingParty('https://app.juntasseguras.com/dashboard')).toEqual({
+        rpID: 'app.juntasseguras.com',
+        rpName: 'Juntas Seguras',
+        origin: 'https://app.juntasseguras.com',
+      });
+    });
+  });
+
+  describe('getResponseChallenge', () => {
+    it('should read the challenge the browser signed', () => {
+      const challenge = createChallenge();
+      const response = new SoftwareAuthenticator().getAssertion(challenge);
+
+      expect(getResponseChallenge(response)).toBe(challenge);
+    });
+
+    it('should return null for a malformed response', () => {
+      expect(getResponseChallenge({ response: { clientDataJSON: 'not-json' } } as any)).toBeNull();
+    });
+  });
+
+  describe('verifyPasskeyRegistration', () => {
+    it('should accept a new credential and return what to store', async () => {
+      const authenticator = new SoftwareAuthenticator({ synced: true });
+      const challenge = createChallenge();
+
+      const result = await verifyPasskeyRegistration(authenticator.createCredential(challenge), challenge, rp);
+
+      expect(result).toEqual({
+        credentialId: authenticator.id,
+        publicKey: expect.any(String),
+        counter: 0,
+        transports: ['internal'],
+        deviceType: 'multiDevice',
+        backedUp: true,
+        aaguid: '00000000-0000-0000-0000-000000000000',
+      });
+    });
+
+    it('should reject a credential created for another challenge', async () => {
+      const authenticator = new SoftwareAuthenticator();
+
+      const result = await verifyPasskeyRegistration(
+        authenticator.createCredential(createChallenge()),
+        createChallenge(),
+        rp
+      );
+
+      expect(result).toHaveProperty('error');
+    });
+
+    it('should reject a credential created on another site', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const challenge = createChallenge();
+
+      const result = await verifyPasskeyRegistration(
+        authenticator.createCredential(challenge, { origin: 'https://phishing.example' }),
+        challenge,
+        rp
+      );
+
+      expect(result).toHaveProperty('error');
+    });
+  });
+
+  describe('verifyPasskeyAssertion', () => {
+    it('should accept a signed assertion and return the new counter', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const passkey = await register(authenticator);
+      const challenge = createChallenge();
+
+      const result = await verifyPasskeyAssertion(authenticator.getAssertion(challenge), passkey, challenge, { rp });
+
+      expect(result).toEqual({ newCounter: 1 });
+    });
+
+    it('should reject an assertion for another challenge', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const passkey = await register(authenticator);
+
+      const result = await verifyPasskeyAssertion(
+        authenticator.getAssertion(createChallenge()),
+        passkey,
+        createChallenge(),
+        { rp }
+      );
+
+      expect(result).toHaveProperty('error');
+    });
+
+    it('should reject an assertion signed by a different key', async () => {
+      const passkey = await register(new SoftwareAuthenticator());
+      const impostor = new SoftwareAuthenticator();
+      const challenge = createChallenge();
+
+      const assertion = impostor.getAssertion(challenge);
+      const result = await verifyPasskeyAssertion(
+        { ...assertion, id: passkey.credentialId, rawId: passkey.credentialId },
+        passkey,
+        challenge,
+        { rp }
+      );
+
+      expect(result).toHaveProperty('error');
+    });
+
+    it('should reject a counter that did not increase, as from a cloned authenticator', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const passkey = await register(authenticator);
+      const challenge = createChallenge();
+
+      const result = await verifyPasskeyAssertion(
+        authenticator.getAssertion(challenge, { counter: 5 }),
+        { ...passkey, counter: 5 },
+        challenge,
+        { rp }
+      );
+
+      expect(result).toHaveProperty('error');
+    });
+
+    it('should require user verification for passwordless sign-in', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const passkey = await register(authenticator);
+      const challenge = createChallenge();
+      const assertion = authenticator.getAssertion(challenge, { userVerified: false });
+
+      expect(await verifyPasskeyAssertion(assertion, passkey, challenge, { rp })).toEqual({ newCounter: 1 });
+      expect(
+        await verifyPasskeyAssertion(assertion, passkey, challenge, { rp, requireUserVerification: true })
+      ).toHaveProperty('error');
+    });
+  });
+
+  describe('getDefaultPasskeyName', () => {
+    it('should name a passkey after the device it was created on', () => {
+      expect(getDefaultPasskeyName({ browser: 'Safari', os: 'iOS' })).toBe('Safari on iOS');
+      expect(getDefaultPasskeyName({ os: 'Android' })).toBe('Android');
+      expect(getDefaultPasskeyName()).toBe('Passkey');
+    });
+  });
+
+  describe('toPasskey', () => {
+    it('should list a stored passkey without its key material', () => {
+      expect(toPasskey({
+        credentialId: 'cred-1',
+        userId: 'user-1',
+        publicKey: 'secret-ish',
+        counter: 3,
+        name: 'My phone',
+        deviceType: 'multiDevice',
+        backedUp: true,
+        transports: ['internal', 'hybrid'],
+        createdAt: new Date('2024-05-20T08:00:00.000Z'),
+        lastUsedAt: new Date('2024-06-01T11:58:00.000Z'),
+      })).toEqual({
+        id: 'cred-1',
+        name: 'My phone',
+        deviceType: 'multiDevice',
+        backedUp: true,
+        transports: ['internal', 'hybrid'],
+        createdAt: '2024-05-20T08:00:00.000Z',
+        lastUsedAt: '2024-06-01T11:58:00.000Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for lib/security/sessions.ts
+ * Tests which registry entries let a token through and how they're listed
+ * @jest-environment node
+ */
+
+import {
+  SESSION_TOUCH_INTERVAL_MS,
+  isSessionActive,
+  shouldTouchSession,
+  toActiveSession,
+} from '@/lib/security';
+
+describe('Session registry', () => {
+  const now = new Date('2024-06-01T12:00:00.000Z');
+  const session = {
+    sessionId: 'session-1',
+    userId: 'user-1',
+    provider: 'credentials',
+    ipAddress: '203.0.113.7',
+    deviceInfo: { browser: 'Chrome', os: 'macOS', device: 'Desktop' },
+    location: {},
+    lastSeenAt: new Date('2024-06-01T11:58:00.000Z'),
+    createdAt: new Date('2024-05-20T08:00:00.000Z'),
+    revokedAt: null,
+    expiresAt: new Date('2024-07-01T11:58:00.000Z'),
+  };
+
+  describe('isSessionActive', () => {
+    it('should accept an unrevoked, unexpired session', () => {
+      expect(isSessionActive(session, now)).toBe(true);
+    });
+
+    it('should reject missing, revoked, and expired sessions', () => {
+      expect(isSessionActive(null, now)).toBe(false);
+      expect(isSessionActive({ ...session, revokedAt: new Date('2024-06-01T00:00:00.000Z') }, now)).toBe(false);
+      expect(isSessionActive({ ...session, expiresAt: new Date('2024-06-01T11:00:00.000Z') }, now)).toBe(false);
+    });
+  });
+
+  describe('shouldTouchSession', () => {
+    it('should only rewrite last-seen once it is stale', () => {
+      expect(shouldTouchSession(session, now)).toBe(false);
+      expect(shouldTouchSession(
+        { ...session, lastSeenAt: new Date(now.getTime() - SESSION_TOUCH_INTERVAL_MS) },
+        now
+      )).toBe(true);
+    });
+  });
+
+  describe('toActiveSession', () => {
+    it('should mark the session making the request as current', () => {
+      expect(toActiveSession(session, 'session-1')).toEqual({
+        id: 'session-1',
+        provider: 'credentials',
+        ipAddress: '203.0.113.7',
+        deviceInfo: { browser: 'Chrome', os: 'macOS', device: 'Desktop' },
+        location: undefined,
+        createdAt: '2024-05-20T08:00:00.000Z',
+        lastSeenAt: '2024-06-01T11:58:00.000Z',
+        current: true,
+      });
+      expect(toActiveSession(session, 'session-2').current).toBe(false);
+    });
+  });
+});
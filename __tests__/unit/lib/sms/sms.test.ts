@@ -0,0 +1,192 @@
+/**
+ * Unit tests for lib/sms
+ * Tests keyword parsing, phone normalization, and the Twilio and fake providers
+ * @jest-environment node
+ */
+
+import crypto from 'crypto';
+import {
+  parseSmsKeyword,
+  normalizePhoneNumber,
+  maskPhoneNumber,
+  hashPhoneVerificationCode,
+  generatePhoneVerificationCode,
+  toReminderStatus,
+  createSmsService,
+  FakeSmsProvider,
+  TwilioProvider,
+  verifyTwilioSignature,
+} from '@/lib/sms';
+import { twimlResponse } from '@/lib/sms/webhook';
+
+describe('SMS', () => {
+  describe('parseSmsKeyword', () => {
+    it('should recognize opt-out keywords in any case', () => {
+      expect(parseSmsKeyword('STOP')).toBe('stop');
+      expect(parseSmsKeyword(' unsubscribe ')).toBe('stop');
+      expect(parseSmsKeyword('Cancel.')).toBe('stop');
+    });
+
+    it('should recognize opt-in and help keywords', () => {
+      expect(parseSmsKeyword('start')).toBe('start');
+      expect(parseSmsKeyword('UNSTOP')).toBe('start');
+      expect(parseSmsKeyword('Help')).toBe('help');
+      expect(parseSmsKeyword('info')).toBe('help');
+    });
+
+    it('should ignore keywords inside a longer message', () => {
+      expect(parseSmsKeyword('please stop by tomorrow')).toBeNull();
+      expect(parseSmsKeyword('')).toBeNull();
+      expect(parseSmsKeyword(undefined)).toBeNull();
+    });
+  });
+
+  describe('normalizePhoneNumber', () => {
+    it('should convert US numbers to E.164', () => {
+      expect(normalizePhoneNumber('(555) 123-4567')).toBe('+15551234567');
+      expect(normalizePhoneNumber('1-555-123-4567')).toBe('+15551234567');
+    });
+
+    it('should keep international numbers with a country code', () => {
+      expect(normalizePhoneNumber('+52 55 1234 5678')).toBe('+525512345678');
+      expect(normalizePhoneNumber('0052 55 1234 5678')).toBe('+525512345678');
+    });
+
+    it('should reject numbers that cannot be valid', () => {
+      expect(normalizePhoneNumber('12345')).toBeNull();
+      expect(normalizePhoneNumber('+0 555 123 4567')).toBeNull();
+      expect(normalizePhoneNumber('')).toBeNull();
+    });
+
+    it('should mask all but the last four digits', () => {
+      expect(maskPhoneNumber('+15551234567')).toBe('********4567');
+    });
+  });
+
+  describe('verification codes', () => {
+    it('should generate 6-digit codes', () => {
+      expect(generatePhoneVerificationCode()).toMatch(/^\d{6}$/);
+    });
+
+    it('should hash codes ignoring surrounding whitespace', () => {
+      expect(hashPhoneVerificationCode(' 123456 ')).toBe(hashPhoneVerificationCode('123456'));
+      expect(hashPhoneVerificationCode('123456')).not.toBe('123456');
+    });
+  });
+
+  describe('toReminderStatus', () => {
+    it('should map carrier statuses onto reminder statuses', () => {
+      expect(toReminderStatus('delivered')).toBe('delivered');
+      expect(toReminderStatus('undelivered')).toBe('failed');
+      expect(toReminderStatus('failed')).toBe('failed');
+      expect(toReminderStatus('queued')).toBe('sent');
+    });
+  });
+
+  describe('FakeSmsProvider', () => {
+    it('should record sent messages', async () => {
+      const provider = new FakeSmsProvider();
+      const service = createSmsService(provider);
+
+      const result = await service.sendVerificationCode('+15551234567', '123456');
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('fake');
+      expect(provider.messagesTo('+15551234567')).toHaveLength(1);
+      expect(provider.messages[0].body).toContain('123456');
+    });
+
+    it('should simulate failures', async () => {
+      const provider = new FakeSmsProvider();
+      provider.simulateFailure('Carrier unavailable');
+
+      const result = await provider.send({ to: '+15551234567', body: 'Hi' });
+
+      expect(result).toEqual({ success: false, error: 'Carrier unavailable', provider: 'fake' });
+      expect(provider.messages).toHaveLength(0);
+    });
+  });
+
+  describe('TwilioProvider', () => {
+    const config = { accountSid: 'AC123', authToken: 'secret', fromNumber: '+15550000000' };
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should not send without credentials', async () => {
+      const provider = new TwilioProvider({ ...config, authToken: '' });
+      const result = await provider.send({ to: '+15551234567', body: 'Hi' });
+
+      expect(provider.isConfigured()).toBe(false);
+      expect(result.success).toBe(false);
+    });
+
+    it('should post the message to the Twilio Messages API', async () => {
+      const mockFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 201,
+        json: async () => ({ sid: 'SM123', status: 'queued' }),
+      });
+      global.fetch = mockFetch as unknown as typeof fetch;
+
+      const result = await new TwilioProvider(config).send({
+        to: '+15551234567',
+        body: 'Payment due',
+        statusCallback: 'https://example.com/api/sms/status',
+      });
+
+      expect(result).toEqual({ success: true, messageId: 'SM123', status: 'queued', provider: 'twilio' });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json');
+      expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('AC123:secret').toString('base64')}`);
+
+      const form = new URLSearchParams(init.body);
+      expect(form.get('To')).toBe('+15551234567');
+      expect(form.get('From')).toBe('+15550000000');
+      expect(form.get('StatusCallback')).toBe('https://example.com/api/sms/status');
+    });
+
+    it('should return the Twilio error message on failure', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        json: async () => ({ code: 21610, message: 'Attempt to send to unsubscribed recipient' }),
+      }) as unknown as typeof fetch;
+
+      const result = await new TwilioProvider(config).send({ to: '+15551234567', body: 'Hi' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Attempt to send to unsubscribed recipient');
+    });
+  });
+
+  describe('verifyTwilioSignature', () => {
+    const url = 'https://example.com/api/sms/inbound';
+    const params = { From: '+15551234567', Body: 'STOP', MessageSid: 'SM1' };
+    const sign = (token: string) =>
+      crypto
+        .createHmac('sha1', token)
+        .update(`${url}BodySTOPFrom+15551234567MessageSidSM1`)
+        .digest('base64');
+
+    it('should accept a correctly signed request', () => {
+      expect(verifyTwilioSignature('secret', sign('secret'), url, params)).toBe(true);
+    });
+
+    it('should reject a wrong or missing signature', () => {
+      expect(verifyTwilioSignature('secret', sign('other'), url, params)).toBe(false);
+      expect(verifyTwilioSignature('secret', null, url, params)).toBe(false);
+      expect(verifyTwilioSignature('secret', sign('secret'), url, { ...params, Body: 'START' })).toBe(false);
+    });
+  });
+
+  describe('twimlResponse', () => {
+    it('should escape reply text', () => {
+      expect(twimlResponse('A & B')).toContain('<Message>A &amp; B</Message>');
+      expect(twimlResponse()).toContain('<Response></Response>');
+    });
+  });
+});
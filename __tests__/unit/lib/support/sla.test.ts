@@ -0,0 +1,95 @@
+/**
+ * Unit tests for lib/support/sla.ts
+ * Tests SLA deadline calculation and timer status per ticket priority
+ */
+
+import {
+  SLA_TARGETS,
+  calculateSlaDeadlines,
+  getSlaTimerStatus,
+  getTicketSla,
+  getOverallSlaStatus,
+} from '@/lib/support/sla';
+import { TicketPriority, SlaStatus } from '@/types/support';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Support SLA', () => {
+  const openedAt = new Date('2024-01-01T00:00:00.000Z');
+
+  describe('calculateSlaDeadlines', () => {
+    it('should use the targets for the ticket priority', () => {
+      const deadlines = calculateSlaDeadlines(openedAt, TicketPriority.URGENT);
+
+      expect(deadlines.firstResponseDueAt.getTime() - openedAt.getTime())
+        .toBe(SLA_TARGETS[TicketPriority.URGENT].firstResponseHours * HOUR_MS);
+      expect(deadlines.resolutionDueAt.getTime() - openedAt.getTime())
+        .toBe(SLA_TARGETS[TicketPriority.URGENT].resolutionHours * HOUR_MS);
+    });
+
+    it('should give lower priorities longer windows', () => {
+      const urgent = calculateSlaDeadlines(openedAt, TicketPriority.URGENT);
+      const low = calculateSlaDeadlines(openedAt, TicketPriority.LOW);
+
+      expect(low.firstResponseDueAt.getTime()).toBeGreaterThan(urgent.firstResponseDueAt.getTime());
+      expect(low.resolutionDueAt.getTime()).toBeGreaterThan(urgent.resolutionDueAt.getTime());
+    });
+  });
+
+  describe('getSlaTimerStatus', () => {
+    const dueAt = new Date(openedAt.getTime() + 8 * HOUR_MS);
+
+    it('should be on track early in the window', () => {
+      const now = new Date(openedAt.getTime() + 1 * HOUR_MS);
+      expect(getSlaTimerStatus(openedAt, dueAt, undefined, now)).toBe(SlaStatus.ON_TRACK);
+    });
+
+    it('should be at risk when little of the window remains', () => {
+      const now = new Date(openedAt.getTime() + 7 * HOUR_MS);
+      expect(getSlaTimerStatus(openedAt, dueAt, undefined, now)).toBe(SlaStatus.AT_RISK);
+    });
+
+    it('should be breached after the deadline', () => {
+      const now = new Date(openedAt.getTime() + 9 * HOUR_MS);
+      expect(getSlaTimerStatus(openedAt, dueAt, undefined, now)).toBe(SlaStatus.BREACHED);
+    });
+
+    it('should be met when completed before the deadline', () => {
+      const completedAt = new Date(openedAt.getTime() + 2 * HOUR_MS);
+      const now = new Date(openedAt.getTime() + 20 * HOUR_MS);
+      expect(getSlaTimerStatus(openedAt, dueAt, completedAt, now)).toBe(SlaStatus.MET);
+    });
+
+    it('should stay breached when completed after the deadline', () => {
+      const completedAt = new Date(openedAt.getTime() + 10 * HOUR_MS);
+      expect(getSlaTimerStatus(openedAt, dueAt, completedAt)).toBe(SlaStatus.BREACHED);
+    });
+  });
+
+  describe('getTicketSla', () => {
+    it('should report both timers and the worst overall status', () => {
+      const deadlines = calculateSlaDeadlines(openedAt, TicketPriority.HIGH);
+      const now = new Date(openedAt.getTime() + 5 * HOUR_MS);
+
+      const sla = getTicketSla({ createdAt: openedAt, ...deadlines }, now);
+
+      expect(sla.firstResponseStatus).toBe(SlaStatus.BREACHED);
+      expect(sla.resolutionStatus).toBe(SlaStatus.ON_TRACK);
+      expect(sla.firstResponseDueAt).toBe(deadlines.firstResponseDueAt.toISOString());
+      expect(getOverallSlaStatus(sla)).toBe(SlaStatus.BREACHED);
+    });
+
+    it('should be met overall once both milestones were reached in time', () => {
+      const deadlines = calculateSlaDeadlines(openedAt, TicketPriority.NORMAL);
+
+      const sla = getTicketSla({
+        createdAt: openedAt,
+        ...deadlines,
+        firstRespondedAt: new Date(openedAt.getTime() + 1 * HOUR_MS),
+        resolvedAt: new Date(openedAt.getTime() + 2 * HOUR_MS),
+      });
+
+      expect(getOverallSlaStatus(sla)).toBe(SlaStatus.MET);
+    });
+  });
+});
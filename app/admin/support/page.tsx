@@ -43,8 +43,9 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '../../../components/ui/select';
-import { SupportTicket, TicketStatus, TicketPriority } from '../../../types/support';
+import { SupportTicket, TicketStatus, TicketPriority, SlaStatus } from '../../../types/support';
 import { useTickets } from '../../../lib/hooks/useTickets';
+import { getOverallSlaStatus } from '../../../lib/support/sla';
 import TicketViewer from '../../../components/support/TicketViewer';
 
 export default function AdminSupportDashboard() {
@@ -130,6 +131,34 @@ export default function AdminSupportDashboard() {
     }
   };
   
+  // Get SLA badge styles
+  const getSlaBadge = (status: SlaStatus) => {
+    switch (status) {
+      case SlaStatus.ON_TRACK:
+        return 'bg-blue-100 text-blue-800';
+      case SlaStatus.AT_RISK:
+        return 'bg-orange-100 text-orange-800';
+      case SlaStatus.BREACHED:
+        return 'bg-red-100 text-red-800';
+      case SlaStatus.MET:
+        return 'bg-green-100 text-green-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+  
+  // Format SLA status for display
+  const formatSlaStatus = (status: SlaStatus) => {
+    switch (status) {
+      case SlaStatus.ON_TRACK:
+        return 'On Track';
+      case SlaStatus.AT_RISK:
+        return 'At Risk';
+      default:
+        return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+  };
+  
   // Format status for display
   const formatStatus = (status: TicketStatus) => {
     switch (status) {
@@ -176,6 +205,8 @@ export default function AdminSupportDashboard() {
             <TableHead>Requester</TableHead>
             <TableHead>Status</TableHead>
             <TableHead>Priority</TableHead>
+            <TableHead>SLA</TableHead>
+            <TableHead>Assignee</TableHead>
             <TableHead>Updated</TableHead>
             <TableHead>Actions</TableHead>
           </TableRow>
@@ -210,6 +241,18 @@ export default function AdminSupportDashboard() {
                   {ticket.priority.charAt(0).toUpperCase() + ticket.priority.slice(1)}
                 </Badge>
               </TableCell>
+              <TableCell>
+                {ticket.sla ? (
+                  <Badge className={getSlaBadge(getOverallSlaStatus(ticket.sla))}>
+                    {formatSlaStatus(getOverallSlaStatus(ticket.sla))}
+                  </Badge>
+                ) : (
+                  <span className="text-sm text-gray-400">—</span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">
+                {ticket.assignedToName || <span className="text-gray-400">Unassigned</span>}
+              </TableCell>
               <TableCell className="text-sm text-gray-500">
                 {formatDate(ticket.updatedAt)}
               </TableCell>
@@ -301,6 +344,39 @@ export default function AdminSupportDashboard() {
           </Card>
         </div>
         
+        {/* SLA and assignment summary */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-gray-500">SLA Breached</p>
+              <h2 className="text-3xl font-bold text-red-600">{stats.slaBreached ?? 0}</h2>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-gray-500">SLA At Risk</p>
+              <h2 className="text-3xl font-bold text-orange-600">{stats.slaAtRisk ?? 0}</h2>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-gray-500">Unassigned</p>
+              <h2 className="text-3xl font-bold">{stats.unassigned ?? 0}</h2>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-gray-500">Avg. First Response</p>
+              <h2 className="text-3xl font-bold">
+                {stats.averageFirstResponseHours != null ? `${stats.averageFirstResponseHours}h` : '—'}
+              </h2>
+            </CardContent>
+          </Card>
+        </div>
+        
         {/* Charts and detailed stats */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Status breakdown */}
@@ -401,6 +477,28 @@ export default function AdminSupportDashboard() {
               </div>
             </CardContent>
           </Card>
+          
+          {/* Open tickets by assignee */}
+          {stats.byAssignee && Object.keys(stats.byAssignee).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Open Tickets by Assignee</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {Object.entries(stats.byAssignee).map(([assignee, count]) => (
+                    <div key={assignee} className="flex items-center justify-between">
+                      <div className="flex items-center">
+                        <User className="h-4 w-4 mr-2 text-gray-400" />
+                        <span>{assignee}</span>
+                      </div>
+                      <span className="font-medium">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
         
         <Button onClick={() => setView('list')} variant="outline">
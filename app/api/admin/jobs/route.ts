@@ -0,0 +1,90 @@
+import { NextRequest } from 'next/server';
+import { getCurrentUser } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import {
+  getJobStatuses,
+  getJobRuns,
+  runJob,
+  isJobName,
+  isAdminEmail,
+  JobTrigger,
+} from '../../../../lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// Resolve the caller; admins are configured via ADMIN_EMAILS
+async function getAdminUser() {
+  const userResult = await getCurrentUser();
+  if (userResult.error) {
+    return { error: errorResponse(userResult.error.message, { status: userResult.error.status }) };
+  }
+  if (!isAdminEmail(userResult.user.email)) {
+    return { error: ApiErrors.forbidden('Admin access required') };
+  }
+  return { user: userResult.user };
+}
+
+/**
+ * GET /api/admin/jobs
+ * List jobs with their lock state and recent runs
+ *
+ * Query:
+ * - job: only show runs of this job
+ * - limit: number of runs to return (default 20, max 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getAdminUser();
+    if (admin.error) return admin.error;
+
+    const searchParams = request.nextUrl.searchParams;
+    const job = searchParams.get('job') || undefined;
+    if (job !== undefined && !isJobName(job)) {
+      return ApiErrors.validationError(`Unknown job: ${job}`);
+    }
+
+    const [jobs, runs] = await Promise.all([
+      getJobStatuses(),
+      getJobRuns({
+        job,
+        limit: parseInt(searchParams.get('limit') || '20', 10) || 20,
+      }),
+    ]);
+
+    return successResponse({ jobs, runs });
+  } catch (error) {
+    console.error('Error fetching job runs:', error);
+    return ApiErrors.internalError('Failed to fetch job runs');
+  }
+}
+
+/**
+ * POST /api/admin/jobs
+ * Trigger a job now
+ *
+ * Body:
+ * - job: job name
+ * - force?: run even if the job already succeeded this period
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getAdminUser();
+    if (admin.error) return admin.error;
+
+    const body = await request.json();
+    if (!isJobName(body.job)) {
+      return ApiErrors.validationError('A valid job name is required');
+    }
+
+    const run = await runJob(body.job, {
+      trigger: JobTrigger.MANUAL,
+      triggeredBy: admin.user._id,
+      force: body.force === true,
+    });
+
+    return successResponse(run, { message: `Job ${run.job} ${run.status}` });
+  } catch (error) {
+    console.error('Error triggering job:', error);
+    return ApiErrors.internalError('Failed to trigger job');
+  }
+}
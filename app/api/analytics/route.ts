@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import connectToDatabase from '../../../lib/db/connect';
+import { getPoolModel } from '../../../lib/db/models/pool';
+import { PoolMember } from '../../../types/pool';
+import { getCurrentUser } from '../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../lib/api';
+import {
+  ANALYTICS_TIMEFRAMES,
+  DEFAULT_ANALYTICS_TIMEFRAME,
+  buildUserAnalytics,
+  getPoolRollups,
+  isAnalyticsTimeframe,
+  UserPoolMembership,
+} from '../../../lib/analytics';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/analytics
+ * The signed-in user's contributions, payouts, and punctuality across every
+ * pool they belong to
+ *
+ * Query:
+ * - timeframe: 1month | 3months | 6months | 1year | all (default 3months)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const timeframe = request.nextUrl.searchParams.get('timeframe') || DEFAULT_ANALYTICS_TIMEFRAME;
+    if (!isAnalyticsTimeframe(timeframe)) {
+      return ApiErrors.validationError(`timeframe must be one of: ${ANALYTICS_TIMEFRAMES.join(', ')}`);
+    }
+
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+    const userId = user._id.toString();
+    const userEmailLower = user.email?.toLowerCase();
+
+    await connectToDatabase();
+
+    const pools = await getPoolModel()
+      .find({
+        $or: [
+          { 'members.userId': user._id },
+          ...(userEmailLower ? [{ 'members.email': userEmailLower }] : []),
+        ],
+      })
+      .select('id name status members');
+
+    const rollups = await getPoolRollups(pools.map(pool => pool.id));
+
+    const memberships: UserPoolMembership[] = [];
+    for (const pool of pools) {
+      // SECURITY: Match the membership using userId (primary) with email fallback
+      const member = pool.members.find(
+        (m: PoolMember) => m.userId?.toString() === userId || m.email?.toLowerCase() === userEmailLower
+      );
+      const poolRollups = rollups.get(pool.id);
+      if (!member || !poolRollups) continue;
+
+      memberships.push({
+        pool: { id: pool.id, name: pool.name, status: pool.status },
+        memberId: member.id,
+        rollups: poolRollups,
+      });
+    }
+
+    return successResponse({
+      analytics: buildUserAnalytics(memberships, timeframe),
+    });
+  } catch (error) {
+    console.error('Error fetching user analytics:', error);
+    return ApiErrors.internalError('Failed to fetch analytics');
+  }
+}
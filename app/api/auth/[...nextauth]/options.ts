@@ -15,7 +15,8 @@
  *    - Session callback passes this MongoDB _id to the client
  *
  * 2. Credentials Sign-in:
- *    - User submits email/password (and optional MFA code)
+ *    - User submits email/password (and optional MFA code), or a passkey
+ *      assertion for a passwordless sign-in
  *    - authorize() validates credentials and returns user with MongoDB _id
  *    - JWT callback stores the _id in the token
  *    - Session callback passes this _id to the client
@@ -33,6 +34,18 @@ import connectToDatabase from '../../../../lib/db/connect';
 import { getUserModel } from '../../../../lib/db/models/user';
 import { v4 as uuidv4 } from 'uuid';
 import { sendEmailVerificationCode, verifyEmailCode, verifyTotpCode } from '../../../../lib/services/mfa';
+import { headers } from 'next/headers';
+import {
+  getRequestContext,
+  logSecurityActivity,
+  createUserSession,
+  revokeUserSession,
+  authenticateWithPasskey,
+  redeemBackupCode,
+  SESSION_MAX_AGE_SECONDS,
+  HeadersLike,
+} from '../../../../lib/security';
+import { ActivityType } from '../../../../types/security';
 
 /**
  * Helper to validate MongoDB ObjectId format
@@ -43,6 +56,34 @@ function isValidMongoObjectId(id: string | undefined | null): boolean {
   return /^[a-f\d]{24}$/i.test(id);
 }
 
+/**
+ * Helper to read the device and location of the sign-in request. The jwt
+ * callback isn't handed the request, so this reads it from next/headers and
+ * returns nothing when called outside a request.
+ */
+function getSignInContext() {
+  try {
+    return getRequestContext(headers());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Helper to register a new sign-in in the session registry and return the id
+ * for its token. Middleware rejects tokens without an active registry entry,
+ * so a failure here fails the sign-in instead of issuing a token that would
+ * be treated as signed out.
+ */
+async function registerSignInSession(userId: string, provider: string): Promise<string> {
+  try {
+    return await createUserSession(userId, { provider, context: getSignInContext() });
+  } catch (error) {
+    console.error('[AUTH] Failed to register session:', error);
+    throw new Error('Unable to sign in right now. Please try again.');
+  }
+}
+
 /**
  * Helper to find or create a user in MongoDB for OAuth sign-ins
  * Returns the MongoDB _id as a string, or null if operation fails
@@ -191,9 +232,23 @@ async function authenticateUser(email: string, password: string, mfaCode?: strin
     };
   }
 
+  const userObjectIdString = user._id.toString();
+
+  // --- Passkey MFA: nothing to send, the browser asks the authenticator ---
+  if (user.twoFactorAuth?.method === 'passkey') {
+    console.log('[Auth] MFA is enabled, requiring passkey');
+    await UserModel.findByIdAndUpdate(user._id, { $set: { pendingMfaVerification: true } });
+    return {
+      id: userObjectIdString,
+      name: user.name,
+      email: user.email,
+      requiresMfa: true,
+      mfaMethod: 'passkey' as const
+    };
+  }
+
   // --- Initiate MFA Flow (Send Code) ---
   console.log('[Auth] MFA is enabled, sending code');
-  const userObjectIdString = user._id.toString();
   const codeSent = await sendEmailVerificationCode(userObjectIdString);
   if (!codeSent) {
     console.error('[Auth] Failed to send email verification code');
@@ -211,6 +266,43 @@ async function authenticateUser(email: string, password: string, mfaCode?: strin
   };
 }
 
+// Passwordless sign-in: the passkey identifies the user, and it must have
+// verified them (PIN or biometric), which stands in for the password and MFA
+async function authenticatePasskeyUser(passkeyResponse: string) {
+  let response;
+  try {
+    response = JSON.parse(passkeyResponse);
+  } catch {
+    console.log('[Auth] Malformed passkey response');
+    return null;
+  }
+
+  const result = await authenticateWithPasskey(response);
+  if ('error' in result) {
+    console.log(`[Auth] Passkey sign-in failed: ${result.error}`);
+    return null;
+  }
+
+  await connectToDatabase();
+  const UserModel = getUserModel();
+  const user = await UserModel.findByIdAndUpdate(
+    result.userId,
+    { $set: { lastLogin: new Date().toISOString() } },
+    { new: true }
+  );
+
+  if (!user) {
+    console.log('[Auth] Passkey belongs to a user that no longer exists');
+    return null;
+  }
+
+  return {
+    id: user._id.toString(),
+    name: user.name,
+    email: user.email,
+  };
+}
+
 // Validate MFA codes (temporary codes, recovery codes, or TOTP)
 async function validateMfaCode(userId: string, code: string): Promise<boolean> {
   await connectToDatabase();
@@ -237,13 +329,8 @@ async function validateMfaCode(userId: string, code: string): Promise<boolean> {
     }
   }
   
-  // Check for recovery codes
-  if (user.twoFactorAuth.backupCodes?.includes(code)) {
-    // Remove the used recovery code
-    user.twoFactorAuth.backupCodes = user.twoFactorAuth.backupCodes.filter(
-      (backupCode: string) => backupCode !== code
-    );
-    await user.save();
+  // Check for recovery codes (hashed; removed on use)
+  if (await redeemBackupCode(user._id.toString(), code)) {
     return true;
   }
   
@@ -284,9 +371,29 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
-        mfaCode: { label: "MFA Code", type: "text" }
+        mfaCode: { label: "MFA Code", type: "text" },
+        passkey: { label: "Passkey", type: "text" }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
+        // Passwordless sign-in with a passkey assertion (JSON from the browser)
+        if (credentials?.passkey) {
+          const passkeyUser = await authenticatePasskeyUser(credentials.passkey);
+          if (!passkeyUser) {
+            throw new Error("Passkey sign-in failed");
+          }
+
+          await logSecurityActivity({
+            userId: passkeyUser.id,
+            userEmail: passkeyUser.email,
+            userName: passkeyUser.name,
+            type: ActivityType.LOGIN,
+            metadata: { provider: 'credentials', method: 'passkey' },
+            context: getRequestContext(req?.headers as HeadersLike | undefined),
+          });
+
+          return passkeyUser;
+        }
+
         if (!credentials?.email || !credentials?.password) {
           throw new Error("Email and password are required");
         }
@@ -303,6 +410,19 @@ export const authOptions: NextAuthOptions = {
           throw new Error("Invalid email or password");
         }
 
+        // Record the sign-in once it is complete (after MFA, if required);
+        // this also alerts the user to a new device or location
+        if (!('requiresMfa' in user && user.requiresMfa)) {
+          await logSecurityActivity({
+            userId: user.id,
+            userEmail: user.email,
+            userName: user.name,
+            type: ActivityType.LOGIN,
+            metadata: { provider: 'credentials', usedMfa: !!credentials.mfaCode && credentials.mfaCode !== 'undefined' },
+            context: getRequestContext(req?.headers as HeadersLike | undefined),
+          });
+        }
+
         // Directly return the user object.
         // If requiresMfa is true, the jwt/session callbacks will handle it.
         console.log('Authorize function returning user object:', JSON.stringify(user));
@@ -312,9 +432,23 @@ export const authOptions: NextAuthOptions = {
   ],
   session: {
     strategy: "jwt",
-    maxAge: 30 * 24 * 60 * 60, // 30 days
+    maxAge: SESSION_MAX_AGE_SECONDS, // 30 days
   },
   callbacks: {
+    /**
+     * Sign-in Callback
+     *
+     * Credentials sign-ins are registered in the session registry here, where
+     * a thrown error reaches the sign-in form as result.error. OAuth users only
+     * get their MongoDB _id in the jwt callback, so they're registered there.
+     */
+    async signIn({ user, account }) {
+      if (account?.provider === 'credentials' && isValidMongoObjectId(user.id)) {
+        user.sessionId = await registerSignInSession(user.id, 'credentials');
+      }
+      return true;
+    },
+
     /**
      * JWT Callback
      *
@@ -362,6 +496,15 @@ export const authOptions: NextAuthOptions = {
           token.id = oauthResult.userId;
           console.log(`[JWT] OAuth user mapped to MongoDB _id: ${token.id}`);
 
+          // The request isn't available here, so OAuth sign-ins are logged
+          // without device or location
+          await logSecurityActivity({
+            userId: oauthResult.userId,
+            userEmail: email,
+            type: ActivityType.LOGIN,
+            metadata: { provider: account.provider, newUser: oauthResult.isNewUser },
+          });
+
           // Handle MFA for existing OAuth users who have enabled it
           if (!oauthResult.isNewUser && oauthResult.mfaEnabled) {
             const mfaMethod = oauthResult.mfaMethod || 'email';
@@ -381,6 +524,14 @@ export const authOptions: NextAuthOptions = {
               token.requiresMfa = true;
               token.mfaMethod = 'app';
               console.log(`[JWT] TOTP MFA required for OAuth user: ${email}`);
+            } else if (mfaMethod === 'passkey') {
+              // Passkey - the MFA page asks the browser for an assertion
+              await getUserModel().findByIdAndUpdate(oauthResult.userId, {
+                $set: { pendingMfaVerification: true }
+              });
+              token.requiresMfa = true;
+              token.mfaMethod = 'passkey';
+              console.log(`[JWT] Passkey MFA required for OAuth user: ${email}`);
             }
           }
         } else {
@@ -446,6 +597,19 @@ export const authOptions: NextAuthOptions = {
         }
       }
 
+      // ============================================================
+      // SESSION REGISTRY
+      // ============================================================
+      // Register each newly issued token so it can be listed and signed out
+      // remotely; credentials sign-ins were already registered in signIn()
+      if (user && !token.sessionId) {
+        if (user.sessionId) {
+          token.sessionId = user.sessionId;
+        } else if (isValidMongoObjectId(token.id as string)) {
+          token.sessionId = await registerSignInSession(token.id as string, account?.provider || 'credentials');
+        }
+      }
+
       // ============================================================
       // SESSION UPDATE HANDLING
       // ============================================================
@@ -569,6 +733,24 @@ export const authOptions: NextAuthOptions = {
       return `${baseUrl}/dashboard`;
     }
   },
+  events: {
+    async signOut({ token }) {
+      if (token?.sessionId && token.id) {
+        try {
+          await revokeUserSession(token.id as string, token.sessionId, 'signed_out');
+        } catch (error) {
+          console.error('[Auth] Failed to revoke session on sign-out:', error);
+        }
+      }
+      if (token?.id) {
+        await logSecurityActivity({
+          userId: token.id as string,
+          userEmail: token.email || undefined,
+          type: ActivityType.LOGOUT,
+        });
+      }
+    },
+  },
   pages: {
     signIn: '/auth/signin',
     signOut: '/auth/signout',
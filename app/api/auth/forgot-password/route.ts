@@ -1,17 +1,8 @@
 import { NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
-import nodemailer from 'nodemailer';
 import { MongoClient, ObjectId } from 'mongodb';
-
-// Email configuration
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: 'juntassegurasservice@gmail.com',
-    pass: 'mpdo mzvb dotr pqna'
-  }
-});
+import { getEmailService } from '../../../../lib/email/index';
 
 // MongoDB connection string
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/juntas-app';
@@ -94,10 +85,10 @@ export async function POST(request: Request) {
     console.log('Reset URL:', resetUrl);
     
     try {
-      await transporter.sendMail({
-        from: 'juntassegurasservice@gmail.com',
+      const result = await getEmailService().send({
         to: user.email,
         subject: 'Reset Your Juntas Seguras Password',
+        priority: 'high',
         text: `Click this link to reset your password: ${resetUrl}`,
         html: `
           <!DOCTYPE html>
@@ -139,6 +130,9 @@ export async function POST(request: Request) {
           </html>
         `
       });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to send reset email');
+      }
 
       await client.close();
       return NextResponse.json({ success: true });
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { ApiErrors, successResponse } from '../../../../../lib/api';
+import { createPasskeyAuthenticationOptions } from '../../../../../lib/security';
+import { RateLimiters, getClientIp } from '../../../../../lib/utils/rate-limiter';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/passkey/options
+ * Start a passkey sign-in: returns the options for the browser's
+ * navigator.credentials.get().
+ *
+ * While the session is waiting on MFA the challenge is for that user's
+ * passkeys (answered at /api/auth/verify-mfa); otherwise it's for a
+ * passwordless sign-in with any passkey (answered by the credentials provider).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const rateLimitResult = RateLimiters.login(getClientIp(req));
+    if (!rateLimitResult.allowed) {
+      return ApiErrors.rateLimited('Too many sign-in attempts. Please try again later.');
+    }
+
+    const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+    const mfaUserId = token?.id && token.requiresMfa ? (token.id as string) : undefined;
+
+    const options = await createPasskeyAuthenticationOptions(mfaUserId);
+    if ('error' in options) {
+      return ApiErrors.validationError(options.error);
+    }
+
+    return successResponse({ options, purpose: mfaUserId ? 'mfa' : 'sign_in' });
+  } catch (error) {
+    console.error('Error creating passkey sign-in options:', error);
+    return ApiErrors.internalError('Failed to start passkey sign-in');
+  }
+}
@@ -4,24 +4,9 @@ import bcrypt from 'bcryptjs';
 import connectToDatabase from '../../../../lib/db/connect';
 import { getUserModel } from '../../../../lib/db/models/user';
 import { TwoFactorMethod } from '../../../../types/security';
-import nodemailer from 'nodemailer';
 import * as speakeasy from 'speakeasy';
-
-// Email configuration
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: 'juntassegurasservice@gmail.com',
-    pass: 'mpdo mzvb dotr pqna'
-  }
-});
-
-// Verify email configuration
-console.log('Email configuration:', {
-  user: process.env.EMAIL_USER,
-  pass: process.env.EMAIL_PASS,
-  from: process.env.EMAIL_FROM
-});
+import { getEmailService } from '../../../../lib/email/index';
+import { getRequestLocale, LOCALE_COOKIE } from '../../../../lib/i18n';
 
 // Generate TOTP secret (in a real app, use a proper library like speakeasy)
 function generateTotpSecret() {
@@ -108,6 +93,8 @@ export async function POST(request: NextRequest) {
       verificationCode: code,
       verificationExpiry: expiry,
       verificationMethod,
+      // Start in the language they signed up in
+      language: getRequestLocale(request.cookies.get(LOCALE_COOKIE)?.value, request.headers.get('accept-language')),
       isVerified: false,
       isTemporary: true,
       createdAt: new Date(),
@@ -144,13 +131,16 @@ export async function POST(request: NextRequest) {
     // Send verification email if using email method
     if (verificationMethod === 'email') {
       try {
-        await transporter.sendMail({
-          from: process.env.EMAIL_FROM,
+        const result = await getEmailService().send({
           to: email,
           subject: 'Verify your account',
+          priority: 'high',
           text: `Your verification code is: ${code}`,
           html: `<p>Your verification code is: <strong>${code}</strong></p>`
         });
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to send verification email');
+        }
         console.log('Verification email sent successfully');
       } catch (emailError) {
         console.error('Failed to send verification email:', emailError);
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import connectToDatabase from '../../../../lib/db/connect';
 import { getUserModel } from '../../../../lib/db/models/user';
 import * as bcrypt from 'bcryptjs';
+import { getRequestContext, logSecurityActivity, revokeAllUserSessions } from '../../../../lib/security';
+import { ActivityType } from '../../../../types/security';
 
 // Define the user document type
 interface UserDocument {
@@ -106,6 +108,18 @@ export async function POST(request: Request) {
       }
 
       console.log('Password updated successfully for user:', user._id);
+
+      // Whoever had the old password may still be signed in; sign out everywhere
+      const revokedSessions = await revokeAllUserSessions(user._id.toString(), 'password_reset');
+
+      await logSecurityActivity({
+        userId: user._id.toString(),
+        userEmail: user.email,
+        type: ActivityType.ACCOUNT_RECOVERY,
+        metadata: { method: 'password_reset', revokedSessions },
+        context: getRequestContext(request.headers),
+      });
+
       return NextResponse.json({ success: true });
 
     } catch (updateError) {
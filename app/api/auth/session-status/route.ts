@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { getRequestContext, touchUserSession } from '../../../../lib/security';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/auth/session-status
+ * Whether the caller's token still has an active session in the registry.
+ * middleware.ts runs on the edge without database access, so it forwards the
+ * request's cookies here; the answer is only ever about the caller's own token.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+
+    if (!token?.id || !token.sessionId) {
+      return NextResponse.json({ active: false });
+    }
+
+    const active = await touchUserSession(token.sessionId, token.id, getRequestContext(request.headers));
+
+    return NextResponse.json({ active });
+  } catch (error) {
+    console.error('Session status check error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check session' },
+      { status: 500 }
+    );
+  }
+}
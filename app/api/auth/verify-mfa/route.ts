@@ -3,6 +3,13 @@ import { getToken } from 'next-auth/jwt';
 import connectToDatabase from '../../../../lib/db/connect';
 import { getUserModel } from '../../../../lib/db/models/user';
 import { verifyEmailCode, verifyTotpCode } from '../../../../lib/services/mfa';
+import {
+  authenticateWithPasskey,
+  redeemBackupCode,
+  getRequestContext,
+  logSecurityActivity,
+} from '../../../../lib/security';
+import { ActivityType } from '../../../../types/security';
 import { RateLimiters, getClientIp, resetRateLimit } from '../../../../lib/utils/rate-limiter';
 
 export async function POST(req: NextRequest) {
@@ -43,9 +50,21 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { code } = await req.json();
+    // Passkey MFA sends the browser's assertion instead of a code; any method
+    // can instead be satisfied with one of the user's backup codes
+    const { code, passkeyResponse, recoveryCode } = await req.json();
+    const usingRecoveryCode = typeof recoveryCode === 'string' && recoveryCode.trim() !== '';
 
-    if (!code || typeof code !== 'string') {
+    if (usingRecoveryCode) {
+      // Checked against the stored hashes below
+    } else if (token.mfaMethod === 'passkey') {
+      if (!passkeyResponse || typeof passkeyResponse !== 'object') {
+        return NextResponse.json(
+          { error: 'Passkey response is required' },
+          { status: 400 }
+        );
+      }
+    } else if (!code || typeof code !== 'string') {
       return NextResponse.json(
         { error: 'Verification code is required' },
         { status: 400 }
@@ -53,7 +72,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Validate code format (should be 6 digits for email, variable for TOTP)
-    if (token.mfaMethod === 'email' && !/^\d{6}$/.test(code)) {
+    if (!usingRecoveryCode && token.mfaMethod === 'email' && !/^\d{6}$/.test(code)) {
       return NextResponse.json(
         { error: 'Invalid code format. Please enter a 6-digit code.' },
         { status: 400 }
@@ -97,7 +116,7 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Verify MFA code based on the method (email or TOTP app only)
+    // Verify MFA code based on the method (email, TOTP app, or passkey)
     let mfaValid = false;
     const mfaMethod = token.mfaMethod || user.twoFactorAuth.method || 'email';
 
@@ -108,14 +127,22 @@ export async function POST(req: NextRequest) {
     });
 
     try {
-      if (mfaMethod === 'email') {
+      if (usingRecoveryCode) {
+        const redeemed = await redeemBackupCode(token.id as string, recoveryCode, {
+          context: getRequestContext(req.headers),
+        });
+        mfaValid = redeemed !== null;
+      } else if (mfaMethod === 'email') {
         mfaValid = await verifyEmailCode(token.id as string, code.trim());
       } else if (mfaMethod === 'app') {
         mfaValid = await verifyTotpCode(token.id as string, code);
+      } else if (mfaMethod === 'passkey' && passkeyResponse) {
+        const result = await authenticateWithPasskey(passkeyResponse, { userId: token.id as string });
+        mfaValid = !('error' in result);
       } else {
         console.error(`Unknown MFA method: ${mfaMethod}`);
         return NextResponse.json(
-          { error: 'Invalid MFA method configured. Only email and authenticator app are supported.' },
+          { error: 'Invalid MFA method configured. Only email, authenticator app, and passkey are supported.' },
           { status: 400 }
         );
       }
@@ -158,7 +185,9 @@ export async function POST(req: NextRequest) {
       
       return NextResponse.json(
         { 
-          error: 'Invalid verification code',
+          error: usingRecoveryCode
+            ? 'Invalid backup code'
+            : mfaMethod === 'passkey' ? 'Passkey could not be verified' : 'Invalid verification code',
           attemptsRemaining: 5 - attempts 
         },
         { status: 400 }
@@ -187,6 +216,16 @@ export async function POST(req: NextRequest) {
       }
     );
     
+    // Record the sign-in now that it's complete
+    await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      userName: user.name,
+      type: ActivityType.LOGIN,
+      metadata: { usedMfa: true, method: usingRecoveryCode ? 'backup_code' : mfaMethod },
+      context: getRequestContext(req.headers),
+    });
+
     // Create response with session update flag
     const response = NextResponse.json({
       success: true,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserModel } from '../../../../lib/db/models/user';
-import { getCurrentUser } from '../../../../lib/auth';
+import { getCurrentUser, getCurrentSessionId } from '../../../../lib/auth';
+import { revokeAllUserSessions } from '../../../../lib/security';
 import speakeasy from 'speakeasy';
 
 export async function POST(request: NextRequest) {
@@ -65,6 +66,10 @@ export async function POST(request: NextRequest) {
       }
     );
 
+    await revokeAllUserSessions(userId, 'mfa_changed', {
+      exceptSessionId: await getCurrentSessionId(request),
+    });
+
     return NextResponse.json({
       success: true,
       message: 'TOTP authentication successfully set up'
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  runJobs,
+  isJobName,
+  listJobs,
+  verifyCronSecret,
+  JobName,
+  JobTrigger,
+  JobRunStatus,
+} from '../../../../lib/jobs';
+
+/**
+ * Cron endpoint for scheduled jobs
+ *
+ * Runs every registered job in order (reminders, digests, late payments,
+ * round auto-advance, invitation expiry, email queue retries), or only the
+ * jobs named in ?job=.
+ * Jobs are locked while running and succeed at most once per period, so
+ * this can be called as often as the scheduler allows.
+ *
+ * Security: Protected by CRON_SECRET environment variable
+ *
+ * Usage:
+ * - Vercel Cron: see vercel.json
+ * - External: GET /api/cron/jobs?job=late-payments,round-advance
+ *   with "Authorization: Bearer <CRON_SECRET>"
+ * - Local: npx ts-node scripts/run-jobs.ts
+ */
+
+/**
+ * GET /api/cron/jobs
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const requested = request.nextUrl.searchParams.get('job');
+  const names = requested
+    ? requested.split(',').map(name => name.trim()).filter(Boolean)
+    : listJobs().map(job => job.name);
+
+  const unknown = names.filter(name => !isJobName(name));
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown job: ${unknown.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const runs = await runJobs(names as JobName[], { trigger: JobTrigger.CRON });
+    const success = runs.every(run => run.status !== JobRunStatus.FAILED);
+
+    console.log('[Cron] Jobs complete:', runs.map(run => `${run.job}=${run.status}`).join(', '));
+
+    return NextResponse.json(
+      {
+        success,
+        timestamp: new Date().toISOString(),
+        duration: `${Date.now() - startTime}ms`,
+        runs,
+      },
+      { status: success ? 200 : 500 }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Cron] Error running jobs:', errorMessage);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cron/jobs
+ * Same as GET, for schedulers that only send POST
+ */
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
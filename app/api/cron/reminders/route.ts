@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPendingReminders, getReminderStats } from '../../../../lib/reminders/scheduler';
-import { processReminders, retryFailedReminders } from '../../../../lib/reminders/sender';
+import { getReminderStats } from '../../../../lib/reminders/scheduler';
+import { runJobs, verifyCronSecret, JobTrigger, JobRunStatus } from '../../../../lib/jobs';
 
 /**
  * Cron endpoint for processing reminders
  *
- * This endpoint processes all reminders due within the next 24 hours.
+ * Runs the "reminders" and "digests" jobs (lib/jobs), which process all
+ * reminders due within the next 24 hours and send digests that are due.
  * Designed to work with Vercel Hobby plan's once-per-day cron limit.
+ * Each job is locked while running and succeeds at most once per hour, so
+ * overlapping or repeated calls are safe.
  *
  * Security: Protected by CRON_SECRET environment variable
  *
@@ -20,40 +23,13 @@ import { processReminders, retryFailedReminders } from '../../../../lib/reminder
  *   }
  * - Vercel Pro: Can run more frequently (hourly)
  * - External: Call with Authorization header containing CRON_SECRET
+ * - Local: npx ts-node scripts/run-jobs.ts reminders digests
  */
 
-// Verify cron secret for security
-function verifyCronSecret(request: NextRequest): boolean {
-  const cronSecret = process.env.CRON_SECRET;
-
-  // If no secret is configured, allow in development only
-  if (!cronSecret) {
-    if (process.env.NODE_ENV === 'development') {
-      console.warn('[Cron] No CRON_SECRET configured - allowing request in development');
-      return true;
-    }
-    return false;
-  }
-
-  // Check Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader === `Bearer ${cronSecret}`) {
-    return true;
-  }
-
-  // Check Vercel cron header (for Vercel Cron Jobs)
-  const vercelCronHeader = request.headers.get('x-vercel-cron');
-  if (vercelCronHeader === cronSecret) {
-    return true;
-  }
-
-  return false;
-}
-
 /**
  * GET /api/cron/reminders
  *
- * Main cron endpoint - finds and sends pending reminders
+ * Main cron endpoint - finds and sends pending reminders and due digests
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -69,40 +45,47 @@ export async function GET(request: NextRequest) {
   try {
     console.log('[Cron] Starting reminder processing...');
 
-    // Get pending reminders
-    const pendingReminders = await getPendingReminders();
-    console.log(`[Cron] Found ${pendingReminders.length} pending reminders`);
-
-    // Process reminders
-    const sendResults = await processReminders(pendingReminders);
-
-    // Retry any recently failed reminders
-    const retryResults = await retryFailedReminders(3);
+    const [reminderRun, digestRun] = await runJobs(['reminders', 'digests'], { trigger: JobTrigger.CRON });
+    const reminderResults = reminderRun.result || {};
+    const digestResults = digestRun.result || {};
 
     // Get updated stats
     const stats = await getReminderStats();
 
     const duration = Date.now() - startTime;
+    const errors = [
+      ...(reminderRun.error ? [reminderRun.error] : []),
+      ...(digestRun.error ? [digestRun.error] : []),
+      ...((reminderResults.errors as string[]) || []),
+      ...((digestResults.errors as string[]) || []),
+    ];
 
     const response = {
-      success: true,
+      success: reminderRun.status !== JobRunStatus.FAILED && digestRun.status !== JobRunStatus.FAILED,
       timestamp: new Date().toISOString(),
       duration: `${duration}ms`,
+      runs: {
+        reminders: { id: reminderRun.id, status: reminderRun.status, skipReason: reminderRun.skipReason },
+        digests: { id: digestRun.id, status: digestRun.status, skipReason: digestRun.skipReason },
+      },
       results: {
-        pending: pendingReminders.length,
-        sent: sendResults.sent,
-        failed: sendResults.failed,
-        retried: retryResults.retried,
-        retrySucceeded: retryResults.succeeded,
-        retryFailed: retryResults.failed,
+        pending: reminderResults.pending ?? 0,
+        sent: reminderResults.sent ?? 0,
+        failed: reminderResults.failed ?? 0,
+        retried: reminderResults.retried ?? 0,
+        retrySucceeded: reminderResults.retrySucceeded ?? 0,
+        retryFailed: reminderResults.retryFailed ?? 0,
+        digestsSent: digestResults.sent ?? 0,
+        digestsSkipped: digestResults.skipped ?? 0,
+        digestsFailed: digestResults.failed ?? 0,
       },
       stats,
-      errors: sendResults.errors.length > 0 ? sendResults.errors.slice(0, 10) : undefined, // Limit error output
+      errors: errors.length > 0 ? errors.slice(0, 10) : undefined, // Limit error output
     };
 
     console.log('[Cron] Reminder processing complete:', response.results);
 
-    return NextResponse.json(response);
+    return NextResponse.json(response, { status: response.success ? 200 : 500 });
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('[Cron] Error processing reminders:', errorMessage);
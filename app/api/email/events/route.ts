@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseEmailEvents, recordEmailEvent, verifyEmailWebhookSecret } from '../../../../lib/email/index';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/email/events
+ * Bounce and complaint notifications from the email provider. Authenticated
+ * with "Authorization: Bearer <EMAIL_WEBHOOK_SECRET>".
+ *
+ * Body: one event or { events: [...] }, each
+ * { type: 'bounce' | 'complaint', email, bounceType?: 'hard' | 'soft', details? }
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyEmailWebhookSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const events = parseEmailEvents(body);
+    if (events.length === 0) {
+      return NextResponse.json({ error: 'No valid events' }, { status: 400 });
+    }
+
+    let suppressed = 0;
+    for (const event of events) {
+      const state = await recordEmailEvent(event);
+      if (state.suppressed) suppressed++;
+    }
+
+    return NextResponse.json({ recorded: events.length, suppressed });
+  } catch (error) {
+    console.error('Error recording email events:', error);
+    return NextResponse.json({ error: 'Failed to record events' }, { status: 500 });
+  }
+}
@@ -1,102 +1,60 @@
-import { NextResponse } from 'next/server';
-import nodemailer from 'nodemailer';
-
-// Create reusable transporter with Gmail
-const createTransporter = () => {
-  console.log('[EMAIL API] Creating transporter with:', {
-    user: process.env.EMAIL_USER ? `${process.env.EMAIL_USER.substring(0, 5)}...` : 'NOT SET',
-    passwordSet: !!process.env.EMAIL_PASSWORD,
-    from: process.env.EMAIL_FROM || process.env.EMAIL_USER
-  });
-
-  return nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASSWORD,
-    },
-  });
-};
-
-export async function POST(request: Request) {
-  console.log('[EMAIL API] Received POST request');
-
+import { NextRequest } from 'next/server';
+import { getCurrentUser } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import { getEmailService } from '../../../../lib/email/index';
+import { isAdminEmail } from '../../../../lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/email/send
+ * Send an ad-hoc email through the queue. Admins only (ADMIN_EMAILS), since
+ * it sends arbitrary content to any address.
+ *
+ * Body: { to, subject, text?, html? } - at least one of text or html
+ */
+export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { to, subject, text, html } = body;
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    if (!isAdminEmail(userResult.user.email)) {
+      return ApiErrors.forbidden('Admin access required');
+    }
 
-    console.log('[EMAIL API] Request body:', {
-      to,
-      subject,
-      hasText: !!text,
-      hasHtml: !!html,
-      textLength: text?.length || 0,
-      htmlLength: html?.length || 0
-    });
+    const { to, subject, text, html } = await request.json();
 
     if (!to || !subject) {
-      console.error('[EMAIL API] Missing required fields:', { to: !!to, subject: !!subject });
-      return NextResponse.json(
-        { error: 'Missing required fields: to, subject' },
-        { status: 400 }
-      );
+      return ApiErrors.validationError('Missing required fields: to, subject');
     }
-
-    // Ensure at least text or html content is provided
     if (!text && !html) {
-      console.error('[EMAIL API] Missing content: neither text nor html provided');
-      return NextResponse.json(
-        { error: 'Either text or html content is required' },
-        { status: 400 }
-      );
+      return ApiErrors.validationError('Either text or html content is required');
     }
 
-    // Validate email user is configured
-    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
-      console.error('[EMAIL API] Email credentials not configured:', {
-        EMAIL_USER: !!process.env.EMAIL_USER,
-        EMAIL_PASSWORD: !!process.env.EMAIL_PASSWORD
-      });
-      return NextResponse.json(
-        { error: 'Email service not configured' },
-        { status: 500 }
-      );
-    }
-
-    const transporter = createTransporter();
-
-    const mailOptions: nodemailer.SendMailOptions = {
-      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+    const result = await getEmailService().send({
       to,
       subject,
       text: text || undefined,
-      html: html || undefined,
-    };
-
-    console.log(`[EMAIL API] Sending email to ${to} with subject: ${subject}`);
-
-    const result = await transporter.sendMail(mailOptions);
-
-    console.log(`[EMAIL API] Email sent successfully to ${to}`, {
-      messageId: result.messageId,
-      response: result.response
+      // The queue stores an HTML body; plain-text-only mail is sent as preformatted text
+      html: html || `<pre style="font-family: inherit; white-space: pre-wrap;">${escapeHtml(text)}</pre>`,
     });
 
-    return NextResponse.json({
-      success: true,
-      messageId: result.messageId
-    });
-  } catch (error: any) {
-    console.error('[EMAIL API] Error sending email:', {
-      message: error.message,
-      code: error.code,
-      command: error.command,
-      responseCode: error.responseCode,
-      stack: error.stack
-    });
-    return NextResponse.json(
-      { error: 'Failed to send email', details: error.message },
-      { status: 500 }
-    );
+    if (!result.success) {
+      return ApiErrors.internalError(result.error || 'Failed to send email');
+    }
+
+    return successResponse({ status: result.status, queueId: result.queueId, messageId: result.messageId });
+  } catch (error) {
+    console.error('[EMAIL API] Error sending email:', error);
+    return ApiErrors.internalError('Failed to send email');
   }
-} 
\ No newline at end of file
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,135 @@
+import { NextRequest } from 'next/server';
+import connectToDatabase from '../../../../lib/db/connect';
+import {
+  getNotificationPreferenceModel,
+  createDefaultPreferences,
+  NotificationFrequency,
+} from '../../../../lib/db/models/notificationPreference';
+import { getCurrentUser } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+
+export const dynamic = 'force-dynamic';
+
+// Helper to check an IANA timezone name
+function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidHour(hour: unknown): hour is number {
+  return Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) <= 23;
+}
+
+/**
+ * GET /api/notifications/preferences
+ * Get digest frequency and quiet hours
+ */
+export async function GET() {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    await connectToDatabase();
+    const preferences = await getNotificationPreferenceModel()
+      .findOne({ userId: user._id })
+      .select('digestFrequency quietHours lastDigestSentAt');
+    const defaults = createDefaultPreferences(user._id);
+
+    return successResponse({
+      digestFrequency: preferences?.digestFrequency || NotificationFrequency.IMMEDIATE,
+      quietHours: preferences?.quietHours || defaults.quietHours,
+      lastDigestSentAt: preferences?.lastDigestSentAt || {},
+    });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return ApiErrors.internalError('Failed to fetch notification preferences');
+  }
+}
+
+/**
+ * PATCH /api/notifications/preferences
+ * Update digest frequency and/or quiet hours
+ *
+ * Body:
+ * - digestFrequency?: 'immediate' | 'daily' | 'weekly' | 'none'
+ * - quietHours?: { enabled, startHour, endHour, timezone }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const body = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (body.digestFrequency !== undefined) {
+      if (!Object.values(NotificationFrequency).includes(body.digestFrequency)) {
+        return ApiErrors.validationError('Invalid digest frequency');
+      }
+      updates.digestFrequency = body.digestFrequency;
+    }
+
+    if (body.quietHours !== undefined) {
+      const { enabled, startHour, endHour, timezone } = body.quietHours || {};
+
+      if (typeof enabled !== 'boolean') {
+        return ApiErrors.validationError('quietHours.enabled must be a boolean');
+      }
+      if (startHour !== undefined && !isValidHour(startHour)) {
+        return ApiErrors.validationError('quietHours.startHour must be an hour from 0 to 23');
+      }
+      if (endHour !== undefined && !isValidHour(endHour)) {
+        return ApiErrors.validationError('quietHours.endHour must be an hour from 0 to 23');
+      }
+      if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return ApiErrors.validationError('Invalid timezone');
+      }
+
+      updates['quietHours.enabled'] = enabled;
+      if (startHour !== undefined) updates['quietHours.startHour'] = startHour;
+      if (endHour !== undefined) updates['quietHours.endHour'] = endHour;
+      if (timezone !== undefined) updates['quietHours.timezone'] = timezone;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return ApiErrors.badRequest('No preferences to update');
+    }
+
+    await connectToDatabase();
+    const NotificationPreference = getNotificationPreferenceModel();
+
+    const existing = await NotificationPreference.exists({ userId: user._id });
+    if (!existing) {
+      await NotificationPreference.create(createDefaultPreferences(user._id));
+    }
+
+    const preferences = await NotificationPreference.findOneAndUpdate(
+      { userId: user._id },
+      { $set: updates },
+      { new: true }
+    ).select('digestFrequency quietHours lastDigestSentAt');
+
+    return successResponse(
+      {
+        digestFrequency: preferences?.digestFrequency,
+        quietHours: preferences?.quietHours,
+        lastDigestSentAt: preferences?.lastDigestSentAt || {},
+      },
+      { message: 'Notification preferences updated' }
+    );
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    return ApiErrors.internalError('Failed to update notification preferences');
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import connectToDatabase from '../../../../lib/db/connect';
+import {
+  getNotificationPreferenceModel,
+  createDefaultPreferences,
+} from '../../../../lib/db/models/notificationPreference';
+import { ReminderChannel, ReminderType } from '../../../../lib/db/models/reminder';
+import { getCurrentUser } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import { getVapidConfig, isValidPushSubscription, PushSubscriptionRecord } from '../../../../lib/push';
+
+export const dynamic = 'force-dynamic';
+
+// Oldest devices are dropped beyond this many subscriptions per user
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+/**
+ * GET /api/notifications/push
+ * Get the VAPID public key and the number of subscribed devices
+ */
+export async function GET() {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    await connectToDatabase();
+    const preferences = await getNotificationPreferenceModel().findOne({ userId: user._id }).select('push');
+    const subscriptions = (preferences?.push?.subscriptions || []) as PushSubscriptionRecord[];
+
+    return successResponse({
+      configured: !!getVapidConfig(),
+      publicKey: getVapidConfig()?.publicKey || null,
+      enabled: !!preferences?.push?.enabled,
+      endpoints: subscriptions.map(s => s.endpoint),
+    });
+  } catch (error) {
+    console.error('Error fetching push subscriptions:', error);
+    return ApiErrors.internalError('Failed to fetch push subscriptions');
+  }
+}
+
+/**
+ * POST /api/notifications/push
+ * Subscribe this device to push reminders
+ *
+ * Body:
+ * - subscription: PushSubscription.toJSON() from the browser
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    if (!getVapidConfig()) {
+      return ApiErrors.badRequest('Push notifications are not available');
+    }
+
+    const body = await request.json();
+    if (!isValidPushSubscription(body.subscription)) {
+      return ApiErrors.validationError('Invalid push subscription');
+    }
+
+    const subscription: PushSubscriptionRecord = {
+      endpoint: body.subscription.endpoint,
+      expirationTime: body.subscription.expirationTime ?? null,
+      keys: {
+        p256dh: body.subscription.keys.p256dh,
+        auth: body.subscription.keys.auth,
+      },
+      userAgent: request.headers.get('user-agent')?.slice(0, 256) || undefined,
+      createdAt: new Date(),
+    };
+
+    await connectToDatabase();
+    const NotificationPreference = getNotificationPreferenceModel();
+
+    const existing = await NotificationPreference.exists({ userId: user._id });
+    if (!existing) {
+      await NotificationPreference.create(createDefaultPreferences(user._id));
+    }
+
+    // Re-subscribing the same device replaces its keys
+    await NotificationPreference.updateOne(
+      { userId: user._id },
+      { $pull: { 'push.subscriptions': { endpoint: subscription.endpoint } } }
+    );
+
+    // Subscribing a device opts the user in to push for every reminder type
+    const channelUpdates = Object.values(ReminderType).reduce<Record<string, ReminderChannel>>(
+      (acc, type) => ({ ...acc, [`typePreferences.${type}.channels`]: ReminderChannel.PUSH }),
+      { preferredChannels: ReminderChannel.PUSH }
+    );
+
+    await NotificationPreference.updateOne(
+      { userId: user._id },
+      {
+        $push: { 'push.subscriptions': { $each: [subscription], $slice: -MAX_SUBSCRIPTIONS_PER_USER } },
+        $set: { 'push.enabled': true },
+        $addToSet: channelUpdates,
+      }
+    );
+
+    return successResponse({ endpoint: subscription.endpoint }, { message: 'Push notifications enabled', status: 201 });
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    return ApiErrors.internalError('Failed to save push subscription');
+  }
+}
+
+/**
+ * DELETE /api/notifications/push
+ * Unsubscribe a device
+ *
+ * Body:
+ * - endpoint: the subscription endpoint to remove
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const body = await request.json();
+    if (typeof body.endpoint !== 'string') {
+      return ApiErrors.validationError('Endpoint is required');
+    }
+
+    await connectToDatabase();
+    const NotificationPreference = getNotificationPreferenceModel();
+
+    const preferences = await NotificationPreference.findOneAndUpdate(
+      { userId: user._id },
+      { $pull: { 'push.subscriptions': { endpoint: body.endpoint } } },
+      { new: true }
+    ).select('push');
+
+    // Turn the channel off once the last device is gone
+    if (preferences && preferences.push.subscriptions.length === 0 && preferences.push.enabled) {
+      await NotificationPreference.updateOne({ userId: user._id }, { $set: { 'push.enabled': false } });
+    }
+
+    return successResponse(
+      { remaining: preferences?.push.subscriptions.length ?? 0 },
+      { message: 'Push notifications disabled for this device' }
+    );
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    return ApiErrors.internalError('Failed to remove push subscription');
+  }
+}
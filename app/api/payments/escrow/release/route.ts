@@ -5,6 +5,8 @@ import { getCurrentUser } from '../../../../../lib/auth';
 import connectToDatabase from '../../../../../lib/db/connect';
 import { getPaymentModel, generatePaymentId } from '../../../../../lib/db/models/payment';
 import { getPoolModel } from '../../../../../lib/db/models/pool';
+import { getRequestContext, logSecurityActivity } from '../../../../../lib/security';
+import { ActivityType } from '../../../../../types/security';
 
 interface EscrowReleaseRequest {
   paymentId: string;
@@ -142,12 +144,18 @@ export async function POST(request: NextRequest) {
 
       await releaseRecord.save();
 
-      // Log activity
-      await logActivity(requestingUser._id.toString(), 'payment_escrow_released', {
-        poolId,
-        amount: payment.amount,
-        paymentId,
-        releasePaymentId,
+      await logSecurityActivity({
+        userId: requestingUser._id.toString(),
+        userEmail: requestingUser.email,
+        type: ActivityType.PAYMENT_SENT,
+        metadata: {
+          action: 'escrow_release',
+          poolId,
+          amount: payment.amount,
+          paymentId,
+          releasePaymentId,
+        },
+        context: getRequestContext(request.headers),
       });
 
       return NextResponse.json({
@@ -184,21 +192,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Helper function to log activity
-async function logActivity(userId: string, type: string, metadata: Record<string, unknown>) {
-  try {
-    const baseUrl = process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000';
-    await fetch(`${baseUrl}/api/security/activity-log`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        userId,
-        type,
-        metadata
-      })
-    });
-  } catch (error) {
-    console.error('Failed to log activity:', error);
-  }
-}
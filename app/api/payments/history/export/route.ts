@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '../../../../../lib/auth';
+import connectToDatabase from '../../../../../lib/db/connect';
+import { getPaymentHistory, parseHistoryFilters } from '../../../../../lib/payments/history';
+import {
+  HISTORY_EXPORT_FORMATS,
+  HistoryExportFormat,
+  paymentHistoryToCsv,
+  paymentHistoryToOfx,
+  getHistoryExportFilename,
+} from '../../../../../lib/exports';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const CONTENT_TYPES: Record<HistoryExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ofx: 'application/x-ofx',
+};
+
+/**
+ * GET /api/payments/history/export - Download the user's transaction history
+ *
+ * Query params:
+ * - format: 'csv' (default) or 'ofx'
+ * - poolId, type, status, search, startDate, endDate, sortOrder: same filters
+ *   as /api/payments/history
+ *
+ * OFX only includes settled transactions, signed from the user's side.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return NextResponse.json(
+        { error: userResult.error.message },
+        { status: userResult.error.status }
+      );
+    }
+    const user = userResult.user;
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv').toLowerCase() as HistoryExportFormat;
+
+    if (!HISTORY_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${HISTORY_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const filters = parseHistoryFilters(searchParams);
+    const transactions = await getPaymentHistory(user, filters);
+    const now = new Date();
+
+    const body = format === 'ofx'
+      ? paymentHistoryToOfx(transactions, {
+          accountId: user._id.toString(),
+          startDate: filters.startDate ? new Date(filters.startDate) : undefined,
+          endDate: filters.endDate ? new Date(filters.endDate) : undefined,
+          generatedAt: now,
+        })
+      : paymentHistoryToCsv(transactions);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${getHistoryExportFilename(format, now)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting payment history:', error);
+    return NextResponse.json(
+      { error: 'Failed to export payment history' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '../../../../lib/auth';
 import connectToDatabase from '../../../../lib/db/connect';
 import { getPaymentMethodModel } from '../../../../lib/db/models/payment';
+import { getRequestContext, logSecurityActivity } from '../../../../lib/security';
+import { ActivityType } from '../../../../types/security';
 
 /**
  * Payment Methods API
@@ -226,9 +228,12 @@ export async function POST(request: NextRequest) {
     await paymentMethod.save();
 
     // Log activity
-    await logActivity(user._id.toString(), 'payment_method_add', {
-      methodId: paymentMethod._id.toString(),
-      type,
+    await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      type: ActivityType.PAYMENT_METHOD_ADD,
+      metadata: { methodId: paymentMethod._id.toString(), type },
+      context: getRequestContext(request.headers),
     });
 
     return NextResponse.json({
@@ -309,9 +314,12 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Log activity
-    await logActivity(user._id.toString(), 'payment_method_remove', {
-      methodId: methodId,
-      type: method.type,
+    await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      type: ActivityType.PAYMENT_METHOD_REMOVE,
+      metadata: { methodId, type: method.type },
+      context: getRequestContext(request.headers),
     });
 
     return NextResponse.json({
@@ -400,21 +408,3 @@ export async function PATCH(request: NextRequest) {
     );
   }
 }
-
-// Helper function to log activity
-async function logActivity(userId: string, type: string, metadata: Record<string, unknown>) {
-  try {
-    const baseUrl = process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000';
-    await fetch(`${baseUrl}/api/security/activity-log`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        userId,
-        type,
-        metadata
-      })
-    });
-  } catch (error) {
-    console.error('Failed to log activity:', error);
-  }
-}
@@ -3,8 +3,11 @@ import { getCurrentUser } from '../../../../lib/auth';
 import connectToDatabase from '../../../../lib/db/connect';
 import { getPoolModel } from '../../../../lib/db/models/pool';
 import { getPaymentModel } from '../../../../lib/db/models/payment';
+import { getPotAmount } from '../../../../lib/currency';
 import { PoolStatus, PoolMemberStatus, TransactionType } from '../../../../types/pool';
 import { TransactionStatus } from '../../../../types/payment';
+import { getRoundDueDate, ScheduleSource } from '../../../../lib/schedule';
+import { getCurrentCycleTransactions } from '../../../../lib/pools';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -14,6 +17,7 @@ interface UpcomingPayment {
   poolId: string;
   poolName: string;
   amount: number;
+  currency: string;
   dueDate: string;
   frequency: string;
   currentRound: number;
@@ -92,8 +96,8 @@ export async function GET(request: NextRequest) {
       // UNIVERSAL CONTRIBUTION MODEL: Recipients also need to contribute
       // They contribute to the pool and receive the full payout (contribution × memberCount)
       // Check if user has already contributed for this round
-      const hasContributedInPool = pool.transactions?.some(
-        (t: { member: string; type: string; round: number; status: string }) =>
+      const hasContributedInPool = getCurrentCycleTransactions(pool.transactions).some(
+        (t: { member: string; type: string; round: number; status: string; cycle?: number }) =>
           t.member === userMember.name &&
           t.type === TransactionType.CONTRIBUTION &&
           t.round === currentRound &&
@@ -111,7 +115,7 @@ export async function GET(request: NextRequest) {
       const hasContributed = hasContributedInPool || !!pendingPayment;
 
       // Calculate due date
-      const dueDate = pool.nextPayoutDate || calculateNextPayoutDate(pool.startDate, pool.frequency, currentRound);
+      const dueDate = getRoundDueDate(pool as ScheduleSource, currentRound).toISOString();
       const daysUntilDue = calculateDaysUntilDue(dueDate);
 
       // Determine status
@@ -133,6 +137,7 @@ export async function GET(request: NextRequest) {
         poolId: pool.id,
         poolName: pool.name,
         amount: pool.contributionAmount, // Everyone pays the same contribution
+        currency: pool.currency || 'USD',
         dueDate,
         frequency: pool.frequency,
         currentRound,
@@ -146,7 +151,10 @@ export async function GET(request: NextRequest) {
         daysUntilDue,
         // If user is recipient, include the payout amount they'll receive
         ...(isRecipient && {
-          payoutAmount: pool.contributionAmount * pool.members.length
+          payoutAmount: getPotAmount(
+            { contributionAmount: pool.contributionAmount, currency: pool.currency },
+            pool.members.length
+          )
         })
       });
     }
@@ -194,32 +202,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-/**
- * Calculate the next payout date based on pool start date and frequency
- */
-function calculateNextPayoutDate(startDate: Date | string | undefined, frequency: string, currentRound: number): string {
-  const start = startDate ? new Date(startDate) : new Date();
-  const roundsCompleted = currentRound - 1;
-
-  let nextDate = new Date(start);
-
-  switch (frequency.toLowerCase()) {
-    case 'weekly':
-      nextDate.setDate(start.getDate() + (roundsCompleted * 7));
-      break;
-    case 'biweekly':
-      nextDate.setDate(start.getDate() + (roundsCompleted * 14));
-      break;
-    case 'monthly':
-      nextDate.setMonth(start.getMonth() + roundsCompleted);
-      break;
-    default:
-      nextDate.setMonth(start.getMonth() + roundsCompleted);
-  }
-
-  return nextDate.toISOString();
-}
-
 /**
  * Calculate days until due date
  */
@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { Pool } from '../../../../../lib/db/models/pool';
 import { User } from '../../../../../lib/db/models/user';
-import { PoolMemberRole } from '../../../../../types/pool';
+import { PoolPermission } from '../../../../../types/pool';
 import {
   validatePayoutHandle,
   PayoutMethodType,
 } from '../../../../../lib/payments/deep-links';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { isPoolAdmin, requirePoolPermission } from '../../../../../lib/pools';
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -19,44 +18,13 @@ interface Params {
  */
 export async function GET(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
 
-    await connectToDatabase();
-
-    // Build query based on id format - ObjectId format vs custom string id
-    const mongoose = (await import('mongoose')).default;
-    let query;
-    if (mongoose.Types.ObjectId.isValid(id) && id.length === 24) {
-      query = { $or: [{ id }, { _id: id }] };
-    } else {
-      query = { id };
-    }
-
-    const pool = await Pool.findOne(query);
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     // Check if pool has adminPaymentMethods set
     const hasPoolAdminMethods = pool.adminPaymentMethods && (
@@ -74,9 +42,7 @@ export async function GET(request: NextRequest, { params }: Params) {
 
     // Fall back to the pool admin/creator's personal payout methods
     // Find the admin member
-    const adminMember = pool.members.find(
-      (m: any) => m.role === PoolMemberRole.ADMIN || m.role === PoolMemberRole.CREATOR
-    );
+    const adminMember = pool.members.find((m: any) => isPoolAdmin(m));
 
     if (adminMember) {
       // Try to get the admin's personal payout methods from the User collection
@@ -123,57 +89,15 @@ export async function GET(request: NextRequest, { params }: Params) {
  */
 export async function PUT(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
     const body = await request.json();
     const { venmo, cashapp, paypal, zelle, preferred } = body;
 
-    await connectToDatabase();
-
-    // Build query based on id format - ObjectId format vs custom string id
-    const mongoose = (await import('mongoose')).default;
-    let query;
-    if (mongoose.Types.ObjectId.isValid(id) && id.length === 24) {
-      query = { $or: [{ id }, { _id: id }] };
-    } else {
-      query = { id };
-    }
-
-    const pool = await Pool.findOne(query);
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
-    }
-
-    const isAdmin =
-      member.role === PoolMemberRole.ADMIN ||
-      member.role === PoolMemberRole.CREATOR;
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'Only pool admin can update payment methods' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     // Validate each provided handle
     const validationErrors: string[] = [];
@@ -245,7 +169,7 @@ export async function PUT(request: NextRequest, { params }: Params) {
     }
 
     const updatedPool = await Pool.findOneAndUpdate(
-      query,
+      { _id: pool._id },
       { $set: updateData },
       { new: true }
     );
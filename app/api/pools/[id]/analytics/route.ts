@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../lib/db/models/pool';
+import { PoolPermission } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import {
+  ANALYTICS_TIMEFRAMES,
+  DEFAULT_ANALYTICS_TIMEFRAME,
+  buildPoolAnalytics,
+  getPoolRollups,
+  isAnalyticsTimeframe,
+  RollupPool,
+} from '../../../../../lib/analytics';
+import { requirePoolPermission } from '../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/analytics
+ * The pool's analytics dashboard, built from its precomputed rollups
+ *
+ * Query:
+ * - timeframe: 1month | 3months | 6months | 1year | all (default 3months)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+
+    const timeframe = request.nextUrl.searchParams.get('timeframe') || DEFAULT_ANALYTICS_TIMEFRAME;
+    if (!isAnalyticsTimeframe(timeframe)) {
+      return ApiErrors.validationError(`timeframe must be one of: ${ANALYTICS_TIMEFRAMES.join(', ')}`);
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const rollups = (await getPoolRollups([pool.id])).get(pool.id);
+    if (!rollups) {
+      return ApiErrors.notFound('Pool');
+    }
+
+    return successResponse({
+      analytics: buildPoolAnalytics(pool.toObject() as RollupPool, rollups, timeframe),
+    });
+  } catch (error) {
+    console.error('Error fetching pool analytics:', error);
+    return ApiErrors.internalError('Failed to fetch pool analytics');
+  }
+}
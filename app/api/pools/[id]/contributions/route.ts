@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { getPoolModel } from '../../../../../lib/db/models/pool';
 import { TransactionType, TransactionStatus } from '../../../../../types/payment';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { PoolPermission, PoolMember } from '../../../../../types/pool';
+import { getRoundRecipient } from '../../../../../lib/payments/payout-order';
+import { recordContribution, reverseContribution, LedgerSource } from '../../../../../lib/ledger';
+import { getRoundDueDate } from '../../../../../lib/schedule';
+import { formatAmount } from '../../../../../lib/currency';
+import { getCurrentCycleTransactions, getPayoutReadinessReset, requirePoolPermission } from '../../../../../lib/pools';
 import { createNotification, notifyPoolMembers, NotificationTemplates } from '../../../../../lib/services/notifications';
 
 const Pool = getPoolModel();
@@ -29,45 +33,16 @@ export async function GET(
       );
     }
 
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if user is a member of this pool (case-insensitive email comparison)
-    const userEmailLower = user.email?.toLowerCase();
-    const userMember = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!userMember) {
-      return NextResponse.json(
-        { error: 'You are not a member of this pool' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     const currentRound = pool.currentRound;
 
     // Find the recipient for this round (member whose position matches current round)
-    const payoutRecipient = pool.members.find(
-      (m: any) => m.position === currentRound
-    );
+    const payoutRecipient = getRoundRecipient<PoolMember>(pool.members, currentRound);
 
     // Get contribution status for all members for current round
     // UNIVERSAL CONTRIBUTION MODEL: All members must contribute, including the recipient
@@ -77,7 +52,7 @@ export async function GET(
 
       // Check if this member has contributed for the current round
       // Check both transactions and currentRoundPayments
-      const contribution = pool.transactions.find(
+      const contribution = getCurrentCycleTransactions(pool.transactions).find(
         (t: any) =>
           t.member === member.name &&
           t.type === TransactionType.CONTRIBUTION &&
@@ -167,38 +142,11 @@ export async function POST(
       );
     }
 
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if user is a member of this pool (case-insensitive email comparison)
-    const userEmailLower = user.email?.toLowerCase();
-    const userMember = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!userMember) {
-      return NextResponse.json(
-        { error: 'You are not a member of this pool' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool, member: userMember } = access;
 
     const currentRound = pool.currentRound;
     const userMemberEmailLower = userMember.email?.toLowerCase();
@@ -206,7 +154,7 @@ export async function POST(
     // Handle confirm_manual action - member confirms they've paid via manual method
     if (action === 'confirm_manual') {
       // Check if user has already contributed for this round
-      const existingContribution = pool.transactions.find(
+      const existingContribution = getCurrentCycleTransactions(pool.transactions).find(
         (t: any) =>
           t.member === userMember.name &&
           t.type === TransactionType.CONTRIBUTION &&
@@ -274,7 +222,7 @@ export async function POST(
         memberConfirmedAt: new Date(),
         memberConfirmedVia: paymentMethod,
         adminVerifiedAt: new Date(), // Auto-verified
-        dueDate: pool.nextPayoutDate ? new Date(pool.nextPayoutDate) : null,
+        dueDate: getRoundDueDate(pool, pool.currentRound || 1),
         createdAt: new Date(),
         updatedAt: new Date()
       });
@@ -295,6 +243,21 @@ export async function POST(
         paymentMethod: paymentMethod
       });
 
+      // An escrow hold runs from when the round's last contribution lands
+      const roundContributors = new Set(
+        getCurrentCycleTransactions(pool.transactions)
+          .filter(
+            (t: any) =>
+              t.type === TransactionType.CONTRIBUTION &&
+              t.round === currentRound &&
+              t.status === TransactionStatus.COMPLETED
+          )
+          .map((t: any) => t.member)
+      );
+      if (!pool.currentRoundReadyAt && pool.members.every((m: any) => roundContributors.has(m.name))) {
+        pool.currentRoundReadyAt = new Date();
+      }
+
       // Add a system message
       const messageId = Math.max(
         ...pool.messages.map((m: any) => m.id || 0),
@@ -303,18 +266,30 @@ export async function POST(
       pool.messages.push({
         id: messageId,
         author: 'System',
-        content: `${userMember.name} has paid their $${pool.contributionAmount} contribution via ${paymentMethod} for round ${currentRound}.`,
+        content: `${userMember.name} has paid their ${formatAmount(pool.contributionAmount, pool.currency)} contribution via ${paymentMethod} for round ${currentRound}.`,
         date: new Date().toISOString()
       });
 
       await pool.save();
 
+      // Reconciliation backfills the entry if this fails
+      try {
+        await recordContribution(pool, userMember.id, pool.contributionAmount, {
+          source: LedgerSource.ROUND_PAYMENT,
+          sourceRef: String(transactionId),
+          round: currentRound,
+          createdBy: user._id,
+        });
+      } catch (error) {
+        console.error('Error recording contribution in ledger:', error);
+      }
+
       // Notify pool admin about the payment
       const adminMember = pool.members.find((m: any) => m.role === 'admin');
       if (adminMember?.email) {
         await createNotification({
           userId: adminMember.email,
-          message: `${userMember.name} paid their $${pool.contributionAmount} contribution via ${paymentMethod} for ${pool.name}.`,
+          message: `${userMember.name} paid their ${formatAmount(pool.contributionAmount, pool.currency)} contribution via ${paymentMethod} for ${pool.name}.`,
           type: 'payment',
           isImportant: false,
         });
@@ -340,7 +315,7 @@ export async function POST(
         (p: any) => (p.memberId === userMember.id || p.memberEmail?.toLowerCase() === userMemberEmailLower)
       );
 
-      const existingTransaction = pool.transactions.find(
+      const existingTransaction = getCurrentCycleTransactions(pool.transactions).find(
         (t: any) =>
           t.member === userMember.name &&
           t.type === TransactionType.CONTRIBUTION &&
@@ -365,6 +340,7 @@ export async function POST(
       if (existingTransaction) {
         pool.transactions = pool.transactions.filter(
           (t: any) => !(
+            (t.cycle === undefined || t.cycle === null) &&
             t.member === userMember.name &&
             t.type === TransactionType.CONTRIBUTION &&
             t.round === currentRound
@@ -372,6 +348,9 @@ export async function POST(
         );
       }
 
+      // The escrow hold and co-signer approval start over once the round is fully paid again
+      pool.set(getPayoutReadinessReset());
+
       // Add a system message
       const messageId = Math.max(
         ...pool.messages.map((m: any) => m.id || 0),
@@ -386,6 +365,17 @@ export async function POST(
 
       await pool.save();
 
+      // Reconciliation flags the counter if this fails
+      try {
+        await reverseContribution(pool, userMember.id, `${userMember.name} undid their contribution for round ${currentRound}`, {
+          source: LedgerSource.ROUND_PAYMENT,
+          round: currentRound,
+          createdBy: user._id,
+        });
+      } catch (error) {
+        console.error('Error reversing contribution in ledger:', error);
+      }
+
       return NextResponse.json({
         success: true,
         action: 'undo_payment',
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import { PoolPermission, PoolMemberRole } from '../../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../lib/api';
+import { respondToEnrollment, logLifecycleChange, requirePoolPermission } from '../../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/pools/[id]/cycles/enrollment
+ * Opt in or out of the pool's next cycle
+ *
+ * Body:
+ * - optIn: boolean - answers can be changed until the cycle starts. Members
+ *   added while enrollment is open are in unless they opt out.
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (typeof body.optIn !== 'boolean') {
+      return ApiErrors.validationError('optIn must be true or false');
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool, member } = access;
+
+    const enrollment = pool.nextCycleEnrollment;
+    if (!enrollment) {
+      return ApiErrors.badRequest('Enrollment for the next cycle is not open');
+    }
+
+    // Someone has to run the next cycle
+    if (!body.optIn && member.role === PoolMemberRole.CREATOR) {
+      return ApiErrors.badRequest("The pool creator can't opt out of the next cycle");
+    }
+
+    respondToEnrollment(enrollment, member, body.optIn);
+    await pool.save();
+
+    await logLifecycleChange(
+      pool,
+      { id: user._id.toString(), email: user.email },
+      body.optIn ? 'pool_cycle_opt_in' : 'pool_cycle_opt_out',
+      { cycle: enrollment.cycle, memberId: member.id }
+    );
+
+    return successResponse(
+      { cycle: enrollment.cycle, optIn: body.optIn },
+      { message: body.optIn ? "You're in for the next cycle" : "You've opted out of the next cycle" }
+    );
+  } catch (error) {
+    console.error('Error updating cycle enrollment:', error);
+    return ApiErrors.internalError('Failed to update enrollment');
+  }
+}
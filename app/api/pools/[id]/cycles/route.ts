@@ -0,0 +1,206 @@
+import { NextRequest } from 'next/server';
+import { User } from '../../../../../lib/db/models/user';
+import { PoolPermission, PoolMember } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { postMemberLeft, postRoundStarted } from '../../../../../lib/activity';
+import {
+  MIN_CYCLE_MEMBERS,
+  getNextCycleError,
+  parseCycleStartDate,
+  openCycleEnrollment,
+  getCycleParticipants,
+  getNextCycleStartDate,
+  applyNextCycle,
+  archiveCycle,
+  stampPaymentCycle,
+  getCycleHistory,
+  notifyPoolMembers,
+  logLifecycleChange,
+  requirePoolPermission,
+} from '../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+type CycleAction = 'open' | 'start';
+
+const toParticipant = (m: { id: number; name: string }) => ({ memberId: m.id, name: m.name });
+
+/**
+ * GET /api/pools/[id]/cycles
+ * Get the pool's cycle, next-cycle enrollment (who's in, out, joining, or yet
+ * to answer), and summaries of past cycles
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool, member } = access;
+
+    const enrollment = pool.nextCycleEnrollment || null;
+    let enrollmentStatus = null;
+    if (enrollment) {
+      const participants = getCycleParticipants(pool, enrollment);
+      enrollmentStatus = {
+        cycle: enrollment.cycle,
+        openedAt: enrollment.openedAt,
+        startDate: getNextCycleStartDate(pool).toISOString(),
+        continuing: participants.continuing.map(toParticipant),
+        joining: participants.joining.map(toParticipant),
+        leaving: participants.leaving.map(toParticipant),
+        undecided: participants.undecided.map(toParticipant),
+        myResponse: enrollment.responses.find((r: { memberId: number }) => r.memberId === member.id)?.optIn ?? null,
+      };
+    }
+
+    const history = await getCycleHistory(pool.id);
+
+    return successResponse({
+      currentCycle: pool.currentCycle || 0,
+      totalCycles: pool.totalCycles || null,
+      nextCycleError: getNextCycleError(pool),
+      enrollment: enrollmentStatus,
+      history,
+    });
+  } catch (error) {
+    console.error('Error fetching pool cycles:', error);
+    return ApiErrors.internalError('Failed to fetch pool cycles');
+  }
+}
+
+/**
+ * POST /api/pools/[id]/cycles
+ * Open enrollment for, or start, the pool's next cycle (admin only)
+ *
+ * Body:
+ * - action: 'open' - asks members to opt in or out; startDate (optional) sets
+ *   round 1's payout date, otherwise it follows on from the last cycle
+ * - action: 'start' - archives the finished cycle and starts the next one with
+ *   the members who opted in plus anyone who joined. Fails while members
+ *   haven't answered unless dropUndecided is true.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as CycleAction;
+
+    if (!['open', 'start'].includes(action)) {
+      return ApiErrors.badRequest('action must be one of: open, start');
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool, member, user } = access;
+
+    const cycleError = getNextCycleError(pool);
+    if (cycleError) {
+      return ApiErrors.badRequest(cycleError);
+    }
+
+    const actor = { id: user._id.toString(), email: user.email };
+    const now = new Date();
+
+    if (action === 'open') {
+      if (pool.nextCycleEnrollment) {
+        return ApiErrors.badRequest('Enrollment for the next cycle is already open');
+      }
+
+      let startDate: Date | undefined;
+      if (body.startDate !== undefined) {
+        if (typeof body.startDate !== 'string') {
+          return ApiErrors.validationError('startDate must be a date string');
+        }
+        const parsed = parseCycleStartDate(pool, body.startDate, now);
+        if (parsed.error) {
+          return ApiErrors.validationError(parsed.error);
+        }
+        startDate = parsed.date;
+      }
+
+      const enrollment = openCycleEnrollment(pool, member.name, startDate, now);
+      await pool.save();
+
+      await logLifecycleChange(pool, actor, 'pool_cycle_enrollment_opened', {
+        cycle: enrollment.cycle,
+        startDate: enrollment.startDate,
+      });
+      await notifyPoolMembers(
+        pool,
+        `${pool.name} is starting cycle ${enrollment.cycle + 1}. Let ${member.name} know if you're in.`,
+        member.id
+      );
+
+      return successResponse({ enrollment }, { message: 'Enrollment for the next cycle is open' });
+    }
+
+    if (!pool.nextCycleEnrollment) {
+      return ApiErrors.badRequest('Open enrollment for the next cycle first');
+    }
+
+    const participants = getCycleParticipants(pool, pool.nextCycleEnrollment);
+    if (participants.undecided.length > 0 && body.dropUndecided !== true) {
+      return ApiErrors.badRequest(
+        `Waiting on ${participants.undecided.map(m => m.name).join(', ')}. Set dropUndecided to start without them.`
+      );
+    }
+    if (participants.continuing.length + participants.joining.length < MIN_CYCLE_MEMBERS) {
+      return ApiErrors.badRequest(`A cycle needs at least ${MIN_CYCLE_MEMBERS} members`);
+    }
+
+    const finishedCycle = pool.currentCycle || 0;
+    const leaving = [...participants.leaving, ...participants.undecided];
+    const { summary } = applyNextCycle(pool, now);
+
+    await archiveCycle(summary, user._id);
+    await stampPaymentCycle(pool.id, finishedCycle);
+    await pool.save();
+
+    // Members who aren't continuing no longer see the pool
+    for (const leaver of leaving) {
+      if (leaver.email) {
+        await User.updateOne({ email: leaver.email.toLowerCase() }, { $pull: { pools: pool.id } });
+      }
+      await postMemberLeft(pool._id, leaver.name);
+    }
+
+    await logLifecycleChange(pool, actor, 'pool_cycle_started', {
+      cycle: pool.currentCycle,
+      members: pool.members.length,
+      joined: participants.joining.map(m => m.id),
+      left: leaving.map(m => m.id),
+      startDate: pool.startDate,
+    });
+
+    const recipient = pool.members.find((m: PoolMember) => m.position === 1);
+    if (recipient) {
+      await postRoundStarted(pool._id, 1, recipient.name, pool.contributionAmount);
+    }
+    await notifyPoolMembers(
+      pool,
+      `Cycle ${pool.currentCycle + 1} of ${pool.name} has started with ${pool.members.length} members.`,
+      member.id
+    );
+
+    return successResponse(
+      {
+        currentCycle: pool.currentCycle,
+        currentRound: pool.currentRound,
+        totalRounds: pool.totalRounds,
+        nextPayoutDate: pool.nextPayoutDate,
+        members: pool.members.map((m: PoolMember) => ({ memberId: m.id, name: m.name, position: m.position })),
+        summary,
+      },
+      { message: `Cycle ${pool.currentCycle + 1} started` }
+    );
+  } catch (error) {
+    console.error('Error changing pool cycle:', error);
+    return ApiErrors.internalError('Failed to change pool cycle');
+  }
+}
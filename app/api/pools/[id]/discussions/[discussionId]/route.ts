@@ -10,14 +10,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../../types/pool';
 import mongoose from 'mongoose';
-import connectToDatabase from '../../../../../../lib/db/connect';
 import { Discussion, DiscussionType } from '../../../../../../lib/db/models/discussion';
 import { DiscussionReadReceipt } from '../../../../../../lib/db/models/discussionReadReceipt';
 import { DiscussionMention } from '../../../../../../lib/db/models/discussionMention';
 import { Pool } from '../../../../../../lib/db/models/pool';
-import { getCurrentUser } from '../../../../../../lib/auth';
 import { processMentions } from '../../../../../../lib/activity/mentions';
+import { hasPoolPermission, requirePoolPermission } from '../../../../../../lib/pools';
 
 /**
  * GET /api/pools/[id]/discussions/[discussionId]
@@ -45,26 +45,11 @@ export async function GET(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // Find the discussion
     const discussionObjectId = new mongoose.Types.ObjectId(discussionId);
@@ -168,7 +153,7 @@ export async function GET(
  * {
  *   content?: string
  *   title?: string (for announcements)
- *   isPinned?: boolean (admin only)
+ *   isPinned?: boolean (admins and moderators only)
  * }
  */
 export async function PUT(
@@ -196,26 +181,11 @@ export async function PUT(
     const body = await request.json();
     const { content, title, isPinned } = body;
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool, member } = access;
 
     // Find the discussion
     const discussionObjectId = new mongoose.Types.ObjectId(discussionId);
@@ -232,12 +202,9 @@ export async function PUT(
       );
     }
 
-    // Check if user is the author or an admin
+    // Check if user is the author or can moderate
     const isAuthor = discussion.authorId.toString() === user._id.toString();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString()
-    );
-    const isAdmin = member?.role === 'admin' || member?.role === 'creator';
+    const canModerate = hasPoolPermission(member, PoolPermission.MODERATE_DISCUSSIONS);
 
     // Only author can edit content
     if (content !== undefined && !isAuthor) {
@@ -247,10 +214,10 @@ export async function PUT(
       );
     }
 
-    // Only admin can pin/unpin
-    if (isPinned !== undefined && !isAdmin) {
+    // Only admins and moderators can pin/unpin
+    if (isPinned !== undefined && !canModerate) {
       return NextResponse.json(
-        { error: 'Only admins can pin discussions' },
+        { error: 'Only admins and moderators can pin discussions' },
         { status: 403 }
       );
     }
@@ -370,26 +337,11 @@ export async function DELETE(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool, member } = access;
 
     // Find the discussion
     const discussionObjectId = new mongoose.Types.ObjectId(discussionId);
@@ -408,20 +360,17 @@ export async function DELETE(
 
     // Check if user can delete
     const isAuthor = discussion.authorId.toString() === user._id.toString();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString()
-    );
-    const isAdmin = member?.role === 'admin' || member?.role === 'creator';
+    const canModerate = hasPoolPermission(member, PoolPermission.MODERATE_DISCUSSIONS);
 
-    if (!isAuthor && !isAdmin) {
+    if (!isAuthor && !canModerate) {
       return NextResponse.json(
         { error: 'You can only delete your own discussions' },
         { status: 403 }
       );
     }
 
-    // Cannot delete activity posts (except by admin)
-    if (discussion.type === DiscussionType.ACTIVITY && !isAdmin) {
+    // Cannot delete activity posts (except by admins and moderators)
+    if (discussion.type === DiscussionType.ACTIVITY && !canModerate) {
       return NextResponse.json(
         { error: 'Activity posts cannot be deleted' },
         { status: 400 }
@@ -9,12 +9,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../../types/pool';
 import mongoose from 'mongoose';
-import connectToDatabase from '../../../../../../lib/db/connect';
 import { DiscussionMention } from '../../../../../../lib/db/models/discussionMention';
 import { Pool } from '../../../../../../lib/db/models/pool';
-import { getCurrentUser } from '../../../../../../lib/auth';
 import { getMentionableMembers } from '../../../../../../lib/activity/mentions';
+import { requirePoolPermission } from '../../../../../../lib/pools';
 
 /**
  * GET /api/pools/[id]/discussions/mentions
@@ -42,16 +42,6 @@ export async function GET(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     // Parse query parameters
     const url = new URL(request.url);
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 50);
@@ -59,16 +49,11 @@ export async function GET(
     const unreadOnly = url.searchParams.get('unreadOnly') === 'true';
     const membersOnly = url.searchParams.get('membersOnly') === 'true';
 
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // If only requesting mentionable members
     if (membersOnly) {
@@ -175,26 +160,11 @@ export async function POST(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     if (markAll) {
       // Mark all mentions in this pool as read
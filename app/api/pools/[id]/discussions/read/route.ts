@@ -9,12 +9,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../../types/pool';
 import mongoose from 'mongoose';
-import connectToDatabase from '../../../../../../lib/db/connect';
 import { Discussion } from '../../../../../../lib/db/models/discussion';
 import { DiscussionReadReceipt } from '../../../../../../lib/db/models/discussionReadReceipt';
 import { Pool } from '../../../../../../lib/db/models/pool';
-import { getCurrentUser } from '../../../../../../lib/auth';
+import { requirePoolPermission } from '../../../../../../lib/pools';
 
 /**
  * GET /api/pools/[id]/discussions/read
@@ -35,26 +35,11 @@ export async function GET(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // Get "mark all as read" timestamp
     const bulkReadRecord = await DiscussionReadReceipt.findOne({
@@ -139,26 +124,11 @@ export async function POST(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     if (markAll) {
       // Mark all discussions as read
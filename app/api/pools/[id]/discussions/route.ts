@@ -16,13 +16,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../types/pool';
 import mongoose from 'mongoose';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { Discussion, DiscussionType } from '../../../../../lib/db/models/discussion';
 import { DiscussionReadReceipt } from '../../../../../lib/db/models/discussionReadReceipt';
 import { Pool } from '../../../../../lib/db/models/pool';
-import { getCurrentUser } from '../../../../../lib/auth';
 import { processMentions, parseMentions } from '../../../../../lib/activity/mentions';
+import { hasPoolPermission, requirePoolPermission } from '../../../../../lib/pools';
 
 /**
  * GET /api/pools/[id]/discussions
@@ -44,16 +44,6 @@ export async function GET(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     // Parse query parameters
     const url = new URL(request.url);
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 50);
@@ -61,16 +51,11 @@ export async function GET(
     const before = url.searchParams.get('before');
     const typeFilter = url.searchParams.get('type') as DiscussionType | null;
 
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // Build query
     const query: any = {
@@ -228,52 +213,20 @@ export async function POST(
       );
     }
 
-    // Get current user
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.PARTICIPATE);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool, member } = access;
 
-    // Verify user is a member of the pool
-    const isMember = pool.members.some(
-      (m: any) => m.userId?.toString() === user._id.toString()
-    );
-
-    if (!isMember) {
+    // Announcements come from admins and moderators
+    if (type === DiscussionType.ANNOUNCEMENT && !hasPoolPermission(member, PoolPermission.MODERATE_DISCUSSIONS)) {
       return NextResponse.json(
-        { error: 'You must be a pool member to post' },
+        { error: 'Only admins and moderators can create announcements' },
         { status: 403 }
       );
     }
 
-    // Check if announcements are admin-only
-    if (type === DiscussionType.ANNOUNCEMENT) {
-      const member = pool.members.find(
-        (m: any) => m.userId?.toString() === user._id.toString()
-      );
-      if (member?.role !== 'admin' && member?.role !== 'creator') {
-        return NextResponse.json(
-          { error: 'Only admins can create announcements' },
-          { status: 403 }
-        );
-      }
-    }
-
     // Validate parent if this is a reply
     let parentDiscussion = null;
     if (parentId) {
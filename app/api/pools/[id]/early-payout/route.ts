@@ -1,7 +1,7 @@
 /**
  * Early Payout API Route
  *
- * Allows pool admins to initiate payouts before the scheduled date.
+ * Allows pool admins and treasurers to initiate payouts before the scheduled date.
  * The early payout only affects the current cycle - future cycles remain on schedule.
  *
  * GET: Check if early payout is allowed and get verification status
@@ -9,17 +9,25 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import mongoose from 'mongoose';
-import { authOptions } from '../../../auth/[...nextauth]/options';
 import { TransactionStatus, TransactionType } from '../../../../../types/payment';
-import { PoolMemberStatus, PoolMemberRole, EarlyPayoutVerification } from '../../../../../types/pool';
+import { PoolMemberStatus, PoolPermission, EarlyPayoutVerification } from '../../../../../types/pool';
 import { AuditLogType } from '../../../../../types/audit';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { getPoolModel } from '../../../../../lib/db/models/pool';
 import { getAuditLogModel } from '../../../../../lib/db/models/auditLog';
 import { User } from '../../../../../lib/db/models/user';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { archiveRound } from '../../../../../lib/payments/rounds';
+import { getWinningDiscount } from '../../../../../lib/payments/payout-order';
+import { formatAmount, getPotAmount } from '../../../../../lib/currency';
+import { recordPayout, LedgerSource } from '../../../../../lib/ledger';
+import { getRoundPayoutDate } from '../../../../../lib/schedule';
+import {
+  getCurrentCycleTransactions,
+  getTierSafeguards,
+  getPoolTierInfo,
+  getPayoutSafeguardError,
+  requirePoolPermission,
+} from '../../../../../lib/pools';
 
 const Pool = getPoolModel();
 const AuditLog = getAuditLogModel();
@@ -66,6 +74,16 @@ async function canInitiateEarlyPayout(
   pool: any,
   currentRound: number
 ): Promise<EarlyPayoutVerification> {
+  // An early payout would skip the escrow hold and the co-signer
+  const safeguards = getTierSafeguards(pool);
+  if (safeguards.adminCoSigner || safeguards.escrowHoldDays > 0) {
+    return {
+      allowed: false,
+      reason: `${getPoolTierInfo(pool.tier).label} pools can't pay out early`,
+      currentRound,
+    };
+  }
+
   // Check if current date is before scheduled payout date
   const scheduledDate = new Date(pool.nextPayoutDate);
   const now = new Date();
@@ -102,7 +120,7 @@ async function canInitiateEarlyPayout(
   }
 
   // Check for existing payout transaction
-  const existingPayout = pool.transactions.find(
+  const existingPayout = getCurrentCycleTransactions(pool.transactions).find(
     (t: any) =>
       t.type === TransactionType.PAYOUT &&
       t.round === currentRound &&
@@ -118,7 +136,7 @@ async function canInitiateEarlyPayout(
   }
 
   // Check if at least one contribution exists (cycle has started)
-  const contributionsForRound = pool.transactions.filter(
+  const contributionsForRound = getCurrentCycleTransactions(pool.transactions).filter(
     (t: any) =>
       t.type === TransactionType.CONTRIBUTION &&
       t.round === currentRound
@@ -137,7 +155,7 @@ async function canInitiateEarlyPayout(
   const processingContributions: string[] = [];
 
   for (const member of pool.members) {
-    const contribution = pool.transactions.find(
+    const contribution = getCurrentCycleTransactions(pool.transactions).find(
       (t: any) =>
         t.member === member.name &&
         t.type === TransactionType.CONTRIBUTION &&
@@ -187,7 +205,7 @@ async function canInitiateEarlyPayout(
   }
 
   // Calculate payout amount
-  const payoutAmount = pool.contributionAmount * pool.members.length;
+  const payoutAmount = getPotAmount(pool, pool.members.length);
 
   // Generate payment link if available
   const paymentLink = getPaymentLink(
@@ -224,14 +242,6 @@ export async function GET(
 ) {
   try {
     const { id: poolId } = await params;
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
 
     if (!poolId) {
       return NextResponse.json(
@@ -240,27 +250,11 @@ export async function GET(
       );
     }
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if user is admin
-    const userMembership = pool.members.find(
-      (member: any) => member.email === session.user?.email
-    );
-
-    if (!userMembership || userMembership.role !== PoolMemberRole.ADMIN) {
-      return NextResponse.json(
-        { error: 'Only pool administrators can check early payout status' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_PAYOUTS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     const verification = await canInitiateEarlyPayout(pool, pool.currentRound);
 
@@ -302,17 +296,11 @@ export async function POST(
       );
     }
 
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_PAYOUTS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
-    const requestingUser = userResult.user;
-
-    await connectToDatabase();
+    const requestingUser = access.user;
 
     // Use transaction to prevent race conditions
     let result: {
@@ -333,15 +321,6 @@ export async function POST(
         throw new Error('POOL_NOT_FOUND');
       }
 
-      // Check if user is admin
-      const userMembership = pool.members.find(
-        (member: any) => member.email === requestingUser.email
-      );
-
-      if (!userMembership || userMembership.role !== PoolMemberRole.ADMIN) {
-        throw new Error('UNAUTHORIZED');
-      }
-
       const currentRound = pool.currentRound;
 
       // Verify early payout is allowed
@@ -360,8 +339,22 @@ export async function POST(
         throw new Error('NO_RECIPIENT');
       }
 
+      // Verified-only tiers pay verified recipients
+      const recipientUser = getTierSafeguards(pool).identityVerification
+        ? await User.findOne(
+            payoutRecipient.userId ? { _id: payoutRecipient.userId } : { email: payoutRecipient.email?.toLowerCase() }
+          ).select('identityVerified')
+        : null;
+      const safeguardError = getPayoutSafeguardError(pool, {
+        userId: requestingUser._id.toString(),
+        recipientVerified: !!recipientUser?.identityVerified,
+      });
+      if (safeguardError) {
+        throw new Error(`EARLY_PAYOUT_NOT_ALLOWED:${safeguardError}`);
+      }
+
       // Calculate payout amount
-      const contributionsForRound = pool.transactions.filter(
+      const contributionsForRound = getCurrentCycleTransactions(pool.transactions).filter(
         (t: any) =>
           t.type === TransactionType.CONTRIBUTION &&
           t.round === currentRound &&
@@ -373,7 +366,7 @@ export async function POST(
         0
       );
 
-      const expectedPayoutAmount = pool.contributionAmount * pool.members.length;
+      const expectedPayoutAmount = getPotAmount(pool, pool.members.length, getWinningDiscount(pool, currentRound));
       const payoutAmount = Math.min(actualContributionTotal, expectedPayoutAmount);
 
       if (payoutAmount <= 0) {
@@ -466,7 +459,7 @@ export async function POST(
 
     // Manual payout system - mark transaction as completed
     // Admin is responsible for sending payment via recipient's preferred method
-    await Pool.findOneAndUpdate(
+    const updatedPool = await Pool.findOneAndUpdate(
       { id: pool.id },
       {
         $set: {
@@ -481,25 +474,28 @@ export async function POST(
       { new: true }
     );
 
+    // Archive the round (including the early payout) before advancing
+    if (updatedPool) {
+      // Reconciliation backfills the entry if this fails
+      try {
+        await recordPayout(updatedPool, payoutRecipient.id, payoutAmount, {
+          source: LedgerSource.POOL_TRANSACTION,
+          sourceRef: String(transactionId),
+          round: currentRound,
+          createdBy: requestingUser._id,
+        });
+      } catch (error) {
+        console.error('Error recording early payout in ledger:', error);
+      }
+
+      await archiveRound(updatedPool, { roundNumber: currentRound, closedBy: requestingUser._id });
+    }
+
     // IMPORTANT: Do NOT modify nextPayoutDate here.
     // The next payout remains on schedule. Only advance the round.
     if (currentRound < pool.totalRounds) {
-      // Calculate next payout date from the CURRENT scheduled date (not from today)
-      // This ensures the schedule remains intact
-      const nextPayoutDate = new Date(scheduledPayoutDate);
-      switch (pool.frequency.toLowerCase()) {
-        case 'weekly':
-          nextPayoutDate.setDate(nextPayoutDate.getDate() + 7);
-          break;
-        case 'biweekly':
-          nextPayoutDate.setDate(nextPayoutDate.getDate() + 14);
-          break;
-        case 'monthly':
-          nextPayoutDate.setMonth(nextPayoutDate.getMonth() + 1);
-          break;
-        default:
-          nextPayoutDate.setDate(nextPayoutDate.getDate() + 7);
-      }
+      // The next round keeps its scheduled date even though this one paid early
+      const nextPayoutDate = getRoundPayoutDate(pool, currentRound + 1);
 
       const nextRecipientIndex = pool.members.findIndex(
         (m: any) => m.position === currentRound + 1
@@ -511,6 +507,15 @@ export async function POST(
           $set: {
             currentRound: currentRound + 1,
             nextPayoutDate: nextPayoutDate.toISOString(),
+            currentRoundPayoutStatus: 'pending_collection',
+            currentRoundPayments: [],
+            currentRoundPayoutCompletedAt: null,
+            currentRoundPayoutMethod: null,
+            currentRoundPayoutNotes: null,
+            currentRoundPayoutConfirmedBy: null,
+            currentRoundReadyAt: null,
+            currentRoundPayoutApprovedBy: null,
+            currentRoundPayoutApprovedAt: null,
             ...(nextRecipientIndex !== -1 && {
               [`members.${nextRecipientIndex}.status`]: PoolMemberStatus.CURRENT,
             }),
@@ -536,7 +541,7 @@ export async function POST(
           messages: {
             id: messageId,
             author: 'System',
-            content: `Early payout of $${payoutAmount} has been processed for ${payoutRecipient.name} (Round ${currentRound}). Originally scheduled for ${new Date(scheduledPayoutDate).toLocaleDateString()}.`,
+            content: `Early payout of ${formatAmount(payoutAmount, pool.currency)} has been processed for ${payoutRecipient.name} (Round ${currentRound}). Originally scheduled for ${new Date(scheduledPayoutDate).toLocaleDateString()}.`,
             date: new Date().toISOString(),
           },
         },
@@ -580,7 +585,7 @@ export async function POST(
         scheduledPayoutDate,
         payoutMethod: recipientPayoutMethod,
       },
-      message: `Early payout of $${payoutAmount} marked as sent for round ${currentRound}`,
+      message: `Early payout of ${formatAmount(payoutAmount, pool.currency)} marked as sent for round ${currentRound}`,
       nextRound: currentRound < pool.totalRounds ? currentRound + 1 : currentRound,
       isComplete: currentRound >= pool.totalRounds,
     });
@@ -592,13 +597,6 @@ export async function POST(
       return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
     }
 
-    if (error.message === 'UNAUTHORIZED') {
-      return NextResponse.json(
-        { error: 'Only pool administrators can initiate early payouts' },
-        { status: 403 }
-      );
-    }
-
     if (error.message === 'NO_RECIPIENT') {
       return NextResponse.json(
         { error: 'No eligible recipient found for the current round' },
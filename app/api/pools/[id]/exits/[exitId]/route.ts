@@ -0,0 +1,191 @@
+import { NextRequest } from 'next/server';
+import { getAuditLogModel } from '../../../../../../lib/db/models/auditLog';
+import { PoolPermission, MemberDebtStatus, MemberExit } from '../../../../../../types/pool';
+import { AuditLogType } from '../../../../../../types/audit';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../lib/api';
+import { isValidEmail } from '../../../../../../lib/utils/verification';
+import { createPoolInvitation } from '../../../../../../lib/services/invitations';
+import { applyReplacement, getReplacementError, resolveDebt, requirePoolPermission } from '../../../../../../lib/pools';
+import {
+  recordAdjustment,
+  recordMemberPayment,
+  recordRefund,
+  LedgerSource,
+} from '../../../../../../lib/ledger';
+
+interface Params {
+  params: Promise<{ id: string; exitId: string }>;
+}
+
+type ExitAction = 'replace' | 'refund_paid' | 'catch_up_received' | 'settle_debt' | 'forgive_debt';
+
+const EXIT_ACTIONS: ExitAction[] = ['replace', 'refund_paid', 'catch_up_received', 'settle_debt', 'forgive_debt'];
+
+const MAX_NOTES_LENGTH = 500;
+
+/**
+ * PATCH /api/pools/[id]/exits/[exitId]
+ * Follow up on a member who left mid-cycle (admin only)
+ *
+ * Body:
+ * - action: 'replace' - invite name/email (phone optional) to take over the
+ *   open position. They owe the departed member's refund as a catch-up payment.
+ * - action: 'refund_paid' - the departed member was paid their refund
+ * - action: 'catch_up_received' - the replacement paid their catch-up amount
+ * - action: 'settle_debt' - the departed member paid back what they owed
+ * - action: 'forgive_debt' - write off the debt; notes (optional) say why
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { id, exitId } = await params;
+    const body = await request.json();
+    const action = body.action as ExitAction;
+
+    if (!EXIT_ACTIONS.includes(action)) {
+      return ApiErrors.badRequest(`action must be one of: ${EXIT_ACTIONS.join(', ')}`);
+    }
+
+    const notes = typeof body.notes === 'string' ? body.notes.trim() : '';
+    if (notes.length > MAX_NOTES_LENGTH) {
+      return ApiErrors.validationError(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool, member } = access;
+
+    const exit: MemberExit | undefined = (pool.memberExits || []).find((e: MemberExit) => e.id === exitId);
+    if (!exit) {
+      return ApiErrors.notFound('Member exit');
+    }
+
+    const now = new Date();
+    const ledgerOptions = { source: LedgerSource.MANUAL, createdBy: user._id };
+    let message: string;
+
+    switch (action) {
+      case 'replace': {
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+        const phone = typeof body.phone === 'string' ? body.phone.trim() : undefined;
+
+        if (!name || !isValidEmail(email)) {
+          return ApiErrors.validationError('A name and valid email are required for the replacement');
+        }
+
+        const replacementError = getReplacementError(pool, exit, { name, email });
+        if (replacementError) {
+          return ApiErrors.badRequest(replacementError);
+        }
+
+        // Invite before adding them, since invitations skip existing members
+        const invitation = await createPoolInvitation({
+          poolId: pool.id,
+          email,
+          name,
+          phone,
+          message: `You're invited to take over ${exit.memberName}'s place in ${pool.name}.`,
+          invitedByUserId: user._id.toString(),
+          invitedByName: user.name,
+          invitedByEmail: user.email,
+        });
+        if (!invitation.success) {
+          return ApiErrors.badRequest(invitation.error || 'Failed to invite the replacement');
+        }
+
+        applyReplacement(pool, exit, { name, email, phone }, now);
+        message = `${name} has been invited to take over position ${exit.position}`;
+        break;
+      }
+
+      case 'refund_paid': {
+        if (exit.refundOwed <= 0 || exit.refundPaidAt) {
+          return ApiErrors.badRequest('No refund is owed to this member');
+        }
+        // The departed member is no longer in the pool, so there's no counter to update
+        await recordRefund(pool, exit.memberId, exit.refundOwed, `Refund to ${exit.memberName} after leaving the pool`, {
+          ...ledgerOptions,
+          sourceRef: `${exit.id}_refund`,
+          updateCounters: false,
+        });
+        exit.refundPaidAt = now.toISOString();
+        message = `Refund to ${exit.memberName} recorded`;
+        break;
+      }
+
+      case 'catch_up_received': {
+        const replacement = exit.replacement;
+        if (!replacement || replacement.catchUpAmount <= 0 || replacement.catchUpReceivedAt) {
+          return ApiErrors.badRequest('No catch-up payment is due for this position');
+        }
+        await recordMemberPayment(
+          pool,
+          replacement.memberId,
+          replacement.catchUpAmount,
+          `Catch-up payment from ${replacement.name} for ${exit.memberName}'s position`,
+          { ...ledgerOptions, sourceRef: `${exit.id}_catch_up` }
+        );
+        replacement.catchUpReceivedAt = now.toISOString();
+        message = `Catch-up payment from ${replacement.name} recorded`;
+        break;
+      }
+
+      case 'settle_debt':
+      case 'forgive_debt': {
+        const debt = exit.debt;
+        if (!debt || debt.status !== MemberDebtStatus.OUTSTANDING) {
+          return ApiErrors.badRequest('This member has no outstanding debt');
+        }
+        if (action === 'settle_debt') {
+          await recordMemberPayment(pool, exit.memberId, debt.amount, `${exit.memberName} repaid their debt to the pool`, {
+            ...ledgerOptions,
+            sourceRef: `${exit.id}_debt`,
+            updateCounters: false,
+          });
+          resolveDebt(exit, MemberDebtStatus.SETTLED, member.name, notes || undefined, now);
+          message = `${exit.memberName}'s debt is settled`;
+        } else {
+          // Credit the member so their ledger account closes at zero
+          await recordAdjustment(pool, exit.memberId, debt.amount, `Debt forgiven for ${exit.memberName}`, {
+            ...ledgerOptions,
+            sourceRef: `${exit.id}_debt`,
+          });
+          resolveDebt(exit, MemberDebtStatus.FORGIVEN, member.name, notes || undefined, now);
+          message = `${exit.memberName}'s debt is forgiven`;
+        }
+        break;
+      }
+    }
+
+    await pool.save();
+
+    try {
+      await getAuditLogModel().create({
+        id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: now.toISOString(),
+        userId: user._id.toString(),
+        userEmail: user.email,
+        type: action === 'replace' ? AuditLogType.POOL_MEMBER_ADD : AuditLogType.POOL_LEDGER_ADJUSTMENT,
+        action: `member_exit_${action}`,
+        metadata: {
+          poolId: pool.id,
+          exitId: exit.id,
+          memberId: exit.memberId,
+          ...(exit.replacement && { replacementMemberId: exit.replacement.memberId }),
+          ...(notes && { notes }),
+        },
+        poolId: pool.id,
+        success: true,
+      });
+    } catch (error) {
+      console.error(`Error logging member exit ${action} for pool ${pool.id}:`, error);
+    }
+
+    return successResponse({ exit }, { message });
+  } catch (error) {
+    console.error('Error updating member exit:', error);
+    return ApiErrors.internalError('Failed to update member exit');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { PoolPermission, MemberDebtStatus, MemberExit } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { hasOpenItems, requirePoolPermission } from '../../../../../lib/pools';
+import { roundCents } from '../../../../../lib/ledger';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/exits
+ * List members who left the pool mid-cycle, newest first, with what each
+ * still owes or is owed (admin only)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const exits: MemberExit[] = (pool.toObject().memberExits || []).slice().reverse();
+
+    return successResponse({
+      exits: exits.map(exit => ({ ...exit, open: hasOpenItems(exit) })),
+      refundsOwed: roundCents(
+        exits.filter(e => !e.refundPaidAt).reduce((sum, e) => sum + e.refundOwed, 0)
+      ),
+      outstandingDebt: roundCents(
+        exits
+          .filter(e => e.debt?.status === MemberDebtStatus.OUTSTANDING)
+          .reduce((sum, e) => sum + (e.debt?.amount || 0), 0)
+      ),
+    });
+  } catch (error) {
+    console.error('Error fetching member exits:', error);
+    return ApiErrors.internalError('Failed to fetch member exits');
+  }
+}
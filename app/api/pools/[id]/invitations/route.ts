@@ -1,32 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../auth/[...nextauth]/options';
 import type { CreateInvitationRequest, ResendInvitationRequest, CancelInvitationRequest } from '../../../../../types/pool';
-import { InvitationStatus } from '../../../../../types/pool';
-import connectToDatabase from '../../../../../lib/db/connect';
+import { PoolPermission, InvitationStatus } from '../../../../../types/pool';
 import { PoolInvitation } from '../../../../../lib/db/models/poolInvitation';
-import { getPoolModel } from '../../../../../lib/db/models/pool';
 import { User } from '../../../../../lib/db/models/user';
 import crypto from 'crypto';
-import nodemailer from 'nodemailer';
 import { createNotification, NotificationTemplates } from '../../../../../lib/services/notifications';
-
-// Create email transporter
-const getEmailTransporter = () => {
-  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
-    console.warn('[INVITATIONS] Email credentials not configured');
-    return null;
-  }
-  return nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASSWORD
-    }
-  });
-};
-
-const Pool = getPoolModel();
+import { getEmailService } from '../../../../../lib/email/index';
+import { getLocaleForEmail } from '../../../../../lib/i18n/recipients';
+import { DEFAULT_LOCALE } from '../../../../../types/i18n';
+import { requirePoolPermission } from '../../../../../lib/pools';
 
 /**
  * GET /api/pools/[id]/invitations - Get all invitations for a pool
@@ -37,15 +19,6 @@ export async function GET(
 ) {
   try {
     const { id: poolId } = await context.params;
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-    
     if (!poolId) {
       return NextResponse.json(
         { error: 'Pool ID is required' },
@@ -53,30 +26,9 @@ export async function GET(
       );
     }
     
-    await connectToDatabase();
-    
-    // Check if user has access to this pool
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-    
-    // Only pool admins and creators can view invitations
-    const isAdmin = pool.members.some(
-      (m: any) => (
-        (m.userId && m.userId.toString() === session.user.id) || 
-        (session.user.email && m.email === session.user.email)
-      ) && (m.role === 'admin' || m.role === 'creator')
-    );
-    
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to view invitations' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
     
     // Get invitations from database
@@ -121,16 +73,8 @@ export async function POST(
 ) {
   try {
     const { id: poolId } = await context.params;
-    const session = await getServerSession(authOptions);
     const body = await request.json() as CreateInvitationRequest;
     
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-    
     if (!poolId) {
       return NextResponse.json(
         { error: 'Pool ID is required' },
@@ -147,30 +91,11 @@ export async function POST(
       );
     }
     
-    await connectToDatabase();
-    
-    // Check if user has permission to invite
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-    
-    const isAdmin = pool.members.some(
-      (m: any) => (
-        (m.userId && m.userId.toString() === session.user.id) || 
-        (session.user.email && m.email === session.user.email)
-      ) && (m.role === 'admin' || m.role === 'creator')
-    );
-    
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to send invitations' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
     
     // Check if user is already a member
     const existingMember = pool.members.find(
@@ -200,7 +125,7 @@ export async function POST(
         await existingInvitation.save();
         
         // Send email
-        await sendInvitationEmail(existingInvitation, pool, session.user);
+        await sendInvitationEmail(existingInvitation, pool, user);
         
         return NextResponse.json({
           success: true,
@@ -227,7 +152,7 @@ export async function POST(
       email: email.toLowerCase(),
       name,
       phone,
-      invitedBy: session.user.id,
+      invitedBy: user._id.toString(),
       invitationCode,
       status: InvitationStatus.PENDING,
       sentDate: new Date(),
@@ -237,18 +162,7 @@ export async function POST(
     });
     
     // Send invitation email
-    await sendInvitationEmail(newInvitation, pool, session.user);
-
-    // Log activity
-    try {
-      await logActivity(session.user.id, 'pool_invitation_sent', {
-        poolId,
-        invitationId: newInvitation._id.toString(),
-        email
-      });
-    } catch (error) {
-      console.error('Failed to log invitation activity:', error);
-    }
+    await sendInvitationEmail(newInvitation, pool, user);
 
     // If the invited email belongs to an existing user, send them an in-app notification
     try {
@@ -256,7 +170,7 @@ export async function POST(
       if (existingUser) {
         await createNotification({
           userId: existingUser.email,
-          message: NotificationTemplates.invitationReceived(pool.name, session.user.name || session.user.email || 'Someone'),
+          message: NotificationTemplates.invitationReceived(pool.name, user.name || user.email || 'Someone'),
           type: 'invite',
           isImportant: true,
         });
@@ -295,17 +209,9 @@ export async function PATCH(
 ) {
   try {
     const { id: poolId } = await context.params;
-    const session = await getServerSession(authOptions);
     const body = await request.json() as ResendInvitationRequest;
     const { invitationId } = body;
     
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-    
     if (!poolId || !invitationId) {
       return NextResponse.json(
         { error: 'Pool ID and Invitation ID are required' },
@@ -313,30 +219,11 @@ export async function PATCH(
       );
     }
     
-    await connectToDatabase();
-    
-    // Check permissions
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-    
-    const isAdmin = pool.members.some(
-      (m: any) => (
-        (m.userId && m.userId.toString() === session.user.id) || 
-        (session.user.email && m.email === session.user.email)
-      ) && (m.role === 'admin' || m.role === 'creator')
-    );
-    
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to resend invitations' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
     
     // Find and update invitation
     const invitation = await PoolInvitation.findById(invitationId);
@@ -356,18 +243,7 @@ export async function PATCH(
     await invitation.save();
     
     // Resend email
-    await sendInvitationEmail(invitation, pool, session.user);
-    
-    // Log activity
-    try {
-      await logActivity(session.user.id, 'pool_invitation_resent', {
-        poolId,
-        invitationId,
-        email: invitation.email
-      });
-    } catch (error) {
-      console.error('Failed to log resend activity:', error);
-    }
+    await sendInvitationEmail(invitation, pool, user);
     
     return NextResponse.json({
       success: true,
@@ -397,16 +273,8 @@ export async function DELETE(
 ) {
   try {
     const { id: poolId } = await context.params;
-    const session = await getServerSession(authOptions);
     const invitationId = request.nextUrl.searchParams.get('invitationId');
     
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-    
     if (!poolId || !invitationId) {
       return NextResponse.json(
         { error: 'Pool ID and Invitation ID are required' },
@@ -414,30 +282,11 @@ export async function DELETE(
       );
     }
     
-    await connectToDatabase();
-    
-    // Check permissions
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-    
-    const isAdmin = pool.members.some(
-      (m: any) => (
-        (m.userId && m.userId.toString() === session.user.id) || 
-        (session.user.email && m.email === session.user.email)
-      ) && (m.role === 'admin' || m.role === 'creator')
-    );
-    
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to cancel invitations' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user } = access;
     
     // Find and delete invitation
     const invitation = await PoolInvitation.findByIdAndDelete(invitationId);
@@ -449,17 +298,6 @@ export async function DELETE(
       );
     }
     
-    // Log activity
-    try {
-      await logActivity(session.user.id, 'pool_invitation_cancelled', {
-        poolId,
-        invitationId,
-        email: invitation.email
-      });
-    } catch (error) {
-      console.error('Failed to log cancellation activity:', error);
-    }
-    
     return NextResponse.json({
       success: true,
       message: 'Invitation cancelled successfully'
@@ -477,82 +315,43 @@ export async function DELETE(
 // Helper function to send invitation email
 async function sendInvitationEmail(invitation: any, pool: any, inviter: any) {
   try {
-    const transporter = getEmailTransporter();
-    if (!transporter) {
-      console.error('[INVITATIONS] Cannot send email - transporter not configured');
+    const emailService = getEmailService();
+    if (!emailService.isConfigured()) {
+      console.error('[INVITATIONS] Cannot send email - email provider not configured');
       return;
     }
 
     const invitationUrl = `${process.env.NEXTAUTH_URL}/pools/join?code=${invitation.invitationCode}`;
 
-    const mailOptions = {
-      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
-      to: invitation.email,
-      subject: `You're invited to join ${pool.name}!`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>You've been invited to join a savings pool!</h2>
-          <p>Hello${invitation.name ? ' ' + invitation.name : ''},</p>
-          <p>${inviter.name || inviter.email} has invited you to join the savings pool "${pool.name}".</p>
-
-          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h3>Pool Details:</h3>
-            <ul style="list-style: none; padding: 0;">
-              <li><strong>Pool Name:</strong> ${pool.name}</li>
-              <li><strong>Contribution Amount:</strong> $${pool.contributionAmount}</li>
-              <li><strong>Frequency:</strong> ${pool.frequency}</li>
-              <li><strong>Current Members:</strong> ${pool.members.length}</li>
-            </ul>
-            ${invitation.message ? `<p><strong>Personal Message:</strong> ${invitation.message}</p>` : ''}
-          </div>
-
-          <p>To accept this invitation, click the link below:</p>
-          <p style="text-align: center; margin: 30px 0;">
-            <a href="${invitationUrl}" style="background: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">Join Pool</a>
-          </p>
-
-          <p style="color: #666; font-size: 14px;">Or copy and paste this link into your browser:</p>
-          <p style="color: #666; font-size: 14px; word-break: break-all;">${invitationUrl}</p>
-
-          <p style="color: #666; font-size: 14px; margin-top: 30px;">This invitation will expire in 7 days.</p>
-
-          <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
-          <p style="color: #999; font-size: 12px;">If you didn't expect this invitation, you can safely ignore this email.</p>
-        </div>
-      `,
-      text: `
-You've been invited to join a savings pool!
-
-Hello${invitation.name ? ' ' + invitation.name : ''},
-
-${inviter.name || inviter.email} has invited you to join the savings pool "${pool.name}".
-
-Pool Details:
-- Pool Name: ${pool.name}
-- Contribution Amount: $${pool.contributionAmount}
-- Frequency: ${pool.frequency}
-- Current Members: ${pool.members.length}
-${invitation.message ? '\nPersonal Message: ' + invitation.message : ''}
-
-To accept this invitation, visit:
-${invitationUrl}
-
-This invitation will expire in 7 days.
-
-If you didn't expect this invitation, you can safely ignore this email.
-      `
-    };
+    // Write in the invitee's language if they have an account, otherwise the inviter's
+    const inviterLocale = inviter.email ? await getLocaleForEmail(inviter.email) : DEFAULT_LOCALE;
+    const locale = await getLocaleForEmail(invitation.email, inviterLocale);
 
     console.log(`[INVITATIONS] Sending invitation email to ${invitation.email}`);
-    const result = await transporter.sendMail(mailOptions);
+    const result = await emailService.sendPoolInvitation(invitation.email, {
+      recipientName: invitation.name,
+      poolName: pool.name,
+      inviterName: inviter.name || inviter.email,
+      contributionAmount: pool.contributionAmount,
+      currency: pool.currency,
+      frequency: pool.frequency,
+      memberCount: pool.members.length,
+      invitationUrl,
+      message: invitation.message,
+      expiresInDays: 7,
+      locale,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send invitation email');
+    }
 
     invitation.emailSent = true;
     invitation.emailSentAt = new Date();
     await invitation.save();
 
-    console.log(`[INVITATIONS] Successfully sent invitation email to ${invitation.email}`, {
+    console.log(`[INVITATIONS] Invitation email to ${invitation.email} ${result.status === 'queued' ? 'queued for retry' : 'sent'}`, {
       messageId: result.messageId,
-      response: result.response
+      queueId: result.queueId
     });
   } catch (error: any) {
     console.error(`[INVITATIONS] Error sending invitation email to ${invitation.email}:`, {
@@ -560,21 +359,4 @@ If you didn't expect this invitation, you can safely ignore this email.
       code: error.code
     });
   }
-}
-
-// Helper function to log activity
-async function logActivity(userId: string, type: string, metadata: any) {
-  try {
-    await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/security/activity-log`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        userId,
-        type,
-        metadata
-      })
-    });
-  } catch (error) {
-    console.error('Failed to log activity:', error);
-  }
 }
\ No newline at end of file
@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../auth/[...nextauth]/options';
-import { InvitationStatus } from '../../../../../types/pool';
-import connectToDatabase from '../../../../../lib/db/connect';
+import { PoolPermission, InvitationStatus } from '../../../../../types/pool';
 import { PoolInvitation } from '../../../../../lib/db/models/poolInvitation';
-import { getPoolModel } from '../../../../../lib/db/models/pool';
 import crypto from 'crypto';
-
-const Pool = getPoolModel();
+import { requirePoolPermission } from '../../../../../lib/pools';
 
 /**
  * POST /api/pools/[id]/invite-link - Generate a shareable invitation link
@@ -19,15 +14,6 @@ export async function POST(
 ) {
   try {
     const { id: poolId } = await context.params;
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
     if (!poolId) {
       return NextResponse.json(
         { error: 'Pool ID is required' },
@@ -46,30 +32,11 @@ export async function POST(
       // No body or invalid JSON, use defaults
     }
 
-    await connectToDatabase();
-
-    // Check if user has permission to create invite links
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-
-    const isAdmin = pool.members.some(
-      (m: any) => (
-        (m.userId && m.userId.toString() === session.user.id) ||
-        (session.user.email && m.email === session.user.email)
-      ) && (m.role === 'admin' || m.role === 'creator')
-    );
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to create invite links' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user } = access;
 
     // Check for existing shareable link (one without a specific email)
     let existingLink = await PoolInvitation.findOne({
@@ -109,7 +76,7 @@ export async function POST(
         poolId,
         email: `invite-link-${poolId}@shareable.local`, // Marker email for shareable links
         name: 'Shareable Invite Link',
-        invitedBy: session.user.id,
+        invitedBy: user._id.toString(),
         invitationCode,
         status: InvitationStatus.PENDING,
         sentDate: new Date(),
@@ -148,15 +115,6 @@ export async function GET(
 ) {
   try {
     const { id: poolId } = await context.params;
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
     if (!poolId) {
       return NextResponse.json(
         { error: 'Pool ID is required' },
@@ -164,31 +122,11 @@ export async function GET(
       );
     }
 
-    await connectToDatabase();
-
-    // Check if user has permission
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
-
-    const isAdmin = pool.members.some(
-      (m: any) => (
-        (m.userId && m.userId.toString() === session.user.id) ||
-        (session.user.email && m.email === session.user.email)
-      ) && (m.role === 'admin' || m.role === 'creator')
-    );
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to view invite links' },
-        { status: 403 }
-      );
-    }
-
+    
     // Find existing shareable link
     const existingLink = await PoolInvitation.findOne({
       poolId,
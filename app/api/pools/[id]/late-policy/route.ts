@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../lib/db/models/pool';
+import { PoolPermission } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { requirePoolPermission } from '../../../../../lib/pools';
+import {
+  getLatePolicy,
+  validateLatePolicy,
+  MAX_GRACE_PERIOD_DAYS,
+  MAX_MISSED_AFTER_DAYS,
+} from '../../../../../lib/payments/late-policy';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/late-policy
+ * Get the pool's late/missed payment policy
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+
+    return successResponse({
+      policy: getLatePolicy(access.pool),
+      limits: {
+        maxGracePeriodDays: MAX_GRACE_PERIOD_DAYS,
+        maxMissedAfterDays: MAX_MISSED_AFTER_DAYS,
+        maxLateFeeAmount: access.pool.contributionAmount,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching late policy:', error);
+    return ApiErrors.internalError('Failed to fetch late policy');
+  }
+}
+
+/**
+ * PUT /api/pools/[id]/late-policy
+ * Update the pool's late/missed payment policy (admin only)
+ *
+ * Body (all optional, in days from the due date):
+ * - gracePeriodDays: pending payments become late after this
+ * - missedAfterDays: unpaid payments become missed after this
+ * - lateFeeAmount: fee added when a payment goes late (0 = none)
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const { policy, error } = validateLatePolicy(
+      {
+        gracePeriodDays: body.gracePeriodDays,
+        missedAfterDays: body.missedAfterDays,
+        lateFeeAmount: body.lateFeeAmount,
+      },
+      getLatePolicy(pool),
+      pool.contributionAmount
+    );
+
+    if (!policy) {
+      return ApiErrors.validationError(error || 'Invalid late policy');
+    }
+
+    await Pool.updateOne({ _id: pool._id }, { $set: { latePolicy: policy } });
+
+    return successResponse({ policy }, { message: 'Late policy updated' });
+  } catch (error) {
+    console.error('Error updating late policy:', error);
+    return ApiErrors.internalError('Failed to update late policy');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { PoolPermission } from '../../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../lib/api';
+import { reconcilePool, repairPoolLedger } from '../../../../../../lib/ledger';
+import { requirePoolPermission } from '../../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/ledger/reconcile
+ * Compare the ledger with pool transactions, round payments, Payment records,
+ * and member counters
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VERIFY_PAYMENTS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+
+    const report = await reconcilePool(access.pool);
+    return successResponse(report);
+  } catch (error) {
+    console.error('Error reconciling ledger:', error);
+    return ApiErrors.internalError('Failed to reconcile ledger');
+  }
+}
+
+/**
+ * POST /api/pools/[id]/ledger/reconcile
+ * Repair discrepancies: backfill missing ledger entries and reset member
+ * counters from the ledger. Amount mismatches need a manual adjustment.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VERIFY_PAYMENTS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool } = access;
+
+    const repair = await repairPoolLedger(pool, { id: user._id.toString(), email: user.email });
+
+    return successResponse(repair, {
+      message: `Created ${repair.entriesCreated} ledger entries and updated ${repair.countersUpdated} member counters`,
+    });
+  } catch (error) {
+    console.error('Error repairing ledger:', error);
+    return ApiErrors.internalError('Failed to repair ledger');
+  }
+}
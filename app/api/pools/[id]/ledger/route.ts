@@ -0,0 +1,136 @@
+import { NextRequest } from 'next/server';
+import { getAuditLogModel } from '../../../../../lib/db/models/auditLog';
+import { PoolPermission, PoolMember } from '../../../../../types/pool';
+import { AuditLogType } from '../../../../../types/audit';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { requirePoolPermission } from '../../../../../lib/pools';
+import {
+  getLedgerEntries,
+  computeLedgerBalances,
+  recordAdjustment,
+  recordRefund,
+  LedgerSource,
+} from '../../../../../lib/ledger';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * GET /api/pools/[id]/ledger
+ * Get the pool's ledger entries and balances
+ *
+ * Query:
+ * - memberId: only entries for this member
+ * - limit: number of entries to return (default and max 500)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const searchParams = request.nextUrl.searchParams;
+    const memberIdParam = searchParams.get('memberId');
+    const memberId = memberIdParam ? parseInt(memberIdParam, 10) : undefined;
+    if (memberId !== undefined && Number.isNaN(memberId)) {
+      return ApiErrors.validationError('memberId must be a number');
+    }
+
+    // Balances always cover the whole ledger, not just the filtered entries
+    const [entries, allEntries] = await Promise.all([
+      getLedgerEntries(pool.id, {
+        memberId,
+        limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+      }),
+      getLedgerEntries(pool.id),
+    ]);
+
+    return successResponse({
+      entries,
+      balances: computeLedgerBalances(allEntries),
+    });
+  } catch (error) {
+    console.error('Error fetching ledger:', error);
+    return ApiErrors.internalError('Failed to fetch ledger');
+  }
+}
+
+/**
+ * POST /api/pools/[id]/ledger
+ * Record a refund or manual adjustment (admin only)
+ *
+ * Body:
+ * - type: 'refund' | 'adjustment'
+ * - memberId: member whose account changes
+ * - amount: refund amount, or adjustment (positive credits the member, negative debits)
+ * - description: reason, shown in the ledger and audit log
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const access = await requirePoolPermission(id, PoolPermission.VERIFY_PAYMENTS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool } = access;
+
+    const { type, memberId, amount } = body;
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+
+    if (type !== 'refund' && type !== 'adjustment') {
+      return ApiErrors.validationError("type must be 'refund' or 'adjustment'");
+    }
+    if (!pool.members.some((m: PoolMember) => m.id === memberId)) {
+      return ApiErrors.validationError('memberId must be a member of this pool');
+    }
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+      return ApiErrors.validationError('amount must be a non-zero number');
+    }
+    if (type === 'refund' && amount < 0) {
+      return ApiErrors.validationError('Refund amount must be positive');
+    }
+    if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+      return ApiErrors.validationError(`description is required (max ${MAX_DESCRIPTION_LENGTH} characters)`);
+    }
+
+    const options = { source: LedgerSource.MANUAL, createdBy: user._id };
+    const { entry } = type === 'refund'
+      ? await recordRefund(pool, memberId, amount, description, options)
+      : await recordAdjustment(pool, memberId, amount, description, options);
+
+    try {
+      await getAuditLogModel().create({
+        id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: new Date().toISOString(),
+        userId: user._id.toString(),
+        userEmail: user.email,
+        type: AuditLogType.POOL_LEDGER_ADJUSTMENT,
+        action: `record_${type}`,
+        metadata: {
+          poolId: pool.id,
+          entryId: entry.entryId,
+          memberId,
+          amount,
+          description,
+        },
+        poolId: pool.id,
+        success: true,
+      });
+    } catch (error) {
+      console.error(`Error logging ledger ${type} for pool ${pool.id}:`, error);
+    }
+
+    return successResponse({ entry }, { message: type === 'refund' ? 'Refund recorded' : 'Adjustment recorded', status: 201 });
+  } catch (error) {
+    console.error('Error recording ledger entry:', error);
+    return ApiErrors.internalError('Failed to record ledger entry');
+  }
+}
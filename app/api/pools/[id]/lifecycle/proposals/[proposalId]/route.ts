@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../../../lib/db/models/pool';
+import { PoolPermission, LifecycleProposal, LifecycleProposalStatus } from '../../../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../../lib/api';
+import { postPoolStatusChanged } from '../../../../../../../lib/activity';
+import {
+  getLifecycleError,
+  getVotingMemberIds,
+  tallyVotes,
+  castVote,
+  applyApprovedProposal,
+  notifyPoolMembers,
+  logLifecycleChange,
+  hasPoolPermission,
+  requirePoolPermission,
+} from '../../../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string; proposalId: string }>;
+}
+
+type ProposalAction = 'approve' | 'reject' | 'withdraw';
+
+/**
+ * PATCH /api/pools/[id]/lifecycle/proposals/[proposalId]
+ * Vote on or withdraw a resume/cancel proposal
+ *
+ * Body:
+ * - action: 'approve' | 'reject' (any voting member) - votes can be changed
+ *   while the proposal is open; the change is applied once enough approve
+ * - action: 'withdraw' (proposer or pool admin)
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { id, proposalId } = await params;
+    const body = await request.json();
+    const action = body.action as ProposalAction;
+
+    if (!['approve', 'reject', 'withdraw'].includes(action)) {
+      return ApiErrors.badRequest('Invalid action');
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.PARTICIPATE);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool, member } = access;
+
+    const isAdmin = hasPoolPermission(member, PoolPermission.MANAGE_POOL);
+
+    const proposal = (pool.lifecycleProposals || []).find((p: LifecycleProposal) => p.id === proposalId);
+    if (!proposal) {
+      return ApiErrors.notFound('Proposal');
+    }
+
+    if (proposal.status !== LifecycleProposalStatus.PENDING) {
+      return ApiErrors.badRequest(`Proposal is already ${proposal.status}`);
+    }
+
+    const actor = { id: user._id.toString(), email: user.email };
+    const now = new Date();
+
+    if (action === 'withdraw') {
+      if (proposal.proposedBy !== member.id && !isAdmin) {
+        return ApiErrors.forbidden('Only the proposer or a pool admin can withdraw this proposal');
+      }
+
+      proposal.status = LifecycleProposalStatus.WITHDRAWN;
+      proposal.resolvedAt = now.toISOString();
+      await pool.save();
+
+      await logLifecycleChange(pool, actor, `pool_${proposal.action}_withdrawn`, { proposalId });
+      return successResponse({ proposalId, status: proposal.status }, { message: 'Proposal withdrawn' });
+    }
+
+    const voterIds = getVotingMemberIds(pool);
+    if (!voterIds.includes(member.id)) {
+      return ApiErrors.forbidden('Only active members can vote');
+    }
+
+    castVote(proposal, member, action === 'approve', now);
+    const tally = tallyVotes(proposal, voterIds);
+
+    let change = null;
+    if (tally.outcome === 'approved') {
+      // The pool may have changed status since the vote opened
+      const transitionError = getLifecycleError(pool, proposal.action);
+      if (transitionError) {
+        return ApiErrors.badRequest(transitionError);
+      }
+      change = await applyApprovedProposal(pool, proposal, proposal.proposedByName || member.name, now);
+    } else if (tally.outcome === 'rejected') {
+      proposal.status = LifecycleProposalStatus.REJECTED;
+      proposal.resolvedAt = now.toISOString();
+    }
+
+    await pool.save();
+
+    await logLifecycleChange(pool, actor, `pool_${proposal.action}_vote`, {
+      proposalId,
+      approve: action === 'approve',
+      approvals: tally.approvals,
+      rejections: tally.rejections,
+      required: tally.required,
+      outcome: tally.outcome,
+    });
+
+    if (change) {
+      await postPoolStatusChanged(pool._id, change.to, change.changedBy);
+      await notifyPoolMembers(pool, `The vote passed: ${pool.name} is now ${change.to}.`);
+    } else if (tally.outcome === 'rejected') {
+      await notifyPoolMembers(pool, `The proposal to ${proposal.action} ${pool.name} did not get enough votes.`);
+    }
+
+    return successResponse(
+      { proposalId, status: proposal.status, tally, poolStatus: pool.status, change },
+      { message: change ? `Pool ${change.to}` : 'Vote recorded' }
+    );
+  } catch (error) {
+    console.error('Error voting on lifecycle proposal:', error);
+    return ApiErrors.internalError('Failed to record vote');
+  }
+}
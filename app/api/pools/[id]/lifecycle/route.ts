@@ -0,0 +1,167 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../lib/db/models/pool';
+import { PoolPermission, PoolStatus, LifecycleProposalAction } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { postPoolStatusChanged } from '../../../../../lib/activity';
+import {
+  LIFECYCLE_ACTIONS,
+  LifecycleAction,
+  getLifecycleError,
+  getVotingMemberIds,
+  tallyVotes,
+  getOpenProposal,
+  createProposal,
+  applyPause,
+  applyApprovedProposal,
+  notifyPoolMembers,
+  logLifecycleChange,
+  getSettlementPlan,
+  requirePoolPermission,
+} from '../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * GET /api/pools/[id]/lifecycle
+ * Get the pool's status history, the open resume/cancel proposal with its
+ * vote count, and the settlement plan (final once cancelled, a preview while
+ * a cancellation is being voted on)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool, member } = access;
+
+    const proposal = getOpenProposal(pool.toObject());
+    const voterIds = getVotingMemberIds(pool);
+
+    let settlementPlan = pool.settlementPlan || null;
+    if (!settlementPlan && proposal?.action === LifecycleProposalAction.CANCEL) {
+      settlementPlan = await getSettlementPlan(pool);
+    }
+
+    return successResponse({
+      status: pool.status,
+      pausedAt: pool.pausedAt || null,
+      cancelledAt: pool.cancelledAt || null,
+      statusHistory: pool.statusHistory || [],
+      proposal: proposal
+        ? {
+            ...proposal,
+            tally: tallyVotes(proposal, voterIds),
+            myVote: proposal.votes.find(v => v.memberId === member.id)?.approve ?? null,
+          }
+        : null,
+      settlementPlan,
+    });
+  } catch (error) {
+    console.error('Error fetching pool lifecycle:', error);
+    return ApiErrors.internalError('Failed to fetch pool lifecycle');
+  }
+}
+
+/**
+ * POST /api/pools/[id]/lifecycle
+ * Pause the pool, or propose resuming or cancelling it (admin only)
+ *
+ * Body:
+ * - action: 'pause' - takes effect right away
+ * - action: 'resume' | 'cancel' - opens a proposal for members to vote on;
+ *   applied as soon as enough members approve
+ * - reason: optional, shown to members
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as LifecycleAction;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : undefined;
+
+    if (!LIFECYCLE_ACTIONS.includes(action)) {
+      return ApiErrors.badRequest(`action must be one of: ${LIFECYCLE_ACTIONS.join(', ')}`);
+    }
+    if (reason && reason.length > MAX_REASON_LENGTH) {
+      return ApiErrors.validationError(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool, member, user } = access;
+
+    const transitionError = getLifecycleError(pool, action);
+    if (transitionError) {
+      return ApiErrors.badRequest(transitionError);
+    }
+
+    const actor = { id: user._id.toString(), email: user.email };
+    const now = new Date();
+
+    if (action === 'pause') {
+      const change = applyPause(pool, member.name, reason, now);
+      await pool.save();
+
+      await logLifecycleChange(pool, actor, 'pool_paused', { from: change.from, reason });
+      await postPoolStatusChanged(pool._id, PoolStatus.PAUSED, member.name);
+      await notifyPoolMembers(
+        pool,
+        `${member.name} paused ${pool.name}. No contributions are due until it resumes.`,
+        member.id
+      );
+
+      return successResponse({ status: pool.status, change }, { message: 'Pool paused' });
+    }
+
+    if (getOpenProposal(pool)) {
+      return ApiErrors.badRequest('Another proposal is already open for a vote');
+    }
+
+    const proposal = createProposal(action, member, reason, now);
+    pool.lifecycleProposals.push(proposal);
+    const savedProposal = pool.lifecycleProposals[pool.lifecycleProposals.length - 1];
+
+    // A pool with a single voter approves its own proposal
+    const tally = tallyVotes(savedProposal, getVotingMemberIds(pool));
+    const change = tally.outcome === 'approved'
+      ? await applyApprovedProposal(pool, savedProposal, member.name, now)
+      : null;
+
+    await pool.save();
+
+    await logLifecycleChange(pool, actor, `pool_${action}_proposed`, {
+      proposalId: proposal.id,
+      reason,
+      approvals: tally.approvals,
+      required: tally.required,
+    });
+
+    if (change) {
+      await postPoolStatusChanged(pool._id, change.to, member.name);
+      await notifyPoolMembers(pool, `${pool.name} is now ${change.to}.`, member.id);
+    } else {
+      const verb = action === LifecycleProposalAction.RESUME ? 'resume' : 'cancel';
+      await notifyPoolMembers(
+        pool,
+        `${member.name} proposed to ${verb} ${pool.name}. Your vote is needed.`,
+        member.id
+      );
+    }
+
+    return successResponse(
+      { proposal: { ...savedProposal.toObject(), tally }, status: pool.status, change },
+      { message: change ? `Pool ${change.to}` : 'Proposal opened for a vote' }
+    );
+  } catch (error) {
+    console.error('Error changing pool lifecycle:', error);
+    return ApiErrors.internalError('Failed to change pool status');
+  }
+}
@@ -1,26 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '../../../../../auth/[...nextauth]/options';
-import connectToDatabase from '../../../../../../../lib/db/connect';
-import { getPoolModel } from '../../../../../../../lib/db/models/pool';
-import nodemailer from 'nodemailer';
-
-const Pool = getPoolModel();
-
-// Create email transporter
-const getEmailTransporter = () => {
-  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
-    console.warn('[REMINDERS] Email credentials not configured');
-    return null;
-  }
-  return nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASSWORD
-    }
-  });
-};
+import { PoolPermission } from '../../../../../../../types/pool';
+import { getEmailService, formatCurrency } from '../../../../../../../lib/email/index';
+import { resolveCurrency } from '../../../../../../../lib/currency';
+import { requirePoolPermission } from '../../../../../../../lib/pools';
 
 /**
  * POST /api/pools/[id]/members/[memberId]/reminder - Send payment reminder to a member
@@ -31,15 +13,6 @@ export async function POST(
 ) {
   try {
     const { id: poolId, memberId } = await context.params;
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
     if (!poolId || !memberId) {
       return NextResponse.json(
         { error: 'Pool ID and Member ID are required' },
@@ -47,31 +20,11 @@ export async function POST(
       );
     }
 
-    await connectToDatabase();
-
-    // Get pool details
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if sender is admin
-    const isAdmin = pool.members.some(
-      (m: any) => (
-        (m.userId && m.userId.toString() === session.user.id) ||
-        (session.user.email && m.email === session.user.email)
-      ) && (m.role === 'admin' || m.role === 'creator')
-    );
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to send reminders' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VERIFY_PAYMENTS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // Find the target member
     const targetMember = pool.members.find(
@@ -102,20 +55,20 @@ export async function POST(
     }
 
     // Send reminder email
-    const transporter = getEmailTransporter();
-    if (!transporter) {
+    const emailService = getEmailService();
+    if (!emailService.isConfigured()) {
       return NextResponse.json(
         { error: 'Email service not configured' },
         { status: 500 }
       );
     }
 
-    const senderName = session.user.name || session.user.email || 'Pool Admin';
+    const senderName = user.name || user.email || 'Pool Admin';
     const appUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
     const poolUrl = `${appUrl}/pools/${poolId}`;
+    const contributionAmount = formatCurrency(pool.contributionAmount, resolveCurrency(pool.currency));
 
     const mailOptions = {
-      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
       to: targetMember.email,
       subject: `Payment Reminder - ${pool.name}`,
       html: `
@@ -128,7 +81,7 @@ export async function POST(
             <h3>Pool Details:</h3>
             <ul style="list-style: none; padding: 0;">
               <li><strong>Pool Name:</strong> ${pool.name}</li>
-              <li><strong>Contribution Amount:</strong> $${pool.contributionAmount}</li>
+              <li><strong>Contribution Amount:</strong> ${contributionAmount}</li>
               <li><strong>Frequency:</strong> ${pool.frequency}</li>
             </ul>
             ${customMessage ? `<p style="margin-top: 15px; padding-top: 15px; border-top: 1px solid #ddd;"><strong>Message from admin:</strong> ${customMessage}</p>` : ''}
@@ -153,7 +106,7 @@ ${senderName} is reminding you about your upcoming payment for the savings pool
 
 Pool Details:
 - Pool Name: ${pool.name}
-- Contribution Amount: $${pool.contributionAmount}
+- Contribution Amount: ${contributionAmount}
 - Frequency: ${pool.frequency}
 ${customMessage ? '\nMessage from admin: ' + customMessage : ''}
 
@@ -162,15 +115,19 @@ Please make sure to submit your payment on time to maintain your good standing i
 View your pool at: ${poolUrl}
 
 This is an automated reminder from Juntas Seguras.
-      `
+      `,
+      tags: ['payment-reminder'],
     };
 
     console.log(`[REMINDERS] Sending payment reminder to ${targetMember.email} for pool ${pool.name}`);
-    const result = await transporter.sendMail(mailOptions);
+    const result = await emailService.send(mailOptions);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send reminder email');
+    }
 
-    console.log(`[REMINDERS] Successfully sent reminder to ${targetMember.email}`, {
+    console.log(`[REMINDERS] Reminder to ${targetMember.email} ${result.status === 'queued' ? 'queued for retry' : 'sent'}`, {
       messageId: result.messageId,
-      response: result.response
+      queueId: result.queueId
     });
 
     return NextResponse.json({
@@ -23,15 +23,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../../types/pool';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '../../../../../../app/api/auth/[...nextauth]/options';
-import connectToDatabase from '../../../../../../lib/db/connect';
 import { DirectMessage, getSortedParticipants } from '../../../../../../lib/db/models/directMessage';
 import { Pool } from '../../../../../../lib/db/models/pool';
 import { User } from '../../../../../../lib/db/models/user';
-import { getCurrentUser } from '../../../../../../lib/auth';
 import { isValidObjectId } from '../../../../../../lib/utils/objectId';
 import mongoose from 'mongoose';
+import { requirePoolPermission } from '../../../../../../lib/pools';
 
 /**
  * GET /api/pools/[id]/members/messages?memberId=xxx
@@ -66,28 +66,13 @@ export async function GET(
       );
     }
 
-    // Get current user with proper ObjectId validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
-    const user = userResult.user;
+    const { user, pool } = access;
     const userId = user._id.toString();
 
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
-    }
-
     // The memberId might be a number (legacy) or a string ObjectId
     // For new users, it should be a valid ObjectId
     let otherUserId: string;
@@ -199,17 +184,6 @@ export async function POST(
       );
     }
 
-    // Get current user with proper ObjectId validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-    const userId = user._id.toString();
-
     // Parse and validate request body
     const body = await request.json();
     const { memberId, content } = body;
@@ -236,17 +210,12 @@ export async function POST(
       );
     }
 
-    // Connect to database
-    await connectToDatabase();
-
-    // Find pool by string UUID id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.PARTICIPATE);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
+    const userId = user._id.toString();
 
     // Resolve the recipient user ID (handle legacy numeric IDs)
     let recipientUserId: string;
@@ -301,13 +270,6 @@ export async function POST(
       senderId: newMessage.senderId.toString()
     };
 
-    // Log activity (fire and forget)
-    logActivity(userId, 'direct_message_sent', {
-      poolId,
-      messageId: newMessage._id.toString(),
-      recipientId: recipientUserId
-    }).catch(err => console.error('Activity log failed:', err));
-
     return NextResponse.json({
       success: true,
       message: formattedMessage
@@ -321,23 +283,3 @@ export async function POST(
     );
   }
 }
-
-/**
- * Helper function to log user activity
- */
-async function logActivity(userId: string, type: string, metadata: any) {
-  try {
-    const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
-    await fetch(`${baseUrl}/api/security/activity-log`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        userId,
-        type,
-        metadata
-      })
-    });
-  } catch (error) {
-    console.error('Failed to log activity:', error);
-  }
-}
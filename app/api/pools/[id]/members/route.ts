@@ -1,9 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AddMemberRequest, RemoveMemberRequest, UpdateMemberRequest, UpdatePositionsRequest, PoolMember } from '../../../../../types/pool';
-import { handleApiRequest, ApiError, findUserById } from '../../../../../lib/api';
-import connectToDatabase from '../../../../../lib/db/connect';
+import { AddMemberRequest, RemoveMemberRequest, UpdateMemberRequest, UpdatePositionsRequest, PoolMember, PayoutOrderStrategy, PoolPermission } from '../../../../../types/pool';
+import { handleApiRequest, ApiError } from '../../../../../lib/api';
 import getPoolModel from '../../../../../lib/db/models/pool';
 import { User } from '../../../../../lib/db/models/user';
+import { getPositionLockReason, logPayoutOrderChange } from '../../../../../lib/payments/payout-order';
+import { getRoundPayoutDate } from '../../../../../lib/schedule';
+import { formatAmount } from '../../../../../lib/currency';
+import {
+  applyMemberExit,
+  buildMemberExit,
+  getExitError,
+  getMemberLedgerBalance,
+  isExitTracked,
+  requirePoolPermission,
+  hasPoolPermission,
+  getRoleChangeError,
+  logRoleChange,
+} from '../../../../../lib/pools';
+import { MemberExit, PoolMemberRole } from '../../../../../types/pool';
+import { ReliabilityVisibility } from '../../../../../types/reliability';
+import { DEFAULT_RELIABILITY_VISIBILITY, getReliabilityScores, viewReliability } from '../../../../../lib/reliability';
 
 // Type for pool member from DB
 interface PoolMemberDB {
@@ -41,28 +57,49 @@ export async function GET(
       throw new ApiError('Pool ID is required', 400);
     }
     
-    await connectToDatabase();
-    const PoolModel = getPoolModel();
-    
-    // Get the pool from database
-    const pool = await PoolModel.findOne({ id: poolId });
-    
-    if (!pool) {
-      throw new ApiError('Pool not found', 404);
-    }
-    
-    // Check if the user is authorized to access this pool
-    const user = await findUserById(userId);
-    if (!user) {
-      throw new ApiError('User not found or invalid session', 401);
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      throw new ApiError(access.error.message, access.error.status);
     }
-    if (!user.pools.includes(poolId)) {
-      throw new ApiError('You are not a member of this pool', 403);
+    const { pool } = access;
+
+    const members = (pool.toObject().members || []) as (PoolMember & { userId?: { toString(): string } })[];
+
+    if (!hasPoolPermission(access.member, PoolPermission.MANAGE_MEMBERS)) {
+      return {
+        success: true,
+        members
+      };
     }
-    
+
+    // Admins see each member's reliability across pools, as far as the member allows
+    const memberUserIds = members.filter(m => m.userId).map(m => m.userId!.toString());
+    const users = await User.find({ _id: { $in: memberUserIds } }).select('email reliabilityVisibility');
+    const scores = await getReliabilityScores(
+      users.map((u: { _id: { toString(): string }; email: string }) => ({ id: u._id.toString(), email: u.email }))
+    );
+    const visibilityById = new Map<string, ReliabilityVisibility>(
+      users.map((u: { _id: { toString(): string }; reliabilityVisibility?: ReliabilityVisibility }) => [
+        u._id.toString(),
+        u.reliabilityVisibility || DEFAULT_RELIABILITY_VISIBILITY,
+      ])
+    );
+
     return {
       success: true,
-      members: pool.members || []
+      members: members.map(m => {
+        const memberUserId = m.userId?.toString();
+        const score = memberUserId ? scores.get(memberUserId) : undefined;
+        if (!memberUserId || !score) return m;
+        return {
+          ...m,
+          reliability: viewReliability(
+            score,
+            visibilityById.get(memberUserId),
+            memberUserId === userId
+          ),
+        };
+      })
     };
   }, {
     requireAuth: true,
@@ -89,31 +126,20 @@ export async function POST(
       throw new ApiError('Member name and email are required', 400);
     }
     
-    const PoolModel = getPoolModel();
-    await connectToDatabase();
-    
-    // Get the pool from database
-    const pool = await PoolModel.findOne({ id: poolId });
-    
-    if (!pool) {
-      throw new ApiError('Pool not found', 404);
-    }
-    
-    // Get user information
-    const user = await findUserById(userId);
-    if (!user) {
-      throw new ApiError('User not found or invalid session', 401);
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      throw new ApiError(access.error.message, access.error.status);
     }
+    const { pool, user } = access;
+    const PoolModel = getPoolModel();
 
-    // Check if the user is authorized to add members
-    if (!user.pools.includes(poolId)) {
-      throw new ApiError('You are not a member of this pool', 403);
-    }
-    
-    // Find the admin member in the pool
-    const adminMember = pool.members.find((member: PoolMemberDB) => member.role === 'admin');
-    if (!adminMember || adminMember.email !== user.email) {
-      throw new ApiError('Only pool administrators can add members', 403);
+    // Adding someone with a role other than member is a role change
+    const role = memberDetails.role || PoolMemberRole.MEMBER;
+    if (role !== PoolMemberRole.MEMBER) {
+      const roleError = getRoleChangeError(access.member, { id: 0, role: PoolMemberRole.MEMBER }, role);
+      if (roleError) {
+        throw new ApiError(roleError, 403);
+      }
     }
 
     // Check if the member already exists in the pool
@@ -123,7 +149,12 @@ export async function POST(
     }
 
     // Generate a unique member ID
-    const memberId = Math.max(...pool.members.map((m: PoolMemberDB) => m.id), 0) + 1;
+    // Departed members keep their ids in the ledger, so ids are never reused
+    const memberId = Math.max(
+      ...pool.members.map((m: PoolMemberDB) => m.id),
+      ...(pool.memberExits || []).map((e: MemberExit) => e.memberId),
+      0
+    ) + 1;
 
     // Determine the next available position
     const positions = pool.members.map((m: PoolMemberDB) => m.position);
@@ -132,8 +163,8 @@ export async function POST(
       nextPosition++;
     }
     
-    // Calculate payout date based on frequency and position
-    const payoutDate = calculatePayoutDate(pool.frequency, nextPosition, pool.totalRounds);
+    // The member is paid out in the round matching their position
+    const payoutDate = getRoundPayoutDate(pool, nextPosition).toISOString();
     
     // Create the new member
     const newMember = {
@@ -142,7 +173,7 @@ export async function POST(
       email: memberDetails.email,
       phone: memberDetails.phone || null,
       joinDate: new Date().toISOString(),
-      role: memberDetails.role || 'member',
+      role,
       position: memberDetails.position || nextPosition,
       status: 'upcoming',
       paymentsOnTime: 0,
@@ -177,6 +208,15 @@ export async function POST(
       }
     });
 
+    if (role !== PoolMemberRole.MEMBER) {
+      await logRoleChange(pool, { id: userId, email: user.email }, {
+        memberId: newMember.id,
+        memberName: newMember.name,
+        from: PoolMemberRole.MEMBER,
+        to: role,
+      });
+    }
+
     return {
       success: true,
       member: newMember
@@ -234,27 +274,12 @@ export async function DELETE(
       throw new ApiError('Member ID is required', 400);
     }
     
-    const PoolModel = getPoolModel();
-    await connectToDatabase();
-    
-    // Get the pool from database
-    const pool = await PoolModel.findOne({ id: poolId });
-    
-    if (!pool) {
-      throw new ApiError('Pool not found', 404);
-    }
-    
-    // Get user information
-    const user = await findUserById(userId);
-    if (!user) {
-      throw new ApiError('User not found or invalid session', 401);
-    }
-
-    // Find the admin member in the pool
-    const adminMember = pool.members.find((member: PoolMemberDB) => member.role === 'admin');
-    if (!adminMember || adminMember.email !== user.email) {
-      throw new ApiError('Only pool administrators can remove members', 403);
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+    if (access.error) {
+      throw new ApiError(access.error.message, access.error.status);
     }
+    const { pool, user } = access;
+    const PoolModel = getPoolModel();
 
     // Find the member to remove
     const memberToRemove = pool.members.find((member: PoolMemberDB) => member.id === memberId);
@@ -263,20 +288,33 @@ export async function DELETE(
     }
 
     // Check if the user is trying to remove the admin
-    if (memberToRemove.role === 'admin') {
-      throw new ApiError('You cannot remove the pool administrator', 400);
+    const exitError = getExitError(memberToRemove);
+    if (exitError) {
+      throw new ApiError(exitError, 400);
     }
 
-    // Remove the member from the pool
-    const updatedMembers = pool.members.filter((member: PoolMemberDB) => member.id !== memberId);
-
-    // Update the pool
-    await PoolModel.updateOne({ id: poolId }, {
-      $set: {
-        members: updatedMembers,
-        memberCount: updatedMembers.length
-      }
-    });
+    // Leaving a running pool records what the member owes or is owed
+    let exit: MemberExit | null = null;
+    if (isExitTracked(pool)) {
+      const balance = await getMemberLedgerBalance(poolId, memberId);
+      exit = buildMemberExit(memberToRemove, balance, {
+        recordedBy: user.name,
+        reason: request.nextUrl.searchParams.get('reason') || undefined,
+      });
+      applyMemberExit(pool, exit);
+      await pool.save();
+    } else {
+      // Remove the member from the pool
+      const updatedMembers = pool.members.filter((member: PoolMemberDB) => member.id !== memberId);
+
+      // Update the pool
+      await PoolModel.updateOne({ id: poolId }, {
+        $set: {
+          members: updatedMembers,
+          memberCount: updatedMembers.length
+        }
+      });
+    }
 
     // Remove this pool from the removed member's pools array
     if (memberToRemove.email) {
@@ -293,7 +331,7 @@ export async function DELETE(
         messages: {
           id: messageId,
           author: 'System',
-          content: `${user.name} removed ${memberToRemove.name} from the pool.`,
+          content: `${user.name} removed ${memberToRemove.name} from the pool.${describeExit(exit, pool.currency)}`,
           date: new Date().toISOString()
         }
       }
@@ -301,7 +339,8 @@ export async function DELETE(
     
     return {
       success: true,
-      message: 'Member removed successfully'
+      message: 'Member removed successfully',
+      exit
     };
   }, {
     requireAuth: true,
@@ -309,6 +348,14 @@ export async function DELETE(
   });
 }
 
+// Summary of a departure for the pool's message feed
+function describeExit(exit: MemberExit | null, currency?: string | null): string {
+  if (!exit) return '';
+  if (exit.debt) return ` They leave owing ${formatAmount(exit.debt.amount, currency)}.`;
+  if (exit.refundOwed > 0) return ` They are owed a refund of ${formatAmount(exit.refundOwed, currency)}.`;
+  return '';
+}
+
 // Helper function to handle individual member updates
 async function handleMemberUpdate(poolId: string, userId: string, body: UpdateMemberRequest) {
   const { memberId, updates } = body;
@@ -317,26 +364,12 @@ async function handleMemberUpdate(poolId: string, userId: string, body: UpdateMe
     throw new ApiError('Member ID and updates are required', 400);
   }
 
-  const PoolModel = getPoolModel();
-
-  // Get the pool from database
-  const pool = await PoolModel.findOne({ id: poolId });
-
-  if (!pool) {
-    throw new ApiError('Pool not found', 404);
-  }
-
-  // Get user information
-  const user = await findUserById(userId);
-  if (!user) {
-    throw new ApiError('User not found or invalid session', 401);
-  }
-  
-  // Find the admin member in the pool
-  const adminMember = pool.members.find((member: PoolMemberDB) => member.role === 'admin');
-  if (!adminMember || adminMember.email !== user.email) {
-    throw new ApiError('Only pool administrators can update members', 403);
+  const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_MEMBERS);
+  if (access.error) {
+    throw new ApiError(access.error.message, access.error.status);
   }
+  const { pool, user } = access;
+  const PoolModel = getPoolModel();
 
   // Find the member to update
   const memberIndex = pool.members.findIndex((member: PoolMemberDB) => member.id === memberId);
@@ -346,6 +379,13 @@ async function handleMemberUpdate(poolId: string, userId: string, body: UpdateMe
   
   // Update the member
   const member = pool.members[memberIndex];
+  const roleChanged = !!updates.role && updates.role !== member.role;
+  if (roleChanged) {
+    const roleError = getRoleChangeError(access.member, member, updates.role);
+    if (roleError) {
+      throw new ApiError(roleError, 403);
+    }
+  }
   const updatedMember = { ...member };
   
   if (updates.name) updatedMember.name = updates.name;
@@ -364,6 +404,9 @@ async function handleMemberUpdate(poolId: string, userId: string, body: UpdateMe
       throw new ApiError('Position already assigned to another member', 400);
     }
     updatedMember.position = updates.position;
+    if (!updatedMember.payoutReceived) {
+      updatedMember.payoutDate = getRoundPayoutDate(pool, updates.position).toISOString();
+    }
   }
   
   // Update the member in the pool
@@ -376,6 +419,15 @@ async function handleMemberUpdate(poolId: string, userId: string, body: UpdateMe
     } 
   });
   
+  if (roleChanged) {
+    await logRoleChange(pool, { id: userId, email: user.email }, {
+      memberId,
+      memberName: updatedMember.name,
+      from: member.role,
+      to: updatedMember.role,
+    });
+  }
+
   // Add a message to the pool if significant change
   if (updates.role || updates.position || updates.payoutReceived) {
     const messageId = Math.max(...(pool.messages?.map((m: PoolMessageDB) => m.id) || [0]), 0) + 1;
@@ -415,25 +467,16 @@ async function handlePositionUpdates(poolId: string, userId: string, body: Updat
     throw new ApiError('Position updates are required', 400);
   }
 
-  const PoolModel = getPoolModel();
-
-  // Get the pool from database
-  const pool = await PoolModel.findOne({ id: poolId });
-
-  if (!pool) {
-    throw new ApiError('Pool not found', 404);
+  const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_POOL);
+  if (access.error) {
+    throw new ApiError(access.error.message, access.error.status);
   }
+  const { pool, user } = access;
+  const PoolModel = getPoolModel();
 
-  // Get user information
-  const user = await findUserById(userId);
-  if (!user) {
-    throw new ApiError('User not found or invalid session', 401);
-  }
-  
-  // Find the admin member in the pool
-  const adminMember = pool.members.find((member: PoolMemberDB) => member.role === 'admin');
-  if (!adminMember || adminMember.email !== user.email) {
-    throw new ApiError('Only pool administrators can update member positions', 403);
+  // A drawn order stays as drawn so the published draw remains verifiable
+  if (pool.payoutOrderStrategy === PayoutOrderStrategy.RANDOM_DRAW && pool.payoutDraw?.drawnAt) {
+    throw new ApiError('The payout order was set by a random draw; members can request swaps instead', 400);
   }
 
   // Verify all member IDs exist
@@ -452,11 +495,27 @@ async function handlePositionUpdates(poolId: string, userId: string, body: Updat
     throw new ApiError('Duplicate positions are not allowed', 400);
   }
   
+  // Members who were already paid (or whose round is underway) keep their position
+  const changes: { memberId: number; from: number; to: number }[] = [];
+  for (const posUpdate of positions) {
+    const member = pool.members.find((m: PoolMemberDB) => m.id === posUpdate.memberId);
+    if (member && member.position !== posUpdate.position) {
+      const lockReason = getPositionLockReason(pool, member);
+      if (lockReason) {
+        throw new ApiError(lockReason, 400);
+      }
+      changes.push({ memberId: member.id, from: member.position, to: posUpdate.position });
+    }
+  }
+
   // Update positions
   for (const posUpdate of positions) {
     const member = pool.members.find((m: PoolMemberDB) => m.id === posUpdate.memberId);
     if (member) {
       member.position = posUpdate.position;
+      if (!member.payoutReceived) {
+        member.payoutDate = getRoundPayoutDate(pool, posUpdate.position).toISOString();
+      }
     }
   }
   
@@ -479,42 +538,11 @@ async function handlePositionUpdates(poolId: string, userId: string, body: Updat
       }
     }
   });
+
+  await logPayoutOrderChange(pool, { id: userId, email: user.email }, 'payout_order_reordered', { changes });
   
   return {
     success: true,
     message: 'Member positions updated successfully'
   };
 }
-
-// Helper function to calculate a payout date based on position
-function calculatePayoutDate(frequency: string, position: number, totalRounds: number): string {
-  const today = new Date();
-  let payoutDate: Date;
-  
-  // Calculate interval in days based on frequency
-  let intervalDays: number;
-  switch (frequency.toLowerCase()) {
-    case 'daily':
-      intervalDays = 1;
-      break;
-    case 'weekly':
-      intervalDays = 7;
-      break;
-    case 'biweekly':
-      intervalDays = 14;
-      break;
-    case 'monthly':
-      intervalDays = 30;
-      break;
-    default:
-      intervalDays = 30;
-  }
-  
-  // Calculate days until payout
-  const daysUntilPayout = intervalDays * position;
-  
-  // Calculate payout date
-  payoutDate = new Date(today.setDate(today.getDate() + daysUntilPayout));
-  
-  return payoutDate.toISOString();
-}
\ No newline at end of file
@@ -23,15 +23,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../types/pool';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '../../../../../app/api/auth/[...nextauth]/options';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { Message } from '../../../../../lib/db/models/message';
 import { Pool } from '../../../../../lib/db/models/pool';
 import { User } from '../../../../../lib/db/models/user';
-import { getCurrentUser } from '../../../../../lib/auth';
 import { isValidObjectId } from '../../../../../lib/utils/objectId';
 import mongoose from 'mongoose';
+import { hasPoolPermission, requirePoolPermission } from '../../../../../lib/pools';
 
 /**
  * GET /api/pools/[id]/messages
@@ -63,32 +63,17 @@ export async function GET(
       );
     }
 
-    // Get current user with proper ObjectId validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     // Parse pagination parameters from query string
     const url = new URL(request.url);
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '100'), 500);
     const skip = parseInt(url.searchParams.get('skip') || '0');
     const before = url.searchParams.get('before');
 
-    await connectToDatabase();
-
-    // Find pool by string UUID id to get its MongoDB _id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     // Build query - fetch non-deleted messages for this pool using pool's MongoDB _id
     const query: any = {
@@ -179,26 +164,11 @@ export async function POST(
       );
     }
 
-    // Get current user with proper ObjectId validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id to get its MongoDB _id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.PARTICIPATE);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // Get user info for sender name
     const senderName = user.name || 'Unknown User';
@@ -223,12 +193,6 @@ export async function POST(
       senderId: newMessage.senderId.toString()
     };
 
-    // Log activity (fire and forget - don't block response)
-    logActivity(user._id.toString(), 'message_sent', {
-      poolId,
-      messageId: newMessage._id.toString(),
-    }).catch(err => console.error('Activity log failed:', err));
-
     return NextResponse.json({
       success: true,
       message: formattedMessage
@@ -277,26 +241,11 @@ export async function DELETE(
       );
     }
 
-    // Get current user with proper ObjectId validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
-    await connectToDatabase();
-
-    // Find pool by string UUID id to get its MongoDB _id
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool, member } = access;
 
     const userId = user._id.toString();
 
@@ -337,8 +286,8 @@ export async function DELETE(
       );
     }
 
-    // Verify the user is the message author
-    if (message.senderId.toString() !== userId) {
+    // Authors can delete their own messages; admins and moderators can remove any
+    if (message.senderId.toString() !== userId && !hasPoolPermission(member, PoolPermission.MODERATE_DISCUSSIONS)) {
       return NextResponse.json(
         { error: 'You can only delete your own messages' },
         { status: 403 }
@@ -349,12 +298,6 @@ export async function DELETE(
     message.deleted = true;
     await message.save();
 
-    // Log activity
-    logActivity(userId, 'message_deleted', {
-      poolId,
-      messageId: message._id.toString(),
-    }).catch(err => console.error('Activity log failed:', err));
-
     return NextResponse.json({ success: true });
 
   } catch (error) {
@@ -365,25 +308,3 @@ export async function DELETE(
     );
   }
 }
-
-/**
- * Helper function to log user activity
- * This is a fire-and-forget operation - errors are logged but don't affect the response
- */
-async function logActivity(userId: string, type: string, metadata: any) {
-  try {
-    // Use absolute URL for server-side fetch
-    const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
-    await fetch(`${baseUrl}/api/security/activity-log`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        userId,
-        type,
-        metadata
-      })
-    });
-  } catch (error) {
-    console.error('Failed to log activity:', error);
-  }
-}
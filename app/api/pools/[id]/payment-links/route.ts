@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import connectToDatabase from '../../../../../lib/db/connect';
-import { Pool } from '../../../../../lib/db/models/pool';
+import { PoolPermission } from '../../../../../types/pool';
 import {
   generatePayoutLink,
   PayoutMethodType,
 } from '../../../../../lib/payments/deep-links';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { getPotAmount, resolveCurrency } from '../../../../../lib/currency';
+import { formatCurrency } from '../../../../../lib/i18n';
+import { isPoolAdmin, requirePoolPermission } from '../../../../../lib/pools';
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -26,42 +27,19 @@ interface GeneratedLinks {
  */
 export async function GET(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
     const { searchParams } = new URL(request.url);
     const linkType = searchParams.get('type') || 'pay_admin';
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool, member } = access;
 
     const currentRound = pool.currentRound || 1;
     const amount = pool.contributionAmount;
+    const currency = resolveCurrency(pool.currency);
 
     if (linkType === 'pay_admin') {
       // Generate links for contributor to pay admin
@@ -74,25 +52,23 @@ export async function GET(request: NextRequest, { params }: Params) {
       }
 
       // Find admin member
-      const admin = pool.members.find(
-        (m: any) => m.role === 'admin' || m.role === 'creator'
-      );
+      const admin = pool.members.find((m: any) => isPoolAdmin(m));
       const adminName = admin?.name || 'Admin';
 
       const note = `${pool.name} - Round ${currentRound} Contribution`;
 
       const links: GeneratedLinks = {
         venmo: adminMethods.venmo
-          ? generatePayoutLink('venmo', { recipientHandle: adminMethods.venmo, amount, note })
+          ? generatePayoutLink('venmo', { recipientHandle: adminMethods.venmo, amount, note, currency })
           : null,
         cashapp: adminMethods.cashapp
-          ? generatePayoutLink('cashapp', { recipientHandle: adminMethods.cashapp, amount, note })
+          ? generatePayoutLink('cashapp', { recipientHandle: adminMethods.cashapp, amount, note, currency })
           : null,
         paypal: adminMethods.paypal
-          ? generatePayoutLink('paypal', { recipientHandle: adminMethods.paypal, amount, note })
+          ? generatePayoutLink('paypal', { recipientHandle: adminMethods.paypal, amount, note, currency })
           : null,
         zelle: adminMethods.zelle
-          ? { identifier: adminMethods.zelle, copyText: `Send $${amount} to ${adminMethods.zelle} for ${note}` }
+          ? { identifier: adminMethods.zelle, copyText: `Send ${formatCurrency(amount, 'en', currency)} to ${adminMethods.zelle} for ${note}` }
           : null,
       };
 
@@ -100,6 +76,7 @@ export async function GET(request: NextRequest, { params }: Params) {
         links,
         adminName,
         amount,
+        currency,
         note,
         preferredMethod: adminMethods.preferred,
       });
@@ -122,21 +99,21 @@ export async function GET(request: NextRequest, { params }: Params) {
         });
       }
 
-      const potAmount = pool.contributionAmount * pool.members.length;
+      const potAmount = getPotAmount(pool, pool.members.length);
       const note = `${pool.name} - Round ${currentRound} Payout`;
 
       const links: GeneratedLinks = {
         venmo: winnerMethods.venmo
-          ? generatePayoutLink('venmo', { recipientHandle: winnerMethods.venmo, amount: potAmount, note })
+          ? generatePayoutLink('venmo', { recipientHandle: winnerMethods.venmo, amount: potAmount, note, currency })
           : null,
         cashapp: winnerMethods.cashapp
-          ? generatePayoutLink('cashapp', { recipientHandle: winnerMethods.cashapp, amount: potAmount, note })
+          ? generatePayoutLink('cashapp', { recipientHandle: winnerMethods.cashapp, amount: potAmount, note, currency })
           : null,
         paypal: winnerMethods.paypal
-          ? generatePayoutLink('paypal', { recipientHandle: winnerMethods.paypal, amount: potAmount, note })
+          ? generatePayoutLink('paypal', { recipientHandle: winnerMethods.paypal, amount: potAmount, note, currency })
           : null,
         zelle: winnerMethods.zelle
-          ? { identifier: winnerMethods.zelle, copyText: `Send $${potAmount} to ${winnerMethods.zelle} for ${note}` }
+          ? { identifier: winnerMethods.zelle, copyText: `Send ${formatCurrency(potAmount, 'en', currency)} to ${winnerMethods.zelle} for ${note}` }
           : null,
       };
 
@@ -145,6 +122,7 @@ export async function GET(request: NextRequest, { params }: Params) {
         winnerName: winner.name,
         winnerEmail: winner.email,
         amount: potAmount,
+        currency,
         note,
         preferredMethod: winnerMethods.preferred,
       });
@@ -0,0 +1,321 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../lib/db/models/pool';
+import {
+  PoolMember,
+  PayoutBid,
+  PayoutDraw,
+  PayoutOrderStrategy,
+  PayoutSwapRequest,
+  PoolPermission,
+} from '../../../../../types/pool';
+import { formatAmount, getPotAmount } from '../../../../../lib/currency';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { getPermissionError, hasPoolPermission, requirePoolPermission } from '../../../../../lib/pools';
+import {
+  getPositionLockReason,
+  getRoundRecipient,
+  hasReceivedPayout,
+  logPayoutOrderChange,
+  resolveWinningBid,
+  runPayoutDraw,
+  swapMemberPositions,
+  verifyPayoutDraw,
+} from '../../../../../lib/payments/payout-order';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+type PayoutOrderAction = 'draw' | 'bid' | 'resolve_bids';
+
+async function addSystemMessage(pool: any, content: string) {
+  const messageId = Math.max(...(pool.messages?.map((m: { id: number }) => m.id) || [0]), 0) + 1;
+  await Pool.updateOne(
+    { id: pool.id },
+    {
+      $push: {
+        messages: {
+          id: messageId,
+          author: 'System',
+          content,
+          date: new Date().toISOString(),
+        },
+      },
+    }
+  );
+}
+
+/**
+ * GET /api/pools/[id]/payout-order
+ * Get the payout order, strategy, draw record, bids, and swap requests
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VIEW, { select: '+payoutDraw.seed' });
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool, member } = access;
+    const isAdmin = hasPoolPermission(member, PoolPermission.MANAGE_POOL);
+
+    const strategy: PayoutOrderStrategy = pool.payoutOrderStrategy || PayoutOrderStrategy.FIXED;
+    const currentRound = pool.currentRound || 1;
+
+    const order = [...pool.members]
+      .sort((a: PoolMember, b: PoolMember) => a.position - b.position)
+      .map((m: PoolMember) => ({
+        memberId: m.id,
+        name: m.name,
+        position: m.position,
+        payoutReceived: hasReceivedPayout(m),
+      }));
+
+    // The seed is only revealed once the draw has run
+    let draw: (PayoutDraw & { verified?: boolean }) | null = null;
+    if (pool.payoutDraw?.seedHash) {
+      const isDrawn = !!pool.payoutDraw.drawnAt;
+      draw = {
+        seedHash: pool.payoutDraw.seedHash,
+        drawnAt: pool.payoutDraw.drawnAt,
+        drawnBy: pool.payoutDraw.drawnBy?.toString(),
+        ...(isDrawn && {
+          seed: pool.payoutDraw.seed,
+          memberIds: pool.payoutDraw.memberIds,
+          order: pool.payoutDraw.order,
+        }),
+      };
+      if (isDrawn) {
+        draw.verified = verifyPayoutDraw(draw);
+      }
+    }
+
+    // Bids stay sealed until resolved: members only see their own
+    const roundBids: PayoutBid[] = (pool.payoutBids || []).filter((b: PayoutBid) => b.round === currentRound);
+    const winningBid = roundBids.find(b => b.won) || null;
+    const bids = isAdmin || winningBid
+      ? roundBids
+      : roundBids.filter(b => b.memberId === member.id);
+
+    const swaps: PayoutSwapRequest[] = (pool.payoutSwapRequests || []).filter(
+      (s: PayoutSwapRequest) => isAdmin || s.requesterId === member.id || s.targetId === member.id
+    );
+
+    return successResponse({
+      strategy,
+      currentRound,
+      currentRecipientId: getRoundRecipient<PoolMember>(pool.members, currentRound)?.id ?? null,
+      order,
+      draw,
+      bids,
+      bidCount: roundBids.length,
+      winningBid,
+      swaps,
+    });
+  } catch (error) {
+    console.error('Error fetching payout order:', error);
+    return ApiErrors.internalError('Failed to fetch payout order');
+  }
+}
+
+/**
+ * POST /api/pools/[id]/payout-order
+ * Run a payout-order action
+ *
+ * Body:
+ * - action: 'draw' (admin) - reveal the seed and assign positions by draw
+ * - action: 'bid', discountAmount - place or update a bid for the current round
+ * - action: 'resolve_bids' (admin) - give the current round to the winning bid
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as PayoutOrderAction;
+
+    const access = await requirePoolPermission(id, PoolPermission.VIEW, { select: '+payoutDraw.seed' });
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool, member } = access;
+
+    const strategy: PayoutOrderStrategy = pool.payoutOrderStrategy || PayoutOrderStrategy.FIXED;
+    const currentRound = pool.currentRound || 1;
+    const actor = { id: user._id.toString(), email: user.email };
+
+    switch (action) {
+      case 'draw': {
+        if (!hasPoolPermission(member, PoolPermission.MANAGE_POOL)) {
+          return ApiErrors.forbidden(getPermissionError(PoolPermission.MANAGE_POOL));
+        }
+        if (strategy !== PayoutOrderStrategy.RANDOM_DRAW) {
+          return ApiErrors.badRequest('This pool does not use a random draw');
+        }
+        if (!pool.payoutDraw?.seed) {
+          return ApiErrors.badRequest('No draw commitment found for this pool');
+        }
+        if (pool.payoutDraw.drawnAt) {
+          return ApiErrors.badRequest('The payout order has already been drawn');
+        }
+        const payoutStarted = pool.members.some((m: PoolMember) => hasReceivedPayout(m))
+          || currentRound > 1
+          || pool.currentRoundPayoutStatus === 'paid';
+        if (payoutStarted) {
+          return ApiErrors.badRequest('The draw must run before the first payout');
+        }
+
+        const { memberIds, order } = runPayoutDraw(
+          pool.members.map((m: PoolMember) => m.id),
+          pool.payoutDraw.seed
+        );
+        order.forEach((memberId, index) => {
+          const drawnMember = pool.members.find((m: PoolMember) => m.id === memberId);
+          if (drawnMember) {
+            drawnMember.position = index + 1;
+          }
+        });
+
+        const drawnAt = new Date().toISOString();
+        await Pool.updateOne(
+          { id: pool.id },
+          {
+            $set: {
+              members: pool.members,
+              'payoutDraw.drawnAt': drawnAt,
+              'payoutDraw.drawnBy': user._id,
+              'payoutDraw.memberIds': memberIds,
+              'payoutDraw.order': order,
+            },
+          }
+        );
+
+        await addSystemMessage(
+          pool,
+          `${user.name} ran the payout draw. Seed ${pool.payoutDraw.seed} (hash ${pool.payoutDraw.seedHash}) can be used to verify the order.`
+        );
+        await logPayoutOrderChange(pool, actor, 'payout_order_drawn', {
+          seedHash: pool.payoutDraw.seedHash,
+          seed: pool.payoutDraw.seed,
+          memberIds,
+          order,
+        });
+
+        return successResponse(
+          { order, seed: pool.payoutDraw.seed, seedHash: pool.payoutDraw.seedHash, drawnAt },
+          { message: 'Payout order drawn' }
+        );
+      }
+
+      case 'bid': {
+        if (!hasPoolPermission(member, PoolPermission.PARTICIPATE)) {
+          return ApiErrors.forbidden(getPermissionError(PoolPermission.PARTICIPATE));
+        }
+        if (strategy !== PayoutOrderStrategy.BIDDING) {
+          return ApiErrors.badRequest('This pool does not use bidding');
+        }
+        const discountAmount = Number(body.discountAmount);
+        const potAmount = getPotAmount(pool, pool.members.length);
+        if (!Number.isFinite(discountAmount) || discountAmount < 0 || discountAmount >= potAmount) {
+          return ApiErrors.badRequest(`Discount must be between 0 and ${formatAmount(potAmount, pool.currency)}`);
+        }
+        const lockReason = getPositionLockReason(pool, member);
+        if (lockReason) {
+          return ApiErrors.badRequest(lockReason);
+        }
+        if ((pool.payoutBids || []).some((b: PayoutBid) => b.round === currentRound && b.won)) {
+          return ApiErrors.badRequest('Bidding for this round has closed');
+        }
+
+        const bid: PayoutBid = {
+          round: currentRound,
+          memberId: member.id,
+          memberName: member.name,
+          discountAmount,
+          createdAt: new Date().toISOString(),
+        };
+
+        // One bid per member per round: replace any earlier bid
+        await Pool.updateOne(
+          { id: pool.id },
+          { $pull: { payoutBids: { round: currentRound, memberId: member.id } } }
+        );
+        await Pool.updateOne({ id: pool.id }, { $push: { payoutBids: bid } });
+
+        return successResponse({ bid }, { message: 'Bid placed' });
+      }
+
+      case 'resolve_bids': {
+        if (!hasPoolPermission(member, PoolPermission.MANAGE_POOL)) {
+          return ApiErrors.forbidden(getPermissionError(PoolPermission.MANAGE_POOL));
+        }
+        if (strategy !== PayoutOrderStrategy.BIDDING) {
+          return ApiErrors.badRequest('This pool does not use bidding');
+        }
+        const bids: PayoutBid[] = (pool.payoutBids || []).map((b: any) => b.toObject());
+        if (bids.some(b => b.round === currentRound && b.won)) {
+          return ApiErrors.badRequest('Bids for this round have already been resolved');
+        }
+
+        const scheduled = getRoundRecipient<PoolMember>(pool.members, currentRound) as PoolMember | undefined;
+        if (!scheduled) {
+          return ApiErrors.badRequest('Could not find recipient for current round');
+        }
+        const scheduledLock = getPositionLockReason(pool, scheduled);
+        if (scheduledLock) {
+          return ApiErrors.badRequest(scheduledLock);
+        }
+
+        // Bids from members who can no longer move are ignored
+        const eligibleBids = bids.filter(b => {
+          const bidder = pool.members.find((m: PoolMember) => m.id === b.memberId);
+          return bidder && !getPositionLockReason(pool, bidder);
+        });
+        const winningBid = resolveWinningBid(eligibleBids, currentRound);
+        if (!winningBid) {
+          return successResponse({ winningBid: null, recipientId: scheduled.id }, { message: 'No bids were placed' });
+        }
+
+        const winner = pool.members.find((m: PoolMember) => m.id === winningBid.memberId);
+        const previousPosition = winner.position;
+        if (winner.id !== scheduled.id) {
+          swapMemberPositions(winner, scheduled);
+        }
+
+        const updatedBids = bids.map(b => ({
+          ...b,
+          won: b.round === currentRound && b.memberId === winningBid.memberId,
+        }));
+
+        await Pool.updateOne(
+          { id: pool.id },
+          { $set: { members: pool.members, payoutBids: updatedBids } }
+        );
+
+        await addSystemMessage(
+          pool,
+          `${winner.name} won round ${currentRound} with a ${formatAmount(winningBid.discountAmount, pool.currency)} discount bid.`
+        );
+        await logPayoutOrderChange(pool, actor, 'payout_bid_resolved', {
+          round: currentRound,
+          winnerId: winner.id,
+          winnerName: winner.name,
+          discountAmount: winningBid.discountAmount,
+          fromPosition: previousPosition,
+          displacedMemberId: scheduled.id,
+          bidCount: bids.filter(b => b.round === currentRound).length,
+        });
+
+        return successResponse(
+          { winningBid: { ...winningBid, won: true }, recipientId: winner.id },
+          { message: 'Bids resolved' }
+        );
+      }
+
+      default:
+        return ApiErrors.badRequest('Invalid action');
+    }
+  } catch (error) {
+    console.error('Error updating payout order:', error);
+    return ApiErrors.internalError('Failed to update payout order');
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../../../lib/db/models/pool';
+import { PoolPermission, PoolMember, PayoutSwapRequest, PayoutSwapStatus } from '../../../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../../lib/api';
+import { createNotification } from '../../../../../../../lib/services/notifications';
+import {
+  logPayoutOrderChange,
+  swapMemberPositions,
+  validatePositionSwap,
+} from '../../../../../../../lib/payments/payout-order';
+import { hasPoolPermission, requirePoolPermission } from '../../../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string; swapId: string }>;
+}
+
+type SwapAction = 'approve' | 'reject' | 'cancel';
+
+/**
+ * PATCH /api/pools/[id]/payout-order/swaps/[swapId]
+ * Respond to a payout position swap request
+ *
+ * Body:
+ * - action: 'approve' (target member) - swap positions
+ * - action: 'reject' (target member or pool admin)
+ * - action: 'cancel' (requesting member)
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { id, swapId } = await params;
+    const body = await request.json();
+    const action = body.action as SwapAction;
+
+    if (!['approve', 'reject', 'cancel'].includes(action)) {
+      return ApiErrors.badRequest('Invalid action');
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.PARTICIPATE);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool, member } = access;
+
+    const isAdmin = hasPoolPermission(member, PoolPermission.MANAGE_POOL);
+
+    const swaps: PayoutSwapRequest[] = pool.payoutSwapRequests || [];
+    const swapIndex = swaps.findIndex(s => s.id === swapId);
+    if (swapIndex === -1) {
+      return ApiErrors.notFound('Swap request');
+    }
+    const swap = swaps[swapIndex];
+
+    if (swap.status !== PayoutSwapStatus.PENDING) {
+      return ApiErrors.badRequest(`Swap request is already ${swap.status}`);
+    }
+
+    const isRequester = swap.requesterId === member.id;
+    const isTarget = swap.targetId === member.id;
+
+    if (action === 'approve' && !isTarget) {
+      return ApiErrors.forbidden('Only the requested member can approve this swap');
+    }
+    if (action === 'reject' && !isTarget && !isAdmin) {
+      return ApiErrors.forbidden('Only the requested member or a pool admin can reject this swap');
+    }
+    if (action === 'cancel' && !isRequester) {
+      return ApiErrors.forbidden('Only the requesting member can cancel this swap');
+    }
+
+    const requester = pool.members.find((m: PoolMember) => m.id === swap.requesterId);
+    const target = pool.members.find((m: PoolMember) => m.id === swap.targetId);
+    const now = new Date().toISOString();
+    const actor = { id: user._id.toString(), email: user.email };
+    const status = action === 'approve' ? PayoutSwapStatus.APPROVED
+      : action === 'reject' ? PayoutSwapStatus.REJECTED
+      : PayoutSwapStatus.CANCELLED;
+
+    if (action === 'approve') {
+      if (!requester || !target) {
+        return ApiErrors.badRequest('One of the members is no longer in this pool');
+      }
+      // Positions may have moved since the request was made
+      if (requester.position !== swap.requesterPosition || target.position !== swap.targetPosition) {
+        return ApiErrors.badRequest('Payout positions have changed since this swap was requested');
+      }
+      const swapError = validatePositionSwap(pool, requester, target);
+      if (swapError) {
+        return ApiErrors.badRequest(swapError);
+      }
+
+      swapMemberPositions(requester, target);
+
+      await Pool.updateOne(
+        { id: pool.id },
+        {
+          $set: {
+            members: pool.members,
+            [`payoutSwapRequests.${swapIndex}.status`]: status,
+            [`payoutSwapRequests.${swapIndex}.respondedAt`]: now,
+            [`payoutSwapRequests.${swapIndex}.respondedBy`]: member.id,
+          },
+        }
+      );
+
+      const messageId = Math.max(...(pool.messages?.map((m: { id: number }) => m.id) || [0]), 0) + 1;
+      await Pool.updateOne(
+        { id: pool.id },
+        {
+          $push: {
+            messages: {
+              id: messageId,
+              author: 'System',
+              content: `${requester.name} and ${target.name} swapped payout positions (${swap.requesterPosition} and ${swap.targetPosition}).`,
+              date: now,
+            },
+          },
+        }
+      );
+    } else {
+      await Pool.updateOne(
+        { id: pool.id },
+        {
+          $set: {
+            [`payoutSwapRequests.${swapIndex}.status`]: status,
+            [`payoutSwapRequests.${swapIndex}.respondedAt`]: now,
+            [`payoutSwapRequests.${swapIndex}.respondedBy`]: member.id,
+          },
+        }
+      );
+    }
+
+    await logPayoutOrderChange(pool, actor, `payout_swap_${status}`, {
+      swapId: swap.id,
+      requesterId: swap.requesterId,
+      requesterPosition: swap.requesterPosition,
+      targetId: swap.targetId,
+      targetPosition: swap.targetPosition,
+      respondedBy: member.id,
+    });
+
+    // Let the requester know how their request went
+    if (action !== 'cancel' && requester?.userId) {
+      try {
+        await createNotification({
+          userId: requester.userId.toString(),
+          message: `Your payout position swap with ${swap.targetName || 'another member'} in ${pool.name} was ${status}.`,
+          type: 'pool',
+        });
+      } catch (notifyError) {
+        console.error('Failed to notify swap requester:', notifyError);
+      }
+    }
+
+    return successResponse({ swapId: swap.id, status, respondedAt: now }, { message: `Swap ${status}` });
+  } catch (error) {
+    console.error('Error responding to payout swap:', error);
+    return ApiErrors.internalError('Failed to update payout swap');
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { Pool } from '../../../../../../lib/db/models/pool';
+import { PoolPermission, PoolMember, PayoutSwapRequest, PayoutSwapStatus } from '../../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../lib/api';
+import { createNotification } from '../../../../../../lib/services/notifications';
+import {
+  hasPendingSwap,
+  logPayoutOrderChange,
+  validatePositionSwap,
+} from '../../../../../../lib/payments/payout-order';
+import { requirePoolPermission } from '../../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/pools/[id]/payout-order/swaps
+ * Request a payout position swap with another member
+ *
+ * Body:
+ * - targetMemberId: member to swap positions with
+ * - reason: optional explanation shown to the other member
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const targetMemberId = Number(body.targetMemberId);
+    const reason = typeof body.reason === 'string' ? body.reason.trim().slice(0, 500) : undefined;
+
+    if (!Number.isInteger(targetMemberId)) {
+      return ApiErrors.badRequest('Target member is required');
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.PARTICIPATE);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool, member: requester } = access;
+
+    const target = pool.members.find((m: PoolMember) => m.id === targetMemberId);
+    if (!target) {
+      return ApiErrors.notFound('Member');
+    }
+
+    const swapError = validatePositionSwap(pool, requester, target);
+    if (swapError) {
+      return ApiErrors.badRequest(swapError);
+    }
+
+    const swaps: PayoutSwapRequest[] = pool.payoutSwapRequests || [];
+    if (hasPendingSwap(swaps, requester.id) || hasPendingSwap(swaps, target.id)) {
+      return ApiErrors.badRequest('A swap involving one of these members is already pending');
+    }
+
+    const swap: PayoutSwapRequest = {
+      id: uuidv4(),
+      requesterId: requester.id,
+      requesterName: requester.name,
+      requesterPosition: requester.position,
+      targetId: target.id,
+      targetName: target.name,
+      targetPosition: target.position,
+      reason,
+      status: PayoutSwapStatus.PENDING,
+      createdAt: new Date().toISOString(),
+    };
+
+    await Pool.updateOne({ id: pool.id }, { $push: { payoutSwapRequests: swap } });
+
+    await logPayoutOrderChange(pool, { id: user._id.toString(), email: user.email }, 'payout_swap_requested', {
+      swapId: swap.id,
+      requesterId: requester.id,
+      requesterPosition: requester.position,
+      targetId: target.id,
+      targetPosition: target.position,
+      reason,
+    });
+
+    if (target.userId) {
+      try {
+        await createNotification({
+          userId: target.userId.toString(),
+          message: `${requester.name} asked to swap payout positions with you in ${pool.name} (position ${requester.position} for your position ${target.position}).`,
+          type: 'pool',
+          isImportant: true,
+        });
+      } catch (notifyError) {
+        console.error('Failed to notify swap target:', notifyError);
+      }
+    }
+
+    return successResponse({ swap }, { message: 'Swap requested' });
+  } catch (error) {
+    console.error('Error requesting payout swap:', error);
+    return ApiErrors.internalError('Failed to request payout swap');
+  }
+}
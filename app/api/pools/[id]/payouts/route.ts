@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import mongoose from 'mongoose';
-import { authOptions } from '../../../auth/[...nextauth]/options';
 import { TransactionStatus, TransactionType } from '../../../../../types/payment';
-import { PoolMemberStatus, PoolMemberRole, PoolMember } from '../../../../../types/pool';
-import connectToDatabase from '../../../../../lib/db/connect';
+import { PoolMemberStatus, PoolMember, PoolPermission, PoolStatus } from '../../../../../types/pool';
 import { getPoolModel } from '../../../../../lib/db/models/pool';
 import { User } from '../../../../../lib/db/models/user';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { archiveRound } from '../../../../../lib/payments/rounds';
+import { getWinningDiscount } from '../../../../../lib/payments/payout-order';
+import { formatAmount, getPotAmount } from '../../../../../lib/currency';
+import { recordPayout, LedgerSource } from '../../../../../lib/ledger';
+import { getRoundPayoutDate } from '../../../../../lib/schedule';
+import {
+  getCurrentCycleTransactions,
+  getNextCycleError,
+  getTierSafeguards,
+  getPayoutSafeguardError,
+  requirePoolPermission,
+} from '../../../../../lib/pools';
 import { createNotification, notifyPoolMembers, NotificationTemplates } from '../../../../../lib/services/notifications';
 
 const Pool = getPoolModel();
@@ -40,17 +48,11 @@ export async function POST(
       );
     }
 
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_PAYOUTS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
-    const requestingUser = userResult.user;
-
-    await connectToDatabase();
+    const requestingUser = access.user;
 
     // Use transaction to prevent race conditions
     let result: {
@@ -69,15 +71,6 @@ export async function POST(
         throw new Error('POOL_NOT_FOUND');
       }
 
-      // Check if user is admin
-      const userMembership = pool.members.find(
-        (member: any) => member.email === requestingUser.email
-      );
-
-      if (!userMembership || userMembership.role !== PoolMemberRole.ADMIN) {
-        throw new Error('UNAUTHORIZED');
-      }
-
       const currentRound = pool.currentRound;
 
       // Find the member who should receive the payout (position matches current round)
@@ -89,6 +82,20 @@ export async function POST(
         throw new Error('NO_RECIPIENT');
       }
 
+      // Larger tiers: a verified recipient, escrow, and a co-signing admin
+      const recipientUser = getTierSafeguards(pool).identityVerification
+        ? await User.findOne(
+            payoutRecipient.userId ? { _id: payoutRecipient.userId } : { email: payoutRecipient.email?.toLowerCase() }
+          ).select('identityVerified')
+        : null;
+      const safeguardError = getPayoutSafeguardError(pool, {
+        userId: requestingUser._id.toString(),
+        recipientVerified: !!recipientUser?.identityVerified,
+      });
+      if (safeguardError) {
+        throw new Error(`PAYOUT_SAFEGUARD:${safeguardError}`);
+      }
+
       // CRITICAL: Double-check this round has not been paid out
       // This is verified within the transaction to prevent race conditions
       if (payoutRecipient.payoutReceived) {
@@ -96,7 +103,7 @@ export async function POST(
       }
 
       // Also check for existing payout transaction for this round
-      const existingPayout = pool.transactions.find(
+      const existingPayout = getCurrentCycleTransactions(pool.transactions).find(
         (t: any) =>
           t.type === TransactionType.PAYOUT &&
           t.round === currentRound &&
@@ -113,7 +120,7 @@ export async function POST(
 
       for (const member of pool.members) {
         // No exclusion - all members including recipient must contribute
-        const hasContributed = pool.transactions.some(
+        const hasContributed = getCurrentCycleTransactions(pool.transactions).some(
           (t: any) =>
             t.member === member.name &&
             t.type === TransactionType.CONTRIBUTION &&
@@ -131,7 +138,7 @@ export async function POST(
       }
 
       // Calculate payout amount based on actual contributions received
-      const contributionsForRound = pool.transactions.filter(
+      const contributionsForRound = getCurrentCycleTransactions(pool.transactions).filter(
         (t: any) =>
           t.type === TransactionType.CONTRIBUTION &&
           t.round === currentRound &&
@@ -145,7 +152,7 @@ export async function POST(
 
       // UNIVERSAL CONTRIBUTION MODEL: All members contribute, so payout = contribution × memberCount
       // Expected payout (for verification)
-      const expectedPayoutAmount = pool.contributionAmount * pool.members.length;
+      const expectedPayoutAmount = getPotAmount(pool, pool.members.length, getWinningDiscount(pool, currentRound));
 
       // Use the lesser of actual vs expected to prevent overpaying
       const payoutAmount = Math.min(actualContributionTotal, expectedPayoutAmount);
@@ -253,23 +260,25 @@ export async function POST(
       );
     }
 
+    // Reconciliation backfills the entry if this fails
+    try {
+      await recordPayout(updateResult, payoutRecipient.id, payoutAmount, {
+        source: LedgerSource.POOL_TRANSACTION,
+        sourceRef: String(transactionId),
+        round: currentRound,
+        createdBy: requestingUser._id,
+      });
+    } catch (error) {
+      console.error('Error recording payout in ledger:', error);
+    }
+
+    // Archive the round (including the completed payout) before advancing
+    await archiveRound(updateResult, { roundNumber: currentRound, closedBy: requestingUser._id });
+
     // Advance to the next round if not final
     if (currentRound < pool.totalRounds) {
-      // Calculate next payout date
-      const nextPayoutDate = new Date();
-      switch (pool.frequency.toLowerCase()) {
-        case 'weekly':
-          nextPayoutDate.setDate(nextPayoutDate.getDate() + 7);
-          break;
-        case 'biweekly':
-          nextPayoutDate.setDate(nextPayoutDate.getDate() + 14);
-          break;
-        case 'monthly':
-          nextPayoutDate.setMonth(nextPayoutDate.getMonth() + 1);
-          break;
-        default:
-          nextPayoutDate.setDate(nextPayoutDate.getDate() + 7);
-      }
+      // The next date comes from the schedule, not from when this payout happened
+      const nextPayoutDate = getRoundPayoutDate(pool, currentRound + 1);
 
       // Find next recipient index
       const nextRecipientIndex = pool.members.findIndex(
@@ -282,6 +291,15 @@ export async function POST(
           $set: {
             currentRound: currentRound + 1,
             nextPayoutDate: nextPayoutDate.toISOString(),
+            currentRoundPayoutStatus: 'pending_collection',
+            currentRoundPayments: [],
+            currentRoundPayoutCompletedAt: null,
+            currentRoundPayoutMethod: null,
+            currentRoundPayoutNotes: null,
+            currentRoundPayoutConfirmedBy: null,
+            currentRoundReadyAt: null,
+            currentRoundPayoutApprovedBy: null,
+            currentRoundPayoutApprovedAt: null,
             ...(nextRecipientIndex !== -1 && {
               [`members.${nextRecipientIndex}.status`]: PoolMemberStatus.CURRENT
             })
@@ -312,7 +330,7 @@ export async function POST(
           messages: {
             id: messageId,
             author: 'System',
-            content: `Payout of $${payoutAmount} has been marked as sent to ${payoutRecipient.name}${payoutMethodDesc} (Round ${currentRound}).`,
+            content: `Payout of ${formatAmount(payoutAmount, pool.currency)} has been marked as sent to ${payoutRecipient.name}${payoutMethodDesc} (Round ${currentRound}).`,
             date: new Date().toISOString()
           }
         }
@@ -324,7 +342,7 @@ export async function POST(
     if (payoutRecipient.email) {
       await createNotification({
         userId: payoutRecipient.email,
-        message: NotificationTemplates.payoutReceived(pool.name, payoutAmount),
+        message: NotificationTemplates.payoutReceived(pool.name, payoutAmount, pool.currency),
         type: 'transaction',
         isImportant: true,
       });
@@ -335,7 +353,7 @@ export async function POST(
     await notifyPoolMembers(
       pool.id,
       memberEmails,
-      NotificationTemplates.payoutProcessed(pool.name, payoutRecipient.name, payoutAmount),
+      NotificationTemplates.payoutProcessed(pool.name, payoutRecipient.name, payoutAmount, pool.currency),
       'pool',
       payoutRecipient.email // Exclude the recipient since they got a special notification
     );
@@ -371,10 +389,14 @@ export async function POST(
         payoutMethod: recipientPayoutMethod
       },
       message: recipientPayoutMethod
-        ? `Payout of $${payoutAmount} marked as sent to ${payoutRecipient.name} via ${recipientPayoutMethod.type}`
-        : `Payout of $${payoutAmount} marked as sent to ${payoutRecipient.name}`,
+        ? `Payout of ${formatAmount(payoutAmount, pool.currency)} marked as sent to ${payoutRecipient.name} via ${recipientPayoutMethod.type}`
+        : `Payout of ${formatAmount(payoutAmount, pool.currency)} marked as sent to ${payoutRecipient.name}`,
       nextRound: currentRound < pool.totalRounds ? currentRound + 1 : currentRound,
-      isComplete: currentRound >= pool.totalRounds
+      isComplete: currentRound >= pool.totalRounds,
+      // Admins can open enrollment for another cycle once this one completes
+      canStartNextCycle:
+        currentRound >= pool.totalRounds &&
+        !getNextCycleError({ status: PoolStatus.COMPLETED, currentCycle: pool.currentCycle, totalCycles: pool.totalCycles })
     });
 
   } catch (error: any) {
@@ -388,13 +410,6 @@ export async function POST(
       );
     }
 
-    if (error.message === 'UNAUTHORIZED') {
-      return NextResponse.json(
-        { error: 'Only pool administrators can process payouts' },
-        { status: 403 }
-      );
-    }
-
     if (error.message === 'NO_RECIPIENT') {
       return NextResponse.json(
         { error: 'No eligible recipient found for the current round' },
@@ -417,6 +432,13 @@ export async function POST(
       );
     }
 
+    if (error.message?.startsWith('PAYOUT_SAFEGUARD:')) {
+      return NextResponse.json(
+        { error: error.message.replace('PAYOUT_SAFEGUARD:', '') },
+        { status: 400 }
+      );
+    }
+
     if (error.message === 'INVALID_AMOUNT') {
       return NextResponse.json(
         { error: 'Invalid payout amount calculated' },
@@ -453,14 +475,6 @@ export async function GET(
 ) {
   try {
     const { id: poolId } = await params;
-    const authSession = await getServerSession(authOptions);
-
-    if (!authSession?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
 
     if (!poolId) {
       return NextResponse.json(
@@ -469,15 +483,11 @@ export async function GET(
       );
     }
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({ id: poolId });
-    if (!pool) {
-      return NextResponse.json(
-        { error: 'Pool not found' },
-        { status: 404 }
-      );
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     const currentRound = pool.currentRound;
 
@@ -487,7 +497,7 @@ export async function GET(
     );
 
     // UNIVERSAL CONTRIBUTION MODEL: All members contribute, so payout = contribution × memberCount
-    const payoutAmount = pool.contributionAmount * pool.members.length;
+    const payoutAmount = getPotAmount(pool, pool.members.length);
 
     // Get recipient's payout method from their user profile
     let recipientPayoutMethod = null;
@@ -506,7 +516,7 @@ export async function GET(
     const memberContributions = pool.members.map((member: any) => {
       const isRecipient = member.position === currentRound;
 
-      const contribution = pool.transactions.find(
+      const contribution = getCurrentCycleTransactions(pool.transactions).find(
         (t: any) =>
           t.member === member.name &&
           t.type === TransactionType.CONTRIBUTION &&
@@ -529,7 +539,7 @@ export async function GET(
     );
 
     // Check if payout already processed
-    const payoutTransaction = pool.transactions.find(
+    const payoutTransaction = getCurrentCycleTransactions(pool.transactions).find(
       (t: any) =>
         t.type === TransactionType.PAYOUT &&
         t.round === currentRound &&
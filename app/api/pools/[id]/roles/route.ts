@@ -0,0 +1,121 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../lib/db/models/pool';
+import { PoolPermission, PoolMember } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import {
+  POOL_ROLES,
+  ASSIGNABLE_ROLES,
+  describePoolRole,
+  getPoolRoleInfo,
+  getRoleChangeError,
+  getRoleHistory,
+  hasPoolPermission,
+  logRoleChange,
+  requirePoolPermission,
+} from '../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/roles
+ * Get the pool's roles and what each one can do, every member's role, and
+ * the history of role changes
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool, member } = access;
+
+    const history = await getRoleHistory(pool.id);
+
+    return successResponse({
+      roles: POOL_ROLES,
+      assignableRoles: ASSIGNABLE_ROLES,
+      canManageRoles: hasPoolPermission(member, PoolPermission.MANAGE_ROLES),
+      members: pool.members.map((m: PoolMember) => ({
+        memberId: m.id,
+        name: m.name,
+        role: getPoolRoleInfo(m.role).role,
+      })),
+      history,
+    });
+  } catch (error) {
+    console.error('Error fetching pool roles:', error);
+    return ApiErrors.internalError('Failed to fetch pool roles');
+  }
+}
+
+/**
+ * PUT /api/pools/[id]/roles
+ * Change a member's role (admin only)
+ *
+ * Body:
+ * - memberId: member whose role changes
+ * - role: 'admin' | 'treasurer' | 'moderator' | 'member' | 'viewer'
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { memberId, role } = body;
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_ROLES);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool, member } = access;
+
+    const target = pool.members.find((m: PoolMember) => m.id === memberId);
+    if (!target) {
+      return ApiErrors.notFound('Member');
+    }
+
+    const roleError = getRoleChangeError(member, target, role);
+    if (roleError) {
+      return ApiErrors.badRequest(roleError);
+    }
+
+    const from = target.role;
+
+    // Match the old role too so two admins can't both change it at once
+    const result = await Pool.updateOne(
+      { _id: pool._id, members: { $elemMatch: { id: target.id, role: from ?? null } } },
+      {
+        $set: { 'members.$.role': role },
+        $push: {
+          messages: {
+            id: Math.max(...(pool.messages?.map((m: { id: number }) => m.id) || [0]), 0) + 1,
+            author: 'System',
+            content: `${member.name} made ${target.name} ${describePoolRole(role)}.`,
+            date: new Date().toISOString(),
+          },
+        },
+      }
+    );
+
+    if (result.modifiedCount === 0) {
+      return errorResponse('This member\'s role was just changed by someone else', { status: 409 });
+    }
+
+    await logRoleChange(pool, { id: user._id.toString(), email: user.email }, {
+      memberId: target.id,
+      memberName: target.name,
+      from,
+      to: role,
+    });
+
+    return successResponse(
+      { memberId: target.id, role },
+      { message: `${target.name} is now ${describePoolRole(role)}` }
+    );
+  } catch (error) {
+    console.error('Error changing member role:', error);
+    return ApiErrors.internalError('Failed to change member role');
+  }
+}
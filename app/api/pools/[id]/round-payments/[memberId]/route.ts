@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import connectToDatabase from '../../../../../../lib/db/connect';
 import { Pool } from '../../../../../../lib/db/models/pool';
 import { User } from '../../../../../../lib/db/models/user';
-import { PoolMemberRole } from '../../../../../../types/pool';
-import { getCurrentUser } from '../../../../../../lib/auth';
+import { PoolPermission } from '../../../../../../types/pool';
+import { getLatePolicy, isPaidOnTime } from '../../../../../../lib/payments/late-policy';
+import { recordContribution, recordLateFee, reverseContribution, LedgerSource } from '../../../../../../lib/ledger';
+import { getPayoutReadinessReset, hasPoolPermission, requirePoolPermission } from '../../../../../../lib/pools';
 
 interface Params {
   params: Promise<{ id: string; memberId: string }>;
@@ -15,37 +16,13 @@ interface Params {
  */
 export async function GET(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id, memberId } = await params;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const userMember = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!userMember) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     // Find the payment record
     const payment = (pool.currentRoundPayments || []).find(
@@ -72,43 +49,17 @@ export async function GET(request: NextRequest, { params }: Params) {
  */
 export async function PATCH(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id, memberId } = await params;
     const body = await request.json();
     const { action, method, notes } = body;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { user, pool, member: userMember } = access;
 
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const userMember = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!userMember) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
-    }
-
-    const isAdmin =
-      userMember.role === PoolMemberRole.ADMIN ||
-      userMember.role === PoolMemberRole.CREATOR;
+    const isAdmin = hasPoolPermission(userMember, PoolPermission.VERIFY_PAYMENTS);
 
     const memberIdNum = parseInt(memberId);
 
@@ -121,6 +72,7 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     }
 
     const payment = payments[paymentIndex];
+    let paidOnTime = false;
 
     // Handle different actions
     switch (action) {
@@ -159,6 +111,8 @@ export async function PATCH(request: NextRequest, { params }: Params) {
           );
         }
 
+        paidOnTime = payment.status !== 'admin_verified' && isPaidOnTime(payment);
+
         payments[paymentIndex] = {
           ...payment,
           status: 'admin_verified',
@@ -205,9 +159,13 @@ export async function PATCH(request: NextRequest, { params }: Params) {
           );
         }
 
+        const { lateFeeAmount } = getLatePolicy(pool);
+
         payments[paymentIndex] = {
           ...payment,
           status: 'late',
+          lateAt: new Date(),
+          lateFee: payment.lateFee || lateFeeAmount || undefined,
           adminNotes: notes || payment.adminNotes,
           updatedAt: new Date(),
         };
@@ -281,16 +239,46 @@ export async function PATCH(request: NextRequest, { params }: Params) {
       currentRoundPayments: payments,
     };
 
+    // A disputed payment is no longer in, so the payout waits for it again
+    if (action === 'dispute') {
+      Object.assign(updateData, getPayoutReadinessReset());
+    }
+
     if (allVerified) {
       updateData.currentRoundPayoutStatus = 'ready_to_pay';
+      // An escrow hold runs from when the last payment was verified
+      if (pool.currentRoundPayoutStatus !== 'ready_to_pay') {
+        updateData.currentRoundReadyAt = new Date();
+      }
     }
 
+    // Verified before it ever went late counts toward the member's on-time record
     const updatedPool = await Pool.findOneAndUpdate(
       { $or: [{ id }, { _id: id }] },
-      { $set: updateData },
-      { new: true }
+      paidOnTime
+        ? { $set: updateData, $inc: { 'members.$[member].paymentsOnTime': 1 } }
+        : { $set: updateData },
+      paidOnTime
+        ? { new: true, arrayFilters: [{ 'member.id': memberIdNum }] }
+        : { new: true }
     );
 
+    // Reconciliation backfills the entry if this fails
+    try {
+      const updatedPayment = payments[paymentIndex];
+      const ledgerOptions = { source: LedgerSource.ROUND_PAYMENT, createdBy: user._id };
+
+      if (action === 'admin_verify') {
+        await recordContribution(updatedPool, memberIdNum, updatedPayment.amount, ledgerOptions);
+      } else if (action === 'dispute') {
+        await reverseContribution(updatedPool, memberIdNum, `${updatedPayment.memberName}'s round ${updatedPool.currentRound || 1} payment was disputed`, ledgerOptions);
+      } else if (action === 'mark_late' && updatedPayment.lateFee) {
+        await recordLateFee(updatedPool, memberIdNum, updatedPayment.lateFee, ledgerOptions);
+      }
+    } catch (error) {
+      console.error('Error recording payment in ledger:', error);
+    }
+
     return NextResponse.json({
       success: true,
       payment: payments[paymentIndex],
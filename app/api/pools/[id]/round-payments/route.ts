@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { Pool } from '../../../../../lib/db/models/pool';
-import { PoolMemberRole } from '../../../../../types/pool';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { PoolPermission, PoolMember } from '../../../../../types/pool';
+import { getRoundRecipient } from '../../../../../lib/payments/payout-order';
+import { getPotAmount } from '../../../../../lib/currency';
+import { getRoundDueDate } from '../../../../../lib/schedule';
+import { requirePoolPermission } from '../../../../../lib/pools';
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -14,41 +16,17 @@ interface Params {
  */
 export async function GET(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     // Find the current round winner
     const currentRound = pool.currentRound || 1;
-    const winner = pool.members.find((m: any) => m.position === currentRound);
+    const winner = getRoundRecipient<PoolMember>(pool.members, currentRound);
 
     return NextResponse.json({
       currentRound,
@@ -66,8 +44,8 @@ export async function GET(request: NextRequest, { params }: Params) {
       adminPaymentMethods: pool.adminPaymentMethods,
       contributionAmount: pool.contributionAmount,
       totalMembers: pool.members.length,
-      potAmount: pool.contributionAmount * pool.members.length,
-      dueDate: pool.nextPayoutDate,
+      potAmount: getPotAmount(pool, pool.members.length),
+      dueDate: getRoundDueDate(pool, pool.currentRound || 1).toISOString(),
     });
   } catch (error) {
     console.error('Error fetching round payments:', error);
@@ -85,51 +63,16 @@ export async function GET(request: NextRequest, { params }: Params) {
  */
 export async function POST(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
-    }
-
-    const isAdmin =
-      member.role === PoolMemberRole.ADMIN ||
-      member.role === PoolMemberRole.CREATOR;
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'Only pool admin can initialize payments' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(id, PoolPermission.VERIFY_PAYMENTS);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     // Create payment entries for all members
-    const dueDate = pool.nextPayoutDate ? new Date(pool.nextPayoutDate) : new Date();
+    const dueDate = getRoundDueDate(pool, pool.currentRound || 1);
     const payments = pool.members.map((m: any) => ({
       memberId: m.id,
       memberName: m.name,
@@ -149,6 +92,9 @@ export async function POST(request: NextRequest, { params }: Params) {
         $set: {
           currentRoundPayments: payments,
           currentRoundPayoutStatus: 'pending_collection',
+          currentRoundReadyAt: null,
+          currentRoundPayoutApprovedBy: null,
+          currentRoundPayoutApprovedAt: null,
         },
       },
       { new: true }
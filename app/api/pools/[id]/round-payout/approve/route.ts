@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { Pool } from '../../../../../../lib/db/models/pool';
+import { getAuditLogModel } from '../../../../../../lib/db/models/auditLog';
+import { PoolPermission } from '../../../../../../types/pool';
+import { AuditLogType } from '../../../../../../types/audit';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../lib/api';
+import {
+  getPayoutApprovalError,
+  getEscrowReleaseDate,
+  requirePoolPermission,
+} from '../../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/pools/[id]/round-payout/approve
+ * Co-sign the current round's payout in a tier that needs a second admin
+ * (or treasurer). Whoever approves can't be the one who sends the payout
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_PAYOUTS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { user, pool } = access;
+
+    const approvalError = getPayoutApprovalError(pool);
+    if (approvalError) {
+      return ApiErrors.badRequest(approvalError);
+    }
+
+    const now = new Date();
+    const currentRound = pool.currentRound || 1;
+
+    // Only one admin can approve, even if two try at once
+    const updatedPool = await Pool.findOneAndUpdate(
+      {
+        _id: pool._id,
+        currentRound: pool.currentRound ?? null,
+        currentRoundPayoutStatus: 'ready_to_pay',
+        currentRoundPayoutApprovedBy: null,
+      },
+      {
+        $set: {
+          currentRoundPayoutApprovedBy: user._id,
+          currentRoundPayoutApprovedAt: now,
+        },
+      },
+      { new: true }
+    );
+
+    if (!updatedPool) {
+      return errorResponse('This payout has already been approved', { status: 409 });
+    }
+
+    try {
+      await getAuditLogModel().create({
+        id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: now.toISOString(),
+        userId: user._id.toString(),
+        userEmail: user.email,
+        type: AuditLogType.PAYMENT_PAYOUT,
+        action: 'payout_approved',
+        metadata: {
+          poolId: pool.id,
+          poolName: pool.name,
+          round: currentRound,
+          tier: pool.tier,
+        },
+        poolId: pool.id,
+        success: true,
+      });
+    } catch (error) {
+      console.error(`Error logging payout approval for pool ${pool.id}:`, error);
+    }
+
+    return successResponse({
+      payoutApprovedBy: user._id,
+      payoutApprovedAt: now,
+      escrowReleaseAt: getEscrowReleaseDate(updatedPool),
+    });
+  } catch (error) {
+    console.error('Error approving payout:', error);
+    return ApiErrors.internalError('Failed to approve payout');
+  }
+}
@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { Pool } from '../../../../../lib/db/models/pool';
 import { User } from '../../../../../lib/db/models/user';
-import { PoolMemberRole, TransactionType, PoolMember, RoundPayment } from '../../../../../types/pool';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { PoolPermission, TransactionType, PoolMember, RoundPayment } from '../../../../../types/pool';
 import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { advancePoolRound } from '../../../../../lib/payments/rounds';
+import { getRoundRecipient, getWinningDiscount } from '../../../../../lib/payments/payout-order';
+import { getPotAmount } from '../../../../../lib/currency';
+import { recordPayout, LedgerSource } from '../../../../../lib/ledger';
+import {
+  getTierSafeguards,
+  getEscrowReleaseDate,
+  getPayoutSafeguardError,
+  requirePoolPermission,
+} from '../../../../../lib/pools';
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -16,37 +24,16 @@ interface Params {
  */
 export async function GET(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return errorResponse(userResult.error.message, { status: userResult.error.status });
-    }
-    const user = userResult.user;
-
     const { id } = await params;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return ApiErrors.notFound('Pool');
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: PoolMember) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return ApiErrors.notMember();
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
     }
+    const { pool } = access;
 
     const currentRound = pool.currentRound || 1;
-    const winner = pool.members.find((m: PoolMember) => m.position === currentRound);
+    const winner = getRoundRecipient<PoolMember>(pool.members, currentRound);
 
     // Check if all payments are verified
     const payments: RoundPayment[] = pool.currentRoundPayments || [];
@@ -58,9 +45,18 @@ export async function GET(request: NextRequest, { params }: Params) {
       .filter((p: RoundPayment) => p.status === 'admin_verified')
       .reduce((sum: number, p: RoundPayment) => sum + p.amount, 0);
 
+    // A winning discount bid stays in the pool instead of going to the winner
+    const bidDiscount = getWinningDiscount(pool, currentRound);
+
     return successResponse({
       currentRound,
-      potAmount: pool.contributionAmount * pool.members.length,
+      tier: pool.tier,
+      safeguards: getTierSafeguards(pool),
+      escrowReleaseAt: getEscrowReleaseDate(pool),
+      payoutApprovedBy: pool.currentRoundPayoutApprovedBy || null,
+      payoutApprovedAt: pool.currentRoundPayoutApprovedAt || null,
+      potAmount: getPotAmount(pool, pool.members.length, bidDiscount),
+      bidDiscount,
       verifiedAmount,
       payoutStatus: pool.currentRoundPayoutStatus || 'pending_collection',
       payoutCompletedAt: pool.currentRoundPayoutCompletedAt,
@@ -83,17 +79,10 @@ export async function GET(request: NextRequest, { params }: Params) {
 /**
  * POST /api/pools/[id]/round-payout
  * Confirm that payout has been sent to the winner
- * Only admin can confirm
+ * Only admins and treasurers can confirm
  */
 export async function POST(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return errorResponse(userResult.error.message, { status: userResult.error.status });
-    }
-    const user = userResult.user;
-
     const { id } = await params;
     const body = await request.json();
     const { method, notes } = body;
@@ -107,33 +96,11 @@ export async function POST(request: NextRequest, { params }: Params) {
       return ApiErrors.badRequest('Invalid payment method');
     }
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return ApiErrors.notFound('Pool');
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: PoolMember) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return ApiErrors.notMember();
-    }
-
-    const isAdmin =
-      member.role === PoolMemberRole.ADMIN ||
-      member.role === PoolMemberRole.CREATOR;
-
-    if (!isAdmin) {
-      return ApiErrors.notAdmin();
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_PAYOUTS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // Check if payout is ready
     const payoutStatus = pool.currentRoundPayoutStatus;
@@ -145,13 +112,27 @@ export async function POST(request: NextRequest, { params }: Params) {
     }
 
     const currentRound = pool.currentRound || 1;
-    const winner = pool.members.find((m: PoolMember) => m.position === currentRound);
+    const winner = getRoundRecipient<PoolMember>(pool.members, currentRound);
 
     if (!winner) {
       return ApiErrors.badRequest('Could not find winner for current round');
     }
 
-    const potAmount = pool.contributionAmount * pool.members.length;
+    // Larger tiers: a verified recipient, escrow, and a co-signing admin
+    const recipient = getTierSafeguards(pool).identityVerification
+      ? await User.findOne(
+          winner.userId ? { _id: winner.userId } : { email: winner.email?.toLowerCase() }
+        ).select('identityVerified')
+      : null;
+    const safeguardError = getPayoutSafeguardError(pool, {
+      userId: user._id.toString(),
+      recipientVerified: !!recipient?.identityVerified,
+    });
+    if (safeguardError) {
+      return ApiErrors.badRequest(safeguardError);
+    }
+
+    const potAmount = getPotAmount(pool, pool.members.length, getWinningDiscount(pool, currentRound));
     const now = new Date();
 
     // Create payout transaction
@@ -192,6 +173,19 @@ export async function POST(request: NextRequest, { params }: Params) {
       { new: true }
     );
 
+    // Reconciliation backfills the entry if this fails
+    try {
+      await recordPayout(updatedPool || pool, winner.id, potAmount, {
+        source: LedgerSource.POOL_TRANSACTION,
+        sourceRef: String(transaction.id),
+        round: currentRound,
+        occurredAt: now,
+        createdBy: user._id,
+      });
+    } catch (error) {
+      console.error('Error recording payout in ledger:', error);
+    }
+
     return successResponse({
       payoutStatus: 'paid',
       payoutCompletedAt: now,
@@ -207,106 +201,29 @@ export async function POST(request: NextRequest, { params }: Params) {
 /**
  * PUT /api/pools/[id]/round-payout
  * Advance to the next round after payout is complete
- * Only admin can advance
+ * Only admins and treasurers can advance
  */
 export async function PUT(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return errorResponse(userResult.error.message, { status: userResult.error.status });
-    }
-    const user = userResult.user;
-
     const { id } = await params;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return ApiErrors.notFound('Pool');
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: PoolMember) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return ApiErrors.notMember();
-    }
-
-    const isAdmin =
-      member.role === PoolMemberRole.ADMIN ||
-      member.role === PoolMemberRole.CREATOR;
-
-    if (!isAdmin) {
-      return ApiErrors.notAdmin();
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_PAYOUTS);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
     }
+    const { user, pool } = access;
 
     // Check if payout is complete
     if (pool.currentRoundPayoutStatus !== 'paid') {
       return ApiErrors.badRequest('Payout must be completed before advancing');
     }
 
-    const currentRound = pool.currentRound || 1;
-    const nextRound = currentRound + 1;
-    const totalRounds = pool.totalRounds || pool.members.length;
-
-    // Calculate next payout date based on frequency
-    const calculateNextPayoutDate = () => {
-      const now = new Date();
-      const frequency = pool.frequency?.toLowerCase() || 'weekly';
-
-      switch (frequency) {
-        case 'weekly':
-          now.setDate(now.getDate() + 7);
-          break;
-        case 'biweekly':
-          now.setDate(now.getDate() + 14);
-          break;
-        case 'monthly':
-          now.setMonth(now.getMonth() + 1);
-          break;
-        default:
-          now.setDate(now.getDate() + 7);
-      }
-
-      return now.toISOString();
-    };
-
-    // Prepare update
-    const updateData: Record<string, unknown> = {
-      currentRound: nextRound,
-      currentRoundPayoutStatus: 'pending_collection',
-      currentRoundPayments: [],
-      currentRoundPayoutCompletedAt: null,
-      currentRoundPayoutMethod: null,
-      currentRoundPayoutNotes: null,
-      currentRoundPayoutConfirmedBy: null,
-      nextPayoutDate: calculateNextPayoutDate(),
-    };
-
-    // Check if pool is complete
-    if (nextRound > totalRounds) {
-      updateData.status = 'completed';
+    const advanced = await advancePoolRound(pool, { closedBy: user._id });
+    if (!advanced) {
+      return errorResponse('Round was already advanced', { status: 409 });
     }
 
-    const updatedPool = await Pool.findOneAndUpdate(
-      { $or: [{ id }, { _id: id }] },
-      { $set: updateData },
-      { new: true }
-    );
-
-    return successResponse({
-      currentRound: nextRound,
-      isComplete: nextRound > totalRounds,
-      nextPayoutDate: updatedPool.nextPayoutDate,
-    });
+    return successResponse(advanced);
   } catch (error) {
     console.error('Error advancing round:', error);
     return ApiErrors.internalError('Failed to advance round');
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { PoolPermission } from '../../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../../lib/api';
+import { findPoolRound } from '../../../../../../lib/payments/rounds';
+import { requirePoolPermission } from '../../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string; round: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/rounds/[round]
+ * Get a single round's payments, payout record, and transactions
+ *
+ * Query params:
+ * - cycle: pool cycle the round belongs to (defaults to the current cycle)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id, round } = await params;
+    const roundNumber = parseInt(round, 10);
+
+    if (Number.isNaN(roundNumber) || roundNumber < 1) {
+      return ApiErrors.badRequest('Invalid round number');
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const currentCycle = pool.currentCycle || 0;
+    const cycleParam = request.nextUrl.searchParams.get('cycle');
+    const cycle = cycleParam !== null ? parseInt(cycleParam, 10) : currentCycle;
+
+    if (Number.isNaN(cycle) || cycle < 0) {
+      return ApiErrors.badRequest('Invalid cycle');
+    }
+
+    const roundHistory = await findPoolRound(pool, cycle, roundNumber);
+
+    if (roundHistory) {
+      return successResponse({ round: roundHistory });
+    }
+
+    return ApiErrors.notFound('Round');
+  } catch (error) {
+    console.error('Error fetching round:', error);
+    return ApiErrors.internalError('Failed to fetch round');
+  }
+}
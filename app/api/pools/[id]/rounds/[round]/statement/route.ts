@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../../../types/pool';
+import { ApiErrors, errorResponse } from '../../../../../../../lib/api';
+import { findPoolRound } from '../../../../../../../lib/payments/rounds';
+import { renderRoundStatement, getStatementFilename } from '../../../../../../../lib/exports';
+import { requirePoolPermission } from '../../../../../../../lib/pools';
+
+export const runtime = 'nodejs';
+
+interface Params {
+  params: Promise<{ id: string; round: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/rounds/[round]/statement
+ * Download a printable PDF statement for one round: payout record and each
+ * member's payment and verification status
+ *
+ * Query params:
+ * - cycle: pool cycle the round belongs to (defaults to the current cycle)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id, round } = await params;
+    const roundNumber = parseInt(round, 10);
+
+    if (Number.isNaN(roundNumber) || roundNumber < 1) {
+      return ApiErrors.badRequest('Invalid round number');
+    }
+
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const cycleParam = request.nextUrl.searchParams.get('cycle');
+    const cycle = cycleParam !== null ? parseInt(cycleParam, 10) : pool.currentCycle || 0;
+
+    if (Number.isNaN(cycle) || cycle < 0) {
+      return ApiErrors.badRequest('Invalid cycle');
+    }
+
+    const roundHistory = await findPoolRound(pool, cycle, roundNumber);
+
+    if (!roundHistory) {
+      return ApiErrors.notFound('Round');
+    }
+
+    const pdf = renderRoundStatement(pool, roundHistory);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getStatementFilename(pool.name, roundNumber)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating round statement:', error);
+    return ApiErrors.internalError('Failed to generate round statement');
+  }
+}
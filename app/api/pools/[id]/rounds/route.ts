@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { PoolPermission } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { getPoolRounds } from '../../../../../lib/payments/rounds';
+import { requirePoolPermission } from '../../../../../lib/pools';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/rounds
+ * List the pool's round history: every archived round plus the live round
+ *
+ * Query params:
+ * - cycle: pool cycle to list (defaults to the current cycle)
+ * - includePayments: 'false' to omit per-member payment detail
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const includePayments = searchParams.get('includePayments') !== 'false';
+
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const currentCycle = pool.currentCycle || 0;
+    const cycleParam = searchParams.get('cycle');
+    const cycle = cycleParam !== null ? parseInt(cycleParam, 10) : currentCycle;
+
+    if (Number.isNaN(cycle) || cycle < 0) {
+      return ApiErrors.badRequest('Invalid cycle');
+    }
+
+    const rounds = await getPoolRounds(pool, cycle);
+
+    return successResponse({
+      poolId: pool.id,
+      cycle,
+      currentRound: pool.currentRound || 1,
+      totalRounds: pool.totalRounds || pool.members.length,
+      rounds: includePayments
+        ? rounds
+        : rounds.map(({ payments, transactions, ...summary }) => summary),
+    });
+  } catch (error) {
+    console.error('Error fetching round history:', error);
+    return ApiErrors.internalError('Failed to fetch round history');
+  }
+}
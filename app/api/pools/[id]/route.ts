@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool, UpdatePoolRequest } from '../../../../types/pool';
-import connectToDatabase from '../../../../lib/db/connect';
+import { Pool, UpdatePoolRequest, PoolPermission } from '../../../../types/pool';
 import getPoolModel from '../../../../lib/db/models/pool';
 import { User } from '../../../../lib/db/models/user';
-import { handleApiRequest, ApiError, findUserById } from '../../../../lib/api';
+import { handleApiRequest, ApiError } from '../../../../lib/api';
+import { requirePoolPermission } from '../../../../lib/pools';
 
 interface PoolMemberDB {
   id: number;
@@ -16,33 +16,19 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  return handleApiRequest(request, async ({ userId }) => {
+  return handleApiRequest(request, async () => {
     const { id: poolId } = await params;
     
     if (!poolId) {
       throw new ApiError('Pool ID is required', 400);
     }
     
-    await connectToDatabase();
-    const PoolModel = getPoolModel();
-    
-    // Get the pool from database
-    const pool = await PoolModel.findOne({ id: poolId });
-    
-    if (!pool) {
-      throw new ApiError('Pool not found', 404);
-    }
-    
-    // Check if the user is a member of this pool
-    const user = await findUserById(userId);
-    if (!user) {
-      throw new ApiError('User not found or invalid session', 401);
-    }
-    if (!user.pools.includes(poolId)) {
-      throw new ApiError('You are not a member of this pool', 403);
+    const access = await requirePoolPermission(poolId, PoolPermission.VIEW);
+    if (access.error) {
+      throw new ApiError(access.error.message, access.error.status);
     }
     
-    return { success: true, pool };
+    return { success: true, pool: access.pool };
   }, {
     requireAuth: true,
     methods: ['GET']
@@ -54,7 +40,7 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  return handleApiRequest(request, async ({ userId }) => {
+  return handleApiRequest(request, async () => {
     const { id: poolId } = await params;
     const body = await request.json() as UpdatePoolRequest;
     
@@ -62,25 +48,11 @@ export async function PATCH(
       throw new ApiError('Pool ID is required', 400);
     }
     
-    await connectToDatabase();
-    const PoolModel = getPoolModel();
-    
-    // Get the pool from database
-    const pool = await PoolModel.findOne({ id: poolId });
-    
-    if (!pool) {
-      throw new ApiError('Pool not found', 404);
-    }
-    
-    // Check if the user is an admin of this pool
-    const userMember = pool.members.find((member: PoolMemberDB) =>
-      // The user's email is stored in the member record
-      member.email === (pool.members.find((m: PoolMemberDB) => m.id.toString() === '1')?.email)
-    );
-
-    if (!userMember || userMember.role !== 'admin') {
-      throw new ApiError('Only pool administrators can update the pool', 403);
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      throw new ApiError(access.error.message, access.error.status);
     }
+    const PoolModel = getPoolModel();
     
     // Update pool properties
     const updateData: any = {};
@@ -114,33 +86,19 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  return handleApiRequest(request, async ({ userId }) => {
+  return handleApiRequest(request, async () => {
     const { id: poolId } = await params;
     
     if (!poolId) {
       throw new ApiError('Pool ID is required', 400);
     }
     
-    await connectToDatabase();
-    const PoolModel = getPoolModel();
-    
-    // Get the pool from database
-    const pool = await PoolModel.findOne({ id: poolId });
-    
-    if (!pool) {
-      throw new ApiError('Pool not found', 404);
-    }
-    
-    // Check if the user is an admin of this pool
-    const adminMember = pool.members.find((member: PoolMemberDB) => member.role === 'admin');
-    const user = await findUserById(userId);
-
-    if (!user) {
-      throw new ApiError('User not found or invalid session', 401);
-    }
-    if (!adminMember || user.email !== adminMember.email) {
-      throw new ApiError('Only pool administrators can delete the pool', 403);
+    const access = await requirePoolPermission(poolId, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      throw new ApiError(access.error.message, access.error.status);
     }
+    const { pool } = access;
+    const PoolModel = getPoolModel();
     
     // Get all member user IDs before deleting the pool
     const memberUserIds = pool.members
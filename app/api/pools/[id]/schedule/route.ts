@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server';
+import { PoolPermission } from '../../../../../types/pool';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { requirePoolPermission } from '../../../../../lib/pools';
+import {
+  getScheduleSettings,
+  validateScheduleSettings,
+  getPoolSchedule,
+  getRoundPayoutDate,
+  describeSchedule,
+  MAX_HOLIDAYS,
+  MAX_MONTH_DAYS,
+  MAX_CONTRIBUTION_LEAD_DAYS,
+} from '../../../../../lib/schedule';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/schedule
+ * Get the pool's schedule settings and the dates of every round
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    return successResponse({
+      schedule: getScheduleSettings(pool),
+      description: describeSchedule(pool),
+      startDate: pool.startDate,
+      rounds: getPoolSchedule(pool),
+      limits: {
+        maxHolidays: MAX_HOLIDAYS,
+        maxMonthDays: MAX_MONTH_DAYS,
+        maxContributionLeadDays: MAX_CONTRIBUTION_LEAD_DAYS,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching pool schedule:', error);
+    return ApiErrors.internalError('Failed to fetch pool schedule');
+  }
+}
+
+/**
+ * PUT /api/pools/[id]/schedule
+ * Update the pool's schedule settings (admin only)
+ *
+ * Body (all optional):
+ * - timezone: IANA time zone the dates fall in
+ * - anchor: interval | weekday | month_days | month_weekday
+ * - weekday, weekOfMonth, monthDays: the anchor's days
+ * - holidays: YYYY-MM-DD dates, with holidayRule none | skip | shift_forward | shift_backward
+ * - contributionLeadDays: days before the payout that contributions are due
+ *
+ * The next payout date and the payout dates of members not yet paid are
+ * recalculated from the new settings.
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const { settings, error } = validateScheduleSettings(
+      {
+        timezone: body.timezone,
+        anchor: body.anchor,
+        weekday: body.weekday,
+        weekOfMonth: body.weekOfMonth,
+        monthDays: body.monthDays,
+        holidays: body.holidays,
+        holidayRule: body.holidayRule,
+        contributionLeadDays: body.contributionLeadDays,
+      },
+      getScheduleSettings(pool),
+      pool.frequency
+    );
+
+    if (!settings) {
+      return ApiErrors.validationError(error || 'Invalid schedule');
+    }
+
+    pool.schedule = settings;
+    if (pool.status !== 'completed') {
+      pool.nextPayoutDate = getRoundPayoutDate(pool, pool.currentRound || 1).toISOString();
+    }
+    for (const member of pool.members) {
+      if (!member.payoutReceived && member.position) {
+        member.payoutDate = getRoundPayoutDate(pool, member.position).toISOString();
+      }
+    }
+
+    await pool.save();
+
+    return successResponse(
+      { schedule: settings, description: describeSchedule(pool), rounds: getPoolSchedule(pool) },
+      { message: 'Schedule updated' }
+    );
+  } catch (error) {
+    console.error('Error updating pool schedule:', error);
+    return ApiErrors.internalError('Failed to update pool schedule');
+  }
+}
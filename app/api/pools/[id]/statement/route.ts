@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PoolPermission } from '../../../../../types/pool';
+import { ApiErrors, errorResponse } from '../../../../../lib/api';
+import { getPoolRounds } from '../../../../../lib/payments/rounds';
+import { renderPoolStatement, getStatementFilename } from '../../../../../lib/exports';
+import { requirePoolPermission } from '../../../../../lib/pools';
+
+export const runtime = 'nodejs';
+
+interface Params {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/pools/[id]/statement
+ * Download a printable PDF statement for the pool: summary, payout schedule,
+ * round totals, and the current round's verification status
+ *
+ * Query params:
+ * - cycle: pool cycle to cover (defaults to the current cycle)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return errorResponse(access.error.message, { status: access.error.status });
+    }
+    const { pool } = access;
+
+    const cycleParam = request.nextUrl.searchParams.get('cycle');
+    const cycle = cycleParam !== null ? parseInt(cycleParam, 10) : pool.currentCycle || 0;
+
+    if (Number.isNaN(cycle) || cycle < 0) {
+      return ApiErrors.badRequest('Invalid cycle');
+    }
+
+    const rounds = await getPoolRounds(pool, cycle);
+    const pdf = renderPoolStatement(pool, rounds);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getStatementFilename(pool.name)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating pool statement:', error);
+    return ApiErrors.internalError('Failed to generate pool statement');
+  }
+}
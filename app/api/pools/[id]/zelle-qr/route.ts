@@ -6,11 +6,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import connectToDatabase from '../../../../../lib/db/connect';
 import { Pool } from '../../../../../lib/db/models/pool';
-import { PoolMemberRole } from '../../../../../types/pool';
+import { PoolPermission } from '../../../../../types/pool';
 import { decodeQRFromBase64 } from '../../../../../lib/payments/qr-decode';
-import { getCurrentUser } from '../../../../../lib/auth';
+import { requirePoolPermission } from '../../../../../lib/pools';
 
 interface Params {
   params: Promise<{ id: string }>;
@@ -22,37 +21,13 @@ interface Params {
  */
 export async function GET(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
+    const access = await requirePoolPermission(id, PoolPermission.VIEW);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     const zelleQR = pool.adminPaymentMethods?.zelleQR || null;
 
@@ -79,16 +54,6 @@ export async function GET(request: NextRequest, { params }: Params) {
  */
 export async function POST(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
     const body = await request.json();
     const { imageDataUrl } = body;
@@ -108,36 +73,11 @@ export async function POST(request: NextRequest, { params }: Params) {
       );
     }
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
-    }
-
-    const isAdmin =
-      member.role === PoolMemberRole.ADMIN ||
-      member.role === PoolMemberRole.CREATOR;
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'Only pool admin can upload Zelle QR codes' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     // Decode the QR code
     const decodeResult = await decodeQRFromBase64(imageDataUrl);
@@ -194,48 +134,13 @@ export async function POST(request: NextRequest, { params }: Params) {
  */
 export async function DELETE(request: NextRequest, { params }: Params) {
   try {
-    // Get current user with proper validation
-    const userResult = await getCurrentUser();
-    if (userResult.error) {
-      return NextResponse.json(
-        { error: userResult.error.message },
-        { status: userResult.error.status }
-      );
-    }
-    const user = userResult.user;
-
     const { id } = await params;
 
-    await connectToDatabase();
-
-    const pool = await Pool.findOne({
-      $or: [{ id }, { _id: id }],
-    });
-
-    if (!pool) {
-      return NextResponse.json({ error: 'Pool not found' }, { status: 404 });
-    }
-
-    // SECURITY: Check membership using userId (primary) with email fallback
-    const userEmailLower = user.email?.toLowerCase();
-    const member = pool.members.find(
-      (m: any) => m.userId?.toString() === user._id.toString() || m.email?.toLowerCase() === userEmailLower
-    );
-
-    if (!member) {
-      return NextResponse.json({ error: 'Not a member of this pool' }, { status: 403 });
-    }
-
-    const isAdmin =
-      member.role === PoolMemberRole.ADMIN ||
-      member.role === PoolMemberRole.CREATOR;
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'Only pool admin can remove Zelle QR codes' },
-        { status: 403 }
-      );
+    const access = await requirePoolPermission(id, PoolPermission.MANAGE_POOL);
+    if (access.error) {
+      return NextResponse.json({ error: access.error.message }, { status: access.error.status });
     }
+    const { pool } = access;
 
     await Pool.findOneAndUpdate(
       { $or: [{ id }, { _id: id }] },
@@ -7,6 +7,16 @@ import { getPoolModel } from '../../../../../lib/db/models/pool';
 import { User } from '../../../../../lib/db/models/user';
 import { PoolMemberRole, PoolMemberStatus } from '../../../../../types/pool';
 import { getCurrentUser } from '../../../../../lib/auth';
+import { ReliabilityView, ReliabilityVisibility } from '../../../../../types/reliability';
+import {
+  DEFAULT_RELIABILITY_VISIBILITY,
+  describeReliability,
+  getUserReliability,
+  viewReliability,
+} from '../../../../../lib/reliability';
+import { getIdentityVerificationError } from '../../../../../lib/pools/tiers';
+import { getRequestContext, logSecurityActivity } from '../../../../../lib/security';
+import { ActivityType } from '../../../../../types/security';
 
 const Pool = getPoolModel();
 
@@ -79,6 +89,15 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Larger tiers only take verified members
+    const verificationError = getIdentityVerificationError(pool, user);
+    if (verificationError) {
+      return NextResponse.json(
+        { error: verificationError },
+        { status: 403 }
+      );
+    }
+
     // Check if there's a placeholder member with matching email (added by admin before user accepted)
     const placeholderMemberIndex = pool.members.findIndex(
       (m: any) => !m.userId && m.email?.toLowerCase() === user.email.toLowerCase()
@@ -107,32 +126,22 @@ export async function POST(request: NextRequest) {
         await invitation.accept(user._id.toString());
       }
 
-      // Log activity
-      try {
-        const response = await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/security/activity-log`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            userId: user._id.toString(),
-            type: 'pool_invitation_accepted',
-            metadata: {
-              poolId: pool.id,
-              poolName: pool.name,
-              invitationId: invitation._id.toString(),
-              invitedBy: invitation.invitedBy
-            }
-          })
-        });
-
-        if (!response.ok) {
-          console.error('Failed to log activity');
-        }
-      } catch (error) {
-        console.error('Error logging activity:', error);
-      }
+      await logSecurityActivity({
+        userId: user._id.toString(),
+        userEmail: user.email,
+        type: ActivityType.POOL_JOIN,
+        metadata: {
+          poolId: pool.id,
+          poolName: pool.name,
+          invitationId: invitation._id.toString(),
+          invitedBy: invitation.invitedBy
+        },
+        context: getRequestContext(request.headers),
+      });
 
       // Send notification to pool admins
       try {
+        const reliability = await getReliabilityForAdmins(user);
         const admins = pool.members.filter(
           (m: any) => m.role === PoolMemberRole.ADMIN || m.role === PoolMemberRole.CREATOR
         );
@@ -146,11 +155,12 @@ export async function POST(request: NextRequest) {
                 userId: admin.userId.toString(),
                 type: 'member_joined',
                 title: 'New Member Joined',
-                message: `${user.name || user.email} has joined ${pool.name}`,
+                message: withReliability(`${user.name || user.email} has joined ${pool.name}`, reliability),
                 metadata: {
                   poolId: pool.id,
                   memberId: user._id.toString(),
-                  memberName: user.name || user.email
+                  memberName: user.name || user.email,
+                  reliability
                 }
               })
             });
@@ -202,32 +212,22 @@ export async function POST(request: NextRequest) {
       await invitation.accept(user._id.toString());
     }
 
-    // Log activity
-    try {
-      const response = await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/security/activity-log`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: user._id.toString(),
-          type: 'pool_invitation_accepted',
-          metadata: {
-            poolId: pool.id,
-            poolName: pool.name,
-            invitationId: invitation._id.toString(),
-            invitedBy: invitation.invitedBy
-          }
-        })
-      });
-
-      if (!response.ok) {
-        console.error('Failed to log activity');
-      }
-    } catch (error) {
-      console.error('Error logging activity:', error);
-    }
+    await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      type: ActivityType.POOL_JOIN,
+      metadata: {
+        poolId: pool.id,
+        poolName: pool.name,
+        invitationId: invitation._id.toString(),
+        invitedBy: invitation.invitedBy
+      },
+      context: getRequestContext(request.headers),
+    });
 
     // Send notification to pool admins
     try {
+      const reliability = await getReliabilityForAdmins(user);
       const admins = pool.members.filter(
         (m: any) => m.role === PoolMemberRole.ADMIN || m.role === PoolMemberRole.CREATOR
       );
@@ -241,11 +241,12 @@ export async function POST(request: NextRequest) {
               userId: admin.userId.toString(),
               type: 'member_joined',
               title: 'New Member Joined',
-              message: `${user.name || user.email} has joined ${pool.name}`,
+              message: withReliability(`${user.name || user.email} has joined ${pool.name}`, reliability),
               metadata: {
                 poolId: pool.id,
                 memberId: user._id.toString(),
-                memberName: user.name || user.email
+                memberName: user.name || user.email,
+                reliability
               }
             })
           });
@@ -272,4 +273,26 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The new member's reliability score, as far as they share it with admins
+ */
+async function getReliabilityForAdmins(user: {
+  _id: { toString(): string };
+  email: string;
+  reliabilityVisibility?: ReliabilityVisibility;
+}): Promise<ReliabilityView | null> {
+  try {
+    const score = await getUserReliability({ id: user._id.toString(), email: user.email });
+    return viewReliability(score, user.reliabilityVisibility || DEFAULT_RELIABILITY_VISIBILITY);
+  } catch (error) {
+    console.error('Error computing reliability score:', error);
+    return null;
+  }
+}
+
+function withReliability(message: string, reliability: ReliabilityView | null): string {
+  const summary = reliability && describeReliability(reliability);
+  return summary ? `${message}. ${summary}` : message;
+}
@@ -42,25 +42,6 @@ export async function POST(request: NextRequest) {
     // Reject the invitation
     await invitation.reject(reason);
     
-    // Log activity
-    try {
-      await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/security/activity-log`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: session.user.id,
-          type: 'pool_invitation_rejected',
-          metadata: {
-            poolId: invitation.poolId,
-            invitationId: invitation._id.toString(),
-            reason
-          }
-        })
-      });
-    } catch (error) {
-      console.error('Error logging activity:', error);
-    }
-    
     return NextResponse.json({
       success: true,
       message: 'Invitation rejected successfully'
@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { Pool, CreatePoolRequest, PoolStatus, PoolMemberRole, PoolMemberStatus } from '../../../types/pool';
+import { Pool, CreatePoolRequest, PoolStatus, PoolMemberRole, PoolMemberStatus, PayoutOrderStrategy, PoolTier } from '../../../types/pool';
 import connectToDatabase from '../../../lib/db/connect';
 import getPoolModel from '../../../lib/db/models/pool';
 import { User } from '../../../lib/db/models/user';
 import { handleApiRequest, ApiError, findUserById } from '../../../lib/api';
 import { createDefaultReminderSchedules } from '../../../lib/reminders/scheduler';
 import { CreatePoolSchema, validateRequestBody } from '../../../lib/validation/schemas';
+import { toMinorUnits } from '../../../lib/currency';
+import { getIdentityVerificationError } from '../../../lib/pools/tiers';
 import { createBatchInvitations } from '../../../lib/services/invitations';
+import { generateDrawSeed, hashDrawSeed, logPayoutOrderChange } from '../../../lib/payments/payout-order';
+import {
+  getScheduleSettings,
+  validateScheduleSettings,
+  parseScheduleStartDate,
+  getRoundPayoutDate,
+} from '../../../lib/schedule';
 
 // GET /api/pools - Get all pools for a user
 export async function GET(request: NextRequest) {
@@ -98,6 +107,12 @@ export async function POST(request: NextRequest) {
       console.error(`User not found in POST /api/pools for provided userId: ${userId}`);
       throw new ApiError('User not found or invalid session', 401);
     }
+
+    // Larger tiers are only open to verified users
+    const verificationError = getIdentityVerificationError({ tier: body.tier }, user);
+    if (verificationError) {
+      throw new ApiError(verificationError, 403);
+    }
     
     // Generate a unique ID
     const poolId = uuidv4();
@@ -106,9 +121,25 @@ export async function POST(request: NextRequest) {
     // In this app, total rounds equals number of members
     const memberCount = body.totalRounds; 
     
-    // Calculate payment schedule based on frequency and start date
-    const startDate = body.startDate ? new Date(body.startDate) : new Date();
-    const nextPayoutDate = calculateNextPayoutDate(startDate, body.frequency);
+    // Round dates are derived from the start date and schedule (lib/schedule)
+    const frequency = body.frequency || 'weekly';
+    const { settings: schedule, error: scheduleError } = validateScheduleSettings(
+      body.schedule || {},
+      getScheduleSettings({}),
+      frequency
+    );
+    if (!schedule) {
+      throw new ApiError(scheduleError || 'Invalid schedule', 400);
+    }
+
+    // Without a start date the first payout is one period from now
+    const startDate = body.startDate
+      ? parseScheduleStartDate(body.startDate, schedule.timezone)
+      : getRoundPayoutDate({ frequency, startDate: new Date(), schedule }, 2);
+    if (!startDate) {
+      throw new ApiError('Invalid start date', 400);
+    }
+    const nextPayoutDate = getRoundPayoutDate({ frequency, startDate, schedule }, 1);
     
     // Validate and set allowed payment methods (default to all if not provided)
     const validPaymentMethods: ('venmo' | 'cashapp' | 'paypal' | 'zelle')[] = ['venmo', 'cashapp', 'paypal', 'zelle'];
@@ -126,6 +157,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Random-draw pools commit to a seed now and reveal it when the draw runs
+    const payoutOrderStrategy = body.payoutOrderStrategy as PayoutOrderStrategy;
+    const drawSeed = payoutOrderStrategy === PayoutOrderStrategy.RANDOM_DRAW ? generateDrawSeed() : null;
+
     // Create a new pool with the creator as the admin
     const newPool: Pool = {
       id: poolId,
@@ -134,13 +169,20 @@ export async function POST(request: NextRequest) {
       createdAt: new Date().toISOString(),
       status: PoolStatus.ACTIVE,
       totalAmount: 0, // Initial amount is 0
+      currency: body.currency,
+      tier: body.tier as PoolTier,
       contributionAmount: body.contributionAmount,
-      frequency: body.frequency || 'weekly',
+      contributionAmountMinor: toMinorUnits(body.contributionAmount, body.currency),
+      frequency,
       currentRound: 1, // Start at round 1
       totalRounds: body.totalRounds,
+      startDate: startDate.toISOString(),
       nextPayoutDate: nextPayoutDate.toISOString(),
+      schedule,
       memberCount,
       allowedPaymentMethods,
+      payoutOrderStrategy,
+      ...(drawSeed && { payoutDraw: { seedHash: hashDrawSeed(drawSeed) } }),
       members: [
         {
           id: 1,
@@ -170,8 +212,23 @@ export async function POST(request: NextRequest) {
       ]
     };
     
-    // Save the new pool to the database first
-    const poolDoc = await PoolModel.create(newPool);
+    // Save the new pool to the database first (the seed is never returned)
+    const poolDoc = await PoolModel.create(
+      drawSeed ? { ...newPool, payoutDraw: { ...newPool.payoutDraw, seed: drawSeed } } : newPool
+    );
+
+    if (drawSeed) {
+      newPool.messages.push({
+        id: newPool.messages.length + 1,
+        author: 'System',
+        content: `The payout order will be decided by a random draw. Draw seed hash: ${newPool.payoutDraw!.seedHash}`,
+        date: new Date().toISOString()
+      });
+      await PoolModel.updateOne({ id: poolId }, { $set: { messages: newPool.messages } });
+      await logPayoutOrderChange(newPool, { id: user._id.toString(), email: user.email }, 'payout_draw_committed', {
+        seedHash: newPool.payoutDraw!.seedHash,
+      });
+    }
 
     // Create default reminder schedules for the new pool
     try {
@@ -212,7 +269,7 @@ export async function POST(request: NextRequest) {
 
       // Generate welcome message
       newPool.messages.push({
-        id: 2,
+        id: newPool.messages.length + 1,
         author: user.name,
         content: `I've sent invitations to ${successCount} members to join our pool.`,
         date: new Date().toISOString()
@@ -240,25 +297,3 @@ export async function POST(request: NextRequest) {
     methods: ['POST']
   });
 }
-
-// Helper function to calculate next payout date based on frequency
-function calculateNextPayoutDate(startDate: Date, frequency: string): Date {
-  const nextDate = new Date(startDate);
-  
-  switch (frequency.toLowerCase()) {
-    case 'weekly':
-      nextDate.setDate(nextDate.getDate() + 7);
-      break;
-    case 'biweekly':
-      nextDate.setDate(nextDate.getDate() + 14);
-      break;
-    case 'monthly':
-      nextDate.setMonth(nextDate.getMonth() + 1);
-      break;
-    default:
-      // Default to weekly
-      nextDate.setDate(nextDate.getDate() + 7);
-  }
-  
-  return nextDate;
-}
\ No newline at end of file
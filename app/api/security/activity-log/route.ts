@@ -1,78 +1,105 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { ActivityType } from '../../../../types/security';
-import { logServerActivity, getActivityLogs } from '../../../../lib/utils';
+import { NextRequest } from 'next/server';
+import { getCurrentUser } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import {
+  DEFAULT_ACTIVITY_PAGE_SIZE,
+  getClientActivityError,
+  getRequestContext,
+  getSecurityActivity,
+  isActivityType,
+  logSecurityActivity,
+} from '../../../../lib/security';
 
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/security/activity-log
+ * Record an activity the browser observed (see CLIENT_ACTIVITY_TYPES) for the
+ * signed-in user, from the device and location the request came from
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { userId, type, metadata = {} } = body;
-
-    if (!userId || !type) {
-      return NextResponse.json(
-        { error: 'User ID and activity type are required' },
-        { status: 400 }
-      );
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
     }
+    const user = userResult.user;
+
+    const body = await request.json();
+    const { type, metadata } = body;
 
-    // Validate activity type
-    if (!Object.values(ActivityType).includes(type as ActivityType)) {
-      return NextResponse.json(
-        { error: 'Invalid activity type' },
-        { status: 400 }
-      );
+    const activityError = getClientActivityError(type, metadata);
+    if (activityError) {
+      return ApiErrors.validationError(activityError);
     }
 
-    // Extract IP and location information
-    const ipAddress = request.headers.get('x-forwarded-for') || '127.0.0.1';
-    const userAgent = request.headers.get('user-agent') || '';
-    
-    // Add these to metadata
-    const enhancedMetadata = {
-      ...metadata,
-      ipAddress,
-      userAgent
-    };
+    const activityLog = await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      userName: user.name,
+      type,
+      metadata: metadata || {},
+      context: getRequestContext(request.headers),
+    });
 
-    // Log the activity using the server utility
-    const activityLog = logServerActivity(userId, type as ActivityType, enhancedMetadata);
+    if (!activityLog) {
+      return ApiErrors.internalError('Failed to log activity');
+    }
 
-    return NextResponse.json({
-      success: true,
-      id: activityLog?.id
-    });
+    return successResponse({ id: activityLog.id }, { status: 201 });
   } catch (error) {
     console.error('Activity log error:', error);
-    return NextResponse.json(
-      { error: 'Failed to log activity' },
-      { status: 500 }
-    );
+    return ApiErrors.internalError('Failed to log activity');
   }
 }
 
+/**
+ * GET /api/security/activity-log?page=1&limit=10&type=login&from=2024-01-01&to=2024-02-01
+ * The signed-in user's security activity, newest first
+ */
 export async function GET(request: NextRequest) {
   try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const page = parseInt(searchParams.get('page') || '1', 10);
-    const limit = parseInt(searchParams.get('limit') || '20', 10);
-    const type = searchParams.get('type') as ActivityType | undefined;
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_ACTIVITY_PAGE_SIZE), 10);
+    const type = searchParams.get('type');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1) {
+      return ApiErrors.validationError('page and limit must be positive numbers');
+    }
+    if (type && !isActivityType(type)) {
+      return ApiErrors.validationError('Invalid activity type');
+    }
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
+    const fromDate = from ? new Date(from) : undefined;
+    // A bare date for "to" covers that whole day
+    const toDate = to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return ApiErrors.validationError('from and to must be valid dates');
+    }
+    if (fromDate && toDate && fromDate > toDate) {
+      return ApiErrors.validationError('from must be before to');
     }
 
-    // Get logs using the utility function
-    const result = getActivityLogs(userId, page, limit, type);
+    const result = await getSecurityActivity(user._id.toString(), {
+      page,
+      limit,
+      type: type && isActivityType(type) ? type : undefined,
+      from: fromDate,
+      to: toDate,
+    });
 
-    return NextResponse.json(result);
+    return successResponse(result);
   } catch (error) {
     console.error('Activity log fetch error:', error);
-    return NextResponse.json(
-      { error: 'Failed to retrieve activity logs' },
-      { status: 500 }
-    );
+    return ApiErrors.internalError('Failed to retrieve activity logs');
   }
-}
\ No newline at end of file
+}
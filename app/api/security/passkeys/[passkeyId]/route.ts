@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server';
+import { getCurrentUser, getCurrentSessionId } from '../../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import {
+  getRequestContext,
+  renamePasskey,
+  removePasskey,
+  logSecurityActivity,
+  revokeAllUserSessions,
+  MAX_PASSKEY_NAME_LENGTH,
+} from '../../../../../lib/security';
+import { ActivityType } from '../../../../../types/security';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/security/passkeys/[passkeyId]
+ * Rename one of the signed-in user's passkeys
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ passkeyId: string }> }
+) {
+  try {
+    const { passkeyId } = await params;
+
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const { name } = await request.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return ApiErrors.validationError('Passkey name is required');
+    }
+    if (name.trim().length > MAX_PASSKEY_NAME_LENGTH) {
+      return ApiErrors.validationError(`Passkey name cannot exceed ${MAX_PASSKEY_NAME_LENGTH} characters`);
+    }
+
+    const passkey = await renamePasskey(user._id.toString(), passkeyId, name.trim());
+    if (!passkey) {
+      return ApiErrors.notFound('Passkey');
+    }
+
+    return successResponse({ passkey }, { message: 'Passkey renamed' });
+  } catch (error) {
+    console.error('Error renaming passkey:', error);
+    return ApiErrors.internalError('Failed to rename passkey');
+  }
+}
+
+/**
+ * DELETE /api/security/passkeys/[passkeyId]
+ * Remove one of the signed-in user's passkeys. Removing the last one while
+ * passkeys are the second factor falls back to email codes.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ passkeyId: string }> }
+) {
+  try {
+    const { passkeyId } = await params;
+
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+    const userId = user._id.toString();
+
+    const removed = await removePasskey(userId, passkeyId);
+    if (!removed) {
+      return ApiErrors.notFound('Passkey');
+    }
+    const { remaining } = removed;
+
+    const context = getRequestContext(request.headers);
+    await logSecurityActivity({
+      userId,
+      userEmail: user.email,
+      userName: user.name,
+      type: ActivityType.PASSKEY_REMOVE,
+      metadata: { name: removed.name, remaining },
+      context,
+    });
+
+    const usedForTwoFactor = user.twoFactorAuth?.enabled === true && user.twoFactorAuth.method === 'passkey';
+    const fellBackToEmail = usedForTwoFactor && remaining === 0;
+    if (fellBackToEmail) {
+      user.twoFactorAuth.method = 'email';
+      user.twoFactorAuth.lastUpdated = new Date().toISOString();
+      await user.save();
+
+      await logSecurityActivity({
+        userId,
+        userEmail: user.email,
+        type: ActivityType.TWO_FACTOR_SETUP,
+        metadata: { method: 'email', reason: 'last_passkey_removed' },
+        context,
+      });
+    }
+
+    // A removed passkey may have been lost
+    await revokeAllUserSessions(userId, 'mfa_changed', {
+      exceptSessionId: await getCurrentSessionId(request),
+    });
+
+    return successResponse(
+      { passkeyId, remaining, usedForTwoFactor: usedForTwoFactor && !fellBackToEmail },
+      { message: 'Passkey removed' }
+    );
+  } catch (error) {
+    console.error('Error removing passkey:', error);
+    return ApiErrors.internalError('Failed to remove passkey');
+  }
+}
@@ -0,0 +1,34 @@
+import { getCurrentUser } from '../../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { createPasskeyRegistrationOptions } from '../../../../../lib/security';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/security/passkeys/options
+ * Start registering a passkey: returns the options for the browser's
+ * navigator.credentials.create()
+ */
+export async function POST() {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const options = await createPasskeyRegistrationOptions({
+      id: user._id.toString(),
+      email: user.email,
+      name: user.name,
+    });
+    if ('error' in options) {
+      return ApiErrors.validationError(options.error);
+    }
+
+    return successResponse({ options });
+  } catch (error) {
+    console.error('Error creating passkey registration options:', error);
+    return ApiErrors.internalError('Failed to start passkey registration');
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest } from 'next/server';
+import { getCurrentUser, getCurrentSessionId } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import {
+  getRequestContext,
+  getDefaultPasskeyName,
+  listPasskeys,
+  registerPasskey,
+  logSecurityActivity,
+  revokeAllUserSessions,
+} from '../../../../lib/security';
+import { ActivityType } from '../../../../types/security';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/security/passkeys
+ * The signed-in user's passkeys, and whether one is their second factor
+ */
+export async function GET() {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const passkeys = await listPasskeys(user._id.toString());
+    const usedForTwoFactor = user.twoFactorAuth?.enabled === true && user.twoFactorAuth.method === 'passkey';
+
+    return successResponse({ passkeys, usedForTwoFactor });
+  } catch (error) {
+    console.error('Error listing passkeys:', error);
+    return ApiErrors.internalError('Failed to load passkeys');
+  }
+}
+
+/**
+ * POST /api/security/passkeys
+ * Finish registering a passkey with the browser's response to the options
+ * from /api/security/passkeys/options. With useForTwoFactor, passkeys also
+ * become the account's second factor.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+    const userId = user._id.toString();
+
+    const body = await request.json();
+    const { response, useForTwoFactor } = body;
+    if (!response || typeof response !== 'object' || typeof response.id !== 'string') {
+      return ApiErrors.validationError('Passkey response is required');
+    }
+
+    const context = getRequestContext(request.headers);
+    const name = typeof body.name === 'string' && body.name.trim()
+      ? body.name.trim()
+      : getDefaultPasskeyName(context.deviceInfo);
+
+    const result = await registerPasskey(userId, response, name);
+    if ('error' in result) {
+      return ApiErrors.validationError(result.error);
+    }
+
+    await logSecurityActivity({
+      userId,
+      userEmail: user.email,
+      userName: user.name,
+      type: ActivityType.PASSKEY_ADD,
+      metadata: { name: result.passkey.name },
+      context,
+    });
+
+    const alreadyTwoFactor = user.twoFactorAuth?.enabled === true && user.twoFactorAuth.method === 'passkey';
+    if (useForTwoFactor === true && !alreadyTwoFactor) {
+      user.twoFactorAuth.enabled = true;
+      user.twoFactorAuth.method = 'passkey';
+      user.twoFactorAuth.verified = true;
+      user.twoFactorAuth.lastUpdated = new Date().toISOString();
+      await user.save();
+
+      await logSecurityActivity({
+        userId,
+        userEmail: user.email,
+        type: ActivityType.TWO_FACTOR_SETUP,
+        metadata: { method: 'passkey' },
+        context,
+      });
+
+      await revokeAllUserSessions(userId, 'mfa_changed', {
+        exceptSessionId: await getCurrentSessionId(request),
+      });
+    }
+
+    return successResponse(
+      { passkey: result.passkey, usedForTwoFactor: useForTwoFactor === true || alreadyTwoFactor },
+      { message: 'Passkey added', status: 201 }
+    );
+  } catch (error) {
+    console.error('Error registering passkey:', error);
+    return ApiErrors.internalError('Failed to add passkey');
+  }
+}
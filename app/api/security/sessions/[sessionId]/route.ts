@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { getCurrentUser, getCurrentSessionId } from '../../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { revokeUserSession } from '../../../../../lib/security';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/security/sessions/[sessionId]
+ * Sign out one of the signed-in user's devices
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const revoked = await revokeUserSession(user._id.toString(), sessionId, 'revoked_by_user');
+    if (!revoked) {
+      return ApiErrors.notFound('Session');
+    }
+
+    const currentSessionId = await getCurrentSessionId(request);
+
+    return successResponse(
+      { sessionId, current: sessionId === currentSessionId },
+      { message: 'Device signed out' }
+    );
+  } catch (error) {
+    console.error('Error signing out session:', error);
+    return ApiErrors.internalError('Failed to sign out device');
+  }
+}
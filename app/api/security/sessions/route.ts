@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { getCurrentUser, getCurrentSessionId } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import { listUserSessions, revokeAllUserSessions } from '../../../../lib/security';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/security/sessions
+ * The devices the signed-in user is signed in on, with the one making this
+ * request marked as current
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const currentSessionId = await getCurrentSessionId(request);
+    const sessions = await listUserSessions(user._id.toString(), currentSessionId);
+
+    return successResponse({ sessions });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    return ApiErrors.internalError('Failed to load active sessions');
+  }
+}
+
+/**
+ * DELETE /api/security/sessions
+ * Sign out everywhere, including this device. The client should sign out
+ * locally afterwards.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    const revoked = await revokeAllUserSessions(user._id.toString(), 'signed_out_everywhere');
+
+    return successResponse({ revoked }, { message: 'Signed out of all devices' });
+  } catch (error) {
+    console.error('Error signing out all sessions:', error);
+    return ApiErrors.internalError('Failed to sign out of all devices');
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+import * as bcrypt from 'bcryptjs';
+import { getCurrentUser } from '../../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import {
+  getBackupCodeStatus,
+  getRequestContext,
+  regenerateBackupCodes,
+} from '../../../../../lib/security';
+import { sendEmailVerificationCode, verifyEmailCode, verifyTotpCode } from '../../../../../lib/services/mfa';
+import { RateLimiters } from '../../../../../lib/utils/rate-limiter';
+import { ReauthenticationMethod } from '../../../../../types/security';
+
+export const dynamic = 'force-dynamic';
+
+function getReauthentication(user: {
+  hashedPassword?: string;
+  twoFactorAuth?: { method?: string; totpSecret?: string };
+}): ReauthenticationMethod {
+  if (user.hashedPassword) return 'password';
+  if (user.twoFactorAuth?.method === 'app' && user.twoFactorAuth.totpSecret) return 'app';
+  return 'email';
+}
+
+/**
+ * GET /api/security/two-factor/backup-codes
+ * How many backup codes the signed-in user has left, and how they'll
+ * re-authenticate to regenerate them
+ */
+export async function GET() {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    return successResponse({
+      enabled: user.twoFactorAuth?.enabled === true,
+      status: getBackupCodeStatus(user.twoFactorAuth),
+      reauthentication: getReauthentication(user),
+    });
+  } catch (error) {
+    console.error('Error loading backup code status:', error);
+    return ApiErrors.internalError('Failed to load backup codes');
+  }
+}
+
+/**
+ * POST /api/security/two-factor/backup-codes
+ * Replace the user's backup codes after they re-authenticate: with their
+ * password, or for accounts without one, a code from their two-factor method
+ * (send { sendCode: true } first to have one emailed). The new codes are in
+ * the response and can't be retrieved again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+    const userId = user._id.toString();
+
+    if (!user.twoFactorAuth?.enabled) {
+      return ApiErrors.badRequest('Turn on two-factor authentication to use backup codes');
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const reauthentication = getReauthentication(user);
+
+    if (body.sendCode === true) {
+      if (reauthentication !== 'email') {
+        return ApiErrors.badRequest('Confirm with your password or authenticator app instead');
+      }
+      const sent = await sendEmailVerificationCode(userId);
+      if (!sent) {
+        return ApiErrors.internalError('Failed to send verification code');
+      }
+      return successResponse({ codeSent: true }, { message: 'Verification code sent to your email' });
+    }
+
+    const rateLimitResult = RateLimiters.reauthentication(userId);
+    if (!rateLimitResult.allowed) {
+      return ApiErrors.rateLimited('Too many attempts. Please try again later.');
+    }
+
+    let confirmed = false;
+    if (reauthentication === 'password') {
+      if (typeof body.password !== 'string' || !body.password) {
+        return ApiErrors.validationError('Password is required');
+      }
+      confirmed = await bcrypt.compare(body.password, user.hashedPassword!);
+    } else {
+      if (typeof body.code !== 'string' || !body.code.trim()) {
+        return ApiErrors.validationError('Verification code is required');
+      }
+      confirmed = reauthentication === 'app'
+        ? await verifyTotpCode(userId, body.code.trim())
+        : await verifyEmailCode(userId, body.code.trim());
+    }
+
+    if (!confirmed) {
+      return errorResponse(
+        reauthentication === 'password' ? 'Incorrect password' : 'Invalid verification code',
+        { status: 401 }
+      );
+    }
+
+    const codes = await regenerateBackupCodes(userId, { context: getRequestContext(request.headers) });
+    if (!codes) {
+      return ApiErrors.notFound('User');
+    }
+
+    return successResponse(
+      {
+        codes,
+        status: getBackupCodeStatus({ backupCodes: codes, backupCodesGeneratedAt: new Date().toISOString() }),
+      },
+      { message: 'New backup codes generated' }
+    );
+  } catch (error) {
+    console.error('Error regenerating backup codes:', error);
+    return ApiErrors.internalError('Failed to generate backup codes');
+  }
+}
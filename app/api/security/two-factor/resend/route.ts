@@ -3,7 +3,7 @@ import mongoose from 'mongoose';
 import { TwoFactorMethod, ActivityType } from '../../../../../types/security';
 import connectToDatabase from '../../../../../lib/db/connect';
 import { getUserModel } from '../../../../../lib/db/models/user';
-import { logServerActivity } from '../../../../../lib/utils';
+import { getRequestContext, logSecurityActivity } from '../../../../../lib/security';
 import { generateVerificationCode } from '../../../../../lib/utils/verification';
 
 export async function POST(request: NextRequest) {
@@ -66,9 +66,12 @@ export async function POST(request: NextRequest) {
     await user.save();
 
     // Log the activity
-    logServerActivity(userId, ActivityType.TWO_FACTOR_SETUP, {
-      method: method as TwoFactorMethod,
-      action: 'code_resent'
+    await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      type: ActivityType.TWO_FACTOR_SETUP,
+      metadata: { method: method as TwoFactorMethod, action: 'code_resent' },
+      context: getRequestContext(request.headers),
     });
 
     // IMPORTANT SECURITY NOTE:
@@ -3,7 +3,14 @@ import mongoose from 'mongoose';
 import { TwoFactorMethod, ActivityType } from '../../../../../types/security';
 import connectToDatabase from '../../../../../lib/db/connect';
 import { getUserModel } from '../../../../../lib/db/models/user';
-import { logServerActivity } from '../../../../../lib/utils';
+import {
+  getRequestContext,
+  logSecurityActivity,
+  revokeAllUserSessions,
+  generateBackupCodes,
+  hashBackupCode,
+} from '../../../../../lib/security';
+import { getCurrentSessionId } from '../../../../../lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -45,15 +52,18 @@ export async function POST(request: NextRequest) {
     // Generate a proper secret (in a real app, this would use a library like speakeasy)
     const secret = generateTotpSecret();
 
-    // Generate backup codes
+    // Generate backup codes; only their hashes are stored, so this response is
+    // the one time the user sees them
     const backupCodes = generateBackupCodes();
+    const backupCodeHashes = await Promise.all(backupCodes.map(hashBackupCode));
 
     // Update the user with 2FA settings (email-only MFA - no phone)
     user.twoFactorAuth = {
       enabled: true,
       method: method as TwoFactorMethod,
       secret,
-      backupCodes,
+      backupCodes: backupCodeHashes,
+      backupCodesGeneratedAt: new Date().toISOString(),
       lastUpdated: new Date().toISOString(),
       email: body.email || user.email,
       verified: false // Will be set to true when first verified
@@ -62,7 +72,17 @@ export async function POST(request: NextRequest) {
     await user.save();
 
     // Log the activity
-    logServerActivity(userId, ActivityType.TWO_FACTOR_SETUP, { method });
+    await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      type: ActivityType.TWO_FACTOR_SETUP,
+      metadata: { method },
+      context: getRequestContext(request.headers),
+    });
+
+    await revokeAllUserSessions(user._id.toString(), 'mfa_changed', {
+      exceptSessionId: await getCurrentSessionId(request),
+    });
 
     // For email method, a verification code would be sent
     // For app method, return the secret for QR code generation
@@ -129,7 +149,16 @@ export async function DELETE(request: NextRequest) {
     await user.save();
 
     // Log the activity
-    logServerActivity(userId, ActivityType.TWO_FACTOR_DISABLE, {});
+    await logSecurityActivity({
+      userId: user._id.toString(),
+      userEmail: user.email,
+      type: ActivityType.TWO_FACTOR_DISABLE,
+      context: getRequestContext(request.headers),
+    });
+
+    await revokeAllUserSessions(user._id.toString(), 'mfa_changed', {
+      exceptSessionId: await getCurrentSessionId(request),
+    });
 
     return NextResponse.json({
       success: true,
@@ -178,9 +207,12 @@ export async function GET(request: NextRequest) {
     const twoFactorObj = (user.twoFactorAuth as TwoFactorWithToObject).toObject
       ? (user.twoFactorAuth as TwoFactorWithToObject).toObject!()
       : (user.twoFactorAuth as Record<string, unknown>);
-    const { secret: _secret, backupCodes: _backupCodes, ...safeData } = twoFactorObj;
+    const { secret: _secret, backupCodes, ...safeData } = twoFactorObj;
 
-    return NextResponse.json(safeData);
+    return NextResponse.json({
+      ...safeData,
+      backupCodesRemaining: Array.isArray(backupCodes) ? backupCodes.length : 0,
+    });
   } catch (error) {
     console.error('2FA status error:', error);
     return NextResponse.json(
@@ -202,12 +234,3 @@ function generateTotpSecret() {
     'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'[Math.floor(Math.random() * 32)]
   ).join('');
 }
-
-function generateBackupCodes() {
-  // Generate 8 backup codes, each 8 digits long
-  return Array.from({ length: 8 }, () =>
-    Array.from({ length: 8 }, () =>
-      '0123456789'[Math.floor(Math.random() * 10)]
-    ).join('')
-  );
-}
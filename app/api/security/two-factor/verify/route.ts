@@ -3,7 +3,7 @@ import mongoose from 'mongoose';
 import connectToDatabase from '../../../../../lib/db/connect';
 import { getUserModel } from '../../../../../lib/db/models/user';
 import { ActivityType } from '../../../../../types/security';
-import { logServerActivity } from '../../../../../lib/utils';
+import { getRequestContext, logSecurityActivity, redeemBackupCode } from '../../../../../lib/security';
 
 export async function POST(request: NextRequest) {
   try {
@@ -87,16 +87,13 @@ export async function POST(request: NextRequest) {
         success = verifyTotpCode(code, user.twoFactorAuth.secret);
       }
     } else if (recoveryCode) {
-      // Verify recovery code
-      if (user.twoFactorAuth.backupCodes && user.twoFactorAuth.backupCodes.includes(recoveryCode)) {
+      // Verify recovery code (removed on use, and the user is emailed)
+      const redeemed = await redeemBackupCode(user._id.toString(), String(recoveryCode), {
+        context: getRequestContext(request.headers),
+      });
+      if (redeemed) {
         success = true;
         usedRecoveryCode = true;
-        
-        // Remove the used recovery code
-        user.twoFactorAuth.backupCodes = user.twoFactorAuth.backupCodes.filter(
-          (backupCode: string) => backupCode !== recoveryCode
-        );
-        await user.save();
       }
     }
 
@@ -114,10 +111,12 @@ export async function POST(request: NextRequest) {
       await user.save();
       
       // Log the successful verification
-      logServerActivity(userId, ActivityType.TWO_FACTOR_SETUP, { 
-        usedRecoveryCode,
-        method: user.twoFactorAuth.method,
-        verified: true
+      await logSecurityActivity({
+        userId: user._id.toString(),
+        userEmail: user.email,
+        type: ActivityType.TWO_FACTOR_SETUP,
+        metadata: { usedRecoveryCode, method: user.twoFactorAuth.method, verified: true },
+        context: getRequestContext(request.headers),
       });
 
       return NextResponse.json({
@@ -126,10 +125,12 @@ export async function POST(request: NextRequest) {
       });
     } else {
       // Log the failed verification
-      logServerActivity(userId, ActivityType.SUSPICIOUS_ACTIVITY, { 
-        usedRecoveryCode,
-        method: user.twoFactorAuth.method,
-        event: 'two_factor_failed'
+      await logSecurityActivity({
+        userId: user._id.toString(),
+        userEmail: user.email,
+        type: ActivityType.SUSPICIOUS_ACTIVITY,
+        metadata: { usedRecoveryCode, method: user.twoFactorAuth.method, event: 'two_factor_failed', reason: 'Failed two-factor code' },
+        context: getRequestContext(request.headers),
       });
 
       return NextResponse.json(
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '../../../../lib/db/connect';
+import { getUserModel } from '../../../../lib/db/models/user';
+import { getKeywordReply, maskPhoneNumber, normalizePhoneNumber, parseSmsKeyword } from '../../../../lib/sms';
+import { parseSmsWebhook, twimlResponse } from '../../../../lib/sms/webhook';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/sms/inbound
+ * Twilio webhook for incoming text messages. Handles the STOP/START/HELP
+ * keywords; anything else is ignored without a reply.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { params, valid } = await parseSmsWebhook(request);
+    if (!valid) {
+      return new NextResponse('Invalid signature', { status: 403 });
+    }
+
+    const from = normalizePhoneNumber(params.From);
+    const keyword = parseSmsKeyword(params.Body);
+
+    if (!from || !keyword) {
+      return xml(twimlResponse());
+    }
+
+    await connectToDatabase();
+    const UserModel = getUserModel();
+
+    if (keyword === 'stop') {
+      const result = await UserModel.updateMany(
+        { phone: from },
+        { $set: { smsOptOut: true, smsOptOutAt: new Date() } }
+      );
+      console.log(`[SMS] ${maskPhoneNumber(from)} opted out (${result.modifiedCount} users)`);
+    } else if (keyword === 'start') {
+      const result = await UserModel.updateMany(
+        { phone: from },
+        { $set: { smsOptOut: false }, $unset: { smsOptOutAt: '' } }
+      );
+      console.log(`[SMS] ${maskPhoneNumber(from)} opted back in (${result.modifiedCount} users)`);
+    }
+
+    return xml(twimlResponse(getKeywordReply(keyword)));
+  } catch (error) {
+    console.error('Error handling inbound SMS:', error);
+    return xml(twimlResponse(), 500);
+  }
+}
+
+function xml(body: string, status = 200): NextResponse {
+  return new NextResponse(body, {
+    status,
+    headers: { 'Content-Type': 'text/xml' },
+  });
+}
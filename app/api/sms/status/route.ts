@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '../../../../lib/db/connect';
+import { getSentReminderModel } from '../../../../lib/db/models/reminder';
+import { getUserModel } from '../../../../lib/db/models/user';
+import { SmsDeliveryStatus, toReminderStatus } from '../../../../lib/sms';
+import { parseSmsWebhook } from '../../../../lib/sms/webhook';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Twilio error code for a recipient who replied STOP at the carrier level
+const TWILIO_UNSUBSCRIBED_ERROR = '21610';
+
+/**
+ * POST /api/sms/status
+ * Twilio delivery status callback. Records the carrier status on the
+ * SentReminder that carried the message.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { params, valid } = await parseSmsWebhook(request);
+    if (!valid) {
+      return new NextResponse('Invalid signature', { status: 403 });
+    }
+
+    const messageId = params.MessageSid;
+    const deliveryStatus = params.MessageStatus as SmsDeliveryStatus | undefined;
+    if (!messageId || !deliveryStatus) {
+      return new NextResponse('Missing MessageSid or MessageStatus', { status: 400 });
+    }
+
+    await connectToDatabase();
+    const sentReminder = await getSentReminderModel().findOne({ externalMessageId: messageId });
+
+    if (!sentReminder) {
+      // Not a reminder (e.g. a verification code) - nothing to record
+      return new NextResponse(null, { status: 204 });
+    }
+
+    const status = toReminderStatus(deliveryStatus);
+    sentReminder.deliveryStatus = deliveryStatus;
+    sentReminder.deliveryStatusUpdatedAt = new Date();
+    if (params.ErrorCode) {
+      sentReminder.deliveryErrorCode = params.ErrorCode;
+    }
+
+    // Callbacks can arrive out of order; never move a final state back to 'sent'
+    if (status === 'delivered') {
+      sentReminder.status = 'delivered';
+      sentReminder.deliveredAt = new Date();
+    } else if (status === 'failed' && sentReminder.status !== 'delivered') {
+      sentReminder.status = 'failed';
+      sentReminder.failureReason = params.ErrorCode
+        ? `Carrier reported ${deliveryStatus} (error ${params.ErrorCode})`
+        : `Carrier reported ${deliveryStatus}`;
+    }
+
+    await sentReminder.save();
+
+    if (params.ErrorCode === TWILIO_UNSUBSCRIBED_ERROR) {
+      await getUserModel().updateOne(
+        { _id: sentReminder.userId },
+        { $set: { smsOptOut: true, smsOptOutAt: new Date() } }
+      );
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error handling SMS status callback:', error);
+    return new NextResponse('Failed to record status', { status: 500 });
+  }
+}
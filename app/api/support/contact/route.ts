@@ -1,12 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import nodemailer from 'nodemailer';
-
-// Email configuration from environment variables
-const SUPPORT_EMAIL = process.env.EMAIL_USER || 'juntassegurasservice@gmail.com';
-const SMTP_HOST = process.env.SMTP_HOST || 'smtp.gmail.com';
-const SMTP_PORT = parseInt(process.env.SMTP_PORT || '587', 10);
-const SMTP_USER = process.env.EMAIL_USER || 'juntassegurasservice@gmail.com';
-const SMTP_PASSWORD = process.env.EMAIL_PASSWORD || '';
+import { getEmailService } from '../../../../lib/email/index';
+import { getSupportInboxEmail } from '../../../../lib/support';
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,26 +24,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create a nodemailer transporter
-    const transporter = nodemailer.createTransport({
-      host: SMTP_HOST,
-      port: SMTP_PORT,
-      secure: SMTP_PORT === 465, // true for 465, false for other ports
-      auth: {
-        user: SMTP_USER,
-        pass: SMTP_PASSWORD,
-      },
-    });
-
     // Format the subject line
     const subjectLine = subject 
       ? `[${category || 'General'}] ${subject}` 
       : `[${category || 'General'}] Support Request`;
 
     // Prepare email content
-    const mailOptions = {
-      from: `"Juntas Seguras Support" <${SUPPORT_EMAIL}>`,
-      to: SUPPORT_EMAIL,
+    const result = await getEmailService().send({
+      to: getSupportInboxEmail(),
       replyTo: email,
       subject: subjectLine,
       text: `
@@ -98,24 +80,13 @@ ${message}
   <p style="color: #6b7280; font-size: 14px;">This message was sent from the Juntas Seguras support form.</p>
 </div>
       `,
-    };
+      tags: ['support'],
+    });
 
-    // For development testing, log the email content instead of sending
-    if (process.env.NODE_ENV === 'development') {
-      console.log('Email would be sent in production:');
-      console.log(mailOptions);
-      
-      // Mock successful sending
-      return NextResponse.json({ 
-        success: true,
-        message: 'Support request submitted successfully (development mode)',
-        ticketId: `DEV-${Date.now().toString(36).toUpperCase()}`
-      });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send support email');
     }
 
-    // Send the email (in production)
-    await transporter.sendMail(mailOptions);
-
     // Create a ticket ID for reference (in a real app, this would come from a ticketing system)
     const ticketId = `TKT-${Date.now().toString(36).toUpperCase()}`;
 
@@ -135,7 +106,7 @@ ${message}
   }
 }
 
-// For testing the connection
+// For checking the email configuration
 export async function GET() {
   if (process.env.NODE_ENV !== 'development') {
     return NextResponse.json(
@@ -144,44 +115,21 @@ export async function GET() {
     );
   }
 
-  try {
-    // Create a nodemailer transporter
-    const transporter = nodemailer.createTransport({
-      host: SMTP_HOST,
-      port: SMTP_PORT,
-      secure: SMTP_PORT === 465,
-      auth: {
-        user: SMTP_USER,
-        pass: SMTP_PASSWORD,
-      },
-    });
+  const emailService = getEmailService();
 
-    // Verify the connection
-    await transporter.verify();
-    
-    return NextResponse.json({
-      success: true,
-      message: 'SMTP connection verified successfully',
-      config: {
-        host: SMTP_HOST,
-        port: SMTP_PORT,
-        secure: SMTP_PORT === 465,
-        user: SMTP_USER ? '********' : 'Not configured',
-      }
-    });
-  } catch (error: any) {
+  if (!emailService.isConfigured()) {
     return NextResponse.json(
-      { 
-        error: 'SMTP connection failed',
-        details: error.message,
-        config: {
-          host: SMTP_HOST,
-          port: SMTP_PORT,
-          secure: SMTP_PORT === 465,
-          user: SMTP_USER ? '********' : 'Not configured',
-        }
+      {
+        error: 'Email provider is not configured',
+        config: { provider: emailService.providerName },
       },
       { status: 500 }
     );
   }
+
+  return NextResponse.json({
+    success: true,
+    message: 'Email provider is configured',
+    config: { provider: emailService.providerName },
+  });
 }
\ No newline at end of file
@@ -1,94 +1,122 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { 
-  SupportTicket, 
-  TicketStatus, 
-  TicketPriority, 
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import connectToDatabase from '../../../../lib/db/connect';
+import { getSupportTicketModel, ISupportTicket } from '../../../../lib/db/models/supportTicket';
+import {
+  calculateSlaDeadlines,
+  isSupportStaffEmail,
+  getSupportStaff,
+  findSupportStaffMember,
+  serializeTicket,
+  getTicketStats,
+  generateTicketId,
+  generateResponseId,
+  CLOSED_TICKET_STATUSES,
+  sendTicketEmail,
+} from '../../../../lib/support';
+import {
+  TicketStatus,
+  TicketPriority,
   TicketCategory,
   CreateTicketRequest,
   UpdateTicketRequest,
   AddResponseRequest,
-  TicketStats
 } from '../../../../types/support';
 
-// In-memory ticket store (would be a database in production)
-const ticketsStore = new Map<string, SupportTicket>();
+// Resolve the caller from the session; staff are configured via SUPPORT_STAFF_EMAILS
+async function getRequester() {
+  const session = await getServerSession(authOptions);
+  const userId = session?.user?.id;
+  const isStaff = isSupportStaffEmail(session?.user?.email);
 
-// Support staff list (would be from a database in production)
-const supportStaff = [
-  { id: 'staff1', name: 'Support Team', email: 'juntassegurasservice@gmail.com' },
-];
+  return { session, userId, isStaff };
+}
 
 // GET /api/support/tickets - Get all tickets or a specific ticket if ticketId is provided
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const ticketId = searchParams.get('ticketId');
-    const userId = searchParams.get('userId');
     const status = searchParams.get('status');
+    const assignedTo = searchParams.get('assignedTo');
     const statsOnly = searchParams.get('stats') === 'true';
-    
-    // Check if user is authorized (for admin access)
-    const isAdmin = request.headers.get('x-admin-key') === 'admin-secret';
-    
-    // If stats requested, return ticket statistics (admin only)
-    if (statsOnly && isAdmin) {
-      return NextResponse.json(getTicketStats());
+
+    const { userId, isStaff } = await getRequester();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Not authorized to access tickets' },
+        { status: 401 }
+      );
+    }
+
+    // If stats requested, return ticket statistics (staff only)
+    if (statsOnly) {
+      if (!isStaff) {
+        return NextResponse.json(
+          { error: 'Not authorized to view ticket statistics' },
+          { status: 403 }
+        );
+      }
+
+      return NextResponse.json({ stats: await getTicketStats() });
     }
-    
+
+    await connectToDatabase();
+    const SupportTicketModel = getSupportTicketModel();
+
     // If ticket ID is provided, return that specific ticket
     if (ticketId) {
-      const ticket = ticketsStore.get(ticketId);
-      
+      const ticket = await SupportTicketModel.findOne({ ticketId });
+
       if (!ticket) {
         return NextResponse.json(
           { error: 'Ticket not found' },
           { status: 404 }
         );
       }
-      
-      // Check if user is authorized to view this ticket
-      if (!isAdmin && userId && ticket.userId !== userId) {
+
+      // Requesters can only view their own tickets
+      if (!isStaff && ticket.userId !== userId) {
         return NextResponse.json(
           { error: 'Not authorized to view this ticket' },
           { status: 403 }
         );
       }
-      
-      return NextResponse.json({ ticket });
+
+      return NextResponse.json({
+        ticket: serializeTicket(ticket),
+        ...(isStaff && { supportStaff: await getSupportStaff() })
+      });
     }
-    
-    // If user ID is provided, return only that user's tickets
-    if (userId && !isAdmin) {
-      const userTickets = Array.from(ticketsStore.values())
-        .filter(ticket => ticket.userId === userId)
-        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
-      
-      return NextResponse.json({ tickets: userTickets });
+
+    // Requesters only see their own tickets
+    if (!isStaff) {
+      const userTickets = await SupportTicketModel.find({ userId })
+        .sort({ updatedAt: -1 });
+
+      return NextResponse.json({ tickets: userTickets.map(ticket => serializeTicket(ticket)) });
     }
-    
-    // For admin, return all tickets (with optional status filter)
-    if (isAdmin) {
-      let tickets = Array.from(ticketsStore.values());
-      
-      // Apply status filter if provided
-      if (status) {
-        tickets = tickets.filter(ticket => ticket.status === status);
-      }
-      
-      // Sort by updated date (most recent first)
-      tickets.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
-      
-      return NextResponse.json({ 
-        tickets,
-        supportStaff
-      });
+
+    // For staff, return all tickets (with optional status and assignee filters)
+    const query: Record<string, unknown> = {};
+
+    if (status && Object.values(TicketStatus).includes(status as TicketStatus)) {
+      query.status = status;
     }
-    
-    // If no authorized access, return error
-    return NextResponse.json(
-      { error: 'Not authorized to access tickets' },
-      { status: 403 }
-    );
+
+    if (assignedTo) {
+      // null matches tickets with no assignee field at all
+      query.assignedTo = assignedTo === 'unassigned' ? null : assignedTo;
+    }
+
+    const tickets = await SupportTicketModel.find(query).sort({ updatedAt: -1 });
+
+    return NextResponse.json({
+      tickets: tickets.map(ticket => serializeTicket(ticket)),
+      supportStaff: await getSupportStaff()
+    });
   } catch (error) {
     console.error('Error fetching tickets:', error);
     return NextResponse.json(
@@ -102,8 +130,8 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json() as CreateTicketRequest;
-    const { userId, name, email, subject, message, category, priority } = body;
-    
+    const { name, email, subject, message, category, priority } = body;
+
     // Validate required fields
     if (!name || !email || !message) {
       return NextResponse.json(
@@ -111,7 +139,7 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    
+
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(email)) {
@@ -120,42 +148,42 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    
-    // Generate a unique ticket ID
-    const ticketId = `TKT-${Date.now().toString(36).toUpperCase()}`;
-    
-    // Create the ticket
-    const newTicket: SupportTicket = {
-      id: ticketId,
+
+    // Guests may open tickets; signed-in users are linked by session, not body
+    const { userId } = await getRequester();
+
+    await connectToDatabase();
+    const SupportTicketModel = getSupportTicketModel();
+
+    const now = new Date();
+    const ticketPriority = validatePriority(priority);
+
+    // In a real app, we would also handle file uploads for attachments here
+
+    // Save the ticket with SLA deadlines for its priority
+    const ticket = await SupportTicketModel.create({
+      ticketId: generateTicketId(),
       userId: userId || undefined,
       userName: name,
       userEmail: email,
       subject: subject || 'Support Request',
       message,
       category: validateCategory(category),
-      priority: validatePriority(priority),
+      priority: ticketPriority,
       status: TicketStatus.OPEN,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      ...calculateSlaDeadlines(now, ticketPriority),
       responses: []
-    };
-    
-    // In a real app, we would also handle file uploads for attachments here
-    
-    // Save the ticket
-    ticketsStore.set(ticketId, newTicket);
-    
-    // Send email notification (for production)
-    await sendEmailNotification({
-      type: 'new_ticket',
-      ticket: newTicket
     });
-    
+
+    const newTicket = serializeTicket(ticket);
+
+    await sendTicketEmail('new_ticket', newTicket);
+
     // Return the created ticket
     return NextResponse.json({
       success: true,
       message: 'Support ticket created successfully',
-      ticketId,
+      ticketId: newTicket.id,
       ticket: newTicket
     });
   } catch (error) {
@@ -170,61 +198,102 @@ export async function POST(request: NextRequest) {
 // PATCH /api/support/tickets - Update a ticket's status, priority, or assign staff
 export async function PATCH(request: NextRequest) {
   try {
-    // Check if user is authorized (admin only)
-    const isAdmin = request.headers.get('x-admin-key') === 'admin-secret';
-    
-    if (!isAdmin) {
+    // Check if user is authorized (staff only)
+    const { isStaff } = await getRequester();
+
+    if (!isStaff) {
       return NextResponse.json(
         { error: 'Not authorized to update tickets' },
         { status: 403 }
       );
     }
-    
+
     const body = await request.json() as UpdateTicketRequest;
     const { ticketId, status, priority, assignedTo } = body;
-    
+
     if (!ticketId) {
       return NextResponse.json(
         { error: 'Ticket ID is required' },
         { status: 400 }
       );
     }
-    
+
+    if (status && !Object.values(TicketStatus).includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid ticket status' },
+        { status: 400 }
+      );
+    }
+
+    if (priority && !Object.values(TicketPriority).includes(priority)) {
+      return NextResponse.json(
+        { error: 'Invalid ticket priority' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+    const SupportTicketModel = getSupportTicketModel();
+
     // Get the ticket
-    const ticket = ticketsStore.get(ticketId);
-    
+    const ticket = await SupportTicketModel.findOne({ ticketId });
+
     if (!ticket) {
       return NextResponse.json(
         { error: 'Ticket not found' },
         { status: 404 }
       );
     }
-    
+
     // Update the ticket
-    if (status) ticket.status = status;
-    if (priority) ticket.priority = priority;
-    if (assignedTo !== undefined) ticket.assignedTo = assignedTo || undefined;
-    
-    // Update the timestamp
-    ticket.updatedAt = new Date().toISOString();
-    
+    if (status) {
+      applyStatus(ticket, status);
+    }
+
+    if (priority && priority !== ticket.priority) {
+      // Re-stamp SLA deadlines from the original open time
+      const deadlines = calculateSlaDeadlines(ticket.createdAt, priority);
+      ticket.priority = priority;
+      ticket.firstResponseDueAt = deadlines.firstResponseDueAt;
+      ticket.resolutionDueAt = deadlines.resolutionDueAt;
+    }
+
+    if (assignedTo !== undefined) {
+      if (assignedTo) {
+        const staffMember = await findSupportStaffMember(assignedTo);
+
+        if (!staffMember) {
+          return NextResponse.json(
+            { error: 'Assignee is not a support staff member' },
+            { status: 400 }
+          );
+        }
+
+        ticket.assignedTo = staffMember.id;
+        ticket.assignedToName = staffMember.name;
+        ticket.assignedAt = new Date();
+      } else {
+        ticket.assignedTo = undefined;
+        ticket.assignedToName = undefined;
+        ticket.assignedAt = undefined;
+      }
+    }
+
     // Save the updated ticket
-    ticketsStore.set(ticketId, ticket);
-    
-    // Send email notification for status change
+    await ticket.save();
+
+    const updatedTicket = serializeTicket(ticket);
+
+    // Let the user know their ticket's status changed
     if (status) {
-      await sendEmailNotification({
-        type: 'ticket_updated',
-        ticket,
-        update: { field: 'status', value: status }
-      });
+      await sendTicketEmail('ticket_updated', updatedTicket);
     }
-    
+
     // Return the updated ticket
     return NextResponse.json({
       success: true,
       message: 'Ticket updated successfully',
-      ticket
+      ticket: updatedTicket
     });
   } catch (error) {
     console.error('Ticket update error:', error);
@@ -235,12 +304,12 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
-// Add endpoint to add a response to a ticket
+// PUT /api/support/tickets - Add a response to a ticket's thread
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json() as AddResponseRequest;
     const { ticketId, message, fromSupport, userName } = body;
-    
+
     // Validate required fields
     if (!ticketId || !message || userName === undefined) {
       return NextResponse.json(
@@ -248,79 +317,79 @@ export async function PUT(request: NextRequest) {
         { status: 400 }
       );
     }
-    
+
+    const { userId, isStaff } = await getRequester();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Not authorized to respond to this ticket' },
+        { status: 401 }
+      );
+    }
+
+    await connectToDatabase();
+    const SupportTicketModel = getSupportTicketModel();
+
     // Get the ticket
-    const ticket = ticketsStore.get(ticketId);
-    
+    const ticket = await SupportTicketModel.findOne({ ticketId });
+
     if (!ticket) {
       return NextResponse.json(
         { error: 'Ticket not found' },
         { status: 404 }
       );
     }
-    
+
     // Check if user is authorized
-    const isAdmin = request.headers.get('x-admin-key') === 'admin-secret';
-    const userId = request.headers.get('user-id');
-    
-    if (fromSupport && !isAdmin) {
+    if (fromSupport && !isStaff) {
       return NextResponse.json(
         { error: 'Not authorized to respond as support' },
         { status: 403 }
       );
     }
-    
-    if (!fromSupport && userId && ticket.userId !== userId) {
+
+    if (!fromSupport && ticket.userId !== userId) {
       return NextResponse.json(
         { error: 'Not authorized to respond to this ticket' },
         { status: 403 }
       );
     }
-    
-    // Generate response ID
-    const responseId = `RES-${Date.now().toString(36).toUpperCase()}`;
-    
-    // Create the response
-    const response = {
-      id: responseId,
-      ticketId,
+
+    const now = new Date();
+
+    // Add response to the ticket thread
+    ticket.responses.push({
+      responseId: generateResponseId(),
       message,
-      fromSupport,
+      fromSupport: !!fromSupport,
+      authorId: userId,
       userName,
-      createdAt: new Date().toISOString()
-    };
-    
-    // Add response to ticket
-    if (!ticket.responses) {
-      ticket.responses = [];
-    }
-    
-    ticket.responses.push(response);
-    
+      createdAt: now
+    });
+
     // Update ticket status based on who responded
     if (fromSupport) {
-      ticket.status = TicketStatus.WAITING;
+      if (!ticket.firstRespondedAt) {
+        ticket.firstRespondedAt = now;
+      }
+      applyStatus(ticket, TicketStatus.WAITING);
     } else {
-      ticket.status = TicketStatus.OPEN;
+      applyStatus(ticket, TicketStatus.OPEN);
     }
-    
-    ticket.updatedAt = new Date().toISOString();
-    
+
     // Save the updated ticket
-    ticketsStore.set(ticketId, ticket);
-    
-    // Send email notification
-    await sendEmailNotification({
-      type: fromSupport ? 'support_response' : 'user_response',
-      ticket,
-      response
-    });
-    
+    await ticket.save();
+
+    const updatedTicket = serializeTicket(ticket);
+    const response = updatedTicket.responses?.[updatedTicket.responses.length - 1];
+
+    await sendTicketEmail(fromSupport ? 'support_response' : 'user_response', updatedTicket, response);
+
     // Return the updated ticket
     return NextResponse.json({
       success: true,
       message: 'Response added successfully',
-      ticket
+      ticket: updatedTicket
     });
   } catch (error) {
     console.error('Add response error:', error);
@@ -331,73 +400,31 @@ export async function PUT(request: NextRequest) {
   }
 }
 
+// Helper function to change status while keeping the resolution timer in sync
+function applyStatus(ticket: ISupportTicket, status: TicketStatus) {
+  const wasClosed = CLOSED_TICKET_STATUSES.includes(ticket.status);
+  const isClosed = CLOSED_TICKET_STATUSES.includes(status);
+
+  if (isClosed && !wasClosed) {
+    ticket.resolvedAt = new Date();
+  } else if (!isClosed && wasClosed) {
+    // Reopened tickets resume the resolution timer
+    ticket.resolvedAt = undefined;
+  }
+
+  ticket.status = status;
+}
+
 // Helper function to validate category
 function validateCategory(category: string): TicketCategory {
-  try {
-    return category as TicketCategory;
-  } catch {
-    return TicketCategory.GENERAL;
-  }
+  return Object.values(TicketCategory).includes(category as TicketCategory)
+    ? category as TicketCategory
+    : TicketCategory.GENERAL;
 }
 
 // Helper function to validate priority
 function validatePriority(priority: string): TicketPriority {
-  try {
-    return priority as TicketPriority;
-  } catch {
-    return TicketPriority.NORMAL;
-  }
+  return Object.values(TicketPriority).includes(priority as TicketPriority)
+    ? priority as TicketPriority
+    : TicketPriority.NORMAL;
 }
-
-// Helper function to get ticket statistics
-function getTicketStats(): TicketStats {
-  const tickets = Array.from(ticketsStore.values());
-  
-  const stats: TicketStats = {
-    total: tickets.length,
-    open: tickets.filter(t => t.status === TicketStatus.OPEN).length,
-    inProgress: tickets.filter(t => t.status === TicketStatus.IN_PROGRESS).length,
-    waiting: tickets.filter(t => t.status === TicketStatus.WAITING).length,
-    resolved: tickets.filter(t => t.status === TicketStatus.RESOLVED).length,
-    closed: tickets.filter(t => t.status === TicketStatus.CLOSED).length,
-    byCategory: {},
-    byPriority: {}
-  };
-  
-  // Count by category
-  tickets.forEach(ticket => {
-    const categoryCount = stats.byCategory[ticket.category] || 0;
-    stats.byCategory[ticket.category] = categoryCount + 1;
-    
-    const priorityCount = stats.byPriority[ticket.priority] || 0;
-    stats.byPriority[ticket.priority] = priorityCount + 1;
-  });
-  
-  return stats;
-}
-
-// Helper function to send email notifications
-async function sendEmailNotification(params: {
-  type: 'new_ticket' | 'ticket_updated' | 'support_response' | 'user_response';
-  ticket: SupportTicket;
-  update?: { field: string; value: any };
-  response?: any;
-}) {
-  // In a real app, this would send actual emails using nodemailer
-  // For development, we just log the notification details
-  
-  if (process.env.NODE_ENV === 'development') {
-    console.log('Email notification would be sent in production:');
-    console.log('Type:', params.type);
-    console.log('Ticket ID:', params.ticket.id);
-    console.log('Recipient:', params.type.includes('support') 
-      ? params.ticket.userEmail
-      : 'juntassegurasservice@gmail.com');
-  }
-  
-  // In production:
-  // 1. Format appropriate email content based on notification type
-  // 2. Send email using nodemailer or email service API
-  
-  return true;
-}
\ No newline at end of file
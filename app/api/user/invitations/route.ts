@@ -55,6 +55,7 @@ export async function GET(request: NextRequest) {
           poolName: pool.name,
           poolDescription: pool.description,
           contributionAmount: pool.contributionAmount,
+          currency: pool.currency,
           frequency: pool.frequency,
           memberCount: pool.members.length,
           invitedBy: inv.invitedBy,
@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server';
+import connectToDatabase from '../../../../lib/db/connect';
+import { getUserModel } from '../../../../lib/db/models/user';
+import { getNotificationPreferenceModel } from '../../../../lib/db/models/notificationPreference';
+import { getCurrentUser } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import { RateLimiters } from '../../../../lib/utils/rate-limiter';
+import {
+  getSmsService,
+  normalizePhoneNumber,
+  generatePhoneVerificationCode,
+  hashPhoneVerificationCode,
+  PHONE_VERIFICATION_EXPIRY_MINUTES,
+} from '../../../../lib/sms';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/users/phone
+ * Get the current user's phone number and SMS status
+ */
+export async function GET() {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    return successResponse({
+      phone: user.phone || null,
+      phoneVerified: !!user.phoneVerified,
+      smsOptOut: !!user.smsOptOut,
+    });
+  } catch (error) {
+    console.error('Error fetching phone status:', error);
+    return ApiErrors.internalError('Failed to fetch phone status');
+  }
+}
+
+/**
+ * POST /api/users/phone
+ * Set the phone number and text a verification code to it
+ *
+ * Body:
+ * - phone: phone number (E.164, or a 10-digit US number)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+    const userId = user._id.toString();
+
+    const rateLimitResult = RateLimiters.phoneVerificationSend(userId);
+    if (!rateLimitResult.allowed) {
+      const retryAfterSeconds = Math.ceil(rateLimitResult.retryAfterMs / 1000);
+      return ApiErrors.rateLimited(`Too many verification texts. Please try again in ${retryAfterSeconds} seconds.`);
+    }
+
+    const body = await request.json();
+    const phone = normalizePhoneNumber(body.phone);
+    if (!phone) {
+      return ApiErrors.validationError('Enter a valid phone number, including the country code');
+    }
+
+    const phoneChanged = phone !== user.phone;
+    if (!phoneChanged && user.smsOptOut) {
+      return ApiErrors.badRequest('This number has opted out of texts. Reply START to it to opt back in.');
+    }
+
+    const smsService = getSmsService();
+    if (!smsService.isConfigured()) {
+      return ApiErrors.internalError('SMS is not available right now');
+    }
+
+    const code = generatePhoneVerificationCode();
+
+    await connectToDatabase();
+    await getUserModel().updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          phone,
+          phoneVerified: phoneChanged ? false : !!user.phoneVerified,
+          phoneVerificationCode: hashPhoneVerificationCode(code),
+          phoneVerificationExpiry: new Date(Date.now() + PHONE_VERIFICATION_EXPIRY_MINUTES * 60 * 1000),
+          // Opt-outs belong to the number that sent STOP
+          ...(phoneChanged && { smsOptOut: false }),
+        },
+      }
+    );
+
+    // A new number must be verified again before reminders go to it
+    if (phoneChanged) {
+      await getNotificationPreferenceModel().updateOne(
+        { userId: user._id },
+        { $set: { 'sms.phoneNumber': phone, 'sms.verified': false } }
+      );
+    }
+
+    const result = await smsService.sendVerificationCode(phone, code);
+    if (!result.success) {
+      console.error('Failed to send phone verification code:', result.error);
+      return ApiErrors.internalError('Failed to send verification code');
+    }
+
+    return successResponse(
+      { phone, expiresInMinutes: PHONE_VERIFICATION_EXPIRY_MINUTES },
+      { message: 'Verification code sent' }
+    );
+  } catch (error) {
+    console.error('Error starting phone verification:', error);
+    return ApiErrors.internalError('Failed to start phone verification');
+  }
+}
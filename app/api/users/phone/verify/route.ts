@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import crypto from 'crypto';
+import connectToDatabase from '../../../../../lib/db/connect';
+import { getUserModel } from '../../../../../lib/db/models/user';
+import { getNotificationPreferenceModel } from '../../../../../lib/db/models/notificationPreference';
+import { getCurrentUser } from '../../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../../lib/api';
+import { RateLimiters, resetRateLimit } from '../../../../../lib/utils/rate-limiter';
+import { hashPhoneVerificationCode } from '../../../../../lib/sms';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/users/phone/verify
+ * Confirm the phone number with the code texted by POST /api/users/phone
+ *
+ * Body:
+ * - code: 6-digit verification code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+    const userId = user._id.toString();
+
+    const rateLimitResult = RateLimiters.phoneVerification(userId);
+    if (!rateLimitResult.allowed) {
+      const retryAfterSeconds = Math.ceil(rateLimitResult.retryAfterMs / 1000);
+      return ApiErrors.rateLimited(`Too many attempts. Please try again in ${retryAfterSeconds} seconds.`);
+    }
+
+    const body = await request.json();
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    if (!/^\d{6}$/.test(code)) {
+      return ApiErrors.validationError('Enter the 6-digit code we texted you');
+    }
+
+    if (!user.phone || !user.phoneVerificationCode || !user.phoneVerificationExpiry) {
+      return ApiErrors.badRequest('No phone verification in progress');
+    }
+
+    if (user.phoneVerificationExpiry.getTime() < Date.now()) {
+      return ApiErrors.badRequest('Verification code has expired. Request a new one.');
+    }
+
+    const expected = Buffer.from(user.phoneVerificationCode);
+    const actual = Buffer.from(hashPhoneVerificationCode(code));
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return ApiErrors.badRequest('Invalid verification code');
+    }
+
+    await connectToDatabase();
+    await getUserModel().updateOne(
+      { _id: user._id },
+      {
+        $set: { phoneVerified: true },
+        $unset: { phoneVerificationCode: '', phoneVerificationExpiry: '' },
+      }
+    );
+
+    await getNotificationPreferenceModel().updateOne(
+      { userId: user._id },
+      { $set: { 'sms.phoneNumber': user.phone, 'sms.verified': true } }
+    );
+
+    resetRateLimit(userId, 'phone-verify');
+
+    return successResponse({ phone: user.phone, phoneVerified: true }, { message: 'Phone number verified' });
+  } catch (error) {
+    console.error('Error verifying phone number:', error);
+    return ApiErrors.internalError('Failed to verify phone number');
+  }
+}
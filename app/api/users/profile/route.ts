@@ -3,7 +3,7 @@ import { getServerSession } from "next-auth";
 import { getUserModel } from "../../../../lib/db/models/user";
 import connect from "../../../../lib/db/connect";
 import { authOptions } from "../../../../app/api/auth/[...nextauth]/options";
-import { logServerActivity } from "../../../../lib/utils";
+import { getRequestContext, logSecurityActivity } from "../../../../lib/security";
 import { ActivityType } from "../../../../types/security";
 
 // GET /api/users/profile - Get current user profile
@@ -73,13 +73,16 @@ export async function PUT(req: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
     
-    // Update the user profile
+    // Update the user profile. A changed phone number has to be verified again
+    // before SMS reminders are sent to it.
+    const phoneChanged = phone !== undefined && phone !== user.phone;
     const updatedUser = await UserModel.findOneAndUpdate(
       { email: session.user.email },
       { 
         name,
         phone,
-        avatar
+        avatar,
+        ...(phoneChanged && { phoneVerified: false, smsOptOut: false })
       },
       { new: true }
     );
@@ -138,7 +141,11 @@ export async function PATCH(req: NextRequest) {
     
     // Allow updating name, phone, avatar 
     if (data.name) updateData.name = data.name;
-    if (data.phone !== undefined) updateData.phone = data.phone;
+    if (data.phone !== undefined && data.phone !== user.phone) {
+      updateData.phone = data.phone;
+      updateData.phoneVerified = false;
+      updateData.smsOptOut = false;
+    }
     if (data.avatar !== undefined) updateData.avatar = data.avatar;
     
     // Allow updating MFA setup status
@@ -155,15 +162,13 @@ export async function PATCH(req: NextRequest) {
         updateData['twoFactorAuth.enabled'] = true;
         
         // Log activity for completing MFA setup
-        try {
-          logServerActivity(
-            user.id, 
-            ActivityType.TWO_FACTOR_SETUP,
-            { method: user.twoFactorAuth?.method || 'unknown', completed: true }
-          );
-        } catch (error) {
-          console.error('Failed to log MFA setup activity:', error);
-        }
+        await logSecurityActivity({
+          userId: user._id.toString(),
+          userEmail: user.email,
+          type: ActivityType.TWO_FACTOR_SETUP,
+          metadata: { method: user.twoFactorAuth?.method || 'unknown', completed: true },
+          context: getRequestContext(req.headers),
+        });
       }
     }
     
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import connectToDatabase from '../../../../lib/db/connect';
+import { getCurrentUser } from '../../../../lib/auth';
+import { ApiErrors, successResponse, errorResponse } from '../../../../lib/api';
+import { DEFAULT_RELIABILITY_VISIBILITY, getUserReliability, viewReliability } from '../../../../lib/reliability';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/users/reliability
+ * The signed-in user's reliability score with its breakdown, plus what
+ * admins of their other pools see under their visibility setting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userResult = await getCurrentUser();
+    if (userResult.error) {
+      return errorResponse(userResult.error.message, { status: userResult.error.status });
+    }
+    const user = userResult.user;
+
+    await connectToDatabase();
+
+    const reliability = await getUserReliability({ id: user._id.toString(), email: user.email });
+    const visibility = user.reliabilityVisibility || DEFAULT_RELIABILITY_VISIBILITY;
+
+    return successResponse({
+      reliability,
+      visibility,
+      sharedWithAdmins: viewReliability(reliability, visibility),
+    });
+  } catch (error) {
+    console.error('Error computing reliability score:', error);
+    return ApiErrors.internalError('Failed to compute reliability score');
+  }
+}
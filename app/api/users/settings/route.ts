@@ -3,6 +3,21 @@ import { getServerSession } from "next-auth";
 import { getUserModel } from "../../../../lib/db/models/user";
 import connect from "../../../../lib/db/connect";
 import { authOptions } from "../../../../app/api/auth/[...nextauth]/options";
+import { ReliabilityVisibility } from "../../../../types/reliability";
+import { DEFAULT_RELIABILITY_VISIBILITY } from "../../../../lib/reliability";
+import { isSupportedLocale, resolveLocale, LOCALE_COOKIE } from "../../../../lib/i18n";
+import type { Locale } from "../../../../types/i18n";
+
+// Keep the locale cookie in step with the saved language so server-rendered
+// pages use it too
+function withLocaleCookie(response: NextResponse, locale: Locale): NextResponse {
+  response.cookies.set(LOCALE_COOKIE, locale, {
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365,
+    sameSite: "lax",
+  });
+  return response;
+}
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -27,14 +42,18 @@ export async function GET(req: NextRequest) {
     
     // Get user settings or return defaults
     const userAny = user as unknown as Record<string, unknown>;
-    return NextResponse.json({
+    const language = resolveLocale(user.language);
+    return withLocaleCookie(NextResponse.json({
       id: user.id,
-      language: userAny.language || 'en',
+      language,
       timezone: userAny.timezone || 'America/New_York',
       securitySettings: {
         twoFactorAuth: user.twoFactorAuth || false,
         lastPasswordChange: userAny.lastPasswordChange || user.createdAt
       },
+      privacy: {
+        reliabilityVisibility: user.reliabilityVisibility || DEFAULT_RELIABILITY_VISIBILITY
+      },
       notificationPreferences: userAny.notificationPreferences || {
         email: {
           paymentReminders: true,
@@ -49,7 +68,7 @@ export async function GET(req: NextRequest) {
           marketing: false
         }
       }
-    });
+    }), language);
   } catch (error) {
     console.error("Error fetching user settings:", error);
     return NextResponse.json(
@@ -82,9 +101,20 @@ export async function PUT(req: NextRequest) {
     // Update settings based on what was passed
     const updateData: any = {};
     
-    if (data.language) updateData.language = data.language;
+    if (data.language !== undefined) {
+      if (!isSupportedLocale(data.language)) {
+        return NextResponse.json({ error: "Unsupported language" }, { status: 400 });
+      }
+      updateData.language = data.language;
+    }
     if (data.timezone) updateData.timezone = data.timezone;
     if (data.notificationPreferences) updateData.notificationPreferences = data.notificationPreferences;
+    if (data.privacy?.reliabilityVisibility !== undefined) {
+      if (!Object.values(ReliabilityVisibility).includes(data.privacy.reliabilityVisibility)) {
+        return NextResponse.json({ error: "Invalid reliability visibility" }, { status: 400 });
+      }
+      updateData.reliabilityVisibility = data.privacy.reliabilityVisibility;
+    }
     
     // Update the user settings
     const updatedUser = await UserModel.findOneAndUpdate(
@@ -97,10 +127,14 @@ export async function PUT(req: NextRequest) {
       return NextResponse.json({ error: "Failed to update user" }, { status: 500 });
     }
     const updatedAny = updatedUser as unknown as Record<string, unknown>;
-    return NextResponse.json({
+    const language = resolveLocale(updatedUser.language);
+    return withLocaleCookie(NextResponse.json({
       id: updatedUser.id,
-      language: updatedAny.language || 'en',
+      language,
       timezone: updatedAny.timezone || 'America/New_York',
+      privacy: {
+        reliabilityVisibility: updatedUser.reliabilityVisibility || DEFAULT_RELIABILITY_VISIBILITY
+      },
       notificationPreferences: updatedAny.notificationPreferences || {
         email: {
           paymentReminders: true,
@@ -115,7 +149,7 @@ export async function PUT(req: NextRequest) {
           marketing: false
         }
       }
-    });
+    }), language);
   } catch (error) {
     console.error("Error updating user settings:", error);
     return NextResponse.json(
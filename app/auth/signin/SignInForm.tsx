@@ -4,6 +4,8 @@ import { useState, useEffect, useCallback } from "react";
 import { signIn, useSession } from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
+import { startAuthentication } from "@simplewebauthn/browser";
+import { Fingerprint } from "lucide-react";
 import { useToast } from "../../../hooks/use-toast";
 import { FormField, FormError, FormHelper } from "../../../components/ui/form-field";
 
@@ -13,7 +15,12 @@ export default function SignInForm() {
   const { data: session, status, update } = useSession();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
+  // Middleware sends revoked sessions here with error=SessionRevoked
+  const [error, setError] = useState(() =>
+    searchParams.get("error") === "SessionRevoked"
+      ? "You've been signed out of this device. Please sign in again."
+      : ""
+  );
   const [emailError, setEmailError] = useState("");
   const [emailTouched, setEmailTouched] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -111,6 +118,45 @@ export default function SignInForm() {
     }
   };
 
+  // Passwordless sign-in: the browser offers the passkeys it holds for this site
+  const handlePasskeySignIn = async () => {
+    setIsOAuthLoading('passkey');
+    setError("");
+
+    try {
+      const optionsResponse = await fetch('/api/auth/passkey/options', { method: 'POST' });
+      const optionsData = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.error || 'Could not start passkey sign-in');
+      }
+
+      const passkeyResponse = await startAuthentication({ optionsJSON: optionsData.data.options });
+
+      const result = await signIn("credentials", {
+        passkey: JSON.stringify(passkeyResponse),
+        redirect: false,
+      });
+
+      if (result?.error) {
+        setError(result.error);
+      } else if (result?.ok) {
+        const callbackUrl = searchParams.get("callbackUrl") || "/dashboard";
+        router.push(callbackUrl);
+      } else {
+        setError("An unexpected error occurred during sign in.");
+      }
+    } catch (error: any) {
+      console.error('Passkey sign-in error:', error);
+      // The browser rejects with NotAllowedError when the prompt is dismissed
+      if (error?.name !== 'NotAllowedError') {
+        setError(error.message || "Failed to sign in with a passkey");
+      }
+    } finally {
+      setIsOAuthLoading(null);
+    }
+  };
+
   if (!mounted) {
     return null;
   }
@@ -182,6 +228,16 @@ export default function SignInForm() {
               )}
               <span>{isOAuthLoading === 'azure-ad' ? 'Signing in...' : 'Continue with Microsoft'}</span>
             </button>
+
+            <button
+              type="button"
+              onClick={handlePasskeySignIn}
+              disabled={isLoading || isOAuthLoading !== null}
+              className="w-full flex items-center justify-center gap-3 py-2.5 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Fingerprint className={`h-5 w-5 ${isOAuthLoading === 'passkey' ? 'animate-pulse' : ''}`} />
+              <span>{isOAuthLoading === 'passkey' ? 'Waiting for passkey...' : 'Sign in with a passkey'}</span>
+            </button>
           </div>
 
           <div className="relative my-6">
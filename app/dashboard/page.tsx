@@ -23,7 +23,9 @@ import {
 } from "../../components/ui/card";
 import { Button } from "../../components/ui/button";
 import { usePools } from "../../lib/hooks/usePools";
-import { formatDate } from "../../lib/utils";
+import { getPotAmount } from "../../lib/currency";
+import { getIntlLocale, translateFrequency } from "../../lib/i18n";
+import { useTranslation } from "../../contexts/LocaleContext";
 import { QuickActions } from "../../components/dashboard/QuickActions";
 import { PoolCard, PoolCardSkeleton } from "../../components/pools/PoolCard";
 import CreatePoolModal from "../../components/pools/CreatePoolModal";
@@ -32,6 +34,7 @@ import { ErrorEmptyState, FirstTimeEmptyState } from "../../components/ui/empty-
 
 export default function Dashboard() {
   const router = useRouter();
+  const { t, locale, formatDate } = useTranslation();
   const [isCreatePoolModalOpen, setIsCreatePoolModalOpen] = useState(false);
 
   const { data: session } = useSession({
@@ -87,10 +90,10 @@ export default function Dashboard() {
   });
 
   // Format currency helper
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
+  const formatCurrency = (amount: number, currency: string = 'USD') => {
+    return new Intl.NumberFormat(getIntlLocale(locale), {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
@@ -99,8 +102,8 @@ export default function Dashboard() {
     <div className="container mx-auto px-4 sm:px-6 lg:px-8">
       <main className="pt-8 pb-12">
         <DashboardHeader
-          title="My Dashboard"
-          subtitle={`Welcome back, ${session?.user?.name || 'User'}`}
+          title={t('dashboard.title')}
+          subtitle={t('dashboard.welcome', { name: session?.user?.name || t('nav.userFallback') })}
         />
 
         {/* Dashboard Alerts - User-specific notifications */}
@@ -134,9 +137,9 @@ export default function Dashboard() {
                   <Award className="h-6 w-6" />
                 </div>
                 <div className="min-w-0">
-                  <p className="font-semibold text-base sm:text-lg">You're receiving a payout!</p>
+                  <p className="font-semibold text-base sm:text-lg">{t('dashboard.receivingPayout')}</p>
                   <p className="text-emerald-100 text-sm truncate">
-                    {receivingPayout.name} - {formatCurrency(receivingPayout.contributionAmount * receivingPayout.members.length)}
+                    {receivingPayout.name} - {formatCurrency(getPotAmount(receivingPayout, receivingPayout.members.length), receivingPayout.currency)}
                   </p>
                 </div>
               </div>
@@ -145,7 +148,7 @@ export default function Dashboard() {
                 onClick={() => router.push(`/pools/${receivingPayout.id}`)}
                 className="bg-white text-emerald-700 hover:bg-emerald-50 w-full sm:w-auto shrink-0"
               >
-                View Details
+                {t('dashboard.viewDetails')}
               </Button>
             </div>
           </div>
@@ -162,8 +165,8 @@ export default function Dashboard() {
             <Card>
               <CardContent className="py-8">
                 <ErrorEmptyState
-                  title="Unable to load pools"
-                  description="We couldn't load your pools. Please try again."
+                  title={t('dashboard.loadError.title')}
+                  description={t('dashboard.loadError.description')}
                   onRetry={refreshPools}
                 />
               </CardContent>
@@ -176,9 +179,9 @@ export default function Dashboard() {
                     <PlusCircle className="h-8 w-8 text-blue-600" />
                   </div>
                   <div>
-                    <h3 className="text-xl font-semibold text-gray-900">Start Your First Junta</h3>
+                    <h3 className="text-xl font-semibold text-gray-900">{t('dashboard.getStarted.title')}</h3>
                     <p className="text-gray-500 mt-1 max-w-md">
-                      Create a savings pool with friends or family. Everyone contributes, and each member takes turns receiving the pot.
+                      {t('dashboard.getStarted.description')}
                     </p>
                   </div>
                   <div className="flex flex-col sm:flex-row gap-3">
@@ -187,14 +190,14 @@ export default function Dashboard() {
                       onClick={() => setIsCreatePoolModalOpen(true)}
                     >
                       <PlusCircle className="h-5 w-5 mr-2" />
-                      Create a Pool
+                      {t('dashboard.getStarted.createPool')}
                     </Button>
                     <Button
                       variant="outline"
                       size="lg"
                       onClick={() => router.push("/help/documentation")}
                     >
-                      Learn How It Works
+                      {t('dashboard.getStarted.learnMore')}
                     </Button>
                   </div>
                 </div>
@@ -205,10 +208,10 @@ export default function Dashboard() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Users className="h-5 w-5 text-blue-600" />
-                  Complete Your Pool Setup
+                  {t('dashboard.setup.title')}
                 </CardTitle>
                 <CardDescription>
-                  Invite members to your newly created {pendingPools.length > 1 ? 'pools' : 'pool'}
+                  {t('dashboard.setup.description', { count: pendingPools.length })}
                 </CardDescription>
               </CardHeader>
               <CardContent className="grid gap-4">
@@ -220,14 +223,17 @@ export default function Dashboard() {
                     <div className="min-w-0">
                       <h4 className="font-medium text-gray-900 truncate">{pool.name}</h4>
                       <p className="text-sm text-gray-500">
-                        {formatCurrency(pool.contributionAmount)}/{pool.frequency} • Waiting for members
+                        {t('dashboard.setup.waiting', {
+                          amount: formatCurrency(pool.contributionAmount, pool.currency),
+                          frequency: translateFrequency(locale, pool.frequency),
+                        })}
                       </p>
                     </div>
                     <Button
                       onClick={() => router.push(`/member-management/${pool.id}`)}
                       className="w-full sm:w-auto shrink-0"
                     >
-                      Invite Members
+                      {t('dashboard.setup.invite')}
                     </Button>
                   </div>
                 ))}
@@ -236,14 +242,14 @@ export default function Dashboard() {
           ) : (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <h2 className="text-lg font-semibold text-gray-900">Your Active Pools</h2>
+                <h2 className="text-lg font-semibold text-gray-900">{t('dashboard.activePools')}</h2>
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={() => setIsCreatePoolModalOpen(true)}
                 >
                   <PlusCircle className="h-4 w-4 mr-2" />
-                  New Pool
+                  {t('dashboard.newPool')}
                 </Button>
               </div>
               <div className="grid gap-4 md:grid-cols-2">
@@ -257,10 +263,11 @@ export default function Dashboard() {
                       poolId={pool.id}
                       poolName={pool.name}
                       description={pool.description}
-                      status={pool.status as 'active' | 'pending' | 'completed'}
+                      status={pool.status as 'active' | 'pending' | 'completed' | 'paused' | 'cancelled'}
                       currentRound={pool.currentRound}
                       totalRounds={pool.totalRounds}
                       contributionAmount={pool.contributionAmount}
+                      currency={pool.currency}
                       frequency={pool.frequency}
                       nextPayoutDate={pool.nextPayoutDate}
                       members={pool.members.map(m => {
@@ -298,7 +305,7 @@ export default function Dashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-500">
-                    Total Savings
+                    {t('dashboard.stats.totalSavings')}
                   </p>
                   <p className="text-2xl font-semibold">
                     ${totalSavings}
@@ -316,7 +323,7 @@ export default function Dashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-500">
-                    Active Pools
+                    {t('dashboard.stats.activePools')}
                   </p>
                   <p className="text-2xl font-semibold">
                     {activePools.length}
@@ -334,10 +341,10 @@ export default function Dashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-500">
-                    Next Payout
+                    {t('dashboard.stats.nextPayout')}
                   </p>
                   <p className="text-2xl font-semibold">
-                    {nextPayoutDate ? formatDate(new Date(nextPayoutDate)) : '-'}
+                    {nextPayoutDate ? formatDate(nextPayoutDate, 'medium') : '-'}
                   </p>
                 </div>
               </div>
@@ -352,7 +359,7 @@ export default function Dashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-500">
-                    Total Members
+                    {t('dashboard.stats.totalMembers')}
                   </p>
                   <p className="text-2xl font-semibold">
                     {totalMembers}
@@ -370,11 +377,11 @@ export default function Dashboard() {
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <div>
-                    <CardTitle>Recent Activity</CardTitle>
-                    <CardDescription>Latest updates from your pools</CardDescription>
+                    <CardTitle>{t('dashboard.activity.title')}</CardTitle>
+                    <CardDescription>{t('dashboard.activity.description')}</CardDescription>
                   </div>
                   <Button variant="ghost" size="sm" onClick={() => router.push("/my-pool")}>
-                    View All
+                    {t('dashboard.activity.viewAll')}
                   </Button>
                 </div>
               </CardHeader>
@@ -394,7 +401,7 @@ export default function Dashboard() {
                           <div className="flex items-center gap-2">
                             <span className="font-medium text-gray-900 truncate">{message.author}</span>
                             <span className="text-xs text-gray-500 shrink-0">
-                              {formatDate(new Date(message.date))}
+                              {formatDate(message.date, 'medium')}
                             </span>
                           </div>
                           <p className="text-sm text-gray-600 line-clamp-2">{message.content}</p>
@@ -404,7 +411,7 @@ export default function Dashboard() {
                     ))
                   ) || (
                     <div className="text-center py-6 text-gray-500 text-sm">
-                      No recent activity
+                      {t('dashboard.activity.empty')}
                     </div>
                   )}
                 </div>
@@ -75,7 +75,7 @@ export default function PaymentsDocumentationPage() {
 
             <div className="mt-4 p-4 bg-blue-50 rounded-md border border-blue-100">
               <p className="text-sm text-blue-800">
-                <span className="font-medium">Note:</span> Contribution amounts range from $1 to $20 per period. After sending your contribution, confirm the payment in the app so the administrator can track it.
+                <span className="font-medium">Note:</span> Each pool's tier sets its contribution limit: up to $20 per period for Standard pools, and more for Plus and Premium pools, which require identity verification. After sending your contribution, confirm the payment in the app so the administrator can track it.
               </p>
             </div>
           </section>
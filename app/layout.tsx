@@ -1,9 +1,11 @@
 import type { Metadata } from "next";
+import { cookies, headers } from "next/headers";
 import { Inter, JetBrains_Mono } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "../components/ui/toaster";
 import { Providers } from "./providers";
 import { MobileBottomNav } from "../components/MobileBottomNav";
+import { getRequestLocale, LOCALE_COOKIE } from "../lib/i18n";
 
 const inter = Inter({
   variable: "--font-inter",
@@ -31,10 +33,15 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = getRequestLocale(
+    cookies().get(LOCALE_COOKIE)?.value,
+    headers().get("accept-language")
+  );
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body className={`${inter.variable} ${jetbrainsMono.variable} antialiased`}>
-        <Providers>
+        <Providers locale={locale}>
           {children}
           <MobileBottomNav />
           <Toaster />
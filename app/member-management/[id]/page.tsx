@@ -59,15 +59,20 @@ import { Badge } from "../../../components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "../../../components/ui/alert";
 import { usePool } from "../../../lib/hooks/usePool";
+import { formatAmountLabel } from "../../../lib/currency";
 import { usePoolMembers } from "../../../lib/hooks/usePoolMembers";
 import { usePoolInvitations } from "../../../lib/hooks/usePoolInvitations";
-import { PoolMember, PoolMemberRole, PoolMemberStatus, InvitationStatus } from "../../../types/pool";
+import { PoolMember, PoolMemberRole, PoolMemberStatus, PoolStatus, InvitationStatus } from "../../../types/pool";
+import { ASSIGNABLE_ROLES, getPoolRoleInfo } from "../../../lib/pools/roles";
 import { MemberMessageDialog } from "../../../components/pools/MemberMessageDialog";
 import { InviteMembersDialog } from "../../../components/pools/InviteMembersDialog";
 import { PayoutOrderManager } from "../../../components/pools/PayoutOrderManager";
+import { MemberExitsPanel } from "../../../components/pools/MemberExitsPanel";
 import { useSession } from "next-auth/react";
 import { MemberCard, MemberListHeader } from "../../../components/pools/MemberCard";
 import { SwipeableRow } from "../../../components/ui/swipeable-row";
+import { useTranslation } from "../../../contexts/LocaleContext";
+import { getIntlLocale } from "../../../lib/i18n";
 
 export default function MemberManagementPage() {
   const { data: session } = useSession();
@@ -75,6 +80,7 @@ export default function MemberManagementPage() {
   const params = useParams();
   const id = params.id as string;
   const router = useRouter();
+  const { t, locale } = useTranslation();
   const [showInviteDialog, setShowInviteDialog] = useState(false);
   const [showRemoveDialog, setShowRemoveDialog] = useState(false);
   const [showMessageDialog, setShowMessageDialog] = useState(false);
@@ -90,6 +96,7 @@ export default function MemberManagementPage() {
   const [positionsChanged, setPositionsChanged] = useState(false);
   const [originalPositions, setOriginalPositions] = useState<PoolMember[]>([]);
   const [editedMember, setEditedMember] = useState<PoolMember | null>(null);
+  const [removeReason, setRemoveReason] = useState("");
   
   // Fetch pool details
   const {
@@ -140,7 +147,7 @@ export default function MemberManagementPage() {
   };
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
+    return new Date(dateString).toLocaleDateString(getIntlLocale(locale), {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -250,7 +257,7 @@ export default function MemberManagementPage() {
       setPositionsChanged(false);
     } else {
       // Show error message
-      alert(result.error || 'Failed to update positions');
+      alert(result.error || t('memberManagement.positions.failed'));
     }
   };
   
@@ -296,7 +303,7 @@ export default function MemberManagementPage() {
       setEditedMember(null);
     } else {
       // Show error message
-      alert(result.error || 'Failed to update member');
+      alert(result.error || t('memberManagement.edit.failed'));
     }
   };
 
@@ -306,15 +313,16 @@ export default function MemberManagementPage() {
     if (!selectedMember) return;
     
     // Call the API to remove the member
-    const result = await removeMember(selectedMember.id);
+    const result = await removeMember(selectedMember.id, removeReason.trim() || undefined);
     
     if (result.success) {
       // Close dialog and reset selection
       setShowRemoveDialog(false);
       setSelectedMember(null);
+      setRemoveReason("");
     } else {
       // Show error message
-      alert(result.error || 'Failed to remove member');
+      alert(result.error || t('memberManagement.remove.failed'));
     }
   };
 
@@ -346,16 +354,16 @@ export default function MemberManagementPage() {
       const data = await response.json();
 
       if (!response.ok) {
-        alert(data.error || 'Failed to send reminder');
+        alert(data.error || t('memberManagement.reminder.failed'));
       } else {
-        alert('Reminder sent successfully!');
+        alert(t('memberManagement.reminder.sent'));
         setShowReminderDialog(false);
         setReminderMessage("");
         setSelectedMember(null);
       }
     } catch (error) {
       console.error('Error sending reminder:', error);
-      alert('An unexpected error occurred while sending the reminder');
+      alert(t('memberManagement.reminder.error'));
     } finally {
       setIsSendingReminder(false);
     }
@@ -372,7 +380,7 @@ export default function MemberManagementPage() {
       );
 
       if (membersToRemind.length === 0) {
-        alert('All members have already contributed!');
+        alert(t('memberManagement.bulkReminder.allContributed'));
         setShowBulkReminderDialog(false);
         return;
       }
@@ -394,16 +402,20 @@ export default function MemberManagementPage() {
       const failCount = results.filter((r) => r.status === 'rejected').length;
 
       if (failCount === 0) {
-        alert(`Successfully sent ${successCount} reminder${successCount !== 1 ? 's' : ''}!`);
+        alert(t('memberManagement.bulkReminder.sent', { count: successCount }));
       } else {
-        alert(`Sent ${successCount} reminder${successCount !== 1 ? 's' : ''}, ${failCount} failed.`);
+        alert(t('memberManagement.bulkReminder.partial', {
+          sent: successCount,
+          total: results.length,
+          failed: failCount,
+        }));
       }
 
       setShowBulkReminderDialog(false);
       setBulkReminderMessage("");
     } catch (error) {
       console.error('Error sending bulk reminders:', error);
-      alert('An unexpected error occurred while sending reminders');
+      alert(t('memberManagement.bulkReminder.error'));
     } finally {
       setIsSendingBulkReminder(false);
     }
@@ -415,11 +427,11 @@ export default function MemberManagementPage() {
       
       if (!result.success) {
         // Show error message
-        alert(result.error || 'Failed to resend invitation');
+        alert(result.error || t('memberManagement.invitations.resendFailed'));
       }
     } catch (error) {
       console.error('Error resending invitation:', error);
-      alert('An unexpected error occurred while resending the invitation');
+      alert(t('memberManagement.invitations.resendError'));
     }
   };
 
@@ -429,11 +441,11 @@ export default function MemberManagementPage() {
       
       if (!result.success) {
         // Show error message
-        alert(result.error || 'Failed to cancel invitation');
+        alert(result.error || t('memberManagement.invitations.cancelFailed'));
       }
     } catch (error) {
       console.error('Error cancelling invitation:', error);
-      alert('An unexpected error occurred while cancelling the invitation');
+      alert(t('memberManagement.invitations.cancelError'));
     }
   };
   
@@ -444,7 +456,7 @@ export default function MemberManagementPage() {
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
           <div className="flex flex-col items-center justify-center h-64">
             <Loader className="h-8 w-8 text-blue-500 animate-spin mb-4" />
-            <p className="text-lg text-gray-500">Loading member details...</p>
+            <p className="text-lg text-gray-500">{t('memberManagement.loading')}</p>
           </div>
         </div>
       </div>
@@ -457,12 +469,12 @@ export default function MemberManagementPage() {
       <div className="min-h-screen bg-gray-50">
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
           <Alert variant="destructive">
-            <AlertTitle>Error</AlertTitle>
+            <AlertTitle>{t('memberManagement.error')}</AlertTitle>
             <AlertDescription>{poolError || membersError || invitationsError}</AlertDescription>
           </Alert>
           <div className="mt-4">
             <Button onClick={() => router.push(`/pools/${id}`)}>
-              Back to Pool
+              {t('memberManagement.backToPool')}
             </Button>
           </div>
         </div>
@@ -476,12 +488,12 @@ export default function MemberManagementPage() {
       <div className="min-h-screen bg-gray-50">
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
           <Alert>
-            <AlertTitle>Pool Not Found</AlertTitle>
-            <AlertDescription>The requested pool could not be found.</AlertDescription>
+            <AlertTitle>{t('poolPage.notFound.title')}</AlertTitle>
+            <AlertDescription>{t('poolPage.notFound.description')}</AlertDescription>
           </Alert>
           <div className="mt-4">
             <Button onClick={() => router.push('/my-pool')}>
-              Back to My Pools
+              {t('poolPage.backToPools')}
             </Button>
           </div>
         </div>
@@ -504,14 +516,14 @@ export default function MemberManagementPage() {
                 onClick={() => router.push(`/pools/${id}`)}
               >
                 <ChevronLeft className="h-5 w-5 mr-1" />
-                Back to Pool
+                {t('memberManagement.backToPool')}
               </Button>
               <div>
                 <h2 className="text-2xl font-semibold text-gray-800">
-                  Manage Members
+                  {t('memberManagement.title')}
                 </h2>
                 <p className="mt-1 text-gray-500">
-                  {pool.name} • {members.length} members
+                  {t('memberManagement.subtitle', { pool: pool.name, count: members.length })}
                 </p>
               </div>
             </div>
@@ -522,7 +534,7 @@ export default function MemberManagementPage() {
                 onClick={() => setShowInviteDialog(true)}
               >
                 <UserPlus className="h-4 w-4 mr-2" />
-                Invite Member
+                {t('memberManagement.inviteMember')}
               </Button>
               
               {/* Import and use the InviteMembersDialog component */}
@@ -545,17 +557,18 @@ export default function MemberManagementPage() {
 
         <Tabs defaultValue="members" className="mt-6">
           <TabsList>
-            <TabsTrigger value="members">Members</TabsTrigger>
-            <TabsTrigger value="invitations">Invitations</TabsTrigger>
-            <TabsTrigger value="positions">Positions</TabsTrigger>
+            <TabsTrigger value="members">{t('memberManagement.tabs.members')}</TabsTrigger>
+            <TabsTrigger value="invitations">{t('memberManagement.tabs.invitations')}</TabsTrigger>
+            <TabsTrigger value="positions">{t('memberManagement.tabs.positions')}</TabsTrigger>
+            <TabsTrigger value="departures">{t('memberManagement.tabs.departures')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="members">
             <Card>
               <CardHeader>
-                <CardTitle>Pool Members</CardTitle>
+                <CardTitle>{t('memberManagement.members.title')}</CardTitle>
                 <CardDescription>
-                  Manage the members of your savings pool
+                  {t('memberManagement.members.description')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -568,7 +581,7 @@ export default function MemberManagementPage() {
                     className="min-h-[44px]"
                   >
                     <BellRing className="h-4 w-4 mr-2" />
-                    Remind All
+                    {t('memberManagement.members.remindAll')}
                   </Button>
                 </div>
 
@@ -585,7 +598,7 @@ export default function MemberManagementPage() {
                       rightActions={[
                         {
                           key: 'message',
-                          label: 'Message',
+                          label: t('memberManagement.actions.message'),
                           color: 'blue',
                           icon: <MessageSquare className="h-4 w-4" />,
                           onClick: () => {
@@ -595,7 +608,7 @@ export default function MemberManagementPage() {
                         },
                         {
                           key: 'remind',
-                          label: 'Remind',
+                          label: t('memberManagement.actions.remind'),
                           color: 'orange',
                           icon: <Mail className="h-4 w-4" />,
                           onClick: () => {
@@ -615,7 +628,8 @@ export default function MemberManagementPage() {
                           hasContributed: member.status === PoolMemberStatus.COMPLETED,
                           isRecipient: member.status === PoolMemberStatus.CURRENT,
                           contributionAmount: pool?.contributionAmount,
-                          role: member.role === PoolMemberRole.ADMIN ? 'admin' : 'member',
+                          role: member.role,
+                          reliability: member.reliability,
                         }}
                         onMessage={(m) => {
                           setSelectedMember(member);
@@ -629,6 +643,7 @@ export default function MemberManagementPage() {
                           setSelectedMember(member);
                           setShowRemoveDialog(true);
                         } : undefined}
+                        currency={pool?.currency}
                         isAdmin={true}
                         showActions={true}
                       />
@@ -641,13 +656,13 @@ export default function MemberManagementPage() {
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead className="px-3 sm:px-4">Member</TableHead>
-                        <TableHead className="px-3 sm:px-4">Position</TableHead>
-                        <TableHead className="px-3 sm:px-4">Status</TableHead>
-                        <TableHead className="hidden md:table-cell px-3 sm:px-4">Payments</TableHead>
-                        <TableHead className="hidden lg:table-cell px-3 sm:px-4">Total Contributed</TableHead>
-                        <TableHead className="hidden sm:table-cell px-3 sm:px-4">Payout Date</TableHead>
-                        <TableHead className="px-3 sm:px-4">Actions</TableHead>
+                        <TableHead className="px-3 sm:px-4">{t('memberManagement.members.member')}</TableHead>
+                        <TableHead className="px-3 sm:px-4">{t('memberManagement.members.position')}</TableHead>
+                        <TableHead className="px-3 sm:px-4">{t('memberManagement.members.status')}</TableHead>
+                        <TableHead className="hidden md:table-cell px-3 sm:px-4">{t('memberManagement.members.payments')}</TableHead>
+                        <TableHead className="hidden lg:table-cell px-3 sm:px-4">{t('memberManagement.members.totalContributed')}</TableHead>
+                        <TableHead className="hidden sm:table-cell px-3 sm:px-4">{t('memberManagement.members.payoutDate')}</TableHead>
+                        <TableHead className="px-3 sm:px-4">{t('memberManagement.members.actions')}</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -673,16 +688,15 @@ export default function MemberManagementPage() {
                                   {member.email}
                                 </div>
                               </div>
-                              {member.role === PoolMemberRole.ADMIN && (
-                                <Badge className="hidden sm:inline-flex ml-2">Admin</Badge>
+                              {member.role && member.role !== PoolMemberRole.MEMBER && (
+                                <Badge className="hidden sm:inline-flex ml-2">{t(`memberRole.${getPoolRoleInfo(member.role).role}`)}</Badge>
                               )}
                             </div>
                           </TableCell>
                           <TableCell className="px-3 sm:px-4">{member.position}</TableCell>
                           <TableCell className="px-3 sm:px-4">
                             <Badge className={getStatusColor(member.status)}>
-                              {member.status.charAt(0).toUpperCase() +
-                                member.status.slice(1)}
+                              {t(`memberStatus.${member.status}`)}
                             </Badge>
                           </TableCell>
                           <TableCell className="hidden md:table-cell px-3 sm:px-4">
@@ -696,7 +710,7 @@ export default function MemberManagementPage() {
                               </span>
                             </div>
                           </TableCell>
-                          <TableCell className="hidden lg:table-cell px-3 sm:px-4">${member.totalContributed}</TableCell>
+                          <TableCell className="hidden lg:table-cell px-3 sm:px-4">{formatAmountLabel(member.totalContributed, pool.currency)}</TableCell>
                           <TableCell className="hidden sm:table-cell px-3 sm:px-4">{formatDate(member.payoutDate)}</TableCell>
                           <TableCell className="px-3 sm:px-4">
                             <DropdownMenu>
@@ -717,7 +731,7 @@ export default function MemberManagementPage() {
                                   }}
                                 >
                                   <MessageSquare className="h-4 w-4 mr-2" />
-                                  Message
+                                  {t('memberManagement.actions.message')}
                                 </DropdownMenuItem>
                                 <DropdownMenuItem
                                   onClick={() => {
@@ -726,7 +740,7 @@ export default function MemberManagementPage() {
                                   }}
                                 >
                                   <Users className="h-4 w-4 mr-2" />
-                                  Edit Profile
+                                  {t('memberManagement.actions.editProfile')}
                                 </DropdownMenuItem>
                                 <DropdownMenuItem
                                   onClick={() => {
@@ -735,7 +749,7 @@ export default function MemberManagementPage() {
                                   }}
                                 >
                                   <Mail className="h-4 w-4 mr-2" />
-                                  Send Reminder
+                                  {t('memberManagement.actions.sendReminder')}
                                 </DropdownMenuItem>
                                 <DropdownMenuSeparator />
                                 {member.name !== "You" && (
@@ -747,7 +761,7 @@ export default function MemberManagementPage() {
                                     className="text-red-600"
                                   >
                                     <Ban className="h-4 w-4 mr-2" />
-                                    Remove
+                                    {t('memberManagement.actions.remove')}
                                   </DropdownMenuItem>
                                 )}
                               </DropdownMenuContent>
@@ -765,9 +779,9 @@ export default function MemberManagementPage() {
           <TabsContent value="invitations">
             <Card>
               <CardHeader>
-                <CardTitle>Invitations</CardTitle>
+                <CardTitle>{t('memberManagement.invitations.title')}</CardTitle>
                 <CardDescription>
-                  Track and manage invitations sent to potential members
+                  {t('memberManagement.invitations.description')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -775,17 +789,17 @@ export default function MemberManagementPage() {
                   <div className="text-center py-8">
                     <Mail className="h-12 w-12 text-gray-300 mx-auto" />
                     <h3 className="mt-4 text-lg font-medium text-gray-900">
-                      No invitations sent
+                      {t('memberManagement.invitations.empty.title')}
                     </h3>
                     <p className="mt-1 text-sm text-gray-500">
-                      Invite members to join your savings pool
+                      {t('memberManagement.invitations.empty.description')}
                     </p>
                     <Button
                       className="mt-4"
                       onClick={() => setShowInviteDialog(true)}
                     >
                       <UserPlus className="h-4 w-4 mr-2" />
-                      Invite Member
+                      {t('memberManagement.inviteMember')}
                     </Button>
                   </div>
                 ) : (
@@ -793,10 +807,10 @@ export default function MemberManagementPage() {
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead className="px-3 sm:px-4">Email Address</TableHead>
-                          <TableHead className="hidden sm:table-cell px-3 sm:px-4">Sent Date</TableHead>
-                          <TableHead className="px-3 sm:px-4">Status</TableHead>
-                          <TableHead className="px-3 sm:px-4">Actions</TableHead>
+                          <TableHead className="px-3 sm:px-4">{t('memberManagement.invitations.email')}</TableHead>
+                          <TableHead className="hidden sm:table-cell px-3 sm:px-4">{t('memberManagement.invitations.sentDate')}</TableHead>
+                          <TableHead className="px-3 sm:px-4">{t('memberManagement.invitations.status')}</TableHead>
+                          <TableHead className="px-3 sm:px-4">{t('memberManagement.invitations.actions')}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -819,8 +833,7 @@ export default function MemberManagementPage() {
                                   invitation.status
                                 )}
                               >
-                                {invitation.status.charAt(0).toUpperCase() +
-                                  invitation.status.slice(1)}
+                                {t(`invitationStatus.${invitation.status}`)}
                               </Badge>
                             </TableCell>
                             <TableCell className="px-3 sm:px-4">
@@ -834,7 +847,7 @@ export default function MemberManagementPage() {
                                       handleCancelInvitation(invitation.id)
                                     }
                                   >
-                                    Cancel
+                                    {t('memberManagement.cancel')}
                                   </Button>
                                 ) : (
                                   <Button
@@ -846,7 +859,7 @@ export default function MemberManagementPage() {
                                     }
                                   >
                                     <RefreshCw className="h-4 w-4 sm:mr-2" />
-                                    <span className="hidden sm:inline">Resend</span>
+                                    <span className="hidden sm:inline">{t('memberManagement.invitations.resend')}</span>
                                   </Button>
                                 )}
                               </div>
@@ -864,9 +877,9 @@ export default function MemberManagementPage() {
           <TabsContent value="positions">
             <Card>
               <CardHeader>
-                <CardTitle>Manage Positions</CardTitle>
+                <CardTitle>{t('memberManagement.positions.title')}</CardTitle>
                 <CardDescription>
-                  Drag and drop members to adjust the payout order
+                  {t('memberManagement.positions.description')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -886,6 +899,10 @@ export default function MemberManagementPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="departures">
+            <MemberExitsPanel poolId={id} currency={pool.currency} onMembersChange={refreshMembers} />
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -893,9 +910,9 @@ export default function MemberManagementPage() {
       <Dialog open={showRemoveDialog} onOpenChange={setShowRemoveDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Remove Member</DialogTitle>
+            <DialogTitle>{t('memberManagement.remove.title')}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to remove this member from the pool?
+              {t('memberManagement.remove.description')}
             </DialogDescription>
           </DialogHeader>
           {selectedMember && (
@@ -918,14 +935,31 @@ export default function MemberManagementPage() {
                 </div>
               </div>
               <div className="bg-red-50 border border-red-200 rounded-md p-4">
-                <h4 className="font-medium text-red-800">Warning</h4>
+                <h4 className="font-medium text-red-800">{t('memberManagement.remove.warning')}</h4>
                 <p className="text-sm text-red-700 mt-1">
-                  This member has contributed ${selectedMember.totalContributed}{" "}
-                  to the pool.
+                  {t('memberManagement.remove.contributed', {
+                    amount: formatAmountLabel(selectedMember.totalContributed, pool?.currency),
+                  })}{" "}
                   {selectedMember.payoutReceived
-                    ? " They have already received their payout."
-                    : " They have not yet received their payout."}
+                    ? t('memberManagement.remove.payoutReceived')
+                    : t('memberManagement.remove.payoutPending')}
                 </p>
+                {pool && [PoolStatus.ACTIVE, PoolStatus.PAUSED, PoolStatus.PENDING].includes(pool.status) && (
+                  <p className="text-sm text-red-700 mt-2">
+                    {selectedMember.payoutReceived
+                      ? t('memberManagement.remove.debt')
+                      : t('memberManagement.remove.replacement')}
+                    {" "}{t('memberManagement.remove.trackDepartures')}
+                  </p>
+                )}
+              </div>
+              <div className="mt-4 space-y-2">
+                <Label htmlFor="removeReason">{t('memberManagement.remove.reason')}</Label>
+                <Input
+                  id="removeReason"
+                  value={removeReason}
+                  onChange={(e) => setRemoveReason(e.target.value)}
+                />
               </div>
             </div>
           )}
@@ -934,10 +968,10 @@ export default function MemberManagementPage() {
               variant="outline"
               onClick={() => setShowRemoveDialog(false)}
             >
-              Cancel
+              {t('memberManagement.cancel')}
             </Button>
             <Button variant="destructive" onClick={handleRemoveMember}>
-              Remove Member
+              {t('memberManagement.remove.confirm')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -962,9 +996,9 @@ export default function MemberManagementPage() {
       <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Edit Member Profile</DialogTitle>
+            <DialogTitle>{t('memberManagement.edit.title')}</DialogTitle>
             <DialogDescription>
-              Update member information and preferences
+              {t('memberManagement.edit.description')}
             </DialogDescription>
           </DialogHeader>
           {selectedMember && (
@@ -983,14 +1017,14 @@ export default function MemberManagementPage() {
                   <div>
                     <div className="font-medium text-lg">{selectedMember.name}</div>
                     <div className="text-sm text-gray-500">
-                      Joined {formatDate(selectedMember.joinDate)}
+                      {t('memberManagement.edit.joined', { date: formatDate(selectedMember.joinDate) })}
                     </div>
                   </div>
                 </div>
 
                 <div className="space-y-4 mt-4">
                   <div>
-                    <Label htmlFor="name">Full Name</Label>
+                    <Label htmlFor="name">{t('memberManagement.edit.name')}</Label>
                     <Input
                       id="name"
                       name="name"
@@ -1001,7 +1035,7 @@ export default function MemberManagementPage() {
                   </div>
                   
                   <div>
-                    <Label htmlFor="email">Email Address</Label>
+                    <Label htmlFor="email">{t('memberManagement.edit.email')}</Label>
                     <Input
                       id="email"
                       name="email"
@@ -1013,7 +1047,7 @@ export default function MemberManagementPage() {
                   </div>
                   
                   <div>
-                    <Label htmlFor="phone">Phone Number</Label>
+                    <Label htmlFor="phone">{t('memberManagement.edit.phone')}</Label>
                     <Input
                       id="phone"
                       name="phone"
@@ -1023,37 +1057,37 @@ export default function MemberManagementPage() {
                   </div>
 
                   <div className="border-t pt-4 mt-4">
-                    <h4 className="font-medium mb-2">Pool Role</h4>
-                    <div className="flex space-x-4">
-                      <div className="flex items-center">
-                        <input
-                          type="radio"
-                          id="role-member"
-                          name="role"
-                          value={PoolMemberRole.MEMBER}
-                          defaultChecked={selectedMember.role === PoolMemberRole.MEMBER}
-                          className="mr-2"
-                        />
-                        <Label htmlFor="role-member">Member</Label>
-                      </div>
-                      <div className="flex items-center">
-                        <input
-                          type="radio"
-                          id="role-admin"
-                          name="role"
-                          value={PoolMemberRole.ADMIN}
-                          defaultChecked={selectedMember.role === PoolMemberRole.ADMIN}
-                          className="mr-2"
-                        />
-                        <Label htmlFor="role-admin">Admin</Label>
+                    <h4 className="font-medium mb-2">{t('memberManagement.edit.role')}</h4>
+                    {selectedMember.role === PoolMemberRole.CREATOR ? (
+                      <p className="text-sm text-gray-500">{t('memberRole.creator.description')}</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {ASSIGNABLE_ROLES.map((role) => {
+                          return (
+                            <div key={role} className="flex items-start">
+                              <input
+                                type="radio"
+                                id={`role-${role}`}
+                                name="role"
+                                value={role}
+                                defaultChecked={getPoolRoleInfo(selectedMember.role).role === role}
+                                className="mr-2 mt-1"
+                              />
+                              <Label htmlFor={`role-${role}`} className="font-normal">
+                                <span className="font-medium">{t(`memberRole.${role}`)}</span>
+                                <span className="block text-xs text-gray-500">{t(`memberRole.${role}.description`)}</span>
+                              </Label>
+                            </div>
+                          );
+                        })}
                       </div>
-                    </div>
+                    )}
                   </div>
 
                   <div className="border-t pt-4 mt-4">
-                    <h4 className="font-medium mb-2">Payment Status</h4>
+                    <h4 className="font-medium mb-2">{t('memberManagement.edit.paymentStatus')}</h4>
                     <div className="flex space-x-2 items-center">
-                      <Label htmlFor="paymentsOnTime" className="text-sm text-gray-500">Payments On Time:</Label>
+                      <Label htmlFor="paymentsOnTime" className="text-sm text-gray-500">{t('memberManagement.edit.paymentsOnTime')}</Label>
                       <Input
                         id="paymentsOnTime"
                         name="paymentsOnTime"
@@ -1064,7 +1098,7 @@ export default function MemberManagementPage() {
                       />
                     </div>
                     <div className="flex space-x-2 items-center mt-2">
-                      <Label htmlFor="paymentsMissed" className="text-sm text-gray-500">Payments Missed:</Label>
+                      <Label htmlFor="paymentsMissed" className="text-sm text-gray-500">{t('memberManagement.edit.paymentsMissed')}</Label>
                       <Input
                         id="paymentsMissed"
                         name="paymentsMissed"
@@ -1077,7 +1111,7 @@ export default function MemberManagementPage() {
                   </div>
 
                   <div className="border-t pt-4 mt-4">
-                    <h4 className="font-medium mb-2">Payout Information</h4>
+                    <h4 className="font-medium mb-2">{t('memberManagement.edit.payoutInfo')}</h4>
                     <div className="flex items-center">
                       <input
                         type="checkbox"
@@ -1086,10 +1120,10 @@ export default function MemberManagementPage() {
                         defaultChecked={selectedMember.payoutReceived}
                         className="mr-2"
                       />
-                      <Label htmlFor="payoutReceived">Payout Received</Label>
+                      <Label htmlFor="payoutReceived">{t('memberManagement.edit.payoutReceived')}</Label>
                     </div>
                     <div className="mt-3">
-                      <Label htmlFor="payoutDate">Scheduled Payout Date</Label>
+                      <Label htmlFor="payoutDate">{t('memberManagement.edit.payoutDate')}</Label>
                       <Input
                         id="payoutDate"
                         name="payoutDate"
@@ -1112,7 +1146,7 @@ export default function MemberManagementPage() {
                     variant="outline"
                     onClick={() => setShowEditDialog(false)}
                   >
-                    Cancel
+                    {t('memberManagement.cancel')}
                   </Button>
                   <div className="flex space-x-2 mb-2 sm:mb-0">
                     <Button 
@@ -1123,10 +1157,10 @@ export default function MemberManagementPage() {
                         // Send reset password link to user
                       }}
                     >
-                      Reset Password
+                      {t('memberManagement.edit.resetPassword')}
                     </Button>
                     <Button type="submit">
-                      Save Changes
+                      {t('memberManagement.edit.save')}
                     </Button>
                   </div>
                 </DialogFooter>
@@ -1155,9 +1189,9 @@ export default function MemberManagementPage() {
       <Dialog open={showReminderDialog} onOpenChange={setShowReminderDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Send Payment Reminder</DialogTitle>
+            <DialogTitle>{t('memberManagement.reminder.title')}</DialogTitle>
             <DialogDescription>
-              Send a payment reminder email to this member
+              {t('memberManagement.reminder.description')}
             </DialogDescription>
           </DialogHeader>
           {selectedMember && (
@@ -1182,20 +1216,23 @@ export default function MemberManagementPage() {
 
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="reminderMessage">Personal Message (optional)</Label>
+                  <Label htmlFor="reminderMessage">{t('memberManagement.reminder.message')}</Label>
                   <textarea
                     id="reminderMessage"
                     value={reminderMessage}
                     onChange={(e) => setReminderMessage(e.target.value)}
-                    placeholder="Add a personal message to include in the reminder email..."
+                    placeholder={t('memberManagement.reminder.placeholder')}
                     className="w-full mt-1 p-3 border rounded-md min-h-[100px] resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
 
                 <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
                   <p className="text-sm text-blue-700">
-                    A reminder email will be sent to <strong>{selectedMember.email}</strong> about
-                    their upcoming payment of <strong>${pool?.contributionAmount}</strong> for the pool "{pool?.name}".
+                    {t('memberManagement.reminder.preview', {
+                      email: selectedMember.email,
+                      amount: formatAmountLabel(pool?.contributionAmount ?? 0, pool?.currency),
+                      pool: pool?.name ?? '',
+                    })}
                   </p>
                 </div>
               </div>
@@ -1211,7 +1248,7 @@ export default function MemberManagementPage() {
               }}
               disabled={isSendingReminder}
             >
-              Cancel
+              {t('memberManagement.cancel')}
             </Button>
             <Button
               onClick={handleSendReminder}
@@ -1220,12 +1257,12 @@ export default function MemberManagementPage() {
               {isSendingReminder ? (
                 <>
                   <Loader className="h-4 w-4 mr-2 animate-spin" />
-                  Sending...
+                  {t('memberManagement.sending')}
                 </>
               ) : (
                 <>
                   <Send className="h-4 w-4 mr-2" />
-                  Send Reminder
+                  {t('memberManagement.reminder.send')}
                 </>
               )}
             </Button>
@@ -1237,9 +1274,9 @@ export default function MemberManagementPage() {
       <Dialog open={showBulkReminderDialog} onOpenChange={setShowBulkReminderDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Send Reminder to All</DialogTitle>
+            <DialogTitle>{t('memberManagement.bulkReminder.title')}</DialogTitle>
             <DialogDescription>
-              Send a payment reminder to all members who haven't contributed yet
+              {t('memberManagement.bulkReminder.description')}
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
@@ -1248,10 +1285,12 @@ export default function MemberManagementPage() {
                 <AlertTriangle className="h-5 w-5 text-amber-600 mr-2 mt-0.5 shrink-0" />
                 <div>
                   <p className="text-sm text-amber-800 font-medium">
-                    {members.filter(m => m.status !== PoolMemberStatus.COMPLETED && m.name !== "You").length} member(s) will receive this reminder
+                    {t('memberManagement.bulkReminder.recipients', {
+                      count: members.filter(m => m.status !== PoolMemberStatus.COMPLETED && m.name !== "You").length,
+                    })}
                   </p>
                   <p className="text-xs text-amber-700 mt-1">
-                    Members who have already contributed will not receive a reminder.
+                    {t('memberManagement.bulkReminder.skipped')}
                   </p>
                 </div>
               </div>
@@ -1259,20 +1298,22 @@ export default function MemberManagementPage() {
 
             <div className="space-y-4">
               <div>
-                <Label htmlFor="bulkReminderMessage">Personal Message (optional)</Label>
+                <Label htmlFor="bulkReminderMessage">{t('memberManagement.reminder.message')}</Label>
                 <textarea
                   id="bulkReminderMessage"
                   value={bulkReminderMessage}
                   onChange={(e) => setBulkReminderMessage(e.target.value)}
-                  placeholder="Add a personal message to include in the reminder emails..."
+                  placeholder={t('memberManagement.bulkReminder.placeholder')}
                   className="w-full mt-1 p-3 border rounded-md min-h-[100px] resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
 
               <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
                 <p className="text-sm text-blue-700">
-                  Each member will receive an email reminding them about their upcoming payment of{" "}
-                  <strong>${pool?.contributionAmount}</strong> for the pool "{pool?.name}".
+                  {t('memberManagement.bulkReminder.preview', {
+                    amount: formatAmountLabel(pool?.contributionAmount ?? 0, pool?.currency),
+                    pool: pool?.name ?? '',
+                  })}
                 </p>
               </div>
             </div>
@@ -1286,7 +1327,7 @@ export default function MemberManagementPage() {
               }}
               disabled={isSendingBulkReminder}
             >
-              Cancel
+              {t('memberManagement.cancel')}
             </Button>
             <Button
               onClick={handleSendBulkReminder}
@@ -1295,12 +1336,12 @@ export default function MemberManagementPage() {
               {isSendingBulkReminder ? (
                 <>
                   <Loader className="h-4 w-4 mr-2 animate-spin" />
-                  Sending...
+                  {t('memberManagement.sending')}
                 </>
               ) : (
                 <>
                   <BellRing className="h-4 w-4 mr-2" />
-                  Send Reminders
+                  {t('memberManagement.bulkReminder.send')}
                 </>
               )}
             </Button>
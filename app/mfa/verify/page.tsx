@@ -3,20 +3,24 @@
 import { useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useSession } from "next-auth/react";
+import { startAuthentication } from "@simplewebauthn/browser";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
 import { Label } from "../../../components/ui/label";
 import { Alert, AlertDescription, AlertTitle } from "../../../components/ui/alert";
-import { Loader2 } from "lucide-react";
+import { Fingerprint, Loader2 } from "lucide-react";
 
 function VerifyMfaContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { update: updateSession } = useSession();
+  const { data: session, update: updateSession } = useSession();
   const [code, setCode] = useState("");
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const isPasskeyMfa = session?.mfaMethod === 'passkey';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,6 +30,51 @@ function VerifyMfaContent() {
       return;
     }
 
+    await verify({ code });
+  };
+
+  const handleRecoverySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!recoveryCode.trim()) {
+      setError("Backup code is required");
+      return;
+    }
+
+    await verify({ recoveryCode: recoveryCode.trim() });
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setError("");
+  };
+
+  const handlePasskey = async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const optionsResponse = await fetch('/api/auth/passkey/options', { method: 'POST' });
+      const optionsData = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.error || 'Could not start passkey verification');
+      }
+
+      // Prompts the user to unlock their passkey
+      const passkeyResponse = await startAuthentication({ optionsJSON: optionsData.data.options });
+      await verify({ passkeyResponse });
+    } catch (error) {
+      setError(
+        error instanceof Error && error.name === 'NotAllowedError'
+          ? 'Passkey verification was cancelled'
+          : error instanceof Error ? error.message : 'An error occurred during verification'
+      );
+      setIsLoading(false);
+    }
+  };
+
+  const verify = async (body: { code: string } | { passkeyResponse: unknown } | { recoveryCode: string }) => {
     setIsLoading(true);
     setError("");
 
@@ -35,7 +84,7 @@ function VerifyMfaContent() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ code }),
+        body: JSON.stringify(body),
       });
 
       const data = await response.json();
@@ -67,7 +116,11 @@ function VerifyMfaContent() {
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold text-center">Two-Factor Authentication</CardTitle>
           <CardDescription className="text-center">
-            Enter the verification code sent to your email
+            {useRecoveryCode
+              ? "Enter one of the backup codes you saved when you set up two-factor authentication"
+              : isPasskeyMfa
+              ? "Confirm it's you with your passkey"
+              : "Enter the verification code sent to your email"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -78,35 +131,90 @@ function VerifyMfaContent() {
             </Alert>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="code">Verification Code</Label>
-              <Input
-                id="code"
-                type="text"
-                inputMode="numeric"
-                pattern="[0-9]*"
-                value={code}
-                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
-                placeholder="Enter 6-digit code"
-                maxLength={6}
-                className="text-center font-mono text-lg"
-                autoComplete="one-time-code"
-                required
-              />
-            </div>
+          {useRecoveryCode ? (
+            <form onSubmit={handleRecoverySubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recoveryCode">Backup Code</Label>
+                <Input
+                  id="recoveryCode"
+                  type="text"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  placeholder="Enter 8-digit backup code"
+                  maxLength={12}
+                  className="text-center font-mono text-lg"
+                  autoComplete="off"
+                  required
+                />
+                <p className="text-xs text-gray-500">Each backup code can only be used once.</p>
+              </div>
 
-            <Button type="submit" className="w-full" disabled={isLoading}>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify Backup Code"
+                )}
+              </Button>
+            </form>
+          ) : isPasskeyMfa ? (
+            <Button type="button" className="w-full" disabled={isLoading} onClick={handlePasskey}>
               {isLoading ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Verifying...
                 </>
               ) : (
-                "Verify Code"
+                <>
+                  <Fingerprint className="mr-2 h-4 w-4" />
+                  Use your passkey
+                </>
               )}
             </Button>
-          </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Verification Code</Label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  placeholder="Enter 6-digit code"
+                  maxLength={6}
+                  className="text-center font-mono text-lg"
+                  autoComplete="one-time-code"
+                  required
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify Code"
+                )}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-4 text-center">
+            <button
+              type="button"
+              onClick={toggleRecoveryCode}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              {useRecoveryCode ? "Use your usual verification method" : "Use a backup code"}
+            </button>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -5,6 +5,7 @@ import React, { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { usePools } from "../../lib/hooks/usePools";
+import { multiplyAmount } from "../../lib/currency";
 import {
   Calendar,
   DollarSign,
@@ -79,10 +80,10 @@ const formatDate = (dateString?: string) => {
 };
 
 // Function to format currency
-const formatCurrency = (amount: number) => {
+const formatCurrency = (amount: number, currency: string = 'USD') => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
   }).format(amount);
 };
 
@@ -425,7 +426,7 @@ export default function MyPoolPage() {
                           This Round's Recipient: <span className="font-bold">{currentRecipient.name}</span>
                         </p>
                         <p className="text-xs text-blue-600">
-                          Will receive {formatCurrency(contributionStatus.contributionAmount * contributionStatus.contributions.length)}
+                          Will receive {formatCurrency(multiplyAmount(contributionStatus.contributionAmount, contributionStatus.contributions.length, selectedPool.currency), selectedPool.currency)}
                         </p>
                       </div>
                     </div>
@@ -452,7 +453,7 @@ export default function MyPoolPage() {
                           <>
                             <Check className="h-5 w-5 text-green-600 mr-3" />
                             <p className="text-sm font-medium text-green-800">
-                              You've contributed {formatCurrency(contributionStatus.contributionAmount)} this round.
+                              You've contributed {formatCurrency(contributionStatus.contributionAmount, selectedPool.currency)} this round.
                             </p>
                           </>
                         )
@@ -545,7 +546,7 @@ export default function MyPoolPage() {
                     Amount Per Cycle
                   </dt>
                   <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
-                    {formatCurrency(selectedPool.contributionAmount)}
+                    {formatCurrency(selectedPool.contributionAmount, selectedPool.currency)}
                   </dd>
                 </div>
                 <div className="bg-white px-4 py-4 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
@@ -730,7 +731,7 @@ export default function MyPoolPage() {
                               {formatDate(member.payoutDate)}
                             </td>
                             <td className="hidden sm:table-cell px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {formatCurrency(member.totalContributed || 0)}
+                              {formatCurrency(member.totalContributed || 0, selectedPool.currency)}
                             </td>
                           </tr>
                         );
@@ -764,7 +765,7 @@ export default function MyPoolPage() {
                   <span className="h-5 w-5 text-blue-500 mr-2">•</span>
                   <span>
                     All members must contribute{" "}
-                    <strong>{formatCurrency(selectedPool.contributionAmount)}</strong> every{" "}
+                    <strong>{formatCurrency(selectedPool.contributionAmount, selectedPool.currency)}</strong> every{" "}
                     {selectedPool.frequency.toLowerCase()}.
                   </span>
                 </li>
@@ -830,6 +831,7 @@ export default function MyPoolPage() {
       <ContributionModal
         poolId={selectedPool.id}
         poolName={selectedPool.name}
+        currency={selectedPool.currency}
         userEmail={session?.user?.email || ''}
         isOpen={showContributionModal}
         onClose={() => setShowContributionModal(false)}
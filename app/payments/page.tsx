@@ -31,6 +31,12 @@ import {
   CardTitle,
 } from '../../components/ui/card';
 import { Button } from '../../components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../../components/ui/dropdown-menu';
 import { usePaymentMethods } from '../../lib/hooks/usePaymentMethods';
 import { PaymentDetails, TransactionType, TransactionStatus } from '../../types/payment';
 import { useSession } from 'next-auth/react';
@@ -41,6 +47,8 @@ import { EmptyState } from '../../components/ui/empty-state';
 import { ResponsiveTable } from '../../components/ui/responsive-table';
 import { TransactionCard, TransactionCardSkeleton } from '../../components/payments/TransactionCard';
 import { SwipeableRow } from '../../components/ui/swipeable-row';
+import { formatCurrency, getIntlLocale, translateFrequency, translateTransactionStatus, translateTransactionType } from '../../lib/i18n';
+import { useTranslation } from '../../contexts/LocaleContext';
 
 // Types for API responses
 interface UpcomingPayment {
@@ -48,6 +56,7 @@ interface UpcomingPayment {
   poolId: string;
   poolName: string;
   amount: number;
+  currency: string;
   dueDate: string;
   frequency: string;
   currentRound: number;
@@ -85,6 +94,7 @@ interface UpcomingSummary {
 
 export default function PaymentsPage() {
   const router = useRouter();
+  const { t, locale } = useTranslation();
   const { data: session, status } = useSession({
     required: true,
     onUnauthenticated() {
@@ -230,6 +240,12 @@ export default function PaymentsPage() {
     }
   }, [session?.user, fetchTransactionHistory]);
 
+  // The total due only gets a currency symbol when every pool shares one
+  const summaryCurrency = useMemo(() => {
+    const currencies = new Set(upcomingPayments.map(p => p.currency));
+    return currencies.size === 1 ? upcomingPayments[0].currency : null;
+  }, [upcomingPayments]);
+
   // Payment details for the modal
   const paymentDetails: PaymentDetails = useMemo(() => ({
     poolName: selectedPayment?.poolName || 'N/A',
@@ -260,7 +276,7 @@ export default function PaymentsPage() {
         setShowPaymentModal(true);
       } else {
         console.error('Failed to add payment method:', result.error);
-        alert(`Failed to add payment method: ${result.error}`);
+        alert(t('payments.addMethodFailed', { error: result.error || '' }));
       }
     } catch (error) {
       console.error('Error adding payment method:', error);
@@ -287,17 +303,12 @@ export default function PaymentsPage() {
 
   const hasActiveFilters = filterType || filterStatus || filterStartDate || filterEndDate;
 
-  // Export transactions to CSV
-  const handleExport = async () => {
+  // Download the filtered history as CSV or OFX
+  const handleExport = async (format: 'csv' | 'ofx') => {
     setIsExporting(true);
 
     try {
-      // Fetch all transactions for export (without pagination)
-      const params = new URLSearchParams({
-        limit: '1000',
-        sortBy: 'createdAt',
-        sortOrder: 'desc'
-      });
+      const params = new URLSearchParams({ format, sortOrder: 'desc' });
 
       if (debouncedSearch) params.set('search', debouncedSearch);
       if (filterType) params.set('type', filterType);
@@ -305,46 +316,27 @@ export default function PaymentsPage() {
       if (filterStartDate) params.set('startDate', filterStartDate);
       if (filterEndDate) params.set('endDate', filterEndDate);
 
-      const response = await fetch(`/api/payments/history?${params.toString()}`);
-      const data = await response.json();
+      const response = await fetch(`/api/payments/history/export?${params.toString()}`);
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch data for export');
-      }
-
-      const exportTransactions = data.transactions || [];
-
-      if (exportTransactions.length === 0) {
-        alert('No transactions to export');
-        return;
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export transactions');
       }
 
-      // Generate CSV
-      const headers = ['Date', 'Pool', 'Type', 'Amount', 'Status', 'Description'];
-      const rows = exportTransactions.map((tx: Transaction) => [
-        new Date(tx.createdAt).toLocaleDateString(),
-        tx.poolName,
-        tx.type,
-        `$${tx.amount.toFixed(2)}`,
-        tx.status,
-        tx.description
-      ]);
-
-      const csvContent = [
-        headers.join(','),
-        ...rows.map((row: string[]) => row.map((cell: string) => `"${cell}"`).join(','))
-      ].join('\n');
+      const filename = response.headers
+        .get('Content-Disposition')
+        ?.match(/filename="([^"]+)"/)?.[1] || `payment-history.${format}`;
 
       // Download file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const blob = await response.blob();
       const link = document.createElement('a');
       link.href = URL.createObjectURL(blob);
-      link.download = `payment-history-${new Date().toISOString().split('T')[0]}.csv`;
+      link.download = filename;
       link.click();
       URL.revokeObjectURL(link.href);
     } catch (error) {
       console.error('Export error:', error);
-      alert('Failed to export transactions');
+      alert(t('payments.export.failed'));
     } finally {
       setIsExporting(false);
     }
@@ -393,16 +385,16 @@ export default function PaymentsPage() {
 
   const formatDueDate = (dueDate: string, daysUntilDue: number) => {
     const date = new Date(dueDate);
-    const formatted = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const formatted = date.toLocaleDateString(getIntlLocale(locale), { month: 'short', day: 'numeric' });
 
     if (daysUntilDue < 0) {
-      return `${formatted} (${Math.abs(daysUntilDue)} days overdue)`;
+      return t('payments.upcoming.overdue', { date: formatted, count: Math.abs(daysUntilDue) });
     } else if (daysUntilDue === 0) {
-      return `${formatted} (Due today)`;
+      return t('payments.upcoming.dueToday', { date: formatted });
     } else if (daysUntilDue === 1) {
-      return `${formatted} (Due tomorrow)`;
+      return t('payments.upcoming.dueTomorrow', { date: formatted });
     } else {
-      return `${formatted} (in ${daysUntilDue} days)`;
+      return t('payments.upcoming.dueIn', { date: formatted, count: daysUntilDue });
     }
   };
 
@@ -463,25 +455,37 @@ export default function PaymentsPage() {
         <div className="px-4 py-4 sm:px-0">
           <div className="flex flex-col md:flex-row md:items-center md:justify-between">
             <div>
-              <h2 className="text-2xl font-semibold text-gray-800">Payments</h2>
+              <h2 className="text-2xl font-semibold text-gray-800">{t('payments.title')}</h2>
               <p className="mt-1 text-gray-500">
-                Track and manage your contributions and payouts
+                {t('payments.description')}
               </p>
             </div>
             <div className="mt-4 md:mt-0 flex space-x-3">
-              <Button
-                variant="outline"
-                className="flex items-center"
-                onClick={handleExport}
-                disabled={isExporting || transactions.length === 0}
-              >
-                {isExporting ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Download className="h-4 w-4 mr-2" />
-                )}
-                Export
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="flex items-center"
+                    disabled={isExporting || transactions.length === 0}
+                  >
+                    {isExporting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    {t('payments.export')}
+                    <ChevronDown className="h-4 w-4 ml-2" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
+                    {t('payments.export.csv')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('ofx')}>
+                    {t('payments.export.ofx')}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
 
@@ -489,13 +493,15 @@ export default function PaymentsPage() {
           {upcomingSummary && (
             <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
               <div className="bg-white rounded-lg p-4 shadow-sm border">
-                <div className="text-sm text-gray-500">Total Due</div>
+                <div className="text-sm text-gray-500">{t('payments.summary.totalDue')}</div>
                 <div className="text-2xl font-bold text-gray-900">
-                  ${upcomingSummary.totalDue.toFixed(2)}
+                  {summaryCurrency
+                    ? formatCurrency(upcomingSummary.totalDue, locale, summaryCurrency)
+                    : upcomingSummary.totalDue.toLocaleString(getIntlLocale(locale), { minimumFractionDigits: 2 })}
                 </div>
               </div>
               <div className="bg-white rounded-lg p-4 shadow-sm border">
-                <div className="text-sm text-gray-500">Overdue</div>
+                <div className="text-sm text-gray-500">{t('payments.summary.overdue')}</div>
                 <div className={cn(
                   "text-2xl font-bold",
                   upcomingSummary.overdueCount > 0 ? "text-red-600" : "text-gray-900"
@@ -504,7 +510,7 @@ export default function PaymentsPage() {
                 </div>
               </div>
               <div className="bg-white rounded-lg p-4 shadow-sm border">
-                <div className="text-sm text-gray-500">Due Soon</div>
+                <div className="text-sm text-gray-500">{t('payments.summary.dueSoon')}</div>
                 <div className={cn(
                   "text-2xl font-bold",
                   upcomingSummary.dueCount > 0 ? "text-orange-600" : "text-gray-900"
@@ -513,7 +519,7 @@ export default function PaymentsPage() {
                 </div>
               </div>
               <div className="bg-white rounded-lg p-4 shadow-sm border">
-                <div className="text-sm text-gray-500">Receiving</div>
+                <div className="text-sm text-gray-500">{t('payments.summary.receiving')}</div>
                 <div className="text-2xl font-bold text-green-600">
                   {upcomingSummary.receivingCount}
                 </div>
@@ -526,9 +532,9 @@ export default function PaymentsPage() {
         <div className="mt-6">
           <Card>
             <CardHeader>
-              <CardTitle>Upcoming Payments</CardTitle>
+              <CardTitle>{t('payments.upcoming.title')}</CardTitle>
               <CardDescription>
-                Scheduled contributions for current pools
+                {t('payments.upcoming.description')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -551,10 +557,10 @@ export default function PaymentsPage() {
                 <EmptyState
                   icon={AlertCircle}
                   iconColor="orange"
-                  title="Unable to load payments"
+                  title={t('payments.upcoming.loadError')}
                   description={upcomingError}
                   action={{
-                    label: 'Try Again',
+                    label: t('payments.tryAgain'),
                     onClick: fetchUpcomingPayments,
                     variant: 'outline',
                   }}
@@ -563,14 +569,14 @@ export default function PaymentsPage() {
                 <EmptyState
                   icon={Calendar}
                   iconColor="blue"
-                  title="No upcoming payments"
-                  description="You don't have any upcoming payments. Join or create a pool to start contributing."
+                  title={t('payments.upcoming.empty.title')}
+                  description={t('payments.upcoming.empty.description')}
                   action={{
-                    label: 'Create a Pool',
+                    label: t('payments.upcoming.empty.createPool'),
                     onClick: () => router.push('/create-pool'),
                   }}
                   secondaryAction={{
-                    label: 'Learn More',
+                    label: t('payments.upcoming.empty.learnMore'),
                     onClick: () => router.push('/help/documentation'),
                   }}
                 />
@@ -596,14 +602,14 @@ export default function PaymentsPage() {
                           <div className="text-sm text-gray-500">
                             {payment.isRecipient ? (
                               <span className="text-green-600 font-medium">
-                                You&apos;re receiving this round!
+                                {t('payments.upcoming.receiving')}
                               </span>
                             ) : (
-                              <>
-                                Round {payment.currentRound} of {payment.totalRounds}
-                                {' • '}
-                                To: {payment.recipientName}
-                              </>
+                              t('payments.upcoming.roundTo', {
+                                round: payment.currentRound,
+                                total: payment.totalRounds,
+                                recipient: payment.recipientName,
+                              })
                             )}
                           </div>
                           <div className="text-sm text-gray-500">
@@ -614,10 +620,10 @@ export default function PaymentsPage() {
                       <div className="flex items-center space-x-4">
                         <div className="text-right">
                           <div className="font-semibold text-gray-900">
-                            ${payment.amount.toFixed(2)}
+                            {formatCurrency(payment.amount, locale, payment.currency)}
                           </div>
                           <div className="text-xs text-gray-500 capitalize">
-                            {payment.frequency}
+                            {translateFrequency(locale, payment.frequency)}
                           </div>
                         </div>
                         {!payment.isRecipient && !payment.hasContributed && (
@@ -628,13 +634,13 @@ export default function PaymentsPage() {
                               payment.status === 'overdue' && "bg-red-600 hover:bg-red-700"
                             )}
                           >
-                            Pay Now
+                            {t('payments.upcoming.payNow')}
                           </Button>
                         )}
                         {payment.hasContributed && (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                             <CheckCircle className="h-3 w-3 mr-1" />
-                            Paid
+                            {t('payments.upcoming.paid')}
                           </span>
                         )}
                       </div>
@@ -652,9 +658,9 @@ export default function PaymentsPage() {
             <CardHeader>
               <div className="flex flex-col md:flex-row md:items-center md:justify-between">
                 <div>
-                  <CardTitle>Transaction History</CardTitle>
+                  <CardTitle>{t('payments.history.title')}</CardTitle>
                   <CardDescription>
-                    All your payments and receipts ({totalCount} total)
+                    {t('payments.history.description', { count: totalCount })}
                   </CardDescription>
                 </div>
                 <div className="mt-4 md:mt-0 flex items-center space-x-2">
@@ -662,7 +668,7 @@ export default function PaymentsPage() {
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                     <input
                       type="text"
-                      placeholder="Search transactions..."
+                      placeholder={t('payments.history.search')}
                       className="pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
@@ -679,7 +685,7 @@ export default function PaymentsPage() {
                       onClick={() => setShowFilters(!showFilters)}
                     >
                       <Filter className="h-4 w-4 mr-2" />
-                      Filter
+                      {t('payments.history.filter')}
                       {hasActiveFilters && (
                         <span className="ml-1 bg-blue-500 text-white rounded-full px-1.5 py-0.5 text-xs">
                           !
@@ -695,13 +701,13 @@ export default function PaymentsPage() {
                     {showFilters && (
                       <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border z-10 p-4">
                         <div className="flex justify-between items-center mb-4">
-                          <span className="font-medium">Filters</span>
+                          <span className="font-medium">{t('payments.history.filters')}</span>
                           {hasActiveFilters && (
                             <button
                               className="text-sm text-blue-600 hover:text-blue-800"
                               onClick={clearFilters}
                             >
-                              Clear all
+                              {t('payments.history.clearAll')}
                             </button>
                           )}
                         </div>
@@ -709,7 +715,7 @@ export default function PaymentsPage() {
                         <div className="space-y-4">
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Type
+                              {t('payments.history.type')}
                             </label>
                             <select
                               className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
@@ -719,19 +725,19 @@ export default function PaymentsPage() {
                                 setCurrentPage(1);
                               }}
                             >
-                              <option value="">All types</option>
-                              <option value="contribution">Contribution</option>
-                              <option value="payout">Payout</option>
-                              <option value="deposit">Deposit</option>
-                              <option value="withdrawal">Withdrawal</option>
-                              <option value="escrow">Escrow</option>
-                              <option value="refund">Refund</option>
+                              <option value="">{t('payments.history.allTypes')}</option>
+                              <option value="contribution">{t('transactionType.contribution')}</option>
+                              <option value="payout">{t('transactionType.payout')}</option>
+                              <option value="deposit">{t('transactionType.deposit')}</option>
+                              <option value="withdrawal">{t('transactionType.withdrawal')}</option>
+                              <option value="escrow">{t('transactionType.escrow')}</option>
+                              <option value="refund">{t('transactionType.refund')}</option>
                             </select>
                           </div>
 
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Status
+                              {t('payments.history.status')}
                             </label>
                             <select
                               className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
@@ -741,19 +747,19 @@ export default function PaymentsPage() {
                                 setCurrentPage(1);
                               }}
                             >
-                              <option value="">All statuses</option>
-                              <option value="completed">Completed</option>
-                              <option value="pending">Pending</option>
-                              <option value="processing">Processing</option>
-                              <option value="failed">Failed</option>
-                              <option value="scheduled">Scheduled</option>
-                              <option value="cancelled">Cancelled</option>
+                              <option value="">{t('payments.history.allStatuses')}</option>
+                              <option value="completed">{t('transactionStatus.completed')}</option>
+                              <option value="pending">{t('transactionStatus.pending')}</option>
+                              <option value="processing">{t('transactionStatus.processing')}</option>
+                              <option value="failed">{t('transactionStatus.failed')}</option>
+                              <option value="scheduled">{t('transactionStatus.scheduled')}</option>
+                              <option value="cancelled">{t('transactionStatus.cancelled')}</option>
                             </select>
                           </div>
 
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Date Range
+                              {t('payments.history.dateRange')}
                             </label>
                             <div className="flex space-x-2">
                               <input
@@ -764,7 +770,7 @@ export default function PaymentsPage() {
                                   setFilterStartDate(e.target.value);
                                   setCurrentPage(1);
                                 }}
-                                placeholder="From"
+                                placeholder={t('payments.history.from')}
                               />
                               <input
                                 type="date"
@@ -774,7 +780,7 @@ export default function PaymentsPage() {
                                   setFilterEndDate(e.target.value);
                                   setCurrentPage(1);
                                 }}
-                                placeholder="To"
+                                placeholder={t('payments.history.to')}
                               />
                             </div>
                           </div>
@@ -784,7 +790,7 @@ export default function PaymentsPage() {
                           className="mt-4 w-full bg-blue-600 text-white rounded-md py-2 text-sm font-medium hover:bg-blue-700"
                           onClick={() => setShowFilters(false)}
                         >
-                          Apply Filters
+                          {t('payments.history.applyFilters')}
                         </button>
                       </div>
                     )}
@@ -806,11 +812,11 @@ export default function PaymentsPage() {
                     <table className="w-full">
                       <thead>
                         <tr className="border-b text-left">
-                          <th className="pb-3 font-medium text-gray-500 text-sm">Date</th>
-                          <th className="pb-3 font-medium text-gray-500 text-sm">Pool</th>
-                          <th className="pb-3 font-medium text-gray-500 text-sm">Type</th>
-                          <th className="pb-3 font-medium text-gray-500 text-sm">Amount</th>
-                          <th className="pb-3 font-medium text-gray-500 text-sm">Status</th>
+                          <th className="pb-3 font-medium text-gray-500 text-sm">{t('payments.history.date')}</th>
+                          <th className="pb-3 font-medium text-gray-500 text-sm">{t('payments.history.pool')}</th>
+                          <th className="pb-3 font-medium text-gray-500 text-sm">{t('payments.history.type')}</th>
+                          <th className="pb-3 font-medium text-gray-500 text-sm">{t('payments.history.amount')}</th>
+                          <th className="pb-3 font-medium text-gray-500 text-sm">{t('payments.history.status')}</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y">
@@ -825,10 +831,10 @@ export default function PaymentsPage() {
                 <EmptyState
                   icon={AlertCircle}
                   iconColor="orange"
-                  title="Unable to load history"
+                  title={t('payments.history.loadError')}
                   description={historyError}
                   action={{
-                    label: 'Try Again',
+                    label: t('payments.tryAgain'),
                     onClick: fetchTransactionHistory,
                     variant: 'outline',
                   }}
@@ -837,14 +843,14 @@ export default function PaymentsPage() {
                 <EmptyState
                   icon={hasActiveFilters || debouncedSearch ? Search : CreditCard}
                   iconColor={hasActiveFilters || debouncedSearch ? 'gray' : 'green'}
-                  title={hasActiveFilters || debouncedSearch ? 'No results found' : 'No transaction history'}
+                  title={hasActiveFilters || debouncedSearch ? t('payments.history.noResults.title') : t('payments.history.empty.title')}
                   description={
                     hasActiveFilters || debouncedSearch
-                      ? 'No transactions match your filters. Try adjusting your search criteria.'
-                      : 'Your transaction history will appear here once you start making contributions or receive payouts.'
+                      ? t('payments.history.noResults.description')
+                      : t('payments.history.empty.description')
                   }
                   action={(hasActiveFilters || debouncedSearch) ? {
-                    label: 'Clear Filters',
+                    label: t('payments.history.clearFilters'),
                     onClick: () => {
                       clearFilters();
                       setSearchQuery('');
@@ -861,10 +867,10 @@ export default function PaymentsPage() {
                     columns={[
                       {
                         key: 'createdAt',
-                        header: 'Date',
+                        header: t('payments.history.date'),
                         render: (tx) => (
                           <span className="text-sm text-gray-600">
-                            {new Date(tx.createdAt).toLocaleDateString('en-US', {
+                            {new Date(tx.createdAt).toLocaleDateString(getIntlLocale(locale), {
                               month: 'short',
                               day: 'numeric',
                               year: 'numeric'
@@ -874,45 +880,45 @@ export default function PaymentsPage() {
                       },
                       {
                         key: 'poolName',
-                        header: 'Pool',
+                        header: t('payments.history.pool'),
                         render: (tx) => (
                           <div>
                             <div className="text-sm font-medium text-gray-900">{tx.poolName}</div>
-                            {tx.round && <div className="text-xs text-gray-500">Round {tx.round}</div>}
+                            {tx.round && <div className="text-xs text-gray-500">{t('payments.history.round', { round: tx.round })}</div>}
                           </div>
                         ),
                       },
                       {
                         key: 'type',
-                        header: 'Type',
+                        header: t('payments.history.type'),
                         render: (tx) => (
                           <div className="flex items-center space-x-2">
                             {getTypeIcon(tx.type)}
-                            <span className="text-sm capitalize">{tx.type}</span>
+                            <span className="text-sm capitalize">{translateTransactionType(locale, tx.type)}</span>
                           </div>
                         ),
                       },
                       {
                         key: 'amount',
-                        header: 'Amount',
+                        header: t('payments.history.amount'),
                         render: (tx) => (
                           <span className={cn(
                             "font-medium",
                             tx.type === 'payout' || tx.type === 'withdrawal' ? "text-green-600" : "text-gray-900"
                           )}>
-                            {tx.type === 'payout' || tx.type === 'withdrawal' ? '+' : '-'}${tx.amount.toFixed(2)}
+                            {tx.type === 'payout' || tx.type === 'withdrawal' ? '+' : '-'}{formatCurrency(tx.amount, locale, tx.currency)}
                           </span>
                         ),
                       },
                       {
                         key: 'status',
-                        header: 'Status',
+                        header: t('payments.history.status'),
                         render: (tx) => (
                           <span className={cn(
                             "inline-flex px-2 py-1 rounded-full text-xs font-medium capitalize",
                             getStatusBadge(tx.status)
                           )}>
-                            {tx.status}
+                            {translateTransactionStatus(locale, tx.status)}
                           </span>
                         ),
                       },
@@ -937,8 +943,11 @@ export default function PaymentsPage() {
                   {totalPages > 1 && (
                     <div className="flex items-center justify-between mt-6 pt-4 border-t">
                       <div className="text-sm text-gray-500">
-                        Showing {((currentPage - 1) * itemsPerPage) + 1} to{' '}
-                        {Math.min(currentPage * itemsPerPage, totalCount)} of {totalCount}
+                        {t('payments.history.showing', {
+                          from: ((currentPage - 1) * itemsPerPage) + 1,
+                          to: Math.min(currentPage * itemsPerPage, totalCount),
+                          total: totalCount,
+                        })}
                       </div>
                       <div className="flex items-center space-x-2">
                         <Button
@@ -950,7 +959,7 @@ export default function PaymentsPage() {
                           <ChevronLeft className="h-4 w-4" />
                         </Button>
                         <span className="text-sm text-gray-600">
-                          Page {currentPage} of {totalPages}
+                          {t('payments.history.page', { page: currentPage, total: totalPages })}
                         </span>
                         <Button
                           variant="outline"
@@ -22,6 +22,7 @@ import {
   Loader2,
   CheckCircle2,
   XCircle,
+  Download,
 } from "lucide-react";
 import { Button } from "../../../components/ui/button";
 import {
@@ -32,12 +33,18 @@ import {
   CardTitle,
 } from "../../../components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../../../components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "../../../components/ui/avatar";
-import { format } from "date-fns";
 import { InviteMembersDialog } from "../../../components/pools/InviteMembersDialog";
 import { ContributionModal } from "../../../components/pools/ContributionModal";
 import { ContributionStatusCard } from "../../../components/pools/ContributionStatusCard";
 import { PoolPayoutsManager } from "../../../components/pools/PoolPayoutsManager";
+import { PayoutOrderPanel } from "../../../components/pools/PayoutOrderPanel";
 import { PayoutMethodSetup } from "../../../components/payments/PayoutMethodSetup";
 import { Alert, AlertDescription, AlertTitle } from "../../../components/ui/alert";
 import {
@@ -62,15 +69,19 @@ import { Input } from "../../../components/ui/input";
 import { Label } from "../../../components/ui/label";
 import { Textarea } from "../../../components/ui/textarea";
 import { usePool } from "../../../lib/hooks/usePool";
+import { getPotAmount } from "../../../lib/currency";
 import { usePoolMessages } from "../../../lib/hooks/usePoolMessages";
 import { usePoolContributions } from "../../../lib/hooks/usePoolContributions";
 import { TransactionType, PoolMemberRole } from "../../../types/pool";
+import { getIntlLocale, translateFrequency, translateTransactionStatus } from "../../../lib/i18n";
+import { useTranslation } from "../../../contexts/LocaleContext";
 
 export default function PoolDetailPage({ params }: { params: { id: string } }) {
   const { id } = params;
   const router = useRouter();
   const searchParams = useSearchParams();
   const { data: session, status: authStatus } = useSession();
+  const { t, locale } = useTranslation();
   const [messageText, setMessageText] = useState("");
   const [showInviteDialog, setShowInviteDialog] = useState(false);
   const [showContributionModal, setShowContributionModal] = useState(false);
@@ -122,7 +133,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
     if (stripeCancelled) {
       setPaymentResult({
         success: false,
-        message: 'Payment was cancelled. You can try again when ready.',
+        message: t('poolPage.payment.cancelled'),
       });
       // Clean up URL
       router.replace(`/pools/${id}`, { scroll: false });
@@ -138,7 +149,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
           if (result.success) {
             setPaymentResult({
               success: true,
-              message: result.message || 'Payment successful! Your contribution has been recorded.',
+              message: result.message || t('poolPage.payment.succeeded'),
             });
             // Refresh pool data
             refreshPool();
@@ -146,7 +157,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
           } else {
             setPaymentResult({
               success: false,
-              message: result.error || 'Failed to complete payment. Please contact support.',
+              message: result.error || t('poolPage.payment.failed'),
             });
           }
         })
@@ -154,7 +165,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
           console.error('Stripe completion error:', error);
           setPaymentResult({
             success: false,
-            message: 'An error occurred while processing your payment.',
+            message: t('poolPage.payment.error'),
           });
         })
         .finally(() => {
@@ -163,7 +174,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
           router.replace(`/pools/${id}`, { scroll: false });
         });
     }
-  }, [searchParams, id, completeContribution, refreshPool, getContributionStatus, router, stripeProcessing, paymentResult]);
+  }, [searchParams, id, completeContribution, refreshPool, getContributionStatus, router, stripeProcessing, paymentResult, t]);
 
   // Load contribution status when session is available
   useEffect(() => {
@@ -179,41 +190,48 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
     : false;
 
   const formatDate = (dateString: string | undefined | null) => {
-    if (!dateString) return 'N/A';
+    if (!dateString) return t('poolPage.notAvailable');
     const date = new Date(dateString);
-    if (isNaN(date.getTime())) return 'N/A';
-    return format(date, "MMM d, yyyy");
+    if (isNaN(date.getTime())) return t('poolPage.notAvailable');
+    return date.toLocaleDateString(getIntlLocale(locale), { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
   const formatDateTime = (dateString: string | undefined | null) => {
-    if (!dateString) return 'N/A';
+    if (!dateString) return t('poolPage.notAvailable');
     const date = new Date(dateString);
-    if (isNaN(date.getTime())) return 'N/A';
-    return format(date, "MMM d, yyyy h:mm a");
+    if (isNaN(date.getTime())) return t('poolPage.notAvailable');
+    return date.toLocaleString(getIntlLocale(locale), {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
   };
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getIntlLocale(locale), {
       style: "currency",
-      currency: "USD",
+      currency: pool?.currency || "USD",
     }).format(amount);
   };
 
   // Format payment due date text based on the next payout date
   // Contributions are due the day before the payout
   const getPaymentDueText = () => {
+    const frequency = translateFrequency(locale, pool?.frequency || 'weekly');
     if (!pool?.nextPayoutDate) {
-      return `Payments are due ${pool?.frequency?.toLowerCase() || 'weekly'} before the scheduled payout.`;
+      return t('poolPage.rules.dueByFrequency', { frequency });
     }
     const payoutDate = new Date(pool.nextPayoutDate);
     if (isNaN(payoutDate.getTime())) {
-      return `Payments are due ${pool?.frequency?.toLowerCase() || 'weekly'} before the scheduled payout.`;
+      return t('poolPage.rules.dueByFrequency', { frequency });
     }
     // Due date is the day before payout
     const dueDate = new Date(payoutDate);
     dueDate.setDate(dueDate.getDate() - 1);
-    const dueDateFormatted = format(dueDate, "EEEE, MMMM d");
-    return `Payments are due by ${dueDateFormatted} (the day before the payout).`;
+    const dueDateFormatted = dueDate.toLocaleDateString(getIntlLocale(locale), { weekday: 'long', month: 'long', day: 'numeric' });
+    return t('poolPage.rules.dueByDate', { date: dueDateFormatted });
   };
 
   const getStatusColor = (status: string) => {
@@ -359,7 +377,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
     return (
       <div className="flex flex-col items-center justify-center h-64">
         <Loader className="h-8 w-8 text-blue-500 animate-spin mb-4" />
-        <p className="text-lg text-gray-500">Loading pool details...</p>
+        <p className="text-lg text-gray-500">{t('poolPage.loading')}</p>
       </div>
     );
   }
@@ -368,12 +386,12 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
     return (
       <div>
         <Alert variant="destructive">
-          <AlertTitle>Error</AlertTitle>
+          <AlertTitle>{t('poolPage.error')}</AlertTitle>
           <AlertDescription>{poolError}</AlertDescription>
         </Alert>
         <div className="mt-4">
           <Button onClick={() => router.push('/my-pool')}>
-            Back to My Pools
+            {t('poolPage.backToPools')}
           </Button>
         </div>
       </div>
@@ -384,12 +402,12 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
     return (
       <div>
         <Alert>
-          <AlertTitle>Pool Not Found</AlertTitle>
-          <AlertDescription>The requested pool could not be found.</AlertDescription>
+          <AlertTitle>{t('poolPage.notFound.title')}</AlertTitle>
+          <AlertDescription>{t('poolPage.notFound.description')}</AlertDescription>
         </Alert>
         <div className="mt-4">
           <Button onClick={() => router.push('/my-pool')}>
-            Back to My Pools
+            {t('poolPage.backToPools')}
           </Button>
         </div>
       </div>
@@ -403,9 +421,9 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
         {stripeProcessing && (
           <Alert className="mb-4 bg-blue-50 border-blue-200">
             <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />
-            <AlertTitle className="text-blue-800">Processing Payment</AlertTitle>
+            <AlertTitle className="text-blue-800">{t('poolPage.payment.processing')}</AlertTitle>
             <AlertDescription className="text-blue-700">
-              Please wait while we complete your payment...
+              {t('poolPage.payment.processingHint')}
             </AlertDescription>
           </Alert>
         )}
@@ -424,7 +442,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               <XCircle className="h-4 w-4 text-red-600" />
             )}
             <AlertTitle className={paymentResult.success ? 'text-green-800' : 'text-red-800'}>
-              {paymentResult.success ? 'Payment Successful!' : 'Payment Issue'}
+              {paymentResult.success ? t('poolPage.payment.successTitle') : t('poolPage.payment.issueTitle')}
             </AlertTitle>
             <AlertDescription className={paymentResult.success ? 'text-green-700' : 'text-red-700'}>
               {paymentResult.message}
@@ -451,14 +469,14 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                 onClick={() => router.push('/my-pool')}
               >
                 <ChevronLeft className="h-5 w-5 mr-1" />
-                Back to My Pools
+                {t('poolPage.backToPools')}
               </Button>
               <div>
                 <h2 className="text-2xl font-semibold text-gray-800">
                   {pool.name}
                 </h2>
                 <p className="mt-1 text-gray-500">
-                  Created on {formatDate(pool.createdAt)}
+                  {t('poolPage.createdOn', { date: formatDate(pool.createdAt) })}
                 </p>
               </div>
             </div>
@@ -466,7 +484,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
             <div className="mt-4 md:mt-0 flex flex-wrap gap-2 w-full md:w-auto">
               <Button variant="outline" size="sm" className="flex items-center min-h-[44px] flex-1 sm:flex-none justify-center">
                 <Share2 className="h-4 w-4 mr-2" />
-                Share
+                {t('poolPage.share')}
               </Button>
               <Button
                 variant="outline"
@@ -476,7 +494,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                 disabled={!isAdmin}
               >
                 <Settings className="h-4 w-4 mr-2" />
-                Settings
+                {t('poolPage.settings')}
               </Button>
               <Button
                   variant="outline"
@@ -485,17 +503,17 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                   onClick={() => setShowDeleteDialog(true)}
                 >
                   <Trash2 className="h-4 w-4 mr-2" />
-                  Delete Pool
+                  {t('poolPage.deletePool')}
                 </Button>
               {contributionLoading ? (
                 <Button disabled className="flex items-center min-h-[44px] w-full sm:w-auto justify-center">
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Loading...
+                  {t('poolPage.loadingShort')}
                 </Button>
               ) : userContributionInfo?.hasContributed ? (
                 <Button variant="outline" disabled className="flex items-center text-green-600 min-h-[44px] w-full sm:w-auto justify-center">
                   <DollarSign className="h-4 w-4 mr-2" />
-                  Payment Made
+                  {t('poolPage.paymentMade')}
                 </Button>
               ) : (
                 <Button
@@ -503,7 +521,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                   onClick={() => setShowContributionModal(true)}
                 >
                   <DollarSign className="h-4 w-4 mr-2" />
-                  {userContributionInfo?.isRecipient ? 'Make Payment (Recipient)' : 'Make Payment'}
+                  {userContributionInfo?.isRecipient ? t('poolPage.makePaymentRecipient') : t('poolPage.makePayment')}
                 </Button>
               )}
             </div>
@@ -520,7 +538,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-500">
-                    Total Pool
+                    {t('poolPage.stats.totalPool')}
                   </p>
                   <p className="text-2xl font-semibold">
                     {formatCurrency(pool.totalAmount)}
@@ -538,7 +556,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-500">
-                    Next Payout
+                    {t('poolPage.stats.nextPayout')}
                   </p>
                   <p className="text-2xl font-semibold">
                     {formatDate(pool.nextPayoutDate)}
@@ -555,9 +573,9 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                   <Clock className="h-6 w-6 text-purple-600" />
                 </div>
                 <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-500">Round</p>
+                  <p className="text-sm font-medium text-gray-500">{t('poolPage.stats.round')}</p>
                   <p className="text-2xl font-semibold">
-                    {pool.currentRound} of {pool.totalRounds}
+                    {t('poolPage.stats.roundOf', { round: pool.currentRound, total: pool.totalRounds })}
                   </p>
                 </div>
               </div>
@@ -571,7 +589,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                   <Users className="h-6 w-6 text-orange-600" />
                 </div>
                 <div className="ml-4">
-                  <p className="text-sm font-medium text-gray-500">Members</p>
+                  <p className="text-sm font-medium text-gray-500">{t('poolPage.stats.members')}</p>
                   <p className="text-2xl font-semibold">
                     {pool.memberCount}
                   </p>
@@ -584,9 +602,9 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
         {/* Progress Bar */}
         <Card className="mt-6">
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg">Pool Progress</CardTitle>
+            <CardTitle className="text-lg">{t('poolPage.progress.title')}</CardTitle>
             <CardDescription>
-              {pool.currentRound} of {pool.totalRounds} rounds completed
+              {t('poolPage.progress.description', { round: pool.currentRound, total: pool.totalRounds })}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -594,7 +612,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               <div className="flex mb-2 items-center justify-between">
                 <div>
                   <span className="text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full text-blue-600 bg-blue-200">
-                    In Progress
+                    {t('poolPage.progress.inProgress')}
                   </span>
                 </div>
                 <div className="text-right">
@@ -622,14 +640,14 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
 
         {/* Tabs for different sections */}
         <div className="mt-8">
-          <Tabs defaultValue="contributions">
+          <Tabs defaultValue={searchParams.get('tab') || "contributions"}>
             <TabsList className="mb-6 flex-wrap">
-              <TabsTrigger value="contributions">Contributions</TabsTrigger>
-              <TabsTrigger value="payouts">Payouts</TabsTrigger>
-              <TabsTrigger value="members">Members</TabsTrigger>
-              <TabsTrigger value="transactions">Transactions</TabsTrigger>
-              <TabsTrigger value="discussion">Discussion</TabsTrigger>
-              <TabsTrigger value="rules">Rules</TabsTrigger>
+              <TabsTrigger value="contributions">{t('poolPage.tabs.contributions')}</TabsTrigger>
+              <TabsTrigger value="payouts">{t('poolPage.tabs.payouts')}</TabsTrigger>
+              <TabsTrigger value="members">{t('poolPage.tabs.members')}</TabsTrigger>
+              <TabsTrigger value="transactions">{t('poolPage.tabs.transactions')}</TabsTrigger>
+              <TabsTrigger value="discussion">{t('poolPage.tabs.discussion')}</TabsTrigger>
+              <TabsTrigger value="rules">{t('poolPage.tabs.rules')}</TabsTrigger>
             </TabsList>
 
             {/* Contributions Tab */}
@@ -637,6 +655,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               <ContributionStatusCard
                 poolId={id}
                 userEmail={session?.user?.email || ''}
+                currency={pool.currency}
                 onMakeContribution={() => setShowContributionModal(true)}
               />
             </TabsContent>
@@ -649,9 +668,20 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                   userId={session?.user?.id || ''}
                   isAdmin={isAdmin}
                   poolName={pool.name}
+                  currency={pool.currency}
                   onPayoutSuccess={handlePayoutSuccess}
                 />
 
+                <PayoutOrderPanel
+                  poolId={id}
+                  currentMemberId={
+                    pool.members.find((m) => m.email === session?.user?.email)?.id ?? null
+                  }
+                  isAdmin={isAdmin}
+                  potAmount={pool.contributionAmount * pool.members.length}
+                  onOrderChange={refreshPool}
+                />
+
                 {/* Payout Method Setup - for receiving payouts */}
                 <PayoutMethodSetup />
               </div>
@@ -662,7 +692,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               <Card>
                 <CardHeader>
                   <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
-                    <CardTitle>Pool Members</CardTitle>
+                    <CardTitle>{t('poolPage.members.title')}</CardTitle>
                     <div className="flex flex-col sm:flex-row gap-2">
                       <Button
                         variant="outline"
@@ -671,7 +701,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                         onClick={() => setShowInviteDialog(true)}
                       >
                         <UserPlus className="h-4 w-4 mr-2" />
-                        Invite Member
+                        {t('poolPage.members.invite')}
                       </Button>
                       <Button
                         variant="outline"
@@ -680,7 +710,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                         onClick={handleManageMembers}
                       >
                         <Users className="h-4 w-4 mr-2" />
-                        Manage Members
+                        {t('poolPage.members.manage')}
                       </Button>
                     </div>
                   </div>
@@ -694,37 +724,37 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                             scope="col"
                             className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Member
+                            {t('poolPage.members.member')}
                           </th>
                           <th
                             scope="col"
                             className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Position
+                            {t('poolPage.members.position')}
                           </th>
                           <th
                             scope="col"
                             className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Status
+                            {t('poolPage.members.status')}
                           </th>
                           <th
                             scope="col"
                             className="hidden md:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Joined
+                            {t('poolPage.members.joined')}
                           </th>
                           <th
                             scope="col"
                             className="hidden sm:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Role
+                            {t('poolPage.members.role')}
                           </th>
                           <th
                             scope="col"
                             className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Actions
+                            {t('poolPage.members.actions')}
                           </th>
                         </tr>
                       </thead>
@@ -766,15 +796,14 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                                   member.status
                                 )}`}
                               >
-                                {member.status.charAt(0).toUpperCase() +
-                                  member.status.slice(1)}
+                                {t(`memberStatus.${member.status}`)}
                               </span>
                             </td>
                             <td className="hidden md:table-cell px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               {formatDate(member.joinDate)}
                             </td>
-                            <td className="hidden sm:table-cell px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500 capitalize">
-                              {member.role}
+                            <td className="hidden sm:table-cell px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {t(`memberRole.${member.role}`)}
                             </td>
                             <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right text-sm">
                               <button className="text-gray-400 hover:text-gray-500 min-w-[44px] min-h-[44px] flex items-center justify-center">
@@ -795,10 +824,27 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               <Card>
                 <CardHeader>
                   <div className="flex justify-between items-center">
-                    <CardTitle>Transaction History</CardTitle>
-                    <Button variant="outline" size="sm">
-                      Export
-                    </Button>
+                    <CardTitle>{t('poolPage.transactions.title')}</CardTitle>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <Download className="h-4 w-4 mr-2" />
+                          {t('poolPage.transactions.statement')}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem asChild>
+                          <a href={`/api/pools/${id}/statement`} download>
+                            {t('poolPage.transactions.poolStatement')}
+                          </a>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <a href={`/api/pools/${id}/rounds/${pool.currentRound || 1}/statement`} download>
+                            {t('poolPage.transactions.roundStatement', { round: pool.currentRound || 1 })}
+                          </a>
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -810,31 +856,31 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Type
+                            {t('poolPage.transactions.type')}
                           </th>
                           <th
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Member
+                            {t('poolPage.transactions.member')}
                           </th>
                           <th
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Amount
+                            {t('poolPage.transactions.amount')}
                           </th>
                           <th
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Date
+                            {t('poolPage.transactions.date')}
                           </th>
                           <th
                             scope="col"
                             className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                           >
-                            Status
+                            {t('poolPage.transactions.status')}
                           </th>
                         </tr>
                       </thead>
@@ -842,7 +888,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                         {pool.transactions.length === 0 ? (
                           <tr>
                             <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
-                              No transactions yet. Contributions will appear here.
+                              {t('poolPage.transactions.empty')}
                             </td>
                           </tr>
                         ) : (
@@ -851,8 +897,8 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <div className="flex items-center">
                                   {getTransactionIcon(transaction.type)}
-                                  <span className="ml-2 text-sm font-medium text-gray-900 capitalize">
-                                    {transaction.type}
+                                  <span className="ml-2 text-sm font-medium text-gray-900">
+                                    {t(`transactionType.${transaction.type}`)}
                                   </span>
                                 </div>
                               </td>
@@ -875,7 +921,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 capitalize">
-                                  {transaction.status}
+                                  {translateTransactionStatus(locale, transaction.status)}
                                 </span>
                               </td>
                             </tr>
@@ -892,9 +938,9 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
             <TabsContent value="discussion">
               <Card>
                 <CardHeader>
-                  <CardTitle>Group Discussion</CardTitle>
+                  <CardTitle>{t('poolPage.discussion.title')}</CardTitle>
                   <CardDescription>
-                    Communicate with other members of this pool
+                    {t('poolPage.discussion.description')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -905,14 +951,14 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                       </div>
                     ) : messagesError ? (
                       <Alert variant="destructive" className="mb-4">
-                        <AlertTitle>Error loading messages</AlertTitle>
+                        <AlertTitle>{t('poolPage.discussion.loadError')}</AlertTitle>
                         <AlertDescription>{messagesError}</AlertDescription>
                       </Alert>
                     ) : (
                       <div className="space-y-4 max-h-96 overflow-y-auto p-2">
                         {messages.length === 0 ? (
                           <div className="text-center py-8 text-gray-500">
-                            No messages yet. Start the conversation!
+                            {t('poolPage.discussion.empty')}
                           </div>
                         ) : (
                           messages.map((message) => (
@@ -967,7 +1013,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
                             value={messageText}
                             onChange={(e) => setMessageText(e.target.value)}
                             className="w-full border-gray-300 rounded-lg pr-12"
-                            placeholder="Type your message..."
+                            placeholder={t('poolPage.discussion.placeholder')}
                           />
                           <Button
                             type="submit"
@@ -990,101 +1036,66 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
             <TabsContent value="rules">
               <Card>
                 <CardHeader>
-                  <CardTitle>Pool Rules</CardTitle>
+                  <CardTitle>{t('poolPage.rules.title')}</CardTitle>
                   <CardDescription>
-                    Guidelines and terms for this savings pool
+                    {t('poolPage.rules.description')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-6">
                     <div>
                       <h3 className="text-lg font-medium text-gray-900">
-                        Contribution Rules
+                        {t('poolPage.rules.contributions')}
                       </h3>
                       <ul className="mt-3 space-y-3 text-sm text-gray-700 list-disc pl-5">
                         <li>
-                          <strong>All members</strong> must contribute{" "}
-                          <strong>
-                            {formatCurrency(pool.contributionAmount)}
-                          </strong>{" "}
-                          every {pool.frequency.toLowerCase()}, <strong>including the round's payout recipient</strong>.
-                        </li>
-                        <li>
-                          Contributions are made manually via Venmo, PayPal, Zelle, or Cash App directly to the pool admin.
+                          {t('poolPage.rules.contributionAmount', {
+                            amount: formatCurrency(pool.contributionAmount),
+                            frequency: translateFrequency(locale, pool.frequency),
+                          })}
                         </li>
+                        <li>{t('poolPage.rules.contributionMethods')}</li>
                         <li>{getPaymentDueText()}</li>
-                        <li>
-                          After sending your payment, mark it as completed in the app so the admin can verify receipt.
-                        </li>
-                        <li>
-                          Members who fail to make payments on time will receive
-                          a warning. After two missed payments, they may be
-                          removed from future pools.
-                        </li>
+                        <li>{t('poolPage.rules.markCompleted')}</li>
+                        <li>{t('poolPage.rules.missedPayments')}</li>
                       </ul>
                     </div>
 
                     <div>
                       <h3 className="text-lg font-medium text-gray-900">
-                        Payout Rules
+                        {t('poolPage.rules.payouts')}
                       </h3>
                       <ul className="mt-3 space-y-3 text-sm text-gray-700 list-disc pl-5">
+                        <li>{t('poolPage.rules.payoutOrder')}</li>
                         <li>
-                          The payout order was determined randomly at the start
-                          of the pool.
-                        </li>
-                        <li>
-                          Each member will receive one payout of{" "}
-                          {formatCurrency(
-                            pool.contributionAmount * pool.memberCount
-                          )}{" "}
-                          during their assigned round.
-                        </li>
-                        <li>
-                          Payouts are sent by the pool admin via your preferred payment method (Venmo, PayPal, Zelle, or Cash App).
-                        </li>
-                        <li>
-                          Make sure to set up your payout method in the Payouts tab to receive funds.
+                          {t('poolPage.rules.payoutAmount', {
+                            amount: formatCurrency(getPotAmount(pool, pool.memberCount)),
+                          })}
                         </li>
+                        <li>{t('poolPage.rules.payoutMethods')}</li>
+                        <li>{t('poolPage.rules.payoutSetup')}</li>
                       </ul>
                     </div>
 
                     <div>
                       <h3 className="text-lg font-medium text-gray-900">
-                        Member Rules
+                        {t('poolPage.rules.members')}
                       </h3>
                       <ul className="mt-3 space-y-3 text-sm text-gray-700 list-disc pl-5">
-                        <li>
-                          If a member needs to leave the pool, they must find a
-                          replacement who agrees to the same terms.
-                        </li>
-                        <li>
-                          New members must be approved by a majority of existing
-                          members.
-                        </li>
-                        <li>
-                          All members must maintain active contact information.
-                        </li>
+                        <li>{t('poolPage.rules.leaving')}</li>
+                        <li>{t('poolPage.rules.newMembers')}</li>
+                        <li>{t('poolPage.rules.contactInfo')}</li>
                       </ul>
                     </div>
 
                     <div>
                       <h3 className="text-lg font-medium text-gray-900">
-                        Dispute Resolution
+                        {t('poolPage.rules.disputes')}
                       </h3>
                       <ul className="mt-3 space-y-3 text-sm text-gray-700 list-disc pl-5">
-                        <li>
-                          All disputes will be resolved by a majority vote of
-                          pool members.
-                        </li>
-                        <li>
-                          The pool administrator has final say in urgent
-                          matters.
-                        </li>
-                        <li>
-                          Members agree to resolve disputes internally before
-                          seeking external resolution.
-                        </li>
+                        <li>{t('poolPage.rules.majorityVote')}</li>
+                        <li>{t('poolPage.rules.adminFinalSay')}</li>
+                        <li>{t('poolPage.rules.internalFirst')}</li>
                       </ul>
                     </div>
                   </div>
@@ -1107,6 +1118,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
       <ContributionModal
         poolId={id}
         poolName={pool.name}
+        currency={pool.currency}
         userEmail={session?.user?.email || ''}
         isOpen={showContributionModal}
         onClose={() => setShowContributionModal(false)}
@@ -1117,14 +1129,13 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Pool</AlertDialogTitle>
+            <AlertDialogTitle>{t('poolPage.delete.title')}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{pool.name}"? This action cannot be undone.
-              All pool data, including members, transactions, and messages will be permanently deleted.
+              {t('poolPage.delete.description', { name: pool.name })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={isDeleting}>{t('poolPage.cancel')}</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDeletePool}
               disabled={isDeleting}
@@ -1133,10 +1144,10 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               {isDeleting ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Deleting...
+                  {t('poolPage.delete.deleting')}
                 </>
               ) : (
-                'Delete Pool'
+                t('poolPage.deletePool')
               )}
             </AlertDialogAction>
           </AlertDialogFooter>
@@ -1147,28 +1158,28 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
       <Dialog open={showSettingsDialog} onOpenChange={setShowSettingsDialog}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>Pool Settings</DialogTitle>
+            <DialogTitle>{t('poolPage.settingsDialog.title')}</DialogTitle>
             <DialogDescription>
-              Update your pool&apos;s name and description.
+              {t('poolPage.settingsDialog.description')}
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="grid gap-2">
-              <Label htmlFor="pool-name">Pool Name</Label>
+              <Label htmlFor="pool-name">{t('poolPage.settingsDialog.name')}</Label>
               <Input
                 id="pool-name"
                 value={settingsFormData.name}
                 onChange={(e) => setSettingsFormData({ ...settingsFormData, name: e.target.value })}
-                placeholder="Enter pool name"
+                placeholder={t('poolPage.settingsDialog.namePlaceholder')}
               />
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="pool-description">Description</Label>
+              <Label htmlFor="pool-description">{t('poolPage.settingsDialog.descriptionLabel')}</Label>
               <Textarea
                 id="pool-description"
                 value={settingsFormData.description}
                 onChange={(e) => setSettingsFormData({ ...settingsFormData, description: e.target.value })}
-                placeholder="Enter pool description"
+                placeholder={t('poolPage.settingsDialog.descriptionPlaceholder')}
                 rows={3}
               />
             </div>
@@ -1179,7 +1190,7 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               onClick={() => setShowSettingsDialog(false)}
               disabled={isSavingSettings}
             >
-              Cancel
+              {t('poolPage.cancel')}
             </Button>
             <Button
               onClick={handleSaveSettings}
@@ -1188,10 +1199,10 @@ export default function PoolDetailPage({ params }: { params: { id: string } }) {
               {isSavingSettings ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Saving...
+                  {t('poolPage.settingsDialog.saving')}
                 </>
               ) : (
-                'Save Changes'
+                t('poolPage.settingsDialog.save')
               )}
             </Button>
           </DialogFooter>
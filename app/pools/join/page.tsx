@@ -26,11 +26,13 @@ import {
   Loader2,
   UserPlus,
   Clock,
+  ShieldCheck,
 } from 'lucide-react';
 import { Badge } from '../../../components/ui/badge';
 import { RulesAcknowledgmentDialog } from '../../../components/pools/RulesAcknowledgmentDialog';
 import { PoolOnboardingModal } from '../../../components/payments/PoolOnboardingModal';
 import { PaymentMethodType } from '../../../types/pool';
+import { ReliabilityScore, ReliabilityView, ReliabilityVisibility } from '../../../types/reliability';
 
 // Payment method labels for display
 const PAYMENT_METHOD_LABELS: Record<string, string> = {
@@ -54,6 +56,7 @@ function JoinPoolContent() {
   const [showRulesDialog, setShowRulesDialog] = useState(false);
   const [showOnboardingModal, setShowOnboardingModal] = useState(false);
   const [joinedPoolData, setJoinedPoolData] = useState<{ id: string; name: string; contributionAmount: number; frequency: string; allowedPaymentMethods?: PaymentMethodType[] } | null>(null);
+  const [reliability, setReliability] = useState<{ reliability: ReliabilityScore; visibility: ReliabilityVisibility; sharedWithAdmins: ReliabilityView } | null>(null);
 
   useEffect(() => {
     const code = searchParams.get('code');
@@ -63,6 +66,16 @@ function JoinPoolContent() {
     }
   }, [searchParams]);
 
+  // Show the user the reliability score the pool admin will see
+  useEffect(() => {
+    if (!validationResult || status !== 'authenticated') return;
+
+    fetch('/api/users/reliability')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((json) => setReliability(json?.data || null))
+      .catch((err) => console.error('Error fetching reliability score:', err));
+  }, [validationResult, status]);
+
   useEffect(() => {
     if (status === 'unauthenticated') {
       // Redirect to sign in with callback URL
@@ -324,6 +337,26 @@ function JoinPoolContent() {
                   </div>
                 )}
 
+                {reliability && (
+                  <div className="bg-gray-50 rounded-lg p-4 space-y-1">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      <ShieldCheck className="h-4 w-4 text-gray-500" />
+                      Your reliability score:{' '}
+                      {reliability.reliability.score === null
+                        ? 'New member'
+                        : `${reliability.reliability.score}/100 (${reliability.reliability.level})`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {reliability.visibility === ReliabilityVisibility.HIDDEN
+                        ? 'Pool admins will not see your score.'
+                        : reliability.visibility === ReliabilityVisibility.FULL
+                          ? 'Pool admins will see your score and payment history across pools.'
+                          : 'Pool admins will see your score, but not the history behind it.'}{' '}
+                      You can change this in Settings.
+                    </p>
+                  </div>
+                )}
+
                 <div className="bg-gray-50 rounded-lg p-4">
                   <p className="text-sm text-gray-600">
                     Invited by: <span className="font-medium">
@@ -43,7 +43,7 @@ export default function ActivityLogPage() {
           </div>
           
           <div className="mt-6">
-            <ActivityLogViewer userId={userId} />
+            <ActivityLogViewer />
           </div>
           
           <div className="mt-8 bg-gray-100 border border-gray-200 rounded-md p-4">
@@ -2,14 +2,17 @@
 
 import { SessionProvider } from "next-auth/react";
 import { NotificationProvider } from "../contexts/NotificationContext";
+import { LocaleProvider } from "../contexts/LocaleContext";
 import { ReactNode } from "react";
 import { usePathname } from "next/navigation";
+import type { Locale } from "../types/i18n";
 
 interface ProvidersProps {
   children: ReactNode;
+  locale: Locale;
 }
 
-function ProvidersContent({ children }: ProvidersProps) {
+function ProvidersContent({ children, locale }: ProvidersProps) {
   const pathname = usePathname();
 
   // Disable session polling on MFA and auth pages to prevent redirect loops
@@ -20,13 +23,15 @@ function ProvidersContent({ children }: ProvidersProps) {
       refetchInterval={isMfaOrAuthPage ? 0 : 5 * 60}
       refetchOnWindowFocus={!isMfaOrAuthPage}
     >
-      <NotificationProvider>
-        {children}
-      </NotificationProvider>
+      <LocaleProvider initialLocale={locale}>
+        <NotificationProvider>
+          {children}
+        </NotificationProvider>
+      </LocaleProvider>
     </SessionProvider>
   );
 }
 
-export function Providers({ children }: ProvidersProps) {
-  return <ProvidersContent>{children}</ProvidersContent>;
+export function Providers({ children, locale }: ProvidersProps) {
+  return <ProvidersContent locale={locale}>{children}</ProvidersContent>;
 }
\ No newline at end of file
@@ -39,6 +39,11 @@ import { Input } from "../../components/ui/input";
 import { Label } from "../../components/ui/label";
 import { Switch } from "../../components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
+import { PushDeviceSettings } from "../../components/settings/PushDeviceSettings";
+import { ActiveSessions } from "../../components/settings/ActiveSessions";
+import { Passkeys } from "../../components/settings/Passkeys";
+import { BackupCodes } from "../../components/settings/BackupCodes";
+import { DigestSettings } from "../../components/settings/DigestSettings";
 import {
   Select,
   SelectContent,
@@ -70,6 +75,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "../../components/ui/avatar"
 import { Skeleton, CardSkeleton, PageHeaderSkeleton } from "../../components/ui/skeleton";
 import { useUserProfile } from "../../lib/hooks/useUserProfile";
 import { useUserSettings } from "../../lib/hooks/useUserSettings";
+import { ReliabilityVisibility } from "../../types/reliability";
+import { SUPPORTED_LOCALES } from "../../types/i18n";
+import { isSupportedLocale, LOCALE_NAMES } from "../../lib/i18n";
+import { useTranslation } from "../../contexts/LocaleContext";
 import { formatDate } from "../../lib/utils";
 import {
   generatePayoutLink,
@@ -149,6 +158,8 @@ export default function SettingsPage() {
     updateSettings
   } = useUserSettings();
 
+  const { t, setLocale } = useTranslation();
+
   // Local state for form data
   const [profile, setProfile] = useState({
     name: '',
@@ -189,6 +200,7 @@ export default function SettingsPage() {
   const [preferences, setPreferences] = useState({
     language: 'en',
     timezone: 'America/New_York',
+    reliabilityVisibility: ReliabilityVisibility.SCORE,
   });
   // Track whether preferences have been initialized from server data
   const [preferencesInitialized, setPreferencesInitialized] = useState(false);
@@ -199,6 +211,7 @@ export default function SettingsPage() {
       setPreferences({
         language: userSettings.language || 'en',
         timezone: userSettings.timezone || 'America/New_York',
+        reliabilityVisibility: userSettings.privacy?.reliabilityVisibility || ReliabilityVisibility.SCORE,
       });
       setPreferencesInitialized(true);
     }
@@ -465,11 +478,14 @@ export default function SettingsPage() {
     // Save preferences to API
     const result = await updateSettings({
       language: preferences.language,
-      timezone: preferences.timezone
+      timezone: preferences.timezone,
+      privacy: { reliabilityVisibility: preferences.reliabilityVisibility }
     });
     
     if (result.success) {
-      // Preferences updated successfully
+      if (isSupportedLocale(preferences.language)) {
+        setLocale(preferences.language);
+      }
     } else {
       // Show error message
       console.error("Failed to update preferences:", result.error);
@@ -814,6 +830,45 @@ export default function SettingsPage() {
 
                 </div>
 
+                <div className="border-t pt-6">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    Backup Codes
+                  </h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    One-time codes for signing in when you can't use your usual verification method
+                  </p>
+
+                  <div className="mt-4">
+                    <BackupCodes />
+                  </div>
+                </div>
+
+                <div className="border-t pt-6">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    Passkeys
+                  </h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Sign in with your fingerprint, face, or device PIN instead of a password or code
+                  </p>
+
+                  <div className="mt-4">
+                    <Passkeys />
+                  </div>
+                </div>
+
+                <div className="border-t pt-6">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    Where You're Signed In
+                  </h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Devices signed in to your account. Sign out any you don't recognize.
+                  </p>
+
+                  <div className="mt-4">
+                    <ActiveSessions />
+                  </div>
+                </div>
+
                 <div className="border-t pt-6">
                   <h3 className="text-lg font-medium text-gray-900">
                     Account Activity
@@ -1070,6 +1125,10 @@ export default function SettingsPage() {
                     />
                   </div>
 
+                  <div className="mt-4">
+                    <PushDeviceSettings />
+                  </div>
+
                   <div className="ml-6 mt-4 space-y-4">
                     <div className="flex items-center justify-between">
                       <Label
@@ -1136,6 +1195,16 @@ export default function SettingsPage() {
                     </div>
                   </div>
                 </div>
+
+                <div className="border-t pt-6">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    Delivery
+                  </h3>
+                  <p className="text-sm text-gray-500 mt-1 mb-4">
+                    Choose when notifications reach you
+                  </p>
+                  <DigestSettings />
+                </div>
                 </>
                 )}
               </CardContent>
@@ -1564,14 +1633,17 @@ export default function SettingsPage() {
           <TabsContent value="preferences">
             <Card>
               <CardHeader>
-                <CardTitle>Account Preferences</CardTitle>
+                <CardTitle>{t("settings.preferences.title")}</CardTitle>
                 <CardDescription>
-                  Customize your experience on Juntas Seguras
+                  {t("settings.preferences.description")}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
                 <div>
-                  <Label htmlFor="language">Language</Label>
+                  <Label htmlFor="language">{t("settings.preferences.language")}</Label>
+                  <p className="text-xs text-gray-500">
+                    {t("settings.preferences.languageHint")}
+                  </p>
                   <Select
                     value={preferences.language}
                     onValueChange={(value) =>
@@ -1579,19 +1651,20 @@ export default function SettingsPage() {
                     }
                   >
                     <SelectTrigger id="language" className="mt-1">
-                      <SelectValue placeholder="Select language" />
+                      <SelectValue placeholder={t("settings.preferences.selectLanguage")} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="en">English</SelectItem>
-                      <SelectItem value="es">Español</SelectItem>
-                      <SelectItem value="fr">Français</SelectItem>
-                      <SelectItem value="pt">Português</SelectItem>
+                      {SUPPORTED_LOCALES.map((locale) => (
+                        <SelectItem key={locale} value={locale}>
+                          {LOCALE_NAMES[locale]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <Label htmlFor="timezone">Time Zone</Label>
+                  <Label htmlFor="timezone">{t("settings.preferences.timezone")}</Label>
                   <Select
                     value={preferences.timezone}
                     onValueChange={(value) =>
@@ -1599,26 +1672,26 @@ export default function SettingsPage() {
                     }
                   >
                     <SelectTrigger id="timezone" className="mt-1">
-                      <SelectValue placeholder="Select time zone" />
+                      <SelectValue placeholder={t("settings.preferences.selectTimezone")} />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="America/New_York">
-                        Eastern Time (ET)
+                        {t("settings.preferences.timezone.eastern")}
                       </SelectItem>
                       <SelectItem value="America/Chicago">
-                        Central Time (CT)
+                        {t("settings.preferences.timezone.central")}
                       </SelectItem>
                       <SelectItem value="America/Denver">
-                        Mountain Time (MT)
+                        {t("settings.preferences.timezone.mountain")}
                       </SelectItem>
                       <SelectItem value="America/Los_Angeles">
-                        Pacific Time (PT)
+                        {t("settings.preferences.timezone.pacific")}
                       </SelectItem>
                       <SelectItem value="America/Anchorage">
-                        Alaska Time (AKT)
+                        {t("settings.preferences.timezone.alaska")}
                       </SelectItem>
                       <SelectItem value="America/Adak">
-                        Hawaii Time (HT)
+                        {t("settings.preferences.timezone.hawaii")}
                       </SelectItem>
                     </SelectContent>
                   </Select>
@@ -1626,17 +1699,45 @@ export default function SettingsPage() {
 
                 <div className="border-t pt-6">
                   <h3 className="text-lg font-medium text-gray-900">
-                    Privacy Settings
+                    {t("settings.preferences.privacy")}
                   </h3>
 
                   <div className="mt-4 space-y-4">
+                    <div>
+                      <Label htmlFor="reliabilityVisibility">{t("settings.preferences.reliability")}</Label>
+                      <p className="text-xs text-gray-500">
+                        {t("settings.preferences.reliabilityHint")}
+                      </p>
+                      <Select
+                        value={preferences.reliabilityVisibility}
+                        onValueChange={(value) =>
+                          handlePreferenceChange("reliabilityVisibility", value)
+                        }
+                      >
+                        <SelectTrigger id="reliabilityVisibility" className="mt-1">
+                          <SelectValue placeholder={t("settings.preferences.selectVisibility")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ReliabilityVisibility.FULL}>
+                            {t("settings.preferences.reliability.full")}
+                          </SelectItem>
+                          <SelectItem value={ReliabilityVisibility.SCORE}>
+                            {t("settings.preferences.reliability.score")}
+                          </SelectItem>
+                          <SelectItem value={ReliabilityVisibility.HIDDEN}>
+                            {t("settings.preferences.reliability.hidden")}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div className="flex justify-between items-center">
                       <div>
                         <p className="text-sm font-medium text-gray-900">
-                          Profile Visibility
+                          {t("settings.preferences.profileVisibility")}
                         </p>
                         <p className="text-xs text-gray-500">
-                          Show your profile to other members in your pools
+                          {t("settings.preferences.profileVisibilityHint")}
                         </p>
                       </div>
                       <Switch defaultChecked />
@@ -1645,10 +1746,10 @@ export default function SettingsPage() {
                     <div className="flex justify-between items-center">
                       <div>
                         <p className="text-sm font-medium text-gray-900">
-                          Activity Status
+                          {t("settings.preferences.activityStatus")}
                         </p>
                         <p className="text-xs text-gray-500">
-                          Let other members see when you're active
+                          {t("settings.preferences.activityStatusHint")}
                         </p>
                       </div>
                       <Switch defaultChecked />
@@ -1657,10 +1758,10 @@ export default function SettingsPage() {
                     <div className="flex justify-between items-center">
                       <div>
                         <p className="text-sm font-medium text-gray-900">
-                          Data Analytics
+                          {t("settings.preferences.dataAnalytics")}
                         </p>
                         <p className="text-xs text-gray-500">
-                          Allow us to use your data to improve our services
+                          {t("settings.preferences.dataAnalyticsHint")}
                         </p>
                       </div>
                       <Switch defaultChecked />
@@ -1669,7 +1770,7 @@ export default function SettingsPage() {
                 </div>
               </CardContent>
               <CardFooter className="flex justify-end border-t pt-6">
-                <Button onClick={savePreferences}>Save Preferences</Button>
+                <Button onClick={savePreferences}>{t("settings.preferences.save")}</Button>
               </CardFooter>
             </Card>
           </TabsContent>
@@ -14,25 +14,28 @@ import {
   Plus
 } from 'lucide-react';
 import { cn } from '../lib/utils';
+import { useTranslation } from '../contexts/LocaleContext';
+import type { TranslationKey } from '../lib/i18n';
 
 type NavItem = {
-  label: string;
+  labelKey: TranslationKey;
   href: string;
   icon: React.ElementType;
   requiresAuth?: boolean;
 };
 
 const navItems: NavItem[] = [
-  { label: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, requiresAuth: true },
-  { label: 'My Pool', href: '/my-pool', icon: Users, requiresAuth: true },
-  { label: 'Create', href: '/create-pool', icon: Plus, requiresAuth: true },
-  { label: 'Payments', href: '/payments', icon: CreditCard, requiresAuth: true },
-  { label: 'Help', href: '/help', icon: HelpCircle },
+  { labelKey: 'nav.dashboard', href: '/dashboard', icon: LayoutDashboard, requiresAuth: true },
+  { labelKey: 'nav.myPool', href: '/my-pool', icon: Users, requiresAuth: true },
+  { labelKey: 'nav.create', href: '/create-pool', icon: Plus, requiresAuth: true },
+  { labelKey: 'nav.payments', href: '/payments', icon: CreditCard, requiresAuth: true },
+  { labelKey: 'nav.help', href: '/help', icon: HelpCircle },
 ];
 
 export function MobileBottomNav() {
   const pathname = usePathname();
   const { status } = useSession();
+  const { t } = useTranslation();
   const isAuthenticated = status === 'authenticated';
 
   // Haptic feedback for touch interactions
@@ -54,7 +57,7 @@ export function MobileBottomNav() {
     <nav
       className="sm:hidden fixed bottom-0 left-0 right-0 bg-white/95 backdrop-blur-lg border-t border-gray-200/80 z-50 safe-area-bottom"
       role="navigation"
-      aria-label="Main navigation"
+      aria-label={t('nav.mainNavigation')}
     >
       <div className="flex justify-around items-center h-16 px-1 max-w-lg mx-auto">
         {visibleItems.map((item) => {
@@ -111,7 +114,7 @@ export function MobileBottomNav() {
                     "text-[10px] mt-0.5 transition-all duration-200",
                     isActive ? 'font-semibold text-blue-600' : 'font-medium'
                   )}>
-                    {item.label}
+                    {t(item.labelKey)}
                   </span>
                   {/* Active indicator dot */}
                   {isActive && (
@@ -11,18 +11,20 @@ import { UserProfileButton } from "./auth/UserProfileButton";
 import { useSession } from "next-auth/react";
 import { Button } from "./ui/button";
 import { cn } from "../lib/utils";
+import { useTranslation } from "../contexts/LocaleContext";
+import type { TranslationKey } from "../lib/i18n";
 
 type NavItem = {
-  label: string;
+  labelKey: TranslationKey;
   href: string;
   requiresAuth?: boolean;
 };
 
 const navItems: NavItem[] = [
-  { label: "Dashboard", href: "/dashboard", requiresAuth: true },
-  { label: "My Pool", href: "/my-pool", requiresAuth: true },
-  { label: "Payments", href: "/payments", requiresAuth: true },
-  { label: "Help", href: "/help" },
+  { labelKey: "nav.dashboard", href: "/dashboard", requiresAuth: true },
+  { labelKey: "nav.myPool", href: "/my-pool", requiresAuth: true },
+  { labelKey: "nav.payments", href: "/payments", requiresAuth: true },
+  { labelKey: "nav.help", href: "/help" },
 ];
 
 export default function Navbar() {
@@ -31,6 +33,7 @@ export default function Navbar() {
   const [searchExpanded, setSearchExpanded] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { data: session, status } = useSession();
+  const { t } = useTranslation();
   const isAuthenticated = status === 'authenticated';
 
   // Close mobile menu on route change
@@ -85,7 +88,7 @@ export default function Navbar() {
                         : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
                     } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
                   >
-                    {item.label}
+                    {t(item.labelKey)}
                   </Link>
                 ))}
             </div>
@@ -106,7 +109,7 @@ export default function Navbar() {
                   <button
                     onClick={toggleSearch}
                     className="p-2 text-gray-400 hover:text-gray-500 hover:bg-gray-100 rounded-full transition-colors duration-200"
-                    aria-label="Search"
+                    aria-label={t("nav.search")}
                   >
                     <Search className="h-5 w-5" />
                   </button>
@@ -120,10 +123,10 @@ export default function Navbar() {
             ) : (
               <div className="flex space-x-2">
                 <Link href="/auth/signin">
-                  <Button variant="outline" size="sm">Log in</Button>
+                  <Button variant="outline" size="sm">{t("nav.logIn")}</Button>
                 </Link>
                 <Link href="/auth/signup">
-                  <Button size="sm">Sign up</Button>
+                  <Button size="sm">{t("nav.signUp")}</Button>
                 </Link>
               </div>
             )}
@@ -137,7 +140,7 @@ export default function Navbar() {
             aria-expanded={mobileMenuOpen}
             onClick={toggleMobileMenu}
           >
-            <span className="sr-only">{mobileMenuOpen ? 'Close menu' : 'Open menu'}</span>
+            <span className="sr-only">{mobileMenuOpen ? t("nav.closeMenu") : t("nav.openMenu")}</span>
             {mobileMenuOpen ? (
               <X className="block h-6 w-6" aria-hidden="true" />
             ) : (
@@ -168,16 +171,16 @@ export default function Navbar() {
         id="mobile-menu"
         role="dialog"
         aria-modal="true"
-        aria-label="Mobile navigation"
+        aria-label={t("nav.mobileNavigation")}
       >
         <div className="flex flex-col h-full bg-white">
           {/* Menu header */}
           <div className="flex items-center justify-between px-4 h-16 border-b border-gray-200 bg-white">
-            <span className="text-lg font-semibold text-gray-900">Menu</span>
+            <span className="text-lg font-semibold text-gray-900">{t("nav.menu")}</span>
             <button
               onClick={closeMobileMenu}
               className="p-2 -mr-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
-              aria-label="Close menu"
+              aria-label={t("nav.closeMenu")}
             >
               <X className="h-6 w-6" />
             </button>
@@ -199,10 +202,10 @@ export default function Navbar() {
             {!isAuthenticated && (
               <div className="flex gap-3 px-4 py-4 border-b border-gray-100 bg-white">
                 <Link href="/auth/signin" className="flex-1" onClick={closeMobileMenu}>
-                  <Button variant="outline" className="w-full h-12 text-base font-medium">Log in</Button>
+                  <Button variant="outline" className="w-full h-12 text-base font-medium">{t("nav.logIn")}</Button>
                 </Link>
                 <Link href="/auth/signup" className="flex-1" onClick={closeMobileMenu}>
-                  <Button className="w-full h-12 text-base font-medium">Sign up</Button>
+                  <Button className="w-full h-12 text-base font-medium">{t("nav.signUp")}</Button>
                 </Link>
               </div>
             )}
@@ -226,7 +229,7 @@ export default function Navbar() {
                       )}
                       onClick={closeMobileMenu}
                     >
-                      <span>{item.label}</span>
+                      <span>{t(item.labelKey)}</span>
                       <ChevronRight className={cn(
                         "h-5 w-5 transition-colors",
                         isActive ? "text-blue-500" : "text-gray-400"
@@ -253,10 +256,10 @@ export default function Navbar() {
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="font-medium text-gray-900 truncate text-sm">
-                    {session?.user?.name || 'User'}
+                    {session?.user?.name || t("nav.userFallback")}
                   </p>
                   <p className="text-xs text-gray-500 truncate">
-                    View profile
+                    {t("nav.viewProfile")}
                   </p>
                 </div>
                 <ChevronRight className="h-5 w-5 text-gray-400 shrink-0" />
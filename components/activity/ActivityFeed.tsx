@@ -64,6 +64,7 @@ export interface ActivityItem {
   poolName?: string;
   metadata?: {
     amount?: number;
+    currency?: string;
     round?: number;
     memberId?: string;
     memberName?: string;
@@ -148,11 +149,11 @@ const formatTimestamp = (timestamp: string) => {
   }
 };
 
-// Format currency
-const formatCurrency = (amount: number) => {
+// Format currency (amounts are in their pool's currency)
+const formatCurrency = (amount: number, currency: string = "USD") => {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
-    currency: "USD",
+    currency,
   }).format(amount);
 };
 
@@ -225,7 +226,7 @@ const ActivityItemComponent = React.memo(
               )}
               {activity.metadata?.amount !== undefined && (
                 <p className="text-sm font-semibold text-green-600 mt-1">
-                  {formatCurrency(activity.metadata.amount)}
+                  {formatCurrency(activity.metadata.amount, activity.metadata.currency)}
                 </p>
               )}
             </div>
@@ -28,7 +28,9 @@ import { Button } from '../../components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '../../components/ui/alert';
 import { usePoolAnalytics } from '../../lib/hooks/usePoolAnalytics';
+import { useUserAnalytics } from '../../lib/hooks/useUserAnalytics';
 import { usePools } from '../../lib/hooks/usePools';
+import { AnalyticsTimeframe } from '../../types/analytics';
 import { 
   DollarSign, 
   CheckCircle, 
@@ -47,8 +49,9 @@ interface PoolAnalyticsDashboardProps {
 
 export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsDashboardProps) {
   // State for filters and selections
-  const [timeframe, setTimeframe] = useState('3months');
+  const [timeframe, setTimeframe] = useState<AnalyticsTimeframe>('3months');
   const [selectedPoolId, setSelectedPoolId] = useState(initialPoolId || '');
+  const [historyMemberId, setHistoryMemberId] = useState('');
   
   // Fetch all pools for the selection dropdown
   const {
@@ -66,6 +69,9 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
     poolId: selectedPoolId,
     timeframe
   });
+
+  // The user's own numbers across all their pools
+  const { analytics: userAnalytics } = useUserAnalytics({ timeframe });
   
   // Set the first pool as selected if none is provided and pools are loaded
   React.useEffect(() => {
@@ -77,11 +83,12 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
   // Handle pool selection
   const handlePoolChange = (poolId: string) => {
     setSelectedPoolId(poolId);
+    setHistoryMemberId('');
   };
   
   // Handle timeframe selection
   const handleTimeframeChange = (value: string) => {
-    setTimeframe(value);
+    setTimeframe(value as AnalyticsTimeframe);
   };
   
   // Format currency
@@ -94,6 +101,14 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
     }).format(amount);
   };
   
+  // Format hours relative to a due date (negative means early)
+  const formatLatency = (hours: number | null) => {
+    if (hours === null) return 'N/A';
+    const magnitude = Math.abs(hours);
+    const amount = magnitude >= 48 ? `${(magnitude / 24).toFixed(1)} days` : `${magnitude.toFixed(1)} hours`;
+    return hours < 0 ? `${amount} early` : `${amount} after due`;
+  };
+  
   // Format date
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -232,6 +247,9 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
           <p className="text-gray-500">
             Track contributions, growth, and member performance
           </p>
+          <p className="text-xs text-gray-400 mt-1">
+            Updated {new Date(analytics.computedAt).toLocaleString('en-US')}
+          </p>
         </div>
         <div className="mt-4 md:mt-0 flex flex-col md:flex-row space-y-3 md:space-y-0 md:space-x-3">
           <Select
@@ -331,6 +349,40 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
         </Card>
       </div>
 
+      {/* Across all of the user's pools */}
+      {userAnalytics && userAnalytics.totals.pools > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Across Your Pools</CardTitle>
+            <CardDescription>
+              Your own contributions in {userAnalytics.totals.pools} pool{userAnalytics.totals.pools === 1 ? '' : 's'} for this timeframe
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-gray-500">Contributed</p>
+                <p className="text-lg font-semibold">{formatCurrency(userAnalytics.totals.contributed)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Received</p>
+                <p className="text-lg font-semibold">{formatCurrency(userAnalytics.totals.received)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Your On-Time Rate</p>
+                <p className="text-lg font-semibold">
+                  {userAnalytics.totals.onTimeRate === null ? 'N/A' : `${Math.round(userAnalytics.totals.onTimeRate)}%`}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Typical Payment Timing</p>
+                <p className="text-lg font-semibold">{formatLatency(userAnalytics.totals.averageLatencyHours)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs defaultValue="overview" className="mb-6">
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
@@ -525,6 +577,12 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
                           {Math.round(analytics.onTimeRate)}%
                         </span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-blue-700">Average Time to Full Collection:</span>
+                        <span className="font-medium">
+                          {formatLatency(analytics.averageCollectionLatencyHours)}
+                        </span>
+                      </div>
                     </div>
                   </div>
 
@@ -567,6 +625,26 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
                   </div>
                 </div>
               </div>
+
+              <div className="mt-6">
+                <h3 className="font-medium text-lg text-gray-900 mb-1">Collection Latency</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                  Hours after each round&apos;s due date: the average payment, and when the round was fully collected
+                </p>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.collectionLatencyData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="period" />
+                      <YAxis />
+                      <Tooltip formatter={(value) => [formatLatency(Number(value)), 'Latency']} />
+                      <Legend />
+                      <Bar dataKey="averageHours" name="Average Payment" fill="#3b82f6" />
+                      <Bar dataKey="collectedHours" name="Fully Collected" fill="#f59e0b" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -656,6 +734,59 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
                   </table>
                 </div>
               </div>
+
+              {analytics.memberHistories.length > 0 && (() => {
+                const history = analytics.memberHistories.find(m => String(m.memberId) === historyMemberId)
+                  || analytics.memberHistories[0];
+                return (
+                  <div className="mt-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+                      <h3 className="font-medium text-lg text-gray-900">Contribution History</h3>
+                      <Select
+                        value={String(history.memberId)}
+                        onValueChange={setHistoryMemberId}
+                      >
+                        <SelectTrigger className="w-full sm:w-[220px] mt-2 sm:mt-0">
+                          <SelectValue placeholder="Select Member" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {analytics.memberHistories.map(member => (
+                            <SelectItem key={member.memberId} value={String(member.memberId)}>
+                              {member.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {history.contributions.length === 0 ? (
+                      <p className="text-sm text-gray-500">No contributions from {history.name} in this timeframe.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Round</th>
+                              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Timing</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {history.contributions.map((contribution, index) => (
+                              <tr key={`${contribution.cycle}-${contribution.round}-${index}`}>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{contribution.period}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(contribution.date)}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatCurrency(contribution.amount)}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatLatency(contribution.latencyHours)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
             </CardContent>
           </Card>
         </TabsContent>
@@ -673,14 +804,7 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="h-80">
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={[
-                      ...analytics.savingsGrowthData,
-                      // Add projected data points
-                      ...(analytics.savingsGrowthData.length > 0 ? generateProjectedData(
-                        analytics.savingsGrowthData,
-                        analytics.projectedTotalValue
-                      ) : [])
-                    ]}>
+                    <LineChart data={analytics.projectedGrowthData}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="period" />
                       <YAxis />
@@ -688,12 +812,22 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
                       <Legend />
                       <Line
                         type="monotone"
-                        dataKey="amount"
+                        dataKey="actual"
+                        name="Saved"
                         stroke="#3b82f6"
                         strokeWidth={2}
                         dot={{ r: 4 }}
                         activeDot={{ r: 8 }}
                       />
+                      <Line
+                        type="monotone"
+                        dataKey="projected"
+                        name="Scheduled"
+                        stroke="#93c5fd"
+                        strokeWidth={2}
+                        strokeDasharray="5 5"
+                        dot={{ r: 3 }}
+                      />
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
@@ -840,52 +974,3 @@ export default function PoolAnalyticsDashboard({ initialPoolId }: PoolAnalyticsD
     </div>
   );
 }
-
-// Helper function to generate projected data points
-function generateProjectedData(
-  existingData: Array<{ period: string; amount: number }>,
-  targetAmount: number
-) {
-  if (existingData.length === 0) return [];
-  
-  const lastPoint = existingData[existingData.length - 1];
-  const lastAmount = lastPoint.amount;
-  
-  // Calculate how many more data points we need
-  const remaining = targetAmount - lastAmount;
-  const incrementPerPoint = remaining / 6; // Assume 6 more periods
-  
-  // Generate period labels (simple approach)
-  const lastPeriod = lastPoint.period;
-  const [month, weekPart] = lastPeriod.split(' Week ');
-  let weekNum = parseInt(weekPart || '1');
-  let currentMonth = month;
-  
-  // Month order for simple progression
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const monthIndex = months.indexOf(currentMonth);
-  
-  const projectedData = [];
-  
-  for (let i = 1; i <= 6; i++) {
-    weekNum++;
-    
-    // If we exceed week 4, move to next month
-    if (weekNum > 4) {
-      weekNum = 1;
-      const nextMonthIndex = (monthIndex + 1) % 12;
-      currentMonth = months[nextMonthIndex];
-    }
-    
-    const periodLabel = `${currentMonth} Week ${weekNum}`;
-    const amount = lastAmount + (incrementPerPoint * i);
-    
-    projectedData.push({
-      period: periodLabel,
-      amount,
-      projected: true
-    });
-  }
-  
-  return projectedData;
-}
\ No newline at end of file
@@ -31,6 +31,7 @@ import {
   DialogTitle,
 } from '../ui/dialog';
 import { cn } from '../../lib/utils';
+import { formatAmount, formatAmountLabel, getPotAmount } from '../../lib/currency';
 import { NotificationType } from '../../types/notification';
 
 interface PendingInvitation {
@@ -40,6 +41,7 @@ interface PendingInvitation {
   poolName: string;
   poolDescription?: string;
   contributionAmount: number;
+  currency?: string;
   frequency: string;
   memberCount: number;
   inviterName: string;
@@ -55,6 +57,7 @@ interface Pool {
   currentRound: number;
   totalRounds: number;
   contributionAmount: number;
+  currency?: string;
   frequency: string;
   nextPayoutDate?: string;
   members: {
@@ -271,7 +274,7 @@ export function DashboardAlerts({ pools, userEmail, isLoading }: DashboardAlerts
           type: 'warning',
           notificationType: 'payment',
           title: 'Payment Due',
-          message: `Your contribution of $${pool.contributionAmount} is due for ${pool.name}.`,
+          message: `Your contribution of ${formatAmount(pool.contributionAmount, pool.currency)} is due for ${pool.name}.`,
           action: {
             label: 'Make Payment',
             href: `/pools/${pool.id}`,
@@ -284,13 +287,13 @@ export function DashboardAlerts({ pools, userEmail, isLoading }: DashboardAlerts
     activePools.forEach(pool => {
       const userMember = pool.members.find(m => m.email === userEmail);
       if (userMember?.isRecipient) {
-        const totalPayout = pool.contributionAmount * pool.members.length;
+        const totalPayout = getPotAmount(pool, pool.members.length);
         generatedAlerts.push({
           id: `payout-receiving-${pool.id}`,
           type: 'success',
           notificationType: 'transaction',
           title: 'Payout Coming!',
-          message: `You're receiving $${totalPayout} from ${pool.name} this round.`,
+          message: `You're receiving ${formatAmount(totalPayout, pool.currency)} from ${pool.name} this round.`,
           action: {
             label: 'View Details',
             href: `/pools/${pool.id}`,
@@ -373,7 +376,7 @@ export function DashboardAlerts({ pools, userEmail, isLoading }: DashboardAlerts
         type: daysUntilExpiry <= 2 ? 'warning' : 'success',
         notificationType: 'invite',
         title: 'Pool Invitation',
-        message: `${invitation.inviterName} invited you to join "${invitation.poolName}" ($${invitation.contributionAmount}/${invitation.frequency})`,
+        message: `${invitation.inviterName} invited you to join "${invitation.poolName}" (${formatAmountLabel(invitation.contributionAmount, invitation.currency)}/${invitation.frequency})`,
         action: {
           label: 'View & Join',
           onClick: () => openInvitationModal(invitation),
@@ -523,7 +526,7 @@ export function DashboardAlerts({ pools, userEmail, isLoading }: DashboardAlerts
                   <div className="flex items-center gap-2">
                     <DollarSign className="h-4 w-4 text-gray-400" />
                     <span className="text-gray-600">
-                      ${selectedInvitation.contributionAmount}/{selectedInvitation.frequency}
+                      {formatAmountLabel(selectedInvitation.contributionAmount, selectedInvitation.currency)}/{selectedInvitation.frequency}
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
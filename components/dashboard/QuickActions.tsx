@@ -13,6 +13,7 @@ import {
   ArrowRight,
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { useTranslation } from '../../contexts/LocaleContext';
 
 interface QuickAction {
   id: string;
@@ -39,12 +40,15 @@ export function QuickActions({
   className,
 }: QuickActionsProps) {
   const router = useRouter();
+  const { t } = useTranslation();
 
   const actions: QuickAction[] = [
     {
       id: 'pay',
-      label: 'Make Payment',
-      description: pendingPaymentsCount > 0 ? `${pendingPaymentsCount} pending` : 'All caught up',
+      label: t('quickActions.makePayment'),
+      description: pendingPaymentsCount > 0
+        ? t('quickActions.pending', { count: pendingPaymentsCount })
+        : t('quickActions.allCaughtUp'),
       icon: <DollarSign className="w-5 h-5" />,
       onClick: onMakePayment || (() => router.push('/my-pool')),
       variant: pendingPaymentsCount > 0 ? 'warning' : 'default',
@@ -52,23 +56,23 @@ export function QuickActions({
     },
     {
       id: 'create',
-      label: 'Create Pool',
-      description: 'Start a new savings pool',
+      label: t('quickActions.createPool'),
+      description: t('quickActions.createPoolHint'),
       icon: <Plus className="w-5 h-5" />,
       onClick: onCreatePool,
       variant: 'primary',
     },
     {
       id: 'invite',
-      label: 'Invite Members',
-      description: 'Grow your pool',
+      label: t('quickActions.inviteMembers'),
+      description: t('quickActions.inviteMembersHint'),
       icon: <Users className="w-5 h-5" />,
       href: '/my-pool',
     },
     {
       id: 'help',
-      label: 'How It Works',
-      description: 'Learn about juntas',
+      label: t('quickActions.howItWorks'),
+      description: t('quickActions.howItWorksHint'),
       icon: <HelpCircle className="w-5 h-5" />,
       href: '/help/documentation',
     },
@@ -158,6 +162,7 @@ export function QuickActionsCompact({
   pendingPaymentsCount = 0,
 }: QuickActionsProps) {
   const router = useRouter();
+  const { t } = useTranslation();
 
   return (
     <div className="space-y-2">
@@ -168,10 +173,10 @@ export function QuickActionsCompact({
         >
           <span className="flex items-center gap-2">
             <DollarSign className="w-4 h-4" />
-            Make Payment
+            {t('quickActions.makePayment')}
           </span>
           <span className="flex items-center gap-1 text-xs bg-amber-400/50 px-2 py-0.5 rounded">
-            {pendingPaymentsCount} pending
+            {t('quickActions.pending', { count: pendingPaymentsCount })}
             <ArrowRight className="w-3 h-3" />
           </span>
         </Button>
@@ -183,7 +188,7 @@ export function QuickActionsCompact({
         className="w-full justify-start gap-2"
       >
         <Plus className="w-4 h-4" />
-        Create New Pool
+        {t('quickActions.createNewPool')}
       </Button>
     </div>
   );
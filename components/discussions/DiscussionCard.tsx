@@ -29,6 +29,8 @@ import {
   DropdownMenuTrigger,
 } from "../ui/dropdown-menu";
 import { cn } from "../../lib/utils";
+import { getPoolRoleInfo } from "../../lib/pools/roles";
+import { PoolMemberRole } from "../../types/pool";
 
 export interface DiscussionReply {
   id: string;
@@ -51,7 +53,7 @@ export interface DiscussionPost {
     id: string;
     name: string;
     avatar?: string;
-    role?: "admin" | "member" | "creator";
+    role?: `${PoolMemberRole}`;
   };
   poolId?: string;
   poolName?: string;
@@ -140,17 +142,15 @@ const renderContent = (
 };
 
 // Role badge component
-const RoleBadge = ({ role }: { role?: "admin" | "member" | "creator" }) => {
+const RoleBadge = ({ role }: { role?: `${PoolMemberRole}` }) => {
   if (!role || role === "member") return null;
 
-  const roleStyles = {
-    admin: "bg-blue-100 text-blue-700",
-    creator: "bg-purple-100 text-purple-700",
-  };
-
-  const roleLabels = {
-    admin: "Admin",
-    creator: "Creator",
+  const roleStyles: Record<string, string> = {
+    [PoolMemberRole.ADMIN]: "bg-blue-100 text-blue-700",
+    [PoolMemberRole.CREATOR]: "bg-purple-100 text-purple-700",
+    [PoolMemberRole.TREASURER]: "bg-green-100 text-green-700",
+    [PoolMemberRole.MODERATOR]: "bg-amber-100 text-amber-700",
+    [PoolMemberRole.VIEWER]: "bg-gray-100 text-gray-600",
   };
 
   return (
@@ -160,7 +160,7 @@ const RoleBadge = ({ role }: { role?: "admin" | "member" | "creator" }) => {
         roleStyles[role]
       )}
     >
-      {roleLabels[role]}
+      {getPoolRoleInfo(role).label}
     </span>
   );
 };
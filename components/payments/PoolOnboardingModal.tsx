@@ -24,6 +24,7 @@ import {
 } from 'lucide-react';
 import { PayoutMethodForm } from './PayoutMethodForm';
 import { PaymentMethodType } from '@/types/pool';
+import { formatAmountLabel } from '@/lib/currency';
 
 interface PoolOnboardingModalProps {
   isOpen: boolean;
@@ -32,6 +33,7 @@ interface PoolOnboardingModalProps {
   poolId: string;
   poolName: string;
   contributionAmount: number;
+  currency?: string;
   frequency: string;
   allowedPaymentMethods?: PaymentMethodType[];
 }
@@ -48,6 +50,7 @@ export function PoolOnboardingModal({
   poolId,
   poolName,
   contributionAmount,
+  currency,
   frequency,
   allowedPaymentMethods,
 }: PoolOnboardingModalProps) {
@@ -138,7 +141,7 @@ export function PoolOnboardingModal({
               </p>
               <div className="mt-4 p-3 bg-muted/50 rounded-lg text-sm">
                 <p className="text-muted-foreground">
-                  Contribution: <span className="font-medium">${contributionAmount}</span> {frequency}
+                  Contribution: <span className="font-medium">{formatAmountLabel(contributionAmount, currency)}</span> {frequency}
                 </p>
               </div>
             </div>
@@ -15,7 +15,9 @@ import {
   Users,
 } from 'lucide-react';
 import { Button } from '../ui/button';
-import { format, parseISO, isValid } from 'date-fns';
+import { parseISO, isValid } from 'date-fns';
+import { getIntlLocale } from '../../lib/i18n';
+import { useTranslation } from '../../contexts/LocaleContext';
 
 export interface Transaction {
   id: string;
@@ -45,51 +47,51 @@ const statusConfig = {
     color: 'text-green-600',
     bgColor: 'bg-green-50',
     borderColor: 'border-green-200',
-    label: 'Completed',
+    labelKey: 'transactionStatus.completed',
   },
   pending: {
     icon: Clock,
     color: 'text-yellow-600',
     bgColor: 'bg-yellow-50',
     borderColor: 'border-yellow-200',
-    label: 'Pending',
+    labelKey: 'transactionStatus.pending',
   },
   processing: {
     icon: Clock,
     color: 'text-blue-600',
     bgColor: 'bg-blue-50',
     borderColor: 'border-blue-200',
-    label: 'Processing',
+    labelKey: 'transactionStatus.processing',
   },
   failed: {
     icon: XCircle,
     color: 'text-red-600',
     bgColor: 'bg-red-50',
     borderColor: 'border-red-200',
-    label: 'Failed',
+    labelKey: 'transactionStatus.failed',
   },
-};
+} as const;
 
 const typeConfig = {
   contribution: {
     icon: ArrowUpRight,
     color: 'text-blue-600',
     bgColor: 'bg-blue-100',
-    label: 'Contribution',
+    labelKey: 'transactionType.contribution',
   },
   payout: {
     icon: ArrowDownLeft,
     color: 'text-green-600',
     bgColor: 'bg-green-100',
-    label: 'Payout',
+    labelKey: 'transactionType.payout',
   },
   refund: {
     icon: ArrowDownLeft,
     color: 'text-orange-600',
     bgColor: 'bg-orange-100',
-    label: 'Refund',
+    labelKey: 'transactionType.refund',
   },
-};
+} as const;
 
 /**
  * TransactionCard Component
@@ -103,6 +105,7 @@ export function TransactionCard({
   actionLabel,
   className,
 }: TransactionCardProps) {
+  const { t, locale } = useTranslation();
   const status = statusConfig[transaction.status as keyof typeof statusConfig] || statusConfig.pending;
   const type = typeConfig[transaction.type as keyof typeof typeConfig] || typeConfig.contribution;
   const StatusIcon = status.icon;
@@ -113,7 +116,7 @@ export function TransactionCard({
     try {
       const date = parseISO(dateString);
       if (!isValid(date)) return dateString;
-      return format(date, 'MMM d, yyyy');
+      return date.toLocaleDateString(getIntlLocale(locale), { month: 'short', day: 'numeric', year: 'numeric' });
     } catch {
       return dateString;
     }
@@ -121,7 +124,7 @@ export function TransactionCard({
 
   // Format currency
   const formatCurrency = (amount: number, currency = 'USD') => {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getIntlLocale(locale), {
       style: 'currency',
       currency,
     }).format(amount);
@@ -171,7 +174,7 @@ export function TransactionCard({
           </span>
           {transaction.round && (
             <p className="text-xs text-gray-500 mt-0.5">
-              Round {transaction.round}
+              {t('payments.history.round', { round: transaction.round })}
             </p>
           )}
         </div>
@@ -184,7 +187,7 @@ export function TransactionCard({
             )}
           >
             <StatusIcon className="h-3 w-3" />
-            {status.label}
+            {t(status.labelKey)}
           </span>
         </div>
       </div>
@@ -38,6 +38,7 @@ interface ContributionModalProps {
   poolId: string;
   poolName: string;
   userEmail: string;
+  currency?: string;
   isOpen: boolean;
   onClose: () => void;
   onContributionSuccess?: () => void;
@@ -47,6 +48,7 @@ export function ContributionModal({
   poolId,
   poolName,
   userEmail,
+  currency = 'USD',
   isOpen,
   onClose,
   onContributionSuccess,
@@ -97,7 +99,7 @@ export function ContributionModal({
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
     }).format(amount);
   };
 
@@ -118,6 +120,7 @@ export function ContributionModal({
       recipientHandle: handle,
       amount: contributionStatus.contributionAmount,
       note: `${poolName} - Round ${contributionStatus.currentRound} contribution`,
+      currency,
     });
 
     if (link) {
@@ -450,7 +453,7 @@ export function ContributionModal({
                         .map((method) => {
                           const handle = adminPaymentMethods![method]!;
                           const isPreferred = method === preferredMethod;
-                          const hasDeepLink = supportsDeepLink(method);
+                          const hasDeepLink = supportsDeepLink(method, currency);
 
                           return (
                             <div
@@ -27,6 +27,7 @@ import {
 interface ContributionStatusCardProps {
   poolId: string;
   userEmail: string;
+  currency?: string;
   onMakeContribution: () => void;
 }
 
@@ -47,6 +48,7 @@ const getPaymentMethodLabel = (method: string | null | undefined): string => {
 export function ContributionStatusCard({
   poolId,
   userEmail,
+  currency = 'USD',
   onMakeContribution,
 }: ContributionStatusCardProps) {
   const {
@@ -66,7 +68,7 @@ export function ContributionStatusCard({
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
     }).format(amount);
   };
 
@@ -29,8 +29,13 @@ import {
 } from "../../components/ui/dialog";
 import { Button } from "../../components/ui/button";
 import { CreatorRulesAcknowledgmentDialog } from "./CreatorRulesAcknowledgmentDialog";
-import { PaymentMethodType } from "../../types/pool";
+import { PaymentMethodType, PayoutOrderStrategy, PoolTier } from "../../types/pool";
+import { getPoolSchedule, parseScheduleStartDate, isValidTimezone } from "../../lib/schedule";
+import { getContributionLimits, validateContributionAmount } from "../../lib/pools/tiers";
+import { formatAmountLabel } from "../../lib/currency";
+import { DEFAULT_CURRENCY } from "../../types/currency";
 import { PoolOnboardingModal } from "../payments/PoolOnboardingModal";
+import { useTranslation } from "../../contexts/LocaleContext";
 
 // Import step components
 import {
@@ -51,9 +56,23 @@ interface CreatePoolModalProps {
 
 const DRAFT_STORAGE_KEY = 'juntas-pool-draft';
 
+// The creator's time zone becomes the pool's, falling back to UTC
+const getBrowserTimezone = (): string => {
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return timezone && isValidTimezone(timezone) ? timezone : 'UTC';
+};
+
+// The tier's limits as labels for form messages
+const getContributionRange = (currency: string, tier: string) => {
+  const { min, max } = getContributionLimits(currency, tier);
+  return { min: formatAmountLabel(min, currency), max: formatAmountLabel(max, currency) };
+};
+
 // Default form data
 const defaultPoolData: PoolFormData = {
   name: "",
+  currency: DEFAULT_CURRENCY,
+  tier: PoolTier.STANDARD,
   contributionAmount: "",
   frequency: "weekly",
   totalMembers: "4",
@@ -63,6 +82,7 @@ const defaultPoolData: PoolFormData = {
   inviteMethod: "email",
   emails: "",
   allowedPaymentMethods: ['venmo', 'cashapp', 'paypal', 'zelle'],
+  payoutOrderStrategy: PayoutOrderStrategy.FIXED,
 };
 
 const CreatePoolModal = ({
@@ -71,6 +91,7 @@ const CreatePoolModal = ({
   onCreatePool,
 }: CreatePoolModalProps) => {
   const { status } = useSession();
+  const { t } = useTranslation();
   const router = useRouter();
   const [step, setStep] = useState(1);
   const [formErrors, setFormErrors] = useState<string[]>([]);
@@ -108,7 +129,8 @@ const CreatePoolModal = ({
         try {
           const parsed = JSON.parse(savedDraft);
           if (parsed.name || parsed.contributionAmount) {
-            setPoolData(parsed);
+            // Drafts saved before currencies were added are in dollars
+            setPoolData({ ...defaultPoolData, ...parsed });
             setHasDraft(true);
           }
         } catch {
@@ -151,58 +173,39 @@ const CreatePoolModal = ({
       return [];
     }
 
-    const startDate = new Date(poolData.startDate);
-    const totalMembers = parseInt(poolData.totalMembers);
-    const dates: Date[] = [];
-
-    const getNextDate = (currentDate: Date, frequency: string): Date => {
-      const next = new Date(currentDate);
-      switch (frequency) {
-        case 'weekly':
-          next.setDate(next.getDate() + 7);
-          break;
-        case 'biweekly':
-          next.setDate(next.getDate() + 14);
-          break;
-        case 'monthly':
-          next.setMonth(next.getMonth() + 1);
-          break;
-        default:
-          next.setMonth(next.getMonth() + 1);
-      }
-      return next;
-    };
-
-    let currentDate = new Date(startDate);
-    for (let i = 0; i < totalMembers; i++) {
-      dates.push(new Date(currentDate));
-      currentDate = getNextDate(currentDate, poolData.frequency);
+    // Same dates the server will store, in the creator's time zone
+    const schedule = { timezone: getBrowserTimezone() };
+    const startDate = parseScheduleStartDate(poolData.startDate, schedule.timezone);
+    if (!startDate) {
+      return [];
     }
 
-    return dates;
+    return getPoolSchedule(
+      { frequency: poolData.frequency, startDate, schedule },
+      parseInt(poolData.totalMembers)
+    ).map(round => round.payoutDate);
   }, [poolData.startDate, poolData.totalMembers, poolData.frequency]);
 
   // Field-level validation
   const validateField = useCallback((name: string, value: string): string => {
     switch (name) {
       case 'name':
-        if (!value.trim()) return 'Pool name is required';
-        if (value.trim().length < 3) return 'Pool name must be at least 3 characters';
-        if (value.trim().length > 50) return 'Pool name must be less than 50 characters';
+        if (!value.trim()) return t('createPool.errors.nameRequired');
+        if (value.trim().length < 3) return t('createPool.errors.nameTooShort');
+        if (value.trim().length > 50) return t('createPool.errors.nameTooLong');
         return '';
       case 'contributionAmount':
-        if (!value) return 'Contribution amount is required';
-        const amount = Number(value);
-        if (isNaN(amount) || !Number.isInteger(amount) || amount < 1 || amount > 20) {
-          return 'Amount must be between $1 and $20';
+        if (!value) return t('createPool.errors.amountRequired');
+        if (validateContributionAmount(Number(value), poolData.currency, poolData.tier).error) {
+          return t('createPool.errors.amountRange', getContributionRange(poolData.currency, poolData.tier));
         }
         return '';
       case 'startDate':
-        if (!value) return 'Start date is required';
+        if (!value) return t('createPool.errors.startDateRequired');
         const selectedDate = new Date(value);
         const today = new Date();
         today.setHours(0, 0, 0, 0);
-        if (selectedDate < today) return 'Start date cannot be in the past';
+        if (selectedDate < today) return t('createPool.errors.startDatePast');
         return '';
       case 'emails':
         if (poolData.inviteMethod === 'email' && value) {
@@ -210,14 +213,14 @@ const CreatePoolModal = ({
           const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
           const invalidEmails = emails.filter(e => !emailRegex.test(e));
           if (invalidEmails.length > 0) {
-            return `Invalid email${invalidEmails.length > 1 ? 's' : ''}: ${invalidEmails.join(', ')}`;
+            return t('createPool.errors.invalidEmails', { count: invalidEmails.length, emails: invalidEmails.join(', ') });
           }
         }
         return '';
       default:
         return '';
     }
-  }, [poolData.inviteMethod]);
+  }, [poolData.inviteMethod, poolData.currency, poolData.tier, t]);
 
   // Handle field blur for validation
   const handleFieldBlur = (name: string, value: string) => {
@@ -237,6 +240,25 @@ const CreatePoolModal = ({
   };
 
   const handleSelectChange = (name: string, value: string) => {
+    if (name === 'currency') {
+      // Amounts are picked per currency, so the old one no longer applies
+      setPoolData((prev) => ({ ...prev, currency: value as PoolFormData['currency'], contributionAmount: "" }));
+      setFieldErrors(prev => ({ ...prev, contributionAmount: '' }));
+      return;
+    }
+    if (name === 'tier') {
+      // Keep the amount unless it's over the new tier's limit
+      setPoolData((prev) => ({
+        ...prev,
+        tier: value as PoolTier,
+        contributionAmount: prev.contributionAmount &&
+          validateContributionAmount(Number(prev.contributionAmount), prev.currency, value).error
+          ? ""
+          : prev.contributionAmount,
+      }));
+      setFieldErrors(prev => ({ ...prev, contributionAmount: '' }));
+      return;
+    }
     setPoolData((prev) => ({ ...prev, [name]: value }));
     setTouchedFields(prev => ({ ...prev, [name]: true }));
     const fieldError = validateField(name, value);
@@ -267,23 +289,22 @@ const CreatePoolModal = ({
     const errors: string[] = [];
 
     if (status !== 'authenticated') {
-      errors.push('You must be signed in to create a pool');
+      errors.push(t('createPool.errors.signInRequired'));
     }
 
     if (stepToValidate >= 1) {
       if (!poolData.name.trim()) {
-        errors.push('Pool name is required');
+        errors.push(t('createPool.errors.nameRequired'));
       }
 
-      const amount = Number(poolData.contributionAmount);
-      if (!poolData.contributionAmount || isNaN(amount) || !Number.isInteger(amount) || amount < 1 || amount > 20) {
-        errors.push('Contribution amount must be between $1 and $20');
+      if (!poolData.contributionAmount || validateContributionAmount(Number(poolData.contributionAmount), poolData.currency, poolData.tier).error) {
+        errors.push(t('createPool.errors.contributionRange', getContributionRange(poolData.currency, poolData.tier)));
       }
     }
 
     if (stepToValidate >= 2) {
       if (!poolData.startDate) {
-        errors.push('Start date is required');
+        errors.push(t('createPool.errors.startDateRequired'));
       }
     }
 
@@ -331,12 +352,16 @@ const CreatePoolModal = ({
       const createPoolRequest = {
         name: poolData.name,
         description: poolData.description,
+        currency: poolData.currency,
+        tier: poolData.tier,
         contributionAmount: Number(poolData.contributionAmount),
         frequency: poolData.frequency,
         totalRounds,
         startDate: poolData.startDate,
+        schedule: { timezone: getBrowserTimezone() },
         invitations,
-        allowedPaymentMethods: poolData.allowedPaymentMethods
+        allowedPaymentMethods: poolData.allowedPaymentMethods,
+        payoutOrderStrategy: poolData.payoutOrderStrategy
       };
 
       await createPool(createPoolRequest);
@@ -380,7 +405,9 @@ const CreatePoolModal = ({
       setPoolData(prev => ({
         ...prev,
         frequency: "monthly",
-        contributionAmount: "10",
+        contributionAmount: validateContributionAmount(10, prev.currency, prev.tier).error
+          ? String(getContributionLimits(prev.currency, prev.tier).min)
+          : "10",
         totalMembers: "4",
         startDate: nextMonth.toISOString().split('T')[0],
         inviteMethod: "later",
@@ -403,10 +430,10 @@ const CreatePoolModal = ({
       <DialogContent className="sm:max-w-md px-4 sm:px-6 py-5 sm:py-6 max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold text-center sm:text-left">
-            Create a New Savings Pool
+            {t('createPool.title')}
           </DialogTitle>
           <DialogDescription className="sr-only">
-            Complete the steps below to create a new savings pool
+            {t('createPool.description')}
           </DialogDescription>
           <button
             onClick={onClose}
@@ -421,7 +448,7 @@ const CreatePoolModal = ({
           {hasDraft && step === 1 && !quickCreateMode && (
             <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between">
               <p className="text-sm text-amber-800">
-                Draft restored from your last session
+                {t('createPool.draftRestored')}
               </p>
               <Button
                 type="button"
@@ -430,7 +457,7 @@ const CreatePoolModal = ({
                 onClick={discardDraft}
                 className="text-amber-700 hover:text-amber-900 hover:bg-amber-100 h-7 px-2"
               >
-                Start Fresh
+                {t('createPool.startFresh')}
               </Button>
             </div>
           )}
@@ -449,7 +476,7 @@ const CreatePoolModal = ({
               >
                 <Zap className={`h-4 w-4 ${quickCreateMode ? 'text-blue-500' : 'text-gray-400'}`} />
                 <span className="text-sm font-medium">
-                  {quickCreateMode ? 'Quick Create Mode' : 'Quick Create (Skip Steps)'}
+                  {quickCreateMode ? t('createPool.quickCreateMode') : t('createPool.quickCreateToggle')}
                 </span>
               </button>
             </div>
@@ -463,9 +490,9 @@ const CreatePoolModal = ({
                 totalSteps={3}
                 showStepText
                 steps={[
-                  { label: "Basic Info" },
-                  { label: "Schedule" },
-                  { label: "Invite Members" },
+                  { label: t('createPool.steps.basicInfo') },
+                  { label: t('createPool.steps.schedule') },
+                  { label: t('createPool.steps.inviteMembers') },
                 ]}
               />
             </div>
@@ -504,7 +531,7 @@ const CreatePoolModal = ({
             {formErrors.length > 0 && (
               <div className="mt-4">
                 <Alert variant="destructive">
-                  <AlertTitle>Validation Errors</AlertTitle>
+                  <AlertTitle>{t('createPool.validationErrors')}</AlertTitle>
                   <AlertDescription>
                     <ul className="list-disc pl-5">
                       {formErrors.map((err, index) => (
@@ -519,7 +546,7 @@ const CreatePoolModal = ({
             {error && (
               <div className="mt-4">
                 <Alert variant="destructive">
-                  <AlertTitle>Error</AlertTitle>
+                  <AlertTitle>{t('createPool.error')}</AlertTitle>
                   <AlertDescription>{error}</AlertDescription>
                 </Alert>
               </div>
@@ -535,7 +562,7 @@ const CreatePoolModal = ({
                     onClick={() => setQuickCreateMode(false)}
                     className="flex items-center justify-center min-h-[44px] w-full sm:w-auto"
                   >
-                    Customize
+                    {t('createPool.customize')}
                   </Button>
                   <Button
                     type="submit"
@@ -543,7 +570,7 @@ const CreatePoolModal = ({
                     disabled={isLoading || !poolData.name || !poolData.contributionAmount || !poolData.startDate}
                   >
                     <Zap className="h-4 w-4" />
-                    {isLoading ? 'Creating...' : 'Quick Create'}
+                    {isLoading ? t('createPool.creating') : t('createPool.quickCreate')}
                   </Button>
                 </>
               ) : (
@@ -556,7 +583,7 @@ const CreatePoolModal = ({
                       className="flex items-center justify-center min-h-[44px] w-full sm:w-auto"
                     >
                       <ChevronLeft className="h-4 w-4 mr-1" />
-                      Back
+                      {t('createPool.back')}
                     </Button>
                   ) : (
                     <div className="hidden sm:block"></div>
@@ -568,7 +595,7 @@ const CreatePoolModal = ({
                       onClick={nextStep}
                       className="flex items-center justify-center min-h-[44px] w-full sm:w-auto"
                     >
-                      Next
+                      {t('createPool.next')}
                       <ChevronRight className="h-4 w-4 ml-1" />
                     </Button>
                   ) : (
@@ -577,7 +604,7 @@ const CreatePoolModal = ({
                       className="bg-blue-600 hover:bg-blue-700 min-h-[44px] w-full sm:w-auto"
                       disabled={isLoading}
                     >
-                      {isLoading ? 'Creating...' : 'Create Pool'}
+                      {isLoading ? t('createPool.creating') : t('createPool.submit')}
                     </Button>
                   )}
                 </>
@@ -593,6 +620,7 @@ const CreatePoolModal = ({
         onOpenChange={setShowRulesDialog}
         poolName={poolData.name}
         contributionAmount={Number(poolData.contributionAmount) || 0}
+        currency={poolData.currency}
         frequency={poolData.frequency}
         onAccept={handleCreatePoolAfterRules}
         isProcessing={isLoading}
@@ -607,6 +635,7 @@ const CreatePoolModal = ({
           poolId={createdPoolId}
           poolName={createdPoolName}
           contributionAmount={Number(poolData.contributionAmount) || 0}
+          currency={poolData.currency}
           frequency={poolData.frequency}
           allowedPaymentMethods={poolData.allowedPaymentMethods}
         />
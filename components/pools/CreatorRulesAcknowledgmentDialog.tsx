@@ -14,12 +14,14 @@ import { Checkbox } from '../ui/checkbox';
 import { Label } from '../ui/label';
 import { ScrollText, AlertCircle, Info } from 'lucide-react';
 import { useState } from 'react';
+import { formatAmountLabel } from '../../lib/currency';
 
 interface CreatorRulesAcknowledgmentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   poolName: string;
   contributionAmount: number;
+  currency?: string;
   frequency: string;
   onAccept: () => void;
   isProcessing?: boolean;
@@ -63,6 +65,7 @@ export function CreatorRulesAcknowledgmentDialog({
   onOpenChange,
   poolName,
   contributionAmount,
+  currency,
   frequency,
   onAccept,
   isProcessing = false,
@@ -100,7 +103,7 @@ export function CreatorRulesAcknowledgmentDialog({
             <div className="flex items-start gap-2">
               <AlertCircle className="h-4 w-4 text-blue-600 mt-0.5 shrink-0" />
               <p className="text-sm text-blue-800">
-                By creating this pool, you agree to contribute <strong>${contributionAmount}</strong>{' '}
+                By creating this pool, you agree to contribute <strong>{formatAmountLabel(contributionAmount, currency)}</strong>{' '}
                 <strong>{frequency}</strong> along with all other members.
               </p>
             </div>
@@ -40,6 +40,7 @@ interface EarlyPayoutModalProps {
   poolId: string;
   poolName: string;
   userId: string;
+  currency?: string;
   isOpen: boolean;
   onClose: () => void;
   onPayoutSuccess?: () => void;
@@ -49,6 +50,7 @@ export function EarlyPayoutModal({
   poolId,
   poolName,
   userId,
+  currency = 'USD',
   isOpen,
   onClose,
   onPayoutSuccess,
@@ -81,7 +83,7 @@ export function EarlyPayoutModal({
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
     }).format(amount);
   };
 
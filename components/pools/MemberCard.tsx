@@ -4,6 +4,8 @@
 
 import React, { useState } from 'react';
 import { cn } from '../../lib/utils';
+import { getPoolRoleInfo, isPoolAdmin } from '../../lib/pools/roles';
+import { PoolMemberRole } from '../../types/pool';
 import {
   CheckCircle,
   Clock,
@@ -17,6 +19,7 @@ import {
   ChevronDown,
   History,
   CreditCard,
+  ShieldCheck,
 } from 'lucide-react';
 import { Button } from '../ui/button';
 import {
@@ -25,6 +28,9 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu';
+import { ReliabilityLevel, ReliabilityView } from '../../types/reliability';
+import { useTranslation } from '../../contexts/LocaleContext';
+import { getIntlLocale } from '../../lib/i18n';
 
 export interface ContributionRecord {
   round: number;
@@ -50,14 +56,24 @@ export interface Member {
   isRecipient?: boolean;
   contributionAmount?: number;
   joinedAt?: string;
-  role?: 'admin' | 'member';
+  role?: PoolMemberRole;
   contributionHistory?: ContributionRecord[];
   paymentMethod?: PaymentMethodInfo;
+  reliability?: ReliabilityView;
 }
 
+const RELIABILITY_STYLES: Record<ReliabilityLevel, string> = {
+  [ReliabilityLevel.NEW]: 'bg-gray-100 text-gray-700',
+  [ReliabilityLevel.EXCELLENT]: 'bg-green-100 text-green-700',
+  [ReliabilityLevel.GOOD]: 'bg-blue-100 text-blue-700',
+  [ReliabilityLevel.FAIR]: 'bg-yellow-100 text-yellow-700',
+  [ReliabilityLevel.POOR]: 'bg-red-100 text-red-700',
+};
+
 interface MemberCardProps {
   member: Member;
   poolName?: string;
+  currency?: string;
   currentRound?: number;
   onRemind?: (member: Member) => void;
   onMessage?: (member: Member) => void;
@@ -78,6 +94,7 @@ interface MemberCardProps {
 export function MemberCard({
   member,
   poolName,
+  currency = 'USD',
   currentRound,
   onRemind,
   onMessage,
@@ -90,6 +107,7 @@ export function MemberCard({
   className,
 }: MemberCardProps) {
   const [isHistoryExpanded, setIsHistoryExpanded] = useState(false);
+  const { t, locale } = useTranslation();
   // Determine member status
   const getStatusConfig = () => {
     if (member.isRecipient) {
@@ -98,8 +116,8 @@ export function MemberCard({
         color: 'text-amber-600',
         bgColor: 'bg-amber-50',
         borderColor: 'border-amber-200',
-        label: 'Receiving',
-      };
+        labelKey: 'memberCard.status.receiving',
+      } as const;
     }
     if (member.hasContributed) {
       return {
@@ -107,16 +125,16 @@ export function MemberCard({
         color: 'text-green-600',
         bgColor: 'bg-green-50',
         borderColor: 'border-green-200',
-        label: 'Paid',
-      };
+        labelKey: 'memberCard.status.paid',
+      } as const;
     }
     return {
       icon: Clock,
       color: 'text-gray-500',
       bgColor: 'bg-gray-50',
       borderColor: 'border-gray-200',
-      label: 'Pending',
-    };
+      labelKey: 'memberCard.status.pending',
+    } as const;
   };
 
   const status = getStatusConfig();
@@ -134,9 +152,9 @@ export function MemberCard({
 
   // Format currency
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getIntlLocale(locale), {
       style: 'currency',
-      currency: 'USD',
+      currency,
     }).format(amount);
   };
 
@@ -175,9 +193,21 @@ export function MemberCard({
               <h3 className="font-medium text-gray-900 truncate">
                 {member.name}
               </h3>
-              {member.role === 'admin' && (
+              {member.role && member.role !== PoolMemberRole.MEMBER && (
                 <span className="text-xs bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded">
-                  Admin
+                  {t(`memberRole.${getPoolRoleInfo(member.role).role}`)}
+                </span>
+              )}
+              {member.reliability?.level && (
+                <span
+                  className={cn(
+                    'inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded shrink-0',
+                    RELIABILITY_STYLES[member.reliability.level]
+                  )}
+                  title={t('memberCard.reliabilityTitle')}
+                >
+                  <ShieldCheck className="h-3 w-3" />
+                  {member.reliability.score ?? t(`reliabilityLevel.${member.reliability.level}`)}
                 </span>
               )}
             </div>
@@ -197,28 +227,28 @@ export function MemberCard({
               {onView && (
                 <DropdownMenuItem onClick={() => onView(member)}>
                   <User className="h-4 w-4 mr-2" />
-                  View Profile
+                  {t('memberCard.viewProfile')}
                 </DropdownMenuItem>
               )}
               {onMessage && (
                 <DropdownMenuItem onClick={() => onMessage(member)}>
                   <Mail className="h-4 w-4 mr-2" />
-                  Send Message
+                  {t('memberCard.sendMessage')}
                 </DropdownMenuItem>
               )}
               {onRemind && !member.hasContributed && !member.isRecipient && (
                 <DropdownMenuItem onClick={() => onRemind(member)}>
                   <Bell className="h-4 w-4 mr-2" />
-                  Send Reminder
+                  {t('memberCard.sendReminder')}
                 </DropdownMenuItem>
               )}
-              {onRemove && isAdmin && member.role !== 'admin' && (
+              {onRemove && isAdmin && !isPoolAdmin(member) && (
                 <DropdownMenuItem
                   onClick={() => onRemove(member)}
                   className="text-red-600 focus:text-red-600"
                 >
                   <AlertCircle className="h-4 w-4 mr-2" />
-                  Remove Member
+                  {t('memberCard.removeMember')}
                 </DropdownMenuItem>
               )}
             </DropdownMenuContent>
@@ -232,7 +262,7 @@ export function MemberCard({
           {/* Position */}
           {member.position !== undefined && (
             <div className="text-sm">
-              <span className="text-gray-500">Position:</span>{' '}
+              <span className="text-gray-500">{t('memberCard.position')}</span>{' '}
               <span className="font-medium">#{member.position}</span>
             </div>
           )}
@@ -256,16 +286,33 @@ export function MemberCard({
           )}
         >
           <StatusIcon className="h-3 w-3" />
-          {status.label}
+          {t(status.labelKey)}
         </span>
       </div>
 
+      {/* Reliability history, when the member shares it */}
+      {member.reliability?.breakdown && (
+        <p className="mt-2 text-xs text-gray-500">
+          {t('memberCard.onTime', {
+            onTime: member.reliability.breakdown.paymentsOnTime,
+            total: member.reliability.breakdown.paymentsOnTime + member.reliability.breakdown.paymentsMissed,
+          })}
+          {' · '}
+          {t('memberCard.cycles', { count: member.reliability.breakdown.completedCycles })}
+          {member.reliability.breakdown.outstandingDebts > 0 && (
+            <span className="text-red-600">
+              {' · '}{t('memberCard.owes', { amount: formatCurrency(member.reliability.breakdown.outstandingDebtAmount) })}
+            </span>
+          )}
+        </p>
+      )}
+
       {/* Recipient banner */}
       {member.isRecipient && (
         <div className="mt-3 p-2 rounded-lg bg-amber-50 border border-amber-200">
           <p className="text-xs text-amber-700 flex items-center gap-1">
             <Award className="h-3 w-3" />
-            Receiving payout this round
+            {t('memberCard.receivingPayout')}
           </p>
         </div>
       )}
@@ -288,12 +335,14 @@ export function MemberCard({
                   : 'bg-yellow-100 text-yellow-700'
               )}
             >
-              {member.paymentMethod.verified ? 'Verified' : 'Unverified'}
+              {member.paymentMethod.verified ? t('memberCard.verified') : t('memberCard.unverified')}
             </span>
           </div>
           {member.paymentMethod.lastUsed && (
             <p className="text-xs text-gray-400 mt-1 ml-6">
-              Last used: {new Date(member.paymentMethod.lastUsed).toLocaleDateString()}
+              {t('memberCard.lastUsed', {
+                date: new Date(member.paymentMethod.lastUsed).toLocaleDateString(getIntlLocale(locale)),
+              })}
             </p>
           )}
         </div>
@@ -309,7 +358,7 @@ export function MemberCard({
           >
             <span className="flex items-center gap-2">
               <History className="h-4 w-4" />
-              Contribution History ({member.contributionHistory.length})
+              {t('memberCard.history', { count: member.contributionHistory.length })}
             </span>
             {isHistoryExpanded ? (
               <ChevronDown className="h-4 w-4" />
@@ -342,7 +391,7 @@ export function MemberCard({
                     </span>
                   </div>
                   <span className="text-xs text-gray-400">
-                    {new Date(record.date).toLocaleDateString('en-US', {
+                    {new Date(record.date).toLocaleDateString(getIntlLocale(locale), {
                       month: 'short',
                       day: 'numeric',
                     })}
@@ -351,7 +400,7 @@ export function MemberCard({
               ))}
               {member.contributionHistory.length > 5 && (
                 <p className="text-xs text-gray-400 text-center">
-                  + {member.contributionHistory.length - 5} more
+                  {t('memberCard.more', { count: member.contributionHistory.length - 5 })}
                 </p>
               )}
             </div>
@@ -403,17 +452,18 @@ export function MemberListHeader({
   onInvite,
   className,
 }: MemberListHeaderProps) {
+  const { t } = useTranslation();
   const progress = totalMembers > 0 ? (contributedCount / totalMembers) * 100 : 0;
 
   return (
     <div className={cn('mb-4', className)}>
       <div className="flex items-center justify-between mb-2">
         <h3 className="font-medium text-gray-900">
-          Members ({totalMembers})
+          {t('memberCard.header.members', { count: totalMembers })}
         </h3>
         {onInvite && (
           <Button variant="outline" size="sm" onClick={onInvite}>
-            Invite
+            {t('memberCard.header.invite')}
           </Button>
         )}
       </div>
@@ -425,7 +475,7 @@ export function MemberListHeader({
           />
         </div>
         <span className="text-sm text-gray-600 shrink-0">
-          {contributedCount}/{totalMembers} paid
+          {t('memberCard.header.paid', { paid: contributedCount, total: totalMembers })}
         </span>
       </div>
     </div>
@@ -10,6 +10,7 @@ import {
 } from '../ui/tooltip';
 import { Check, Clock, Award } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { multiplyAmount } from '../../lib/currency';
 
 interface Member {
   id: string;
@@ -187,6 +188,7 @@ interface MemberContributionListProps {
   members: Member[];
   currentUserEmail?: string;
   contributionAmount: number;
+  currency?: string;
   className?: string;
 }
 
@@ -195,13 +197,14 @@ export function MemberContributionList({
   currentUserEmail,
   contributionAmount,
   className,
+  currency = 'USD',
 }: MemberContributionListProps) {
   const sortedMembers = [...members].sort((a, b) => a.position - b.position);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
     }).format(amount);
   };
 
@@ -223,7 +226,7 @@ export function MemberContributionList({
       <div className="flex items-center justify-between text-sm">
         <span className="text-gray-600">Contribution Progress</span>
         <span className="font-medium">
-          {contributedCount}/{members.length} members ({formatCurrency(contributedCount * contributionAmount)})
+          {contributedCount}/{members.length} members ({formatCurrency(multiplyAmount(contributionAmount, contributedCount, currency))})
         </span>
       </div>
 
@@ -0,0 +1,338 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Alert, AlertDescription } from '../ui/alert';
+import { useMemberExits, MemberExitEntry } from '../../lib/hooks/useMemberExits';
+import { formatAmount } from '../../lib/currency';
+import { MemberDebtStatus, MemberExitStatus } from '../../types/pool';
+import { Loader2, UserMinus, UserPlus } from 'lucide-react';
+
+interface MemberExitsPanelProps {
+  poolId: string;
+  currency?: string;
+  onMembersChange?: () => void;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+const EXIT_STATUS_LABELS: Record<MemberExitStatus, { label: string; className: string }> = {
+  [MemberExitStatus.AWAITING_REPLACEMENT]: { label: 'Needs replacement', className: 'bg-yellow-100 text-yellow-800' },
+  [MemberExitStatus.REPLACED]: { label: 'Replaced', className: 'bg-blue-100 text-blue-800' },
+  [MemberExitStatus.CLOSED]: { label: 'Paid out', className: 'bg-gray-100 text-gray-800' },
+};
+
+const DEBT_STATUS_LABELS: Record<MemberDebtStatus, string> = {
+  [MemberDebtStatus.OUTSTANDING]: 'Outstanding',
+  [MemberDebtStatus.SETTLED]: 'Settled',
+  [MemberDebtStatus.FORGIVEN]: 'Forgiven',
+};
+
+export function MemberExitsPanel({ poolId, currency, onMembersChange }: MemberExitsPanelProps) {
+  const {
+    exits,
+    refundsOwed,
+    outstandingDebt,
+    isLoading,
+    error,
+    inviteReplacement,
+    markRefundPaid,
+    markCatchUpReceived,
+    settleDebt,
+    forgiveDebt,
+  } = useMemberExits({ poolId });
+
+  const [replacingExitId, setReplacingExitId] = useState<string | null>(null);
+  const [replacement, setReplacement] = useState({ name: '', email: '', phone: '' });
+  const [debtNotes, setDebtNotes] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsSubmitting(true);
+    setActionError(null);
+    const result = await action();
+    setIsSubmitting(false);
+    if (!result.success) {
+      setActionError(result.error || 'Something went wrong');
+      return false;
+    }
+    return true;
+  };
+
+  const handleInvite = async (exitId: string) => {
+    const invited = await runAction(() =>
+      inviteReplacement(exitId, {
+        name: replacement.name.trim(),
+        email: replacement.email.trim(),
+        phone: replacement.phone.trim() || undefined,
+      })
+    );
+    if (invited) {
+      setReplacingExitId(null);
+      setReplacement({ name: '', email: '', phone: '' });
+      onMembersChange?.();
+    }
+  };
+
+  if (isLoading && exits.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const renderExit = (exit: MemberExitEntry) => {
+    const status = EXIT_STATUS_LABELS[exit.status];
+    const { netPosition } = exit;
+
+    return (
+      <div key={exit.id} className="space-y-3 rounded-lg border p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <div className="font-medium">{exit.memberName}</div>
+            <div className="text-xs text-gray-500">
+              Position {exit.position} · left {formatDate(exit.exitedAt)} · recorded by {exit.recordedBy}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Badge className={status.className}>{status.label}</Badge>
+            {!exit.open && <Badge variant="outline">Resolved</Badge>}
+          </div>
+        </div>
+
+        {exit.reason && <p className="text-sm text-gray-600">&ldquo;{exit.reason}&rdquo;</p>}
+
+        {/* Net position from the ledger when they left */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+          <div>
+            <div className="text-xs text-gray-500">Contributed</div>
+            <div>{formatAmount(netPosition.contributed, currency)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Received</div>
+            <div>{formatAmount(netPosition.received, currency)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Fees & adjustments</div>
+            <div>{formatAmount(netPosition.adjustments - netPosition.fees, currency)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Net position</div>
+            <div className={netPosition.net < 0 ? 'text-red-600 font-medium' : 'font-medium'}>
+              {formatAmount(netPosition.net, currency)}
+            </div>
+          </div>
+        </div>
+
+        {/* Refund owed to the departed member */}
+        {exit.refundOwed > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span>
+              Refund of {formatAmount(exit.refundOwed, currency)} owed to {exit.memberName}
+              {exit.refundPaidAt && ` · paid ${formatDate(exit.refundPaidAt)}`}
+            </span>
+            {!exit.refundPaidAt && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isSubmitting}
+                onClick={() => runAction(() => markRefundPaid(exit.id))}
+              >
+                Mark Refund Paid
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Replacement taking over the position */}
+        {exit.replacement && (
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span>
+              {exit.replacement.name} ({exit.replacement.email}) invited {formatDate(exit.replacement.invitedAt)}
+              {exit.replacement.catchUpAmount > 0 &&
+                (exit.replacement.catchUpReceivedAt
+                  ? ` · caught up ${formatDate(exit.replacement.catchUpReceivedAt)}`
+                  : ` · owes a ${formatAmount(exit.replacement.catchUpAmount, currency)} catch-up payment`)}
+            </span>
+            {exit.replacement.catchUpAmount > 0 && !exit.replacement.catchUpReceivedAt && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isSubmitting}
+                onClick={() => runAction(() => markCatchUpReceived(exit.id))}
+              >
+                Mark Catch-up Received
+              </Button>
+            )}
+          </div>
+        )}
+
+        {exit.status === MemberExitStatus.AWAITING_REPLACEMENT && (
+          replacingExitId === exit.id ? (
+            <div className="space-y-2 rounded-md bg-gray-50 p-3">
+              <p className="text-xs text-gray-500">
+                The replacement takes position {exit.position} and its payout
+                {exit.refundOwed > 0 && `, and owes ${formatAmount(exit.refundOwed, currency)} to cover what ${exit.memberName} paid in`}.
+              </p>
+              <div className="grid gap-2 sm:grid-cols-3">
+                <div>
+                  <Label htmlFor={`replacement-name-${exit.id}`}>Name</Label>
+                  <Input
+                    id={`replacement-name-${exit.id}`}
+                    value={replacement.name}
+                    onChange={(e) => setReplacement({ ...replacement, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`replacement-email-${exit.id}`}>Email</Label>
+                  <Input
+                    id={`replacement-email-${exit.id}`}
+                    type="email"
+                    value={replacement.email}
+                    onChange={(e) => setReplacement({ ...replacement, email: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`replacement-phone-${exit.id}`}>Phone (optional)</Label>
+                  <Input
+                    id={`replacement-phone-${exit.id}`}
+                    value={replacement.phone}
+                    onChange={(e) => setReplacement({ ...replacement, phone: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={isSubmitting || !replacement.name.trim() || !replacement.email.trim()}
+                  onClick={() => handleInvite(exit.id)}
+                >
+                  Send Invitation
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setReplacingExitId(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button size="sm" onClick={() => setReplacingExitId(exit.id)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite Replacement
+            </Button>
+          )
+        )}
+
+        {/* Debt from leaving after the payout */}
+        {exit.debt && (
+          <div className="space-y-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-red-800">
+                Owes the pool {formatAmount(exit.debt.amount, currency)}
+              </span>
+              <Badge variant="outline">{DEBT_STATUS_LABELS[exit.debt.status]}</Badge>
+            </div>
+            {exit.debt.resolvedAt && (
+              <p className="text-xs text-gray-600">
+                {DEBT_STATUS_LABELS[exit.debt.status]} by {exit.debt.resolvedBy} on {formatDate(exit.debt.resolvedAt)}
+                {exit.debt.notes && ` · ${exit.debt.notes}`}
+              </p>
+            )}
+            {exit.debt.status === MemberDebtStatus.OUTSTANDING && (
+              <div className="flex flex-wrap items-end gap-2">
+                <Input
+                  className="flex-1 min-w-[160px] bg-white"
+                  placeholder="Notes (optional)"
+                  value={debtNotes[exit.id] || ''}
+                  onChange={(e) => setDebtNotes({ ...debtNotes, [exit.id]: e.target.value })}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isSubmitting}
+                  onClick={() => runAction(() => settleDebt(exit.id, debtNotes[exit.id]))}
+                >
+                  Mark Repaid
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isSubmitting}
+                  onClick={() => runAction(() => forgiveDebt(exit.id, debtNotes[exit.id]))}
+                >
+                  Forgive
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Departures</CardTitle>
+        <CardDescription>
+          Members who left while the pool was running, and what they owe or are owed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actionError && (
+          <Alert variant="destructive">
+            <AlertDescription>{actionError}</AlertDescription>
+          </Alert>
+        )}
+
+        {exits.length === 0 ? (
+          <div className="text-center py-8">
+            <UserMinus className="h-12 w-12 text-gray-300 mx-auto" />
+            <h3 className="mt-4 text-lg font-medium text-gray-900">No departures</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Members removed mid-cycle will show up here
+            </p>
+          </div>
+        ) : (
+          <>
+            {(refundsOwed > 0 || outstandingDebt > 0) && (
+              <div className="flex flex-wrap gap-4 text-sm">
+                {refundsOwed > 0 && <span>Refunds owed: {formatAmount(refundsOwed, currency)}</span>}
+                {outstandingDebt > 0 && (
+                  <span className="text-red-600">Outstanding debt: {formatAmount(outstandingDebt, currency)}</span>
+                )}
+              </div>
+            )}
+            {exits.map(renderExit)}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ interface PayoutCountdownProps {
   payoutDate: string;
   payoutAmount: number;
   recipientName: string;
+  currency?: string;
   isUserRecipient: boolean;
   allContributionsReceived: boolean;
   payoutProcessed: boolean;
@@ -26,6 +27,7 @@ export function PayoutCountdown({
   payoutDate,
   payoutAmount,
   recipientName,
+  currency = 'USD',
   isUserRecipient,
   allContributionsReceived,
   payoutProcessed,
@@ -69,7 +71,7 @@ export function PayoutCountdown({
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
@@ -0,0 +1,321 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Alert, AlertDescription } from '../ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { usePayoutOrder } from '../../lib/hooks/usePayoutOrder';
+import { AVAILABLE_PAYOUT_ORDER_STRATEGIES } from './create-pool/types';
+import { PayoutOrderStrategy, PayoutSwapStatus } from '../../types/pool';
+import { ArrowLeftRight, Check, Dice5, Gavel, Loader2, ShieldCheck, X } from 'lucide-react';
+
+interface PayoutOrderPanelProps {
+  poolId: string;
+  currentMemberId: number | null;
+  isAdmin: boolean;
+  potAmount: number;
+  onOrderChange?: () => void;
+}
+
+export function PayoutOrderPanel({
+  poolId,
+  currentMemberId,
+  isAdmin,
+  potAmount,
+  onOrderChange,
+}: PayoutOrderPanelProps) {
+  const {
+    payoutOrder,
+    isLoading,
+    error,
+    runDraw,
+    placeBid,
+    resolveBids,
+    requestSwap,
+    respondToSwap,
+  } = usePayoutOrder({ poolId });
+
+  const [bidAmount, setBidAmount] = useState('');
+  const [swapTargetId, setSwapTargetId] = useState('');
+  const [swapReason, setSwapReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, changesOrder = false) => {
+    setIsSubmitting(true);
+    setActionError(null);
+    const result = await action();
+    setIsSubmitting(false);
+    if (!result.success) {
+      setActionError(result.error || 'Something went wrong');
+      return false;
+    }
+    if (changesOrder) {
+      onOrderChange?.();
+    }
+    return true;
+  };
+
+  if (isLoading && !payoutOrder) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !payoutOrder) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error || 'Payout order unavailable'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const strategyInfo = AVAILABLE_PAYOUT_ORDER_STRATEGIES.find((s) => s.value === payoutOrder.strategy);
+  const currentMember = payoutOrder.order.find((m) => m.memberId === currentMemberId);
+  const canMove = !!currentMember && !currentMember.payoutReceived && currentMember.position >= payoutOrder.currentRound;
+  const swapCandidates = payoutOrder.order.filter(
+    (m) => m.memberId !== currentMemberId && !m.payoutReceived && m.position >= payoutOrder.currentRound
+  );
+  const pendingSwaps = payoutOrder.swaps.filter((s) => s.status === PayoutSwapStatus.PENDING);
+  const myBid = payoutOrder.bids.find((b) => b.memberId === currentMemberId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Payout Order
+          <Badge variant="outline">{strategyInfo?.label}</Badge>
+        </CardTitle>
+        <CardDescription>{strategyInfo?.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {actionError && (
+          <Alert variant="destructive">
+            <AlertDescription>{actionError}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Random draw */}
+        {payoutOrder.strategy === PayoutOrderStrategy.RANDOM_DRAW && payoutOrder.draw && (
+          <div className="space-y-2 rounded-lg border p-4">
+            <div className="flex items-center gap-2 font-medium">
+              <Dice5 className="h-4 w-4" />
+              Random Draw
+              {payoutOrder.draw.drawnAt && payoutOrder.draw.verified && (
+                <Badge className="bg-green-100 text-green-800">
+                  <ShieldCheck className="h-3 w-3 mr-1" />
+                  Verified
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 break-all">
+              Seed hash: <span className="font-mono">{payoutOrder.draw.seedHash}</span>
+            </p>
+            {payoutOrder.draw.drawnAt ? (
+              <>
+                <p className="text-xs text-gray-500 break-all">
+                  Seed: <span className="font-mono">{payoutOrder.draw.seed}</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  Drawn {new Date(payoutOrder.draw.drawnAt).toLocaleString()}. Anyone can re-run the
+                  shuffle with this seed to check the order.
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                The seed stays secret until the draw. Its hash was published when the pool was created.
+              </p>
+            )}
+            {isAdmin && !payoutOrder.draw.drawnAt && (
+              <Button
+                size="sm"
+                disabled={isSubmitting}
+                onClick={() => runAction(runDraw, true)}
+              >
+                Run Draw
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Bidding */}
+        {payoutOrder.strategy === PayoutOrderStrategy.BIDDING && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center gap-2 font-medium">
+              <Gavel className="h-4 w-4" />
+              Round {payoutOrder.currentRound} Bidding
+            </div>
+            {payoutOrder.winningBid ? (
+              <p className="text-sm text-gray-600">
+                {payoutOrder.winningBid.memberName} won this round with a ${payoutOrder.winningBid.discountAmount} discount.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  {payoutOrder.bidCount} {payoutOrder.bidCount === 1 ? 'bid' : 'bids'} placed. The highest
+                  discount receives this round&apos;s ${potAmount} pot, minus the discount.
+                </p>
+                {canMove && (
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <Label htmlFor="bidAmount">Your discount bid ($)</Label>
+                      <Input
+                        id="bidAmount"
+                        type="number"
+                        min={0}
+                        max={potAmount - 1}
+                        value={bidAmount}
+                        placeholder={myBid ? String(myBid.discountAmount) : '0'}
+                        onChange={(e) => setBidAmount(e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      disabled={isSubmitting || bidAmount === ''}
+                      onClick={async () => {
+                        if (await runAction(() => placeBid(Number(bidAmount)))) {
+                          setBidAmount('');
+                        }
+                      }}
+                    >
+                      {myBid ? 'Update Bid' : 'Place Bid'}
+                    </Button>
+                  </div>
+                )}
+                {isAdmin && payoutOrder.bids.length > 0 && (
+                  <div className="space-y-1">
+                    {payoutOrder.bids.map((bid) => (
+                      <div key={bid.memberId} className="flex justify-between text-sm">
+                        <span>{bid.memberName}</span>
+                        <span>${bid.discountAmount}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {isAdmin && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isSubmitting}
+                    onClick={() => runAction(resolveBids, true)}
+                  >
+                    Close Bidding
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Swaps */}
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center gap-2 font-medium">
+            <ArrowLeftRight className="h-4 w-4" />
+            Position Swaps
+          </div>
+
+          {pendingSwaps.length === 0 && (
+            <p className="text-sm text-gray-500">No pending swap requests.</p>
+          )}
+          {pendingSwaps.map((swap) => (
+            <div key={swap.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+              <div>
+                <span className="font-medium">{swap.requesterName}</span> (#{swap.requesterPosition}) wants to swap
+                with <span className="font-medium">{swap.targetName}</span> (#{swap.targetPosition})
+                {swap.reason && <p className="text-xs text-gray-500">{swap.reason}</p>}
+              </div>
+              <div className="flex gap-2">
+                {swap.targetId === currentMemberId && (
+                  <Button
+                    size="sm"
+                    disabled={isSubmitting}
+                    onClick={() => runAction(() => respondToSwap(swap.id, 'approve'), true)}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                )}
+                {(swap.targetId === currentMemberId || isAdmin) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isSubmitting}
+                    onClick={() => runAction(() => respondToSwap(swap.id, 'reject'))}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                )}
+                {swap.requesterId === currentMemberId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isSubmitting}
+                    onClick={() => runAction(() => respondToSwap(swap.id, 'cancel'))}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {canMove && swapCandidates.length > 0 && (
+            <div className="space-y-2 pt-2 border-t">
+              <Label>Request a swap</Label>
+              <Select value={swapTargetId} onValueChange={setSwapTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {swapCandidates.map((m) => (
+                    <SelectItem key={m.memberId} value={String(m.memberId)}>
+                      #{m.position} {m.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Reason (optional)"
+                value={swapReason}
+                maxLength={500}
+                onChange={(e) => setSwapReason(e.target.value)}
+              />
+              <Button
+                size="sm"
+                disabled={isSubmitting || !swapTargetId}
+                onClick={async () => {
+                  if (await runAction(() => requestSwap(Number(swapTargetId), swapReason || undefined))) {
+                    setSwapTargetId('');
+                    setSwapReason('');
+                  }
+                }}
+              >
+                Request Swap
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,6 +20,8 @@ import {
 import { MemberContributionAvatars } from './MemberContributionAvatars';
 import { PayoutCountdownCompact } from './PayoutCountdown';
 import { cn } from '../../lib/utils';
+import { getIntlLocale, translateFrequency } from '../../lib/i18n';
+import { useTranslation } from '../../contexts/LocaleContext';
 
 interface PoolMember {
   id: string;
@@ -35,12 +37,13 @@ interface PoolCardProps {
   poolId: string;
   poolName: string;
   description?: string;
-  status: 'active' | 'pending' | 'completed';
+  status: 'active' | 'pending' | 'completed' | 'paused' | 'cancelled';
   currentRound: number;
   totalRounds: number;
   contributionAmount: number;
   frequency: string;
   nextPayoutDate?: string;
+  currency?: string;
   members: PoolMember[];
   currentUserEmail?: string;
   userHasContributed: boolean;
@@ -62,6 +65,7 @@ export function PoolCard({
   contributionAmount,
   frequency,
   nextPayoutDate,
+  currency = 'USD',
   members,
   currentUserEmail,
   userHasContributed,
@@ -73,11 +77,12 @@ export function PoolCard({
   className,
 }: PoolCardProps) {
   const router = useRouter();
+  const { t, locale } = useTranslation();
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getIntlLocale(locale), {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
@@ -85,6 +90,7 @@ export function PoolCard({
   const contributedCount = members.filter((m) => m.hasContributed).length;
   const progress = (contributedCount / members.length) * 100;
   const payoutAmount = contributionAmount * members.length;
+  const frequencyLabel = translateFrequency(locale, frequency);
 
   const handleClick = () => {
     router.push(`/pools/${poolId}`);
@@ -118,14 +124,14 @@ export function PoolCard({
               {userIsRecipient && (
                 <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-emerald-100 text-emerald-700 shrink-0">
                   <Award className="w-3 h-3 mr-0.5" />
-                  Receiving
+                  {t('poolCard.receiving')}
                 </span>
               )}
             </div>
             <div className="flex items-center gap-3 mt-1 text-sm text-gray-500">
-              <span>Round {currentRound}/{totalRounds}</span>
+              <span>{t('poolCard.roundOf', { round: currentRound, total: totalRounds })}</span>
               <span>•</span>
-              <span>{formatCurrency(contributionAmount)}/{frequency}</span>
+              <span>{formatCurrency(contributionAmount)}/{frequencyLabel}</span>
             </div>
           </div>
 
@@ -134,7 +140,7 @@ export function PoolCard({
             {userHasContributed ? (
               <span className="inline-flex items-center text-green-600 text-sm">
                 <Check className="w-4 h-4 mr-1" />
-                Paid
+                {t('poolCard.paid')}
               </span>
             ) : (
               <Button
@@ -146,7 +152,7 @@ export function PoolCard({
                 )}
               >
                 <DollarSign className="w-3 h-3 mr-1" />
-                Pay
+                {t('poolCard.pay')}
               </Button>
             )}
 
@@ -157,7 +163,7 @@ export function PoolCard({
         {/* Progress bar */}
         <div className="mt-3">
           <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
-            <span>{contributedCount}/{members.length} paid</span>
+            <span>{t('poolCard.paidCount', { paid: contributedCount, total: members.length })}</span>
             {nextPayoutDate && (
               <PayoutCountdownCompact
                 payoutDate={nextPayoutDate}
@@ -188,13 +194,13 @@ export function PoolCard({
       {userIsRecipient && !payoutProcessed && (
         <div className="bg-gradient-to-r from-emerald-500 to-teal-500 px-4 py-2 text-white text-sm font-medium flex items-center gap-2">
           <Award className="w-4 h-4" />
-          You're receiving {formatCurrency(payoutAmount)} this round!
+          {t('poolCard.receivingBanner', { amount: formatCurrency(payoutAmount) })}
         </div>
       )}
       {!userHasContributed && !userIsRecipient && status === 'active' && (
         <div className="bg-amber-500 px-4 py-2 text-white text-sm font-medium flex items-center gap-2">
           <Clock className="w-4 h-4" />
-          Payment of {formatCurrency(contributionAmount)} due
+          {t('poolCard.paymentDue', { amount: formatCurrency(contributionAmount) })}
         </div>
       )}
 
@@ -212,10 +218,12 @@ export function PoolCard({
               'shrink-0 px-2.5 py-1 rounded-full text-xs font-medium',
               status === 'active' && 'bg-green-100 text-green-700',
               status === 'pending' && 'bg-amber-100 text-amber-700',
-              status === 'completed' && 'bg-blue-100 text-blue-700'
+              status === 'completed' && 'bg-blue-100 text-blue-700',
+              status === 'paused' && 'bg-gray-100 text-gray-700',
+              status === 'cancelled' && 'bg-red-100 text-red-700'
             )}
           >
-            {status.charAt(0).toUpperCase() + status.slice(1)}
+            {t(`poolStatus.${status}`)}
           </div>
         </div>
 
@@ -225,23 +233,23 @@ export function PoolCard({
             <p className="text-lg font-bold text-gray-900">
               {currentRound}/{totalRounds}
             </p>
-            <p className="text-xs text-gray-500">Round</p>
+            <p className="text-xs text-gray-500">{t('poolCard.round')}</p>
           </div>
           <div className="text-center p-2 bg-gray-50 rounded-lg">
             <p className="text-lg font-bold text-gray-900">
               {formatCurrency(contributionAmount)}
             </p>
-            <p className="text-xs text-gray-500">{frequency}</p>
+            <p className="text-xs text-gray-500">{frequencyLabel}</p>
           </div>
           <div className="text-center p-2 bg-gray-50 rounded-lg">
             <p className="text-lg font-bold text-gray-900">{members.length}</p>
-            <p className="text-xs text-gray-500">Members</p>
+            <p className="text-xs text-gray-500">{t('poolCard.members')}</p>
           </div>
           <div className="text-center p-2 bg-gray-50 rounded-lg">
             <p className="text-lg font-bold text-gray-900">
               {formatCurrency(payoutAmount)}
             </p>
-            <p className="text-xs text-gray-500">Payout</p>
+            <p className="text-xs text-gray-500">{t('poolCard.payout')}</p>
           </div>
         </div>
 
@@ -249,7 +257,7 @@ export function PoolCard({
         <div className="mb-4">
           <div className="flex items-center justify-between text-sm mb-2">
             <span className="text-gray-600">
-              Contributions: {contributedCount}/{members.length}
+              {t('poolCard.contributions', { paid: contributedCount, total: members.length })}
             </span>
             <span className="font-medium">
               {Math.round(progress)}%
@@ -293,14 +301,14 @@ export function PoolCard({
             )}
           >
             <DollarSign className="w-4 h-4 mr-2" />
-            {userIsRecipient ? 'Make Payment (Recipient)' : 'Make Payment'}
+            {userIsRecipient ? t('poolCard.makePaymentRecipient') : t('poolCard.makePayment')}
           </Button>
         )}
 
         {userHasContributed && (
           <div className="flex items-center justify-center gap-2 mt-4 text-green-600">
             <Check className="w-5 h-5" />
-            <span className="font-medium">Payment Complete</span>
+            <span className="font-medium">{t('poolCard.paymentComplete')}</span>
           </div>
         )}
       </CardContent>
@@ -3,6 +3,9 @@
 import React from 'react';
 import { Award, Check, Clock, DollarSign, User } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { getRoundPayoutDate } from '../../lib/schedule';
+import { multiplyAmount } from '../../lib/currency';
+import type { PoolScheduleSettings } from '../../types/pool';
 
 interface TimelineMember {
   id: string;
@@ -21,6 +24,11 @@ interface PoolCycleTimelineProps {
   contributionAmount: number;
   frequency: string;
   currentUserEmail?: string;
+  currency?: string;
+  // With a start date, expected dates come from the pool schedule rather than member.payoutDate
+  startDate?: string;
+  createdAt?: string;
+  schedule?: Partial<PoolScheduleSettings>;
 }
 
 export function PoolCycleTimeline({
@@ -30,14 +38,18 @@ export function PoolCycleTimeline({
   contributionAmount,
   frequency,
   currentUserEmail,
+  currency = 'USD',
+  startDate,
+  createdAt,
+  schedule,
 }: PoolCycleTimelineProps) {
   const sortedMembers = [...members].sort((a, b) => a.position - b.position);
-  const payoutAmount = contributionAmount * members.length;
+  const payoutAmount = multiplyAmount(contributionAmount, members.length, currency);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(amount);
@@ -48,9 +60,17 @@ export function PoolCycleTimeline({
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
+      timeZone: schedule?.timezone,
     });
   };
 
+  const getPayoutDate = (member: TimelineMember) => {
+    if (member.hasReceivedPayout || (!startDate && !createdAt)) {
+      return member.payoutDate;
+    }
+    return getRoundPayoutDate({ frequency, startDate, createdAt, schedule }, member.position).toISOString();
+  };
+
   const getStatusStyles = (status: string, isCurrentUser: boolean) => {
     const baseStyles = 'transition-all duration-200';
 
@@ -162,9 +182,9 @@ export function PoolCycleTimeline({
                     <span className="text-xs text-gray-500">
                       Position {member.position}
                     </span>
-                    {member.payoutDate && (
+                    {getPayoutDate(member) && (
                       <span className="text-xs text-gray-500">
-                        {member.status === 'completed' ? 'Received' : 'Expected'}: {formatDate(member.payoutDate)}
+                        {member.status === 'completed' ? 'Received' : 'Expected'}: {formatDate(getPayoutDate(member))}
                       </span>
                     )}
                     {member.status === 'completed' && (
@@ -24,7 +24,7 @@ import {
 } from '../ui/dropdown-menu';
 import { cn } from '../../lib/utils';
 
-type PoolStatus = 'active' | 'pending' | 'completed' | 'paused';
+type PoolStatus = 'active' | 'pending' | 'completed' | 'paused' | 'cancelled';
 type UserRole = 'admin' | 'creator' | 'member';
 
 interface PoolHeaderProps {
@@ -37,6 +37,7 @@ interface PoolHeaderProps {
   contributionAmount: number;
   frequency: string;
   memberCount: number;
+  currency?: string;
   nextPayoutDate?: string;
   userRole: UserRole;
   userHasContributed: boolean;
@@ -58,6 +59,7 @@ export function PoolHeader({
   contributionAmount,
   frequency,
   memberCount,
+  currency = 'USD',
   nextPayoutDate,
   userRole,
   userHasContributed,
@@ -75,7 +77,7 @@ export function PoolHeader({
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
@@ -119,6 +121,12 @@ export function PoolHeader({
             Paused
           </span>
         );
+      case 'cancelled':
+        return (
+          <span className={cn(baseStyles, 'bg-red-100 text-red-700')}>
+            Cancelled
+          </span>
+        );
       default:
         return null;
     }
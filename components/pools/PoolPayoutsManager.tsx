@@ -22,10 +22,11 @@ interface PoolPayoutsManagerProps {
   userId: string;
   isAdmin: boolean;
   poolName: string;
+  currency?: string;
   onPayoutSuccess?: () => void;
 }
 
-export function PoolPayoutsManager({ poolId, userId, isAdmin, poolName, onPayoutSuccess }: PoolPayoutsManagerProps) {
+export function PoolPayoutsManager({ poolId, userId, isAdmin, poolName, currency = 'USD', onPayoutSuccess }: PoolPayoutsManagerProps) {
   const {
     isLoading,
     error,
@@ -91,7 +92,7 @@ export function PoolPayoutsManager({ poolId, userId, isAdmin, poolName, onPayout
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
     }).format(amount);
   };
 
@@ -461,6 +462,7 @@ export function PoolPayoutsManager({ poolId, userId, isAdmin, poolName, onPayout
       <EarlyPayoutModal
         poolId={poolId}
         poolName={poolName}
+        currency={currency}
         userId={userId}
         isOpen={showEarlyPayoutModal}
         onClose={() => setShowEarlyPayoutModal(false)}
@@ -1,12 +1,12 @@
 /**
  * Step 1: Basic Pool Information
  *
- * Collects pool name, description, and contribution amount
+ * Collects pool name, description, currency, tier, and contribution amount
  */
 
 "use client";
 
-import { DollarSign } from "lucide-react";
+import { Banknote } from "lucide-react";
 import { FormField, FormError, FormLabel, FormHelper } from "../../ui/form-field";
 import { Input } from "../../ui/input";
 import {
@@ -16,7 +16,30 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../../ui/select";
+import { Label } from "../../ui/label";
+import { RadioGroup, RadioGroupItem } from "../../ui/radio-group";
 import { StepProps } from "./types";
+import { CURRENCIES, formatAmountLabel, getCurrencyInfo } from "../../../lib/currency";
+import {
+  getPoolTiers,
+  getContributionLimits,
+  getContributionPresets,
+} from "../../../lib/pools/tiers";
+import type { PoolTierSafeguards } from "../../../types/pool";
+import { SUPPORTED_CURRENCIES } from "../../../types/currency";
+import type { Translator } from "../../../lib/i18n";
+import { useTranslation } from "../../../contexts/LocaleContext";
+
+// Short list of what a tier adds, e.g. "ID verification, admin co-signer"
+function describeSafeguards(t: Translator, safeguards: PoolTierSafeguards): string {
+  const parts = [];
+  if (safeguards.identityVerification) parts.push(t("createPool.basicInfo.safeguards.identity"));
+  if (safeguards.adminCoSigner) parts.push(t("createPool.basicInfo.safeguards.coSigner"));
+  if (safeguards.escrowHoldDays > 0) {
+    parts.push(t("createPool.basicInfo.safeguards.escrow", { days: safeguards.escrowHoldDays }));
+  }
+  return parts.length > 0 ? parts.join(", ") : t("createPool.basicInfo.safeguards.none");
+}
 
 export function BasicInfoStep({
   poolData,
@@ -26,17 +49,22 @@ export function BasicInfoStep({
   fieldErrors,
   touchedFields,
 }: StepProps) {
+  const { t } = useTranslation();
+  const currency = getCurrencyInfo(poolData.currency);
+  const tiers = getPoolTiers();
+  const limits = getContributionLimits(currency.code, poolData.tier);
+
   return (
     <div className="space-y-4">
       <FormField>
-        <FormLabel htmlFor="name" required>Pool Name</FormLabel>
+        <FormLabel htmlFor="name" required>{t("createPool.basicInfo.name")}</FormLabel>
         <Input
           id="name"
           name="name"
           value={poolData.name}
           onChange={onInputChange}
           onBlur={(e) => onFieldBlur('name', e.target.value)}
-          placeholder="e.g. Family Savings Pool"
+          placeholder={t("createPool.basicInfo.namePlaceholder")}
           className={touchedFields.name && fieldErrors.name ? 'border-destructive' : ''}
           aria-invalid={!!fieldErrors.name}
           aria-describedby={fieldErrors.name ? 'name-error' : undefined}
@@ -45,23 +73,69 @@ export function BasicInfoStep({
       </FormField>
 
       <FormField>
-        <FormLabel htmlFor="description" optional>Description</FormLabel>
+        <FormLabel htmlFor="description" optional>{t("createPool.basicInfo.description")}</FormLabel>
         <Input
           id="description"
           name="description"
           value={poolData.description}
           onChange={onInputChange}
-          placeholder="What is this pool for?"
+          placeholder={t("createPool.basicInfo.descriptionPlaceholder")}
         />
-        <FormHelper>Help members understand the purpose of this pool</FormHelper>
+        <FormHelper>{t("createPool.basicInfo.descriptionHint")}</FormHelper>
       </FormField>
 
+      <FormField>
+        <Label>{t("createPool.basicInfo.currency")}</Label>
+        <RadioGroup
+          value={currency.code}
+          onValueChange={(value) => onSelectChange("currency", value)}
+          className="grid grid-cols-2 gap-2 mt-2"
+        >
+          {SUPPORTED_CURRENCIES.map((code) => (
+            <div key={code} className="flex items-center space-x-2">
+              <RadioGroupItem value={code} id={`currency-${code}`} />
+              <Label htmlFor={`currency-${code}`}>{CURRENCIES[code].name} ({code})</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <FormHelper>{t("createPool.basicInfo.currencyHint")}</FormHelper>
+      </FormField>
+
+      {tiers.length > 1 && (
+        <FormField>
+          <Label>{t("createPool.basicInfo.tier")}</Label>
+          <RadioGroup
+            value={poolData.tier}
+            onValueChange={(value) => onSelectChange("tier", value)}
+            className="space-y-2 mt-2"
+          >
+            {tiers.map((info) => (
+              <div key={info.tier} className="flex items-start space-x-2">
+                <RadioGroupItem value={info.tier} id={`tier-${info.tier}`} className="mt-1" />
+                <Label htmlFor={`tier-${info.tier}`} className="font-normal">
+                  <span className="font-medium">
+                    {t("createPool.basicInfo.tierLimit", {
+                      tier: t(`poolTier.${info.tier}.label`),
+                      max: formatAmountLabel(getContributionLimits(currency.code, info.tier).max, currency.code),
+                    })}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {t(`poolTier.${info.tier}.description`)} {describeSafeguards(t, info.safeguards)}.
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <FormHelper>{t("createPool.basicInfo.tierHint")}</FormHelper>
+        </FormField>
+      )}
+
       <FormField>
         <FormLabel htmlFor="contributionAmount" required>
-          Contribution Amount ($)
+          {t("createPool.basicInfo.amount", { currency: currency.code })}
         </FormLabel>
         <div className="relative">
-          <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
+          <Banknote className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400 z-10" />
           <Select
             value={poolData.contributionAmount}
             onValueChange={(value) => onSelectChange("contributionAmount", value)}
@@ -69,17 +143,23 @@ export function BasicInfoStep({
             <SelectTrigger
               className={`pl-10 ${touchedFields.contributionAmount && fieldErrors.contributionAmount ? 'border-destructive' : ''}`}
             >
-              <SelectValue placeholder="Select amount" />
+              <SelectValue placeholder={t("createPool.basicInfo.selectAmount")} />
             </SelectTrigger>
             <SelectContent>
-              {[1, 3, 5, 10, 15, 20].map((amount) => (
+              {getContributionPresets(currency.code, poolData.tier).map((amount) => (
                 <SelectItem key={amount} value={amount.toString()}>
-                  ${amount}
+                  {formatAmountLabel(amount, currency.code)}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
+        <FormHelper>
+          {t("createPool.basicInfo.amountHint", {
+            min: formatAmountLabel(limits.min, currency.code),
+            max: formatAmountLabel(limits.max, currency.code),
+          })}
+        </FormHelper>
         {touchedFields.contributionAmount && <FormError>{fieldErrors.contributionAmount}</FormError>}
       </FormField>
     </div>
@@ -11,6 +11,9 @@ import { Input } from "../../ui/input";
 import { Label } from "../../ui/label";
 import { RadioGroup, RadioGroupItem } from "../../ui/radio-group";
 import { StepProps, AVAILABLE_PAYMENT_METHODS } from "./types";
+import { formatAmountLabel, multiplyAmount } from "../../../lib/currency";
+import { getIntlLocale, translateFrequency } from "../../../lib/i18n";
+import { useTranslation } from "../../../contexts/LocaleContext";
 
 interface InviteMembersStepProps extends StepProps {
   payoutDates: Date[];
@@ -25,10 +28,18 @@ export function InviteMembersStep({
   touchedFields,
   payoutDates,
 }: InviteMembersStepProps) {
+  const { t, locale } = useTranslation();
+  const contributionAmount = parseInt(poolData.contributionAmount || "0");
+  const totalValue = multiplyAmount(
+    contributionAmount,
+    parseInt(poolData.totalMembers) * parseInt(poolData.duration),
+    poolData.currency
+  );
+
   return (
     <div className="space-y-4">
       <div>
-        <Label>How would you like to invite members?</Label>
+        <Label>{t("createPool.invite.method")}</Label>
         <RadioGroup
           value={poolData.inviteMethod}
           onValueChange={(value) => onSelectChange("inviteMethod", value)}
@@ -36,15 +47,15 @@ export function InviteMembersStep({
         >
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="email" id="email" />
-            <Label htmlFor="email">Send email invitations</Label>
+            <Label htmlFor="email">{t("createPool.invite.email")}</Label>
           </div>
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="link" id="link" />
-            <Label htmlFor="link">Create a sharing link</Label>
+            <Label htmlFor="link">{t("createPool.invite.link")}</Label>
           </div>
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="later" id="later" />
-            <Label htmlFor="later">I'll invite members later</Label>
+            <Label htmlFor="later">{t("createPool.invite.later")}</Label>
           </div>
         </RadioGroup>
       </div>
@@ -52,7 +63,7 @@ export function InviteMembersStep({
       {poolData.inviteMethod === "email" && (
         <FormField>
           <FormLabel htmlFor="emails" optional>
-            Email Addresses (separated by commas)
+            {t("createPool.invite.emails")}
           </FormLabel>
           <Input
             id="emails"
@@ -60,50 +71,50 @@ export function InviteMembersStep({
             value={poolData.emails}
             onChange={onInputChange}
             onBlur={(e) => onFieldBlur('emails', e.target.value)}
-            placeholder="e.g. friend@example.com, family@example.com"
+            placeholder={t("createPool.invite.emailsPlaceholder")}
             className={touchedFields.emails && fieldErrors.emails ? 'border-destructive' : ''}
             aria-invalid={!!fieldErrors.emails}
           />
           {touchedFields.emails && <FormError>{fieldErrors.emails}</FormError>}
-          <FormHelper>We'll send an invitation to join your pool</FormHelper>
+          <FormHelper>{t("createPool.invite.emailsHint")}</FormHelper>
         </FormField>
       )}
 
       {poolData.inviteMethod === "link" && (
         <div className="p-4 bg-gray-50 rounded-lg">
           <p className="text-sm text-gray-700">
-            After creating this pool, you'll receive a link that you
-            can share with potential members.
+            {t("createPool.invite.linkHint")}
           </p>
         </div>
       )}
 
       {/* Summary */}
       <div className="p-4 bg-blue-50 rounded-lg">
-        <h4 className="font-medium text-blue-800">Summary</h4>
+        <h4 className="font-medium text-blue-800">{t("createPool.summary.title")}</h4>
         <ul className="mt-2 text-sm text-blue-700 space-y-1">
-          <li>Pool name: {poolData.name}</li>
+          <li>{t("createPool.summary.name", { name: poolData.name })}</li>
           <li>
-            Contribution: ${poolData.contributionAmount}{" "}
-            {poolData.frequency}
+            {t("createPool.summary.contribution", {
+              amount: formatAmountLabel(contributionAmount, poolData.currency),
+              frequency: translateFrequency(locale, poolData.frequency),
+            })}
           </li>
-          <li>Members: {poolData.totalMembers}</li>
+          <li>{t("createPool.summary.members", { count: poolData.totalMembers })}</li>
           <li>
-            Duration: {poolData.duration} month
-            {parseInt(poolData.duration) !== 1 ? "s" : ""}
+            {t("createPool.summary.duration", {
+              duration: t("createPool.schedule.months", { count: parseInt(poolData.duration) }),
+            })}
           </li>
           <li>
-            Total pool value: $
-            {parseInt(poolData.contributionAmount || "0") *
-              parseInt(poolData.totalMembers) *
-              parseInt(poolData.duration)}
+            {t("createPool.summary.totalValue", { amount: formatAmountLabel(totalValue, poolData.currency) })}
           </li>
           <li>
-            Payment methods:{" "}
-            {poolData.allowedPaymentMethods
-              .map(m => AVAILABLE_PAYMENT_METHODS.find(pm => pm.value === m)?.label)
-              .filter(Boolean)
-              .join(", ")}
+            {t("createPool.summary.paymentMethods", {
+              methods: poolData.allowedPaymentMethods
+                .map(m => AVAILABLE_PAYMENT_METHODS.find(pm => pm.value === m)?.label)
+                .filter(Boolean)
+                .join(", "),
+            })}
           </li>
         </ul>
 
@@ -111,23 +122,23 @@ export function InviteMembersStep({
         {poolData.startDate && payoutDates.length > 0 && (
           <div className="mt-4 pt-3 border-t border-blue-200">
             <h5 className="font-medium text-blue-800 text-sm mb-2">
-              Estimated Payout Schedule
+              {t("createPool.summary.schedule")}
             </h5>
             <div className="grid grid-cols-2 gap-1 text-xs text-blue-600">
               {payoutDates.slice(0, 6).map((date, index) => (
                 <div key={index} className="flex justify-between">
-                  <span>Round {index + 1}:</span>
-                  <span>{date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                  <span>{t("createPool.summary.round", { round: index + 1 })}</span>
+                  <span>{date.toLocaleDateString(getIntlLocale(locale), { month: 'short', day: 'numeric', year: 'numeric' })}</span>
                 </div>
               ))}
               {payoutDates.length > 6 && (
                 <div className="col-span-2 text-blue-500 text-xs mt-1">
-                  ... and {payoutDates.length - 6} more rounds
+                  {t("createPool.summary.moreRounds", { count: payoutDates.length - 6 })}
                 </div>
               )}
             </div>
             <p className="text-xs text-blue-500 mt-2">
-              * Each member receives the pool on their assigned round
+              {t("createPool.summary.scheduleHint")}
             </p>
           </div>
         )}
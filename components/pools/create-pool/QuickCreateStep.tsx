@@ -16,6 +16,10 @@ import {
   SelectValue,
 } from "../../ui/select";
 import { StepProps } from "./types";
+import { formatAmountLabel, multiplyAmount } from "../../../lib/currency";
+import { getContributionPresets } from "../../../lib/pools/tiers";
+import { translateFrequency } from "../../../lib/i18n";
+import { useTranslation } from "../../../contexts/LocaleContext";
 
 interface QuickCreateStepProps extends StepProps {
   onSwitchToDetailed: () => void;
@@ -30,17 +34,19 @@ export function QuickCreateStep({
   touchedFields,
   onSwitchToDetailed,
 }: QuickCreateStepProps) {
+  const { t, locale, formatDate } = useTranslation();
+
   return (
     <div className="space-y-4">
       <FormField>
-        <FormLabel htmlFor="qc-name" required>Pool Name</FormLabel>
+        <FormLabel htmlFor="qc-name" required>{t("createPool.basicInfo.name")}</FormLabel>
         <Input
           id="qc-name"
           name="name"
           value={poolData.name}
           onChange={onInputChange}
           onBlur={(e) => onFieldBlur('name', e.target.value)}
-          placeholder="e.g. Family Savings Pool"
+          placeholder={t("createPool.basicInfo.namePlaceholder")}
           className={touchedFields.name && fieldErrors.name ? 'border-destructive' : ''}
         />
         {touchedFields.name && <FormError>{fieldErrors.name}</FormError>}
@@ -48,7 +54,7 @@ export function QuickCreateStep({
 
       <div className="grid grid-cols-2 gap-3">
         <FormField>
-          <FormLabel htmlFor="qc-amount" required>Amount</FormLabel>
+          <FormLabel htmlFor="qc-amount" required>{t("createPool.quick.amount")}</FormLabel>
           <Select
             value={poolData.contributionAmount}
             onValueChange={(value) => onSelectChange("contributionAmount", value)}
@@ -57,9 +63,9 @@ export function QuickCreateStep({
               <SelectValue placeholder="$" />
             </SelectTrigger>
             <SelectContent>
-              {[1, 3, 5, 10, 15, 20].map((amount) => (
+              {getContributionPresets(poolData.currency, poolData.tier).map((amount) => (
                 <SelectItem key={amount} value={amount.toString()}>
-                  ${amount}
+                  {formatAmountLabel(amount, poolData.currency)}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -67,7 +73,7 @@ export function QuickCreateStep({
         </FormField>
 
         <FormField>
-          <FormLabel htmlFor="qc-members" required>Members</FormLabel>
+          <FormLabel htmlFor="qc-members" required>{t("createPool.quick.members")}</FormLabel>
           <Select
             value={poolData.totalMembers}
             onValueChange={(value) => onSelectChange("totalMembers", value)}
@@ -88,7 +94,7 @@ export function QuickCreateStep({
 
       <div className="grid grid-cols-2 gap-3">
         <FormField>
-          <FormLabel htmlFor="qc-frequency" required>Frequency</FormLabel>
+          <FormLabel htmlFor="qc-frequency" required>{t("createPool.quick.frequency")}</FormLabel>
           <Select
             value={poolData.frequency}
             onValueChange={(value) => onSelectChange("frequency", value)}
@@ -97,15 +103,15 @@ export function QuickCreateStep({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="weekly">Weekly</SelectItem>
-              <SelectItem value="biweekly">Bi-weekly</SelectItem>
-              <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="weekly">{t("createPool.schedule.weekly")}</SelectItem>
+              <SelectItem value="biweekly">{t("createPool.schedule.biweekly")}</SelectItem>
+              <SelectItem value="monthly">{t("createPool.schedule.monthly")}</SelectItem>
             </SelectContent>
           </Select>
         </FormField>
 
         <FormField>
-          <FormLabel htmlFor="qc-start" required>Start</FormLabel>
+          <FormLabel htmlFor="qc-start" required>{t("createPool.quick.start")}</FormLabel>
           <Input
             id="qc-start"
             name="startDate"
@@ -121,22 +127,25 @@ export function QuickCreateStep({
       <div className="p-3 bg-gray-50 rounded-lg border">
         <div className="text-sm text-gray-600 space-y-1">
           <div className="flex justify-between">
-            <span>Total pool value:</span>
+            <span>{t("createPool.quick.totalValue")}</span>
             <span className="font-medium text-gray-900">
-              ${parseInt(poolData.contributionAmount || "0") * parseInt(poolData.totalMembers)}
+              {formatAmountLabel(
+                multiplyAmount(parseInt(poolData.contributionAmount || "0"), parseInt(poolData.totalMembers), poolData.currency),
+                poolData.currency
+              )}
             </span>
           </div>
           <div className="flex justify-between">
-            <span>Each member contributes:</span>
+            <span>{t("createPool.quick.eachContributes")}</span>
             <span className="font-medium text-gray-900">
-              ${poolData.contributionAmount}/{poolData.frequency}
+              {formatAmountLabel(parseInt(poolData.contributionAmount || "0"), poolData.currency)}/{translateFrequency(locale, poolData.frequency)}
             </span>
           </div>
           {poolData.startDate && (
             <div className="flex justify-between">
-              <span>First payout:</span>
+              <span>{t("createPool.quick.firstPayout")}</span>
               <span className="font-medium text-gray-900">
-                {new Date(poolData.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                {formatDate(poolData.startDate, 'short')}
               </span>
             </div>
           )}
@@ -148,7 +157,7 @@ export function QuickCreateStep({
         onClick={onSwitchToDetailed}
         className="text-sm text-gray-500 hover:text-gray-700 underline"
       >
-        Switch to detailed setup
+        {t("createPool.quick.switchToDetailed")}
       </button>
     </div>
   );
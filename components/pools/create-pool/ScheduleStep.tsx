@@ -1,7 +1,8 @@
 /**
  * Step 2: Pool Schedule
  *
- * Collects frequency, member count, duration, start date, and payment methods
+ * Collects frequency, member count, duration, start date, payment methods,
+ * and payout order strategy
  */
 
 "use client";
@@ -19,8 +20,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../../ui/select";
-import { StepProps, AVAILABLE_PAYMENT_METHODS } from "./types";
-import { PaymentMethodType } from "../../../types/pool";
+import { StepProps, AVAILABLE_PAYMENT_METHODS, AVAILABLE_PAYOUT_ORDER_STRATEGIES } from "./types";
+import { PaymentMethodType, PayoutOrderStrategy } from "../../../types/pool";
+import { useTranslation } from "../../../contexts/LocaleContext";
 
 interface ScheduleStepProps extends StepProps {
   onPaymentMethodToggle: (method: PaymentMethodType, checked: boolean) => void;
@@ -35,10 +37,13 @@ export function ScheduleStep({
   touchedFields,
   onPaymentMethodToggle,
 }: ScheduleStepProps) {
+  const { t } = useTranslation();
+  const payoutOrderStrategy = poolData.payoutOrderStrategy || PayoutOrderStrategy.FIXED;
+
   return (
     <div className="space-y-4">
       <div>
-        <Label>Contribution Frequency</Label>
+        <Label>{t("createPool.schedule.frequency")}</Label>
         <RadioGroup
           value={poolData.frequency}
           onValueChange={(value) => onSelectChange("frequency", value)}
@@ -46,21 +51,21 @@ export function ScheduleStep({
         >
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="weekly" id="weekly" />
-            <Label htmlFor="weekly">Weekly</Label>
+            <Label htmlFor="weekly">{t("createPool.schedule.weekly")}</Label>
           </div>
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="biweekly" id="biweekly" />
-            <Label htmlFor="biweekly">Bi-weekly</Label>
+            <Label htmlFor="biweekly">{t("createPool.schedule.biweekly")}</Label>
           </div>
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="monthly" id="monthly" />
-            <Label htmlFor="monthly">Monthly</Label>
+            <Label htmlFor="monthly">{t("createPool.schedule.monthly")}</Label>
           </div>
         </RadioGroup>
       </div>
 
       <div>
-        <Label htmlFor="totalMembers">Number of Members</Label>
+        <Label htmlFor="totalMembers">{t("createPool.schedule.members")}</Label>
         <div className="relative">
           <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
           <Select
@@ -68,12 +73,12 @@ export function ScheduleStep({
             onValueChange={(value) => onSelectChange("totalMembers", value)}
           >
             <SelectTrigger className="pl-10">
-              <SelectValue placeholder="Select number of members" />
+              <SelectValue placeholder={t("createPool.schedule.selectMembers")} />
             </SelectTrigger>
             <SelectContent>
               {[2, 3, 4, 5, 6, 7, 8, 9, 10].map((num) => (
                 <SelectItem key={num} value={num.toString()}>
-                  {num} members
+                  {t("createPool.schedule.memberCount", { count: num })}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -82,7 +87,7 @@ export function ScheduleStep({
       </div>
 
       <div>
-        <Label htmlFor="duration">Duration (months)</Label>
+        <Label htmlFor="duration">{t("createPool.schedule.duration")}</Label>
         <div className="relative">
           <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
           <Select
@@ -90,12 +95,12 @@ export function ScheduleStep({
             onValueChange={(value) => onSelectChange("duration", value)}
           >
             <SelectTrigger className="pl-10">
-              <SelectValue placeholder="Select duration" />
+              <SelectValue placeholder={t("createPool.schedule.selectDuration")} />
             </SelectTrigger>
             <SelectContent>
               {[1, 2, 3, 4, 5, 6, 9, 12].map((num) => (
                 <SelectItem key={num} value={num.toString()}>
-                  {num} {num === 1 ? "month" : "months"}
+                  {t("createPool.schedule.months", { count: num })}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -104,7 +109,7 @@ export function ScheduleStep({
       </div>
 
       <FormField>
-        <FormLabel htmlFor="startDate" required>Start Date</FormLabel>
+        <FormLabel htmlFor="startDate" required>{t("createPool.schedule.startDate")}</FormLabel>
         <Input
           id="startDate"
           name="startDate"
@@ -117,13 +122,13 @@ export function ScheduleStep({
           aria-invalid={!!fieldErrors.startDate}
         />
         {touchedFields.startDate && <FormError>{fieldErrors.startDate}</FormError>}
-        <FormHelper>When should the first contribution be due?</FormHelper>
+        <FormHelper>{t("createPool.schedule.startDateHint")}</FormHelper>
       </FormField>
 
       <div>
-        <Label className="mb-2 block">Allowed Payment Methods</Label>
+        <Label className="mb-2 block">{t("createPool.schedule.paymentMethods")}</Label>
         <p className="text-xs text-gray-500 mb-3">
-          Select which payment methods members can use in this pool
+          {t("createPool.schedule.paymentMethodsHint")}
         </p>
         <div className="grid grid-cols-2 gap-3">
           {AVAILABLE_PAYMENT_METHODS.map((method) => (
@@ -150,10 +155,32 @@ export function ScheduleStep({
         </div>
         {poolData.allowedPaymentMethods.length === 1 && (
           <p className="text-xs text-amber-600 mt-2">
-            At least one payment method must be selected
+            {t("createPool.schedule.paymentMethodRequired")}
           </p>
         )}
       </div>
+
+      <FormField>
+        <FormLabel htmlFor="payoutOrderStrategy">{t("createPool.schedule.payoutOrder")}</FormLabel>
+        <Select
+          value={payoutOrderStrategy}
+          onValueChange={(value) => onSelectChange("payoutOrderStrategy", value)}
+        >
+          <SelectTrigger id="payoutOrderStrategy">
+            <SelectValue placeholder={t("createPool.schedule.selectPayoutOrder")} />
+          </SelectTrigger>
+          <SelectContent>
+            {AVAILABLE_PAYOUT_ORDER_STRATEGIES.map((strategy) => (
+              <SelectItem key={strategy.value} value={strategy.value}>
+                {t(`createPool.payoutOrder.${strategy.value}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <FormHelper>
+          {t(`createPool.payoutOrder.${payoutOrderStrategy}.description`)}
+        </FormHelper>
+      </FormField>
     </div>
   );
 }
@@ -2,10 +2,13 @@
  * Shared types for CreatePoolModal components
  */
 
-import { PaymentMethodType } from '../../../types/pool';
+import { PaymentMethodType, PayoutOrderStrategy, PoolTier } from '../../../types/pool';
+import type { CurrencyCode } from '../../../types/currency';
 
 export interface PoolFormData {
   name: string;
+  currency: CurrencyCode;
+  tier: PoolTier;
   contributionAmount: string;
   frequency: string;
   totalMembers: string;
@@ -15,6 +18,7 @@ export interface PoolFormData {
   inviteMethod: string;
   emails: string;
   allowedPaymentMethods: PaymentMethodType[];
+  payoutOrderStrategy: PayoutOrderStrategy;
 }
 
 export interface FieldErrors {
@@ -41,3 +45,22 @@ export const AVAILABLE_PAYMENT_METHODS: { value: PaymentMethodType; label: strin
   { value: 'paypal', label: 'PayPal' },
   { value: 'zelle', label: 'Zelle' },
 ];
+
+// Payout order strategies with labels
+export const AVAILABLE_PAYOUT_ORDER_STRATEGIES: { value: PayoutOrderStrategy; label: string; description: string }[] = [
+  {
+    value: PayoutOrderStrategy.FIXED,
+    label: 'Fixed order',
+    description: 'You set the payout order and can rearrange it later.',
+  },
+  {
+    value: PayoutOrderStrategy.RANDOM_DRAW,
+    label: 'Random draw',
+    description: 'The order is drawn at random with a seed every member can verify.',
+  },
+  {
+    value: PayoutOrderStrategy.BIDDING,
+    label: 'Bidding',
+    description: 'Members bid a discount to receive each round\'s pot early.',
+  },
+];
@@ -5,73 +5,82 @@ import { ActivityLog, ActivityType } from '../../types/security';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../components/ui/table';
 import { Button } from '../../components/ui/button';
-import { Loader2, Shield, LogIn, LogOut, Key, User, CreditCard, Settings, AlertTriangle, Calendar, Map, Monitor } from 'lucide-react';
+import { Loader2, Shield, LogIn, LogOut, Key, User, CreditCard, Settings, AlertTriangle, Calendar, Map, Monitor, Fingerprint, KeyRound } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '../../components/ui/pagination';
 import { Badge } from '../../components/ui/badge';
+import { Input } from '../../components/ui/input';
 
-interface ActivityLogViewerProps {
-  userId: string;
-}
-
-export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
+// Shows the signed-in user's own activity; the API scopes it to the session
+export default function ActivityLogViewer() {
   const [logs, setLogs] = useState<ActivityLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
+  const [itemsPerPage, setItemsPerPage] = useState(10);
   const [filter, setFilter] = useState<ActivityType | 'all'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
 
   // Fetch activity logs
-  const fetchLogs = useCallback(async (page = 1, activityType: ActivityType | 'all' = 'all') => {
+  const fetchLogs = useCallback(async (page = 1) => {
     setLoading(true);
     setError(null);
 
     try {
-      let url = `/api/security/activity-log?userId=${userId}&page=${page}`;
+      const params = new URLSearchParams({ page: String(page) });
 
-      if (activityType !== 'all') {
-        url += `&type=${activityType}`;
+      if (filter !== 'all') {
+        params.set('type', filter);
+      }
+      if (fromDate) {
+        params.set('from', fromDate);
+      }
+      if (toDate) {
+        params.set('to', toDate);
       }
 
-      const response = await fetch(url);
+      const response = await fetch(`/api/security/activity-log?${params.toString()}`);
+      const json = await response.json();
 
       if (!response.ok) {
-        throw new Error('Failed to fetch activity logs');
+        throw new Error(json.error || 'Failed to fetch activity logs');
       }
 
-      const data = await response.json();
-
+      const data = json.data;
       setLogs(data.logs);
       setCurrentPage(data.pagination.currentPage);
       setTotalPages(data.pagination.totalPages);
       setTotalItems(data.pagination.totalItems);
+      setItemsPerPage(data.pagination.itemsPerPage);
     } catch (error: any) {
       setError(error.message || 'An error occurred while fetching activity logs');
       setLogs([]);
     } finally {
       setLoading(false);
     }
-  }, [userId]);
+  }, [filter, fromDate, toDate]);
 
-  // Initial fetch on mount
+  // Fetch on mount and whenever the filters change
   useEffect(() => {
-    fetchLogs(1, filter);
-  }, [fetchLogs, filter]);
+    fetchLogs(1);
+  }, [fetchLogs]);
   
   // Handle page change
   const handlePageChange = (page: number) => {
     if (page < 1 || page > totalPages) return;
     setCurrentPage(page);
-    fetchLogs(page, filter);
+    fetchLogs(page);
   };
   
   // Handle filter change
   const handleFilterChange = (type: string) => {
     setFilter(type as ActivityType | 'all');
-    fetchLogs(1, type as ActivityType | 'all');
   };
+
+  const hasDateRange = Boolean(fromDate || toDate);
   
   // Get icon for activity type
   const getActivityIcon = (type: ActivityType) => {
@@ -90,6 +99,12 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
       case ActivityType.TWO_FACTOR_SETUP:
       case ActivityType.TWO_FACTOR_DISABLE:
         return <Shield className="h-4 w-4" />;
+      case ActivityType.PASSKEY_ADD:
+      case ActivityType.PASSKEY_REMOVE:
+        return <Fingerprint className="h-4 w-4" />;
+      case ActivityType.BACKUP_CODE_USED:
+      case ActivityType.BACKUP_CODES_REGENERATED:
+        return <KeyRound className="h-4 w-4" />;
       case ActivityType.PAYMENT_METHOD_ADD:
       case ActivityType.PAYMENT_METHOD_REMOVE:
       case ActivityType.PAYMENT_SENT:
@@ -117,7 +132,12 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
   const getActivityDescription = (log: ActivityLog) => {
     switch (log.type) {
       case ActivityType.LOGIN:
-        return 'Signed in to account';
+        if (log.metadata?.newSignIn) {
+          return 'Signed in from a new device or location';
+        }
+        return log.metadata?.method === 'passkey' && !log.metadata?.usedMfa
+          ? 'Signed in with a passkey'
+          : 'Signed in to account';
       case ActivityType.LOGOUT:
         return 'Signed out of account';
       case ActivityType.PASSWORD_CHANGE:
@@ -134,6 +154,14 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
         return `Set up two-factor authentication (${log.metadata?.method || 'unknown method'})`;
       case ActivityType.TWO_FACTOR_DISABLE:
         return 'Disabled two-factor authentication';
+      case ActivityType.PASSKEY_ADD:
+        return `Added passkey (${log.metadata?.name || 'unnamed'})`;
+      case ActivityType.PASSKEY_REMOVE:
+        return `Removed passkey (${log.metadata?.name || 'unnamed'})`;
+      case ActivityType.BACKUP_CODE_USED:
+        return `Used a backup code (${log.metadata?.remaining ?? 'unknown'} left)`;
+      case ActivityType.BACKUP_CODES_REGENERATED:
+        return 'Generated new backup codes';
       case ActivityType.PAYMENT_METHOD_ADD:
         return `Added payment method (${log.metadata?.type || 'unknown type'})`;
       case ActivityType.PAYMENT_METHOD_REMOVE:
@@ -157,14 +185,44 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
   
   return (
     <Card>
-      <CardHeader className="flex flex-row items-center justify-between">
+      <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
         <div>
           <CardTitle>Account Activity</CardTitle>
           <CardDescription>
             Recent activity and security events for your account
           </CardDescription>
         </div>
-        <div className="flex items-center space-x-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="date"
+            aria-label="From date"
+            className="w-36 h-8"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+          />
+          <span className="text-xs text-gray-500">to</span>
+          <Input
+            type="date"
+            aria-label="To date"
+            className="w-36 h-8"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+          />
+          {hasDateRange && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFromDate('');
+                setToDate('');
+              }}
+            >
+              Clear dates
+            </Button>
+          )}
+
           <Select
             value={filter}
             onValueChange={handleFilterChange}
@@ -175,8 +233,16 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
             <SelectContent>
               <SelectItem value="all">All activities</SelectItem>
               <SelectItem value={ActivityType.LOGIN}>Sign-ins</SelectItem>
+              <SelectItem value={ActivityType.LOGOUT}>Sign-outs</SelectItem>
               <SelectItem value={ActivityType.PASSWORD_CHANGE}>Password changes</SelectItem>
               <SelectItem value={ActivityType.TWO_FACTOR_SETUP}>2FA changes</SelectItem>
+              <SelectItem value={ActivityType.TWO_FACTOR_DISABLE}>2FA disabled</SelectItem>
+              <SelectItem value={ActivityType.PASSKEY_ADD}>Passkeys added</SelectItem>
+              <SelectItem value={ActivityType.PASSKEY_REMOVE}>Passkeys removed</SelectItem>
+              <SelectItem value={ActivityType.BACKUP_CODE_USED}>Backup codes used</SelectItem>
+              <SelectItem value={ActivityType.BACKUP_CODES_REGENERATED}>Backup codes regenerated</SelectItem>
+              <SelectItem value={ActivityType.PAYMENT_METHOD_ADD}>Payment methods added</SelectItem>
+              <SelectItem value={ActivityType.PAYMENT_METHOD_REMOVE}>Payment methods removed</SelectItem>
               <SelectItem value={ActivityType.PAYMENT_SENT}>Payments</SelectItem>
               <SelectItem value={ActivityType.POOL_JOIN}>Pool activity</SelectItem>
               <SelectItem value={ActivityType.SUSPICIOUS_ACTIVITY}>Suspicious activity</SelectItem>
@@ -186,7 +252,7 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
           <Button
             variant="outline"
             size="sm"
-            onClick={() => fetchLogs(currentPage, filter)}
+            onClick={() => fetchLogs(currentPage)}
             disabled={loading}
           >
             {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Refresh'}
@@ -208,15 +274,15 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
             <Shield className="h-12 w-12 mx-auto mb-3 text-gray-300" />
             <p className="text-lg font-medium">No activity found</p>
             <p className="text-sm">
-              {filter === 'all'
+              {filter === 'all' && !hasDateRange
                 ? 'Your account activity will appear here'
-                : `No ${filter} activity found for your account`}
+                : 'No activity matches these filters'}
             </p>
           </div>
         ) : (
           <>
             <div className="text-sm text-gray-500 mb-4">
-              Showing {(currentPage - 1) * 10 + 1}-{Math.min(currentPage * 10, totalItems)} of {totalItems} activities
+              Showing {(currentPage - 1) * itemsPerPage + 1}-{Math.min(currentPage * itemsPerPage, totalItems)} of {totalItems} activities
             </div>
             
             <div className="border rounded-md overflow-hidden">
@@ -247,6 +313,11 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
                             {log.type === ActivityType.SUSPICIOUS_ACTIVITY && (
                               <Badge variant="destructive" className="mt-1">Security alert</Badge>
                             )}
+                            {log.type === ActivityType.LOGIN && log.metadata?.newSignIn && (
+                              <Badge variant="warning" className="mt-1">
+                                {log.metadata.newSignIn === 'new_location' ? 'New location' : 'New device'}
+                              </Badge>
+                            )}
                           </div>
                         </div>
                       </TableCell>
@@ -254,8 +325,8 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
                         <div className="flex items-center space-x-1 text-xs text-gray-600">
                           <Map className="h-3 w-3" />
                           <span>
-                            {log.location?.city ? (
-                              `${log.location.city}, ${log.location.country}`
+                            {log.location?.city || log.location?.country ? (
+                              [log.location.city, log.location.country].filter(Boolean).join(', ')
                             ) : (
                               'Unknown location'
                             )}
@@ -267,7 +338,7 @@ export default function ActivityLogViewer({ userId }: ActivityLogViewerProps) {
                           <Monitor className="h-3 w-3" />
                           <span>
                             {log.deviceInfo?.browser ? (
-                              `${log.deviceInfo.browser} on ${log.deviceInfo.os}`
+                              log.deviceInfo.os ? `${log.deviceInfo.browser} on ${log.deviceInfo.os}` : log.deviceInfo.browser
                             ) : (
                               'Unknown device'
                             )}
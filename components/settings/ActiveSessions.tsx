@@ -0,0 +1,158 @@
+"use client";
+
+import * as React from "react";
+import { signOut } from "next-auth/react";
+import { Loader2, LogOut, Monitor, Smartphone, Tablet } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "../ui/alert-dialog";
+import { useActiveSessions } from "../../lib/hooks/useActiveSessions";
+import { ActiveSession } from "../../types/security";
+import { formatDateTime } from "../../lib/utils";
+
+function DeviceIcon({ device }: { device?: string }) {
+  if (device === "Mobile") return <Smartphone className="h-5 w-5 text-gray-400" />;
+  if (device === "Tablet") return <Tablet className="h-5 w-5 text-gray-400" />;
+  return <Monitor className="h-5 w-5 text-gray-400" />;
+}
+
+function describeSession(session: ActiveSession): string {
+  const { browser, os } = session.deviceInfo || {};
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
+
+/**
+ * The devices the user is signed in on, with "sign out this device" and
+ * "sign out everywhere"
+ */
+export function ActiveSessions() {
+  const { sessions, isLoading, error, revokeSession, revokeAllSessions } = useActiveSessions();
+  const [pendingId, setPendingId] = React.useState<string | null>(null);
+  const [actionError, setActionError] = React.useState<string | null>(null);
+
+  const handleSignOut = async (session: ActiveSession) => {
+    setPendingId(session.id);
+    setActionError(null);
+
+    const result = await revokeSession(session.id);
+    if (!result.success) {
+      setActionError(result.error || "Failed to sign out device");
+    } else if (session.current) {
+      await signOut({ callbackUrl: "/auth/signin" });
+    }
+
+    setPendingId(null);
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setPendingId("all");
+    setActionError(null);
+
+    const result = await revokeAllSessions();
+    if (result.success) {
+      await signOut({ callbackUrl: "/auth/signin" });
+    } else {
+      setActionError(result.error || "Failed to sign out of all devices");
+    }
+
+    setPendingId(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading devices...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="flex items-center gap-3 min-w-0">
+                <DeviceIcon device={session.deviceInfo?.device} />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                    {describeSession(session)}
+                    {session.current && <Badge variant="success">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {[
+                      [session.location?.city, session.location?.country].filter(Boolean).join(", "),
+                      session.ipAddress,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ") || "Unknown location"}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Last active {formatDateTime(session.lastSeenAt)} · Signed in {formatDateTime(session.createdAt)}
+                  </p>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={pendingId !== null}
+                onClick={() => handleSignOut(session)}
+              >
+                {pendingId === session.id && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                {session.current ? "Sign out this device" : "Sign out"}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {actionError && <p className="text-xs text-red-600">{actionError}</p>}
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" disabled={pendingId !== null || sessions.length === 0}>
+            {pendingId === "all" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="h-4 w-4 mr-2" />
+            )}
+            Sign out everywhere
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out of all devices?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device signed in to your account, including this one, will be signed out
+              within a minute. You&apos;ll need to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSignOutEverywhere}>
+              Sign out everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
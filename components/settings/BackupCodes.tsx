@@ -0,0 +1,212 @@
+"use client";
+
+import * as React from "react";
+import { Copy, KeyRound, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { useBackupCodes } from "../../lib/hooks/useBackupCodes";
+import { formatDateTime } from "../../lib/utils";
+
+/**
+ * How many MFA backup codes the user has left, and a dialog to regenerate
+ * them (after confirming it's them) that shows the new codes once
+ */
+export function BackupCodes() {
+  const {
+    status,
+    enabled,
+    reauthentication,
+    isLoading,
+    error,
+    sendVerificationCode,
+    regenerateCodes,
+  } = useBackupCodes();
+  const [open, setOpen] = React.useState(false);
+  const [secret, setSecret] = React.useState("");
+  const [codeSent, setCodeSent] = React.useState(false);
+  const [newCodes, setNewCodes] = React.useState<string[] | null>(null);
+  const [isPending, setIsPending] = React.useState(false);
+  const [actionError, setActionError] = React.useState<string | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setSecret("");
+      setCodeSent(false);
+      setNewCodes(null);
+      setActionError(null);
+    }
+  };
+
+  const handleSendCode = async () => {
+    setIsPending(true);
+    setActionError(null);
+
+    const result = await sendVerificationCode();
+    if (result.success) {
+      setCodeSent(true);
+    } else {
+      setActionError(result.error || "Failed to send verification code");
+    }
+
+    setIsPending(false);
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret.trim()) return;
+    setIsPending(true);
+    setActionError(null);
+
+    const result = await regenerateCodes(
+      reauthentication === "password" ? { password: secret } : { code: secret.trim() }
+    );
+    if (result.success && result.codes) {
+      setNewCodes(result.codes);
+      setSecret("");
+    } else {
+      setActionError(result.error || "Failed to generate backup codes");
+    }
+
+    setIsPending(false);
+  };
+
+  const handleCopy = async () => {
+    if (!newCodes) return;
+    try {
+      await navigator.clipboard.writeText(newCodes.join("\n"));
+    } catch {
+      setActionError("Couldn't copy the codes. Select and copy them instead.");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading backup codes...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!enabled || !status) {
+    return (
+      <p className="text-sm text-gray-500">
+        Turn on two-factor authentication to get backup codes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <KeyRound className="h-5 w-5 text-gray-400" />
+          <div>
+            <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+              {status.remaining} of {status.total} codes left
+              {status.low && <Badge variant="warning">Running low</Badge>}
+            </p>
+            {status.generatedAt && (
+              <p className="text-xs text-gray-500">Generated {formatDateTime(status.generatedAt)}</p>
+            )}
+          </div>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => handleOpenChange(true)}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Regenerate
+        </Button>
+      </div>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          {newCodes ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Your new backup codes</DialogTitle>
+                <DialogDescription>
+                  Save these somewhere safe. Each code works once, and you won&apos;t be able to see them again.
+                  Your old codes no longer work.
+                </DialogDescription>
+              </DialogHeader>
+              <ul className="grid grid-cols-2 gap-2 rounded-lg border bg-gray-50 p-4 font-mono text-sm">
+                {newCodes.map((code) => (
+                  <li key={code}>{code}</li>
+                ))}
+              </ul>
+              <DialogFooter>
+                <Button variant="outline" onClick={handleCopy}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button onClick={() => handleOpenChange(false)}>I&apos;ve saved them</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleRegenerate} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Regenerate backup codes</DialogTitle>
+                <DialogDescription>
+                  Your current codes will stop working. Confirm it&apos;s you to continue.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-1">
+                <Label htmlFor="backup-codes-secret" className="text-sm font-medium">
+                  {reauthentication === "password" ? "Password" : "Verification code"}
+                </Label>
+                <Input
+                  id="backup-codes-secret"
+                  type={reauthentication === "password" ? "password" : "text"}
+                  autoComplete={reauthentication === "password" ? "current-password" : "one-time-code"}
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                />
+                {reauthentication === "app" && (
+                  <p className="text-xs text-gray-500">Enter the code from your authenticator app.</p>
+                )}
+                {reauthentication === "email" && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="px-0"
+                    disabled={isPending}
+                    onClick={handleSendCode}
+                  >
+                    {codeSent ? "Resend code to my email" : "Email me a code"}
+                  </Button>
+                )}
+              </div>
+              {actionError && <p className="text-xs text-red-600">{actionError}</p>}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isPending || !secret.trim()}>
+                  {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Generate new codes
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {actionError && !open && <p className="text-xs text-red-600">{actionError}</p>}
+    </div>
+  );
+}
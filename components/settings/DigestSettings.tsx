@@ -0,0 +1,202 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+
+type DigestFrequency = "immediate" | "daily" | "weekly";
+
+interface QuietHours {
+  enabled: boolean;
+  startHour: number;
+  endHour: number;
+  timezone: string;
+}
+
+interface DigestPreferences {
+  digestFrequency: DigestFrequency | "none";
+  quietHours: QuietHours;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+}
+
+/**
+ * Choose between immediate notifications and a daily/weekly email digest,
+ * plus quiet hours in the browser's timezone
+ */
+export function DigestSettings() {
+  const [preferences, setPreferences] = useState<DigestPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch("/api/notifications/preferences");
+        const json = await response.json();
+        if (!response.ok) {
+          throw new Error(json.error || "Failed to load delivery settings");
+        }
+        setPreferences(json.data);
+      } catch (err: any) {
+        console.error("Error loading delivery settings:", err);
+        setError(err.message || "Failed to load delivery settings");
+      }
+    };
+
+    loadPreferences();
+  }, []);
+
+  const save = async (update: Partial<DigestPreferences>) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, ...update });
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/notifications/preferences", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(update),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(json.error || "Failed to save delivery settings");
+      }
+      setPreferences(json.data);
+    } catch (err: any) {
+      console.error("Error saving delivery settings:", err);
+      setPreferences(previous);
+      setError(err.message || "Failed to save delivery settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Quiet hours are evaluated in the timezone of the browser that saved them
+  const saveQuietHours = (update: Partial<QuietHours>) => {
+    if (!preferences) return;
+    save({
+      quietHours: {
+        ...preferences.quietHours,
+        ...update,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      },
+    });
+  };
+
+  if (!preferences) {
+    return error ? (
+      <p className="text-xs text-red-600">{error}</p>
+    ) : (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="digest-frequency" className="text-sm font-medium">
+            Email digest
+          </Label>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Bundle reminders, mentions, and pool activity into one email
+          </p>
+        </div>
+        <Select
+          value={preferences.digestFrequency === "none" ? "immediate" : preferences.digestFrequency}
+          onValueChange={(value) => save({ digestFrequency: value as DigestFrequency })}
+          disabled={isSaving}
+        >
+          <SelectTrigger id="digest-frequency" className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="immediate">As they happen</SelectItem>
+            <SelectItem value="daily">Daily digest</SelectItem>
+            <SelectItem value="weekly">Weekly digest</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="quiet-hours" className="text-sm font-medium">
+            Quiet hours
+          </Label>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Hold non-urgent reminders and digests overnight ({preferences.quietHours.timezone})
+          </p>
+        </div>
+        <Switch
+          id="quiet-hours"
+          checked={preferences.quietHours.enabled}
+          disabled={isSaving}
+          onCheckedChange={(enabled) => saveQuietHours({ enabled })}
+        />
+      </div>
+
+      {preferences.quietHours.enabled && (
+        <div className="flex items-center gap-3">
+          <Select
+            value={String(preferences.quietHours.startHour)}
+            onValueChange={(value) => saveQuietHours({ startHour: parseInt(value, 10) })}
+            disabled={isSaving}
+          >
+            <SelectTrigger className="w-32" aria-label="Quiet hours start">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOURS.map((hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {formatHour(hour)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-gray-400">to</span>
+          <Select
+            value={String(preferences.quietHours.endHour)}
+            onValueChange={(value) => saveQuietHours({ endHour: parseInt(value, 10) })}
+            disabled={isSaving}
+          >
+            <SelectTrigger className="w-32" aria-label="Quiet hours end">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOURS.map((hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {formatHour(hour)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
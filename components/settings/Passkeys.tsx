@@ -0,0 +1,221 @@
+"use client";
+
+import * as React from "react";
+import { browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { Fingerprint, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { usePasskeys } from "../../lib/hooks/usePasskeys";
+import { Passkey } from "../../types/security";
+import { formatDateTime } from "../../lib/utils";
+
+/**
+ * The user's passkeys: add one (optionally as the second factor), rename,
+ * and remove
+ */
+export function Passkeys() {
+  const {
+    passkeys,
+    usedForTwoFactor,
+    isLoading,
+    error,
+    addPasskey,
+    renamePasskey,
+    removePasskey,
+  } = usePasskeys();
+  const [supported, setSupported] = React.useState(true);
+  const [newName, setNewName] = React.useState("");
+  const [useForTwoFactor, setUseForTwoFactor] = React.useState(false);
+  const [editing, setEditing] = React.useState<{ id: string; name: string } | null>(null);
+  const [pendingId, setPendingId] = React.useState<string | null>(null);
+  const [actionError, setActionError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setSupported(browserSupportsWebAuthn());
+  }, []);
+
+  const handleAdd = async () => {
+    setPendingId("new");
+    setActionError(null);
+
+    const result = await addPasskey({
+      name: newName.trim() || undefined,
+      useForTwoFactor: useForTwoFactor && !usedForTwoFactor,
+    });
+    if (result.success) {
+      setNewName("");
+      setUseForTwoFactor(false);
+    } else {
+      setActionError(result.error || "Failed to add passkey");
+    }
+
+    setPendingId(null);
+  };
+
+  const handleRename = async () => {
+    if (!editing || !editing.name.trim()) return;
+    setPendingId(editing.id);
+    setActionError(null);
+
+    const result = await renamePasskey(editing.id, editing.name.trim());
+    if (result.success) {
+      setEditing(null);
+    } else {
+      setActionError(result.error || "Failed to rename passkey");
+    }
+
+    setPendingId(null);
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    setPendingId(passkey.id);
+    setActionError(null);
+
+    const result = await removePasskey(passkey.id);
+    if (!result.success) {
+      setActionError(result.error || "Failed to remove passkey");
+    }
+
+    setPendingId(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading passkeys...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {passkeys.length === 0 ? (
+        <p className="text-sm text-gray-500">You haven&apos;t added any passkeys yet.</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="flex items-center gap-3 min-w-0">
+                <Fingerprint className="h-5 w-5 text-gray-400" />
+                {editing?.id === passkey.id ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      aria-label="Passkey name"
+                      value={editing.name}
+                      maxLength={60}
+                      onChange={(e) => setEditing({ id: passkey.id, name: e.target.value })}
+                      className="h-8 w-48"
+                    />
+                    <Button size="sm" onClick={handleRename} disabled={pendingId !== null}>
+                      Save
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                      {passkey.name}
+                      {passkey.backedUp && <Badge variant="info">Synced</Badge>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Added {formatDateTime(passkey.createdAt)}
+                      {passkey.lastUsedAt && ` · Last used ${formatDateTime(passkey.lastUsedAt)}`}
+                    </p>
+                  </div>
+                )}
+              </div>
+              {editing?.id !== passkey.id && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    aria-label={`Rename ${passkey.name}`}
+                    disabled={pendingId !== null}
+                    onClick={() => setEditing({ id: passkey.id, name: passkey.name })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={pendingId !== null}
+                    onClick={() => handleRemove(passkey)}
+                  >
+                    {pendingId === passkey.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4 mr-1" />
+                    )}
+                    Remove
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {usedForTwoFactor && (
+        <p className="text-xs text-gray-500">
+          Passkeys are your two-factor method. If you remove them all, you&apos;ll get codes by email instead.
+        </p>
+      )}
+
+      {supported ? (
+        <div className="space-y-3 rounded-lg border border-dashed p-4">
+          <div className="space-y-1">
+            <Label htmlFor="passkey-name" className="text-sm font-medium">
+              Name (optional)
+            </Label>
+            <Input
+              id="passkey-name"
+              placeholder="e.g. My phone"
+              value={newName}
+              maxLength={60}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+          </div>
+          {!usedForTwoFactor && (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="passkey-two-factor" className="text-sm font-medium">
+                  Use for two-factor authentication
+                </Label>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Confirm sign-ins with your passkey instead of a code
+                </p>
+              </div>
+              <Switch
+                id="passkey-two-factor"
+                checked={useForTwoFactor}
+                onCheckedChange={setUseForTwoFactor}
+              />
+            </div>
+          )}
+          <Button onClick={handleAdd} disabled={pendingId !== null}>
+            {pendingId === "new" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add a passkey
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">This browser doesn&apos;t support passkeys.</p>
+      )}
+
+      {actionError && <p className="text-xs text-red-600">{actionError}</p>}
+    </div>
+  );
+}
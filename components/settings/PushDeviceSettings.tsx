@@ -0,0 +1,63 @@
+"use client";
+
+import * as React from "react";
+import { BellRing, Loader2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { usePushNotifications } from "../../lib/hooks/usePushNotifications";
+
+/**
+ * Enable or disable push reminders on the current browser/device
+ */
+export function PushDeviceSettings() {
+  const {
+    isSupported,
+    isConfigured,
+    isSubscribed,
+    permission,
+    isLoading,
+    error,
+    subscribe,
+    unsubscribe,
+  } = usePushNotifications();
+
+  if (!isLoading && (!isSupported || !isConfigured)) {
+    return (
+      <p className="text-sm text-gray-500">
+        Push notifications aren&apos;t available on this device.
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <BellRing className="h-5 w-5 text-blue-600" />
+          <div>
+            <p className="text-sm font-medium text-gray-900">This device</p>
+            <p className="text-xs text-gray-500">
+              {isSubscribed
+                ? "Payment and payout reminders will appear on this device."
+                : "Get payment and payout reminders even when the app is closed."}
+            </p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant={isSubscribed ? "outline" : "default"}
+          disabled={isLoading || permission === "denied"}
+          onClick={() => (isSubscribed ? unsubscribe() : subscribe())}
+        >
+          {isLoading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          {isSubscribed ? "Turn off" : "Turn on"}
+        </Button>
+      </div>
+      {permission === "denied" && (
+        <p className="text-xs text-amber-600">
+          Notifications are blocked. Allow them in your browser settings to turn this on.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
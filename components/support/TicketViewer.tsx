@@ -39,7 +39,7 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '../../components/ui/select';
-import { SupportTicket, TicketStatus, TicketPriority, TicketResponse } from '../../types/support';
+import { SupportTicket, TicketStatus, TicketPriority, TicketResponse, SlaStatus } from '../../types/support';
 import { useTickets } from '../../lib/hooks/useTickets';
 
 interface TicketViewerProps {
@@ -62,6 +62,7 @@ export default function TicketViewer({
     selectedTicket,
     isLoading,
     error,
+    supportStaff,
     getTicket,
     updateTicket,
     addResponse
@@ -116,6 +117,34 @@ export default function TicketViewer({
     }
   };
   
+  // SLA badge styles
+  const getSlaBadge = (status: SlaStatus) => {
+    switch (status) {
+      case SlaStatus.ON_TRACK:
+        return 'bg-blue-100 text-blue-800';
+      case SlaStatus.AT_RISK:
+        return 'bg-orange-100 text-orange-800';
+      case SlaStatus.BREACHED:
+        return 'bg-red-100 text-red-800';
+      case SlaStatus.MET:
+        return 'bg-green-100 text-green-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  // Format SLA status for display
+  const formatSlaStatus = (status: SlaStatus) => {
+    switch (status) {
+      case SlaStatus.ON_TRACK:
+        return 'On Track';
+      case SlaStatus.AT_RISK:
+        return 'At Risk';
+      default:
+        return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+  };
+  
   // Format date for display
   const formatDate = (dateString: string) => {
     try {
@@ -153,6 +182,20 @@ export default function TicketViewer({
     }
   };
 
+  // Handle staff assignment (admin only)
+  const handleAssigneeChange = async (staffId: string) => {
+    if (!selectedTicket || !isAdmin) return;
+    
+    const result = await updateTicket({
+      ticketId: selectedTicket.id,
+      assignedTo: staffId === 'unassigned' ? '' : staffId
+    });
+    
+    if (!result.success) {
+      console.error('Failed to assign ticket:', result.error);
+    }
+  };
+
   // Send a new response
   const handleSendResponse = async () => {
     if (!selectedTicket || !newResponse.trim()) return;
@@ -287,6 +330,24 @@ export default function TicketViewer({
                   </SelectContent>
                 </Select>
               </div>
+              <div className="mb-2">
+                <Select
+                  value={selectedTicket.assignedTo || 'unassigned'}
+                  onValueChange={handleAssigneeChange}
+                >
+                  <SelectTrigger className="w-full sm:w-[160px] text-sm">
+                    <SelectValue placeholder="Assignee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {supportStaff.map((staff) => (
+                      <SelectItem key={staff.id} value={staff.id}>
+                        {staff.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="text-sm text-muted-foreground">
                 <span className="flex items-center gap-1">
                   <Calendar className="h-3 w-3" />
@@ -325,6 +386,26 @@ export default function TicketViewer({
               </div>
             </div>
           )}
+          
+          {isAdmin && selectedTicket.sla && (
+            <div className="space-y-1 mt-2 sm:mt-0 sm:text-right">
+              <div className="flex items-center gap-1 sm:justify-end">
+                <Clock className="h-3 w-3" />
+                <span className="font-medium">First response due:</span> {formatDate(selectedTicket.sla.firstResponseDueAt)}
+                <Badge className={`ml-1 ${getSlaBadge(selectedTicket.sla.firstResponseStatus)}`} variant="outline">
+                  {formatSlaStatus(selectedTicket.sla.firstResponseStatus)}
+                </Badge>
+              </div>
+              
+              <div className="flex items-center gap-1 sm:justify-end">
+                <Clock className="h-3 w-3" />
+                <span className="font-medium">Resolution due:</span> {formatDate(selectedTicket.sla.resolutionDueAt)}
+                <Badge className={`ml-1 ${getSlaBadge(selectedTicket.sla.resolutionStatus)}`} variant="outline">
+                  {formatSlaStatus(selectedTicket.sla.resolutionStatus)}
+                </Badge>
+              </div>
+            </div>
+          )}
         </div>
         
         <Separator className="my-4" />
@@ -487,7 +568,7 @@ export default function TicketViewer({
           </span>
           {isAdmin && selectedTicket.assignedTo && (
             <span>
-              Assigned to: {selectedTicket.assignedTo}
+              Assigned to: {selectedTicket.assignedToName || selectedTicket.assignedTo}
             </span>
           )}
         </div>
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useSession } from 'next-auth/react';
+import { DEFAULT_LOCALE, Locale, TranslationParams } from '../types/i18n';
+import {
+  LOCALE_COOKIE,
+  isSupportedLocale,
+  translate,
+  formatCurrency as formatCurrencyForLocale,
+  formatDate as formatDateForLocale,
+  TranslationKey,
+  DateStyle,
+} from '../lib/i18n';
+
+interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+  formatCurrency: (amount: number, currency?: string) => string;
+  formatDate: (date: string | Date, style?: DateStyle, timeZone?: string) => string;
+}
+
+export const LocaleContext = createContext<LocaleContextType>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+  formatCurrency: (amount, currency) => formatCurrencyForLocale(amount, DEFAULT_LOCALE, currency),
+  formatDate: (date, style, timeZone) => formatDateForLocale(date, DEFAULT_LOCALE, style, timeZone),
+});
+
+interface LocaleProviderProps {
+  // Chosen on the server from the locale cookie or Accept-Language
+  initialLocale: Locale;
+  children: ReactNode;
+}
+
+function hasLocaleCookie(): boolean {
+  return document.cookie.split(';').some(cookie => cookie.trim().startsWith(`${LOCALE_COOKIE}=`));
+}
+
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ initialLocale, children }) => {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+  const { status } = useSession();
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+    document.documentElement.lang = next;
+  }, []);
+
+  // On a browser that hasn't saved a language yet, use the signed-in user's
+  useEffect(() => {
+    if (status !== 'authenticated' || hasLocaleCookie()) return;
+
+    fetch('/api/users/settings')
+      .then(response => (response.ok ? response.json() : null))
+      .then(settings => {
+        if (isSupportedLocale(settings?.language)) {
+          setLocale(settings.language);
+        }
+      })
+      .catch(() => {
+        // Keep the browser's language
+      });
+  }, [status, setLocale]);
+
+  const value = useMemo<LocaleContextType>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatCurrency: (amount, currency) => formatCurrencyForLocale(amount, locale, currency),
+    formatDate: (date, style, timeZone) => formatDateForLocale(date, locale, style, timeZone),
+  }), [locale, setLocale]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useTranslation = () => useContext(LocaleContext);
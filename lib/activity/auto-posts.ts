@@ -14,6 +14,13 @@
 import mongoose, { Types } from 'mongoose';
 import { Discussion, DiscussionType, ActivityType } from '../db/models/discussion';
 import connectToDatabase from '../db/connect';
+import { Pool } from '../db/models/pool';
+import { DigestSource } from '../db/models/digestItem';
+import { queueDigestForUsers } from '../reminders/digest';
+import { resolveCurrency } from '../currency';
+import { formatCurrency as formatCurrencyForLocale } from '../i18n';
+import { DEFAULT_LOCALE } from '../../types/i18n';
+import type { CurrencyCode } from '../../types/currency';
 
 // System user ID for auto-generated posts
 const SYSTEM_USER_NAME = 'Pool Activity';
@@ -30,6 +37,7 @@ interface ActivityPostOptions {
     round?: number;
     paymentMethod?: string;
     transactionId?: string;
+    currency?: CurrencyCode;
   };
 }
 
@@ -61,6 +69,22 @@ export async function createActivityPost(
     replyCount: 0
   });
 
+  // Members on a daily/weekly digest see the activity in their next digest
+  try {
+    const pool = await Pool.findById(poolId).select('members.userId');
+    const memberIds = (pool?.members || [])
+      .map((m: { userId?: Types.ObjectId }) => m.userId)
+      .filter(Boolean) as Types.ObjectId[];
+
+    await queueDigestForUsers(memberIds, poolId, {
+      source: DigestSource.ACTIVITY,
+      sourceId: `activity:${discussion._id}`,
+      title: content,
+    });
+  } catch (error) {
+    console.error('Error queueing activity digest items:', error);
+  }
+
   return discussion;
 }
 
@@ -75,8 +99,9 @@ export async function postPaymentReceived(
   paymentMethod?: string
 ): Promise<any> {
   const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
 
-  const content = `${memberName} made a contribution of $${amount.toFixed(2)} for round ${round}${paymentMethod ? ` via ${paymentMethod}` : ''}.`;
+  const content = `${memberName} made a contribution of ${formatCurrency(amount, currency)} for round ${round}${paymentMethod ? ` via ${paymentMethod}` : ''}.`;
 
   return createActivityPost({
     poolId: poolObjectId,
@@ -86,7 +111,8 @@ export async function postPaymentReceived(
       memberName,
       amount,
       round,
-      paymentMethod
+      paymentMethod,
+      currency
     }
   });
 }
@@ -102,8 +128,9 @@ export async function postPaymentConfirmed(
   confirmedBy: string
 ): Promise<any> {
   const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
 
-  const content = `${confirmedBy} confirmed ${memberName}'s contribution of $${amount.toFixed(2)} for round ${round}.`;
+  const content = `${confirmedBy} confirmed ${memberName}'s contribution of ${formatCurrency(amount, currency)} for round ${round}.`;
 
   return createActivityPost({
     poolId: poolObjectId,
@@ -112,7 +139,8 @@ export async function postPaymentConfirmed(
     metadata: {
       memberName,
       amount,
-      round
+      round,
+      currency
     }
   });
 }
@@ -128,8 +156,9 @@ export async function postPayoutSent(
   paymentMethod?: string
 ): Promise<any> {
   const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
 
-  const content = `Payout of $${amount.toFixed(2)} was sent to ${recipientName} for round ${round}${paymentMethod ? ` via ${paymentMethod}` : ''}.`;
+  const content = `Payout of ${formatCurrency(amount, currency)} was sent to ${recipientName} for round ${round}${paymentMethod ? ` via ${paymentMethod}` : ''}.`;
 
   return createActivityPost({
     poolId: poolObjectId,
@@ -139,7 +168,8 @@ export async function postPayoutSent(
       memberName: recipientName,
       amount,
       round,
-      paymentMethod
+      paymentMethod,
+      currency
     }
   });
 }
@@ -154,8 +184,9 @@ export async function postPayoutCompleted(
   round: number
 ): Promise<any> {
   const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
 
-  const content = `${recipientName} confirmed receiving the payout of $${amount.toFixed(2)} for round ${round}. 🎉`;
+  const content = `${recipientName} confirmed receiving the payout of ${formatCurrency(amount, currency)} for round ${round}. 🎉`;
 
   return createActivityPost({
     poolId: poolObjectId,
@@ -164,7 +195,8 @@ export async function postPayoutCompleted(
     metadata: {
       memberName: recipientName,
       amount,
-      round
+      round,
+      currency
     }
   });
 }
@@ -224,8 +256,9 @@ export async function postRoundStarted(
   contributionAmount: number
 ): Promise<any> {
   const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
 
-  const content = `Round ${roundNumber} has started! ${recipientName} is the recipient this round. Contributions of $${contributionAmount.toFixed(2)} are due.`;
+  const content = `Round ${roundNumber} has started! ${recipientName} is the recipient this round. Contributions of ${formatCurrency(contributionAmount, currency)} are due.`;
 
   return createActivityPost({
     poolId: poolObjectId,
@@ -234,7 +267,8 @@ export async function postRoundStarted(
     metadata: {
       memberName: recipientName,
       round: roundNumber,
-      amount: contributionAmount
+      amount: contributionAmount,
+      currency
     }
   });
 }
@@ -248,8 +282,9 @@ export async function postRoundCompleted(
   totalCollected: number
 ): Promise<any> {
   const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
 
-  const content = `Round ${roundNumber} completed! Total of $${totalCollected.toFixed(2)} was collected and distributed.`;
+  const content = `Round ${roundNumber} completed! Total of ${formatCurrency(totalCollected, currency)} was collected and distributed.`;
 
   return createActivityPost({
     poolId: poolObjectId,
@@ -257,7 +292,8 @@ export async function postRoundCompleted(
     content,
     metadata: {
       round: roundNumber,
-      amount: totalCollected
+      amount: totalCollected,
+      currency
     }
   });
 }
@@ -305,6 +341,9 @@ export async function postPoolStatusChanged(
     case 'completed':
       content = `The pool has been completed! Thank you everyone for participating. 🎊`;
       break;
+    case 'cancelled':
+      content = `The members voted to cancel the pool. See the settlement plan for refunds owed.`;
+      break;
     default:
       content = `${changedBy} changed the pool status to ${newStatus}.`;
   }
@@ -345,14 +384,81 @@ export async function postReminderSent(
   });
 }
 
+/**
+ * Create activity post for a payment that went late
+ */
+export async function postPaymentLate(
+  poolId: Types.ObjectId | string,
+  memberId: number,
+  memberName: string,
+  amount: number,
+  round: number,
+  lateFee?: number
+): Promise<any> {
+  const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
+
+  const content = lateFee
+    ? `${memberName}'s contribution of ${formatCurrency(amount, currency)} for round ${round} is late. A late fee of ${formatCurrency(lateFee, currency)} was added.`
+    : `${memberName}'s contribution of ${formatCurrency(amount, currency)} for round ${round} is late.`;
+
+  return createActivityPost({
+    poolId: poolObjectId,
+    activityType: ActivityType.PAYMENT_LATE,
+    content,
+    metadata: {
+      memberId,
+      memberName,
+      amount,
+      round,
+      currency
+    }
+  });
+}
+
+/**
+ * Create activity post for a payment that was missed
+ */
+export async function postPaymentMissed(
+  poolId: Types.ObjectId | string,
+  memberId: number,
+  memberName: string,
+  amount: number,
+  round: number
+): Promise<any> {
+  const poolObjectId = new mongoose.Types.ObjectId(poolId.toString());
+  const currency = await getPoolCurrency(poolObjectId);
+
+  const content = `${memberName} missed the contribution of ${formatCurrency(amount, currency)} for round ${round}.`;
+
+  return createActivityPost({
+    poolId: poolObjectId,
+    activityType: ActivityType.PAYMENT_MISSED,
+    content,
+    metadata: {
+      memberId,
+      memberName,
+      amount,
+      round,
+      currency
+    }
+  });
+}
+
+/**
+ * The pool's currency, for the amounts in a post
+ */
+async function getPoolCurrency(poolId: Types.ObjectId): Promise<CurrencyCode> {
+  await connectToDatabase();
+  const pool = await Pool.findById(poolId).select('currency');
+  return resolveCurrency(pool?.currency);
+}
+
 /**
  * Format amount as currency
  */
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount);
+function formatCurrency(amount: number, currency: CurrencyCode): string {
+  return formatCurrencyForLocale(amount, DEFAULT_LOCALE, currency);
 }
 
 /**
@@ -382,6 +488,10 @@ export function getActivityIcon(activityType: ActivityType): string {
       return '📋';
     case ActivityType.REMINDER_SENT:
       return '🔔';
+    case ActivityType.PAYMENT_LATE:
+      return '⏰';
+    case ActivityType.PAYMENT_MISSED:
+      return '⚠️';
     default:
       return '📣';
   }
@@ -411,6 +521,9 @@ export function getActivityColor(activityType: ActivityType): string {
       return 'yellow';
     case ActivityType.REMINDER_SENT:
       return 'amber';
+    case ActivityType.PAYMENT_LATE:
+    case ActivityType.PAYMENT_MISSED:
+      return 'red';
     default:
       return 'gray';
   }
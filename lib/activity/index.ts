@@ -30,6 +30,8 @@ export {
   postPoolCreated,
   postPoolStatusChanged,
   postReminderSent,
+  postPaymentLate,
+  postPaymentMissed,
   getActivityIcon,
   getActivityColor,
 } from './auto-posts';
@@ -19,6 +19,8 @@ import mongoose, { Types } from 'mongoose';
 import { DiscussionMention } from '../db/models/discussionMention';
 import { Pool } from '../db/models/pool';
 import { User } from '../db/models/user';
+import { DigestSource } from '../db/models/digestItem';
+import { queueDigestForUsers } from '../reminders/digest';
 
 // Regex to match @mentions
 // Matches @word or @"multi word name" formats
@@ -282,8 +284,21 @@ export async function processMentions(
     resolvedMentions
   );
 
+  // Users on a daily/weekly digest get the mention in their next digest
+  const mentionedUserIds = resolvedMentions.map(m => m.userId);
+  try {
+    await queueDigestForUsers(mentionedUserIds, poolId, {
+      source: DigestSource.MENTION,
+      sourceId: `mention:${discussionId}`,
+      title: `${authorName} mentioned you`,
+      body: content.length > 150 ? content.substring(0, 147) + '...' : content,
+    });
+  } catch (error) {
+    console.error('Error queueing mention digest items:', error);
+  }
+
   // Return the mentioned user IDs
-  return resolvedMentions.map(m => m.userId);
+  return mentionedUserIds;
 }
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * Pool Analytics Module
+ *
+ * Components:
+ * - rollups.ts: Per-round collection stats and per-member contribution histories, rebuilt from the
+ *   ledger and round archive whenever payments change
+ * - report.ts: Timeframe filtering and the charts built from the stored rollups
+ *
+ * Entry points:
+ * - /api/pools/[id]/analytics: one pool's dashboard (members)
+ * - /api/analytics: the signed-in user's contributions across their pools
+ * - Ledger postings, the late policy, and ledger repair refresh the rollups
+ */
+
+export {
+  getPaymentOutcome,
+  getOnTimeRate,
+  buildPoolRollups,
+  refreshPoolRollups,
+  refreshPoolRollupsSafely,
+  getPoolRollups,
+} from './rollups';
+
+export {
+  ANALYTICS_TIMEFRAMES,
+  DEFAULT_ANALYTICS_TIMEFRAME,
+  isAnalyticsTimeframe,
+  getTimeframeStart,
+  filterRoundsByTimeframe,
+  buildPoolAnalytics,
+  buildUserAnalytics,
+} from './report';
+
+export type {
+  RollupPool,
+  RollupRound,
+  RollupEntry,
+} from './rollups';
+
+export type { UserPoolMembership } from './report';
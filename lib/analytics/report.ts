@@ -0,0 +1,321 @@
+/**
+ * Analytics reports
+ *
+ * Turns stored rollups into the dashboard's charts for one pool, or a
+ * summary of one user's contributions across their pools. The timeframe
+ * filters rounds by their due date and contributions and payouts by the day
+ * they happened; completion and the payout schedule always cover the whole
+ * current cycle.
+ */
+
+import { roundCents } from '../ledger/entries';
+import { getRoundPayoutDate } from '../schedule';
+import { PoolStatus } from '../../types/pool';
+import {
+  AnalyticsTimeframe,
+  MemberRollup,
+  PoolAnalyticsReport,
+  PoolRollups,
+  RoundRollup,
+  UserAnalyticsReport,
+} from '../../types/analytics';
+import { getOnTimeRate, RollupPool } from './rollups';
+
+export const ANALYTICS_TIMEFRAMES: AnalyticsTimeframe[] = ['1month', '3months', '6months', '1year', 'all'];
+
+export const DEFAULT_ANALYTICS_TIMEFRAME: AnalyticsTimeframe = '3months';
+
+const TIMEFRAME_MONTHS: Record<Exclude<AnalyticsTimeframe, 'all'>, number> = {
+  '1month': 1,
+  '3months': 3,
+  '6months': 6,
+  '1year': 12,
+};
+
+// Most recent contributions listed in a user report
+const MAX_USER_HISTORY = 200;
+
+export function isAnalyticsTimeframe(value: unknown): value is AnalyticsTimeframe {
+  return typeof value === 'string' && (ANALYTICS_TIMEFRAMES as string[]).includes(value);
+}
+
+/**
+ * Start of the timeframe, or null for all time
+ */
+export function getTimeframeStart(timeframe: AnalyticsTimeframe, now: Date = new Date()): Date | null {
+  if (timeframe === 'all') return null;
+  const start = new Date(now);
+  start.setUTCMonth(start.getUTCMonth() - TIMEFRAME_MONTHS[timeframe]);
+  return start;
+}
+
+function isWithin(date: string | null, start: Date | null): boolean {
+  if (!start) return true;
+  return date !== null && new Date(date).getTime() >= start.getTime();
+}
+
+/**
+ * Rounds in the timeframe, by due date (or payout date for rounds without one)
+ */
+export function filterRoundsByTimeframe(rounds: RoundRollup[], start: Date | null): RoundRollup[] {
+  return rounds.filter(round => isWithin(round.dueDate || round.payoutAt, start));
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
+
+function sum(values: number[]): number {
+  return roundCents(values.reduce((total, v) => total + v, 0));
+}
+
+function countOutcomes(rounds: RoundRollup[], memberId?: number) {
+  let onTime = 0;
+  let late = 0;
+  let missed = 0;
+  for (const round of rounds) {
+    for (const { memberId: id, outcome } of round.outcomes) {
+      if (memberId !== undefined && id !== memberId) continue;
+      if (outcome === 'on_time') onTime++;
+      else if (outcome === 'late') late++;
+      else if (outcome === 'missed') missed++;
+    }
+  }
+  return { onTime, late, missed };
+}
+
+function describeRound(cycle: number, round: number, multiCycle: boolean): string {
+  return multiCycle ? `Cycle ${cycle + 1} Round ${round}` : `Round ${round}`;
+}
+
+function safePayoutDate(pool: RollupPool, round: number): string {
+  try {
+    return getRoundPayoutDate(pool, round).toISOString().split('T')[0];
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Build the analytics dashboard for one pool
+ */
+export function buildPoolAnalytics(
+  pool: RollupPool,
+  rollups: PoolRollups,
+  timeframe: AnalyticsTimeframe = DEFAULT_ANALYTICS_TIMEFRAME,
+  now: Date = new Date()
+): PoolAnalyticsReport {
+  const start = getTimeframeStart(timeframe, now);
+  const currentCycle = pool.currentCycle || 0;
+  const currentRound = pool.currentRound || 1;
+  const totalRounds = pool.totalRounds || pool.members.length;
+  const pot = roundCents(pool.contributionAmount * pool.members.length);
+
+  const multiCycle = rollups.rounds.some(r => r.cycle !== rollups.rounds[0].cycle);
+  const period = (cycle: number, round: number) => describeRound(cycle, round, multiCycle);
+  const rounds = filterRoundsByTimeframe(rollups.rounds, start);
+  const cycleRounds = rollups.rounds.filter(r => r.cycle === currentCycle);
+
+  const contributions = rollups.members.flatMap(m => m.contributions).filter(c => isWithin(c.date, start));
+  const totalSaved = sum(contributions.map(c => c.amount));
+
+  const outcomes = countOutcomes(rounds);
+  const settled = outcomes.onTime + outcomes.late + outcomes.missed;
+
+  // Running total of everything collected, shown for the rounds in the timeframe
+  let running = 0;
+  const savingsGrowthData: PoolAnalyticsReport['savingsGrowthData'] = [];
+  for (const round of rollups.rounds) {
+    running = roundCents(running + round.collected);
+    if (rounds.includes(round)) {
+      savingsGrowthData.push({ period: period(round.cycle, round.round), amount: running });
+    }
+  }
+
+  // The rest of the current cycle at the scheduled contribution amounts
+  const projectedGrowthData: PoolAnalyticsReport['projectedGrowthData'] = savingsGrowthData.map(point => ({
+    period: point.period,
+    actual: point.amount,
+    projected: null,
+  }));
+  const isOngoing = pool.status !== PoolStatus.COMPLETED && pool.status !== PoolStatus.CANCELLED;
+  if (isOngoing) {
+    const lastRound = cycleRounds.reduce((max, r) => Math.max(max, r.round), currentRound - 1);
+    if (projectedGrowthData.length > 0) {
+      projectedGrowthData[projectedGrowthData.length - 1].projected = running;
+    }
+    let projected = running;
+    for (let round = lastRound + 1; round <= totalRounds; round++) {
+      projected = roundCents(projected + pot);
+      projectedGrowthData.push({ period: period(currentCycle, round), actual: null, projected });
+    }
+  }
+
+  const paidOut = sum(cycleRounds.map(r => r.payoutAmount));
+  const projectedTotalValue = roundCents(pot * totalRounds);
+
+  const memberContributionData = rollups.members.map((member: MemberRollup) => {
+    const memberContributions = member.contributions.filter(c => isWithin(c.date, start));
+    const counts = countOutcomes(rounds, member.memberId);
+    return {
+      memberId: member.memberId,
+      name: member.name,
+      totalContributed: sum(memberContributions.map(c => c.amount)),
+      totalReceived: sum(member.payouts.filter(p => isWithin(p.date, start)).map(p => p.amount)),
+      onTimeRate: getOnTimeRate(counts.onTime, counts.late, counts.missed) ?? 100,
+      averageLatencyHours: average(
+        memberContributions.filter(c => c.latencyHours !== null).map(c => c.latencyHours as number)
+      ),
+    };
+  });
+
+  const memberHistories = rollups.members.map(member => ({
+    memberId: member.memberId,
+    name: member.name,
+    contributions: member.contributions
+      .filter(c => isWithin(c.date, start))
+      .map(c => ({ ...c, period: c.round ? period(c.cycle, c.round) : c.date.split('T')[0] }))
+      .reverse(),
+  }));
+
+  // Rounds before the current one are done even if they predate the round archive
+  const roundsDone = Math.max(cycleRounds.filter(r => r.closed).length, currentRound - 1);
+  const completionPercentage = pool.status === PoolStatus.COMPLETED
+    ? 100
+    : totalRounds > 0 ? Math.min(100, (roundsDone / totalRounds) * 100) : 0;
+
+  const payoutSchedule = Array.from({ length: totalRounds }, (_, i) => {
+    const round = i + 1;
+    const rollup = cycleRounds.find(r => r.round === round);
+    const paid = !!rollup?.payoutAt;
+
+    let status: 'completed' | 'upcoming' | 'scheduled';
+    if (paid || round < currentRound || pool.status === PoolStatus.COMPLETED) {
+      status = 'completed';
+    } else if (round === currentRound) {
+      status = 'upcoming';
+    } else {
+      status = 'scheduled';
+    }
+
+    return {
+      round,
+      member: pool.members.find(m => m.position === round)?.name || 'Unknown',
+      date: paid ? (rollup!.payoutAt as string).split('T')[0] : safePayoutDate(pool, round),
+      amount: paid ? rollup!.payoutAmount : pot,
+      status,
+    };
+  });
+
+  return {
+    timeframe,
+    computedAt: rollups.computedAt,
+    totalSaved,
+    completionPercentage,
+    onTimeRate: getOnTimeRate(outcomes.onTime, outcomes.late, outcomes.missed) ?? 100,
+    averageContribution: contributions.length > 0 ? roundCents(totalSaved / contributions.length) : 0,
+    averageCollectionLatencyHours: average(
+      rounds.filter(r => r.collectionLatencyHours !== null).map(r => r.collectionLatencyHours as number)
+    ),
+    savingsGrowthData,
+    projectedGrowthData,
+    payoutDistributionData: [
+      { name: 'Paid Out', value: paidOut },
+      { name: 'Remaining', value: Math.max(0, roundCents(projectedTotalValue - paidOut)) },
+    ],
+    onTimeRateData: rounds.map(r => ({ period: period(r.cycle, r.round), rate: r.onTimeRate })),
+    contributionData: rounds.map(r => ({ period: period(r.cycle, r.round), onTime: r.onTime, late: r.late, missed: r.missed })),
+    collectionLatencyData: rounds.map(r => ({
+      period: period(r.cycle, r.round),
+      averageHours: r.averageLatencyHours,
+      collectedHours: r.collectionLatencyHours,
+    })),
+    memberContributionData,
+    memberHistories,
+    projectedCompletionDate: safePayoutDate(pool, totalRounds),
+    projectedTotalValue,
+    expectedReturn: pot,
+    riskLevel: settled > 0 ? Math.min(Math.round((1 - outcomes.onTime / settled) * 200), 100) : 0,
+    payoutSchedule,
+  };
+}
+
+export interface UserPoolMembership {
+  pool: { id: string; name: string; status: string };
+  memberId: number;
+  rollups: PoolRollups;
+}
+
+/**
+ * Summarize one user's contributions and punctuality across their pools
+ */
+export function buildUserAnalytics(
+  memberships: UserPoolMembership[],
+  timeframe: AnalyticsTimeframe = DEFAULT_ANALYTICS_TIMEFRAME,
+  now: Date = new Date()
+): UserAnalyticsReport {
+  const start = getTimeframeStart(timeframe, now);
+  const monthly = new Map<string, { onTime: number; late: number; missed: number }>();
+  const history: UserAnalyticsReport['contributionHistory'] = [];
+  const latencies: number[] = [];
+  let totalOnTime = 0;
+  let totalLate = 0;
+  let totalMissed = 0;
+
+  const pools = memberships.map(({ pool, memberId, rollups }) => {
+    const member = rollups.members.find(m => m.memberId === memberId);
+    const contributions = (member?.contributions || []).filter(c => isWithin(c.date, start));
+    const rounds = filterRoundsByTimeframe(rollups.rounds, start);
+    const counts = countOutcomes(rounds, memberId);
+
+    totalOnTime += counts.onTime;
+    totalLate += counts.late;
+    totalMissed += counts.missed;
+
+    for (const round of rounds) {
+      if (!round.dueDate) continue;
+      const month = round.dueDate.slice(0, 7);
+      const bucket = monthly.get(month) || { onTime: 0, late: 0, missed: 0 };
+      const roundCounts = countOutcomes([round], memberId);
+      bucket.onTime += roundCounts.onTime;
+      bucket.late += roundCounts.late;
+      bucket.missed += roundCounts.missed;
+      monthly.set(month, bucket);
+    }
+
+    const poolLatencies = contributions.filter(c => c.latencyHours !== null).map(c => c.latencyHours as number);
+    latencies.push(...poolLatencies);
+    history.push(...contributions.map(c => ({ ...c, poolId: pool.id, poolName: pool.name })));
+
+    return {
+      poolId: pool.id,
+      name: pool.name,
+      status: pool.status,
+      contributed: sum(contributions.map(c => c.amount)),
+      received: sum((member?.payouts || []).filter(p => isWithin(p.date, start)).map(p => p.amount)),
+      onTimeRate: getOnTimeRate(counts.onTime, counts.late, counts.missed),
+      averageLatencyHours: average(poolLatencies),
+    };
+  });
+
+  return {
+    timeframe,
+    computedAt: now.toISOString(),
+    totals: {
+      pools: pools.length,
+      contributed: sum(pools.map(p => p.contributed)),
+      received: sum(pools.map(p => p.received)),
+      onTimeRate: getOnTimeRate(totalOnTime, totalLate, totalMissed),
+      averageLatencyHours: average(latencies),
+    },
+    pools,
+    onTimeRateData: Array.from(monthly.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, counts]) => ({ period: month, rate: getOnTimeRate(counts.onTime, counts.late, counts.missed) }))
+      .filter(point => point.rate !== null),
+    contributionHistory: history
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, MAX_USER_HISTORY),
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * Analytics rollups
+ *
+ * Rolls a pool's ledger and round archive up into per-round collection stats
+ * and per-member contribution histories. Amounts and timing come from the
+ * ledger (contributions and payouts by their occurredAt); on-time, late, and
+ * missed come from the round payment records, using the same rule as the late
+ * policy: a paid contribution is on time if it never went late or missed.
+ *
+ * Rollups are rebuilt whenever a ledger entry is posted or the late policy
+ * changes a payment, and stored in the PoolAnalytics collection.
+ */
+
+import { getPoolModel } from '../db/models/pool';
+import { getRoundModel } from '../db/models/round';
+import { getLedgerEntryModel, LedgerEntryType } from '../db/models/ledgerEntry';
+import { getPoolAnalyticsModel } from '../db/models/poolAnalytics';
+import { roundCents } from '../ledger/entries';
+import { getRoundDueDate, ScheduleSource } from '../schedule';
+import { PoolStatus } from '../../types/pool';
+import {
+  MemberRollup,
+  PoolRollups,
+  RoundPaymentOutcome,
+  RoundRollup,
+} from '../../types/analytics';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface RollupPayment {
+  memberId: number;
+  memberName?: string;
+  status: string;
+  dueDate?: Date | string | null;
+  lateAt?: Date | string | null;
+  missedAt?: Date | string | null;
+}
+
+// The pool fields rollups read
+export interface RollupPool extends ScheduleSource {
+  id: string;
+  status?: string;
+  currentCycle?: number;
+  currentRound?: number;
+  totalRounds?: number;
+  contributionAmount: number;
+  members: { id: number; name: string; position?: number }[];
+  memberExits?: { memberId: number; memberName: string }[];
+  currentRoundPayments?: RollupPayment[];
+}
+
+// The archived round fields rollups read
+export interface RollupRound {
+  cycle: number;
+  roundNumber: number;
+  dueDate?: Date | string | null;
+  contributionAmount: number;
+  totalMembers: number;
+  payments?: RollupPayment[];
+}
+
+// The ledger entry fields rollups read
+export interface RollupEntry {
+  type: string;
+  cycle: number;
+  round?: number | null;
+  memberId?: number | null;
+  amount: number;
+  occurredAt: Date | string;
+}
+
+export function getPaymentOutcome(payment: Pick<RollupPayment, 'status' | 'lateAt' | 'missedAt'>): RoundPaymentOutcome {
+  switch (payment.status) {
+    case 'admin_verified':
+    case 'member_confirmed':
+      return !payment.lateAt && !payment.missedAt ? 'on_time' : 'late';
+    case 'late':
+    case 'missed':
+    case 'excused':
+      return payment.status;
+    default:
+      return 'pending';
+  }
+}
+
+export function getOnTimeRate(onTime: number, late: number, missed: number): number | null {
+  const settled = onTime + late + missed;
+  return settled > 0 ? Math.round((onTime / settled) * 1000) / 10 : null;
+}
+
+function hoursBetween(from: Date, to: Date): number {
+  return Math.round(((to.getTime() - from.getTime()) / HOUR_MS) * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function scheduledDueDate(pool: RollupPool, round: number): Date | null {
+  try {
+    return getRoundDueDate(pool, round);
+  } catch {
+    return null;
+  }
+}
+
+const roundKey = (cycle: number, round: number) => `${cycle}:${round}`;
+
+/**
+ * Drop contributions that a reversal cancelled: each reversal cancels the
+ * member's earliest remaining contribution for its round
+ */
+function withoutReversedContributions<T extends RollupEntry>(contributions: T[], entries: RollupEntry[]): T[] {
+  const reversals = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.type !== LedgerEntryType.REVERSAL) continue;
+    const key = `${roundKey(entry.cycle, entry.round || 0)}:${entry.memberId}`;
+    reversals.set(key, (reversals.get(key) || 0) + 1);
+  }
+
+  return contributions.filter(entry => {
+    const key = `${roundKey(entry.cycle, entry.round || 0)}:${entry.memberId}`;
+    const remaining = reversals.get(key) || 0;
+    if (remaining === 0) return true;
+    reversals.set(key, remaining - 1);
+    return false;
+  });
+}
+
+/**
+ * Build a pool's rollups from its archived rounds and ledger entries
+ */
+export function buildPoolRollups(
+  pool: RollupPool,
+  archivedRounds: RollupRound[],
+  entries: RollupEntry[],
+  now: Date = new Date()
+): PoolRollups {
+  const currentCycle = pool.currentCycle || 0;
+  const currentRound = pool.currentRound || 1;
+
+  // Round records: the archive, plus the live round while it's open
+  const records = new Map<string, RollupRound>();
+  for (const round of archivedRounds) {
+    records.set(roundKey(round.cycle, round.roundNumber), round);
+  }
+
+  const liveKey = roundKey(currentCycle, currentRound);
+  const isLiveRoundOpen =
+    (pool.status === PoolStatus.ACTIVE || pool.status === PoolStatus.PAUSED) &&
+    currentRound <= (pool.totalRounds || pool.members.length) &&
+    !records.has(liveKey);
+
+  const liveKeys = new Set<string>();
+  if (isLiveRoundOpen) {
+    const payments = pool.currentRoundPayments || [];
+    records.set(liveKey, {
+      cycle: currentCycle,
+      roundNumber: currentRound,
+      dueDate: payments.find(p => p.dueDate)?.dueDate || scheduledDueDate(pool, currentRound),
+      contributionAmount: pool.contributionAmount,
+      totalMembers: pool.members.length,
+      payments,
+    });
+    liveKeys.add(liveKey);
+  }
+
+  const contributions = withoutReversedContributions(
+    entries
+      .filter(e => e.type === LedgerEntryType.CONTRIBUTION)
+      .map(e => ({ ...e, date: new Date(e.occurredAt) }))
+      .sort((a, b) => a.date.getTime() - b.date.getTime()),
+    entries
+  );
+  const payouts = entries
+    .filter(e => e.type === LedgerEntryType.PAYOUT)
+    .map(e => ({ ...e, date: new Date(e.occurredAt) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Contributions recorded against rounds with no archive record (older pools)
+  for (const entry of [...contributions, ...payouts]) {
+    if (!entry.round) continue;
+    const key = roundKey(entry.cycle, entry.round);
+    if (records.has(key)) continue;
+    records.set(key, {
+      cycle: entry.cycle,
+      roundNumber: entry.round,
+      dueDate: entry.cycle === currentCycle ? scheduledDueDate(pool, entry.round) : null,
+      contributionAmount: pool.contributionAmount,
+      totalMembers: pool.members.length,
+      payments: [],
+    });
+  }
+
+  const dueDates = new Map<string, Date | null>();
+  const rounds: RoundRollup[] = Array.from(records.entries())
+    .map(([key, record]) => {
+      const dueDate = toDate(record.dueDate);
+      dueDates.set(key, dueDate);
+
+      const outcomes = (record.payments || []).map(p => ({ memberId: p.memberId, outcome: getPaymentOutcome(p) }));
+      const count = (outcome: RoundPaymentOutcome) => outcomes.filter(o => o.outcome === outcome).length;
+      const onTime = count('on_time');
+      const late = count('late');
+      const missed = count('missed');
+
+      const payers = Math.max(0, record.totalMembers - count('excused'));
+      const expected = roundCents(record.contributionAmount * payers);
+
+      const roundContributions = contributions.filter(e => e.cycle === record.cycle && e.round === record.roundNumber);
+      const collected = roundCents(roundContributions.reduce((sum, e) => sum + e.amount, 0));
+
+      let collectionLatencyHours: number | null = null;
+      let averageLatencyHours: number | null = null;
+      if (dueDate) {
+        averageLatencyHours = average(roundContributions.map(e => hoursBetween(dueDate, e.date)));
+
+        let running = 0;
+        for (const entry of roundContributions) {
+          running = roundCents(running + entry.amount);
+          if (expected > 0 && running >= expected) {
+            collectionLatencyHours = hoursBetween(dueDate, entry.date);
+            break;
+          }
+        }
+      }
+
+      const roundPayouts = payouts.filter(e => e.cycle === record.cycle && e.round === record.roundNumber);
+      const lastPayout = roundPayouts[roundPayouts.length - 1];
+
+      return {
+        cycle: record.cycle,
+        round: record.roundNumber,
+        dueDate: dueDate ? dueDate.toISOString() : null,
+        closed: !liveKeys.has(key),
+        expected,
+        collected,
+        onTime,
+        late,
+        missed,
+        onTimeRate: getOnTimeRate(onTime, late, missed),
+        averageLatencyHours,
+        collectionLatencyHours,
+        payoutAmount: roundCents(roundPayouts.reduce((sum, e) => sum + e.amount, 0)),
+        payoutAt: lastPayout ? lastPayout.date.toISOString() : null,
+        outcomes,
+      };
+    })
+    .sort((a, b) => a.cycle - b.cycle || a.round - b.round);
+
+  // Members: current ones first, then anyone else with ledger history
+  const names = new Map<number, string>();
+  for (const member of pool.members) names.set(member.id, member.name);
+  for (const exit of pool.memberExits || []) {
+    if (!names.has(exit.memberId)) names.set(exit.memberId, exit.memberName);
+  }
+  for (const record of Array.from(records.values())) {
+    for (const payment of record.payments || []) {
+      if (!names.has(payment.memberId) && payment.memberName) names.set(payment.memberId, payment.memberName);
+    }
+  }
+
+  const memberIds = new Set<number>(pool.members.map(m => m.id));
+  for (const entry of [...contributions, ...payouts]) {
+    if (entry.memberId !== undefined && entry.memberId !== null) memberIds.add(entry.memberId);
+  }
+
+  const members: MemberRollup[] = Array.from(memberIds).map(memberId => ({
+    memberId,
+    name: names.get(memberId) || `Member ${memberId}`,
+    contributions: contributions
+      .filter(e => e.memberId === memberId)
+      .map(e => {
+        const dueDate = e.round ? dueDates.get(roundKey(e.cycle, e.round)) : null;
+        return {
+          cycle: e.cycle,
+          round: e.round ?? null,
+          amount: roundCents(e.amount),
+          date: e.date.toISOString(),
+          latencyHours: dueDate ? hoursBetween(dueDate, e.date) : null,
+        };
+      }),
+    payouts: payouts
+      .filter(e => e.memberId === memberId)
+      .map(e => ({
+        cycle: e.cycle,
+        round: e.round ?? null,
+        amount: roundCents(e.amount),
+        date: e.date.toISOString(),
+      })),
+  }));
+
+  return {
+    poolId: pool.id,
+    rounds,
+    members,
+    computedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Rebuild and store a pool's rollups
+ *
+ * @returns null if the pool doesn't exist
+ */
+export async function refreshPoolRollups(poolId: string, now: Date = new Date()): Promise<PoolRollups | null> {
+  const pool = await getPoolModel().findOne({ id: poolId }).lean<RollupPool>();
+  if (!pool) return null;
+
+  const [archivedRounds, entries] = await Promise.all([
+    getRoundModel().find({ poolId }).lean<RollupRound[]>(),
+    getLedgerEntryModel()
+      .find({ poolId, type: { $in: [LedgerEntryType.CONTRIBUTION, LedgerEntryType.REVERSAL, LedgerEntryType.PAYOUT] } })
+      .lean<RollupEntry[]>(),
+  ]);
+
+  const rollups = buildPoolRollups(pool, archivedRounds, entries, now);
+
+  await getPoolAnalyticsModel().findOneAndUpdate(
+    { poolId },
+    { $set: { rounds: rollups.rounds, members: rollups.members, computedAt: now } },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+
+  return rollups;
+}
+
+/**
+ * Rebuild a pool's rollups after its payments changed
+ *
+ * Failures are logged and swallowed: analytics must never block a payment.
+ */
+export async function refreshPoolRollupsSafely(poolId: string): Promise<void> {
+  try {
+    await refreshPoolRollups(poolId);
+  } catch (error) {
+    console.error(`Error refreshing analytics rollups for pool ${poolId}:`, error);
+  }
+}
+
+/**
+ * Read the stored rollups for several pools, rebuilding any that are missing
+ */
+export async function getPoolRollups(poolIds: string[]): Promise<Map<string, PoolRollups>> {
+  const result = new Map<string, PoolRollups>();
+  if (poolIds.length === 0) return result;
+
+  const stored = await getPoolAnalyticsModel()
+    .find({ poolId: { $in: poolIds } })
+    .lean<{ poolId: string; rounds: RoundRollup[]; members: MemberRollup[]; computedAt: Date }[]>();
+
+  for (const doc of stored) {
+    result.set(doc.poolId, {
+      poolId: doc.poolId,
+      rounds: doc.rounds,
+      members: doc.members,
+      computedAt: new Date(doc.computedAt).toISOString(),
+    });
+  }
+
+  for (const poolId of poolIds) {
+    if (result.has(poolId)) continue;
+    const rollups = await refreshPoolRollups(poolId);
+    if (rollups) result.set(poolId, rollups);
+  }
+
+  return result;
+}
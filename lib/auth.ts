@@ -29,6 +29,12 @@ export async function getAuthToken(req: NextRequest) {
   return await getToken({ req });
 }
 
+// Helper function to get the session registry id of the token making a request
+export async function getCurrentSessionId(req: NextRequest): Promise<string | undefined> {
+  const token = await getAuthToken(req);
+  return token?.sessionId;
+}
+
 // Helper function to verify user authorization in API routes
 export async function verifyAuth() {
   const session = await getSession();
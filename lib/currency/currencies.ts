@@ -0,0 +1,79 @@
+/**
+ * Currencies a pool can be run in
+ *
+ * Tier contribution limits are set in dollars (lib/pools/tiers.ts) and scaled
+ * by limitScale, so a limit keeps roughly the same value in every currency.
+ * Venmo and Cash App only move US dollars; PayPal.me links carry the
+ * currency code, but PayPal doesn't support quetzales or pesos dominicanos.
+ * Zelle has no payment links in any currency.
+ *
+ * Every currency here has two decimal places. The ledger and member exits
+ * round major-unit amounts to cents (roundCents), so adding a currency with
+ * another exponent (yen, dinars) means moving them onto minor units first.
+ */
+
+import {
+  SUPPORTED_CURRENCIES,
+  DEFAULT_CURRENCY,
+  CurrencyCode,
+  CurrencyInfo,
+} from '../../types/currency';
+import type { PaymentMethodType } from '../../types/pool';
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: {
+    code: 'USD',
+    name: 'US Dollar',
+    minorDigits: 2,
+    contributionMin: 1,
+    limitScale: 1,
+    deepLinkMethods: ['venmo', 'cashapp', 'paypal'],
+  },
+  MXN: {
+    code: 'MXN',
+    name: 'Mexican Peso',
+    minorDigits: 2,
+    contributionMin: 20,
+    limitScale: 20,
+    deepLinkMethods: ['paypal'],
+  },
+  GTQ: {
+    code: 'GTQ',
+    name: 'Guatemalan Quetzal',
+    minorDigits: 2,
+    contributionMin: 10,
+    limitScale: 8,
+    deepLinkMethods: [],
+  },
+  DOP: {
+    code: 'DOP',
+    name: 'Dominican Peso',
+    minorDigits: 2,
+    contributionMin: 50,
+    limitScale: 60,
+    deepLinkMethods: [],
+  },
+};
+
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * A currency code from storage or input; unknown or missing codes are dollars
+ */
+export function resolveCurrency(value: string | null | undefined): CurrencyCode {
+  const code = value?.trim().toUpperCase();
+  return isSupportedCurrency(code) ? code : DEFAULT_CURRENCY;
+}
+
+export function getCurrencyInfo(currency: string | null | undefined): CurrencyInfo {
+  return CURRENCIES[resolveCurrency(currency)];
+}
+
+/**
+ * Whether a payment app's links can request money in this currency
+ */
+export function supportsDeepLinkIn(method: PaymentMethodType, currency: string | null | undefined): boolean {
+  return getCurrencyInfo(currency).deepLinkMethods.includes(method);
+}
@@ -0,0 +1,35 @@
+/**
+ * Currency Module
+ *
+ * Components:
+ * - currencies.ts: Supported pool currencies, their minimum contribution and
+ *   tier limit scale, and which payment apps can link to a payment in each
+ * - money.ts: Minor-unit arithmetic (pots, sums) and amount formatting for
+ *   messages (formatAmount) and labels (formatAmountLabel)
+ *
+ * Entry points:
+ * - POST /api/pools: the pool's currency is chosen at creation and can't change
+ * - Pool and Payment models: keep an integer minor-unit copy of each amount;
+ *   calculations still read the major-unit one
+ * - lib/payments/deep-links.ts: no payment link for apps that can't send the currency
+ * - lib/i18n formatCurrency: formatting in the viewer's locale
+ */
+
+export {
+  CURRENCIES,
+  isSupportedCurrency,
+  resolveCurrency,
+  getCurrencyInfo,
+  supportsDeepLinkIn,
+} from './currencies';
+
+export {
+  toMinorUnits,
+  fromMinorUnits,
+  roundToMinorUnit,
+  sumAmounts,
+  multiplyAmount,
+  getPotAmount,
+  formatAmount,
+  formatAmountLabel,
+} from './money';
@@ -0,0 +1,87 @@
+/**
+ * Money arithmetic in integer minor units (cents, centavos)
+ *
+ * Amounts are entered and shown in major units, but sums and products are
+ * done on integers so a pot of 7 x 12.35 is exactly 86.45.
+ */
+
+import { getCurrencyInfo } from './currencies';
+
+/**
+ * Major units to an integer count of minor units (12.35 MXN -> 1235)
+ */
+export function toMinorUnits(amount: number, currency?: string | null): number {
+  const factor = 10 ** getCurrencyInfo(currency).minorDigits;
+  return Math.round(amount * factor);
+}
+
+/**
+ * Integer minor units back to major units (1235 -> 12.35)
+ */
+export function fromMinorUnits(minor: number, currency?: string | null): number {
+  const factor = 10 ** getCurrencyInfo(currency).minorDigits;
+  return Math.round(minor) / factor;
+}
+
+/**
+ * Round an amount to the currency's smallest unit
+ */
+export function roundToMinorUnit(amount: number, currency?: string | null): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+/**
+ * Sum of amounts, added as minor units
+ */
+export function sumAmounts(amounts: number[], currency?: string | null): number {
+  const total = amounts.reduce((sum, amount) => sum + toMinorUnits(amount || 0, currency), 0);
+  return fromMinorUnits(total, currency);
+}
+
+/**
+ * An amount times a count, e.g. one contribution from every member
+ */
+export function multiplyAmount(amount: number, count: number, currency?: string | null): number {
+  return fromMinorUnits(toMinorUnits(amount, currency) * count, currency);
+}
+
+/**
+ * A round's pot: every member's contribution, less any discount (e.g. a winning bid)
+ */
+export function getPotAmount(
+  pool: { contributionAmount: number; currency?: string | null },
+  memberCount: number,
+  discount: number = 0
+): number {
+  const pot = toMinorUnits(pool.contributionAmount, pool.currency) * memberCount
+    - toMinorUnits(discount, pool.currency);
+  return fromMinorUnits(pot, pool.currency);
+}
+
+/**
+ * An amount with its currency symbol and every minor digit, for messages,
+ * notifications, and audit details ($12.50, MX$200.00)
+ */
+export function formatAmount(amount: number, currency?: string | null): string {
+  const info = getCurrencyInfo(currency);
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: info.code,
+    minimumFractionDigits: info.minorDigits,
+    maximumFractionDigits: info.minorDigits,
+  }).format(amount);
+}
+
+/**
+ * An amount with its currency symbol and no trailing zero cents, for
+ * pickers and limits ($10, MX$200, $12.5)
+ */
+export function formatAmountLabel(amount: number, currency?: string | null): string {
+  const info = getCurrencyInfo(currency);
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: info.code,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: info.minorDigits,
+  }).format(amount);
+}
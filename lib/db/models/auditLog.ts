@@ -19,6 +19,19 @@ const AuditLogSchema = new Schema({
   poolId: { type: String },
   success: { type: Boolean, required: true },
   errorMessage: { type: String },
+  // Security activity shown to the user (type SECURITY_EVENT, see lib/security/activity.ts)
+  activityType: { type: String },
+  deviceInfo: {
+    browser: { type: String },
+    os: { type: String },
+    device: { type: String },
+  },
+  location: {
+    city: { type: String },
+    country: { type: String },
+  },
+  // Retention: entries with an expiry are removed by MongoDB once it passes
+  expiresAt: { type: Date },
 });
 
 // Add indexes for common queries
@@ -26,6 +39,8 @@ AuditLogSchema.index({ userId: 1, timestamp: -1 });
 AuditLogSchema.index({ poolId: 1, timestamp: -1 });
 AuditLogSchema.index({ type: 1, timestamp: -1 });
 AuditLogSchema.index({ timestamp: -1 });
+AuditLogSchema.index({ userId: 1, activityType: 1, timestamp: -1 });
+AuditLogSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
 // Function to initialize the model with checking for existing models
 export function getAuditLogModel(): Model<any> {
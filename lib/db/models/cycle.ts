@@ -0,0 +1,110 @@
+/**
+ * Cycle Model - Summary of each finished pool cycle
+ *
+ * Groups often run the same pool back-to-back. Starting the next cycle
+ * resets the Pool document's rounds, positions, and payout flags, so a
+ * summary of the cycle that just ended is written here first. Rounds of the
+ * cycle stay in the Round collection under the same cycle number.
+ *
+ * Data Flow:
+ * 1. The final round of a cycle completes and the pool is marked completed
+ * 2. The admin opens enrollment and members opt in or out of the next cycle
+ * 3. startNextCycle() (lib/pools/cycles.ts) upserts the summary and resets the pool
+ * 4. /api/pools/[id]/cycles serves the summaries
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// A member's record for the cycle (reliability stats are cumulative at close time)
+export interface ICycleMemberRecord {
+  memberId: number;
+  name: string;
+  email?: string;
+  position: number;
+  payoutReceived: boolean;
+  payoutDate?: string;
+  paymentsOnTime: number;
+  paymentsMissed: number;
+  totalContributed: number;
+  continued: boolean;                // Took part in the next cycle
+}
+
+// TypeScript interface for Cycle document
+export interface ICycle extends Document {
+  _id: Types.ObjectId;
+  poolId: string;                   // Pool's public id (pool.id)
+  cycle: number;
+  startDate?: Date;
+  completedAt: Date;
+  contributionAmount: number;
+  frequency: string;
+  totalRounds: number;
+  roundsCompleted: number;
+  totalPaidOut: number;
+  members: ICycleMemberRecord[];
+  closedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CycleMemberRecordSchema = new Schema<ICycleMemberRecord>(
+  {
+    memberId: { type: Number, required: true },
+    name: { type: String, required: true },
+    email: { type: String, lowercase: true },
+    position: { type: Number, required: true },
+    payoutReceived: { type: Boolean, default: false },
+    payoutDate: { type: String },
+    paymentsOnTime: { type: Number, default: 0 },
+    paymentsMissed: { type: Number, default: 0 },
+    totalContributed: { type: Number, default: 0 },
+    continued: { type: Boolean, default: false }
+  },
+  { _id: false }
+);
+
+// Cycle schema definition
+const CycleSchema = new Schema<ICycle>(
+  {
+    poolId: {
+      type: String,
+      required: [true, 'Pool ID is required'],
+      index: true
+    },
+    cycle: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    startDate: { type: Date },
+    completedAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    contributionAmount: { type: Number, required: true },
+    frequency: { type: String, required: true },
+    totalRounds: { type: Number, required: true },
+    roundsCompleted: { type: Number, default: 0 },
+    totalPaidOut: { type: Number, default: 0 },
+    members: [CycleMemberRecordSchema],
+    closedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  },
+  {
+    timestamps: true,
+    versionKey: false
+  }
+);
+
+// One summary per cycle (also the history listing order)
+CycleSchema.index({ poolId: 1, cycle: 1 }, { unique: true });
+
+// Create and export the model
+export function getCycleModel(): Model<ICycle> {
+  const modelName = 'Cycle';
+  return mongoose.models[modelName] || mongoose.model<ICycle>(modelName, CycleSchema);
+}
+
+export const CycleModel = getCycleModel();
+
+export default CycleModel;
@@ -0,0 +1,110 @@
+/**
+ * DigestItem Model - Notifications waiting for a user's daily or weekly digest
+ *
+ * Users who choose NotificationFrequency.DAILY_DIGEST or WEEKLY_DIGEST get one
+ * combined email instead of a message per event. The scheduler, mentions and
+ * activity posts queue items here; lib/reminders/digest.ts sends them.
+ *
+ * Items are kept for 30 days after being digested, then expire.
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// Where a digest item came from
+export enum DigestSource {
+  REMINDER = 'reminder',
+  MENTION = 'mention',
+  ACTIVITY = 'activity',
+}
+
+// Digest cadence (matches NotificationFrequency digest values)
+export type DigestFrequency = 'daily' | 'weekly';
+
+// How long digested items are kept
+const DIGESTED_ITEM_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface DigestItemDocument extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  frequency: DigestFrequency;
+  source: DigestSource;
+  sourceId: string;           // Dedupe key, e.g. "mention:<discussionId>"
+  poolId?: string;
+  poolName?: string;
+  title: string;
+  body?: string;
+  url?: string;
+  occurredAt: Date;
+  digestedAt?: Date | null;   // Set once the item went out in a digest
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DigestItemSchema = new Schema<DigestItemDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    frequency: {
+      type: String,
+      enum: ['daily', 'weekly'],
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: Object.values(DigestSource),
+      required: true,
+    },
+    sourceId: {
+      type: String,
+      required: true,
+    },
+    poolId: { type: String },
+    poolName: { type: String },
+    title: {
+      type: String,
+      required: true,
+      maxlength: 200,
+    },
+    body: {
+      type: String,
+      maxlength: 500,
+    },
+    url: { type: String },
+    occurredAt: {
+      type: Date,
+      required: true,
+    },
+    digestedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The same event is only queued once per user
+DigestItemSchema.index({ userId: 1, sourceId: 1 }, { unique: true });
+
+// Find undigested items per user
+DigestItemSchema.index({ digestedAt: 1, userId: 1, frequency: 1 });
+
+// Remove old digested items (undigested items have no date and never expire)
+DigestItemSchema.index(
+  { digestedAt: 1 },
+  { expireAfterSeconds: DIGESTED_ITEM_TTL_SECONDS, partialFilterExpression: { digestedAt: { $type: 'date' } } }
+);
+
+// Model getter
+export function getDigestItemModel(): Model<DigestItemDocument> {
+  const modelName = 'DigestItem';
+  return mongoose.models[modelName] || mongoose.model<DigestItemDocument>(modelName, DigestItemSchema);
+}
+
+export const DigestItem = getDigestItemModel();
+
+export default DigestItem;
@@ -38,6 +38,8 @@ export enum ActivityType {
   POOL_CREATED = 'pool_created',
   POOL_STATUS_CHANGED = 'pool_status_changed',
   REMINDER_SENT = 'reminder_sent',
+  PAYMENT_LATE = 'payment_late',
+  PAYMENT_MISSED = 'payment_missed',
 }
 
 // TypeScript interface for Discussion document
@@ -79,6 +81,7 @@ export interface IDiscussion extends Document {
     round?: number;                 // Related round number
     paymentMethod?: string;         // Payment method used
     transactionId?: string;         // Related transaction ID
+    currency?: string;              // Currency of amount (the pool's)
   };
 
   createdAt: Date;
@@ -173,7 +176,8 @@ const DiscussionSchema = new Schema<IDiscussion>(
       amount: { type: Number },
       round: { type: Number },
       paymentMethod: { type: String },
-      transactionId: { type: String }
+      transactionId: { type: String },
+      currency: { type: String }
     }
   },
   {
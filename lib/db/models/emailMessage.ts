@@ -0,0 +1,123 @@
+/**
+ * EmailMessage Model - The outbound email queue
+ *
+ * Every email the app sends is stored here first, one record per recipient,
+ * then delivered by lib/email/queue.ts. Failed attempts are retried with
+ * backoff until maxAttempts; messages to suppressed addresses are kept with
+ * status 'suppressed' so it's clear why they weren't sent.
+ *
+ * Finished messages (sent, failed, or suppressed) expire (TTL) after
+ * EMAIL_MESSAGE_RETENTION_DAYS.
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import type { EmailMessageStatus, EmailPriority } from '../../email/types';
+
+export const EMAIL_MESSAGE_RETENTION_DAYS = 30;
+
+export interface IEmailMessage extends Document {
+  _id: Types.ObjectId;
+  to: string;                       // Single recipient address, lowercased
+  toName?: string;
+  from?: string;
+  replyTo?: string;
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  tags: string[];
+  attachments: Array<{
+    filename: string;
+    content: string;                // base64 when encoding is 'base64'
+    contentType?: string;
+    encoding?: 'base64' | 'utf8';
+  }>;
+  priority: EmailPriority;
+  status: EmailMessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;               // Set while an attempt is in progress
+  lastError?: string;
+  provider?: string;
+  providerMessageId?: string;
+  sentAt?: Date;
+  expiresAt?: Date;                 // Set once the message is finished
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailMessageSchema = new Schema<IEmailMessage>(
+  {
+    to: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      lowercase: true,
+      trim: true,
+    },
+    toName: { type: String },
+    from: { type: String },
+    replyTo: { type: String },
+    cc: [{ type: String }],
+    bcc: [{ type: String }],
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+    },
+    html: {
+      type: String,
+      required: [true, 'HTML body is required'],
+    },
+    text: { type: String },
+    headers: { type: Schema.Types.Mixed },
+    tags: [{ type: String }],
+    attachments: [
+      {
+        _id: false,
+        filename: { type: String, required: true },
+        content: { type: String, required: true },
+        contentType: { type: String },
+        encoding: { type: String, enum: ['base64', 'utf8'] },
+      },
+    ],
+    priority: {
+      type: String,
+      enum: ['high', 'normal'],
+      default: 'normal',
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'sending', 'sent', 'failed', 'suppressed'],
+      default: 'queued',
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date },
+    lastError: { type: String },
+    provider: { type: String },
+    providerMessageId: { type: String },
+    sentAt: { type: Date },
+    expiresAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Queue polling ('high' sorts before 'normal'), per-recipient rate limits
+EmailMessageSchema.index({ status: 1, priority: 1, nextAttemptAt: 1 });
+EmailMessageSchema.index({ to: 1, status: 1, sentAt: -1 });
+EmailMessageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export function getEmailMessageModel(): Model<IEmailMessage> {
+  const modelName = 'EmailMessage';
+  return mongoose.models[modelName] || mongoose.model<IEmailMessage>(modelName, EmailMessageSchema);
+}
+
+export const EmailMessageModel = getEmailMessageModel();
+
+export default EmailMessageModel;
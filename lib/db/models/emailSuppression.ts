@@ -0,0 +1,58 @@
+/**
+ * EmailSuppression Model - Addresses the app stops sending to
+ *
+ * One record per address that has bounced or complained. Hard bounces and
+ * complaints suppress the address straight away; soft bounces (full mailbox,
+ * temporary rejection) only once they've repeated. See lib/email/suppression.ts.
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import type { EmailSuppressionReason } from '../../email/types';
+
+export interface IEmailSuppression extends Document {
+  _id: Types.ObjectId;
+  email: string;                    // Lowercased
+  suppressed: boolean;
+  reason: EmailSuppressionReason;   // The most recent event
+  softBounceCount: number;
+  details?: string;
+  lastEventAt: Date;
+  suppressedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailSuppressionSchema = new Schema<IEmailSuppression>(
+  {
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    suppressed: { type: Boolean, default: false },
+    reason: {
+      type: String,
+      enum: ['hard_bounce', 'soft_bounce', 'complaint'],
+      required: [true, 'Reason is required'],
+    },
+    softBounceCount: { type: Number, default: 0 },
+    details: { type: String },
+    lastEventAt: { type: Date, default: Date.now },
+    suppressedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export function getEmailSuppressionModel(): Model<IEmailSuppression> {
+  const modelName = 'EmailSuppression';
+  return mongoose.models[modelName] || mongoose.model<IEmailSuppression>(modelName, EmailSuppressionSchema);
+}
+
+export const EmailSuppressionModel = getEmailSuppressionModel();
+
+export default EmailSuppressionModel;
@@ -0,0 +1,176 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Scheduled job models
+ *
+ * JobLock: One document per job name. A run holds the lock until it finishes
+ * (or the lock expires, in case the process died), so overlapping cron calls
+ * and manual triggers never run the same job concurrently.
+ *
+ * JobRun: History of every run attempt, including skipped ones. The
+ * idempotencyKey ties a run to its period (e.g. "reminders:2024-03-01"), so a
+ * job that already succeeded for the current period is not run again unless
+ * forced.
+ */
+
+// Job run status values
+export enum JobRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  SKIPPED = 'skipped',
+}
+
+// What started a run
+export enum JobTrigger {
+  CRON = 'cron',
+  MANUAL = 'manual',   // Admin endpoint
+  CLI = 'cli',         // scripts/run-jobs.ts
+}
+
+// JobLock Schema
+const JobLockSchema = new Schema({
+  // Job name
+  _id: {
+    type: String,
+    required: true,
+  },
+
+  // Run currently holding the lock
+  runId: {
+    type: Schema.Types.ObjectId,
+    ref: 'JobRun',
+  },
+
+  lockedAt: {
+    type: Date,
+  },
+
+  // Lock is considered abandoned after this time
+  lockedUntil: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// JobRun Schema
+const JobRunSchema = new Schema({
+  job: {
+    type: String,
+    required: true,
+  },
+
+  status: {
+    type: String,
+    enum: Object.values(JobRunStatus),
+    required: true,
+    default: JobRunStatus.RUNNING,
+  },
+
+  trigger: {
+    type: String,
+    enum: Object.values(JobTrigger),
+    required: true,
+  },
+
+  // Admin who triggered a manual run
+  triggeredBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+
+  // Job name plus period, e.g. "reminders:2024-03-01"
+  idempotencyKey: {
+    type: String,
+    required: true,
+  },
+
+  forced: {
+    type: Boolean,
+    default: false,
+  },
+
+  startedAt: {
+    type: Date,
+    required: true,
+  },
+
+  finishedAt: {
+    type: Date,
+  },
+
+  durationMs: {
+    type: Number,
+  },
+
+  // Job-specific summary (counts, etc.)
+  result: {
+    type: Schema.Types.Mixed,
+  },
+
+  error: {
+    type: String,
+  },
+
+  // Why a run was skipped
+  skipReason: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+});
+
+// Run history per job, newest first
+JobRunSchema.index({ job: 1, startedAt: -1 });
+
+// Idempotency check
+JobRunSchema.index({ idempotencyKey: 1, status: 1 });
+
+// Keep 90 days of history
+JobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+// Document interfaces
+export interface JobLockDocument extends Omit<Document, '_id'> {
+  _id: string;
+  runId?: mongoose.Types.ObjectId;
+  lockedAt?: Date;
+  lockedUntil: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobRunDocument extends Document {
+  job: string;
+  status: JobRunStatus;
+  trigger: JobTrigger;
+  triggeredBy?: mongoose.Types.ObjectId;
+  idempotencyKey: string;
+  forced: boolean;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: Record<string, unknown>;
+  error?: string;
+  skipReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Model getters
+export function getJobLockModel(): Model<JobLockDocument> {
+  const modelName = 'JobLock';
+  return mongoose.models[modelName] || mongoose.model<JobLockDocument>(modelName, JobLockSchema);
+}
+
+export function getJobRunModel(): Model<JobRunDocument> {
+  const modelName = 'JobRun';
+  return mongoose.models[modelName] || mongoose.model<JobRunDocument>(modelName, JobRunSchema);
+}
+
+export const JobLock = getJobLockModel();
+export const JobRun = getJobRunModel();
+
+const jobExports = { JobLock, JobRun, getJobLockModel, getJobRunModel };
+export default jobExports;
@@ -0,0 +1,157 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Pool ledger
+ *
+ * Every money movement in a pool is recorded as one balanced entry: its lines'
+ * debits and credits always add up to the same amount. Entries are never
+ * edited; mistakes are fixed with an adjustment or refund entry, and a
+ * contribution that is undone or disputed is cancelled by a reversal entry.
+ *
+ * Accounts (per pool):
+ * - pool_cash: money the pool is holding
+ * - member: a member's stake (credited by contributions, debited by payouts,
+ *   refunds, reversals, and late fees); lines carry the memberId
+ * - fees: late fees charged to members
+ * - adjustments: the other side of manual corrections
+ *
+ * sourceKey identifies the real-world event (e.g. a member's contribution for a
+ * round), so recording the same event twice from different code paths or a
+ * repair run is a no-op.
+ */
+
+export enum LedgerEntryType {
+  CONTRIBUTION = 'contribution',
+  PAYOUT = 'payout',
+  LATE_FEE = 'late_fee',
+  REFUND = 'refund',
+  REVERSAL = 'reversal',
+  ADJUSTMENT = 'adjustment',
+}
+
+export enum LedgerAccount {
+  POOL_CASH = 'pool_cash',
+  MEMBER = 'member',
+  FEES = 'fees',
+  ADJUSTMENTS = 'adjustments',
+}
+
+// Where an entry was recorded from
+export enum LedgerSource {
+  ROUND_PAYMENT = 'round_payment',
+  POOL_TRANSACTION = 'pool_transaction',
+  PAYMENT = 'payment',
+  LATE_POLICY = 'late_policy',
+  MANUAL = 'manual',
+  REPAIR = 'repair',
+}
+
+export interface ILedgerLine {
+  account: LedgerAccount;
+  memberId?: number;
+  debit: number;
+  credit: number;
+}
+
+export interface ILedgerEntry extends Document {
+  entryId: string;
+  poolId: string;
+  type: LedgerEntryType;
+  cycle: number;
+  round?: number;
+  memberId?: number;
+  amount: number;
+  description: string;
+  lines: ILedgerLine[];
+  sourceKey: string;
+  source: LedgerSource;
+  sourceRef?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  occurredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LedgerLineSchema = new Schema<ILedgerLine>(
+  {
+    account: {
+      type: String,
+      enum: Object.values(LedgerAccount),
+      required: true,
+    },
+    memberId: { type: Number },
+    debit: { type: Number, min: 0, default: 0 },
+    credit: { type: Number, min: 0, default: 0 },
+  },
+  { _id: false }
+);
+
+const LedgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    entryId: { type: String, required: true, unique: true },
+    poolId: { type: String, required: true },
+    type: {
+      type: String,
+      enum: Object.values(LedgerEntryType),
+      required: true,
+    },
+    cycle: { type: Number, default: 0 },
+    round: { type: Number },
+    memberId: { type: Number },
+    amount: { type: Number, required: true, min: 0.01 },
+    description: { type: String, required: true, maxlength: 500 },
+    lines: {
+      type: [LedgerLineSchema],
+      validate: {
+        validator: (lines: ILedgerLine[]) => lines.length >= 2,
+        message: 'A ledger entry needs at least two lines',
+      },
+    },
+    sourceKey: { type: String, required: true },
+    source: {
+      type: String,
+      enum: Object.values(LedgerSource),
+      required: true,
+    },
+    sourceRef: { type: String },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    occurredAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Reject entries whose debits and credits don't match (compared in cents)
+LedgerEntrySchema.pre('validate', function (next) {
+  const toCents = (value: number) => Math.round((value || 0) * 100);
+  const debits = this.lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+  const credits = this.lines.reduce((sum, line) => sum + toCents(line.credit), 0);
+
+  if (debits !== credits || debits !== toCents(this.amount)) {
+    next(new Error(`Unbalanced ledger entry: debits ${debits / 100}, credits ${credits / 100}, amount ${this.amount}`));
+    return;
+  }
+  next();
+});
+
+// Indexes
+LedgerEntrySchema.index({ poolId: 1, sourceKey: 1 }, { unique: true });
+LedgerEntrySchema.index({ poolId: 1, occurredAt: -1 });
+LedgerEntrySchema.index({ poolId: 1, memberId: 1 });
+
+export function getLedgerEntryModel(): Model<ILedgerEntry> {
+  const modelName = 'LedgerEntry';
+  return mongoose.models[modelName] || mongoose.model<ILedgerEntry>(modelName, LedgerEntrySchema);
+}
+
+export const LedgerEntry = getLedgerEntryModel();
+
+const ledgerEntryExports = {
+  LedgerEntry,
+  getLedgerEntryModel,
+  LedgerEntryType,
+  LedgerAccount,
+  LedgerSource,
+};
+export default ledgerEntryExports;
@@ -66,6 +66,19 @@ const NotificationPreferenceSchema = new Schema({
     default: () => ({}),
   },
 
+  // Default delivery frequency (per-type frequency overrides this for reminders)
+  digestFrequency: {
+    type: String,
+    enum: Object.values(NotificationFrequency),
+    default: NotificationFrequency.IMMEDIATE,
+  },
+
+  // When each digest was last sent
+  lastDigestSentAt: {
+    daily: { type: Date },
+    weekly: { type: Date },
+  },
+
   // Email-specific settings
   email: {
     enabled: { type: Boolean, default: true },
@@ -131,6 +144,11 @@ export interface NotificationPreferenceDocument extends Document {
     endHour: number;
     timezone: string;
   };
+  digestFrequency: NotificationFrequency;
+  lastDigestSentAt?: {
+    daily?: Date;
+    weekly?: Date;
+  };
   email: {
     enabled: boolean;
     address?: string;
@@ -187,13 +205,29 @@ export function isPoolMuted(
   return false;
 }
 
-// Helper function to check if we're in quiet hours
-export function isInQuietHours(preferences: NotificationPreferenceDocument): boolean {
+// Helper to get the hour of day (0-23) in an IANA timezone
+export function getHourInTimezone(date: Date, timezone?: string): number {
+  try {
+    const hour = new Intl.DateTimeFormat('en-US', {
+      hour: 'numeric',
+      hourCycle: 'h23',
+      timeZone: timezone,
+    }).format(date);
+    return parseInt(hour, 10);
+  } catch {
+    // Unknown timezone - fall back to UTC
+    return date.getUTCHours();
+  }
+}
+
+// Helper function to check if we're in quiet hours (in the user's timezone)
+export function isInQuietHours(
+  preferences: NotificationPreferenceDocument,
+  now: Date = new Date()
+): boolean {
   if (!preferences.quietHours?.enabled) return false;
 
-  const now = new Date();
-  // Simple hour check - in production, use proper timezone library
-  const currentHour = now.getHours();
+  const currentHour = getHourInTimezone(now, preferences.quietHours.timezone);
   const { startHour, endHour } = preferences.quietHours;
 
   // Handle quiet hours that span midnight
@@ -206,6 +240,31 @@ export function isInQuietHours(preferences: NotificationPreferenceDocument): boo
   }
 }
 
+// Helper to get how often a notification should be delivered
+// A per-type digest/none setting wins, otherwise the user's default applies
+export function getNotificationFrequency(
+  preferences: NotificationPreferenceDocument,
+  reminderType?: ReminderType
+): NotificationFrequency {
+  const typeFrequency = reminderType
+    ? preferences.typePreferences?.[reminderType]?.frequency
+    : undefined;
+
+  if (typeFrequency && typeFrequency !== NotificationFrequency.IMMEDIATE) {
+    return typeFrequency;
+  }
+
+  return preferences.digestFrequency || NotificationFrequency.IMMEDIATE;
+}
+
+// Helper to check if a frequency bundles notifications into a digest
+export function isDigestFrequency(
+  frequency: NotificationFrequency
+): frequency is NotificationFrequency.DAILY_DIGEST | NotificationFrequency.WEEKLY_DIGEST {
+  return frequency === NotificationFrequency.DAILY_DIGEST ||
+    frequency === NotificationFrequency.WEEKLY_DIGEST;
+}
+
 // Helper function to get effective channels for a reminder type
 export function getEffectiveChannels(
   preferences: NotificationPreferenceDocument,
@@ -252,6 +311,7 @@ export function createDefaultPreferences(userId: mongoose.Types.ObjectId): Parti
       endHour: 8,
       timezone: 'America/New_York',
     },
+    digestFrequency: NotificationFrequency.IMMEDIATE,
     email: {
       enabled: true,
       verified: false,
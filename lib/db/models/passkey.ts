@@ -0,0 +1,79 @@
+/**
+ * Passkey Model - WebAuthn credentials registered to a user
+ *
+ * A passkey can be used as the user's second factor (twoFactorAuth.method
+ * 'passkey') or on its own as a passwordless sign-in. Only the public key is
+ * stored; the private key never leaves the user's authenticator.
+ *
+ * Data Flow:
+ * 1. Settings: the browser creates a credential against a stored challenge,
+ *    and lib/security/passkeys.ts verifies and saves it here
+ * 2. Sign-in / MFA: an assertion is verified against publicKey, and counter
+ *    and lastUsedAt are updated
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export interface IPasskey extends Document {
+  _id: Types.ObjectId;
+  credentialId: string;             // base64url, as sent by the browser
+  userId: string;                   // User's MongoDB _id
+  publicKey: string;                // base64url COSE public key
+  counter: number;                  // Signature counter, checked for cloned authenticators
+  transports: string[];
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  aaguid?: string;                  // Identifies the authenticator model
+  name: string;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PasskeySchema = new Schema<IPasskey>(
+  {
+    credentialId: {
+      type: String,
+      required: [true, 'Credential ID is required'],
+      unique: true,
+    },
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    publicKey: {
+      type: String,
+      required: [true, 'Public key is required'],
+    },
+    counter: { type: Number, default: 0 },
+    transports: [{ type: String }],
+    deviceType: {
+      type: String,
+      enum: ['singleDevice', 'multiDevice'],
+      default: 'singleDevice',
+    },
+    backedUp: { type: Boolean, default: false },
+    aaguid: { type: String },
+    name: {
+      type: String,
+      required: [true, 'Passkey name is required'],
+      trim: true,
+      maxlength: [60, 'Passkey name cannot exceed 60 characters'],
+    },
+    lastUsedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export function getPasskeyModel(): Model<IPasskey> {
+  const modelName = 'Passkey';
+  return mongoose.models[modelName] || mongoose.model<IPasskey>(modelName, PasskeySchema);
+}
+
+export const PasskeyModel = getPasskeyModel();
+
+export default PasskeyModel;
@@ -0,0 +1,59 @@
+/**
+ * PasskeyChallenge Model - Outstanding WebAuthn challenges
+ *
+ * Each registration or sign-in ceremony gets a random challenge that the
+ * authenticator signs. It's stored here until the browser's response comes
+ * back, then deleted so it can't be replayed. Passwordless sign-in challenges
+ * have no userId, since the user isn't known until the passkey answers.
+ *
+ * Records expire (TTL) shortly after the ceremony's timeout.
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export type PasskeyChallengePurpose = 'registration' | 'mfa' | 'sign_in';
+
+export interface IPasskeyChallenge extends Document {
+  _id: Types.ObjectId;
+  challenge: string;                // base64url
+  purpose: PasskeyChallengePurpose;
+  userId?: string;                  // Set for registration and MFA
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PasskeyChallengeSchema = new Schema<IPasskeyChallenge>(
+  {
+    challenge: {
+      type: String,
+      required: [true, 'Challenge is required'],
+      unique: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['registration', 'mfa', 'sign_in'],
+      required: [true, 'Challenge purpose is required'],
+    },
+    userId: { type: String },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+PasskeyChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export function getPasskeyChallengeModel(): Model<IPasskeyChallenge> {
+  const modelName = 'PasskeyChallenge';
+  return mongoose.models[modelName] || mongoose.model<IPasskeyChallenge>(modelName, PasskeyChallengeSchema);
+}
+
+export const PasskeyChallengeModel = getPasskeyChallengeModel();
+
+export default PasskeyChallengeModel;
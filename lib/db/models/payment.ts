@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { TransactionStatus, TransactionType, PaymentMethodType } from '../../../types/payment';
+import { toMinorUnits } from '../../currency';
 
 /**
  * Payment record schema for storing payment transactions with Stripe integration
@@ -35,12 +36,15 @@ const PaymentSchema = new Schema({
     min: 0.01
   },
 
-  // Currency code
+  // Currency code (the pool's currency for contributions and payouts)
   currency: {
     type: String,
     default: 'USD'
   },
 
+  // amount in integer minor units (cents), kept in sync on save
+  amountMinor: { type: Number },
+
   // Payment method used
   paymentMethodId: { type: Number },
 
@@ -66,6 +70,9 @@ const PaymentSchema = new Schema({
   // Round number (for pool contributions)
   round: { type: Number },
 
+  // Pool cycle, stamped when the pool starts its next cycle
+  cycle: { type: Number },
+
   // Stripe-specific fields
   stripePaymentIntentId: {
     type: String,
@@ -116,6 +123,12 @@ const PaymentSchema = new Schema({
   timestamps: true
 });
 
+// Store the amount in minor units too, so totals can be added as integers
+PaymentSchema.pre('validate', function (next) {
+  this.amountMinor = toMinorUnits(this.amount, this.currency);
+  next();
+});
+
 // Compound indexes for common queries
 PaymentSchema.index({ poolId: 1, status: 1 });
 PaymentSchema.index({ userId: 1, status: 1 });
@@ -127,12 +140,14 @@ export interface PaymentDocument extends Document {
   poolId: string;
   amount: number;
   currency: string;
+  amountMinor?: number;
   paymentMethodId?: number;
   type: TransactionType;
   status: TransactionStatus;
   description?: string;
   member?: string;
   round?: number;
+  cycle?: number;
   stripePaymentIntentId?: string;
   stripeSessionId?: string;
   stripeCaptureId?: string;
@@ -1,5 +1,8 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import { Pool as PoolType, PoolStatus, PoolMemberStatus, PoolMemberRole, TransactionType } from '../../../types/pool';
+import { SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from '../../../types/currency';
+import { toMinorUnits } from '../../currency';
+import { validateContributionAmount } from '../../pools/tiers';
+import { Pool as PoolType, PoolStatus, PoolMemberStatus, PoolMemberRole, TransactionType, PayoutOrderStrategy, PoolTier, PayoutSwapStatus, ScheduleAnchorType, HolidayRule, LifecycleProposalAction, LifecycleProposalStatus, MemberExitStatus, MemberDebtStatus } from '../../../types/pool';
 
 // Zelle QR code data schema
 const ZelleQRSchema = new Schema({
@@ -64,6 +67,8 @@ const PoolMemberSchema = new Schema({
   avatar: { type: String },
   // Member's payout methods (for when they win the pot)
   payoutMethods: { type: MemberPayoutMethodsSchema },
+  // Departed member whose position this member took over
+  replacesMemberId: { type: Number },
 });
 
 // Transaction schema
@@ -79,6 +84,7 @@ const PoolTransactionSchema = new Schema({
   member: { type: String, required: true },
   status: { type: String, required: true },
   round: { type: Number }, // Track which round this transaction belongs to
+  cycle: { type: Number }, // Stamped when the pool starts its next cycle
   stripePaymentIntentId: { type: String },
   stripeTransferId: { type: String },
   // Early payout tracking fields
@@ -97,6 +103,218 @@ const PoolMessageSchema = new Schema({
   date: { type: String, required: true },
 });
 
+// Seeded payout-order draw (seed stays hidden until the draw is run)
+const PayoutDrawSchema = new Schema({
+  seedHash: { type: String, required: true },
+  seed: { type: String, select: false },
+  drawnAt: { type: String },
+  drawnBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  memberIds: [{ type: Number }],
+  order: [{ type: Number }],
+}, { _id: false });
+
+// Member-to-member position swap request
+const PayoutSwapRequestSchema = new Schema({
+  id: { type: String, required: true },
+  requesterId: { type: Number, required: true },
+  requesterName: { type: String },
+  requesterPosition: { type: Number, required: true },
+  targetId: { type: Number, required: true },
+  targetName: { type: String },
+  targetPosition: { type: Number, required: true },
+  reason: { type: String, maxlength: 500 },
+  status: {
+    type: String,
+    enum: Object.values(PayoutSwapStatus),
+    default: PayoutSwapStatus.PENDING
+  },
+  createdAt: { type: String, required: true },
+  respondedAt: { type: String },
+  respondedBy: { type: Number },
+}, { _id: false });
+
+// Discount bid for a round's pot
+const PayoutBidSchema = new Schema({
+  round: { type: Number, required: true },
+  memberId: { type: Number, required: true },
+  memberName: { type: String },
+  discountAmount: { type: Number, required: true, min: 0 },
+  won: { type: Boolean, default: false },
+  createdAt: { type: String, required: true },
+}, { _id: false });
+
+// Late/missed payment policy, counted in days from the payment's due date
+const LatePolicySchema = new Schema({
+  gracePeriodDays: { type: Number, min: 0, default: 1 },
+  missedAfterDays: { type: Number, min: 1, default: 7 },
+  lateFeeAmount: { type: Number, min: 0, default: 0 },
+}, { _id: false });
+
+// Round date rules (lib/schedule)
+const ScheduleSchema = new Schema({
+  timezone: { type: String, default: 'UTC' },
+  anchor: {
+    type: String,
+    enum: Object.values(ScheduleAnchorType),
+    default: ScheduleAnchorType.INTERVAL
+  },
+  weekday: { type: Number, min: 0, max: 6 },
+  weekOfMonth: { type: Number, min: -1, max: 4 },
+  monthDays: [{ type: Number, min: -1, max: 31 }],
+  holidays: [{ type: String }],
+  holidayRule: {
+    type: String,
+    enum: Object.values(HolidayRule),
+    default: HolidayRule.NONE
+  },
+  contributionLeadDays: { type: Number, min: 0, default: 0 },
+}, { _id: false });
+
+// Where the remaining schedule starts over after a pause
+const ScheduleRestartSchema = new Schema({
+  round: { type: Number, required: true, min: 1 },
+  startDate: { type: Date, required: true },
+}, { _id: false });
+
+// Member vote on a resume or cancel proposal
+const LifecycleVoteSchema = new Schema({
+  memberId: { type: Number, required: true },
+  memberName: { type: String },
+  approve: { type: Boolean, required: true },
+  votedAt: { type: String, required: true },
+}, { _id: false });
+
+const LifecycleProposalSchema = new Schema({
+  id: { type: String, required: true },
+  action: {
+    type: String,
+    enum: Object.values(LifecycleProposalAction),
+    required: true
+  },
+  proposedBy: { type: Number, required: true },
+  proposedByName: { type: String },
+  reason: { type: String, maxlength: 500 },
+  status: {
+    type: String,
+    enum: Object.values(LifecycleProposalStatus),
+    default: LifecycleProposalStatus.PENDING
+  },
+  votes: [LifecycleVoteSchema],
+  createdAt: { type: String, required: true },
+  resolvedAt: { type: String },
+}, { _id: false });
+
+const PoolStatusChangeSchema = new Schema({
+  from: { type: String, enum: Object.values(PoolStatus), required: true },
+  to: { type: String, enum: Object.values(PoolStatus), required: true },
+  changedBy: { type: String, required: true },
+  reason: { type: String, maxlength: 500 },
+  proposalId: { type: String },
+  date: { type: String, required: true },
+}, { _id: false });
+
+const SettlementMemberSchema = new Schema({
+  memberId: { type: Number, required: true },
+  name: { type: String },
+  contributed: { type: Number, default: 0 },
+  received: { type: Number, default: 0 },
+  fees: { type: Number, default: 0 },
+  adjustments: { type: Number, default: 0 },
+  net: { type: Number, default: 0 },
+}, { _id: false });
+
+const SettlementTransferSchema = new Schema({
+  fromMemberId: { type: Number, default: null },
+  fromName: { type: String },
+  toMemberId: { type: Number, required: true },
+  toName: { type: String },
+  amount: { type: Number, required: true },
+}, { _id: false });
+
+// Refunds and collections worked out when a pool is cancelled
+const SettlementPlanSchema = new Schema({
+  generatedAt: { type: String, required: true },
+  poolCash: { type: Number, default: 0 },
+  refundsOwed: { type: Number, default: 0 },
+  collectionsOwed: { type: Number, default: 0 },
+  shortfall: { type: Number, default: 0 },
+  members: [SettlementMemberSchema],
+  transfers: [SettlementTransferSchema],
+}, { _id: false });
+
+// Departing member's standing, from the ledger
+const MemberNetPositionSchema = new Schema({
+  contributed: { type: Number, default: 0 },
+  received: { type: Number, default: 0 },
+  fees: { type: Number, default: 0 },
+  adjustments: { type: Number, default: 0 },
+  net: { type: Number, default: 0 },
+}, { _id: false });
+
+// What a member who left after receiving the pot still owes
+const MemberDebtSchema = new Schema({
+  amount: { type: Number, required: true, min: 0 },
+  status: {
+    type: String,
+    enum: Object.values(MemberDebtStatus),
+    default: MemberDebtStatus.OUTSTANDING
+  },
+  recordedAt: { type: String, required: true },
+  resolvedAt: { type: String },
+  resolvedBy: { type: String },
+  notes: { type: String, maxlength: 500 },
+}, { _id: false });
+
+const MemberExitReplacementSchema = new Schema({
+  memberId: { type: Number, required: true },
+  name: { type: String, required: true },
+  email: { type: String, required: true, lowercase: true },
+  invitedAt: { type: String, required: true },
+  catchUpAmount: { type: Number, default: 0 },
+  catchUpReceivedAt: { type: String },
+}, { _id: false });
+
+// Member leaving mid-cycle (lib/pools/exits.ts)
+const MemberExitSchema = new Schema({
+  id: { type: String, required: true },
+  memberId: { type: Number, required: true },
+  memberName: { type: String, required: true },
+  memberEmail: { type: String, lowercase: true },
+  position: { type: Number, required: true },
+  payoutReceived: { type: Boolean, default: false },
+  reason: { type: String, maxlength: 500 },
+  exitedAt: { type: String, required: true },
+  recordedBy: { type: String, required: true },
+  status: {
+    type: String,
+    enum: Object.values(MemberExitStatus),
+    required: true
+  },
+  netPosition: { type: MemberNetPositionSchema, required: true },
+  refundOwed: { type: Number, default: 0 },
+  refundPaidAt: { type: String },
+  debt: { type: MemberDebtSchema },
+  replacement: { type: MemberExitReplacementSchema },
+}, { _id: false });
+
+// A member's opt-in or opt-out for the next cycle
+const CycleEnrollmentResponseSchema = new Schema({
+  memberId: { type: Number, required: true },
+  memberName: { type: String },
+  optIn: { type: Boolean, required: true },
+  respondedAt: { type: String, required: true },
+}, { _id: false });
+
+// Next-cycle enrollment, open between cycles
+const CycleEnrollmentSchema = new Schema({
+  cycle: { type: Number, required: true },
+  openedAt: { type: String, required: true },
+  openedBy: { type: String },
+  startDate: { type: String },
+  previousMemberIds: [{ type: Number }],
+  responses: [CycleEnrollmentResponseSchema],
+}, { _id: false });
+
 // Main Pool schema
 const PoolSchema = new Schema({
   id: { type: String, unique: true, sparse: true },
@@ -114,7 +332,23 @@ const PoolSchema = new Schema({
     default: PoolStatus.ACTIVE
   },
   totalAmount: { type: Number, default: 0 },
-  contributionAmount: { type: Number, required: true, min: 1, max: 20 },
+  // Chosen at creation; every amount in the pool is in this currency
+  currency: {
+    type: String,
+    enum: SUPPORTED_CURRENCIES,
+    default: DEFAULT_CURRENCY,
+    immutable: true
+  },
+  // Sets the contribution limit and payout safeguards (lib/pools/tiers.ts)
+  tier: {
+    type: String,
+    enum: Object.values(PoolTier),
+    default: PoolTier.STANDARD
+  },
+  // Limits depend on the currency and tier (checked in the pre-validate hook below)
+  contributionAmount: { type: Number, required: true },
+  // contributionAmount in integer minor units (cents), kept in sync on save
+  contributionAmountMinor: { type: Number },
   frequency: { type: String, required: true },
   startDate: { type: Date },
   currentRound: { type: Number, default: 0 },
@@ -173,6 +407,9 @@ const PoolSchema = new Schema({
     reminderSentAt: { type: Date },
     reminderCount: { type: Number, default: 0 },
     dueDate: { type: Date },
+    lateAt: { type: Date },
+    missedAt: { type: Date },
+    lateFee: { type: Number, min: 0 },
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now }
   }],
@@ -189,7 +426,42 @@ const PoolSchema = new Schema({
     enum: ['venmo', 'cashapp', 'paypal', 'zelle', 'cash', 'other']
   },
   currentRoundPayoutNotes: { type: String },
-  currentRoundPayoutConfirmedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  currentRoundPayoutConfirmedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  // Escrow hold starts when the last payment is verified
+  currentRoundReadyAt: { type: Date },
+  // Co-signing admin, for tiers that need one
+  currentRoundPayoutApprovedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  currentRoundPayoutApprovedAt: { type: Date },
+
+  // Payout order strategy (chosen at creation)
+  payoutOrderStrategy: {
+    type: String,
+    enum: Object.values(PayoutOrderStrategy),
+    default: PayoutOrderStrategy.FIXED
+  },
+  payoutDraw: { type: PayoutDrawSchema },
+  payoutSwapRequests: [PayoutSwapRequestSchema],
+  payoutBids: [PayoutBidSchema],
+
+  // Applied by the late-payments job (lib/payments/late-policy.ts)
+  latePolicy: { type: LatePolicySchema },
+
+  // Round dates are derived from startDate, frequency, and these rules
+  schedule: { type: ScheduleSchema },
+  scheduleRestarts: [ScheduleRestartSchema],
+
+  // Pause, resume, and cancellation (lib/pools/lifecycle.ts)
+  pausedAt: { type: Date },
+  cancelledAt: { type: Date },
+  lifecycleProposals: [LifecycleProposalSchema],
+  statusHistory: [PoolStatusChangeSchema],
+  settlementPlan: { type: SettlementPlanSchema },
+
+  // Re-confirmation for the next cycle (lib/pools/cycles.ts)
+  nextCycleEnrollment: { type: CycleEnrollmentSchema },
+
+  // Members who left mid-cycle, with what they owe or are owed
+  memberExits: [MemberExitSchema]
 }, {
   timestamps: true
 });
@@ -203,6 +475,18 @@ PoolSchema.index({ 'members.userId': 1 });
 PoolSchema.index({ status: 1 });
 // Note: 'id' field already has an index from unique: true constraint
 
+// Check the contribution against the currency and tier limits and store it in minor units
+PoolSchema.pre('validate', function (next) {
+  if (this.isModified('contributionAmount') || this.isModified('currency') || this.isModified('tier')) {
+    const { error } = validateContributionAmount(this.contributionAmount, this.currency, this.tier);
+    if (error) {
+      this.invalidate('contributionAmount', error, this.contributionAmount);
+    }
+  }
+  this.contributionAmountMinor = toMinorUnits(this.contributionAmount, this.currency);
+  next();
+});
+
 // Virtual for active member count
 PoolSchema.virtual('activeMemberCount').get(function() {
   return this.members.filter(
@@ -0,0 +1,112 @@
+/**
+ * PoolAnalytics Model - Precomputed analytics rollups for a pool
+ *
+ * Charts on the analytics dashboard used to be derived in the browser from the
+ * whole Pool document. Instead, per-round collection stats and per-member
+ * contribution histories are rolled up here from the ledger and the round
+ * archive whenever payments change, and the analytics APIs read from them.
+ *
+ * Data Flow:
+ * 1. A ledger entry is posted, or the late policy marks payments late or missed
+ * 2. refreshPoolRollups() (lib/analytics/rollups.ts) rebuilds the pool's rollups
+ * 3. /api/pools/[id]/analytics and /api/analytics filter them by timeframe
+ *
+ * Rollups can always be rebuilt from the ledger, so a missing one is
+ * recomputed on read.
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import type { RoundRollup, MemberRollup } from '../../../types/analytics';
+
+export interface IPoolAnalytics extends Document {
+  _id: Types.ObjectId;
+  poolId: string;                   // Pool's public id (pool.id)
+  rounds: RoundRollup[];
+  members: MemberRollup[];
+  computedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoundRollupSchema = new Schema<RoundRollup>(
+  {
+    cycle: { type: Number, required: true },
+    round: { type: Number, required: true },
+    dueDate: { type: String, default: null },
+    closed: { type: Boolean, default: false },
+    expected: { type: Number, default: 0 },
+    collected: { type: Number, default: 0 },
+    onTime: { type: Number, default: 0 },
+    late: { type: Number, default: 0 },
+    missed: { type: Number, default: 0 },
+    onTimeRate: { type: Number, default: null },
+    averageLatencyHours: { type: Number, default: null },
+    collectionLatencyHours: { type: Number, default: null },
+    payoutAmount: { type: Number, default: 0 },
+    payoutAt: { type: String, default: null },
+    outcomes: [
+      {
+        _id: false,
+        memberId: { type: Number, required: true },
+        outcome: { type: String, required: true },
+      },
+    ],
+  },
+  { _id: false }
+);
+
+const MemberRollupSchema = new Schema<MemberRollup>(
+  {
+    memberId: { type: Number, required: true },
+    name: { type: String, required: true },
+    contributions: [
+      {
+        _id: false,
+        cycle: { type: Number, required: true },
+        round: { type: Number, default: null },
+        amount: { type: Number, required: true },
+        date: { type: String, required: true },
+        latencyHours: { type: Number, default: null },
+      },
+    ],
+    payouts: [
+      {
+        _id: false,
+        cycle: { type: Number, required: true },
+        round: { type: Number, default: null },
+        amount: { type: Number, required: true },
+        date: { type: String, required: true },
+      },
+    ],
+  },
+  { _id: false }
+);
+
+const PoolAnalyticsSchema = new Schema<IPoolAnalytics>(
+  {
+    poolId: {
+      type: String,
+      required: [true, 'Pool ID is required'],
+      unique: true,
+    },
+    rounds: [RoundRollupSchema],
+    members: [MemberRollupSchema],
+    computedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export function getPoolAnalyticsModel(): Model<IPoolAnalytics> {
+  const modelName = 'PoolAnalytics';
+  return mongoose.models[modelName] || mongoose.model<IPoolAnalytics>(modelName, PoolAnalyticsSchema);
+}
+
+export const PoolAnalyticsModel = getPoolAnalyticsModel();
+
+export default PoolAnalyticsModel;
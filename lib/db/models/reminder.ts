@@ -189,9 +189,14 @@ const SentReminderSchema = new Schema({
   failureReason: { type: String },
   retryCount: { type: Number, default: 0 },
 
-  // External message ID (e.g., email message ID)
+  // External message ID (e.g., email message ID, Twilio message SID)
   externalMessageId: { type: String },
 
+  // Carrier delivery status reported back by the SMS provider
+  deliveryStatus: { type: String },
+  deliveryStatusUpdatedAt: { type: Date },
+  deliveryErrorCode: { type: String },
+
   // Was this reminder opened/read?
   openedAt: { type: Date },
 
@@ -203,6 +208,7 @@ const SentReminderSchema = new Schema({
 SentReminderSchema.index({ poolId: 1, round: 1, type: 1 });
 SentReminderSchema.index({ userId: 1, type: 1, sentAt: -1 });
 SentReminderSchema.index({ status: 1, sentAt: 1 });
+SentReminderSchema.index({ externalMessageId: 1 }, { sparse: true });
 // Unique index to prevent duplicate reminders for the same event
 SentReminderSchema.index(
   { scheduleId: 1, userId: 1, eventDate: 1, channel: 1 },
@@ -228,6 +234,9 @@ export interface SentReminderDocument extends Document {
   failureReason?: string;
   retryCount: number;
   externalMessageId?: string;
+  deliveryStatus?: string;
+  deliveryStatusUpdatedAt?: Date;
+  deliveryErrorCode?: string;
   openedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
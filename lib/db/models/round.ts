@@ -0,0 +1,226 @@
+/**
+ * Round Model - Archived history of each completed pool round
+ *
+ * The Pool document only tracks the live round (currentRoundPayments and the
+ * currentRoundPayout* fields), which are reset when the round advances. When a
+ * round closes, a snapshot of its payments, payout record, and transactions is
+ * written here so members can audit any past round.
+ *
+ * Data Flow:
+ * 1. Members confirm payments and admins verify them on the live round
+ * 2. The admin confirms the payout and advances the round
+ * 3. archiveRound() (lib/payments/rounds.ts) upserts the snapshot
+ * 4. /api/pools/[id]/rounds serves the archive
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import type { RoundStatus, PayoutStatus, PaymentStatus } from '../../payments/types';
+
+type ManualMethod = 'venmo' | 'cashapp' | 'paypal' | 'zelle' | 'cash' | 'other';
+
+// Archived contribution payment for a member
+export interface IRoundPaymentRecord {
+  memberId: number;
+  memberName?: string;
+  memberEmail?: string;
+  amount: number;
+  status: PaymentStatus;
+  memberConfirmedAt?: Date;
+  memberConfirmedVia?: ManualMethod;
+  adminVerifiedAt?: Date;
+  adminVerifiedBy?: Types.ObjectId;
+  adminNotes?: string;
+  reminderSentAt?: Date;
+  reminderCount: number;
+  dueDate?: Date;
+  lateAt?: Date;
+  missedAt?: Date;
+  lateFee?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Archived pool transaction belonging to the round
+export interface IRoundTransactionRecord {
+  id: number;
+  type: string;
+  amount: number;
+  date: string;
+  member: string;
+  status: string;
+  wasEarlyPayout?: boolean;
+}
+
+// TypeScript interface for Round document
+export interface IRound extends Document {
+  _id: Types.ObjectId;
+  poolId: string;                   // Pool's public id (pool.id)
+  cycle: number;                    // Pool cycle this round belongs to
+  roundNumber: number;
+  dueDate?: Date;
+
+  // Winner information (snapshot at close time)
+  winnerId?: number;                // Pool member id
+  winnerName?: string;
+  winnerEmail?: string;
+
+  // Financial details
+  currency?: string;                // The pool's currency; unset = USD
+  contributionAmount: number;
+  totalMembers: number;
+  potAmount: number;
+
+  // Status
+  status: RoundStatus;
+  payoutStatus: PayoutStatus;
+
+  // Payout record
+  payoutCompletedAt?: Date;
+  payoutMethod?: ManualMethod;
+  payoutNotes?: string;
+  payoutConfirmedBy?: Types.ObjectId;
+
+  // Collection stats
+  paymentsCollected: number;
+  paymentsVerified: number;
+  paymentsLate: number;
+  paymentsMissed: number;
+  paymentsExcused: number;
+  totalPaymentsExpected: number;
+  amountCollected: number;
+
+  payments: IRoundPaymentRecord[];
+  transactions: IRoundTransactionRecord[];
+
+  closedAt: Date;
+  closedBy?: Types.ObjectId;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoundPaymentRecordSchema = new Schema<IRoundPaymentRecord>(
+  {
+    memberId: { type: Number, required: true },
+    memberName: { type: String },
+    memberEmail: { type: String },
+    amount: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'member_confirmed', 'admin_verified', 'late', 'missed', 'excused'],
+      default: 'pending'
+    },
+    memberConfirmedAt: { type: Date },
+    memberConfirmedVia: {
+      type: String,
+      enum: ['venmo', 'cashapp', 'paypal', 'zelle', 'cash', 'other']
+    },
+    adminVerifiedAt: { type: Date },
+    adminVerifiedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    adminNotes: { type: String },
+    reminderSentAt: { type: Date },
+    reminderCount: { type: Number, default: 0 },
+    dueDate: { type: Date },
+    lateAt: { type: Date },
+    missedAt: { type: Date },
+    lateFee: { type: Number },
+    createdAt: { type: Date },
+    updatedAt: { type: Date }
+  },
+  { _id: false }
+);
+
+const RoundTransactionRecordSchema = new Schema<IRoundTransactionRecord>(
+  {
+    id: { type: Number, required: true },
+    type: { type: String, required: true },
+    amount: { type: Number, required: true },
+    date: { type: String, required: true },
+    member: { type: String, required: true },
+    status: { type: String, required: true },
+    wasEarlyPayout: { type: Boolean }
+  },
+  { _id: false }
+);
+
+// Round schema definition
+const RoundSchema = new Schema<IRound>(
+  {
+    poolId: {
+      type: String,
+      required: [true, 'Pool ID is required'],
+      index: true
+    },
+    cycle: {
+      type: Number,
+      default: 0
+    },
+    roundNumber: {
+      type: Number,
+      required: [true, 'Round number is required'],
+      min: [1, 'Round number must be at least 1']
+    },
+    dueDate: { type: Date },
+    winnerId: { type: Number },
+    winnerName: { type: String },
+    winnerEmail: { type: String, lowercase: true },
+    currency: { type: String },
+    contributionAmount: { type: Number, required: true },
+    totalMembers: { type: Number, required: true },
+    potAmount: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ['scheduled', 'active', 'collecting', 'ready_for_payout', 'paid', 'completed'],
+      default: 'completed'
+    },
+    payoutStatus: {
+      type: String,
+      enum: ['pending_collection', 'ready_to_pay', 'paid', 'completed'],
+      default: 'completed'
+    },
+    payoutCompletedAt: { type: Date },
+    payoutMethod: {
+      type: String,
+      enum: ['venmo', 'cashapp', 'paypal', 'zelle', 'cash', 'other', 'manual']
+    },
+    payoutNotes: { type: String },
+    payoutConfirmedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    paymentsCollected: { type: Number, default: 0 },
+    paymentsVerified: { type: Number, default: 0 },
+    paymentsLate: { type: Number, default: 0 },
+    paymentsMissed: { type: Number, default: 0 },
+    paymentsExcused: { type: Number, default: 0 },
+    totalPaymentsExpected: { type: Number, default: 0 },
+    amountCollected: { type: Number, default: 0 },
+    payments: [RoundPaymentRecordSchema],
+    transactions: [RoundTransactionRecordSchema],
+    closedAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    },
+    closedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  },
+  {
+    timestamps: true,
+    versionKey: false
+  }
+);
+
+// Indexes for efficient queries
+
+// One archive record per round per cycle (also the history listing order)
+RoundSchema.index({ poolId: 1, cycle: 1, roundNumber: 1 }, { unique: true });
+
+// Find rounds a member won across pools
+RoundSchema.index({ winnerEmail: 1, closedAt: -1 });
+
+// Create and export the model
+export function getRoundModel(): Model<IRound> {
+  const modelName = 'Round';
+  return mongoose.models[modelName] || mongoose.model<IRound>(modelName, RoundSchema);
+}
+
+export const RoundModel = getRoundModel();
+
+export default RoundModel;
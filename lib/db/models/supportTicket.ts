@@ -0,0 +1,193 @@
+/**
+ * SupportTicket Model - Persistent storage for help desk tickets
+ *
+ * Replaces the in-memory ticket store used by /api/support/tickets so tickets
+ * survive deploys and are shared across server instances.
+ *
+ * Responses are embedded as a threaded history on the ticket document, and
+ * SLA deadlines are stamped at creation time from the ticket priority
+ * (see lib/support/sla.ts). SLA status is derived on read, never stored.
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import { TicketStatus, TicketPriority, TicketCategory } from '../../../types/support';
+
+// Embedded response document
+export interface ITicketResponse {
+  _id: Types.ObjectId;
+  responseId: string;               // Public response ID (RES-XXXX)
+  message: string;
+  fromSupport: boolean;             // true if written by support staff
+  authorId?: string;                // User ID of the author (if signed in)
+  userName: string;                 // Display name of the author
+  attachments: string[];
+  createdAt: Date;
+}
+
+// TypeScript interface for SupportTicket document
+export interface ISupportTicket extends Document {
+  _id: Types.ObjectId;
+  ticketId: string;                 // Public ticket ID (TKT-XXXX)
+  userId?: string;                  // Requester user ID (absent for guests)
+  userName: string;
+  userEmail: string;
+  subject: string;
+  message: string;
+  category: TicketCategory;
+  priority: TicketPriority;
+  status: TicketStatus;
+
+  // Staff assignment
+  assignedTo?: string;              // Support staff user ID
+  assignedToName?: string;          // Cached staff name for display
+  assignedAt?: Date;
+
+  // SLA tracking
+  firstResponseDueAt: Date;
+  resolutionDueAt: Date;
+  firstRespondedAt?: Date;
+  resolvedAt?: Date;
+
+  attachments: string[];
+  responses: Types.DocumentArray<ITicketResponse & Document>;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TicketResponseSchema = new Schema<ITicketResponse>(
+  {
+    responseId: {
+      type: String,
+      required: true
+    },
+    message: {
+      type: String,
+      required: [true, 'Response message is required'],
+      trim: true,
+      maxlength: [5000, 'Response cannot exceed 5000 characters']
+    },
+    fromSupport: {
+      type: Boolean,
+      default: false
+    },
+    authorId: {
+      type: String
+    },
+    userName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    attachments: [{ type: String }],
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }
+);
+
+// SupportTicket schema definition
+const SupportTicketSchema = new Schema<ISupportTicket>(
+  {
+    ticketId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    userId: {
+      type: String,
+      index: true
+    },
+    userName: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    userEmail: {
+      type: String,
+      required: [true, 'Email is required'],
+      trim: true,
+      lowercase: true
+    },
+    subject: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [200, 'Subject cannot exceed 200 characters']
+    },
+    message: {
+      type: String,
+      required: [true, 'Message is required'],
+      maxlength: [5000, 'Message cannot exceed 5000 characters']
+    },
+    category: {
+      type: String,
+      enum: Object.values(TicketCategory),
+      default: TicketCategory.GENERAL
+    },
+    priority: {
+      type: String,
+      enum: Object.values(TicketPriority),
+      default: TicketPriority.NORMAL
+    },
+    status: {
+      type: String,
+      enum: Object.values(TicketStatus),
+      default: TicketStatus.OPEN
+    },
+    assignedTo: {
+      type: String
+    },
+    assignedToName: {
+      type: String
+    },
+    assignedAt: {
+      type: Date
+    },
+    firstResponseDueAt: {
+      type: Date,
+      required: true
+    },
+    resolutionDueAt: {
+      type: Date,
+      required: true
+    },
+    firstRespondedAt: {
+      type: Date
+    },
+    resolvedAt: {
+      type: Date
+    },
+    attachments: [{ type: String }],
+    responses: [TicketResponseSchema]
+  },
+  {
+    timestamps: true,
+    versionKey: false
+  }
+);
+
+// Indexes for efficient queries
+
+// Requester's ticket list (most recently updated first)
+SupportTicketSchema.index({ userId: 1, updatedAt: -1 });
+
+// Admin dashboard filtering
+SupportTicketSchema.index({ status: 1, updatedAt: -1 });
+SupportTicketSchema.index({ assignedTo: 1, status: 1 });
+
+// SLA sweeps for open tickets
+SupportTicketSchema.index({ status: 1, firstResponseDueAt: 1 });
+SupportTicketSchema.index({ status: 1, resolutionDueAt: 1 });
+
+// Create and export the model
+export function getSupportTicketModel(): Model<ISupportTicket> {
+  const modelName = 'SupportTicket';
+  return mongoose.models[modelName] || mongoose.model<ISupportTicket>(modelName, SupportTicketSchema);
+}
+
+export const SupportTicketModel = getSupportTicketModel();
+
+export default SupportTicketModel;
@@ -1,15 +1,18 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { TwoFactorMethod } from '../../../types/security';
 import { VerificationStatus, VerificationType, VerificationMethod } from '../../../types/identity';
+import { ReliabilityVisibility } from '../../../types/reliability';
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, Locale } from '../../../types/i18n';
 
-// Two-factor authentication schema (Email-only MFA)
+// Two-factor authentication schema. Passkeys themselves live in the Passkey collection.
 const TwoFactorSchema = new Schema({
   enabled: { type: Boolean, default: false },
-  method: { type: String, enum: ['app', 'email', 'totp'], default: 'email' },
+  method: { type: String, enum: ['app', 'email', 'totp', 'passkey'], default: 'email' },
   secret: { type: String },
   totpSecret: { type: String }, // For TOTP authenticator apps
   pendingTotpSecret: { type: String }, // Temporary secret during TOTP setup
-  backupCodes: [{ type: String }],
+  backupCodes: [{ type: String }], // scrypt hashes, see lib/security/backupCodes.ts
+  backupCodesGeneratedAt: { type: String },
   email: { type: String },
   lastUpdated: { type: String },
   verified: { type: Boolean, default: false },
@@ -54,6 +57,12 @@ const UserSchema = new Schema({
   name: { type: String, required: true },
   email: { type: String, required: true, unique: true },
   phone: { type: String },
+  // SMS: phone ownership verification and carrier opt-out (STOP/START)
+  phoneVerified: { type: Boolean, default: false },
+  phoneVerificationCode: { type: String }, // SHA-256 hash of the code texted to the user
+  phoneVerificationExpiry: { type: Date },
+  smsOptOut: { type: Boolean, default: false },
+  smsOptOutAt: { type: Date },
   createdAt: { type: Date, required: true, default: Date.now },
   lastLogin: { type: Date },
   avatar: { type: String },
@@ -150,6 +159,18 @@ const UserSchema = new Schema({
   },
   // Date of birth for KYC verification
   dateOfBirth: { type: String },
+  // How much of the user's reliability score admins of their other pools can see
+  reliabilityVisibility: {
+    type: String,
+    enum: Object.values(ReliabilityVisibility),
+    default: ReliabilityVisibility.SCORE
+  },
+  // Language for the app, emails, and reminders
+  language: {
+    type: String,
+    enum: SUPPORTED_LOCALES,
+    default: DEFAULT_LOCALE
+  },
   // Additional user metadata for KYC
   metadata: { type: Map, of: String },
   resetToken: String,
@@ -163,6 +184,7 @@ const UserSchema = new Schema({
 // Note: email already has unique: true which creates an index
 UserSchema.index({ pools: 1 }); // For pool membership lookups
 UserSchema.index({ provider: 1, providerId: 1 }); // For OAuth user lookups
+UserSchema.index({ phone: 1 }, { sparse: true }); // For inbound SMS lookups
 
 // Define the User document type
 export interface UserDocument extends Document {
@@ -170,6 +192,11 @@ export interface UserDocument extends Document {
   name: string;
   email: string;
   phone?: string;
+  phoneVerified?: boolean;
+  phoneVerificationCode?: string;
+  phoneVerificationExpiry?: Date;
+  smsOptOut?: boolean;
+  smsOptOutAt?: Date;
   createdAt: Date;
   lastLogin?: Date;
   avatar?: string;
@@ -191,6 +218,7 @@ export interface UserDocument extends Document {
     totpSecret?: string;
     pendingTotpSecret?: string;
     backupCodes?: string[];
+    backupCodesGeneratedAt?: string;
     email?: string;
     lastUpdated?: string;
     verified: boolean;
@@ -252,6 +280,8 @@ export interface UserDocument extends Document {
     country?: string;
   };
   dateOfBirth?: string;
+  reliabilityVisibility?: ReliabilityVisibility;
+  language?: Locale;
   metadata?: Map<string, string>;
   resetToken?: string;
   resetTokenExpiry?: Date;
@@ -0,0 +1,89 @@
+/**
+ * UserSession Model - Server-side registry of signed-in devices
+ *
+ * Sessions are NextAuth JWTs, which can't be invalidated once issued. Each
+ * token carries a sessionId that points at one of these records, and
+ * middleware.ts refuses tokens whose record is missing or revoked, so a
+ * session can be signed out remotely.
+ *
+ * Data Flow:
+ * 1. Sign-in: the jwt callback creates a record with the device, IP, and location
+ * 2. Each request: middleware checks the record via /api/auth/session-status,
+ *    which also updates lastSeenAt
+ * 3. Sign-out, "sign out everywhere", password reset, or an MFA change sets revokedAt
+ *
+ * Records expire (TTL) once the JWT they belong to would have.
+ */
+
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+import type { SessionRevokedReason } from '../../../types/security';
+
+export interface IUserSession extends Document {
+  _id: Types.ObjectId;
+  sessionId: string;
+  userId: string;                   // User's MongoDB _id
+  provider?: string;                // credentials, google, azure-ad
+  ipAddress?: string;
+  userAgent?: string;
+  deviceInfo?: { browser?: string; os?: string; device?: string };
+  location?: { city?: string; country?: string };
+  lastSeenAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokedReason | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSessionSchema = new Schema<IUserSession>(
+  {
+    sessionId: {
+      type: String,
+      required: [true, 'Session ID is required'],
+      unique: true,
+    },
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    provider: { type: String },
+    ipAddress: { type: String },
+    userAgent: { type: String },
+    deviceInfo: {
+      browser: { type: String },
+      os: { type: String },
+      device: { type: String },
+    },
+    location: {
+      city: { type: String },
+      country: { type: String },
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: { type: Date, default: null },
+    revokedReason: { type: String, default: null },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+UserSessionSchema.index({ userId: 1, revokedAt: 1, lastSeenAt: -1 });
+UserSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export function getUserSessionModel(): Model<IUserSession> {
+  const modelName = 'UserSession';
+  return mongoose.models[modelName] || mongoose.model<IUserSession>(modelName, UserSessionSchema);
+}
+
+export const UserSessionModel = getUserSessionModel();
+
+export default UserSessionModel;
@@ -1,21 +1,12 @@
-import nodemailer from 'nodemailer';
-
-// Create a transporter using Gmail SMTP
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASSWORD,
-  },
-});
+import { getEmailService } from './email/index';
 
 export async function sendVerificationEmail(email: string, code: string) {
-  try {
-    const mailOptions = {
-      from: process.env.EMAIL_USER,
-      to: email,
-      subject: 'Verify your email address',
-      html: `
+  const result = await getEmailService().send({
+    to: email,
+    subject: 'Verify your email address',
+    priority: 'high',
+    text: `Thank you for registering. Your verification code is: ${code}\n\nThis code will expire in 10 minutes.`,
+    html: `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
           <h2>Email Verification</h2>
           <p>Thank you for registering. Please use the following code to verify your email address:</p>
@@ -26,12 +17,11 @@ export async function sendVerificationEmail(email: string, code: string) {
           <p>If you did not request this verification, please ignore this email.</p>
         </div>
       `,
-    };
+  });
 
-    await transporter.sendMail(mailOptions);
-    console.log('Verification email sent successfully');
-  } catch (error) {
-    console.error('Error sending verification email:', error);
+  if (!result.success) {
+    console.error('Error sending verification email:', result.error);
     throw new Error('Failed to send verification email');
   }
-} 
\ No newline at end of file
+  console.log('Verification email sent successfully');
+}
@@ -1,37 +1,68 @@
 /**
  * Email Service
- * Centralized email sending with SMTP support and templating
+ * Centralized email sending with templating. Every send goes through the
+ * outbound queue (lib/email/queue.ts) and is delivered by SMTP in production,
+ * or by the capture provider in tests and local development
+ * (EMAIL_PROVIDER=capture, optionally with EMAIL_CAPTURE_DIR).
  */
 
 import { SMTPProvider } from './providers/smtp';
+import { CaptureProvider } from './providers/capture';
+import { enqueueEmail, deliverEmailMessage, processEmailQueue, getRecipients } from './queue';
+import type { EmailDeliveryOutcome, EmailQueueRunResult } from './queue';
+import type { IEmailMessage } from '../db/models/emailMessage';
 import type {
+  EmailAddress,
+  EmailProvider,
   SendEmailOptions,
   SendEmailResult,
   EmailServiceConfig,
   PaymentReminderData,
+  PoolInvitationData,
   AdminPayoutReminderData,
   DiscussionNotificationData,
   RoundUpdateData,
+  DigestEmailData,
+  SecurityAlertData,
+  BackupCodeUsedData,
+  SupportTicketEmailData,
 } from './types';
 import {
+  paymentReminderSubject,
   paymentReminderTemplate,
   paymentReminderPlainText,
+  poolInvitationSubject,
+  poolInvitationTemplate,
+  poolInvitationPlainText,
   adminPayoutReminderTemplate,
   adminPayoutReminderPlainText,
   discussionNotificationTemplate,
   discussionNotificationPlainText,
   roundUpdateTemplate,
   roundUpdatePlainText,
+  digestTemplate,
+  digestPlainText,
+  securityAlertTemplate,
+  securityAlertPlainText,
+  backupCodeUsedTemplate,
+  backupCodeUsedPlainText,
+  supportTicketSubject,
+  supportTicketTemplate,
+  supportTicketPlainText,
 } from './templates';
 
 // Singleton email service instance
 let emailService: EmailService | null = null;
 
 export class EmailService {
-  private provider: SMTPProvider;
+  private provider: EmailProvider;
 
-  constructor(config: EmailServiceConfig) {
-    this.provider = new SMTPProvider(config);
+  constructor(config: EmailServiceConfig, provider?: EmailProvider) {
+    this.provider = provider || getDefaultProvider(config);
+  }
+
+  get providerName(): string {
+    return this.provider.name;
   }
 
   /**
@@ -42,10 +73,51 @@ export class EmailService {
   }
 
   /**
-   * Send a raw email with custom HTML
+   * Send a raw email with custom HTML. It's queued (one message per
+   * recipient) and the first attempt is made straight away; failed attempts
+   * are retried later, so success means sent or queued for a retry.
    */
   async send(options: SendEmailOptions): Promise<SendEmailResult> {
-    return this.provider.send(options);
+    const recipients = getRecipients(options);
+    if (recipients.length === 0) {
+      return { success: false, error: 'No recipients', provider: this.provider.name };
+    }
+
+    const results: SendEmailResult[] = [];
+    for (const to of recipients) {
+      results.push(await this.sendOne({ ...options, to }));
+    }
+
+    return results.find(result => !result.success) || results[0];
+  }
+
+  /**
+   * Retry queued messages that are due
+   */
+  async processQueue(options: { now?: Date; limit?: number } = {}): Promise<EmailQueueRunResult> {
+    return processEmailQueue(this.provider, options);
+  }
+
+  private async sendOne(options: SendEmailOptions & { to: EmailAddress | string }): Promise<SendEmailResult> {
+    let message: IEmailMessage;
+    try {
+      message = await enqueueEmail(options, { claim: true });
+    } catch (error) {
+      // Don't lose the email because the queue can't be written
+      console.error('[Email] Failed to queue email, sending directly:', error);
+      return this.provider.send(options);
+    }
+
+    let outcome: EmailDeliveryOutcome;
+    try {
+      outcome = await deliverEmailMessage(message, this.provider);
+    } catch (error) {
+      // The message stays claimed until its lock expires, then the queue retries it
+      console.error('[Email] Failed to deliver queued email:', error);
+      outcome = 'retrying';
+    }
+
+    return toSendResult(message, outcome, this.provider.name);
   }
 
   /**
@@ -55,18 +127,30 @@ export class EmailService {
     to: string,
     data: PaymentReminderData
   ): Promise<SendEmailResult> {
-    const subject = data.isOverdue
-      ? `Overdue Payment - ${data.poolName}`
-      : `Payment Reminder - ${data.poolName}`;
-
     return this.send({
       to,
-      subject,
+      subject: paymentReminderSubject(data),
       html: paymentReminderTemplate(data),
       text: paymentReminderPlainText(data),
     });
   }
 
+  /**
+   * Send a pool invitation email
+   */
+  async sendPoolInvitation(
+    to: string,
+    data: PoolInvitationData
+  ): Promise<SendEmailResult> {
+    return this.send({
+      to,
+      subject: poolInvitationSubject(data),
+      html: poolInvitationTemplate(data),
+      text: poolInvitationPlainText(data),
+      tags: ['invitation'],
+    });
+  }
+
   /**
    * Send a payout reminder email to a pool admin
    */
@@ -126,6 +210,72 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send a daily or weekly digest of reminders, mentions, and activity
+   */
+  async sendDigest(
+    to: string,
+    data: DigestEmailData
+  ): Promise<SendEmailResult> {
+    const period = data.frequency === 'weekly' ? 'Weekly' : 'Daily';
+    const subject = `Your ${period} Juntas Seguras Digest - ${data.totalItems} update${data.totalItems === 1 ? '' : 's'}`;
+
+    return this.send({
+      to,
+      subject,
+      html: digestTemplate(data),
+      text: digestPlainText(data),
+    });
+  }
+
+  /**
+   * Send an alert about a sign-in from a new device or location
+   */
+  async sendSecurityAlert(
+    to: string,
+    data: SecurityAlertData
+  ): Promise<SendEmailResult> {
+    return this.send({
+      to,
+      subject: 'New sign-in to your Juntas Seguras account',
+      html: securityAlertTemplate(data),
+      text: securityAlertPlainText(data),
+    });
+  }
+
+  /**
+   * Send an alert that one of the user's MFA backup codes was used
+   */
+  async sendBackupCodeUsed(
+    to: string,
+    data: BackupCodeUsedData
+  ): Promise<SendEmailResult> {
+    return this.send({
+      to,
+      subject: 'A backup code was used on your Juntas Seguras account',
+      html: backupCodeUsedTemplate(data),
+      text: backupCodeUsedPlainText(data),
+    });
+  }
+
+  /**
+   * Send a support ticket notification. Mail to the support inbox replies to
+   * the user who opened the ticket.
+   */
+  async sendSupportTicketUpdate(
+    to: string | string[],
+    data: SupportTicketEmailData
+  ): Promise<SendEmailResult> {
+    return this.send({
+      to,
+      replyTo: data.event === 'new_ticket' || data.event === 'user_response' ? data.fromEmail : undefined,
+      subject: supportTicketSubject(data),
+      html: supportTicketTemplate(data),
+      text: supportTicketPlainText(data),
+      tags: ['support'],
+    });
+  }
+
   /**
    * Send emails to multiple recipients
    */
@@ -151,6 +301,39 @@ export class EmailService {
   }
 }
 
+function toSendResult(message: IEmailMessage, outcome: EmailDeliveryOutcome, provider: string): SendEmailResult {
+  const queueId = message._id.toString();
+
+  switch (outcome) {
+    case 'sent':
+      return { success: true, status: 'sent', messageId: message.providerMessageId, queueId, provider };
+    case 'retrying':
+    case 'deferred':
+      return { success: true, status: 'queued', error: message.lastError, queueId, provider };
+    default:
+      return { success: false, status: outcome, error: message.lastError, queueId, provider };
+  }
+}
+
+/**
+ * Pick the provider: EMAIL_PROVIDER, then the config, then capture in tests
+ * and SMTP everywhere else
+ */
+function getDefaultProvider(config: EmailServiceConfig): EmailProvider {
+  const providerName = process.env.EMAIL_PROVIDER
+    || config.provider
+    || (process.env.NODE_ENV === 'test' ? 'capture' : 'smtp');
+
+  if (providerName === 'capture') {
+    return new CaptureProvider({
+      defaultFrom: config.defaultFrom,
+      directory: config.capture?.directory || process.env.EMAIL_CAPTURE_DIR || undefined,
+    });
+  }
+
+  return new SMTPProvider(config);
+}
+
 /**
  * Get the default email service configuration from environment variables
  */
@@ -178,29 +361,68 @@ export function getEmailService(config?: EmailServiceConfig): EmailService {
 }
 
 /**
- * Create a new email service instance with custom config
+ * Create a new email service instance with custom config (and provider)
  */
-export function createEmailService(config: EmailServiceConfig): EmailService {
-  return new EmailService(config);
+export function createEmailService(config: EmailServiceConfig, provider?: EmailProvider): EmailService {
+  return new EmailService(config, provider);
 }
 
 // Re-export types and templates for convenience
 export type {
+  EmailAddress,
+  EmailProvider,
+  EmailPriority,
+  EmailMessageStatus,
+  EmailSuppressionReason,
   SendEmailOptions,
   SendEmailResult,
   EmailServiceConfig,
   PaymentReminderData,
+  PoolInvitationData,
   AdminPayoutReminderData,
   DiscussionNotificationData,
   RoundUpdateData,
+  DigestEmailData,
+  DigestEmailItem,
+  SecurityAlertData,
+  BackupCodeUsedData,
+  SupportTicketEvent,
+  SupportTicketEmailData,
 } from './types';
 
 export { formatCurrency, formatDate } from './types';
+export { SMTPProvider, CaptureProvider } from './providers';
+export type { CapturedEmail } from './providers';
+export {
+  EMAIL_MAX_ATTEMPTS,
+  EMAIL_RECIPIENT_WINDOW_MS,
+  getRecipientHourlyLimit,
+  getRetryDelayMs,
+  enqueueEmail,
+  deliverEmailMessage,
+  processEmailQueue,
+} from './queue';
+export type { EmailDeliveryOutcome, EmailQueueRunResult } from './queue';
+export {
+  SOFT_BOUNCE_SUPPRESSION_THRESHOLD,
+  SOFT_BOUNCE_WINDOW_DAYS,
+  isSuppressedFor,
+  applyEmailEvent,
+  recordEmailEvent,
+  parseEmailEvents,
+  verifyEmailWebhookSecret,
+} from './suppression';
+export type { EmailEvent } from './suppression';
 
 export {
   paymentReminderTemplate,
+  poolInvitationTemplate,
   adminPayoutReminderTemplate,
   discussionNotificationTemplate,
   roundUpdateTemplate,
+  digestTemplate,
+  securityAlertTemplate,
+  backupCodeUsedTemplate,
+  supportTicketTemplate,
   baseTemplate,
 } from './templates';
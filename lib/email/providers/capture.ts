@@ -0,0 +1,139 @@
+/**
+ * Capture Email Provider
+ * Keeps sent mail in memory instead of delivering it, and with a directory
+ * configured (EMAIL_CAPTURE_DIR) also writes each message there as an .html
+ * file to open in a browser and a .json file with the headers and plain text.
+ * Used in tests and local development so mail can be inspected offline.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailProvider, SendEmailOptions, SendEmailResult, EmailAddress } from '../types';
+
+export interface CapturedEmail extends SendEmailOptions {
+  messageId: string;
+  sentAt: Date;
+  // Files written for this message, when capturing to a directory
+  files?: { html: string; json: string };
+}
+
+export interface CaptureProviderOptions {
+  defaultFrom?: EmailAddress | string;
+  directory?: string;
+}
+
+function addressOf(addr: EmailAddress | string): string {
+  return typeof addr === 'string' ? addr : addr.email;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'email';
+}
+
+export class CaptureProvider implements EmailProvider {
+  name = 'capture';
+  readonly messages: CapturedEmail[] = [];
+  readonly directory?: string;
+  private defaultFrom?: EmailAddress | string;
+  private failure: { error: string; permanent: boolean } | null = null;
+  private counter = 0;
+
+  constructor(options: CaptureProviderOptions = {}) {
+    this.defaultFrom = options.defaultFrom;
+    this.directory = options.directory;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(options: SendEmailOptions): Promise<SendEmailResult> {
+    if (this.failure) {
+      return {
+        success: false,
+        error: this.failure.error,
+        permanent: this.failure.permanent,
+        provider: this.name,
+      };
+    }
+
+    this.counter += 1;
+    const messageId = `<capture-${Date.now()}-${this.counter}@juntasseguras.local>`;
+    const captured: CapturedEmail = {
+      ...options,
+      from: options.from || this.defaultFrom,
+      messageId,
+      sentAt: new Date(),
+    };
+
+    if (this.directory) {
+      captured.files = await this.writeFiles(captured);
+    }
+
+    this.messages.push(captured);
+    console.log(`[CaptureEmail] ${this.recipients(captured).join(', ')}: ${options.subject}`);
+
+    return { success: true, messageId, provider: this.name };
+  }
+
+  /**
+   * Make every following send fail with the given error (null to recover)
+   */
+  simulateFailure(error: string | null, options: { permanent?: boolean } = {}): void {
+    this.failure = error ? { error, permanent: options.permanent === true } : null;
+  }
+
+  /**
+   * Messages sent to a specific address, oldest first
+   */
+  messagesTo(to: string): CapturedEmail[] {
+    const address = to.toLowerCase();
+    return this.messages.filter(m => this.recipients(m).some(r => r.toLowerCase() === address));
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+    this.failure = null;
+  }
+
+  private recipients(message: SendEmailOptions): string[] {
+    const to = Array.isArray(message.to) ? message.to : [message.to];
+    return to.map(addressOf);
+  }
+
+  private async writeFiles(message: CapturedEmail): Promise<{ html: string; json: string }> {
+    const directory = this.directory as string;
+    await fs.mkdir(directory, { recursive: true });
+
+    const stamp = message.sentAt.toISOString().replace(/[:.]/g, '-');
+    const base = path.join(directory, `${stamp}-${this.counter}-${slugify(message.subject)}`);
+    const files = { html: `${base}.html`, json: `${base}.json` };
+
+    await fs.writeFile(files.html, message.html, 'utf8');
+    await fs.writeFile(
+      files.json,
+      JSON.stringify({
+        messageId: message.messageId,
+        sentAt: message.sentAt,
+        from: message.from,
+        to: message.to,
+        cc: message.cc,
+        bcc: message.bcc,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        headers: message.headers,
+        tags: message.tags,
+        priority: message.priority,
+        attachments: message.attachments?.map(att => att.filename),
+        text: message.text,
+      }, null, 2),
+      'utf8'
+    );
+
+    return files;
+  }
+}
+
+export function createCaptureProvider(options?: CaptureProviderOptions): CaptureProvider {
+  return new CaptureProvider(options);
+}
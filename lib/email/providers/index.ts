@@ -3,3 +3,5 @@
  */
 
 export { SMTPProvider, createSMTPProvider } from './smtp';
+export { CaptureProvider, createCaptureProvider } from './capture';
+export type { CapturedEmail, CaptureProviderOptions } from './capture';
@@ -117,11 +117,14 @@ export class SMTPProvider implements EmailProvider {
       console.error('[SMTP] Failed to send email:', {
         error: error.message,
         code: error.code,
+        responseCode: error.responseCode,
       });
 
       return {
         success: false,
         error: error.message,
+        // 5xx replies (unknown mailbox, rejected message) won't succeed on retry
+        permanent: typeof error.responseCode === 'number' && error.responseCode >= 500,
         provider: this.name,
       };
     }
@@ -0,0 +1,306 @@
+/**
+ * Outbound email queue
+ *
+ * EmailService.send() stores each message (one per recipient) in the
+ * EmailMessage collection and makes the first attempt straight away. A failed
+ * attempt is retried with exponential backoff by the email-queue job until
+ * EMAIL_MAX_ATTEMPTS; a permanent rejection fails the message at once and
+ * counts as a hard bounce for the address.
+ *
+ * Before each attempt the recipient is checked against the suppression list
+ * (lib/email/suppression.ts) and, for 'normal' priority mail, against the
+ * per-recipient hourly limit; over the limit, the message waits rather than
+ * being dropped.
+ */
+
+import connectToDatabase from '../db/connect';
+import {
+  getEmailMessageModel,
+  IEmailMessage,
+  EMAIL_MESSAGE_RETENTION_DAYS,
+} from '../db/models/emailMessage';
+import { getEmailSuppressions, isSuppressedFor, normalizeEmailAddress, recordEmailEvent } from './suppression';
+import type { EmailAddress, EmailProvider, SendEmailOptions, SendEmailResult } from './types';
+
+export const EMAIL_MAX_ATTEMPTS = 5;
+export const EMAIL_RETRY_BASE_DELAY_MS = 60 * 1000;
+export const EMAIL_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+export const EMAIL_RECIPIENT_WINDOW_MS = 60 * 60 * 1000;
+
+// How long an attempt may hold a message before another worker can retry it
+const EMAIL_SEND_LOCK_MS = 5 * 60 * 1000;
+
+// Default number of 'normal' emails one address can receive per hour
+const DEFAULT_RECIPIENT_HOURLY_LIMIT = 20;
+
+// Messages delivered per queue run
+const DEFAULT_BATCH_SIZE = 100;
+
+export type EmailDeliveryOutcome = 'sent' | 'retrying' | 'deferred' | 'failed' | 'suppressed';
+
+export interface EmailQueueRunResult {
+  processed: number;
+  sent: number;
+  retrying: number;
+  deferred: number;
+  failed: number;
+  suppressed: number;
+  errors: string[];
+}
+
+/**
+ * Maximum 'normal' emails per recipient per hour (EMAIL_RECIPIENT_HOURLY_LIMIT)
+ */
+export function getRecipientHourlyLimit(): number {
+  const limit = parseInt(process.env.EMAIL_RECIPIENT_HOURLY_LIMIT || '', 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_RECIPIENT_HOURLY_LIMIT;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 1, 2, 4, 8...
+ * minutes, capped at EMAIL_RETRY_MAX_DELAY_MS
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const delay = EMAIL_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, EMAIL_RETRY_MAX_DELAY_MS);
+}
+
+function addressOf(addr: EmailAddress | string): string {
+  return typeof addr === 'string' ? addr : addr.name ? `"${addr.name}" <${addr.email}>` : addr.email;
+}
+
+function emailOf(addr: EmailAddress | string): string {
+  if (typeof addr !== 'string') return addr.email;
+  const match = addr.match(/<([^>]+)>/);
+  return match ? match[1] : addr;
+}
+
+function toList(addrs: SendEmailOptions['to'] | undefined): Array<EmailAddress | string> {
+  if (!addrs) return [];
+  return Array.isArray(addrs) ? addrs : [addrs];
+}
+
+/**
+ * The recipients a send is split into, one queued message each
+ */
+export function getRecipients(options: Pick<SendEmailOptions, 'to'>): Array<EmailAddress | string> {
+  return toList(options.to);
+}
+
+/**
+ * Store an email for delivery. With `claim`, the message is stored already
+ * locked for an immediate attempt by the caller.
+ */
+export async function enqueueEmail(
+  options: SendEmailOptions & { to: EmailAddress | string },
+  settings: { claim?: boolean; now?: Date } = {}
+): Promise<IEmailMessage> {
+  await connectToDatabase();
+  const now = settings.now || new Date();
+
+  return getEmailMessageModel().create({
+    to: normalizeEmailAddress(emailOf(options.to)),
+    toName: typeof options.to === 'string' ? undefined : options.to.name,
+    from: options.from ? addressOf(options.from) : undefined,
+    replyTo: options.replyTo ? addressOf(options.replyTo) : undefined,
+    cc: toList(options.cc).map(addressOf),
+    bcc: toList(options.bcc).map(addressOf),
+    subject: options.subject,
+    html: options.html,
+    text: options.text,
+    headers: options.headers,
+    tags: options.tags || [],
+    attachments: (options.attachments || []).map(att => ({
+      filename: att.filename,
+      content: Buffer.isBuffer(att.content) ? att.content.toString('base64') : att.content,
+      contentType: att.contentType,
+      encoding: Buffer.isBuffer(att.content) ? 'base64' : att.encoding,
+    })),
+    priority: options.priority || 'normal',
+    status: settings.claim ? 'sending' : 'queued',
+    maxAttempts: EMAIL_MAX_ATTEMPTS,
+    nextAttemptAt: now,
+    lockedUntil: settings.claim ? new Date(now.getTime() + EMAIL_SEND_LOCK_MS) : undefined,
+  });
+}
+
+function toSendOptions(message: IEmailMessage, cc: string[], bcc: string[]): SendEmailOptions {
+  return {
+    to: message.toName ? { email: message.to, name: message.toName } : message.to,
+    from: message.from,
+    replyTo: message.replyTo,
+    cc: cc.length ? cc : undefined,
+    bcc: bcc.length ? bcc : undefined,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    headers: message.headers,
+    tags: message.tags,
+    priority: message.priority,
+    attachments: message.attachments.length
+      ? message.attachments.map(att => ({
+          filename: att.filename,
+          content: att.encoding === 'base64' ? Buffer.from(att.content, 'base64') : att.content,
+          contentType: att.contentType,
+        }))
+      : undefined,
+  };
+}
+
+function finished(now: Date) {
+  return {
+    lockedUntil: undefined,
+    expiresAt: new Date(now.getTime() + EMAIL_MESSAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Make one delivery attempt for a message the caller has claimed, and record
+ * the outcome on it
+ */
+export async function deliverEmailMessage(
+  message: IEmailMessage,
+  provider: EmailProvider,
+  now: Date = new Date()
+): Promise<EmailDeliveryOutcome> {
+  const EmailMessage = getEmailMessageModel();
+  const recipient = message.to;
+
+  const suppressions = await getEmailSuppressions([
+    recipient,
+    ...message.cc.map(emailOf),
+    ...message.bcc.map(emailOf),
+  ]);
+  const allowed = (addr: string) =>
+    !isSuppressedFor(suppressions.get(normalizeEmailAddress(emailOf(addr))), message.priority);
+
+  if (!allowed(recipient)) {
+    const suppression = suppressions.get(recipient);
+    Object.assign(message, {
+      status: 'suppressed',
+      lastError: `Recipient suppressed after ${suppression?.reason.replace('_', ' ')}`,
+      ...finished(now),
+    });
+    await message.save();
+    return 'suppressed';
+  }
+
+  if (message.priority !== 'high') {
+    const windowStart = new Date(now.getTime() - EMAIL_RECIPIENT_WINDOW_MS);
+    const recentlySent = await EmailMessage.countDocuments({
+      to: message.to,
+      status: 'sent',
+      priority: 'normal',
+      sentAt: { $gte: windowStart },
+    });
+
+    if (recentlySent >= getRecipientHourlyLimit()) {
+      Object.assign(message, {
+        status: 'queued',
+        lockedUntil: undefined,
+        nextAttemptAt: new Date(now.getTime() + EMAIL_RECIPIENT_WINDOW_MS),
+        lastError: 'Recipient rate limit reached',
+      });
+      await message.save();
+      return 'deferred';
+    }
+  }
+
+  message.attempts += 1;
+  const result: SendEmailResult = await provider
+    .send(toSendOptions(message, message.cc.filter(allowed), message.bcc.filter(allowed)))
+    .catch((error: unknown) => ({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      permanent: false,
+      provider: provider.name,
+    }));
+
+  message.provider = provider.name;
+
+  if (result.success) {
+    Object.assign(message, {
+      status: 'sent',
+      sentAt: now,
+      providerMessageId: result.messageId,
+      lastError: undefined,
+      ...finished(now),
+    });
+    await message.save();
+    return 'sent';
+  }
+
+  message.lastError = result.error;
+
+  if (result.permanent || message.attempts >= message.maxAttempts) {
+    Object.assign(message, { status: 'failed', ...finished(now) });
+    await message.save();
+
+    if (result.permanent) {
+      await recordEmailEvent({ type: 'bounce', bounceType: 'hard', email: recipient, details: result.error }, now);
+    }
+    return 'failed';
+  }
+
+  Object.assign(message, {
+    status: 'queued',
+    lockedUntil: undefined,
+    nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(message.attempts)),
+  });
+  await message.save();
+  return 'retrying';
+}
+
+/**
+ * Deliver queued messages that are due, high priority first. Messages left
+ * 'sending' by an attempt that never finished are picked up once their lock
+ * expires.
+ */
+export async function processEmailQueue(
+  provider: EmailProvider,
+  options: { now?: Date; limit?: number } = {}
+): Promise<EmailQueueRunResult> {
+  await connectToDatabase();
+  const EmailMessage = getEmailMessageModel();
+  const now = options.now || new Date();
+  const limit = options.limit ?? DEFAULT_BATCH_SIZE;
+
+  const result: EmailQueueRunResult = {
+    processed: 0,
+    sent: 0,
+    retrying: 0,
+    deferred: 0,
+    failed: 0,
+    suppressed: 0,
+    errors: [],
+  };
+
+  while (result.processed < limit) {
+    const message = await EmailMessage.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued', nextAttemptAt: { $lte: now } },
+          { status: 'sending', lockedUntil: { $lte: now } },
+        ],
+      },
+      { $set: { status: 'sending', lockedUntil: new Date(now.getTime() + EMAIL_SEND_LOCK_MS) } },
+      // 'high' sorts before 'normal'
+      { sort: { priority: 1, nextAttemptAt: 1 }, new: true }
+    );
+    if (!message) break;
+
+    result.processed++;
+    try {
+      const outcome = await deliverEmailMessage(message, provider, now);
+      result[outcome]++;
+      if (outcome === 'failed' && message.lastError) {
+        result.errors.push(`${message.to}: ${message.lastError}`);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(`${message.to}: ${errorMessage}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,168 @@
+/**
+ * Email suppression
+ *
+ * Bounces and complaints, whether reported by the provider's webhook
+ * (/api/email/events) or seen as a permanent SMTP rejection, are recorded per
+ * address. Hard bounces and complaints suppress the address at once; soft
+ * bounces only after SOFT_BOUNCE_SUPPRESSION_THRESHOLD of them within
+ * SOFT_BOUNCE_WINDOW_DAYS. The queue checks this before every attempt.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+import connectToDatabase from '../db/connect';
+import { getEmailSuppressionModel, IEmailSuppression } from '../db/models/emailSuppression';
+import type { EmailPriority, EmailSuppressionReason } from './types';
+
+export const SOFT_BOUNCE_SUPPRESSION_THRESHOLD = 3;
+export const SOFT_BOUNCE_WINDOW_DAYS = 30;
+
+export interface EmailEvent {
+  type: 'bounce' | 'complaint';
+  email: string;
+  bounceType?: 'hard' | 'soft';
+  details?: string;
+}
+
+type SuppressionState = Pick<
+  IEmailSuppression,
+  'suppressed' | 'reason' | 'softBounceCount' | 'lastEventAt' | 'suppressedAt'
+>;
+
+export function normalizeEmailAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Whether mail of this priority is withheld from a suppressed address.
+ * Complaints only stop 'normal' mail, so the user still gets password resets
+ * and security alerts; bounces stop everything.
+ */
+export function isSuppressedFor(
+  suppression: Pick<IEmailSuppression, 'suppressed' | 'reason'> | null | undefined,
+  priority: EmailPriority = 'normal'
+): boolean {
+  if (!suppression?.suppressed) return false;
+  if (suppression.reason === 'complaint') return priority !== 'high';
+  return true;
+}
+
+/**
+ * The address's suppression state after an event
+ */
+export function applyEmailEvent(
+  existing: SuppressionState | null,
+  event: EmailEvent,
+  now: Date = new Date()
+): SuppressionState {
+  const reason: EmailSuppressionReason = event.type === 'complaint'
+    ? 'complaint'
+    : event.bounceType === 'soft' ? 'soft_bounce' : 'hard_bounce';
+
+  // Once suppressed, stay suppressed; a later event only updates the reason
+  // if it's more serious than a soft bounce
+  if (existing?.suppressed) {
+    return {
+      suppressed: true,
+      reason: reason === 'soft_bounce' ? existing.reason : reason,
+      softBounceCount: existing.softBounceCount,
+      lastEventAt: now,
+      suppressedAt: existing.suppressedAt,
+    };
+  }
+
+  if (reason !== 'soft_bounce') {
+    return {
+      suppressed: true,
+      reason,
+      softBounceCount: existing?.softBounceCount || 0,
+      lastEventAt: now,
+      suppressedAt: now,
+    };
+  }
+
+  const windowStart = now.getTime() - SOFT_BOUNCE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const recent = existing && existing.lastEventAt.getTime() >= windowStart;
+  const softBounceCount = (recent ? existing.softBounceCount : 0) + 1;
+  const suppressed = softBounceCount >= SOFT_BOUNCE_SUPPRESSION_THRESHOLD;
+
+  return {
+    suppressed,
+    reason,
+    softBounceCount,
+    lastEventAt: now,
+    suppressedAt: suppressed ? now : undefined,
+  };
+}
+
+/**
+ * Record a bounce or complaint for an address
+ */
+export async function recordEmailEvent(event: EmailEvent, now: Date = new Date()): Promise<SuppressionState> {
+  await connectToDatabase();
+  const EmailSuppression = getEmailSuppressionModel();
+  const email = normalizeEmailAddress(event.email);
+
+  const existing = await EmailSuppression.findOne({ email });
+  const next = applyEmailEvent(existing, event, now);
+
+  await EmailSuppression.updateOne(
+    { email },
+    { $set: { ...next, ...(event.details ? { details: event.details.slice(0, 500) } : {}) } },
+    { upsert: true }
+  );
+
+  if (next.suppressed && !existing?.suppressed) {
+    console.warn(`[Email] Suppressing ${email} after ${next.reason.replace('_', ' ')}`);
+  }
+
+  return next;
+}
+
+/**
+ * Look up the suppression records for a set of addresses, keyed by address
+ */
+export async function getEmailSuppressions(emails: string[]): Promise<Map<string, IEmailSuppression>> {
+  await connectToDatabase();
+  const normalized = Array.from(new Set(emails.map(normalizeEmailAddress)));
+  const records = await getEmailSuppressionModel().find({ email: { $in: normalized }, suppressed: true });
+  return new Map(records.map(record => [record.email, record]));
+}
+
+/**
+ * Parse a webhook body: one event or { events: [...] }. Entries that aren't
+ * valid events are dropped.
+ */
+export function parseEmailEvents(body: unknown): EmailEvent[] {
+  const raw = body && typeof body === 'object' && Array.isArray((body as { events?: unknown }).events)
+    ? (body as { events: unknown[] }).events
+    : [body];
+
+  return raw.flatMap((entry): EmailEvent[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { type, email, bounceType, details } = entry as Record<string, unknown>;
+
+    if (type !== 'bounce' && type !== 'complaint') return [];
+    if (typeof email !== 'string' || !email.includes('@')) return [];
+
+    return [{
+      type,
+      email: normalizeEmailAddress(email),
+      bounceType: type === 'bounce' ? (bounceType === 'soft' ? 'soft' : 'hard') : undefined,
+      details: typeof details === 'string' ? details : undefined,
+    }];
+  });
+}
+
+/**
+ * Verify the shared secret on a bounce/complaint webhook request
+ * ("Authorization: Bearer <EMAIL_WEBHOOK_SECRET>")
+ */
+export function verifyEmailWebhookSecret(request: Pick<NextRequest, 'headers'>): boolean {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -16,6 +16,8 @@ import {
   colors,
 } from './base-template';
 import { AdminPayoutReminderData, formatCurrency } from '../types';
+import { supportsDeepLinkIn } from '../../currency';
+import type { PaymentMethodType } from '../../../types/pool';
 
 export function adminPayoutReminderTemplate(data: AdminPayoutReminderData): string {
   const {
@@ -31,6 +33,7 @@ export function adminPayoutReminderTemplate(data: AdminPayoutReminderData): stri
     totalContributions,
     isReady,
     previewText,
+    currency = 'USD',
   } = data;
 
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
@@ -70,7 +73,7 @@ export function adminPayoutReminderTemplate(data: AdminPayoutReminderData): stri
   content += dataTable(
     dataRow('Pool', poolName) +
     dataRow('Round', `${round} of ${totalRounds}`) +
-    dataRow('Payout Amount', formatCurrency(payoutAmount)) +
+    dataRow('Payout Amount', formatCurrency(payoutAmount, currency)) +
     dataRow('Recipient', winnerName) +
     dataRow('Recipient Email', recipientEmail) +
     dataRow('Collection Status', allCollected
@@ -84,7 +87,7 @@ export function adminPayoutReminderTemplate(data: AdminPayoutReminderData): stri
   content += heading('Recipient Payment Info', 2);
 
   if (payoutMethod && payoutMethod.handle) {
-    content += buildPayoutMethodSection(payoutMethod, payoutAmount);
+    content += buildPayoutMethodSection(payoutMethod, payoutAmount, currency);
   } else {
     content += highlightBox(
       `<p style="margin: 0; font-size: 14px; color: ${colors.warning};">
@@ -100,7 +103,7 @@ export function adminPayoutReminderTemplate(data: AdminPayoutReminderData): stri
   content += heading('Next Steps', 3);
   content += `
     <ol style="margin: 0; padding-left: 20px; color: ${colors.text}; font-size: 14px; line-height: 1.8;">
-      <li>Send the payout of ${formatCurrency(payoutAmount)} to ${escapeHtml(winnerName)}</li>
+      <li>Send the payout of ${formatCurrency(payoutAmount, currency)} to ${escapeHtml(winnerName)}</li>
       <li>Use their preferred payment method shown above</li>
       <li>Mark the payout as complete in the app</li>
       <li>The pool will automatically advance to round ${round + 1}</li>
@@ -111,7 +114,7 @@ export function adminPayoutReminderTemplate(data: AdminPayoutReminderData): stri
   return baseTemplate({
     title: `Payout Reminder - ${poolName} Round ${round}`,
     previewText: previewText || (isReady
-      ? `Ready to send ${formatCurrency(payoutAmount)} payout to ${winnerName}`
+      ? `Ready to send ${formatCurrency(payoutAmount, currency)} payout to ${winnerName}`
       : `${contributionsCollected}/${totalContributions} contributions collected for ${poolName}`),
     content,
     ctaButton: {
@@ -126,7 +129,8 @@ export function adminPayoutReminderTemplate(data: AdminPayoutReminderData): stri
 // Helper to build payout method section with payment link
 function buildPayoutMethodSection(
   method: NonNullable<AdminPayoutReminderData['payoutMethod']>,
-  amount: number
+  amount: number,
+  currency: string
 ): string {
   const { type, handle, displayName } = method;
   let paymentUrl: string | null = null;
@@ -142,13 +146,18 @@ function buildPayoutMethodSection(
       paymentUrl = `https://cash.app/${cashtag}/${amount}`;
       break;
     case 'paypal':
-      paymentUrl = `https://paypal.me/${handle}/${amount}`;
+      paymentUrl = `https://paypal.me/${handle}/${amount}${currency}`;
       break;
     case 'zelle':
       // Zelle doesn't support deep linking
       break;
   }
 
+  // The app can't send the pool's currency; show the handle only
+  if (paymentUrl && !supportsDeepLinkIn(type.toLowerCase() as PaymentMethodType, currency)) {
+    paymentUrl = null;
+  }
+
   const paymentButton = paymentUrl
     ? `<a href="${escapeHtml(paymentUrl)}" style="display: inline-block; padding: 10px 20px; background-color: ${colors.primary}; color: white; text-decoration: none; font-weight: 500; font-size: 14px; border-radius: 6px;">Send via ${methodName}</a>`
     : '';
@@ -190,6 +199,7 @@ export function adminPayoutReminderPlainText(data: AdminPayoutReminderData): str
     contributionsCollected,
     totalContributions,
     isReady,
+    currency = 'USD',
   } = data;
 
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
@@ -210,7 +220,7 @@ export function adminPayoutReminderPlainText(data: AdminPayoutReminderData): str
   text += `--------------\n`;
   text += `Pool: ${poolName}\n`;
   text += `Round: ${round} of ${totalRounds}\n`;
-  text += `Payout Amount: ${formatCurrency(payoutAmount)}\n`;
+  text += `Payout Amount: ${formatCurrency(payoutAmount, currency)}\n`;
   text += `Recipient: ${winnerName}\n`;
   text += `Recipient Email: ${recipientEmail}\n`;
   text += `Collection Status: ${contributionsCollected}/${totalContributions} ${allCollected ? 'Complete' : 'Collected'}\n\n`;
@@ -231,7 +241,7 @@ export function adminPayoutReminderPlainText(data: AdminPayoutReminderData): str
 
   text += `\nNEXT STEPS\n`;
   text += `----------\n`;
-  text += `1. Send the payout of ${formatCurrency(payoutAmount)} to ${winnerName}\n`;
+  text += `1. Send the payout of ${formatCurrency(payoutAmount, currency)} to ${winnerName}\n`;
   text += `2. Use their preferred payment method shown above\n`;
   text += `3. Mark the payout as complete in the app\n`;
   text += `4. The pool will automatically advance to round ${round + 1}\n\n`;
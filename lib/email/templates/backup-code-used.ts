@@ -0,0 +1,98 @@
+/**
+ * Backup Code Used Email Template
+ * Sent when one of the user's MFA backup codes is used to sign in or verify
+ */
+
+import {
+  baseTemplate,
+  heading,
+  paragraph,
+  highlightBox,
+  dataTable,
+  dataRow,
+  escapeHtml,
+  colors,
+} from './base-template';
+import { BackupCodeUsedData, formatDate } from '../types';
+
+function remainingText(remaining: number): string {
+  if (remaining === 0) return 'You have no backup codes left.';
+  return `You have ${remaining} backup code${remaining === 1 ? '' : 's'} left.`;
+}
+
+export function backupCodeUsedTemplate(data: BackupCodeUsedData): string {
+  const {
+    recipientName,
+    remaining,
+    occurredAt,
+    device,
+    location,
+    ipAddress,
+    previewText,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const greeting = recipientName ? `Hi ${escapeHtml(recipientName)},` : 'Hi,';
+
+  let content = '';
+
+  content += heading('A backup code was used');
+  content += paragraph(greeting);
+  content += paragraph(`One of your two-factor backup codes was just used. Each code works only once. ${remainingText(remaining)}`);
+
+  content += dataTable(
+    dataRow('When', formatDate(occurredAt)) +
+    dataRow('Device', device || 'Unknown device') +
+    dataRow('Location', location || 'Unknown location') +
+    (ipAddress ? dataRow('IP address', ipAddress) : '')
+  );
+
+  content += highlightBox(
+    `<p style="margin: 0; font-size: 14px; color: ${colors.text};">
+      <strong>Was this you?</strong> If not, someone has your password and a backup code. Change your password and generate new backup codes right away.
+    </p>`,
+    'warning'
+  );
+
+  return baseTemplate({
+    title: 'A backup code was used',
+    previewText: previewText || `A two-factor backup code was used. ${remainingText(remaining)}`,
+    content,
+    ctaButton: {
+      text: 'Manage Backup Codes',
+      url: `${appUrl}/settings`,
+      color: colors.warning,
+    },
+    footerText: 'We send this email to keep your account secure. It can\'t be turned off.',
+  });
+}
+
+// Plain text version
+export function backupCodeUsedPlainText(data: BackupCodeUsedData): string {
+  const {
+    recipientName,
+    remaining,
+    occurredAt,
+    device,
+    location,
+    ipAddress,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const greeting = recipientName ? `Hi ${recipientName},` : 'Hi,';
+
+  let text = `${greeting}\n\n`;
+  text += `One of your two-factor backup codes was just used. Each code works only once. ${remainingText(remaining)}\n\n`;
+  text += `When: ${formatDate(occurredAt)}\n`;
+  text += `Device: ${device || 'Unknown device'}\n`;
+  text += `Location: ${location || 'Unknown location'}\n`;
+  if (ipAddress) {
+    text += `IP address: ${ipAddress}\n`;
+  }
+  text += `\nWas this you? If not, someone has your password and a backup code. Change your password and generate new backup codes right away.\n\n`;
+  text += `Manage backup codes: ${appUrl}/settings\n\n`;
+  text += `---\n`;
+  text += `We send this email to keep your account secure.\n`;
+
+  return text;
+}
@@ -3,8 +3,12 @@
  * Provides consistent styling and structure for all email templates
  */
 
+import { DEFAULT_LOCALE, Locale } from '../../../types/i18n';
+import { translate } from '../../i18n/translate';
+
 export interface BaseTemplateOptions {
   title: string;
+  locale?: Locale;           // Language of the footer and the lang attribute
   previewText?: string;
   content: string;
   footerText?: string;
@@ -40,6 +44,7 @@ export function baseTemplate(options: BaseTemplateOptions): string {
     footerText,
     ctaButton,
     showSocialLinks = false,
+    locale = DEFAULT_LOCALE,
   } = options;
 
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
@@ -47,7 +52,7 @@ export function baseTemplate(options: BaseTemplateOptions): string {
 
   return `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${locale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -181,11 +186,11 @@ export function baseTemplate(options: BaseTemplateOptions): string {
               ` : ''}
 
               <p style="margin: 0; font-size: 12px; color: ${colors.textLight}; text-align: center;">
-                &copy; ${currentYear} Juntas Seguras. All rights reserved.
+                &copy; ${currentYear} Juntas Seguras. ${translate(locale, 'email.allRightsReserved')}
               </p>
               <p style="margin: 8px 0 0; font-size: 12px; color: ${colors.textLight}; text-align: center;">
                 <a href="${appUrl}/settings" style="color: ${colors.textLight}; text-decoration: underline;">
-                  Manage email preferences
+                  ${translate(locale, 'email.managePreferences')}
                 </a>
               </p>
             </td>
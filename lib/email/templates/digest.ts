@@ -0,0 +1,161 @@
+/**
+ * Digest Email Template
+ * One combined email with the reminders, mentions, and pool activity a user
+ * collected since their last daily or weekly digest
+ */
+
+import {
+  baseTemplate,
+  heading,
+  paragraph,
+  escapeHtml,
+  colors,
+} from './base-template';
+import { DigestEmailData, DigestEmailItem } from '../types';
+
+const SOURCE_LABELS: Record<DigestEmailItem['source'], string> = {
+  reminder: 'Reminder',
+  mention: 'Mention',
+  activity: 'Activity',
+};
+
+// Helper to format an item's date in the recipient's timezone
+function formatItemDate(date: string | Date, timezone?: string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  try {
+    return d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: timezone });
+  } catch {
+    return d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+}
+
+// Helper to turn a relative app path into an absolute link
+function absoluteUrl(url: string | undefined, appUrl: string): string | undefined {
+  if (!url) return undefined;
+  return url.startsWith('/') ? `${appUrl}${url}` : url;
+}
+
+export function digestTemplate(data: DigestEmailData): string {
+  const {
+    recipientName,
+    frequency,
+    sections,
+    totalItems,
+    timezone,
+    previewText,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const greeting = recipientName ? `Hi ${escapeHtml(recipientName)},` : 'Hi,';
+  const period = frequency === 'weekly' ? 'week' : 'day';
+  const shownItems = sections.reduce((sum, s) => sum + s.items.length, 0);
+
+  let content = '';
+
+  content += heading(frequency === 'weekly' ? 'Your weekly digest' : 'Your daily digest');
+  content += paragraph(greeting);
+  content += paragraph(
+    `Here's what happened in your pools this ${period}: <strong>${totalItems} update${totalItems === 1 ? '' : 's'}</strong>.`
+  );
+
+  for (const section of sections) {
+    const poolLink = absoluteUrl(section.poolLink, appUrl);
+
+    content += `
+    <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin: 24px 0 8px;">
+      <tr>
+        <td style="padding-bottom: 8px; border-bottom: 2px solid ${colors.primary};">
+          <span style="font-size: 16px; font-weight: 600; color: ${colors.text};">${escapeHtml(section.poolName)}</span>
+        </td>
+        <td style="padding-bottom: 8px; border-bottom: 2px solid ${colors.primary}; text-align: right;">
+          ${poolLink ? `<a href="${escapeHtml(poolLink)}" style="color: ${colors.primary}; text-decoration: none; font-size: 14px; font-weight: 500;">View pool &rarr;</a>` : ''}
+        </td>
+      </tr>
+    `;
+
+    section.items.forEach((item, index) => {
+      const itemLink = absoluteUrl(item.url, appUrl);
+      const title = itemLink
+        ? `<a href="${escapeHtml(itemLink)}" style="color: ${colors.text}; text-decoration: none;">${escapeHtml(item.title)}</a>`
+        : escapeHtml(item.title);
+
+      content += `
+      <tr>
+        <td colspan="2" style="padding: 12px 0; ${index < section.items.length - 1 ? `border-bottom: 1px solid ${colors.border};` : ''}">
+          <p style="margin: 0 0 4px; font-size: 12px; color: ${colors.textLight}; text-transform: uppercase; letter-spacing: 0.5px;">
+            ${SOURCE_LABELS[item.source]} &middot; ${escapeHtml(formatItemDate(item.occurredAt, timezone))}
+          </p>
+          <p style="margin: 0; font-size: 15px; font-weight: 600; color: ${colors.text};">${title}</p>
+          ${item.body ? `<p style="margin: 4px 0 0; font-size: 14px; line-height: 1.5; color: ${colors.textLight};">${escapeHtml(item.body)}</p>` : ''}
+        </td>
+      </tr>
+      `;
+    });
+
+    content += `</table>`;
+  }
+
+  if (totalItems > shownItems) {
+    const more = totalItems - shownItems;
+    content += paragraph(
+      `And ${more} more update${more === 1 ? '' : 's'} - open the app to see everything.`,
+      { muted: true }
+    );
+  }
+
+  return baseTemplate({
+    title: `Your ${frequency} digest`,
+    previewText: previewText || `${totalItems} update${totalItems === 1 ? '' : 's'} from your pools`,
+    content,
+    ctaButton: {
+      text: 'Open Dashboard',
+      url: `${appUrl}/dashboard`,
+    },
+    footerText: `You receive this ${frequency} digest because of your notification settings. You can change how often we email you in settings.`,
+  });
+}
+
+// Plain text version
+export function digestPlainText(data: DigestEmailData): string {
+  const {
+    recipientName,
+    frequency,
+    sections,
+    totalItems,
+    timezone,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const greeting = recipientName ? `Hi ${recipientName},` : 'Hi,';
+  const period = frequency === 'weekly' ? 'week' : 'day';
+  const shownItems = sections.reduce((sum, s) => sum + s.items.length, 0);
+
+  let text = `${greeting}\n\n`;
+  text += `Here's what happened in your pools this ${period}: ${totalItems} update${totalItems === 1 ? '' : 's'}.\n\n`;
+
+  for (const section of sections) {
+    text += `== ${section.poolName} ==\n`;
+    for (const item of section.items) {
+      text += `- [${SOURCE_LABELS[item.source]}, ${formatItemDate(item.occurredAt, timezone)}] ${item.title}\n`;
+      if (item.body) {
+        text += `  ${item.body}\n`;
+      }
+      const itemLink = absoluteUrl(item.url, appUrl);
+      if (itemLink) {
+        text += `  ${itemLink}\n`;
+      }
+    }
+    text += `\n`;
+  }
+
+  if (totalItems > shownItems) {
+    text += `And ${totalItems - shownItems} more - open the app to see everything.\n\n`;
+  }
+
+  text += `Open your dashboard: ${appUrl}/dashboard\n\n`;
+  text += `---\n`;
+  text += `You receive this ${frequency} digest because of your notification settings.\n`;
+  text += `Manage notifications: ${appUrl}/settings\n`;
+
+  return text;
+}
@@ -20,10 +20,18 @@ export {
 
 // Payment reminder template
 export {
+  paymentReminderSubject,
   paymentReminderTemplate,
   paymentReminderPlainText,
 } from './payment-reminder';
 
+// Pool invitation template
+export {
+  poolInvitationSubject,
+  poolInvitationTemplate,
+  poolInvitationPlainText,
+} from './pool-invitation';
+
 // Admin payout reminder template
 export {
   adminPayoutReminderTemplate,
@@ -42,3 +50,28 @@ export {
   roundUpdateTemplate,
   roundUpdatePlainText,
 } from './round-update';
+
+// Daily/weekly digest template
+export {
+  digestTemplate,
+  digestPlainText,
+} from './digest';
+
+// New sign-in security alert template
+export {
+  securityAlertTemplate,
+  securityAlertPlainText,
+} from './security-alert';
+
+// MFA backup code used alert template
+export {
+  backupCodeUsedTemplate,
+  backupCodeUsedPlainText,
+} from './backup-code-used';
+
+// Support ticket template
+export {
+  supportTicketSubject,
+  supportTicketTemplate,
+  supportTicketPlainText,
+} from './support-ticket';
@@ -16,6 +16,19 @@ import {
   colors,
 } from './base-template';
 import { PaymentReminderData, formatCurrency, formatDate } from '../types';
+import { DEFAULT_LOCALE, Locale } from '../../../types/i18n';
+import { createTranslator, Translator } from '../../i18n/translate';
+import { supportsDeepLinkIn } from '../../currency';
+
+/**
+ * Subject line for a payment reminder, in the recipient's language
+ */
+export function paymentReminderSubject(data: Pick<PaymentReminderData, 'poolName' | 'isOverdue' | 'locale'>): string {
+  const t = createTranslator(data.locale || DEFAULT_LOCALE);
+  return data.isOverdue
+    ? t('email.paymentReminder.subjectOverdue', { pool: data.poolName })
+    : t('email.paymentReminder.subject', { pool: data.poolName });
+}
 
 export function paymentReminderTemplate(data: PaymentReminderData): string {
   const {
@@ -30,13 +43,19 @@ export function paymentReminderTemplate(data: PaymentReminderData): string {
     isOverdue = false,
     daysOverdue = 0,
     previewText,
+    locale = DEFAULT_LOCALE,
+    currency = 'USD',
   } = data;
 
+  const t = createTranslator(locale);
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
-  const greeting = recipientName ? `Hi ${escapeHtml(recipientName)},` : 'Hi,';
+  const greeting = recipientName
+    ? t('email.greeting', { name: escapeHtml(recipientName) })
+    : t('email.greetingAnonymous');
+  const amountText = formatCurrency(amount, currency, locale);
 
   // Build payment methods section
-  const paymentMethodsHtml = buildPaymentMethodsSection(adminPaymentMethods, amount);
+  const paymentMethodsHtml = buildPaymentMethodsSection(adminPaymentMethods, amount, currency, t);
 
   // Build the main content
   let content = '';
@@ -48,35 +67,37 @@ export function paymentReminderTemplate(data: PaymentReminderData): string {
   if (isOverdue && daysOverdue > 0) {
     content += highlightBox(
       `<p style="margin: 0; font-size: 16px; font-weight: 600; color: ${colors.error};">
-        Your contribution is ${daysOverdue} day${daysOverdue > 1 ? 's' : ''} overdue
+        ${t('email.paymentReminder.overdueHeadline', { days: t('email.days', { count: daysOverdue }) })}
       </p>
       <p style="margin: 8px 0 0; font-size: 14px; color: #991b1b;">
-        Please make your payment as soon as possible to avoid impacting your fellow pool members.
+        ${t('email.paymentReminder.overdueBody')}
       </p>`,
       'error'
     );
   } else {
     content += paragraph(
-      `This is a friendly reminder that your contribution for <strong>${escapeHtml(poolName)}</strong> is due soon.`
+      t('email.paymentReminder.dueSoon', { pool: `<strong>${escapeHtml(poolName)}</strong>` })
     );
   }
 
   // Payment details table
-  content += heading('Payment Details', 2);
+  content += heading(t('email.paymentReminder.details'), 2);
   content += dataTable(
-    dataRow('Pool', poolName) +
-    dataRow('Round', `${round} of ${totalRounds}`) +
-    dataRow('Amount Due', formatCurrency(amount)) +
-    dataRow('Due Date', formatDate(dueDate)) +
-    dataRow('Status', isOverdue ? `<span style="color: ${colors.error}; font-weight: 600;">Overdue</span>` : `<span style="color: ${colors.warning}; font-weight: 600;">Due Soon</span>`)
+    dataRow(t('email.paymentReminder.pool'), poolName) +
+    dataRow(t('email.paymentReminder.round'), t('email.paymentReminder.roundOf', { round, total: totalRounds })) +
+    dataRow(t('email.paymentReminder.amountDue'), amountText) +
+    dataRow(t('email.paymentReminder.dueDate'), formatDate(dueDate, 'long', locale)) +
+    dataRow(t('email.paymentReminder.status'), isOverdue
+      ? `<span style="color: ${colors.error}; font-weight: 600;">${t('email.paymentReminder.statusOverdue')}</span>`
+      : `<span style="color: ${colors.warning}; font-weight: 600;">${t('email.paymentReminder.statusDueSoon')}</span>`)
   );
 
   content += divider();
 
   // Payment methods section
-  content += heading('How to Pay', 2);
+  content += heading(t('email.paymentReminder.howToPay'), 2);
   content += paragraph(
-    'Please send your contribution using one of the following payment methods:',
+    t('email.paymentReminder.methodsIntro'),
     { muted: true }
   );
   content += paymentMethodsHtml;
@@ -84,63 +105,73 @@ export function paymentReminderTemplate(data: PaymentReminderData): string {
   // Important note
   content += highlightBox(
     `<p style="margin: 0; font-size: 14px; color: ${colors.text};">
-      <strong>Important:</strong> After making your payment, please mark it as paid in the app so the pool admin can verify it.
+      <strong>${t('email.paymentReminder.important')}</strong> ${t('email.paymentReminder.markAsPaid')}
     </p>`,
     'info'
   );
 
   // Generate the full email
   return baseTemplate({
-    title: isOverdue ? `Overdue Payment Reminder - ${poolName}` : `Payment Reminder - ${poolName}`,
+    title: isOverdue
+      ? t('email.paymentReminder.titleOverdue', { pool: poolName })
+      : t('email.paymentReminder.title', { pool: poolName }),
     previewText: previewText || (isOverdue
-      ? `Your ${formatCurrency(amount)} contribution to ${poolName} is overdue`
-      : `Your ${formatCurrency(amount)} contribution to ${poolName} is due on ${formatDate(dueDate, 'short')}`),
+      ? t('email.paymentReminder.previewOverdue', { amount: amountText, pool: poolName })
+      : t('email.paymentReminder.preview', { amount: amountText, pool: poolName, date: formatDate(dueDate, 'short', locale) })),
     content,
     ctaButton: paymentLink ? {
-      text: 'Make Payment',
+      text: t('email.paymentReminder.makePayment'),
       url: paymentLink,
       color: isOverdue ? colors.error : colors.primary,
     } : {
-      text: 'View Pool',
+      text: t('email.paymentReminder.viewPool'),
       url: `${appUrl}/pools`,
       color: isOverdue ? colors.error : colors.primary,
     },
-    footerText: 'You received this email because you are a member of a savings pool on Juntas Seguras.',
+    footerText: t('email.paymentReminder.footer'),
+    locale,
   });
 }
 
 // Helper to build payment methods section with links
 function buildPaymentMethodsSection(
   methods: PaymentReminderData['adminPaymentMethods'],
-  amount: number
+  amount: number,
+  currency: string,
+  t: Translator
 ): string {
   const methodsList: string[] = [];
 
+  // Apps that can't send the pool's currency are listed without a link
   if (methods.venmo) {
-    const venmoUrl = `https://venmo.com/${methods.venmo}?txn=pay&amount=${amount}&note=${encodeURIComponent('Pool contribution')}`;
-    methodsList.push(createPaymentMethodRow('Venmo', methods.venmo, venmoUrl, methods.preferred === 'venmo'));
+    const venmoUrl = supportsDeepLinkIn('venmo', currency)
+      ? `https://venmo.com/${methods.venmo}?txn=pay&amount=${amount}&note=${encodeURIComponent(t('email.paymentReminder.paymentNote'))}`
+      : null;
+    methodsList.push(createPaymentMethodRow('Venmo', methods.venmo, venmoUrl, methods.preferred === 'venmo', t));
   }
 
   if (methods.cashapp) {
     const cashtag = methods.cashapp.startsWith('$') ? methods.cashapp : `$${methods.cashapp}`;
-    const cashappUrl = `https://cash.app/${cashtag}/${amount}`;
-    methodsList.push(createPaymentMethodRow('Cash App', cashtag, cashappUrl, methods.preferred === 'cashapp'));
+    const cashappUrl = supportsDeepLinkIn('cashapp', currency) ? `https://cash.app/${cashtag}/${amount}` : null;
+    methodsList.push(createPaymentMethodRow('Cash App', cashtag, cashappUrl, methods.preferred === 'cashapp', t));
   }
 
   if (methods.paypal) {
-    const paypalUrl = `https://paypal.me/${methods.paypal}/${amount}`;
-    methodsList.push(createPaymentMethodRow('PayPal', methods.paypal, paypalUrl, methods.preferred === 'paypal'));
+    const paypalUrl = supportsDeepLinkIn('paypal', currency)
+      ? `https://paypal.me/${methods.paypal}/${amount}${currency}`
+      : null;
+    methodsList.push(createPaymentMethodRow('PayPal', methods.paypal, paypalUrl, methods.preferred === 'paypal', t));
   }
 
   if (methods.zelle) {
     // Zelle doesn't have deep linking, just show the identifier
-    methodsList.push(createPaymentMethodRow('Zelle', methods.zelle, null, methods.preferred === 'zelle'));
+    methodsList.push(createPaymentMethodRow('Zelle', methods.zelle, null, methods.preferred === 'zelle', t));
   }
 
   if (methodsList.length === 0) {
     return `
       <p style="margin: 16px 0; padding: 16px; background-color: #fef3c7; border-radius: 8px; font-size: 14px; color: ${colors.warning};">
-        No payment methods have been configured by the pool admin. Please contact them for payment instructions.
+        ${t('email.paymentReminder.noMethods')}
       </p>
     `;
   }
@@ -157,15 +188,16 @@ function createPaymentMethodRow(
   name: string,
   handle: string,
   url: string | null,
-  isPreferred: boolean
+  isPreferred: boolean,
+  t: Translator
 ): string {
   const preferredBadge = isPreferred
-    ? `<span style="margin-left: 8px; display: inline-block; padding: 2px 8px; background-color: #d1fae5; color: ${colors.success}; font-size: 11px; font-weight: 600; border-radius: 9999px;">Preferred</span>`
+    ? `<span style="margin-left: 8px; display: inline-block; padding: 2px 8px; background-color: #d1fae5; color: ${colors.success}; font-size: 11px; font-weight: 600; border-radius: 9999px;">${t('email.paymentReminder.preferred')}</span>`
     : '';
 
   const actionHtml = url
-    ? `<a href="${escapeHtml(url)}" style="color: ${colors.primary}; text-decoration: none; font-weight: 500;">Pay Now &rarr;</a>`
-    : `<span style="color: ${colors.textLight}; font-size: 13px;">Send directly to this ${name === 'Zelle' ? 'email/phone' : 'account'}</span>`;
+    ? `<a href="${escapeHtml(url)}" style="color: ${colors.primary}; text-decoration: none; font-weight: 500;">${t('email.paymentReminder.payNow')} &rarr;</a>`
+    : `<span style="color: ${colors.textLight}; font-size: 13px;">${t(name === 'Zelle' ? 'email.paymentReminder.sendToZelle' : 'email.paymentReminder.sendToAccount')}</span>`;
 
   return `
     <tr>
@@ -199,48 +231,59 @@ export function paymentReminderPlainText(data: PaymentReminderData): string {
     adminPaymentMethods,
     isOverdue = false,
     daysOverdue = 0,
+    locale = DEFAULT_LOCALE,
+    currency = 'USD',
   } = data;
 
-  const greeting = recipientName ? `Hi ${recipientName},` : 'Hi,';
+  const t = createTranslator(locale);
+  const greeting = recipientName ? t('email.greeting', { name: recipientName }) : t('email.greetingAnonymous');
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const preferred = (method: string) =>
+    adminPaymentMethods.preferred === method ? ` (${t('email.paymentReminder.preferred')})` : '';
 
   let text = `${greeting}\n\n`;
 
   if (isOverdue && daysOverdue > 0) {
-    text += `URGENT: Your contribution is ${daysOverdue} day(s) overdue!\n\n`;
+    text += `${t('email.paymentReminder.overdueUrgent', { days: t('email.days', { count: daysOverdue }) })}\n\n`;
   } else {
-    text += `This is a friendly reminder that your contribution for "${poolName}" is due soon.\n\n`;
+    text += `${t('email.paymentReminder.dueSoon', { pool: `"${poolName}"` })}\n\n`;
   }
 
-  text += `PAYMENT DETAILS\n`;
-  text += `---------------\n`;
-  text += `Pool: ${poolName}\n`;
-  text += `Round: ${round} of ${totalRounds}\n`;
-  text += `Amount Due: ${formatCurrency(amount)}\n`;
-  text += `Due Date: ${formatDate(dueDate)}\n`;
-  text += `Status: ${isOverdue ? 'OVERDUE' : 'Due Soon'}\n\n`;
+  text += sectionHeading(t('email.paymentReminder.details'), locale);
+  text += `${t('email.paymentReminder.pool')}: ${poolName}\n`;
+  text += `${t('email.paymentReminder.round')}: ${t('email.paymentReminder.roundOf', { round, total: totalRounds })}\n`;
+  text += `${t('email.paymentReminder.amountDue')}: ${formatCurrency(amount, currency, locale)}\n`;
+  text += `${t('email.paymentReminder.dueDate')}: ${formatDate(dueDate, 'long', locale)}\n`;
+  text += `${t('email.paymentReminder.status')}: ${isOverdue
+    ? t('email.paymentReminder.statusOverdue').toLocaleUpperCase(locale)
+    : t('email.paymentReminder.statusDueSoon')}\n\n`;
 
-  text += `HOW TO PAY\n`;
-  text += `----------\n`;
+  text += sectionHeading(t('email.paymentReminder.howToPay'), locale);
 
   if (adminPaymentMethods.venmo) {
-    text += `Venmo: ${adminPaymentMethods.venmo}${adminPaymentMethods.preferred === 'venmo' ? ' (Preferred)' : ''}\n`;
+    text += `Venmo: ${adminPaymentMethods.venmo}${preferred('venmo')}\n`;
   }
   if (adminPaymentMethods.cashapp) {
     const cashtag = adminPaymentMethods.cashapp.startsWith('$') ? adminPaymentMethods.cashapp : `$${adminPaymentMethods.cashapp}`;
-    text += `Cash App: ${cashtag}${adminPaymentMethods.preferred === 'cashapp' ? ' (Preferred)' : ''}\n`;
+    text += `Cash App: ${cashtag}${preferred('cashapp')}\n`;
   }
   if (adminPaymentMethods.paypal) {
-    text += `PayPal: ${adminPaymentMethods.paypal}${adminPaymentMethods.preferred === 'paypal' ? ' (Preferred)' : ''}\n`;
+    text += `PayPal: ${adminPaymentMethods.paypal}${preferred('paypal')}\n`;
   }
   if (adminPaymentMethods.zelle) {
-    text += `Zelle: ${adminPaymentMethods.zelle}${adminPaymentMethods.preferred === 'zelle' ? ' (Preferred)' : ''}\n`;
+    text += `Zelle: ${adminPaymentMethods.zelle}${preferred('zelle')}\n`;
   }
 
-  text += `\nAfter making your payment, please mark it as paid in the app so the pool admin can verify it.\n\n`;
-  text += `View Pool: ${appUrl}/pools\n\n`;
+  text += `\n${t('email.paymentReminder.markAsPaid')}\n\n`;
+  text += `${t('email.paymentReminder.viewPool')}: ${appUrl}/pools\n\n`;
   text += `---\n`;
-  text += `You received this email because you are a member of a savings pool on Juntas Seguras.\n`;
+  text += `${t('email.paymentReminder.footer')}\n`;
 
   return text;
 }
+
+// Plain text section heading, underlined
+function sectionHeading(title: string, locale: Locale): string {
+  const upper = title.toLocaleUpperCase(locale);
+  return `${upper}\n${'-'.repeat(upper.length)}\n`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Pool Invitation Email Template
+ * Sent to someone invited to join a pool, in their language when they
+ * already have an account and in the inviter's otherwise
+ */
+
+import {
+  baseTemplate,
+  heading,
+  paragraph,
+  highlightBox,
+  dataTable,
+  dataRow,
+  escapeHtml,
+  colors,
+} from './base-template';
+import { PoolInvitationData, formatCurrency } from '../types';
+import { DEFAULT_LOCALE } from '../../../types/i18n';
+import { createTranslator, isTranslationKey, Translator } from '../../i18n/translate';
+
+/**
+ * Subject line for a pool invitation, in the recipient's language
+ */
+export function poolInvitationSubject(data: Pick<PoolInvitationData, 'poolName' | 'locale'>): string {
+  return createTranslator(data.locale || DEFAULT_LOCALE)('email.invitation.subject', { pool: data.poolName });
+}
+
+// Pool frequencies are stored in English ('weekly', 'Monthly'); unknown ones are shown as is
+function frequencyLabel(frequency: string, t: Translator): string {
+  const key = `frequency.${frequency.toLowerCase()}`;
+  return isTranslationKey(key) ? t(key) : frequency;
+}
+
+export function poolInvitationTemplate(data: PoolInvitationData): string {
+  const {
+    recipientName,
+    poolName,
+    inviterName,
+    contributionAmount,
+    frequency,
+    memberCount,
+    invitationUrl,
+    message,
+    expiresInDays,
+    previewText,
+    locale = DEFAULT_LOCALE,
+    currency = 'USD',
+  } = data;
+
+  const t = createTranslator(locale);
+  const inviter = inviterName || t('email.invitation.inviterFallback');
+  const greeting = recipientName
+    ? t('email.greeting', { name: escapeHtml(recipientName) })
+    : t('email.greetingAnonymous');
+
+  let content = '';
+
+  content += heading(t('email.invitation.heading'));
+  content += paragraph(greeting);
+  content += paragraph(t('email.invitation.intro', { inviter: escapeHtml(inviter), pool: escapeHtml(poolName) }));
+
+  content += heading(t('email.invitation.details'), 2);
+  content += dataTable(
+    dataRow(t('email.invitation.poolName'), poolName) +
+    dataRow(t('email.invitation.contribution'), formatCurrency(contributionAmount, currency, locale)) +
+    dataRow(t('email.invitation.frequency'), frequencyLabel(frequency, t)) +
+    dataRow(t('email.invitation.members'), String(memberCount))
+  );
+
+  if (message) {
+    content += highlightBox(
+      `<p style="margin: 0; font-size: 14px; color: ${colors.text};">
+        <strong>${t('email.invitation.personalMessage')}:</strong> ${escapeHtml(message)}
+      </p>`,
+      'info'
+    );
+  }
+
+  content += paragraph(t('email.invitation.acceptPrompt'));
+  content += paragraph(t('email.invitation.copyLink'), { muted: true });
+  content += paragraph(
+    `<span style="font-size: 14px; word-break: break-all;">${escapeHtml(invitationUrl)}</span>`,
+    { muted: true }
+  );
+  content += paragraph(
+    t('email.invitation.expires', { days: t('email.days', { count: expiresInDays }) }),
+    { muted: true }
+  );
+
+  return baseTemplate({
+    title: t('email.invitation.subject', { pool: poolName }),
+    previewText: previewText || t('email.invitation.preview', { inviter, pool: poolName }),
+    content,
+    ctaButton: {
+      text: t('email.invitation.join'),
+      url: invitationUrl,
+    },
+    footerText: t('email.invitation.footer'),
+    locale,
+  });
+}
+
+// Plain text version
+export function poolInvitationPlainText(data: PoolInvitationData): string {
+  const {
+    recipientName,
+    poolName,
+    inviterName,
+    contributionAmount,
+    frequency,
+    memberCount,
+    invitationUrl,
+    message,
+    expiresInDays,
+    locale = DEFAULT_LOCALE,
+    currency = 'USD',
+  } = data;
+
+  const t = createTranslator(locale);
+  const inviter = inviterName || t('email.invitation.inviterFallback');
+  const greeting = recipientName ? t('email.greeting', { name: recipientName }) : t('email.greetingAnonymous');
+
+  let text = `${t('email.invitation.heading')}\n\n`;
+  text += `${greeting}\n\n`;
+  text += `${t('email.invitation.intro', { inviter, pool: poolName })}\n\n`;
+
+  text += `${t('email.invitation.details')}:\n`;
+  text += `- ${t('email.invitation.poolName')}: ${poolName}\n`;
+  text += `- ${t('email.invitation.contribution')}: ${formatCurrency(contributionAmount, currency, locale)}\n`;
+  text += `- ${t('email.invitation.frequency')}: ${frequencyLabel(frequency, t)}\n`;
+  text += `- ${t('email.invitation.members')}: ${memberCount}\n`;
+  if (message) {
+    text += `\n${t('email.invitation.personalMessage')}: ${message}\n`;
+  }
+
+  text += `\n${t('email.invitation.visitPrompt')}\n${invitationUrl}\n\n`;
+  text += `${t('email.invitation.expires', { days: t('email.days', { count: expiresInDays }) })}\n\n`;
+  text += `---\n`;
+  text += `${t('email.invitation.footer')}\n`;
+
+  return text;
+}
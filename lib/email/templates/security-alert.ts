@@ -0,0 +1,100 @@
+/**
+ * Security Alert Email Template
+ * Sent when an account is signed in to from a device or location it hasn't
+ * been used from before
+ */
+
+import {
+  baseTemplate,
+  heading,
+  paragraph,
+  highlightBox,
+  dataTable,
+  dataRow,
+  escapeHtml,
+  colors,
+} from './base-template';
+import { SecurityAlertData, formatDate } from '../types';
+
+const REASON_TEXT: Record<SecurityAlertData['reason'], string> = {
+  new_device: 'a device we haven\'t seen you use before',
+  new_location: 'a location we haven\'t seen you sign in from before',
+  new_device_and_location: 'a new device and location',
+};
+
+export function securityAlertTemplate(data: SecurityAlertData): string {
+  const {
+    recipientName,
+    reason,
+    occurredAt,
+    device,
+    location,
+    ipAddress,
+    previewText,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const greeting = recipientName ? `Hi ${escapeHtml(recipientName)},` : 'Hi,';
+
+  let content = '';
+
+  content += heading('New sign-in to your account');
+  content += paragraph(greeting);
+  content += paragraph(`Your account was just signed in to from ${REASON_TEXT[reason]}.`);
+
+  content += dataTable(
+    dataRow('When', formatDate(occurredAt)) +
+    dataRow('Device', device || 'Unknown device') +
+    dataRow('Location', location || 'Unknown location') +
+    (ipAddress ? dataRow('IP address', ipAddress) : '')
+  );
+
+  content += highlightBox(
+    `<p style="margin: 0; font-size: 14px; color: ${colors.text};">
+      <strong>Was this you?</strong> If so, you can ignore this email. If not, change your password right away and turn on two-factor authentication.
+    </p>`,
+    'warning'
+  );
+
+  return baseTemplate({
+    title: 'New sign-in to your account',
+    previewText: previewText || `Your account was signed in to from ${REASON_TEXT[reason]}.`,
+    content,
+    ctaButton: {
+      text: 'Review Account Activity',
+      url: `${appUrl}/profile/security/activity`,
+      color: colors.warning,
+    },
+    footerText: 'We send this email to keep your account secure. It can\'t be turned off.',
+  });
+}
+
+// Plain text version
+export function securityAlertPlainText(data: SecurityAlertData): string {
+  const {
+    recipientName,
+    reason,
+    occurredAt,
+    device,
+    location,
+    ipAddress,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const greeting = recipientName ? `Hi ${recipientName},` : 'Hi,';
+
+  let text = `${greeting}\n\n`;
+  text += `Your account was just signed in to from ${REASON_TEXT[reason]}.\n\n`;
+  text += `When: ${formatDate(occurredAt)}\n`;
+  text += `Device: ${device || 'Unknown device'}\n`;
+  text += `Location: ${location || 'Unknown location'}\n`;
+  if (ipAddress) {
+    text += `IP address: ${ipAddress}\n`;
+  }
+  text += `\nWas this you? If so, you can ignore this email. If not, change your password right away and turn on two-factor authentication.\n\n`;
+  text += `Review account activity: ${appUrl}/profile/security/activity\n\n`;
+  text += `---\n`;
+  text += `We send this email to keep your account secure.\n`;
+
+  return text;
+}
@@ -0,0 +1,134 @@
+/**
+ * Support Ticket Email Template
+ * Sent to the support inbox when a ticket is opened or the user replies, and
+ * to the user when support replies or changes the ticket's status
+ */
+
+import {
+  baseTemplate,
+  heading,
+  paragraph,
+  highlightBox,
+  dataTable,
+  dataRow,
+  escapeHtml,
+  colors,
+} from './base-template';
+import { SupportTicketEmailData, SupportTicketEvent } from '../types';
+
+const HEADINGS: Record<SupportTicketEvent, string> = {
+  new_ticket: 'New support ticket',
+  ticket_updated: 'Your support ticket was updated',
+  support_response: 'Support replied to your ticket',
+  user_response: 'New reply on a support ticket',
+};
+
+function statusLabel(status: string): string {
+  return status.replace(/_/g, ' ');
+}
+
+function summary(data: SupportTicketEmailData): string {
+  switch (data.event) {
+    case 'new_ticket':
+      return `${data.fromName || 'A user'} opened ticket ${data.ticketId}.`;
+    case 'ticket_updated':
+      return `Ticket ${data.ticketId} is now ${statusLabel(data.status)}.`;
+    case 'support_response':
+      return `${data.fromName || 'Our support team'} replied to ticket ${data.ticketId}.`;
+    case 'user_response':
+      return `${data.fromName || 'The user'} replied to ticket ${data.ticketId}.`;
+  }
+}
+
+export function supportTicketSubject(data: SupportTicketEmailData): string {
+  const prefix = data.event === 'new_ticket' ? `[${data.category || 'general'}] ` : 'Re: ';
+  return `${prefix}${data.subject} (${data.ticketId})`;
+}
+
+export function supportTicketTemplate(data: SupportTicketEmailData): string {
+  const {
+    event,
+    recipientName,
+    ticketId,
+    subject,
+    status,
+    category,
+    priority,
+    fromEmail,
+    message,
+    previewText,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const greeting = recipientName ? `Hi ${escapeHtml(recipientName)},` : 'Hi,';
+  const toStaff = event === 'new_ticket' || event === 'user_response';
+
+  let content = '';
+
+  content += heading(HEADINGS[event]);
+  if (!toStaff) {
+    content += paragraph(greeting);
+  }
+  content += paragraph(escapeHtml(summary(data)));
+
+  content += dataTable(
+    dataRow('Ticket', ticketId) +
+    dataRow('Subject', subject) +
+    dataRow('Status', statusLabel(status)) +
+    (toStaff && category ? dataRow('Category', category) : '') +
+    (toStaff && priority ? dataRow('Priority', priority) : '') +
+    (toStaff && fromEmail ? dataRow('From', fromEmail) : '')
+  );
+
+  if (message) {
+    content += highlightBox(
+      `<p style="margin: 0; font-size: 14px; color: ${colors.text}; white-space: pre-line;">${escapeHtml(message)}</p>`
+    );
+  }
+
+  return baseTemplate({
+    title: HEADINGS[event],
+    previewText: previewText || summary(data),
+    content,
+    ctaButton: {
+      text: 'View Ticket',
+      url: `${appUrl}/help/support`,
+    },
+    footerText: 'Reply in the help center so the response stays with the ticket.',
+  });
+}
+
+// Plain text version
+export function supportTicketPlainText(data: SupportTicketEmailData): string {
+  const {
+    event,
+    recipientName,
+    ticketId,
+    subject,
+    status,
+    category,
+    priority,
+    fromEmail,
+    message,
+  } = data;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://juntasseguras.com';
+  const toStaff = event === 'new_ticket' || event === 'user_response';
+
+  let text = toStaff ? '' : `${recipientName ? `Hi ${recipientName},` : 'Hi,'}\n\n`;
+  text += `${summary(data)}\n\n`;
+  text += `Ticket: ${ticketId}\n`;
+  text += `Subject: ${subject}\n`;
+  text += `Status: ${statusLabel(status)}\n`;
+  if (toStaff) {
+    if (category) text += `Category: ${category}\n`;
+    if (priority) text += `Priority: ${priority}\n`;
+    if (fromEmail) text += `From: ${fromEmail}\n`;
+  }
+  if (message) {
+    text += `\n${message}\n`;
+  }
+  text += `\nView ticket: ${appUrl}/help/support\n`;
+
+  return text;
+}
@@ -2,6 +2,12 @@
  * Email service types and interfaces
  */
 
+import type { Locale } from '../../types/i18n';
+import {
+  formatCurrency as formatCurrencyForLocale,
+  formatDate as formatDateForLocale,
+} from '../i18n/format';
+
 export interface EmailAddress {
   email: string;
   name?: string;
@@ -26,13 +32,28 @@ export interface SendEmailOptions {
   attachments?: EmailAttachment[];
   headers?: Record<string, string>;
   tags?: string[];
+  priority?: EmailPriority;
 }
 
+// Account and security mail (codes, password resets, alerts) is 'high': it's
+// sent first, isn't held back by per-recipient rate limits, and still reaches
+// addresses that are only suppressed for a complaint
+export type EmailPriority = 'high' | 'normal';
+
+export type EmailMessageStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'suppressed';
+
+export type EmailSuppressionReason = 'hard_bounce' | 'soft_bounce' | 'complaint';
+
 export interface SendEmailResult {
   success: boolean;
   messageId?: string;
   error?: string;
   provider: string;
+  // Set by the queue: 'queued' means accepted and waiting for a retry
+  status?: EmailMessageStatus;
+  queueId?: string;
+  // Set by providers when retrying can't help (e.g. an SMTP 5xx rejection)
+  permanent?: boolean;
 }
 
 export interface EmailProvider {
@@ -43,6 +64,11 @@ export interface EmailProvider {
 
 export interface EmailServiceConfig {
   defaultFrom: EmailAddress | string;
+  // 'capture' keeps mail in memory (and on disk if a directory is set) instead of sending it
+  provider?: 'smtp' | 'capture';
+  capture?: {
+    directory?: string;
+  };
   // SMTP config
   smtp: {
     host?: string;
@@ -60,11 +86,13 @@ export interface EmailServiceConfig {
 export interface BaseTemplateData {
   recipientName?: string;
   previewText?: string;
+  locale?: Locale;             // Recipient's language (English when not set)
 }
 
 export interface PaymentReminderData extends BaseTemplateData {
   poolName: string;
   amount: number;
+  currency?: string;           // The pool's currency (USD when not set)
   dueDate: string;
   round: number;
   totalRounds: number;
@@ -80,11 +108,24 @@ export interface PaymentReminderData extends BaseTemplateData {
   daysOverdue?: number;
 }
 
+export interface PoolInvitationData extends BaseTemplateData {
+  poolName: string;
+  inviterName?: string;
+  contributionAmount: number;
+  currency?: string;
+  frequency: string;
+  memberCount: number;
+  invitationUrl: string;
+  message?: string;            // Personal message from the inviter
+  expiresInDays: number;
+}
+
 export interface AdminPayoutReminderData extends BaseTemplateData {
   poolName: string;
   recipientName: string;
   recipientEmail: string;
   payoutAmount: number;
+  currency?: string;
   round: number;
   totalRounds: number;
   payoutMethod?: {
@@ -117,24 +158,61 @@ export interface RoundUpdateData extends BaseTemplateData {
   poolLink: string;
 }
 
+export interface DigestEmailItem {
+  source: 'reminder' | 'mention' | 'activity';
+  title: string;
+  body?: string;
+  url?: string;
+  occurredAt: string | Date;
+}
+
+export interface DigestEmailData extends BaseTemplateData {
+  frequency: 'daily' | 'weekly';
+  sections: Array<{
+    poolName: string;
+    poolLink?: string;
+    items: DigestEmailItem[];
+  }>;
+  totalItems: number;
+  timezone?: string;
+}
+
+export interface SecurityAlertData extends BaseTemplateData {
+  reason: 'new_device' | 'new_location' | 'new_device_and_location';
+  occurredAt: string;
+  device?: string;
+  location?: string;
+  ipAddress?: string;
+}
+
+export interface BackupCodeUsedData extends BaseTemplateData {
+  remaining: number;
+  occurredAt: string;
+  device?: string;
+  location?: string;
+  ipAddress?: string;
+}
+
+export type SupportTicketEvent = 'new_ticket' | 'ticket_updated' | 'support_response' | 'user_response';
+
+export interface SupportTicketEmailData extends BaseTemplateData {
+  event: SupportTicketEvent;
+  ticketId: string;
+  subject: string;
+  status: string;
+  category?: string;
+  priority?: string;
+  fromName?: string;           // Who opened the ticket or wrote the response
+  fromEmail?: string;
+  message?: string;            // The ticket's message, or the new response
+}
+
 // Currency formatter helper
-export function formatCurrency(amount: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-  }).format(amount);
+export function formatCurrency(amount: number, currency: string = 'USD', locale?: Locale): string {
+  return formatCurrencyForLocale(amount, locale, currency);
 }
 
 // Date formatter helper
-export function formatDate(date: string | Date, format: 'short' | 'long' = 'long'): string {
-  const d = typeof date === 'string' ? new Date(date) : date;
-  if (format === 'short') {
-    return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  }
-  return d.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
+export function formatDate(date: string | Date, format: 'short' | 'long' = 'long', locale?: Locale): string {
+  return formatDateForLocale(date, locale, format);
 }
@@ -0,0 +1,47 @@
+/**
+ * CSV writer
+ *
+ * RFC 4180 output with CRLF line breaks and a UTF-8 byte order mark so
+ * spreadsheet apps detect the encoding. Text cells that start with a formula
+ * character are prefixed with a quote so they open as text, not formulas.
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+}
+
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Format one cell, quoting it when needed
+ */
+export function formatCsvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'string') return String(value);
+
+  let text = value;
+  if (FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Build a CSV document from rows and column definitions
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [
+    columns.map(column => formatCsvCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => formatCsvCell(column.value(row))).join(',')),
+  ];
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,89 @@
+/**
+ * Payment history exports
+ *
+ * CSV includes every row of the history, whatever its status, so it matches
+ * the payments page. OFX is meant for import into finance apps, so it only
+ * includes money that actually moved.
+ */
+
+import { toCsv, CsvColumn } from './csv';
+import { toOfx } from './ofx';
+import { TransactionStatus, TransactionType } from '../../types/payment';
+import type { PaymentHistoryItem } from '../payments/history';
+
+export type HistoryExportFormat = 'csv' | 'ofx';
+
+export const HISTORY_EXPORT_FORMATS: HistoryExportFormat[] = ['csv', 'ofx'];
+
+// Money received by the member; every other type is money they paid
+const INCOMING_TYPES: string[] = [
+  TransactionType.PAYOUT,
+  TransactionType.REFUND,
+  TransactionType.WITHDRAWAL,
+  TransactionType.ESCROW_RELEASE,
+];
+
+const SETTLED_STATUSES: string[] = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.ESCROWED,
+  TransactionStatus.RELEASED,
+];
+
+const CSV_COLUMNS: CsvColumn<PaymentHistoryItem>[] = [
+  { header: 'Date', value: tx => new Date(tx.createdAt).toISOString().slice(0, 10) },
+  { header: 'Pool', value: tx => tx.poolName },
+  { header: 'Type', value: tx => tx.type },
+  { header: 'Description', value: tx => tx.description },
+  { header: 'Round', value: tx => tx.round },
+  { header: 'Amount', value: tx => getSignedAmount(tx).toFixed(2) },
+  { header: 'Currency', value: tx => tx.currency },
+  { header: 'Status', value: tx => tx.status },
+  { header: 'Reference', value: tx => tx.paymentId },
+];
+
+/**
+ * Amount from the member's point of view: negative when they paid
+ */
+export function getSignedAmount(tx: Pick<PaymentHistoryItem, 'type' | 'amount'>): number {
+  const amount = Math.abs(tx.amount);
+  return INCOMING_TYPES.includes(tx.type) ? amount : -amount;
+}
+
+/**
+ * Export payment history as CSV
+ */
+export function paymentHistoryToCsv(transactions: PaymentHistoryItem[]): string {
+  return toCsv(transactions, CSV_COLUMNS);
+}
+
+/**
+ * Export settled payment history as OFX
+ */
+export function paymentHistoryToOfx(
+  transactions: PaymentHistoryItem[],
+  options: { accountId: string; startDate?: Date; endDate?: Date; generatedAt?: Date }
+): string {
+  const settled = transactions.filter(tx => SETTLED_STATUSES.includes(tx.status));
+
+  return toOfx({
+    accountId: options.accountId,
+    currency: settled[0]?.currency || 'USD',
+    startDate: options.startDate,
+    endDate: options.endDate,
+    generatedAt: options.generatedAt,
+    transactions: settled.map(tx => ({
+      id: tx.paymentId || tx.id,
+      date: new Date(tx.createdAt),
+      amount: getSignedAmount(tx),
+      name: tx.poolName,
+      memo: [tx.description, tx.round ? `Round ${tx.round}` : ''].filter(Boolean).join(' - '),
+    })),
+  });
+}
+
+/**
+ * Build a download filename like juntas-payments-2024-03-01.csv
+ */
+export function getHistoryExportFilename(format: HistoryExportFormat, now: Date = new Date()): string {
+  return `juntas-payments-${now.toISOString().slice(0, 10)}.${format}`;
+}
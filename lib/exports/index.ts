@@ -0,0 +1,41 @@
+/**
+ * Exports Module
+ *
+ * Components:
+ * - csv.ts / ofx.ts / pdf.ts: Format writers with no external dependencies
+ * - history.ts: CSV and OFX downloads of a user's payment history
+ * - statements.ts: Printable PDF statements for a pool and for a single round
+ *
+ * Entry points:
+ * - /api/payments/history/export: payment history as CSV or OFX
+ * - /api/pools/[id]/statement: pool statement PDF
+ * - /api/pools/[id]/rounds/[round]/statement: round statement PDF
+ */
+
+export { toCsv, formatCsvCell } from './csv';
+export type { CsvColumn, CsvValue } from './csv';
+
+export { toOfx, formatOfxDate, escapeOfx } from './ofx';
+export type { OfxStatement, OfxTransaction } from './ofx';
+
+export { renderPdf, wrapText, escapePdfText } from './pdf';
+export type { PdfLine, PdfFont, PdfDocumentOptions } from './pdf';
+
+export {
+  HISTORY_EXPORT_FORMATS,
+  getSignedAmount,
+  paymentHistoryToCsv,
+  paymentHistoryToOfx,
+  getHistoryExportFilename,
+} from './history';
+export type { HistoryExportFormat } from './history';
+
+export {
+  buildPayoutSchedule,
+  buildPoolStatementLines,
+  buildRoundStatementLines,
+  renderPoolStatement,
+  renderRoundStatement,
+  getStatementFilename,
+} from './statements';
+export type { StatementPool, PayoutScheduleRow } from './statements';
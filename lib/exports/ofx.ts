@@ -0,0 +1,129 @@
+/**
+ * OFX writer
+ *
+ * Produces an OFX 1.0.2 (SGML) bank statement, the version accepted by the
+ * widest range of personal finance apps. Amounts are signed from the member's
+ * point of view: contributions leave their account (DEBIT), payouts and
+ * refunds arrive (CREDIT).
+ */
+
+export interface OfxTransaction {
+  id: string;
+  date: Date;
+  amount: number;
+  name: string;
+  memo?: string;
+}
+
+export interface OfxStatement {
+  accountId: string;
+  currency: string;
+  transactions: OfxTransaction[];
+  startDate?: Date;
+  endDate?: Date;
+  generatedAt?: Date;
+}
+
+// OFX NAME fields are limited to 32 characters
+const MAX_NAME_LENGTH = 32;
+const MAX_MEMO_LENGTH = 255;
+
+/**
+ * Format a date as an OFX timestamp (YYYYMMDDHHMMSS, UTC)
+ */
+export function formatOfxDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+  );
+}
+
+/**
+ * Escape text for an SGML element value
+ */
+export function escapeOfx(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[\r\n]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build an OFX document for a list of transactions
+ */
+export function toOfx(statement: OfxStatement): string {
+  const generatedAt = statement.generatedAt || new Date();
+  const dates = statement.transactions.map(tx => tx.date.getTime());
+  const startDate = statement.startDate || new Date(dates.length ? Math.min(...dates) : generatedAt.getTime());
+  const endDate = statement.endDate || new Date(dates.length ? Math.max(...dates) : generatedAt.getTime());
+  const balance = statement.transactions.reduce((sum, tx) => sum + tx.amount, 0);
+
+  const header = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+  ];
+
+  const transactions = statement.transactions.flatMap(tx => [
+    '<STMTTRN>',
+    `<TRNTYPE>${tx.amount < 0 ? 'DEBIT' : 'CREDIT'}`,
+    `<DTPOSTED>${formatOfxDate(tx.date)}`,
+    `<TRNAMT>${tx.amount.toFixed(2)}`,
+    `<FITID>${escapeOfx(tx.id)}`,
+    `<NAME>${escapeOfx(tx.name).slice(0, MAX_NAME_LENGTH)}`,
+    ...(tx.memo ? [`<MEMO>${escapeOfx(tx.memo).slice(0, MAX_MEMO_LENGTH)}`] : []),
+    '</STMTTRN>',
+  ]);
+
+  const body = [
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS>',
+    '<CODE>0',
+    '<SEVERITY>INFO',
+    '</STATUS>',
+    `<DTSERVER>${formatOfxDate(generatedAt)}`,
+    '<LANGUAGE>ENG',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    '<STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS>',
+    '<CODE>0',
+    '<SEVERITY>INFO',
+    '</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${escapeOfx(statement.currency)}`,
+    '<BANKACCTFROM>',
+    '<BANKID>JUNTAS',
+    `<ACCTID>${escapeOfx(statement.accountId)}`,
+    '<ACCTTYPE>CHECKING',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${formatOfxDate(startDate)}`,
+    `<DTEND>${formatOfxDate(endDate)}`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    '<LEDGERBAL>',
+    `<BALAMT>${balance.toFixed(2)}`,
+    `<DTASOF>${formatOfxDate(endDate)}`,
+    '</LEDGERBAL>',
+    '</STMTRS>',
+    '</STMTTRNRS>',
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+  ];
+
+  return `${header.join('\r\n')}\r\n\r\n${body.join('\r\n')}\r\n`;
+}
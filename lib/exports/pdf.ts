@@ -0,0 +1,197 @@
+/**
+ * PDF writer
+ *
+ * A small text-only PDF 1.4 writer for printable statements. Documents are
+ * a list of lines on US Letter pages using the standard Helvetica and Courier
+ * fonts, so no font files are embedded. Long lines wrap, pages break
+ * automatically, and every page gets a "Page X of Y" footer.
+ *
+ * Text is encoded as WinAnsi: Latin-1 characters (accents, ñ) print as-is and
+ * anything else is replaced with '?'.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfLine {
+  text: string;
+  font?: PdfFont;
+  size?: number;
+  indent?: number;
+  spaceBefore?: number;
+}
+
+export interface PdfDocumentOptions {
+  title: string;
+  generatedAt?: Date;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FOOTER_Y = 30;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const DEFAULT_SIZE = 10;
+const LINE_SPACING = 1.4;
+
+// Average glyph widths as a fraction of the font size; Courier is exact
+const FONTS: Record<PdfFont, { resource: string; baseFont: string; charWidth: number }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica', charWidth: 0.5 },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold', charWidth: 0.55 },
+  mono: { resource: 'F3', baseFont: 'Courier', charWidth: 0.6 },
+};
+
+const WIN_ANSI_REPLACEMENTS: Record<string, string> = {
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '•': '*',
+  '…': '...',
+};
+
+/**
+ * Escape text for a PDF string literal
+ */
+export function escapePdfText(text: string): string {
+  return Array.from(text)
+    .map(char => {
+      if (WIN_ANSI_REPLACEMENTS[char]) return WIN_ANSI_REPLACEMENTS[char];
+      const code = char.charCodeAt(0);
+      if (char.length > 1 || code > 0xff || (code < 0x20 && char !== '\t')) return '?';
+      return char;
+    })
+    .join('')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Wrap text on spaces to at most maxChars per line, breaking long words
+ */
+export function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ')) {
+    let remaining = word;
+    while (remaining.length > maxChars) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(remaining.slice(0, maxChars));
+      remaining = remaining.slice(maxChars);
+    }
+
+    if (!current) {
+      current = remaining;
+    } else if (current.length + 1 + remaining.length <= maxChars) {
+      current += ` ${remaining}`;
+    } else {
+      lines.push(current);
+      current = remaining;
+    }
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * Lay out lines into pages of content stream operators
+ */
+function layoutPages(lines: PdfLine[]): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const bottom = FOOTER_Y + 24;
+
+  for (const line of lines) {
+    const font = FONTS[line.font || 'regular'];
+    const size = line.size || DEFAULT_SIZE;
+    const indent = line.indent || 0;
+    const leading = size * LINE_SPACING;
+    const maxChars = Math.max(1, Math.floor((CONTENT_WIDTH - indent) / (size * font.charWidth)));
+
+    y -= line.spaceBefore || 0;
+
+    for (const segment of wrapText(line.text, maxChars)) {
+      if (y - leading < bottom) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      if (segment) {
+        pages[pages.length - 1].push(
+          `BT /${font.resource} ${size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td (${escapePdfText(segment)}) Tj ET`
+        );
+      }
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Render lines as a PDF document
+ */
+export function renderPdf(lines: PdfLine[], options: PdfDocumentOptions): Buffer {
+  const generatedAt = options.generatedAt || new Date();
+  const pages = layoutPages(lines);
+  const pageCount = pages.length;
+
+  // Objects 1-5 are fixed; each page then adds a page object and its content stream
+  const fontIds = { F1: 3, F2: 4, F3: 5 };
+  const infoId = 6;
+  const firstPageId = 7;
+  const pageIds = pages.map((_, i) => firstPageId + i * 2);
+
+  const objects: string[] = [];
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+  for (const font of Object.values(FONTS)) {
+    objects[fontIds[font.resource as keyof typeof fontIds]] =
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`;
+  }
+  objects[infoId] =
+    `<< /Title (${escapePdfText(options.title)}) /Producer (Juntas Seguras) /CreationDate (${formatPdfDate(generatedAt)}) >>`;
+
+  const fontResources = Object.entries(fontIds).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+
+  pages.forEach((operators, i) => {
+    const pageId = pageIds[i];
+    const footer = `${options.title} - Page ${i + 1} of ${pageCount}`;
+    const stream = [
+      ...operators,
+      `BT /F1 8 Tf ${MARGIN} ${FOOTER_Y} Td (${escapePdfText(footer)}) Tj ET`,
+    ].join('\n');
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontResources} >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,353 @@
+/**
+ * Printable pool and round statements
+ *
+ * Builds the lines of a PDF statement from a pool and its round history (see
+ * getPoolRounds/findPoolRound in lib/payments/rounds.ts). Statements are meant
+ * to be shared with members who aren't on the app, so they show names and
+ * amounts but never emails or payout handles.
+ */
+
+import { renderPdf, PdfLine } from './pdf';
+import { getRoundDates, ScheduleSource } from '../schedule';
+import { formatCurrency } from '../utils';
+import type { RoundHistory, PaymentStatus, PayoutStatus } from '../payments/types';
+
+interface StatementMember {
+  id: number;
+  name: string;
+  position: number;
+  payoutReceived?: boolean;
+  payoutDate?: string;
+}
+
+export interface StatementPool extends ScheduleSource {
+  id: string;
+  name: string;
+  status: string;
+  contributionAmount: number;
+  currentRound?: number;
+  totalRounds?: number;
+  currentCycle?: number;
+  nextPayoutDate?: string;
+  members: StatementMember[];
+}
+
+export interface PayoutScheduleRow {
+  round: number;
+  recipient: string;
+  date: string;
+  status: string;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Pending',
+  member_confirmed: 'Awaiting verification',
+  admin_verified: 'Verified',
+  late: 'Late',
+  missed: 'Missed',
+  excused: 'Excused',
+};
+
+const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending_collection: 'Collecting',
+  ready_to_pay: 'Ready to pay',
+  paid: 'Paid',
+  completed: 'Paid',
+};
+
+const VERIFICATION_NOTE =
+  'Verified payments were confirmed received by a pool admin. "Awaiting verification" means the member ' +
+  'reported paying and an admin has not confirmed it yet.';
+
+function formatStatementDate(date?: Date | string | null): string {
+  if (!date) return '-';
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? '-' : parsed.toISOString().slice(0, 10);
+}
+
+function heading(text: string): PdfLine {
+  return { text, font: 'bold', size: 12, spaceBefore: 14 };
+}
+
+function field(label: string, value: string): PdfLine {
+  return { text: `${label}: ${value}` };
+}
+
+/**
+ * Lay out rows as fixed-width monospace columns
+ */
+function table(columns: TableColumn[], rows: string[][]): PdfLine[] {
+  const formatRow = (cells: string[]) =>
+    columns
+      .map((column, i) => {
+        const cell = (cells[i] ?? '').slice(0, column.width);
+        return column.align === 'right' ? cell.padStart(column.width) : cell.padEnd(column.width);
+      })
+      .join('  ')
+      .trimEnd();
+
+  const header = formatRow(columns.map(c => c.header));
+
+  return [
+    { text: header, font: 'mono', size: 9, spaceBefore: 4 },
+    { text: '-'.repeat(header.length), font: 'mono', size: 9 },
+    ...rows.map(cells => ({ text: formatRow(cells), font: 'mono' as const, size: 9 })),
+  ];
+}
+
+function paymentRows(round: RoundHistory): string[][] {
+  return round.payments.map(p => [
+    p.memberName || `Member ${p.memberId}`,
+    formatCurrency(p.amount),
+    PAYMENT_STATUS_LABELS[p.status] || p.status,
+    formatStatementDate(p.memberConfirmedAt),
+    formatStatementDate(p.adminVerifiedAt),
+    p.lateFee ? formatCurrency(p.lateFee) : '-',
+  ]);
+}
+
+const PAYMENT_COLUMNS: TableColumn[] = [
+  { header: 'Member', width: 22 },
+  { header: 'Amount', width: 11, align: 'right' },
+  { header: 'Status', width: 21 },
+  { header: 'Confirmed', width: 10 },
+  { header: 'Verified', width: 10 },
+  { header: 'Late fee', width: 9, align: 'right' },
+];
+
+/**
+ * Build the payout schedule: one row per round, from the archive where the
+ * round has closed and from payout positions and the pool schedule otherwise
+ */
+export function buildPayoutSchedule(
+  pool: StatementPool,
+  rounds: RoundHistory[]
+): PayoutScheduleRow[] {
+  const currentRound = pool.currentRound || 1;
+  const totalRounds = pool.totalRounds || pool.members.length;
+  const byRound = new Map(rounds.map(r => [r.roundNumber, r]));
+  const schedule: PayoutScheduleRow[] = [];
+
+  for (let roundNumber = 1; roundNumber <= totalRounds; roundNumber++) {
+    const round = byRound.get(roundNumber);
+    const member = pool.members.find(m => m.position === roundNumber);
+    const recipient = round?.winnerName || member?.name || '-';
+
+    if (round && (round.isArchived || round.payoutStatus === 'paid')) {
+      schedule.push({
+        round: roundNumber,
+        recipient,
+        date: formatStatementDate(round.payoutCompletedAt || round.dueDate),
+        status: PAYOUT_STATUS_LABELS[round.payoutStatus] || round.payoutStatus,
+      });
+      continue;
+    }
+
+    if (roundNumber < currentRound || pool.status === 'completed') {
+      // Older pools closed rounds before the archive existed
+      schedule.push({
+        round: roundNumber,
+        recipient,
+        date: formatStatementDate(member?.payoutReceived ? member.payoutDate : undefined),
+        status: member?.payoutReceived ? 'Paid' : 'Closed',
+      });
+      continue;
+    }
+
+    const isCurrent = roundNumber === currentRound;
+    schedule.push({
+      round: roundNumber,
+      recipient,
+      // The calendar day in the pool's time zone, not the UTC date
+      date: getRoundDates(pool, roundNumber).payoutDay,
+      status: isCurrent ? PAYOUT_STATUS_LABELS[round?.payoutStatus || 'pending_collection'] : 'Scheduled',
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Lines for a statement covering the whole pool
+ */
+export function buildPoolStatementLines(
+  pool: StatementPool,
+  rounds: RoundHistory[],
+  now: Date = new Date()
+): PdfLine[] {
+  const currentRound = pool.currentRound || 1;
+  const totalRounds = pool.totalRounds || pool.members.length;
+  const liveRound = rounds.find(r => !r.isArchived);
+
+  const lines: PdfLine[] = [
+    { text: pool.name, font: 'bold', size: 16 },
+    { text: `Pool statement - generated ${formatStatementDate(now)}`, size: 9 },
+    heading('Summary'),
+    field('Status', pool.status),
+    field('Contribution', `${formatCurrency(pool.contributionAmount)} ${pool.frequency || 'weekly'}`),
+    field('Members', String(pool.members.length)),
+    field('Pot per round', formatCurrency(pool.contributionAmount * pool.members.length)),
+    field('Cycle', String((pool.currentCycle || 0) + 1)),
+    field('Current round', `${Math.min(currentRound, totalRounds)} of ${totalRounds}`),
+    field('Next payout', formatStatementDate(pool.status === 'completed' ? undefined : pool.nextPayoutDate)),
+
+    heading('Payout schedule'),
+    ...table(
+      [
+        { header: 'Round', width: 5, align: 'right' },
+        { header: 'Recipient', width: 30 },
+        { header: 'Date', width: 10 },
+        { header: 'Status', width: 14 },
+      ],
+      buildPayoutSchedule(pool, rounds).map(row => [String(row.round), row.recipient, row.date, row.status])
+    ),
+    { text: 'Dates for future rounds are estimates based on the pool schedule.', size: 8, spaceBefore: 4 },
+
+    heading('Rounds'),
+  ];
+
+  if (rounds.length === 0) {
+    lines.push({ text: 'No rounds recorded for this cycle yet.' });
+  } else {
+    lines.push(
+      ...table(
+        [
+          { header: 'Round', width: 5, align: 'right' },
+          { header: 'Due', width: 10 },
+          { header: 'Verified', width: 8, align: 'right' },
+          { header: 'Late', width: 4, align: 'right' },
+          { header: 'Missed', width: 6, align: 'right' },
+          { header: 'Collected', width: 12, align: 'right' },
+          { header: 'Payout', width: 12 },
+        ],
+        rounds.map(r => [
+          String(r.roundNumber),
+          formatStatementDate(r.dueDate),
+          `${r.paymentsVerified}/${r.totalPaymentsExpected}`,
+          String(r.paymentsLate),
+          String(r.paymentsMissed),
+          formatCurrency(r.amountCollected),
+          PAYOUT_STATUS_LABELS[r.payoutStatus] || r.payoutStatus,
+        ])
+      )
+    );
+  }
+
+  if (liveRound) {
+    lines.push(
+      heading(`Round ${liveRound.roundNumber} verification status`),
+      ...(liveRound.payments.length > 0
+        ? table(PAYMENT_COLUMNS, paymentRows(liveRound))
+        : [{ text: 'No payments recorded for this round yet.' }]),
+      { text: VERIFICATION_NOTE, size: 8, spaceBefore: 4 }
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Lines for a statement covering one round
+ */
+export function buildRoundStatementLines(
+  pool: StatementPool,
+  round: RoundHistory,
+  now: Date = new Date()
+): PdfLine[] {
+  const totalRounds = pool.totalRounds || pool.members.length;
+
+  const lines: PdfLine[] = [
+    { text: pool.name, font: 'bold', size: 16 },
+    { text: `Round ${round.roundNumber} statement - generated ${formatStatementDate(now)}`, size: 9 },
+    heading('Summary'),
+    field('Cycle', String(round.cycle + 1)),
+    field('Round', `${round.roundNumber} of ${totalRounds}`),
+    field('Due date', formatStatementDate(round.dueDate)),
+    field('Contribution', formatCurrency(round.contributionAmount)),
+    field('Pot', formatCurrency(round.potAmount)),
+    field('Recipient', round.winnerName || '-'),
+    field('Round status', round.isArchived ? 'Closed' : 'Open'),
+
+    heading('Payout'),
+    field('Status', PAYOUT_STATUS_LABELS[round.payoutStatus] || round.payoutStatus),
+    field('Paid on', formatStatementDate(round.payoutCompletedAt)),
+    field('Method', round.payoutMethod || '-'),
+  ];
+
+  if (round.payoutNotes) {
+    lines.push(field('Notes', round.payoutNotes));
+  }
+
+  lines.push(
+    heading('Contributions'),
+    field(
+      'Verified',
+      `${round.paymentsVerified} of ${round.totalPaymentsExpected} (${formatCurrency(round.amountCollected)} collected)`
+    ),
+    field('Late', String(round.paymentsLate)),
+    field('Missed', String(round.paymentsMissed)),
+    field('Excused', String(round.paymentsExcused)),
+    ...(round.payments.length > 0
+      ? table(PAYMENT_COLUMNS, paymentRows(round))
+      : [{ text: 'No payments recorded for this round.', spaceBefore: 4 }]),
+    { text: VERIFICATION_NOTE, size: 8, spaceBefore: 4 }
+  );
+
+  if (round.transactions.length > 0) {
+    lines.push(
+      heading('Transactions'),
+      ...table(
+        [
+          { header: 'Date', width: 10 },
+          { header: 'Type', width: 12 },
+          { header: 'Member', width: 26 },
+          { header: 'Amount', width: 11, align: 'right' },
+          { header: 'Status', width: 12 },
+        ],
+        round.transactions.map(t => [
+          formatStatementDate(t.date),
+          t.wasEarlyPayout ? `${t.type} (early)` : t.type,
+          t.member,
+          formatCurrency(t.amount),
+          t.status,
+        ])
+      )
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Render the pool statement PDF
+ */
+export function renderPoolStatement(pool: StatementPool, rounds: RoundHistory[], now: Date = new Date()): Buffer {
+  return renderPdf(buildPoolStatementLines(pool, rounds, now), {
+    title: `${pool.name} - Pool statement`,
+    generatedAt: now,
+  });
+}
+
+/**
+ * Render a round statement PDF
+ */
+export function renderRoundStatement(pool: StatementPool, round: RoundHistory, now: Date = new Date()): Buffer {
+  return renderPdf(buildRoundStatementLines(pool, round, now), {
+    title: `${pool.name} - Round ${round.roundNumber} statement`,
+    generatedAt: now,
+  });
+}
+
+/**
+ * Build a download filename from the pool name, e.g. family-pool-round-3.pdf
+ */
+export function getStatementFilename(poolName: string, roundNumber?: number): string {
+  const slug = poolName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'pool';
+  return roundNumber ? `${slug}-round-${roundNumber}.pdf` : `${slug}-statement.pdf`;
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ActiveSession } from '../../types/security';
+
+interface UseActiveSessionsReturn {
+  sessions: ActiveSession[];
+  isLoading: boolean;
+  error: string | null;
+  refreshSessions: () => Promise<void>;
+  revokeSession: (sessionId: string) => Promise<{ success: boolean; error?: string }>;
+  revokeAllSessions: () => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * The devices the signed-in user is signed in on, with remote sign-out
+ */
+export function useActiveSessions(): UseActiveSessionsReturn {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/security/sessions');
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to fetch sessions');
+      }
+
+      setSessions(json.data.sessions);
+    } catch (err: any) {
+      console.error('Error fetching sessions:', err);
+      setError(err.message || 'Failed to fetch sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const revokeSession = useCallback(async (sessionId: string) => {
+    try {
+      const response = await fetch(`/api/security/sessions/${encodeURIComponent(sessionId)}`, {
+        method: 'DELETE',
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to sign out device');
+      }
+
+      setSessions(prev => prev.filter(s => s.id !== sessionId));
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error signing out device:', err);
+      return { success: false, error: err.message || 'Failed to sign out device' };
+    }
+  }, []);
+
+  const revokeAllSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/security/sessions', { method: 'DELETE' });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to sign out of all devices');
+      }
+
+      setSessions([]);
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error signing out of all devices:', err);
+      return { success: false, error: err.message || 'Failed to sign out of all devices' };
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  return {
+    sessions,
+    isLoading,
+    error,
+    refreshSessions: fetchSessions,
+    revokeSession,
+    revokeAllSessions,
+  };
+}
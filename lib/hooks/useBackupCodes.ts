@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BackupCodeStatus, ReauthenticationMethod } from '../../types/security';
+
+interface UseBackupCodesReturn {
+  status: BackupCodeStatus | null;
+  enabled: boolean;
+  reauthentication: ReauthenticationMethod;
+  isLoading: boolean;
+  error: string | null;
+  refreshStatus: () => Promise<void>;
+  sendVerificationCode: () => Promise<{ success: boolean; error?: string }>;
+  regenerateCodes: (credentials: { password?: string; code?: string }) => Promise<{
+    success: boolean;
+    codes?: string[];
+    error?: string;
+  }>;
+}
+
+/**
+ * How many MFA backup codes the signed-in user has left, and regenerating
+ * them after re-authenticating
+ */
+export function useBackupCodes(): UseBackupCodesReturn {
+  const [status, setStatus] = useState<BackupCodeStatus | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [reauthentication, setReauthentication] = useState<ReauthenticationMethod>('password');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/security/two-factor/backup-codes');
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to fetch backup codes');
+      }
+
+      setStatus(json.data.status);
+      setEnabled(json.data.enabled);
+      setReauthentication(json.data.reauthentication);
+    } catch (err: any) {
+      console.error('Error fetching backup codes:', err);
+      setError(err.message || 'Failed to fetch backup codes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const sendVerificationCode = useCallback(async () => {
+    try {
+      const response = await fetch('/api/security/two-factor/backup-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sendCode: true }),
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to send verification code');
+      }
+
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error sending verification code:', err);
+      return { success: false, error: err.message || 'Failed to send verification code' };
+    }
+  }, []);
+
+  const regenerateCodes = useCallback(async (credentials: { password?: string; code?: string }) => {
+    try {
+      const response = await fetch('/api/security/two-factor/backup-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(credentials),
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to generate backup codes');
+      }
+
+      setStatus(json.data.status);
+      return { success: true, codes: json.data.codes as string[] };
+    } catch (err: any) {
+      console.error('Error generating backup codes:', err);
+      return { success: false, error: err.message || 'Failed to generate backup codes' };
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  return {
+    status,
+    enabled,
+    reauthentication,
+    isLoading,
+    error,
+    refreshStatus: fetchStatus,
+    sendVerificationCode,
+    regenerateCodes,
+  };
+}
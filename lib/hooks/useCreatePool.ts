@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { CreatePoolRequest } from '../../types/pool';
+import { describeContributionRange, validateContributionAmount } from '../pools/tiers';
 
 interface UseCreatePoolProps {
   onSuccess?: (poolId: string) => void;
@@ -30,9 +31,8 @@ export function useCreatePool({ onSuccess }: UseCreatePoolProps = {}): UseCreate
       return null;
     }
 
-    const contributionAmount = Number(data.contributionAmount);
-    if (!data.contributionAmount || isNaN(contributionAmount) || !Number.isInteger(contributionAmount) || contributionAmount < 1 || contributionAmount > 20) {
-      setError('Contribution amount must be between $1 and $20');
+    if (!data.contributionAmount || validateContributionAmount(Number(data.contributionAmount), data.currency, data.tier).error) {
+      setError(`Contribution amount must be between ${describeContributionRange(data.currency, data.tier)}`);
       return null;
     }
 
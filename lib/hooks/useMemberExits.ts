@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MemberExit } from '../../types/pool';
+
+interface UseMemberExitsProps {
+  poolId: string;
+  enabled?: boolean;
+}
+
+export interface MemberExitEntry extends MemberExit {
+  open: boolean;
+}
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+interface UseMemberExitsReturn {
+  exits: MemberExitEntry[];
+  refundsOwed: number;
+  outstandingDebt: number;
+  isLoading: boolean;
+  error: string | null;
+  inviteReplacement: (exitId: string, details: { name: string; email: string; phone?: string }) => Promise<ActionResult>;
+  markRefundPaid: (exitId: string) => Promise<ActionResult>;
+  markCatchUpReceived: (exitId: string) => Promise<ActionResult>;
+  settleDebt: (exitId: string, notes?: string) => Promise<ActionResult>;
+  forgiveDebt: (exitId: string, notes?: string) => Promise<ActionResult>;
+  refreshExits: () => Promise<void>;
+}
+
+export function useMemberExits({ poolId, enabled = true }: UseMemberExitsProps): UseMemberExitsReturn {
+  const [exits, setExits] = useState<MemberExitEntry[]>([]);
+  const [refundsOwed, setRefundsOwed] = useState(0);
+  const [outstandingDebt, setOutstandingDebt] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExits = useCallback(async () => {
+    if (!poolId || !enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/pools/${poolId}/exits`);
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to fetch member departures');
+      }
+
+      setExits(json.data.exits);
+      setRefundsOwed(json.data.refundsOwed);
+      setOutstandingDebt(json.data.outstandingDebt);
+    } catch (err: any) {
+      console.error('Error fetching member departures:', err);
+      setError(err.message || 'Failed to fetch member departures');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [poolId, enabled]);
+
+  // Send an action for one exit and refresh the list on success
+  const sendAction = useCallback(async (exitId: string, body: object): Promise<ActionResult> => {
+    try {
+      const response = await fetch(`/api/pools/${poolId}/exits/${exitId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        return { success: false, error: json.error || 'Request failed' };
+      }
+
+      await fetchExits();
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error updating member departure:', err);
+      return { success: false, error: err.message || 'Request failed' };
+    }
+  }, [poolId, fetchExits]);
+
+  const inviteReplacement = useCallback(
+    (exitId: string, details: { name: string; email: string; phone?: string }) =>
+      sendAction(exitId, { action: 'replace', ...details }),
+    [sendAction]
+  );
+
+  const markRefundPaid = useCallback(
+    (exitId: string) => sendAction(exitId, { action: 'refund_paid' }),
+    [sendAction]
+  );
+
+  const markCatchUpReceived = useCallback(
+    (exitId: string) => sendAction(exitId, { action: 'catch_up_received' }),
+    [sendAction]
+  );
+
+  const settleDebt = useCallback(
+    (exitId: string, notes?: string) => sendAction(exitId, { action: 'settle_debt', notes }),
+    [sendAction]
+  );
+
+  const forgiveDebt = useCallback(
+    (exitId: string, notes?: string) => sendAction(exitId, { action: 'forgive_debt', notes }),
+    [sendAction]
+  );
+
+  useEffect(() => {
+    fetchExits();
+  }, [fetchExits]);
+
+  return {
+    exits,
+    refundsOwed,
+    outstandingDebt,
+    isLoading,
+    error,
+    inviteReplacement,
+    markRefundPaid,
+    markCatchUpReceived,
+    settleDebt,
+    forgiveDebt,
+    refreshExits: fetchExits,
+  };
+}
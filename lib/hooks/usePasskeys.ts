@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from 'react';
+import { startRegistration } from '@simplewebauthn/browser';
+import { Passkey } from '../../types/security';
+
+interface UsePasskeysReturn {
+  passkeys: Passkey[];
+  usedForTwoFactor: boolean;
+  isLoading: boolean;
+  error: string | null;
+  refreshPasskeys: () => Promise<void>;
+  addPasskey: (options?: { name?: string; useForTwoFactor?: boolean }) => Promise<{ success: boolean; error?: string }>;
+  renamePasskey: (passkeyId: string, name: string) => Promise<{ success: boolean; error?: string }>;
+  removePasskey: (passkeyId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * The signed-in user's passkeys, with registration (which prompts the
+ * browser) and management
+ */
+export function usePasskeys(): UsePasskeysReturn {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [usedForTwoFactor, setUsedForTwoFactor] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPasskeys = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/security/passkeys');
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to fetch passkeys');
+      }
+
+      setPasskeys(json.data.passkeys);
+      setUsedForTwoFactor(json.data.usedForTwoFactor);
+    } catch (err: any) {
+      console.error('Error fetching passkeys:', err);
+      setError(err.message || 'Failed to fetch passkeys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const addPasskey = useCallback(async (options: { name?: string; useForTwoFactor?: boolean } = {}) => {
+    try {
+      const optionsResponse = await fetch('/api/security/passkeys/options', { method: 'POST' });
+      const optionsJson = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        throw new Error(optionsJson.error || 'Failed to add passkey');
+      }
+
+      // Prompts the user to create the passkey on their device
+      const registration = await startRegistration({ optionsJSON: optionsJson.data.options });
+
+      const response = await fetch('/api/security/passkeys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: registration, ...options }),
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to add passkey');
+      }
+
+      setPasskeys(prev => [json.data.passkey, ...prev]);
+      setUsedForTwoFactor(json.data.usedForTwoFactor);
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error adding passkey:', err);
+      // The browser rejects with NotAllowedError when the prompt is dismissed
+      if (err?.name === 'NotAllowedError') {
+        return { success: false, error: 'Passkey setup was cancelled' };
+      }
+      return { success: false, error: err.message || 'Failed to add passkey' };
+    }
+  }, []);
+
+  const renamePasskey = useCallback(async (passkeyId: string, name: string) => {
+    try {
+      const response = await fetch(`/api/security/passkeys/${encodeURIComponent(passkeyId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to rename passkey');
+      }
+
+      setPasskeys(prev => prev.map(p => (p.id === passkeyId ? json.data.passkey : p)));
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error renaming passkey:', err);
+      return { success: false, error: err.message || 'Failed to rename passkey' };
+    }
+  }, []);
+
+  const removePasskey = useCallback(async (passkeyId: string) => {
+    try {
+      const response = await fetch(`/api/security/passkeys/${encodeURIComponent(passkeyId)}`, {
+        method: 'DELETE',
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to remove passkey');
+      }
+
+      setPasskeys(prev => prev.filter(p => p.id !== passkeyId));
+      setUsedForTwoFactor(json.data.usedForTwoFactor);
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error removing passkey:', err);
+      return { success: false, error: err.message || 'Failed to remove passkey' };
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPasskeys();
+  }, [fetchPasskeys]);
+
+  return {
+    passkeys,
+    usedForTwoFactor,
+    isLoading,
+    error,
+    refreshPasskeys: fetchPasskeys,
+    addPasskey,
+    renamePasskey,
+    removePasskey,
+  };
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  PayoutBid,
+  PayoutDraw,
+  PayoutOrderStrategy,
+  PayoutSwapRequest,
+} from '../../types/pool';
+
+interface UsePayoutOrderProps {
+  poolId: string;
+}
+
+export interface PayoutOrderEntry {
+  memberId: number;
+  name: string;
+  position: number;
+  payoutReceived: boolean;
+}
+
+export interface PayoutOrderState {
+  strategy: PayoutOrderStrategy;
+  currentRound: number;
+  currentRecipientId: number | null;
+  order: PayoutOrderEntry[];
+  draw: (PayoutDraw & { verified?: boolean }) | null;
+  bids: PayoutBid[];
+  bidCount: number;
+  winningBid: PayoutBid | null;
+  swaps: PayoutSwapRequest[];
+}
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+interface UsePayoutOrderReturn {
+  payoutOrder: PayoutOrderState | null;
+  isLoading: boolean;
+  error: string | null;
+  runDraw: () => Promise<ActionResult>;
+  placeBid: (discountAmount: number) => Promise<ActionResult>;
+  resolveBids: () => Promise<ActionResult>;
+  requestSwap: (targetMemberId: number, reason?: string) => Promise<ActionResult>;
+  respondToSwap: (swapId: string, action: 'approve' | 'reject' | 'cancel') => Promise<ActionResult>;
+  refreshPayoutOrder: () => Promise<void>;
+}
+
+export function usePayoutOrder({ poolId }: UsePayoutOrderProps): UsePayoutOrderReturn {
+  const [payoutOrder, setPayoutOrder] = useState<PayoutOrderState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPayoutOrder = useCallback(async () => {
+    if (!poolId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/pools/${poolId}/payout-order`);
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to fetch payout order');
+      }
+
+      setPayoutOrder(json.data);
+    } catch (err: any) {
+      console.error('Error fetching payout order:', err);
+      setError(err.message || 'Failed to fetch payout order');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [poolId]);
+
+  // Send a request and refresh the payout order on success
+  const sendRequest = useCallback(async (url: string, method: string, body: object): Promise<ActionResult> => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        return { success: false, error: json.error || 'Request failed' };
+      }
+
+      await fetchPayoutOrder();
+      return { success: true };
+    } catch (err: any) {
+      console.error('Error updating payout order:', err);
+      return { success: false, error: err.message || 'Request failed' };
+    }
+  }, [fetchPayoutOrder]);
+
+  const runDraw = useCallback(
+    () => sendRequest(`/api/pools/${poolId}/payout-order`, 'POST', { action: 'draw' }),
+    [poolId, sendRequest]
+  );
+
+  const placeBid = useCallback(
+    (discountAmount: number) =>
+      sendRequest(`/api/pools/${poolId}/payout-order`, 'POST', { action: 'bid', discountAmount }),
+    [poolId, sendRequest]
+  );
+
+  const resolveBids = useCallback(
+    () => sendRequest(`/api/pools/${poolId}/payout-order`, 'POST', { action: 'resolve_bids' }),
+    [poolId, sendRequest]
+  );
+
+  const requestSwap = useCallback(
+    (targetMemberId: number, reason?: string) =>
+      sendRequest(`/api/pools/${poolId}/payout-order/swaps`, 'POST', { targetMemberId, reason }),
+    [poolId, sendRequest]
+  );
+
+  const respondToSwap = useCallback(
+    (swapId: string, action: 'approve' | 'reject' | 'cancel') =>
+      sendRequest(`/api/pools/${poolId}/payout-order/swaps/${swapId}`, 'PATCH', { action }),
+    [poolId, sendRequest]
+  );
+
+  useEffect(() => {
+    fetchPayoutOrder();
+  }, [fetchPayoutOrder]);
+
+  return {
+    payoutOrder,
+    isLoading,
+    error,
+    runDraw,
+    placeBid,
+    resolveBids,
+    requestSwap,
+    respondToSwap,
+    refreshPayoutOrder: fetchPayoutOrder,
+  };
+}
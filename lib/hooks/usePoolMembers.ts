@@ -42,7 +42,7 @@ interface UsePoolMembersReturn {
   error: string | null;
   addMember: (memberDetails: AddMemberParams) => Promise<{ success: boolean; error?: string; member?: PoolMember }>;
   updateMember: (params: UpdateMemberParams) => Promise<{ success: boolean; error?: string; member?: PoolMember }>;
-  removeMember: (memberId: number) => Promise<{ success: boolean; error?: string }>;
+  removeMember: (memberId: number, reason?: string) => Promise<{ success: boolean; error?: string }>;
   updatePositions: (params: UpdatePositionsParams) => Promise<{ success: boolean; error?: string }>;
   refreshMembers: () => Promise<void>;
 }
@@ -188,7 +188,7 @@ export function usePoolMembers({ poolId }: UsePoolMembersProps): UsePoolMembersR
     }
   };
 
-  const removeMember = async (memberId: number) => {
+  const removeMember = async (memberId: number, reason?: string) => {
     // Check authentication
     if (status !== 'authenticated') {
       return {
@@ -198,7 +198,10 @@ export function usePoolMembers({ poolId }: UsePoolMembersProps): UsePoolMembersR
     }
 
     try {
-      const response = await fetch(`/api/pools/${poolId}/members?memberId=${memberId}`, {
+      const query = new URLSearchParams({ memberId: String(memberId) });
+      if (reason) query.set('reason', reason);
+
+      const response = await fetch(`/api/pools/${poolId}/members?${query}`, {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json'
@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react';
+
+type PushPermission = NotificationPermission | 'unsupported';
+
+interface UsePushNotificationsReturn {
+  isSupported: boolean;
+  isConfigured: boolean;
+  isSubscribed: boolean;
+  permission: PushPermission;
+  isLoading: boolean;
+  error: string | null;
+  subscribe: () => Promise<boolean>;
+  unsubscribe: () => Promise<boolean>;
+}
+
+const SERVICE_WORKER_PATH = '/sw.js';
+
+// PushManager.subscribe expects the VAPID key as raw bytes
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+function isPushSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window;
+}
+
+export function usePushNotifications(): UsePushNotificationsReturn {
+  // Browser support is only known after hydration
+  const [isSupported, setIsSupported] = useState(false);
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [permission, setPermission] = useState<PushPermission>('unsupported');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the server key and whether this browser is already subscribed
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setIsLoading(false);
+      return;
+    }
+    setIsSupported(true);
+    setPermission(Notification.permission);
+
+    const loadStatus = async () => {
+      try {
+        const response = await fetch('/api/notifications/push');
+        const json = await response.json();
+        if (!response.ok) {
+          throw new Error(json.error || 'Failed to load push settings');
+        }
+        setPublicKey(json.data.publicKey);
+
+        const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH);
+        const subscription = await registration?.pushManager.getSubscription();
+        setIsSubscribed(!!subscription && json.data.endpoints.includes(subscription.endpoint));
+      } catch (err: any) {
+        console.error('Error loading push settings:', err);
+        setError(err.message || 'Failed to load push settings');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadStatus();
+  }, []);
+
+  const subscribe = useCallback(async (): Promise<boolean> => {
+    if (!isSupported || !publicKey) return false;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        throw new Error('Notifications are blocked in your browser settings');
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+      await navigator.serviceWorker.ready;
+
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+
+      const response = await fetch('/api/notifications/push', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ subscription: subscription.toJSON() })
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        await subscription.unsubscribe();
+        throw new Error(json.error || 'Failed to enable push notifications');
+      }
+
+      setIsSubscribed(true);
+      return true;
+    } catch (err: any) {
+      console.error('Error subscribing to push:', err);
+      setError(err.message || 'Failed to enable push notifications');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isSupported, publicKey]);
+
+  const unsubscribe = useCallback(async (): Promise<boolean> => {
+    if (!isSupported) return false;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH);
+      const subscription = await registration?.pushManager.getSubscription();
+
+      if (subscription) {
+        await fetch('/api/notifications/push', {
+          method: 'DELETE',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ endpoint: subscription.endpoint })
+        });
+        await subscription.unsubscribe();
+      }
+
+      setIsSubscribed(false);
+      return true;
+    } catch (err: any) {
+      console.error('Error unsubscribing from push:', err);
+      setError(err.message || 'Failed to disable push notifications');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isSupported]);
+
+  return {
+    isSupported,
+    isConfigured: !!publicKey,
+    isSubscribed,
+    permission,
+    isLoading,
+    error,
+    subscribe,
+    unsubscribe,
+  };
+}
@@ -9,7 +9,8 @@ import {
   CreateTicketRequest,
   UpdateTicketRequest,
   AddResponseRequest,
-  TicketStats
+  TicketStats,
+  SupportStaffMember
 } from '../../types/support';
 
 interface UseTicketsProps {
@@ -25,6 +26,7 @@ interface UseTicketsReturn {
   error: string | null;
   stats: TicketStats | null;
   selectedTicket: SupportTicket | null;
+  supportStaff: SupportStaffMember[];
   createTicket: (data: CreateTicketRequest) => Promise<{success: boolean; ticketId?: string; error?: string}>;
   updateTicket: (data: UpdateTicketRequest) => Promise<{success: boolean; ticket?: SupportTicket; error?: string}>;
   addResponse: (data: AddResponseRequest) => Promise<{success: boolean; ticket?: SupportTicket; error?: string}>;
@@ -39,6 +41,7 @@ export function useTickets({ userId, ticketId, initialData, isAdmin }: UseTicket
   const [error, setError] = useState<string | null>(null);
   const [stats, setStats] = useState<TicketStats | null>(null);
   const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null);
+  const [supportStaff, setSupportStaff] = useState<SupportStaffMember[]>([]);
 
   // Fetch tickets based on current filters
   const fetchTickets = useCallback(async () => {
@@ -71,6 +74,11 @@ export function useTickets({ userId, ticketId, initialData, isAdmin }: UseTicket
       } else if (data.tickets) {
         setTickets(data.tickets);
       }
+
+      // Staff directory is only returned to support staff
+      if (data.supportStaff) {
+        setSupportStaff(data.supportStaff);
+      }
     } catch (err: any) {
       setError(err.message || 'An error occurred while fetching tickets');
       console.error('Error fetching tickets:', err);
@@ -276,6 +284,10 @@ export function useTickets({ userId, ticketId, initialData, isAdmin }: UseTicket
       }
       
       setSelectedTicket(result.ticket);
+
+      if (result.supportStaff) {
+        setSupportStaff(result.supportStaff);
+      }
       
       return { 
         success: true, 
@@ -295,10 +307,10 @@ export function useTickets({ userId, ticketId, initialData, isAdmin }: UseTicket
 
   // Load initial data
   useEffect(() => {
-    if (!initialData && (userId || ticketId)) {
+    if (!initialData && (userId || ticketId || isAdmin)) {
       fetchTickets();
     }
-  }, [fetchTickets, initialData, userId, ticketId]);
+  }, [fetchTickets, initialData, userId, ticketId, isAdmin]);
 
   return {
     tickets,
@@ -306,6 +318,7 @@ export function useTickets({ userId, ticketId, initialData, isAdmin }: UseTicket
     error,
     stats,
     selectedTicket,
+    supportStaff,
     createTicket,
     updateTicket,
     addResponse,
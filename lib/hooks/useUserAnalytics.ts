@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AnalyticsTimeframe, UserAnalyticsReport } from '../../types/analytics';
+
+interface UseUserAnalyticsProps {
+  timeframe?: AnalyticsTimeframe;
+}
+
+interface UseUserAnalyticsReturn {
+  analytics: UserAnalyticsReport | null;
+  isLoading: boolean;
+  error: string | null;
+  refreshAnalytics: () => Promise<void>;
+}
+
+/**
+ * The signed-in user's contributions and punctuality across all their pools
+ */
+export function useUserAnalytics({ timeframe = '3months' }: UseUserAnalyticsProps = {}): UseUserAnalyticsReturn {
+  const [analytics, setAnalytics] = useState<UserAnalyticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/analytics?timeframe=${encodeURIComponent(timeframe)}`);
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to fetch analytics');
+      }
+
+      setAnalytics(json.data.analytics);
+    } catch (err: any) {
+      console.error('Error fetching analytics:', err);
+      setError(err.message || 'Failed to fetch analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [timeframe]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    refreshAnalytics: fetchAnalytics,
+  };
+}
@@ -8,6 +8,7 @@
 import useSWR from 'swr';
 import { useSession } from 'next-auth/react';
 import { fetcher, conditionalKey, stableDataConfig } from '../swr/config';
+import { ReliabilityVisibility } from '../../types/reliability';
 
 interface NotificationPreferences {
   email: {
@@ -29,11 +30,16 @@ interface SecuritySettings {
   lastPasswordChange: string;
 }
 
+interface PrivacySettings {
+  reliabilityVisibility: ReliabilityVisibility;
+}
+
 interface UserSettings {
   id: string;
   language: string;
   timezone: string;
   securitySettings: SecuritySettings;
+  privacy: PrivacySettings;
   notificationPreferences: NotificationPreferences;
 }
 
@@ -0,0 +1,63 @@
+/**
+ * Catalog completeness check, run by the i18n unit tests (and
+ * `npm run i18n:check`) so CI fails when a translation is missing or out of date
+ */
+
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, Locale, CatalogIssues } from '../../types/i18n';
+import { catalogs } from './messages';
+import { getIntlLocale } from './locales';
+
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+function placeholders(message: string): string {
+  return Array.from(new Set(message.match(/\{\w+\}/g) || [])).sort().join(' ');
+}
+
+/**
+ * Missing keys, unknown keys, and placeholder differences for one locale,
+ * compared with the default catalog
+ */
+export function findCatalogIssues(locale: Locale): CatalogIssues {
+  const source = catalogs[DEFAULT_LOCALE] as Record<string, string>;
+  const catalog = catalogs[locale] as Record<string, string | undefined>;
+  const categories = new Intl.PluralRules(getIntlLocale(locale)).resolvedOptions().pluralCategories;
+
+  const missing: string[] = [];
+  const placeholderMismatches: string[] = [];
+
+  for (const key of Object.keys(source)) {
+    const plural = key.match(PLURAL_SUFFIX);
+    // Of the plural forms, 'other' is always required and 'one' where the language has it
+    if (plural && plural[1] !== 'other' && !(plural[1] === 'one' && categories.includes('one'))) {
+      continue;
+    }
+    if (catalog[key] === undefined) missing.push(key);
+  }
+
+  const extra: string[] = [];
+  for (const [key, message] of Object.entries(catalog)) {
+    if (message === undefined) continue;
+
+    const plural = key.match(PLURAL_SUFFIX);
+    const base = plural ? key.slice(0, -plural[0].length) : key;
+    const reference = source[key] ?? (plural ? source[`${base}_other`] : undefined);
+
+    if (reference === undefined) {
+      extra.push(key);
+    } else if (placeholders(message) !== placeholders(reference)) {
+      placeholderMismatches.push(key);
+    }
+  }
+
+  return { locale, missing, extra, placeholderMismatches };
+}
+
+/**
+ * Issues for every locale other than the default, skipping complete ones
+ */
+export function findAllCatalogIssues(): CatalogIssues[] {
+  return SUPPORTED_LOCALES
+    .filter(locale => locale !== DEFAULT_LOCALE)
+    .map(findCatalogIssues)
+    .filter(issues => issues.missing.length + issues.extra.length + issues.placeholderMismatches.length > 0);
+}
@@ -0,0 +1,39 @@
+/**
+ * Locale-aware number, currency, and date formatting
+ */
+
+import { DEFAULT_LOCALE, Locale } from '../../types/i18n';
+import { getIntlLocale } from './locales';
+
+export type DateStyle = 'short' | 'medium' | 'long';
+
+const DATE_FORMATS: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  short: { month: 'short', day: 'numeric' },                                     // Mar 5
+  medium: { weekday: 'short', month: 'short', day: 'numeric' },                  // Thu, Mar 5
+  long: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },     // Thursday, March 5, 2026
+};
+
+export function formatCurrency(amount: number, locale: Locale = DEFAULT_LOCALE, currency: string = 'USD'): string {
+  return new Intl.NumberFormat(getIntlLocale(locale), {
+    style: 'currency',
+    currency,
+  }).format(amount);
+}
+
+export function formatNumber(value: number, locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(getIntlLocale(locale)).format(value);
+}
+
+/**
+ * Format a date; pass the pool's time zone so the day doesn't shift for
+ * recipients elsewhere
+ */
+export function formatDate(
+  date: string | Date,
+  locale: Locale = DEFAULT_LOCALE,
+  style: DateStyle = 'long',
+  timeZone?: string
+): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return d.toLocaleDateString(getIntlLocale(locale), { ...DATE_FORMATS[style], timeZone });
+}
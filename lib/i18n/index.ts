@@ -0,0 +1,54 @@
+/**
+ * Localization Module
+ *
+ * Components:
+ * - locales.ts: Supported locales and choosing one for a request
+ * - messages/: Translation catalogs; English is the source of every key
+ * - translate.ts: Key lookup with {placeholder} interpolation and plural forms
+ * - format.ts: Currency, number, and date formatting per locale
+ * - check.ts: Catalog completeness check (`npm run i18n:check`)
+ * - recipients.ts: A recipient's saved locale (server-only, import directly)
+ *
+ * Entry points:
+ * - contexts/LocaleContext.tsx: useTranslation() in client components
+ * - app/layout.tsx: the request's locale from the cookie or Accept-Language
+ * - /api/users/settings: saves the user's language and sets the cookie
+ */
+
+export {
+  LOCALE_COOKIE,
+  LOCALE_NAMES,
+  isSupportedLocale,
+  matchLocale,
+  resolveLocale,
+  negotiateLocale,
+  getRequestLocale,
+  getIntlLocale,
+} from './locales';
+
+export {
+  translate,
+  createTranslator,
+  interpolate,
+  isTranslationKey,
+  translateFrequency,
+  translateTransactionType,
+  translateTransactionStatus,
+} from './translate';
+
+export type { TranslationKey, Translator } from './translate';
+
+export {
+  formatCurrency,
+  formatNumber,
+  formatDate,
+} from './format';
+
+export type { DateStyle } from './format';
+
+export {
+  findCatalogIssues,
+  findAllCatalogIssues,
+} from './check';
+
+export type { MessageKey, Catalog } from './messages';
@@ -0,0 +1,81 @@
+/**
+ * Supported locales and how a request's locale is chosen
+ */
+
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, Locale } from '../../types/i18n';
+
+// Cookie holding the visitor's chosen locale, set when they save their language
+export const LOCALE_COOKIE = 'locale';
+
+// Shown in language pickers, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+};
+
+// Regional tags used for Intl number, currency, and date formatting
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-MX',
+  pt: 'pt-BR',
+};
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a language tag ('es', 'pt-BR', 'es_MX') to a supported locale, or null
+ */
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  if (!tag) return null;
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return isSupportedLocale(language) ? language : null;
+}
+
+/**
+ * A supported locale for the value, falling back to the default
+ */
+export function resolveLocale(value: string | null | undefined): Locale {
+  return matchLocale(value) || DEFAULT_LOCALE;
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...attributes] = part.trim().split(';');
+      const quality = attributes
+        .map(attr => attr.trim())
+        .find(attr => attr.startsWith('q='));
+      return { tag, q: quality ? parseFloat(quality.slice(2)) || 0 : 1, index };
+    })
+    .filter(entry => entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const entry of ranked) {
+    const locale = matchLocale(entry.tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * The locale for a request: the saved cookie, else the browser's languages
+ */
+export function getRequestLocale(
+  cookieValue: string | null | undefined,
+  acceptLanguage: string | null | undefined
+): Locale {
+  return matchLocale(cookieValue) || negotiateLocale(acceptLanguage);
+}
+
+export function getIntlLocale(locale: Locale): string {
+  return INTL_LOCALES[locale];
+}
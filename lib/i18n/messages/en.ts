@@ -0,0 +1,670 @@
+/**
+ * English catalog - the source of every translation key
+ *
+ * Placeholders are written {name}. Keys ending in _one / _other are plural
+ * forms, chosen by the `count` parameter; other languages may add the forms
+ * their plural rules need (e.g. _many).
+ */
+
+const en = {
+  // Navigation
+  'nav.dashboard': 'Dashboard',
+  'nav.myPool': 'My Pool',
+  'nav.create': 'Create',
+  'nav.payments': 'Payments',
+  'nav.help': 'Help',
+  'nav.search': 'Search',
+  'nav.logIn': 'Log in',
+  'nav.signUp': 'Sign up',
+  'nav.menu': 'Menu',
+  'nav.openMenu': 'Open menu',
+  'nav.closeMenu': 'Close menu',
+  'nav.mainNavigation': 'Main navigation',
+  'nav.mobileNavigation': 'Mobile navigation',
+  'nav.viewProfile': 'View profile',
+  'nav.userFallback': 'User',
+
+  // Settings - preferences tab
+  'settings.preferences.title': 'Account Preferences',
+  'settings.preferences.description': 'Customize your experience on Juntas Seguras',
+  'settings.preferences.language': 'Language',
+  'settings.preferences.languageHint': 'Used for the app and for the emails and reminders we send you',
+  'settings.preferences.selectLanguage': 'Select language',
+  'settings.preferences.timezone': 'Time Zone',
+  'settings.preferences.selectTimezone': 'Select time zone',
+  'settings.preferences.timezone.eastern': 'Eastern Time (ET)',
+  'settings.preferences.timezone.central': 'Central Time (CT)',
+  'settings.preferences.timezone.mountain': 'Mountain Time (MT)',
+  'settings.preferences.timezone.pacific': 'Pacific Time (PT)',
+  'settings.preferences.timezone.alaska': 'Alaska Time (AKT)',
+  'settings.preferences.timezone.hawaii': 'Hawaii Time (HT)',
+  'settings.preferences.privacy': 'Privacy Settings',
+  'settings.preferences.reliability': 'Reliability Score',
+  'settings.preferences.reliabilityHint': 'What admins of pools you join can see of your payment record across pools',
+  'settings.preferences.selectVisibility': 'Select visibility',
+  'settings.preferences.reliability.full': 'Score and payment history',
+  'settings.preferences.reliability.score': 'Score only',
+  'settings.preferences.reliability.hidden': 'Hidden',
+  'settings.preferences.profileVisibility': 'Profile Visibility',
+  'settings.preferences.profileVisibilityHint': 'Show your profile to other members in your pools',
+  'settings.preferences.activityStatus': 'Activity Status',
+  'settings.preferences.activityStatusHint': "Let other members see when you're active",
+  'settings.preferences.dataAnalytics': 'Data Analytics',
+  'settings.preferences.dataAnalyticsHint': 'Allow us to use your data to improve our services',
+  'settings.preferences.save': 'Save Preferences',
+
+  // Dashboard
+  'dashboard.title': 'My Dashboard',
+  'dashboard.welcome': 'Welcome back, {name}',
+  'dashboard.receivingPayout': "You're receiving a payout!",
+  'dashboard.viewDetails': 'View Details',
+  'dashboard.loadError.title': 'Unable to load pools',
+  'dashboard.loadError.description': "We couldn't load your pools. Please try again.",
+  'dashboard.getStarted.title': 'Start Your First Junta',
+  'dashboard.getStarted.description': 'Create a savings pool with friends or family. Everyone contributes, and each member takes turns receiving the pot.',
+  'dashboard.getStarted.createPool': 'Create a Pool',
+  'dashboard.getStarted.learnMore': 'Learn How It Works',
+  'dashboard.setup.title': 'Complete Your Pool Setup',
+  'dashboard.setup.description_one': 'Invite members to your newly created pool',
+  'dashboard.setup.description_other': 'Invite members to your newly created pools',
+  'dashboard.setup.waiting': '{amount}/{frequency} • Waiting for members',
+  'dashboard.setup.invite': 'Invite Members',
+  'dashboard.activePools': 'Your Active Pools',
+  'dashboard.newPool': 'New Pool',
+  'dashboard.stats.totalSavings': 'Total Savings',
+  'dashboard.stats.activePools': 'Active Pools',
+  'dashboard.stats.nextPayout': 'Next Payout',
+  'dashboard.stats.totalMembers': 'Total Members',
+  'dashboard.activity.title': 'Recent Activity',
+  'dashboard.activity.description': 'Latest updates from your pools',
+  'dashboard.activity.viewAll': 'View All',
+  'dashboard.activity.empty': 'No recent activity',
+
+  // Dashboard - quick actions
+  'quickActions.makePayment': 'Make Payment',
+  'quickActions.pending': '{count} pending',
+  'quickActions.allCaughtUp': 'All caught up',
+  'quickActions.createPool': 'Create Pool',
+  'quickActions.createPoolHint': 'Start a new savings pool',
+  'quickActions.inviteMembers': 'Invite Members',
+  'quickActions.inviteMembersHint': 'Grow your pool',
+  'quickActions.howItWorks': 'How It Works',
+  'quickActions.howItWorksHint': 'Learn about juntas',
+  'quickActions.createNewPool': 'Create New Pool',
+
+  // Pool statuses
+  'poolStatus.active': 'Active',
+  'poolStatus.pending': 'Pending',
+  'poolStatus.completed': 'Completed',
+  'poolStatus.paused': 'Paused',
+  'poolStatus.cancelled': 'Cancelled',
+
+  // Pool card
+  'poolCard.receiving': 'Receiving',
+  'poolCard.roundOf': 'Round {round}/{total}',
+  'poolCard.paid': 'Paid',
+  'poolCard.pay': 'Pay',
+  'poolCard.paidCount': '{paid}/{total} paid',
+  'poolCard.receivingBanner': "You're receiving {amount} this round!",
+  'poolCard.paymentDue': 'Payment of {amount} due',
+  'poolCard.round': 'Round',
+  'poolCard.members': 'Members',
+  'poolCard.payout': 'Payout',
+  'poolCard.contributions': 'Contributions: {paid}/{total}',
+  'poolCard.makePayment': 'Make Payment',
+  'poolCard.makePaymentRecipient': 'Make Payment (Recipient)',
+  'poolCard.paymentComplete': 'Payment Complete',
+
+  // Pool tiers
+  'poolTier.standard.label': 'Standard',
+  'poolTier.standard.description': 'Small pools among people who know each other.',
+  'poolTier.plus.label': 'Plus',
+  'poolTier.plus.description': 'Larger contributions. Everyone in the pool verifies their identity.',
+  'poolTier.premium.label': 'Premium',
+  'poolTier.premium.description': 'The largest pots. Verified members, a second admin approves each payout, and contributions are held for 3 days before paying out.',
+
+  // Create pool modal
+  'createPool.title': 'Create a New Savings Pool',
+  'createPool.description': 'Complete the steps below to create a new savings pool',
+  'createPool.draftRestored': 'Draft restored from your last session',
+  'createPool.startFresh': 'Start Fresh',
+  'createPool.quickCreateMode': 'Quick Create Mode',
+  'createPool.quickCreateToggle': 'Quick Create (Skip Steps)',
+  'createPool.steps.basicInfo': 'Basic Info',
+  'createPool.steps.schedule': 'Schedule',
+  'createPool.steps.inviteMembers': 'Invite Members',
+  'createPool.validationErrors': 'Validation Errors',
+  'createPool.error': 'Error',
+  'createPool.customize': 'Customize',
+  'createPool.creating': 'Creating...',
+  'createPool.quickCreate': 'Quick Create',
+  'createPool.back': 'Back',
+  'createPool.next': 'Next',
+  'createPool.submit': 'Create Pool',
+  'createPool.errors.signInRequired': 'You must be signed in to create a pool',
+  'createPool.errors.nameRequired': 'Pool name is required',
+  'createPool.errors.nameTooShort': 'Pool name must be at least 3 characters',
+  'createPool.errors.nameTooLong': 'Pool name must be less than 50 characters',
+  'createPool.errors.amountRequired': 'Contribution amount is required',
+  'createPool.errors.amountRange': 'Amount must be between {min} and {max}',
+  'createPool.errors.contributionRange': 'Contribution amount must be between {min} and {max}',
+  'createPool.errors.startDateRequired': 'Start date is required',
+  'createPool.errors.startDatePast': 'Start date cannot be in the past',
+  'createPool.errors.invalidEmails_one': 'Invalid email: {emails}',
+  'createPool.errors.invalidEmails_other': 'Invalid emails: {emails}',
+
+  // Create pool - basic info step
+  'createPool.basicInfo.name': 'Pool Name',
+  'createPool.basicInfo.namePlaceholder': 'e.g. Family Savings Pool',
+  'createPool.basicInfo.description': 'Description',
+  'createPool.basicInfo.descriptionPlaceholder': 'What is this pool for?',
+  'createPool.basicInfo.descriptionHint': 'Help members understand the purpose of this pool',
+  'createPool.basicInfo.currency': 'Currency',
+  'createPool.basicInfo.currencyHint': "Every contribution and payout is in this currency. It can't be changed later.",
+  'createPool.basicInfo.tier': 'Pool Tier',
+  'createPool.basicInfo.tierLimit': '{tier} · up to {max}',
+  'createPool.basicInfo.tierHint': "The tier sets the contribution limit and can't be changed later.",
+  'createPool.basicInfo.safeguards.identity': 'ID verification',
+  'createPool.basicInfo.safeguards.coSigner': 'admin co-signer',
+  'createPool.basicInfo.safeguards.escrow': '{days}-day escrow',
+  'createPool.basicInfo.safeguards.none': 'No extra checks',
+  'createPool.basicInfo.amount': 'Contribution Amount ({currency})',
+  'createPool.basicInfo.selectAmount': 'Select amount',
+  'createPool.basicInfo.amountHint': 'Between {min} and {max} per round',
+
+  // Create pool - schedule step
+  'createPool.schedule.frequency': 'Contribution Frequency',
+  'createPool.schedule.weekly': 'Weekly',
+  'createPool.schedule.biweekly': 'Bi-weekly',
+  'createPool.schedule.monthly': 'Monthly',
+  'createPool.schedule.members': 'Number of Members',
+  'createPool.schedule.selectMembers': 'Select number of members',
+  'createPool.schedule.memberCount': '{count} members',
+  'createPool.schedule.duration': 'Duration (months)',
+  'createPool.schedule.selectDuration': 'Select duration',
+  'createPool.schedule.months_one': '{count} month',
+  'createPool.schedule.months_other': '{count} months',
+  'createPool.schedule.startDate': 'Start Date',
+  'createPool.schedule.startDateHint': 'When should the first contribution be due?',
+  'createPool.schedule.paymentMethods': 'Allowed Payment Methods',
+  'createPool.schedule.paymentMethodsHint': 'Select which payment methods members can use in this pool',
+  'createPool.schedule.paymentMethodRequired': 'At least one payment method must be selected',
+  'createPool.schedule.payoutOrder': 'Payout Order',
+  'createPool.schedule.selectPayoutOrder': 'Select payout order',
+  'createPool.payoutOrder.fixed': 'Fixed order',
+  'createPool.payoutOrder.fixed.description': 'You set the payout order and can rearrange it later.',
+  'createPool.payoutOrder.random_draw': 'Random draw',
+  'createPool.payoutOrder.random_draw.description': 'The order is drawn at random with a seed every member can verify.',
+  'createPool.payoutOrder.bidding': 'Bidding',
+  'createPool.payoutOrder.bidding.description': "Members bid a discount to receive each round's pot early.",
+
+  // Create pool - invite members step
+  'createPool.invite.method': 'How would you like to invite members?',
+  'createPool.invite.email': 'Send email invitations',
+  'createPool.invite.link': 'Create a sharing link',
+  'createPool.invite.later': "I'll invite members later",
+  'createPool.invite.emails': 'Email Addresses (separated by commas)',
+  'createPool.invite.emailsPlaceholder': 'e.g. friend@example.com, family@example.com',
+  'createPool.invite.emailsHint': "We'll send an invitation to join your pool",
+  'createPool.invite.linkHint': "After creating this pool, you'll receive a link that you can share with potential members.",
+  'createPool.summary.title': 'Summary',
+  'createPool.summary.name': 'Pool name: {name}',
+  'createPool.summary.contribution': 'Contribution: {amount} {frequency}',
+  'createPool.summary.members': 'Members: {count}',
+  'createPool.summary.duration': 'Duration: {duration}',
+  'createPool.summary.totalValue': 'Total pool value: {amount}',
+  'createPool.summary.paymentMethods': 'Payment methods: {methods}',
+  'createPool.summary.schedule': 'Estimated Payout Schedule',
+  'createPool.summary.round': 'Round {round}:',
+  'createPool.summary.moreRounds': '... and {count} more rounds',
+  'createPool.summary.scheduleHint': '* Each member receives the pool on their assigned round',
+
+  // Create pool - quick create
+  'createPool.quick.amount': 'Amount',
+  'createPool.quick.members': 'Members',
+  'createPool.quick.frequency': 'Frequency',
+  'createPool.quick.start': 'Start',
+  'createPool.quick.totalValue': 'Total pool value:',
+  'createPool.quick.eachContributes': 'Each member contributes:',
+  'createPool.quick.firstPayout': 'First payout:',
+  'createPool.quick.switchToDetailed': 'Switch to detailed setup',
+
+  // Member statuses and roles
+  'memberStatus.current': 'Current',
+  'memberStatus.completed': 'Completed',
+  'memberStatus.upcoming': 'Upcoming',
+  'memberStatus.active': 'Active',
+  'memberStatus.inactive': 'Inactive',
+  'memberStatus.suspended': 'Suspended',
+  'memberRole.admin': 'Admin',
+  'memberRole.member': 'Member',
+  'memberRole.creator': 'Creator',
+  'memberRole.treasurer': 'Treasurer',
+  'memberRole.moderator': 'Moderator',
+  'memberRole.viewer': 'Viewer',
+
+  // Transactions
+  'transactionType.contribution': 'Contribution',
+  'transactionType.payout': 'Payout',
+  'transactionType.deposit': 'Deposit',
+  'transactionType.withdrawal': 'Withdrawal',
+  'transactionType.escrow': 'Escrow',
+  'transactionType.refund': 'Refund',
+  'transactionStatus.pending': 'Pending',
+  'transactionStatus.processing': 'Processing',
+  'transactionStatus.completed': 'Completed',
+  'transactionStatus.failed': 'Failed',
+  'transactionStatus.scheduled': 'Scheduled',
+  'transactionStatus.cancelled': 'Cancelled',
+  'transactionStatus.escrowed': 'Escrowed',
+  'transactionStatus.released': 'Released',
+
+  // Pool page
+  'poolPage.notAvailable': 'N/A',
+  'poolPage.loading': 'Loading pool details...',
+  'poolPage.error': 'Error',
+  'poolPage.notFound.title': 'Pool Not Found',
+  'poolPage.notFound.description': 'The requested pool could not be found.',
+  'poolPage.backToPools': 'Back to My Pools',
+  'poolPage.payment.cancelled': 'Payment was cancelled. You can try again when ready.',
+  'poolPage.payment.succeeded': 'Payment successful! Your contribution has been recorded.',
+  'poolPage.payment.failed': 'Failed to complete payment. Please contact support.',
+  'poolPage.payment.error': 'An error occurred while processing your payment.',
+  'poolPage.payment.processing': 'Processing Payment',
+  'poolPage.payment.processingHint': 'Please wait while we complete your payment...',
+  'poolPage.payment.successTitle': 'Payment Successful!',
+  'poolPage.payment.issueTitle': 'Payment Issue',
+  'poolPage.createdOn': 'Created on {date}',
+  'poolPage.share': 'Share',
+  'poolPage.settings': 'Settings',
+  'poolPage.deletePool': 'Delete Pool',
+  'poolPage.loadingShort': 'Loading...',
+  'poolPage.paymentMade': 'Payment Made',
+  'poolPage.makePayment': 'Make Payment',
+  'poolPage.makePaymentRecipient': 'Make Payment (Recipient)',
+  'poolPage.stats.totalPool': 'Total Pool',
+  'poolPage.stats.nextPayout': 'Next Payout',
+  'poolPage.stats.round': 'Round',
+  'poolPage.stats.roundOf': '{round} of {total}',
+  'poolPage.stats.members': 'Members',
+  'poolPage.progress.title': 'Pool Progress',
+  'poolPage.progress.description': '{round} of {total} rounds completed',
+  'poolPage.progress.inProgress': 'In Progress',
+  'poolPage.tabs.contributions': 'Contributions',
+  'poolPage.tabs.payouts': 'Payouts',
+  'poolPage.tabs.members': 'Members',
+  'poolPage.tabs.transactions': 'Transactions',
+  'poolPage.tabs.discussion': 'Discussion',
+  'poolPage.tabs.rules': 'Rules',
+  'poolPage.members.title': 'Pool Members',
+  'poolPage.members.invite': 'Invite Member',
+  'poolPage.members.manage': 'Manage Members',
+  'poolPage.members.member': 'Member',
+  'poolPage.members.position': 'Position',
+  'poolPage.members.status': 'Status',
+  'poolPage.members.joined': 'Joined',
+  'poolPage.members.role': 'Role',
+  'poolPage.members.actions': 'Actions',
+  'poolPage.transactions.title': 'Transaction History',
+  'poolPage.transactions.statement': 'Statement',
+  'poolPage.transactions.poolStatement': 'Pool statement (PDF)',
+  'poolPage.transactions.roundStatement': 'Round {round} statement (PDF)',
+  'poolPage.transactions.type': 'Type',
+  'poolPage.transactions.member': 'Member',
+  'poolPage.transactions.amount': 'Amount',
+  'poolPage.transactions.date': 'Date',
+  'poolPage.transactions.status': 'Status',
+  'poolPage.transactions.empty': 'No transactions yet. Contributions will appear here.',
+  'poolPage.discussion.title': 'Group Discussion',
+  'poolPage.discussion.description': 'Communicate with other members of this pool',
+  'poolPage.discussion.loadError': 'Error loading messages',
+  'poolPage.discussion.empty': 'No messages yet. Start the conversation!',
+  'poolPage.discussion.placeholder': 'Type your message...',
+  'poolPage.rules.title': 'Pool Rules',
+  'poolPage.rules.description': 'Guidelines and terms for this savings pool',
+  'poolPage.rules.contributions': 'Contribution Rules',
+  'poolPage.rules.contributionAmount': "All members must contribute {amount} {frequency}, including the round's payout recipient.",
+  'poolPage.rules.contributionMethods': 'Contributions are made manually via Venmo, PayPal, Zelle, or Cash App directly to the pool admin.',
+  'poolPage.rules.dueByFrequency': 'Payments are due {frequency} before the scheduled payout.',
+  'poolPage.rules.dueByDate': 'Payments are due by {date} (the day before the payout).',
+  'poolPage.rules.markCompleted': 'After sending your payment, mark it as completed in the app so the admin can verify receipt.',
+  'poolPage.rules.missedPayments': 'Members who fail to make payments on time will receive a warning. After two missed payments, they may be removed from future pools.',
+  'poolPage.rules.payouts': 'Payout Rules',
+  'poolPage.rules.payoutOrder': 'The payout order was determined randomly at the start of the pool.',
+  'poolPage.rules.payoutAmount': 'Each member will receive one payout of {amount} during their assigned round.',
+  'poolPage.rules.payoutMethods': 'Payouts are sent by the pool admin via your preferred payment method (Venmo, PayPal, Zelle, or Cash App).',
+  'poolPage.rules.payoutSetup': 'Make sure to set up your payout method in the Payouts tab to receive funds.',
+  'poolPage.rules.members': 'Member Rules',
+  'poolPage.rules.leaving': 'If a member needs to leave the pool, they must find a replacement who agrees to the same terms.',
+  'poolPage.rules.newMembers': 'New members must be approved by a majority of existing members.',
+  'poolPage.rules.contactInfo': 'All members must maintain active contact information.',
+  'poolPage.rules.disputes': 'Dispute Resolution',
+  'poolPage.rules.majorityVote': 'All disputes will be resolved by a majority vote of pool members.',
+  'poolPage.rules.adminFinalSay': 'The pool administrator has final say in urgent matters.',
+  'poolPage.rules.internalFirst': 'Members agree to resolve disputes internally before seeking external resolution.',
+  'poolPage.delete.title': 'Delete Pool',
+  'poolPage.delete.description': 'Are you sure you want to delete "{name}"? This action cannot be undone. All pool data, including members, transactions, and messages will be permanently deleted.',
+  'poolPage.delete.deleting': 'Deleting...',
+  'poolPage.cancel': 'Cancel',
+  'poolPage.settingsDialog.title': 'Pool Settings',
+  'poolPage.settingsDialog.description': "Update your pool's name and description.",
+  'poolPage.settingsDialog.name': 'Pool Name',
+  'poolPage.settingsDialog.namePlaceholder': 'Enter pool name',
+  'poolPage.settingsDialog.descriptionLabel': 'Description',
+  'poolPage.settingsDialog.descriptionPlaceholder': 'Enter pool description',
+  'poolPage.settingsDialog.saving': 'Saving...',
+  'poolPage.settingsDialog.save': 'Save Changes',
+
+  // Payments page
+  'payments.title': 'Payments',
+  'payments.description': 'Track and manage your contributions and payouts',
+  'payments.export': 'Export',
+  'payments.export.csv': 'CSV (spreadsheet)',
+  'payments.export.ofx': 'OFX (finance apps)',
+  'payments.export.failed': 'Failed to export transactions',
+  'payments.addMethodFailed': 'Failed to add payment method: {error}',
+  'payments.summary.totalDue': 'Total Due',
+  'payments.summary.overdue': 'Overdue',
+  'payments.summary.dueSoon': 'Due Soon',
+  'payments.summary.receiving': 'Receiving',
+  'payments.upcoming.title': 'Upcoming Payments',
+  'payments.upcoming.description': 'Scheduled contributions for current pools',
+  'payments.upcoming.loadError': 'Unable to load payments',
+  'payments.upcoming.empty.title': 'No upcoming payments',
+  'payments.upcoming.empty.description': "You don't have any upcoming payments. Join or create a pool to start contributing.",
+  'payments.upcoming.empty.createPool': 'Create a Pool',
+  'payments.upcoming.empty.learnMore': 'Learn More',
+  'payments.upcoming.receiving': "You're receiving this round!",
+  'payments.upcoming.roundTo': 'Round {round} of {total} • To: {recipient}',
+  'payments.upcoming.overdue_one': '{date} ({count} day overdue)',
+  'payments.upcoming.overdue_other': '{date} ({count} days overdue)',
+  'payments.upcoming.dueToday': '{date} (Due today)',
+  'payments.upcoming.dueTomorrow': '{date} (Due tomorrow)',
+  'payments.upcoming.dueIn': '{date} (in {count} days)',
+  'payments.upcoming.payNow': 'Pay Now',
+  'payments.upcoming.paid': 'Paid',
+  'payments.tryAgain': 'Try Again',
+  'payments.history.title': 'Transaction History',
+  'payments.history.description': 'All your payments and receipts ({count} total)',
+  'payments.history.search': 'Search transactions...',
+  'payments.history.filter': 'Filter',
+  'payments.history.filters': 'Filters',
+  'payments.history.clearAll': 'Clear all',
+  'payments.history.type': 'Type',
+  'payments.history.allTypes': 'All types',
+  'payments.history.status': 'Status',
+  'payments.history.allStatuses': 'All statuses',
+  'payments.history.dateRange': 'Date Range',
+  'payments.history.from': 'From',
+  'payments.history.to': 'To',
+  'payments.history.applyFilters': 'Apply Filters',
+  'payments.history.date': 'Date',
+  'payments.history.pool': 'Pool',
+  'payments.history.amount': 'Amount',
+  'payments.history.round': 'Round {round}',
+  'payments.history.loadError': 'Unable to load history',
+  'payments.history.noResults.title': 'No results found',
+  'payments.history.noResults.description': 'No transactions match your filters. Try adjusting your search criteria.',
+  'payments.history.empty.title': 'No transaction history',
+  'payments.history.empty.description': 'Your transaction history will appear here once you start making contributions or receive payouts.',
+  'payments.history.clearFilters': 'Clear Filters',
+  'payments.history.showing': 'Showing {from} to {to} of {total}',
+  'payments.history.page': 'Page {page} of {total}',
+
+  // Member role descriptions and invitation statuses
+  'memberRole.creator.description': "Created the pool. Can do everything, and their role can't be changed.",
+  'memberRole.admin.description': 'Runs the pool: settings, members, roles, payments, and payouts.',
+  'memberRole.treasurer.description': 'Verifies payments, sends reminders, and confirms payouts.',
+  'memberRole.moderator.description': 'Keeps discussions on track: posts announcements, pins and removes posts.',
+  'memberRole.member.description': 'Contributes, posts in discussions, and votes on proposals.',
+  'memberRole.viewer.description': "Can see the pool and record their own payments, but can't post or vote.",
+  'invitationStatus.pending': 'Pending',
+  'invitationStatus.accepted': 'Accepted',
+  'invitationStatus.rejected': 'Rejected',
+  'invitationStatus.expired': 'Expired',
+
+  // Member management page
+  'memberManagement.loading': 'Loading member details...',
+  'memberManagement.error': 'Error',
+  'memberManagement.backToPool': 'Back to Pool',
+  'memberManagement.title': 'Manage Members',
+  'memberManagement.subtitle_one': '{pool} • {count} member',
+  'memberManagement.subtitle_other': '{pool} • {count} members',
+  'memberManagement.inviteMember': 'Invite Member',
+  'memberManagement.tabs.members': 'Members',
+  'memberManagement.tabs.invitations': 'Invitations',
+  'memberManagement.tabs.positions': 'Positions',
+  'memberManagement.tabs.departures': 'Departures',
+  'memberManagement.members.title': 'Pool Members',
+  'memberManagement.members.description': 'Manage the members of your savings pool',
+  'memberManagement.members.remindAll': 'Remind All',
+  'memberManagement.members.member': 'Member',
+  'memberManagement.members.position': 'Position',
+  'memberManagement.members.status': 'Status',
+  'memberManagement.members.payments': 'Payments',
+  'memberManagement.members.totalContributed': 'Total Contributed',
+  'memberManagement.members.payoutDate': 'Payout Date',
+  'memberManagement.members.actions': 'Actions',
+  'memberManagement.actions.message': 'Message',
+  'memberManagement.actions.remind': 'Remind',
+  'memberManagement.actions.editProfile': 'Edit Profile',
+  'memberManagement.actions.sendReminder': 'Send Reminder',
+  'memberManagement.actions.remove': 'Remove',
+  'memberManagement.invitations.title': 'Invitations',
+  'memberManagement.invitations.description': 'Track and manage invitations sent to potential members',
+  'memberManagement.invitations.empty.title': 'No invitations sent',
+  'memberManagement.invitations.empty.description': 'Invite members to join your savings pool',
+  'memberManagement.invitations.email': 'Email Address',
+  'memberManagement.invitations.sentDate': 'Sent Date',
+  'memberManagement.invitations.status': 'Status',
+  'memberManagement.invitations.actions': 'Actions',
+  'memberManagement.invitations.resend': 'Resend',
+  'memberManagement.positions.title': 'Manage Positions',
+  'memberManagement.positions.description': 'Drag and drop members to adjust the payout order',
+  'memberManagement.cancel': 'Cancel',
+  'memberManagement.sending': 'Sending...',
+  'memberManagement.remove.title': 'Remove Member',
+  'memberManagement.remove.description': 'Are you sure you want to remove this member from the pool?',
+  'memberManagement.remove.warning': 'Warning',
+  'memberManagement.remove.contributed': 'This member has contributed {amount} to the pool.',
+  'memberManagement.remove.payoutReceived': 'They have already received their payout.',
+  'memberManagement.remove.payoutPending': 'They have not yet received their payout.',
+  'memberManagement.remove.debt': 'Anything they still owe the pool will be recorded as a debt.',
+  'memberManagement.remove.replacement': 'Their position stays open for a replacement, who covers the refund of what they paid in.',
+  'memberManagement.remove.trackDepartures': 'Track this under Departures.',
+  'memberManagement.remove.reason': 'Reason (optional)',
+  'memberManagement.remove.confirm': 'Remove Member',
+  'memberManagement.remove.failed': 'Failed to remove member',
+  'memberManagement.edit.title': 'Edit Member Profile',
+  'memberManagement.edit.description': 'Update member information and preferences',
+  'memberManagement.edit.joined': 'Joined {date}',
+  'memberManagement.edit.name': 'Full Name',
+  'memberManagement.edit.email': 'Email Address',
+  'memberManagement.edit.phone': 'Phone Number',
+  'memberManagement.edit.role': 'Pool Role',
+  'memberManagement.edit.paymentStatus': 'Payment Status',
+  'memberManagement.edit.paymentsOnTime': 'Payments On Time:',
+  'memberManagement.edit.paymentsMissed': 'Payments Missed:',
+  'memberManagement.edit.payoutInfo': 'Payout Information',
+  'memberManagement.edit.payoutReceived': 'Payout Received',
+  'memberManagement.edit.payoutDate': 'Scheduled Payout Date',
+  'memberManagement.edit.resetPassword': 'Reset Password',
+  'memberManagement.edit.save': 'Save Changes',
+  'memberManagement.edit.failed': 'Failed to update member',
+  'memberManagement.positions.failed': 'Failed to update positions',
+  'memberManagement.reminder.title': 'Send Payment Reminder',
+  'memberManagement.reminder.description': 'Send a payment reminder email to this member',
+  'memberManagement.reminder.message': 'Personal Message (optional)',
+  'memberManagement.reminder.placeholder': 'Add a personal message to include in the reminder email...',
+  'memberManagement.reminder.preview': 'A reminder email will be sent to {email} about their upcoming payment of {amount} for the pool "{pool}".',
+  'memberManagement.reminder.send': 'Send Reminder',
+  'memberManagement.reminder.sent': 'Reminder sent successfully!',
+  'memberManagement.reminder.failed': 'Failed to send reminder',
+  'memberManagement.reminder.error': 'An unexpected error occurred while sending the reminder',
+  'memberManagement.bulkReminder.title': 'Send Reminder to All',
+  'memberManagement.bulkReminder.description': "Send a payment reminder to all members who haven't contributed yet",
+  'memberManagement.bulkReminder.recipients_one': '{count} member will receive this reminder',
+  'memberManagement.bulkReminder.recipients_other': '{count} members will receive this reminder',
+  'memberManagement.bulkReminder.skipped': 'Members who have already contributed will not receive a reminder.',
+  'memberManagement.bulkReminder.placeholder': 'Add a personal message to include in the reminder emails...',
+  'memberManagement.bulkReminder.preview': 'Each member will receive an email reminding them about their upcoming payment of {amount} for the pool "{pool}".',
+  'memberManagement.bulkReminder.send': 'Send Reminders',
+  'memberManagement.bulkReminder.allContributed': 'All members have already contributed!',
+  'memberManagement.bulkReminder.sent_one': 'Successfully sent {count} reminder!',
+  'memberManagement.bulkReminder.sent_other': 'Successfully sent {count} reminders!',
+  'memberManagement.bulkReminder.partial': 'Sent {sent} of {total} reminders; {failed} failed.',
+  'memberManagement.bulkReminder.error': 'An unexpected error occurred while sending reminders',
+  'memberManagement.invitations.resendFailed': 'Failed to resend invitation',
+  'memberManagement.invitations.resendError': 'An unexpected error occurred while resending the invitation',
+  'memberManagement.invitations.cancelFailed': 'Failed to cancel invitation',
+  'memberManagement.invitations.cancelError': 'An unexpected error occurred while cancelling the invitation',
+
+  // Member cards
+  'reliabilityLevel.new': 'New',
+  'reliabilityLevel.excellent': 'Excellent',
+  'reliabilityLevel.good': 'Good',
+  'reliabilityLevel.fair': 'Fair',
+  'reliabilityLevel.poor': 'Poor',
+  'memberCard.status.receiving': 'Receiving',
+  'memberCard.status.paid': 'Paid',
+  'memberCard.status.pending': 'Pending',
+  'memberCard.reliabilityTitle': "Reliability across all of this member's pools",
+  'memberCard.viewProfile': 'View Profile',
+  'memberCard.sendMessage': 'Send Message',
+  'memberCard.sendReminder': 'Send Reminder',
+  'memberCard.removeMember': 'Remove Member',
+  'memberCard.position': 'Position:',
+  'memberCard.onTime': '{onTime} of {total} payments on time',
+  'memberCard.cycles_one': '{count} cycle completed',
+  'memberCard.cycles_other': '{count} cycles completed',
+  'memberCard.owes': 'owes {amount}',
+  'memberCard.receivingPayout': 'Receiving payout this round',
+  'memberCard.verified': 'Verified',
+  'memberCard.unverified': 'Unverified',
+  'memberCard.lastUsed': 'Last used: {date}',
+  'memberCard.history': 'Contribution History ({count})',
+  'memberCard.more': '+ {count} more',
+  'memberCard.header.members': 'Members ({count})',
+  'memberCard.header.invite': 'Invite',
+  'memberCard.header.paid': '{paid}/{total} paid',
+
+  // Pool frequencies
+  'frequency.weekly': 'Weekly',
+  'frequency.biweekly': 'Every two weeks',
+  'frequency.monthly': 'Monthly',
+
+  // Shared email text
+  'email.greeting': 'Hi {name},',
+  'email.greetingAnonymous': 'Hi,',
+  'email.allRightsReserved': 'All rights reserved.',
+  'email.managePreferences': 'Manage email preferences',
+  'email.automatedMessage': 'This is an automated message from Juntas Seguras.',
+  'email.days_one': '{count} day',
+  'email.days_other': '{count} days',
+
+  // Payment reminder email (EmailService.sendPaymentReminder)
+  'email.paymentReminder.subject': 'Payment Reminder - {pool}',
+  'email.paymentReminder.subjectOverdue': 'Overdue Payment - {pool}',
+  'email.paymentReminder.title': 'Payment Reminder - {pool}',
+  'email.paymentReminder.titleOverdue': 'Overdue Payment Reminder - {pool}',
+  'email.paymentReminder.preview': 'Your {amount} contribution to {pool} is due on {date}',
+  'email.paymentReminder.previewOverdue': 'Your {amount} contribution to {pool} is overdue',
+  'email.paymentReminder.overdueHeadline': 'Your contribution is {days} overdue',
+  'email.paymentReminder.overdueUrgent': 'URGENT: Your contribution is {days} overdue!',
+  'email.paymentReminder.overdueBody': 'Please make your payment as soon as possible to avoid impacting your fellow pool members.',
+  'email.paymentReminder.dueSoon': 'This is a friendly reminder that your contribution for {pool} is due soon.',
+  'email.paymentReminder.details': 'Payment Details',
+  'email.paymentReminder.pool': 'Pool',
+  'email.paymentReminder.round': 'Round',
+  'email.paymentReminder.roundOf': '{round} of {total}',
+  'email.paymentReminder.amountDue': 'Amount Due',
+  'email.paymentReminder.dueDate': 'Due Date',
+  'email.paymentReminder.status': 'Status',
+  'email.paymentReminder.statusOverdue': 'Overdue',
+  'email.paymentReminder.statusDueSoon': 'Due Soon',
+  'email.paymentReminder.howToPay': 'How to Pay',
+  'email.paymentReminder.methodsIntro': 'Please send your contribution using one of the following payment methods:',
+  'email.paymentReminder.noMethods': 'No payment methods have been configured by the pool admin. Please contact them for payment instructions.',
+  'email.paymentReminder.preferred': 'Preferred',
+  'email.paymentReminder.payNow': 'Pay Now',
+  'email.paymentReminder.sendToAccount': 'Send directly to this account',
+  'email.paymentReminder.sendToZelle': 'Send directly to this email/phone',
+  'email.paymentReminder.paymentNote': 'Pool contribution',
+  'email.paymentReminder.important': 'Important:',
+  'email.paymentReminder.markAsPaid': 'After making your payment, please mark it as paid in the app so the pool admin can verify it.',
+  'email.paymentReminder.makePayment': 'Make Payment',
+  'email.paymentReminder.viewPool': 'View Pool',
+  'email.paymentReminder.footer': 'You received this email because you are a member of a savings pool on Juntas Seguras.',
+
+  // Pool invitation email
+  'email.invitation.subject': "You're invited to join {pool}!",
+  'email.invitation.preview': '{inviter} invited you to join {pool}',
+  'email.invitation.heading': "You've been invited to join a savings pool!",
+  'email.invitation.intro': '{inviter} has invited you to join the savings pool "{pool}".',
+  'email.invitation.inviterFallback': 'A friend',
+  'email.invitation.details': 'Pool Details',
+  'email.invitation.poolName': 'Pool Name',
+  'email.invitation.contribution': 'Contribution Amount',
+  'email.invitation.frequency': 'Frequency',
+  'email.invitation.members': 'Current Members',
+  'email.invitation.personalMessage': 'Personal Message',
+  'email.invitation.acceptPrompt': 'To accept this invitation, click the button below.',
+  'email.invitation.visitPrompt': 'To accept this invitation, visit:',
+  'email.invitation.join': 'Join Pool',
+  'email.invitation.copyLink': 'Or copy and paste this link into your browser:',
+  'email.invitation.expires': 'This invitation will expire in {days}.',
+  'email.invitation.footer': "If you didn't expect this invitation, you can safely ignore this email.",
+
+  // Scheduled reminders (email, SMS, and push)
+  'reminder.due.today': 'today',
+  'reminder.due.tomorrow': 'tomorrow',
+  'reminder.due.inDays': 'in {count} days',
+  'reminder.daysAgo_one': '{count} day ago',
+  'reminder.daysAgo_other': '{count} days ago',
+  'reminder.pool': 'Pool',
+  'reminder.amountDue': 'Amount Due',
+  'reminder.dueDate': 'Due Date',
+  'reminder.payoutDate': 'Payout Date',
+  'reminder.round': 'Round',
+  'reminder.daysOverdue': 'Days Overdue',
+  'reminder.currentRound': 'Current',
+  'reminder.thanks': 'Thank you for being part of this pool!',
+  'reminder.regards': 'Best regards,',
+  'reminder.thankYou': 'Thank you,',
+  'reminder.optOut': 'If you no longer wish to receive these reminders, you can update your notification preferences in your account settings.',
+  'reminder.paymentDue.subject': 'Payment Reminder: {amount} due {when} for {pool}',
+  'reminder.paymentDue.title': 'Payment Reminder',
+  'reminder.paymentDue.body': 'This is a friendly reminder that your contribution of {amount} for the "{pool}" pool is due {when} ({date}).',
+  'reminder.paymentDue.bodyShort': 'This is a friendly reminder that your contribution is due {when}.',
+  'reminder.paymentDue.roundInProgress': "Round {round} is in progress, and we need everyone's contribution to complete the payout.",
+  'reminder.paymentDue.payPrompt': 'Please make your payment as soon as possible to avoid any delays in the payout.',
+  'reminder.paymentDue.cta': 'Make Payment',
+  'reminder.paymentOverdue.subject': '⚠️ Overdue Payment: {amount} was due {ago}',
+  'reminder.paymentOverdue.title': '⚠️ Payment Overdue',
+  'reminder.paymentOverdue.body': 'Your contribution of {amount} for the "{pool}" pool was due on {date} - that\'s {ago}.',
+  'reminder.paymentOverdue.bodyShort': "Your contribution was due on {date} - that's {ago}.",
+  'reminder.paymentOverdue.impact': 'Late payments affect the entire pool and can delay payouts for other members. Please make your payment as soon as possible.',
+  'reminder.paymentOverdue.difficulties': "If you're experiencing difficulties, please reach out to your pool administrator.",
+  'reminder.paymentOverdue.cta': 'Pay Now',
+  'reminder.payoutComing.subject': '🎉 Your payout is coming! {pool}',
+  'reminder.payoutComing.title': '🎉 Your Payout is Coming!',
+  'reminder.payoutComing.body': 'Great news! You\'re scheduled to receive your payout from the "{pool}" pool on {date}.',
+  'reminder.payoutComing.bodyShort': "Great news! You're scheduled to receive your payout soon.",
+  'reminder.payoutComing.checkMethod': 'Make sure your payout method is up to date in your profile so you can receive your funds quickly.',
+  'reminder.payoutComing.checkMethodShort': 'Make sure your payout method is up to date!',
+  'reminder.payoutComing.cta': 'Update Payout Method',
+  'reminder.generic.subject': 'Notification from {pool}',
+  'reminder.generic.body': 'You have a notification from your pool.',
+  'reminder.push.round': 'round {round}',
+  'reminder.push.thisRound': 'this round',
+  'reminder.push.paymentDue.title': 'Payment due: {pool}',
+  'reminder.push.paymentDue.body': 'Your {amount} contribution for {round} is due {date}.',
+  'reminder.push.paymentOverdue.title': 'Payment overdue: {pool}',
+  'reminder.push.paymentOverdue.body': 'Your {amount} contribution for {round} was due {date}. Please pay as soon as possible.',
+  'reminder.push.payoutComing.title': 'Your payout is coming: {pool}',
+  'reminder.push.payoutComing.body': "You're scheduled to receive the {round} payout on {date}. Make sure your payout method is up to date.",
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,666 @@
+/**
+ * Spanish catalog
+ */
+
+import type { Catalog } from './types';
+
+const es: Catalog = {
+  // Navigation
+  'nav.dashboard': 'Panel',
+  'nav.myPool': 'Mi tanda',
+  'nav.create': 'Crear',
+  'nav.payments': 'Pagos',
+  'nav.help': 'Ayuda',
+  'nav.search': 'Buscar',
+  'nav.logIn': 'Iniciar sesión',
+  'nav.signUp': 'Registrarse',
+  'nav.menu': 'Menú',
+  'nav.openMenu': 'Abrir menú',
+  'nav.closeMenu': 'Cerrar menú',
+  'nav.mainNavigation': 'Navegación principal',
+  'nav.mobileNavigation': 'Navegación móvil',
+  'nav.viewProfile': 'Ver perfil',
+  'nav.userFallback': 'Usuario',
+
+  // Settings - preferences tab
+  'settings.preferences.title': 'Preferencias de la cuenta',
+  'settings.preferences.description': 'Personaliza tu experiencia en Juntas Seguras',
+  'settings.preferences.language': 'Idioma',
+  'settings.preferences.languageHint': 'Se usa en la aplicación y en los correos y recordatorios que te enviamos',
+  'settings.preferences.selectLanguage': 'Selecciona un idioma',
+  'settings.preferences.timezone': 'Zona horaria',
+  'settings.preferences.selectTimezone': 'Selecciona una zona horaria',
+  'settings.preferences.timezone.eastern': 'Hora del Este (ET)',
+  'settings.preferences.timezone.central': 'Hora del Centro (CT)',
+  'settings.preferences.timezone.mountain': 'Hora de la Montaña (MT)',
+  'settings.preferences.timezone.pacific': 'Hora del Pacífico (PT)',
+  'settings.preferences.timezone.alaska': 'Hora de Alaska (AKT)',
+  'settings.preferences.timezone.hawaii': 'Hora de Hawái (HT)',
+  'settings.preferences.privacy': 'Privacidad',
+  'settings.preferences.reliability': 'Puntuación de confiabilidad',
+  'settings.preferences.reliabilityHint': 'Lo que los administradores de las tandas a las que te unes pueden ver de tu historial de pagos',
+  'settings.preferences.selectVisibility': 'Selecciona la visibilidad',
+  'settings.preferences.reliability.full': 'Puntuación e historial de pagos',
+  'settings.preferences.reliability.score': 'Solo la puntuación',
+  'settings.preferences.reliability.hidden': 'Oculta',
+  'settings.preferences.profileVisibility': 'Visibilidad del perfil',
+  'settings.preferences.profileVisibilityHint': 'Muestra tu perfil a los demás miembros de tus tandas',
+  'settings.preferences.activityStatus': 'Estado de actividad',
+  'settings.preferences.activityStatusHint': 'Permite que otros miembros vean cuándo estás activo',
+  'settings.preferences.dataAnalytics': 'Análisis de datos',
+  'settings.preferences.dataAnalyticsHint': 'Permítenos usar tus datos para mejorar nuestros servicios',
+  'settings.preferences.save': 'Guardar preferencias',
+
+  // Dashboard
+  'dashboard.title': 'Mi panel',
+  'dashboard.welcome': 'Hola de nuevo, {name}',
+  'dashboard.receivingPayout': '¡Vas a recibir un pago!',
+  'dashboard.viewDetails': 'Ver detalles',
+  'dashboard.loadError.title': 'No se pudieron cargar las tandas',
+  'dashboard.loadError.description': 'No pudimos cargar tus tandas. Inténtalo de nuevo.',
+  'dashboard.getStarted.title': 'Empieza tu primera tanda',
+  'dashboard.getStarted.description': 'Crea una tanda con amigos o familia. Todos aportan y cada integrante recibe el fondo por turnos.',
+  'dashboard.getStarted.createPool': 'Crear una tanda',
+  'dashboard.getStarted.learnMore': 'Cómo funciona',
+  'dashboard.setup.title': 'Termina de configurar tu tanda',
+  'dashboard.setup.description_one': 'Invita a integrantes a tu nueva tanda',
+  'dashboard.setup.description_other': 'Invita a integrantes a tus nuevas tandas',
+  'dashboard.setup.waiting': '{amount}/{frequency} • Esperando integrantes',
+  'dashboard.setup.invite': 'Invitar integrantes',
+  'dashboard.activePools': 'Tus tandas activas',
+  'dashboard.newPool': 'Nueva tanda',
+  'dashboard.stats.totalSavings': 'Ahorro total',
+  'dashboard.stats.activePools': 'Tandas activas',
+  'dashboard.stats.nextPayout': 'Próximo pago',
+  'dashboard.stats.totalMembers': 'Integrantes en total',
+  'dashboard.activity.title': 'Actividad reciente',
+  'dashboard.activity.description': 'Lo último de tus tandas',
+  'dashboard.activity.viewAll': 'Ver todo',
+  'dashboard.activity.empty': 'Sin actividad reciente',
+
+  // Dashboard - quick actions
+  'quickActions.makePayment': 'Hacer un pago',
+  'quickActions.pending': '{count} pendientes',
+  'quickActions.allCaughtUp': 'Todo al día',
+  'quickActions.createPool': 'Crear tanda',
+  'quickActions.createPoolHint': 'Empieza una nueva tanda',
+  'quickActions.inviteMembers': 'Invitar integrantes',
+  'quickActions.inviteMembersHint': 'Haz crecer tu tanda',
+  'quickActions.howItWorks': 'Cómo funciona',
+  'quickActions.howItWorksHint': 'Aprende sobre las tandas',
+  'quickActions.createNewPool': 'Crear nueva tanda',
+
+  // Pool statuses
+  'poolStatus.active': 'Activa',
+  'poolStatus.pending': 'Pendiente',
+  'poolStatus.completed': 'Completada',
+  'poolStatus.paused': 'En pausa',
+  'poolStatus.cancelled': 'Cancelada',
+
+  // Pool card
+  'poolCard.receiving': 'Recibe',
+  'poolCard.roundOf': 'Ronda {round}/{total}',
+  'poolCard.paid': 'Pagado',
+  'poolCard.pay': 'Pagar',
+  'poolCard.paidCount': '{paid}/{total} pagaron',
+  'poolCard.receivingBanner': '¡Recibes {amount} en esta ronda!',
+  'poolCard.paymentDue': 'Tienes un pago pendiente de {amount}',
+  'poolCard.round': 'Ronda',
+  'poolCard.members': 'Integrantes',
+  'poolCard.payout': 'Pago',
+  'poolCard.contributions': 'Aportes: {paid}/{total}',
+  'poolCard.makePayment': 'Hacer un pago',
+  'poolCard.makePaymentRecipient': 'Hacer un pago (recibe)',
+  'poolCard.paymentComplete': 'Pago completado',
+
+  // Pool tiers
+  'poolTier.standard.label': 'Estándar',
+  'poolTier.standard.description': 'Tandas pequeñas entre personas que se conocen.',
+  'poolTier.plus.label': 'Plus',
+  'poolTier.plus.description': 'Aportes más grandes. Todos los integrantes verifican su identidad.',
+  'poolTier.premium.label': 'Premium',
+  'poolTier.premium.description': 'Los fondos más grandes. Integrantes verificados, un segundo administrador aprueba cada pago y los aportes se retienen 3 días antes de pagarse.',
+
+  // Create pool modal
+  'createPool.title': 'Crea una nueva tanda de ahorro',
+  'createPool.description': 'Completa los pasos para crear una nueva tanda de ahorro',
+  'createPool.draftRestored': 'Borrador recuperado de tu última sesión',
+  'createPool.startFresh': 'Empezar de nuevo',
+  'createPool.quickCreateMode': 'Modo de creación rápida',
+  'createPool.quickCreateToggle': 'Creación rápida (sin pasos)',
+  'createPool.steps.basicInfo': 'Datos básicos',
+  'createPool.steps.schedule': 'Calendario',
+  'createPool.steps.inviteMembers': 'Invitar integrantes',
+  'createPool.validationErrors': 'Errores de validación',
+  'createPool.error': 'Error',
+  'createPool.customize': 'Personalizar',
+  'createPool.creating': 'Creando...',
+  'createPool.quickCreate': 'Creación rápida',
+  'createPool.back': 'Atrás',
+  'createPool.next': 'Siguiente',
+  'createPool.submit': 'Crear tanda',
+  'createPool.errors.signInRequired': 'Debes iniciar sesión para crear una tanda',
+  'createPool.errors.nameRequired': 'El nombre de la tanda es obligatorio',
+  'createPool.errors.nameTooShort': 'El nombre de la tanda debe tener al menos 3 caracteres',
+  'createPool.errors.nameTooLong': 'El nombre de la tanda debe tener menos de 50 caracteres',
+  'createPool.errors.amountRequired': 'El monto del aporte es obligatorio',
+  'createPool.errors.amountRange': 'El monto debe estar entre {min} y {max}',
+  'createPool.errors.contributionRange': 'El monto del aporte debe estar entre {min} y {max}',
+  'createPool.errors.startDateRequired': 'La fecha de inicio es obligatoria',
+  'createPool.errors.startDatePast': 'La fecha de inicio no puede estar en el pasado',
+  'createPool.errors.invalidEmails_one': 'Correo no válido: {emails}',
+  'createPool.errors.invalidEmails_other': 'Correos no válidos: {emails}',
+
+  // Create pool - basic info step
+  'createPool.basicInfo.name': 'Nombre de la tanda',
+  'createPool.basicInfo.namePlaceholder': 'p. ej. Tanda familiar',
+  'createPool.basicInfo.description': 'Descripción',
+  'createPool.basicInfo.descriptionPlaceholder': '¿Para qué es esta tanda?',
+  'createPool.basicInfo.descriptionHint': 'Ayuda a los integrantes a entender el propósito de la tanda',
+  'createPool.basicInfo.currency': 'Moneda',
+  'createPool.basicInfo.currencyHint': 'Todos los aportes y pagos son en esta moneda. No se puede cambiar después.',
+  'createPool.basicInfo.tier': 'Nivel de la tanda',
+  'createPool.basicInfo.tierLimit': '{tier} · hasta {max}',
+  'createPool.basicInfo.tierHint': 'El nivel fija el límite de aporte y no se puede cambiar después.',
+  'createPool.basicInfo.safeguards.identity': 'verificación de identidad',
+  'createPool.basicInfo.safeguards.coSigner': 'administrador que también aprueba',
+  'createPool.basicInfo.safeguards.escrow': 'retención de {days} días',
+  'createPool.basicInfo.safeguards.none': 'Sin controles adicionales',
+  'createPool.basicInfo.amount': 'Monto del aporte ({currency})',
+  'createPool.basicInfo.selectAmount': 'Selecciona un monto',
+  'createPool.basicInfo.amountHint': 'Entre {min} y {max} por ronda',
+
+  // Create pool - schedule step
+  'createPool.schedule.frequency': 'Frecuencia de aportes',
+  'createPool.schedule.weekly': 'Semanal',
+  'createPool.schedule.biweekly': 'Quincenal',
+  'createPool.schedule.monthly': 'Mensual',
+  'createPool.schedule.members': 'Número de integrantes',
+  'createPool.schedule.selectMembers': 'Selecciona el número de integrantes',
+  'createPool.schedule.memberCount': '{count} integrantes',
+  'createPool.schedule.duration': 'Duración (meses)',
+  'createPool.schedule.selectDuration': 'Selecciona la duración',
+  'createPool.schedule.months_one': '{count} mes',
+  'createPool.schedule.months_other': '{count} meses',
+  'createPool.schedule.startDate': 'Fecha de inicio',
+  'createPool.schedule.startDateHint': '¿Cuándo vence el primer aporte?',
+  'createPool.schedule.paymentMethods': 'Métodos de pago permitidos',
+  'createPool.schedule.paymentMethodsHint': 'Elige qué métodos de pago pueden usar los integrantes en esta tanda',
+  'createPool.schedule.paymentMethodRequired': 'Debes elegir al menos un método de pago',
+  'createPool.schedule.payoutOrder': 'Orden de pagos',
+  'createPool.schedule.selectPayoutOrder': 'Selecciona el orden de pagos',
+  'createPool.payoutOrder.fixed': 'Orden fijo',
+  'createPool.payoutOrder.fixed.description': 'Tú decides el orden de pagos y puedes cambiarlo después.',
+  'createPool.payoutOrder.random_draw': 'Sorteo',
+  'createPool.payoutOrder.random_draw.description': 'El orden se sortea con una semilla que cualquier integrante puede verificar.',
+  'createPool.payoutOrder.bidding': 'Subasta',
+  'createPool.payoutOrder.bidding.description': 'Los integrantes ofrecen un descuento para recibir antes el fondo de cada ronda.',
+
+  // Create pool - invite members step
+  'createPool.invite.method': '¿Cómo quieres invitar a los integrantes?',
+  'createPool.invite.email': 'Enviar invitaciones por correo',
+  'createPool.invite.link': 'Crear un enlace para compartir',
+  'createPool.invite.later': 'Invitaré a los integrantes más tarde',
+  'createPool.invite.emails': 'Correos electrónicos (separados por comas)',
+  'createPool.invite.emailsPlaceholder': 'p. ej. amigo@example.com, familia@example.com',
+  'createPool.invite.emailsHint': 'Enviaremos una invitación para unirse a tu tanda',
+  'createPool.invite.linkHint': 'Después de crear la tanda, recibirás un enlace para compartir con posibles integrantes.',
+  'createPool.summary.title': 'Resumen',
+  'createPool.summary.name': 'Nombre de la tanda: {name}',
+  'createPool.summary.contribution': 'Aporte: {amount} {frequency}',
+  'createPool.summary.members': 'Integrantes: {count}',
+  'createPool.summary.duration': 'Duración: {duration}',
+  'createPool.summary.totalValue': 'Valor total de la tanda: {amount}',
+  'createPool.summary.paymentMethods': 'Métodos de pago: {methods}',
+  'createPool.summary.schedule': 'Calendario estimado de pagos',
+  'createPool.summary.round': 'Ronda {round}:',
+  'createPool.summary.moreRounds': '... y {count} rondas más',
+  'createPool.summary.scheduleHint': '* Cada integrante recibe el fondo en su ronda asignada',
+
+  // Create pool - quick create
+  'createPool.quick.amount': 'Monto',
+  'createPool.quick.members': 'Integrantes',
+  'createPool.quick.frequency': 'Frecuencia',
+  'createPool.quick.start': 'Inicio',
+  'createPool.quick.totalValue': 'Valor total de la tanda:',
+  'createPool.quick.eachContributes': 'Cada integrante aporta:',
+  'createPool.quick.firstPayout': 'Primer pago:',
+  'createPool.quick.switchToDetailed': 'Cambiar a la configuración detallada',
+
+  // Member statuses and roles
+  'memberStatus.current': 'En turno',
+  'memberStatus.completed': 'Completado',
+  'memberStatus.upcoming': 'Próximo',
+  'memberStatus.active': 'Activo',
+  'memberStatus.inactive': 'Inactivo',
+  'memberStatus.suspended': 'Suspendido',
+  'memberRole.admin': 'Administrador',
+  'memberRole.member': 'Integrante',
+  'memberRole.creator': 'Creador',
+  'memberRole.treasurer': 'Tesorero',
+  'memberRole.moderator': 'Moderador',
+  'memberRole.viewer': 'Observador',
+
+  // Transactions
+  'transactionType.contribution': 'Aporte',
+  'transactionType.payout': 'Pago',
+  'transactionType.deposit': 'Depósito',
+  'transactionType.withdrawal': 'Retiro',
+  'transactionType.escrow': 'Retención',
+  'transactionType.refund': 'Reembolso',
+  'transactionStatus.pending': 'Pendiente',
+  'transactionStatus.processing': 'Procesando',
+  'transactionStatus.completed': 'Completado',
+  'transactionStatus.failed': 'Fallido',
+  'transactionStatus.scheduled': 'Programado',
+  'transactionStatus.cancelled': 'Cancelado',
+  'transactionStatus.escrowed': 'Retenido',
+  'transactionStatus.released': 'Liberado',
+
+  // Pool page
+  'poolPage.notAvailable': 'N/D',
+  'poolPage.loading': 'Cargando la tanda...',
+  'poolPage.error': 'Error',
+  'poolPage.notFound.title': 'Tanda no encontrada',
+  'poolPage.notFound.description': 'No se encontró la tanda solicitada.',
+  'poolPage.backToPools': 'Volver a mis tandas',
+  'poolPage.payment.cancelled': 'Se canceló el pago. Puedes intentarlo de nuevo cuando quieras.',
+  'poolPage.payment.succeeded': '¡Pago realizado! Registramos tu aporte.',
+  'poolPage.payment.failed': 'No se pudo completar el pago. Comunícate con soporte.',
+  'poolPage.payment.error': 'Ocurrió un error al procesar tu pago.',
+  'poolPage.payment.processing': 'Procesando el pago',
+  'poolPage.payment.processingHint': 'Espera mientras completamos tu pago...',
+  'poolPage.payment.successTitle': '¡Pago realizado!',
+  'poolPage.payment.issueTitle': 'Problema con el pago',
+  'poolPage.createdOn': 'Creada el {date}',
+  'poolPage.share': 'Compartir',
+  'poolPage.settings': 'Configuración',
+  'poolPage.deletePool': 'Eliminar tanda',
+  'poolPage.loadingShort': 'Cargando...',
+  'poolPage.paymentMade': 'Pago hecho',
+  'poolPage.makePayment': 'Hacer un pago',
+  'poolPage.makePaymentRecipient': 'Hacer un pago (recibe)',
+  'poolPage.stats.totalPool': 'Fondo total',
+  'poolPage.stats.nextPayout': 'Próximo pago',
+  'poolPage.stats.round': 'Ronda',
+  'poolPage.stats.roundOf': '{round} de {total}',
+  'poolPage.stats.members': 'Integrantes',
+  'poolPage.progress.title': 'Avance de la tanda',
+  'poolPage.progress.description': '{round} de {total} rondas completadas',
+  'poolPage.progress.inProgress': 'En curso',
+  'poolPage.tabs.contributions': 'Aportes',
+  'poolPage.tabs.payouts': 'Pagos',
+  'poolPage.tabs.members': 'Integrantes',
+  'poolPage.tabs.transactions': 'Movimientos',
+  'poolPage.tabs.discussion': 'Conversación',
+  'poolPage.tabs.rules': 'Reglas',
+  'poolPage.members.title': 'Integrantes de la tanda',
+  'poolPage.members.invite': 'Invitar integrante',
+  'poolPage.members.manage': 'Administrar integrantes',
+  'poolPage.members.member': 'Integrante',
+  'poolPage.members.position': 'Turno',
+  'poolPage.members.status': 'Estado',
+  'poolPage.members.joined': 'Se unió',
+  'poolPage.members.role': 'Rol',
+  'poolPage.members.actions': 'Acciones',
+  'poolPage.transactions.title': 'Historial de movimientos',
+  'poolPage.transactions.statement': 'Estado de cuenta',
+  'poolPage.transactions.poolStatement': 'Estado de cuenta de la tanda (PDF)',
+  'poolPage.transactions.roundStatement': 'Estado de cuenta de la ronda {round} (PDF)',
+  'poolPage.transactions.type': 'Tipo',
+  'poolPage.transactions.member': 'Integrante',
+  'poolPage.transactions.amount': 'Monto',
+  'poolPage.transactions.date': 'Fecha',
+  'poolPage.transactions.status': 'Estado',
+  'poolPage.transactions.empty': 'Aún no hay movimientos. Los aportes aparecerán aquí.',
+  'poolPage.discussion.title': 'Conversación del grupo',
+  'poolPage.discussion.description': 'Comunícate con los demás integrantes de la tanda',
+  'poolPage.discussion.loadError': 'Error al cargar los mensajes',
+  'poolPage.discussion.empty': 'Aún no hay mensajes. ¡Empieza la conversación!',
+  'poolPage.discussion.placeholder': 'Escribe tu mensaje...',
+  'poolPage.rules.title': 'Reglas de la tanda',
+  'poolPage.rules.description': 'Normas y condiciones de esta tanda de ahorro',
+  'poolPage.rules.contributions': 'Reglas de aportes',
+  'poolPage.rules.contributionAmount': 'Todos los integrantes deben aportar {amount} ({frequency}), incluido quien recibe el pago de la ronda.',
+  'poolPage.rules.contributionMethods': 'Los aportes se hacen manualmente por Venmo, PayPal, Zelle o Cash App directamente al administrador de la tanda.',
+  'poolPage.rules.dueByFrequency': 'Los pagos vencen antes de cada pago programado ({frequency}).',
+  'poolPage.rules.dueByDate': 'Los pagos vencen el {date} (el día antes del pago).',
+  'poolPage.rules.markCompleted': 'Después de enviar tu pago, márcalo como completado en la aplicación para que el administrador confirme que lo recibió.',
+  'poolPage.rules.missedPayments': 'Los integrantes que no paguen a tiempo recibirán una advertencia. Después de dos pagos atrasados, podrían quedar fuera de futuras tandas.',
+  'poolPage.rules.payouts': 'Reglas de pagos',
+  'poolPage.rules.payoutOrder': 'El orden de pagos se decidió al azar al inicio de la tanda.',
+  'poolPage.rules.payoutAmount': 'Cada integrante recibirá un pago de {amount} en su ronda asignada.',
+  'poolPage.rules.payoutMethods': 'El administrador de la tanda envía los pagos por tu método preferido (Venmo, PayPal, Zelle o Cash App).',
+  'poolPage.rules.payoutSetup': 'Configura tu método de cobro en la pestaña Pagos para recibir el dinero.',
+  'poolPage.rules.members': 'Reglas para integrantes',
+  'poolPage.rules.leaving': 'Si un integrante necesita salir de la tanda, debe encontrar un reemplazo que acepte las mismas condiciones.',
+  'poolPage.rules.newMembers': 'Los nuevos integrantes deben ser aprobados por la mayoría de los integrantes actuales.',
+  'poolPage.rules.contactInfo': 'Todos los integrantes deben mantener sus datos de contacto al día.',
+  'poolPage.rules.disputes': 'Resolución de conflictos',
+  'poolPage.rules.majorityVote': 'Los conflictos se resolverán por mayoría de votos de los integrantes.',
+  'poolPage.rules.adminFinalSay': 'El administrador de la tanda tiene la última palabra en asuntos urgentes.',
+  'poolPage.rules.internalFirst': 'Los integrantes se comprometen a resolver los conflictos entre ellos antes de buscar ayuda externa.',
+  'poolPage.delete.title': 'Eliminar tanda',
+  'poolPage.delete.description': '¿Seguro que quieres eliminar «{name}»? Esta acción no se puede deshacer. Todos los datos de la tanda, incluidos integrantes, movimientos y mensajes, se eliminarán de forma permanente.',
+  'poolPage.delete.deleting': 'Eliminando...',
+  'poolPage.cancel': 'Cancelar',
+  'poolPage.settingsDialog.title': 'Configuración de la tanda',
+  'poolPage.settingsDialog.description': 'Actualiza el nombre y la descripción de tu tanda.',
+  'poolPage.settingsDialog.name': 'Nombre de la tanda',
+  'poolPage.settingsDialog.namePlaceholder': 'Escribe el nombre de la tanda',
+  'poolPage.settingsDialog.descriptionLabel': 'Descripción',
+  'poolPage.settingsDialog.descriptionPlaceholder': 'Escribe la descripción de la tanda',
+  'poolPage.settingsDialog.saving': 'Guardando...',
+  'poolPage.settingsDialog.save': 'Guardar cambios',
+
+  // Payments page
+  'payments.title': 'Pagos',
+  'payments.description': 'Sigue y administra tus aportes y pagos',
+  'payments.export': 'Exportar',
+  'payments.export.csv': 'CSV (hoja de cálculo)',
+  'payments.export.ofx': 'OFX (apps de finanzas)',
+  'payments.export.failed': 'No se pudieron exportar los movimientos',
+  'payments.addMethodFailed': 'No se pudo agregar el método de pago: {error}',
+  'payments.summary.totalDue': 'Total pendiente',
+  'payments.summary.overdue': 'Atrasados',
+  'payments.summary.dueSoon': 'Por vencer',
+  'payments.summary.receiving': 'Por recibir',
+  'payments.upcoming.title': 'Próximos pagos',
+  'payments.upcoming.description': 'Aportes programados de tus tandas actuales',
+  'payments.upcoming.loadError': 'No se pudieron cargar los pagos',
+  'payments.upcoming.empty.title': 'No tienes pagos próximos',
+  'payments.upcoming.empty.description': 'No tienes pagos próximos. Únete a una tanda o crea una para empezar a aportar.',
+  'payments.upcoming.empty.createPool': 'Crear una tanda',
+  'payments.upcoming.empty.learnMore': 'Más información',
+  'payments.upcoming.receiving': '¡Recibes el pago en esta ronda!',
+  'payments.upcoming.roundTo': 'Ronda {round} de {total} • Para: {recipient}',
+  'payments.upcoming.overdue_one': '{date} ({count} día de atraso)',
+  'payments.upcoming.overdue_other': '{date} ({count} días de atraso)',
+  'payments.upcoming.dueToday': '{date} (vence hoy)',
+  'payments.upcoming.dueTomorrow': '{date} (vence mañana)',
+  'payments.upcoming.dueIn': '{date} (en {count} días)',
+  'payments.upcoming.payNow': 'Pagar ahora',
+  'payments.upcoming.paid': 'Pagado',
+  'payments.tryAgain': 'Intentar de nuevo',
+  'payments.history.title': 'Historial de movimientos',
+  'payments.history.description': 'Todos tus pagos y cobros ({count} en total)',
+  'payments.history.search': 'Buscar movimientos...',
+  'payments.history.filter': 'Filtrar',
+  'payments.history.filters': 'Filtros',
+  'payments.history.clearAll': 'Borrar todo',
+  'payments.history.type': 'Tipo',
+  'payments.history.allTypes': 'Todos los tipos',
+  'payments.history.status': 'Estado',
+  'payments.history.allStatuses': 'Todos los estados',
+  'payments.history.dateRange': 'Rango de fechas',
+  'payments.history.from': 'Desde',
+  'payments.history.to': 'Hasta',
+  'payments.history.applyFilters': 'Aplicar filtros',
+  'payments.history.date': 'Fecha',
+  'payments.history.pool': 'Tanda',
+  'payments.history.amount': 'Monto',
+  'payments.history.round': 'Ronda {round}',
+  'payments.history.loadError': 'No se pudo cargar el historial',
+  'payments.history.noResults.title': 'Sin resultados',
+  'payments.history.noResults.description': 'Ningún movimiento coincide con tus filtros. Prueba a cambiar la búsqueda.',
+  'payments.history.empty.title': 'Sin movimientos',
+  'payments.history.empty.description': 'Tu historial aparecerá aquí cuando empieces a aportar o recibas pagos.',
+  'payments.history.clearFilters': 'Borrar filtros',
+  'payments.history.showing': 'Mostrando {from} a {to} de {total}',
+  'payments.history.page': 'Página {page} de {total}',
+
+  // Member role descriptions and invitation statuses
+  'memberRole.creator.description': 'Creó la tanda. Puede hacer todo y su rol no se puede cambiar.',
+  'memberRole.admin.description': 'Dirige la tanda: configuración, integrantes, roles, aportes y pagos.',
+  'memberRole.treasurer.description': 'Verifica los aportes, envía recordatorios y confirma los pagos.',
+  'memberRole.moderator.description': 'Mantiene el orden en las conversaciones: publica anuncios, fija y elimina publicaciones.',
+  'memberRole.member.description': 'Aporta, participa en las conversaciones y vota las propuestas.',
+  'memberRole.viewer.description': 'Puede ver la tanda y registrar sus propios aportes, pero no puede publicar ni votar.',
+  'invitationStatus.pending': 'Pendiente',
+  'invitationStatus.accepted': 'Aceptada',
+  'invitationStatus.rejected': 'Rechazada',
+  'invitationStatus.expired': 'Vencida',
+
+  // Member management page
+  'memberManagement.loading': 'Cargando integrantes...',
+  'memberManagement.error': 'Error',
+  'memberManagement.backToPool': 'Volver a la tanda',
+  'memberManagement.title': 'Administrar integrantes',
+  'memberManagement.subtitle_one': '{pool} • {count} integrante',
+  'memberManagement.subtitle_other': '{pool} • {count} integrantes',
+  'memberManagement.inviteMember': 'Invitar integrante',
+  'memberManagement.tabs.members': 'Integrantes',
+  'memberManagement.tabs.invitations': 'Invitaciones',
+  'memberManagement.tabs.positions': 'Turnos',
+  'memberManagement.tabs.departures': 'Salidas',
+  'memberManagement.members.title': 'Integrantes de la tanda',
+  'memberManagement.members.description': 'Administra a los integrantes de tu tanda de ahorro',
+  'memberManagement.members.remindAll': 'Recordar a todos',
+  'memberManagement.members.member': 'Integrante',
+  'memberManagement.members.position': 'Turno',
+  'memberManagement.members.status': 'Estado',
+  'memberManagement.members.payments': 'Aportes',
+  'memberManagement.members.totalContributed': 'Total aportado',
+  'memberManagement.members.payoutDate': 'Fecha de pago',
+  'memberManagement.members.actions': 'Acciones',
+  'memberManagement.actions.message': 'Mensaje',
+  'memberManagement.actions.remind': 'Recordar',
+  'memberManagement.actions.editProfile': 'Editar perfil',
+  'memberManagement.actions.sendReminder': 'Enviar recordatorio',
+  'memberManagement.actions.remove': 'Quitar',
+  'memberManagement.invitations.title': 'Invitaciones',
+  'memberManagement.invitations.description': 'Sigue y administra las invitaciones enviadas a posibles integrantes',
+  'memberManagement.invitations.empty.title': 'No has enviado invitaciones',
+  'memberManagement.invitations.empty.description': 'Invita a otras personas a unirse a tu tanda de ahorro',
+  'memberManagement.invitations.email': 'Correo electrónico',
+  'memberManagement.invitations.sentDate': 'Fecha de envío',
+  'memberManagement.invitations.status': 'Estado',
+  'memberManagement.invitations.actions': 'Acciones',
+  'memberManagement.invitations.resend': 'Reenviar',
+  'memberManagement.positions.title': 'Administrar turnos',
+  'memberManagement.positions.description': 'Arrastra a los integrantes para cambiar el orden de pagos',
+  'memberManagement.cancel': 'Cancelar',
+  'memberManagement.sending': 'Enviando...',
+  'memberManagement.remove.title': 'Quitar integrante',
+  'memberManagement.remove.description': '¿Seguro que quieres quitar a este integrante de la tanda?',
+  'memberManagement.remove.warning': 'Advertencia',
+  'memberManagement.remove.contributed': 'Este integrante ha aportado {amount} a la tanda.',
+  'memberManagement.remove.payoutReceived': 'Ya recibió su pago.',
+  'memberManagement.remove.payoutPending': 'Todavía no ha recibido su pago.',
+  'memberManagement.remove.debt': 'Lo que todavía deba a la tanda quedará registrado como deuda.',
+  'memberManagement.remove.replacement': 'Su turno queda libre para un reemplazo, que cubre el reembolso de lo que aportó.',
+  'memberManagement.remove.trackDepartures': 'Puedes seguirlo en Salidas.',
+  'memberManagement.remove.reason': 'Motivo (opcional)',
+  'memberManagement.remove.confirm': 'Quitar integrante',
+  'memberManagement.remove.failed': 'No se pudo quitar al integrante',
+  'memberManagement.edit.title': 'Editar perfil del integrante',
+  'memberManagement.edit.description': 'Actualiza los datos y preferencias del integrante',
+  'memberManagement.edit.joined': 'Se unió el {date}',
+  'memberManagement.edit.name': 'Nombre completo',
+  'memberManagement.edit.email': 'Correo electrónico',
+  'memberManagement.edit.phone': 'Teléfono',
+  'memberManagement.edit.role': 'Rol en la tanda',
+  'memberManagement.edit.paymentStatus': 'Estado de los aportes',
+  'memberManagement.edit.paymentsOnTime': 'Aportes a tiempo:',
+  'memberManagement.edit.paymentsMissed': 'Aportes no hechos:',
+  'memberManagement.edit.payoutInfo': 'Información del pago',
+  'memberManagement.edit.payoutReceived': 'Pago recibido',
+  'memberManagement.edit.payoutDate': 'Fecha de pago programada',
+  'memberManagement.edit.resetPassword': 'Restablecer contraseña',
+  'memberManagement.edit.save': 'Guardar cambios',
+  'memberManagement.edit.failed': 'No se pudo actualizar al integrante',
+  'memberManagement.positions.failed': 'No se pudieron actualizar los turnos',
+  'memberManagement.reminder.title': 'Enviar recordatorio de pago',
+  'memberManagement.reminder.description': 'Envía un correo recordatorio de pago a este integrante',
+  'memberManagement.reminder.message': 'Mensaje personal (opcional)',
+  'memberManagement.reminder.placeholder': 'Agrega un mensaje personal para incluir en el correo...',
+  'memberManagement.reminder.preview': 'Se enviará un recordatorio a {email} sobre su próximo aporte de {amount} a la tanda «{pool}».',
+  'memberManagement.reminder.send': 'Enviar recordatorio',
+  'memberManagement.reminder.sent': '¡Recordatorio enviado!',
+  'memberManagement.reminder.failed': 'No se pudo enviar el recordatorio',
+  'memberManagement.reminder.error': 'Ocurrió un error inesperado al enviar el recordatorio',
+  'memberManagement.bulkReminder.title': 'Enviar recordatorio a todos',
+  'memberManagement.bulkReminder.description': 'Envía un recordatorio de pago a todos los integrantes que aún no han aportado',
+  'memberManagement.bulkReminder.recipients_one': '{count} integrante recibirá este recordatorio',
+  'memberManagement.bulkReminder.recipients_other': '{count} integrantes recibirán este recordatorio',
+  'memberManagement.bulkReminder.skipped': 'Los integrantes que ya aportaron no recibirán el recordatorio.',
+  'memberManagement.bulkReminder.placeholder': 'Agrega un mensaje personal para incluir en los correos...',
+  'memberManagement.bulkReminder.preview': 'Cada integrante recibirá un correo que le recuerda su próximo aporte de {amount} a la tanda «{pool}».',
+  'memberManagement.bulkReminder.send': 'Enviar recordatorios',
+  'memberManagement.bulkReminder.allContributed': '¡Todos los integrantes ya aportaron!',
+  'memberManagement.bulkReminder.sent_one': '¡Se envió {count} recordatorio!',
+  'memberManagement.bulkReminder.sent_other': '¡Se enviaron {count} recordatorios!',
+  'memberManagement.bulkReminder.partial': 'Se enviaron {sent} de {total} recordatorios; {failed} fallaron.',
+  'memberManagement.bulkReminder.error': 'Ocurrió un error inesperado al enviar los recordatorios',
+  'memberManagement.invitations.resendFailed': 'No se pudo reenviar la invitación',
+  'memberManagement.invitations.resendError': 'Ocurrió un error inesperado al reenviar la invitación',
+  'memberManagement.invitations.cancelFailed': 'No se pudo cancelar la invitación',
+  'memberManagement.invitations.cancelError': 'Ocurrió un error inesperado al cancelar la invitación',
+
+  // Member cards
+  'reliabilityLevel.new': 'Nuevo',
+  'reliabilityLevel.excellent': 'Excelente',
+  'reliabilityLevel.good': 'Buena',
+  'reliabilityLevel.fair': 'Regular',
+  'reliabilityLevel.poor': 'Baja',
+  'memberCard.status.receiving': 'Recibe',
+  'memberCard.status.paid': 'Pagado',
+  'memberCard.status.pending': 'Pendiente',
+  'memberCard.reliabilityTitle': 'Confiabilidad en todas las tandas de este integrante',
+  'memberCard.viewProfile': 'Ver perfil',
+  'memberCard.sendMessage': 'Enviar mensaje',
+  'memberCard.sendReminder': 'Enviar recordatorio',
+  'memberCard.removeMember': 'Quitar integrante',
+  'memberCard.position': 'Turno:',
+  'memberCard.onTime': '{onTime} de {total} aportes a tiempo',
+  'memberCard.cycles_one': '{count} ciclo completado',
+  'memberCard.cycles_other': '{count} ciclos completados',
+  'memberCard.owes': 'debe {amount}',
+  'memberCard.receivingPayout': 'Recibe el pago en esta ronda',
+  'memberCard.verified': 'Verificado',
+  'memberCard.unverified': 'Sin verificar',
+  'memberCard.lastUsed': 'Último uso: {date}',
+  'memberCard.history': 'Historial de aportes ({count})',
+  'memberCard.more': '+ {count} más',
+  'memberCard.header.members': 'Integrantes ({count})',
+  'memberCard.header.invite': 'Invitar',
+  'memberCard.header.paid': '{paid}/{total} pagaron',
+
+  // Pool frequencies
+  'frequency.weekly': 'Semanal',
+  'frequency.biweekly': 'Cada dos semanas',
+  'frequency.monthly': 'Mensual',
+
+  // Shared email text
+  'email.greeting': 'Hola, {name}:',
+  'email.greetingAnonymous': 'Hola:',
+  'email.allRightsReserved': 'Todos los derechos reservados.',
+  'email.managePreferences': 'Administrar preferencias de correo',
+  'email.automatedMessage': 'Este es un mensaje automático de Juntas Seguras.',
+  'email.days_one': '{count} día',
+  'email.days_other': '{count} días',
+
+  // Payment reminder email
+  'email.paymentReminder.subject': 'Recordatorio de pago - {pool}',
+  'email.paymentReminder.subjectOverdue': 'Pago vencido - {pool}',
+  'email.paymentReminder.title': 'Recordatorio de pago - {pool}',
+  'email.paymentReminder.titleOverdue': 'Recordatorio de pago vencido - {pool}',
+  'email.paymentReminder.preview': 'Tu aportación de {amount} a {pool} vence el {date}',
+  'email.paymentReminder.previewOverdue': 'Tu aportación de {amount} a {pool} está vencida',
+  'email.paymentReminder.overdueHeadline': 'Tu aportación tiene {days} de atraso',
+  'email.paymentReminder.overdueUrgent': 'URGENTE: ¡Tu aportación tiene {days} de atraso!',
+  'email.paymentReminder.overdueBody': 'Por favor, realiza tu pago lo antes posible para no afectar a los demás miembros de la tanda.',
+  'email.paymentReminder.dueSoon': 'Te recordamos que tu aportación para {pool} vence pronto.',
+  'email.paymentReminder.details': 'Detalles del pago',
+  'email.paymentReminder.pool': 'Tanda',
+  'email.paymentReminder.round': 'Ronda',
+  'email.paymentReminder.roundOf': '{round} de {total}',
+  'email.paymentReminder.amountDue': 'Monto a pagar',
+  'email.paymentReminder.dueDate': 'Fecha de vencimiento',
+  'email.paymentReminder.status': 'Estado',
+  'email.paymentReminder.statusOverdue': 'Vencido',
+  'email.paymentReminder.statusDueSoon': 'Vence pronto',
+  'email.paymentReminder.howToPay': 'Cómo pagar',
+  'email.paymentReminder.methodsIntro': 'Envía tu aportación con uno de los siguientes métodos de pago:',
+  'email.paymentReminder.noMethods': 'El administrador de la tanda no ha configurado métodos de pago. Comunícate con él para recibir instrucciones.',
+  'email.paymentReminder.preferred': 'Preferido',
+  'email.paymentReminder.payNow': 'Pagar ahora',
+  'email.paymentReminder.sendToAccount': 'Envía el pago directamente a esta cuenta',
+  'email.paymentReminder.sendToZelle': 'Envía el pago directamente a este correo o teléfono',
+  'email.paymentReminder.paymentNote': 'Aportación a la tanda',
+  'email.paymentReminder.important': 'Importante:',
+  'email.paymentReminder.markAsPaid': 'Después de pagar, márcalo como pagado en la aplicación para que el administrador pueda verificarlo.',
+  'email.paymentReminder.makePayment': 'Realizar pago',
+  'email.paymentReminder.viewPool': 'Ver tanda',
+  'email.paymentReminder.footer': 'Recibiste este correo porque eres miembro de una tanda de ahorro en Juntas Seguras.',
+
+  // Pool invitation email
+  'email.invitation.subject': '¡Te invitaron a unirte a {pool}!',
+  'email.invitation.preview': '{inviter} te invitó a unirte a {pool}',
+  'email.invitation.heading': '¡Te invitaron a unirte a una tanda de ahorro!',
+  'email.invitation.intro': '{inviter} te invitó a unirte a la tanda de ahorro "{pool}".',
+  'email.invitation.inviterFallback': 'Un amigo',
+  'email.invitation.details': 'Detalles de la tanda',
+  'email.invitation.poolName': 'Nombre de la tanda',
+  'email.invitation.contribution': 'Monto de la aportación',
+  'email.invitation.frequency': 'Frecuencia',
+  'email.invitation.members': 'Miembros actuales',
+  'email.invitation.personalMessage': 'Mensaje personal',
+  'email.invitation.acceptPrompt': 'Para aceptar la invitación, haz clic en el botón de abajo.',
+  'email.invitation.visitPrompt': 'Para aceptar la invitación, visita:',
+  'email.invitation.join': 'Unirme a la tanda',
+  'email.invitation.copyLink': 'O copia y pega este enlace en tu navegador:',
+  'email.invitation.expires': 'Esta invitación vence en {days}.',
+  'email.invitation.footer': 'Si no esperabas esta invitación, puedes ignorar este correo.',
+
+  // Scheduled reminders
+  'reminder.due.today': 'hoy',
+  'reminder.due.tomorrow': 'mañana',
+  'reminder.due.inDays': 'en {count} días',
+  'reminder.daysAgo_one': 'hace {count} día',
+  'reminder.daysAgo_other': 'hace {count} días',
+  'reminder.pool': 'Tanda',
+  'reminder.amountDue': 'Monto a pagar',
+  'reminder.dueDate': 'Fecha de vencimiento',
+  'reminder.payoutDate': 'Fecha de cobro',
+  'reminder.round': 'Ronda',
+  'reminder.daysOverdue': 'Días de atraso',
+  'reminder.currentRound': 'Actual',
+  'reminder.thanks': '¡Gracias por ser parte de esta tanda!',
+  'reminder.regards': 'Saludos cordiales,',
+  'reminder.thankYou': 'Gracias,',
+  'reminder.optOut': 'Si ya no deseas recibir estos recordatorios, puedes cambiar tus preferencias de notificación en la configuración de tu cuenta.',
+  'reminder.paymentDue.subject': 'Recordatorio de pago: {amount} vence {when} en {pool}',
+  'reminder.paymentDue.title': 'Recordatorio de pago',
+  'reminder.paymentDue.body': 'Te recordamos que tu aportación de {amount} para la tanda "{pool}" vence {when} ({date}).',
+  'reminder.paymentDue.bodyShort': 'Te recordamos que tu aportación vence {when}.',
+  'reminder.paymentDue.roundInProgress': 'La ronda {round} está en curso y necesitamos la aportación de todos para completar el pago.',
+  'reminder.paymentDue.payPrompt': 'Por favor, realiza tu pago lo antes posible para evitar retrasos en el cobro.',
+  'reminder.paymentDue.cta': 'Realizar pago',
+  'reminder.paymentOverdue.subject': '⚠️ Pago vencido: {amount} venció {ago}',
+  'reminder.paymentOverdue.title': '⚠️ Pago vencido',
+  'reminder.paymentOverdue.body': 'Tu aportación de {amount} para la tanda "{pool}" venció el {date}, {ago}.',
+  'reminder.paymentOverdue.bodyShort': 'Tu aportación venció el {date}, {ago}.',
+  'reminder.paymentOverdue.impact': 'Los pagos atrasados afectan a toda la tanda y pueden retrasar los cobros de otros miembros. Por favor, paga lo antes posible.',
+  'reminder.paymentOverdue.difficulties': 'Si tienes dificultades, comunícate con el administrador de tu tanda.',
+  'reminder.paymentOverdue.cta': 'Pagar ahora',
+  'reminder.payoutComing.subject': '🎉 ¡Tu cobro se acerca! {pool}',
+  'reminder.payoutComing.title': '🎉 ¡Tu cobro se acerca!',
+  'reminder.payoutComing.body': '¡Buenas noticias! Recibirás tu cobro de la tanda "{pool}" el {date}.',
+  'reminder.payoutComing.bodyShort': '¡Buenas noticias! Pronto recibirás tu cobro.',
+  'reminder.payoutComing.checkMethod': 'Asegúrate de que tu método de cobro esté actualizado en tu perfil para recibir tus fondos rápidamente.',
+  'reminder.payoutComing.checkMethodShort': '¡Asegúrate de que tu método de cobro esté actualizado!',
+  'reminder.payoutComing.cta': 'Actualizar método de cobro',
+  'reminder.generic.subject': 'Notificación de {pool}',
+  'reminder.generic.body': 'Tienes una notificación de tu tanda.',
+  'reminder.push.round': 'la ronda {round}',
+  'reminder.push.thisRound': 'esta ronda',
+  'reminder.push.paymentDue.title': 'Pago pendiente: {pool}',
+  'reminder.push.paymentDue.body': 'Tu aportación de {amount} para {round} vence el {date}.',
+  'reminder.push.paymentOverdue.title': 'Pago vencido: {pool}',
+  'reminder.push.paymentOverdue.body': 'Tu aportación de {amount} para {round} venció el {date}. Por favor, paga lo antes posible.',
+  'reminder.push.payoutComing.title': 'Tu cobro se acerca: {pool}',
+  'reminder.push.payoutComing.body': 'Recibirás el cobro de {round} el {date}. Asegúrate de que tu método de cobro esté actualizado.',
+};
+
+export default es;
@@ -0,0 +1,11 @@
+import type { Locale } from '../../../types/i18n';
+import en from './en';
+import es from './es';
+import pt from './pt';
+import type { Catalog } from './types';
+
+export const catalogs: Record<Locale, Catalog> = { en, es, pt };
+
+export { en };
+export type { MessageKey } from './en';
+export type { Catalog, CatalogKey, PluralMessageKey } from './types';
@@ -0,0 +1,666 @@
+/**
+ * Portuguese (Brazil) catalog
+ */
+
+import type { Catalog } from './types';
+
+const pt: Catalog = {
+  // Navigation
+  'nav.dashboard': 'Painel',
+  'nav.myPool': 'Meu consórcio',
+  'nav.create': 'Criar',
+  'nav.payments': 'Pagamentos',
+  'nav.help': 'Ajuda',
+  'nav.search': 'Buscar',
+  'nav.logIn': 'Entrar',
+  'nav.signUp': 'Cadastrar',
+  'nav.menu': 'Menu',
+  'nav.openMenu': 'Abrir menu',
+  'nav.closeMenu': 'Fechar menu',
+  'nav.mainNavigation': 'Navegação principal',
+  'nav.mobileNavigation': 'Navegação móvel',
+  'nav.viewProfile': 'Ver perfil',
+  'nav.userFallback': 'Usuário',
+
+  // Settings - preferences tab
+  'settings.preferences.title': 'Preferências da conta',
+  'settings.preferences.description': 'Personalize sua experiência no Juntas Seguras',
+  'settings.preferences.language': 'Idioma',
+  'settings.preferences.languageHint': 'Usado no aplicativo e nos e-mails e lembretes que enviamos para você',
+  'settings.preferences.selectLanguage': 'Selecione o idioma',
+  'settings.preferences.timezone': 'Fuso horário',
+  'settings.preferences.selectTimezone': 'Selecione o fuso horário',
+  'settings.preferences.timezone.eastern': 'Horário do Leste (ET)',
+  'settings.preferences.timezone.central': 'Horário Central (CT)',
+  'settings.preferences.timezone.mountain': 'Horário das Montanhas (MT)',
+  'settings.preferences.timezone.pacific': 'Horário do Pacífico (PT)',
+  'settings.preferences.timezone.alaska': 'Horário do Alasca (AKT)',
+  'settings.preferences.timezone.hawaii': 'Horário do Havaí (HT)',
+  'settings.preferences.privacy': 'Privacidade',
+  'settings.preferences.reliability': 'Pontuação de confiabilidade',
+  'settings.preferences.reliabilityHint': 'O que os administradores dos consórcios em que você entra podem ver do seu histórico de pagamentos',
+  'settings.preferences.selectVisibility': 'Selecione a visibilidade',
+  'settings.preferences.reliability.full': 'Pontuação e histórico de pagamentos',
+  'settings.preferences.reliability.score': 'Somente a pontuação',
+  'settings.preferences.reliability.hidden': 'Oculta',
+  'settings.preferences.profileVisibility': 'Visibilidade do perfil',
+  'settings.preferences.profileVisibilityHint': 'Mostrar seu perfil aos outros membros dos seus consórcios',
+  'settings.preferences.activityStatus': 'Status de atividade',
+  'settings.preferences.activityStatusHint': 'Permitir que outros membros vejam quando você está ativo',
+  'settings.preferences.dataAnalytics': 'Análise de dados',
+  'settings.preferences.dataAnalyticsHint': 'Permitir que usemos seus dados para melhorar nossos serviços',
+  'settings.preferences.save': 'Salvar preferências',
+
+  // Dashboard
+  'dashboard.title': 'Meu painel',
+  'dashboard.welcome': 'Bem-vindo de volta, {name}',
+  'dashboard.receivingPayout': 'Você vai receber um pagamento!',
+  'dashboard.viewDetails': 'Ver detalhes',
+  'dashboard.loadError.title': 'Não foi possível carregar os consórcios',
+  'dashboard.loadError.description': 'Não conseguimos carregar seus consórcios. Tente novamente.',
+  'dashboard.getStarted.title': 'Comece seu primeiro consórcio',
+  'dashboard.getStarted.description': 'Crie um consórcio com amigos ou família. Todos contribuem e cada membro recebe o valor acumulado na sua vez.',
+  'dashboard.getStarted.createPool': 'Criar um consórcio',
+  'dashboard.getStarted.learnMore': 'Como funciona',
+  'dashboard.setup.title': 'Conclua a configuração do consórcio',
+  'dashboard.setup.description_one': 'Convide membros para o seu novo consórcio',
+  'dashboard.setup.description_other': 'Convide membros para os seus novos consórcios',
+  'dashboard.setup.waiting': '{amount}/{frequency} • Aguardando membros',
+  'dashboard.setup.invite': 'Convidar membros',
+  'dashboard.activePools': 'Seus consórcios ativos',
+  'dashboard.newPool': 'Novo consórcio',
+  'dashboard.stats.totalSavings': 'Economia total',
+  'dashboard.stats.activePools': 'Consórcios ativos',
+  'dashboard.stats.nextPayout': 'Próximo recebimento',
+  'dashboard.stats.totalMembers': 'Total de membros',
+  'dashboard.activity.title': 'Atividade recente',
+  'dashboard.activity.description': 'Novidades dos seus consórcios',
+  'dashboard.activity.viewAll': 'Ver tudo',
+  'dashboard.activity.empty': 'Nenhuma atividade recente',
+
+  // Dashboard - quick actions
+  'quickActions.makePayment': 'Fazer pagamento',
+  'quickActions.pending': '{count} pendentes',
+  'quickActions.allCaughtUp': 'Tudo em dia',
+  'quickActions.createPool': 'Criar consórcio',
+  'quickActions.createPoolHint': 'Comece um novo consórcio',
+  'quickActions.inviteMembers': 'Convidar membros',
+  'quickActions.inviteMembersHint': 'Aumente seu consórcio',
+  'quickActions.howItWorks': 'Como funciona',
+  'quickActions.howItWorksHint': 'Saiba mais sobre consórcios',
+  'quickActions.createNewPool': 'Criar novo consórcio',
+
+  // Pool statuses
+  'poolStatus.active': 'Ativo',
+  'poolStatus.pending': 'Pendente',
+  'poolStatus.completed': 'Concluído',
+  'poolStatus.paused': 'Pausado',
+  'poolStatus.cancelled': 'Cancelado',
+
+  // Pool card
+  'poolCard.receiving': 'Recebe',
+  'poolCard.roundOf': 'Rodada {round}/{total}',
+  'poolCard.paid': 'Pago',
+  'poolCard.pay': 'Pagar',
+  'poolCard.paidCount': '{paid}/{total} pagaram',
+  'poolCard.receivingBanner': 'Você recebe {amount} nesta rodada!',
+  'poolCard.paymentDue': 'Pagamento de {amount} pendente',
+  'poolCard.round': 'Rodada',
+  'poolCard.members': 'Membros',
+  'poolCard.payout': 'Recebimento',
+  'poolCard.contributions': 'Contribuições: {paid}/{total}',
+  'poolCard.makePayment': 'Fazer pagamento',
+  'poolCard.makePaymentRecipient': 'Fazer pagamento (recebedor)',
+  'poolCard.paymentComplete': 'Pagamento concluído',
+
+  // Pool tiers
+  'poolTier.standard.label': 'Padrão',
+  'poolTier.standard.description': 'Consórcios pequenos entre pessoas que se conhecem.',
+  'poolTier.plus.label': 'Plus',
+  'poolTier.plus.description': 'Contribuições maiores. Todos os participantes verificam a identidade.',
+  'poolTier.premium.label': 'Premium',
+  'poolTier.premium.description': 'Os maiores fundos. Participantes verificados, um segundo administrador aprova cada pagamento e as contribuições ficam retidas por 3 dias antes do pagamento.',
+
+  // Create pool modal
+  'createPool.title': 'Crie um novo consórcio de poupança',
+  'createPool.description': 'Conclua as etapas abaixo para criar um novo consórcio de poupança',
+  'createPool.draftRestored': 'Rascunho recuperado da sua última sessão',
+  'createPool.startFresh': 'Começar do zero',
+  'createPool.quickCreateMode': 'Modo de criação rápida',
+  'createPool.quickCreateToggle': 'Criação rápida (sem etapas)',
+  'createPool.steps.basicInfo': 'Informações básicas',
+  'createPool.steps.schedule': 'Calendário',
+  'createPool.steps.inviteMembers': 'Convidar participantes',
+  'createPool.validationErrors': 'Erros de validação',
+  'createPool.error': 'Erro',
+  'createPool.customize': 'Personalizar',
+  'createPool.creating': 'Criando...',
+  'createPool.quickCreate': 'Criação rápida',
+  'createPool.back': 'Voltar',
+  'createPool.next': 'Próximo',
+  'createPool.submit': 'Criar consórcio',
+  'createPool.errors.signInRequired': 'Você precisa entrar para criar um consórcio',
+  'createPool.errors.nameRequired': 'O nome do consórcio é obrigatório',
+  'createPool.errors.nameTooShort': 'O nome do consórcio deve ter pelo menos 3 caracteres',
+  'createPool.errors.nameTooLong': 'O nome do consórcio deve ter menos de 50 caracteres',
+  'createPool.errors.amountRequired': 'O valor da contribuição é obrigatório',
+  'createPool.errors.amountRange': 'O valor deve estar entre {min} e {max}',
+  'createPool.errors.contributionRange': 'O valor da contribuição deve estar entre {min} e {max}',
+  'createPool.errors.startDateRequired': 'A data de início é obrigatória',
+  'createPool.errors.startDatePast': 'A data de início não pode estar no passado',
+  'createPool.errors.invalidEmails_one': 'E-mail inválido: {emails}',
+  'createPool.errors.invalidEmails_other': 'E-mails inválidos: {emails}',
+
+  // Create pool - basic info step
+  'createPool.basicInfo.name': 'Nome do consórcio',
+  'createPool.basicInfo.namePlaceholder': 'ex.: Consórcio da família',
+  'createPool.basicInfo.description': 'Descrição',
+  'createPool.basicInfo.descriptionPlaceholder': 'Para que serve este consórcio?',
+  'createPool.basicInfo.descriptionHint': 'Ajude os participantes a entender o objetivo do consórcio',
+  'createPool.basicInfo.currency': 'Moeda',
+  'createPool.basicInfo.currencyHint': 'Todas as contribuições e pagamentos são nesta moeda. Ela não pode ser alterada depois.',
+  'createPool.basicInfo.tier': 'Nível do consórcio',
+  'createPool.basicInfo.tierLimit': '{tier} · até {max}',
+  'createPool.basicInfo.tierHint': 'O nível define o limite de contribuição e não pode ser alterado depois.',
+  'createPool.basicInfo.safeguards.identity': 'verificação de identidade',
+  'createPool.basicInfo.safeguards.coSigner': 'administrador que também aprova',
+  'createPool.basicInfo.safeguards.escrow': 'retenção de {days} dias',
+  'createPool.basicInfo.safeguards.none': 'Sem verificações adicionais',
+  'createPool.basicInfo.amount': 'Valor da contribuição ({currency})',
+  'createPool.basicInfo.selectAmount': 'Selecione um valor',
+  'createPool.basicInfo.amountHint': 'Entre {min} e {max} por rodada',
+
+  // Create pool - schedule step
+  'createPool.schedule.frequency': 'Frequência das contribuições',
+  'createPool.schedule.weekly': 'Semanal',
+  'createPool.schedule.biweekly': 'Quinzenal',
+  'createPool.schedule.monthly': 'Mensal',
+  'createPool.schedule.members': 'Número de participantes',
+  'createPool.schedule.selectMembers': 'Selecione o número de participantes',
+  'createPool.schedule.memberCount': '{count} participantes',
+  'createPool.schedule.duration': 'Duração (meses)',
+  'createPool.schedule.selectDuration': 'Selecione a duração',
+  'createPool.schedule.months_one': '{count} mês',
+  'createPool.schedule.months_other': '{count} meses',
+  'createPool.schedule.startDate': 'Data de início',
+  'createPool.schedule.startDateHint': 'Quando a primeira contribuição deve vencer?',
+  'createPool.schedule.paymentMethods': 'Formas de pagamento permitidas',
+  'createPool.schedule.paymentMethodsHint': 'Escolha quais formas de pagamento os participantes podem usar neste consórcio',
+  'createPool.schedule.paymentMethodRequired': 'Selecione pelo menos uma forma de pagamento',
+  'createPool.schedule.payoutOrder': 'Ordem de pagamentos',
+  'createPool.schedule.selectPayoutOrder': 'Selecione a ordem de pagamentos',
+  'createPool.payoutOrder.fixed': 'Ordem fixa',
+  'createPool.payoutOrder.fixed.description': 'Você define a ordem de pagamentos e pode reorganizá-la depois.',
+  'createPool.payoutOrder.random_draw': 'Sorteio',
+  'createPool.payoutOrder.random_draw.description': 'A ordem é sorteada com uma semente que qualquer participante pode verificar.',
+  'createPool.payoutOrder.bidding': 'Lances',
+  'createPool.payoutOrder.bidding.description': 'Os participantes oferecem um desconto para receber antes o fundo de cada rodada.',
+
+  // Create pool - invite members step
+  'createPool.invite.method': 'Como você quer convidar os participantes?',
+  'createPool.invite.email': 'Enviar convites por e-mail',
+  'createPool.invite.link': 'Criar um link de compartilhamento',
+  'createPool.invite.later': 'Vou convidar os participantes depois',
+  'createPool.invite.emails': 'Endereços de e-mail (separados por vírgulas)',
+  'createPool.invite.emailsPlaceholder': 'ex.: amigo@example.com, familia@example.com',
+  'createPool.invite.emailsHint': 'Enviaremos um convite para participar do seu consórcio',
+  'createPool.invite.linkHint': 'Depois de criar o consórcio, você receberá um link para compartilhar com possíveis participantes.',
+  'createPool.summary.title': 'Resumo',
+  'createPool.summary.name': 'Nome do consórcio: {name}',
+  'createPool.summary.contribution': 'Contribuição: {amount} {frequency}',
+  'createPool.summary.members': 'Participantes: {count}',
+  'createPool.summary.duration': 'Duração: {duration}',
+  'createPool.summary.totalValue': 'Valor total do consórcio: {amount}',
+  'createPool.summary.paymentMethods': 'Formas de pagamento: {methods}',
+  'createPool.summary.schedule': 'Calendário estimado de pagamentos',
+  'createPool.summary.round': 'Rodada {round}:',
+  'createPool.summary.moreRounds': '... e mais {count} rodadas',
+  'createPool.summary.scheduleHint': '* Cada participante recebe o fundo na rodada que lhe foi atribuída',
+
+  // Create pool - quick create
+  'createPool.quick.amount': 'Valor',
+  'createPool.quick.members': 'Participantes',
+  'createPool.quick.frequency': 'Frequência',
+  'createPool.quick.start': 'Início',
+  'createPool.quick.totalValue': 'Valor total do consórcio:',
+  'createPool.quick.eachContributes': 'Cada participante contribui:',
+  'createPool.quick.firstPayout': 'Primeiro pagamento:',
+  'createPool.quick.switchToDetailed': 'Mudar para a configuração detalhada',
+
+  // Member statuses and roles
+  'memberStatus.current': 'Na vez',
+  'memberStatus.completed': 'Concluído',
+  'memberStatus.upcoming': 'Próximo',
+  'memberStatus.active': 'Ativo',
+  'memberStatus.inactive': 'Inativo',
+  'memberStatus.suspended': 'Suspenso',
+  'memberRole.admin': 'Administrador',
+  'memberRole.member': 'Participante',
+  'memberRole.creator': 'Criador',
+  'memberRole.treasurer': 'Tesoureiro',
+  'memberRole.moderator': 'Moderador',
+  'memberRole.viewer': 'Observador',
+
+  // Transactions
+  'transactionType.contribution': 'Contribuição',
+  'transactionType.payout': 'Pagamento',
+  'transactionType.deposit': 'Depósito',
+  'transactionType.withdrawal': 'Saque',
+  'transactionType.escrow': 'Retenção',
+  'transactionType.refund': 'Reembolso',
+  'transactionStatus.pending': 'Pendente',
+  'transactionStatus.processing': 'Processando',
+  'transactionStatus.completed': 'Concluído',
+  'transactionStatus.failed': 'Falhou',
+  'transactionStatus.scheduled': 'Agendado',
+  'transactionStatus.cancelled': 'Cancelado',
+  'transactionStatus.escrowed': 'Retido',
+  'transactionStatus.released': 'Liberado',
+
+  // Pool page
+  'poolPage.notAvailable': 'N/D',
+  'poolPage.loading': 'Carregando o consórcio...',
+  'poolPage.error': 'Erro',
+  'poolPage.notFound.title': 'Consórcio não encontrado',
+  'poolPage.notFound.description': 'O consórcio solicitado não foi encontrado.',
+  'poolPage.backToPools': 'Voltar aos meus consórcios',
+  'poolPage.payment.cancelled': 'O pagamento foi cancelado. Você pode tentar de novo quando quiser.',
+  'poolPage.payment.succeeded': 'Pagamento concluído! Sua contribuição foi registrada.',
+  'poolPage.payment.failed': 'Não foi possível concluir o pagamento. Entre em contato com o suporte.',
+  'poolPage.payment.error': 'Ocorreu um erro ao processar seu pagamento.',
+  'poolPage.payment.processing': 'Processando o pagamento',
+  'poolPage.payment.processingHint': 'Aguarde enquanto concluímos seu pagamento...',
+  'poolPage.payment.successTitle': 'Pagamento concluído!',
+  'poolPage.payment.issueTitle': 'Problema no pagamento',
+  'poolPage.createdOn': 'Criado em {date}',
+  'poolPage.share': 'Compartilhar',
+  'poolPage.settings': 'Configurações',
+  'poolPage.deletePool': 'Excluir consórcio',
+  'poolPage.loadingShort': 'Carregando...',
+  'poolPage.paymentMade': 'Pagamento feito',
+  'poolPage.makePayment': 'Fazer pagamento',
+  'poolPage.makePaymentRecipient': 'Fazer pagamento (recebe)',
+  'poolPage.stats.totalPool': 'Fundo total',
+  'poolPage.stats.nextPayout': 'Próximo pagamento',
+  'poolPage.stats.round': 'Rodada',
+  'poolPage.stats.roundOf': '{round} de {total}',
+  'poolPage.stats.members': 'Participantes',
+  'poolPage.progress.title': 'Andamento do consórcio',
+  'poolPage.progress.description': '{round} de {total} rodadas concluídas',
+  'poolPage.progress.inProgress': 'Em andamento',
+  'poolPage.tabs.contributions': 'Contribuições',
+  'poolPage.tabs.payouts': 'Pagamentos',
+  'poolPage.tabs.members': 'Participantes',
+  'poolPage.tabs.transactions': 'Transações',
+  'poolPage.tabs.discussion': 'Conversa',
+  'poolPage.tabs.rules': 'Regras',
+  'poolPage.members.title': 'Participantes do consórcio',
+  'poolPage.members.invite': 'Convidar participante',
+  'poolPage.members.manage': 'Gerenciar participantes',
+  'poolPage.members.member': 'Participante',
+  'poolPage.members.position': 'Posição',
+  'poolPage.members.status': 'Status',
+  'poolPage.members.joined': 'Entrou em',
+  'poolPage.members.role': 'Função',
+  'poolPage.members.actions': 'Ações',
+  'poolPage.transactions.title': 'Histórico de transações',
+  'poolPage.transactions.statement': 'Extrato',
+  'poolPage.transactions.poolStatement': 'Extrato do consórcio (PDF)',
+  'poolPage.transactions.roundStatement': 'Extrato da rodada {round} (PDF)',
+  'poolPage.transactions.type': 'Tipo',
+  'poolPage.transactions.member': 'Participante',
+  'poolPage.transactions.amount': 'Valor',
+  'poolPage.transactions.date': 'Data',
+  'poolPage.transactions.status': 'Status',
+  'poolPage.transactions.empty': 'Ainda não há transações. As contribuições aparecerão aqui.',
+  'poolPage.discussion.title': 'Conversa do grupo',
+  'poolPage.discussion.description': 'Converse com os outros participantes do consórcio',
+  'poolPage.discussion.loadError': 'Erro ao carregar as mensagens',
+  'poolPage.discussion.empty': 'Ainda não há mensagens. Comece a conversa!',
+  'poolPage.discussion.placeholder': 'Digite sua mensagem...',
+  'poolPage.rules.title': 'Regras do consórcio',
+  'poolPage.rules.description': 'Normas e condições deste consórcio de poupança',
+  'poolPage.rules.contributions': 'Regras de contribuição',
+  'poolPage.rules.contributionAmount': 'Todos os participantes devem contribuir com {amount} ({frequency}), inclusive quem recebe o pagamento da rodada.',
+  'poolPage.rules.contributionMethods': 'As contribuições são feitas manualmente via Venmo, PayPal, Zelle ou Cash App diretamente ao administrador do consórcio.',
+  'poolPage.rules.dueByFrequency': 'Os pagamentos vencem antes de cada pagamento agendado ({frequency}).',
+  'poolPage.rules.dueByDate': 'Os pagamentos vencem em {date} (o dia antes do pagamento).',
+  'poolPage.rules.markCompleted': 'Depois de enviar seu pagamento, marque-o como concluído no aplicativo para que o administrador confirme o recebimento.',
+  'poolPage.rules.missedPayments': 'Os participantes que não pagarem em dia receberão um aviso. Depois de dois pagamentos perdidos, podem ser removidos de consórcios futuros.',
+  'poolPage.rules.payouts': 'Regras de pagamento',
+  'poolPage.rules.payoutOrder': 'A ordem de pagamentos foi sorteada no início do consórcio.',
+  'poolPage.rules.payoutAmount': 'Cada participante receberá um pagamento de {amount} na rodada que lhe foi atribuída.',
+  'poolPage.rules.payoutMethods': 'O administrador do consórcio envia os pagamentos pela sua forma preferida (Venmo, PayPal, Zelle ou Cash App).',
+  'poolPage.rules.payoutSetup': 'Configure sua forma de recebimento na aba Pagamentos para receber os fundos.',
+  'poolPage.rules.members': 'Regras para participantes',
+  'poolPage.rules.leaving': 'Se um participante precisar sair do consórcio, deve encontrar um substituto que aceite as mesmas condições.',
+  'poolPage.rules.newMembers': 'Novos participantes devem ser aprovados pela maioria dos participantes atuais.',
+  'poolPage.rules.contactInfo': 'Todos os participantes devem manter seus dados de contato atualizados.',
+  'poolPage.rules.disputes': 'Resolução de conflitos',
+  'poolPage.rules.majorityVote': 'Os conflitos serão resolvidos por maioria de votos dos participantes.',
+  'poolPage.rules.adminFinalSay': 'O administrador do consórcio tem a palavra final em assuntos urgentes.',
+  'poolPage.rules.internalFirst': 'Os participantes se comprometem a resolver conflitos entre si antes de buscar uma solução externa.',
+  'poolPage.delete.title': 'Excluir consórcio',
+  'poolPage.delete.description': 'Tem certeza de que deseja excluir "{name}"? Esta ação não pode ser desfeita. Todos os dados do consórcio, incluindo participantes, transações e mensagens, serão excluídos permanentemente.',
+  'poolPage.delete.deleting': 'Excluindo...',
+  'poolPage.cancel': 'Cancelar',
+  'poolPage.settingsDialog.title': 'Configurações do consórcio',
+  'poolPage.settingsDialog.description': 'Atualize o nome e a descrição do seu consórcio.',
+  'poolPage.settingsDialog.name': 'Nome do consórcio',
+  'poolPage.settingsDialog.namePlaceholder': 'Digite o nome do consórcio',
+  'poolPage.settingsDialog.descriptionLabel': 'Descrição',
+  'poolPage.settingsDialog.descriptionPlaceholder': 'Digite a descrição do consórcio',
+  'poolPage.settingsDialog.saving': 'Salvando...',
+  'poolPage.settingsDialog.save': 'Salvar alterações',
+
+  // Payments page
+  'payments.title': 'Pagamentos',
+  'payments.description': 'Acompanhe e gerencie suas contribuições e pagamentos',
+  'payments.export': 'Exportar',
+  'payments.export.csv': 'CSV (planilha)',
+  'payments.export.ofx': 'OFX (apps de finanças)',
+  'payments.export.failed': 'Não foi possível exportar as transações',
+  'payments.addMethodFailed': 'Não foi possível adicionar a forma de pagamento: {error}',
+  'payments.summary.totalDue': 'Total a pagar',
+  'payments.summary.overdue': 'Atrasados',
+  'payments.summary.dueSoon': 'A vencer',
+  'payments.summary.receiving': 'A receber',
+  'payments.upcoming.title': 'Próximos pagamentos',
+  'payments.upcoming.description': 'Contribuições agendadas dos seus consórcios atuais',
+  'payments.upcoming.loadError': 'Não foi possível carregar os pagamentos',
+  'payments.upcoming.empty.title': 'Nenhum pagamento próximo',
+  'payments.upcoming.empty.description': 'Você não tem pagamentos próximos. Participe de um consórcio ou crie um para começar a contribuir.',
+  'payments.upcoming.empty.createPool': 'Criar um consórcio',
+  'payments.upcoming.empty.learnMore': 'Saiba mais',
+  'payments.upcoming.receiving': 'Você recebe nesta rodada!',
+  'payments.upcoming.roundTo': 'Rodada {round} de {total} • Para: {recipient}',
+  'payments.upcoming.overdue_one': '{date} ({count} dia de atraso)',
+  'payments.upcoming.overdue_other': '{date} ({count} dias de atraso)',
+  'payments.upcoming.dueToday': '{date} (vence hoje)',
+  'payments.upcoming.dueTomorrow': '{date} (vence amanhã)',
+  'payments.upcoming.dueIn': '{date} (em {count} dias)',
+  'payments.upcoming.payNow': 'Pagar agora',
+  'payments.upcoming.paid': 'Pago',
+  'payments.tryAgain': 'Tentar novamente',
+  'payments.history.title': 'Histórico de transações',
+  'payments.history.description': 'Todos os seus pagamentos e recebimentos ({count} no total)',
+  'payments.history.search': 'Buscar transações...',
+  'payments.history.filter': 'Filtrar',
+  'payments.history.filters': 'Filtros',
+  'payments.history.clearAll': 'Limpar tudo',
+  'payments.history.type': 'Tipo',
+  'payments.history.allTypes': 'Todos os tipos',
+  'payments.history.status': 'Status',
+  'payments.history.allStatuses': 'Todos os status',
+  'payments.history.dateRange': 'Período',
+  'payments.history.from': 'De',
+  'payments.history.to': 'Até',
+  'payments.history.applyFilters': 'Aplicar filtros',
+  'payments.history.date': 'Data',
+  'payments.history.pool': 'Consórcio',
+  'payments.history.amount': 'Valor',
+  'payments.history.round': 'Rodada {round}',
+  'payments.history.loadError': 'Não foi possível carregar o histórico',
+  'payments.history.noResults.title': 'Nenhum resultado',
+  'payments.history.noResults.description': 'Nenhuma transação corresponde aos filtros. Tente ajustar a busca.',
+  'payments.history.empty.title': 'Nenhuma transação',
+  'payments.history.empty.description': 'Seu histórico aparecerá aqui quando você começar a contribuir ou receber pagamentos.',
+  'payments.history.clearFilters': 'Limpar filtros',
+  'payments.history.showing': 'Mostrando {from} a {to} de {total}',
+  'payments.history.page': 'Página {page} de {total}',
+
+  // Member role descriptions and invitation statuses
+  'memberRole.creator.description': 'Criou o consórcio. Pode fazer tudo e sua função não pode ser alterada.',
+  'memberRole.admin.description': 'Administra o consórcio: configurações, participantes, funções, contribuições e pagamentos.',
+  'memberRole.treasurer.description': 'Verifica as contribuições, envia lembretes e confirma os pagamentos.',
+  'memberRole.moderator.description': 'Mantém as conversas em ordem: publica avisos, fixa e remove publicações.',
+  'memberRole.member.description': 'Contribui, participa das conversas e vota nas propostas.',
+  'memberRole.viewer.description': 'Pode ver o consórcio e registrar as próprias contribuições, mas não pode publicar nem votar.',
+  'invitationStatus.pending': 'Pendente',
+  'invitationStatus.accepted': 'Aceita',
+  'invitationStatus.rejected': 'Recusada',
+  'invitationStatus.expired': 'Expirada',
+
+  // Member management page
+  'memberManagement.loading': 'Carregando participantes...',
+  'memberManagement.error': 'Erro',
+  'memberManagement.backToPool': 'Voltar ao consórcio',
+  'memberManagement.title': 'Gerenciar participantes',
+  'memberManagement.subtitle_one': '{pool} • {count} participante',
+  'memberManagement.subtitle_other': '{pool} • {count} participantes',
+  'memberManagement.inviteMember': 'Convidar participante',
+  'memberManagement.tabs.members': 'Participantes',
+  'memberManagement.tabs.invitations': 'Convites',
+  'memberManagement.tabs.positions': 'Posições',
+  'memberManagement.tabs.departures': 'Saídas',
+  'memberManagement.members.title': 'Participantes do consórcio',
+  'memberManagement.members.description': 'Gerencie os participantes do seu consórcio de poupança',
+  'memberManagement.members.remindAll': 'Lembrar todos',
+  'memberManagement.members.member': 'Participante',
+  'memberManagement.members.position': 'Posição',
+  'memberManagement.members.status': 'Status',
+  'memberManagement.members.payments': 'Contribuições',
+  'memberManagement.members.totalContributed': 'Total contribuído',
+  'memberManagement.members.payoutDate': 'Data do pagamento',
+  'memberManagement.members.actions': 'Ações',
+  'memberManagement.actions.message': 'Mensagem',
+  'memberManagement.actions.remind': 'Lembrar',
+  'memberManagement.actions.editProfile': 'Editar perfil',
+  'memberManagement.actions.sendReminder': 'Enviar lembrete',
+  'memberManagement.actions.remove': 'Remover',
+  'memberManagement.invitations.title': 'Convites',
+  'memberManagement.invitations.description': 'Acompanhe e gerencie os convites enviados a possíveis participantes',
+  'memberManagement.invitations.empty.title': 'Nenhum convite enviado',
+  'memberManagement.invitations.empty.description': 'Convide pessoas para participar do seu consórcio de poupança',
+  'memberManagement.invitations.email': 'Endereço de e-mail',
+  'memberManagement.invitations.sentDate': 'Data de envio',
+  'memberManagement.invitations.status': 'Status',
+  'memberManagement.invitations.actions': 'Ações',
+  'memberManagement.invitations.resend': 'Reenviar',
+  'memberManagement.positions.title': 'Gerenciar posições',
+  'memberManagement.positions.description': 'Arraste os participantes para ajustar a ordem de pagamentos',
+  'memberManagement.cancel': 'Cancelar',
+  'memberManagement.sending': 'Enviando...',
+  'memberManagement.remove.title': 'Remover participante',
+  'memberManagement.remove.description': 'Tem certeza de que deseja remover este participante do consórcio?',
+  'memberManagement.remove.warning': 'Atenção',
+  'memberManagement.remove.contributed': 'Este participante contribuiu com {amount} para o consórcio.',
+  'memberManagement.remove.payoutReceived': 'Já recebeu o pagamento.',
+  'memberManagement.remove.payoutPending': 'Ainda não recebeu o pagamento.',
+  'memberManagement.remove.debt': 'O que ainda dever ao consórcio será registrado como dívida.',
+  'memberManagement.remove.replacement': 'A posição fica aberta para um substituto, que cobre o reembolso do que foi pago.',
+  'memberManagement.remove.trackDepartures': 'Acompanhe isso em Saídas.',
+  'memberManagement.remove.reason': 'Motivo (opcional)',
+  'memberManagement.remove.confirm': 'Remover participante',
+  'memberManagement.remove.failed': 'Não foi possível remover o participante',
+  'memberManagement.edit.title': 'Editar perfil do participante',
+  'memberManagement.edit.description': 'Atualize os dados e preferências do participante',
+  'memberManagement.edit.joined': 'Entrou em {date}',
+  'memberManagement.edit.name': 'Nome completo',
+  'memberManagement.edit.email': 'Endereço de e-mail',
+  'memberManagement.edit.phone': 'Telefone',
+  'memberManagement.edit.role': 'Função no consórcio',
+  'memberManagement.edit.paymentStatus': 'Situação das contribuições',
+  'memberManagement.edit.paymentsOnTime': 'Contribuições em dia:',
+  'memberManagement.edit.paymentsMissed': 'Contribuições perdidas:',
+  'memberManagement.edit.payoutInfo': 'Informações do pagamento',
+  'memberManagement.edit.payoutReceived': 'Pagamento recebido',
+  'memberManagement.edit.payoutDate': 'Data de pagamento agendada',
+  'memberManagement.edit.resetPassword': 'Redefinir senha',
+  'memberManagement.edit.save': 'Salvar alterações',
+  'memberManagement.edit.failed': 'Não foi possível atualizar o participante',
+  'memberManagement.positions.failed': 'Não foi possível atualizar as posições',
+  'memberManagement.reminder.title': 'Enviar lembrete de pagamento',
+  'memberManagement.reminder.description': 'Envie um lembrete de pagamento por e-mail a este participante',
+  'memberManagement.reminder.message': 'Mensagem pessoal (opcional)',
+  'memberManagement.reminder.placeholder': 'Adicione uma mensagem pessoal para incluir no e-mail...',
+  'memberManagement.reminder.preview': 'Um lembrete será enviado para {email} sobre a próxima contribuição de {amount} para o consórcio "{pool}".',
+  'memberManagement.reminder.send': 'Enviar lembrete',
+  'memberManagement.reminder.sent': 'Lembrete enviado!',
+  'memberManagement.reminder.failed': 'Não foi possível enviar o lembrete',
+  'memberManagement.reminder.error': 'Ocorreu um erro inesperado ao enviar o lembrete',
+  'memberManagement.bulkReminder.title': 'Enviar lembrete a todos',
+  'memberManagement.bulkReminder.description': 'Envie um lembrete de pagamento a todos os participantes que ainda não contribuíram',
+  'memberManagement.bulkReminder.recipients_one': '{count} participante receberá este lembrete',
+  'memberManagement.bulkReminder.recipients_other': '{count} participantes receberão este lembrete',
+  'memberManagement.bulkReminder.skipped': 'Os participantes que já contribuíram não receberão o lembrete.',
+  'memberManagement.bulkReminder.placeholder': 'Adicione uma mensagem pessoal para incluir nos e-mails...',
+  'memberManagement.bulkReminder.preview': 'Cada participante receberá um e-mail lembrando a próxima contribuição de {amount} para o consórcio "{pool}".',
+  'memberManagement.bulkReminder.send': 'Enviar lembretes',
+  'memberManagement.bulkReminder.allContributed': 'Todos os participantes já contribuíram!',
+  'memberManagement.bulkReminder.sent_one': '{count} lembrete enviado!',
+  'memberManagement.bulkReminder.sent_other': '{count} lembretes enviados!',
+  'memberManagement.bulkReminder.partial': 'Foram enviados {sent} de {total} lembretes; {failed} falharam.',
+  'memberManagement.bulkReminder.error': 'Ocorreu um erro inesperado ao enviar os lembretes',
+  'memberManagement.invitations.resendFailed': 'Não foi possível reenviar o convite',
+  'memberManagement.invitations.resendError': 'Ocorreu um erro inesperado ao reenviar o convite',
+  'memberManagement.invitations.cancelFailed': 'Não foi possível cancelar o convite',
+  'memberManagement.invitations.cancelError': 'Ocorreu um erro inesperado ao cancelar o convite',
+
+  // Member cards
+  'reliabilityLevel.new': 'Novo',
+  'reliabilityLevel.excellent': 'Excelente',
+  'reliabilityLevel.good': 'Boa',
+  'reliabilityLevel.fair': 'Regular',
+  'reliabilityLevel.poor': 'Baixa',
+  'memberCard.status.receiving': 'Recebendo',
+  'memberCard.status.paid': 'Pago',
+  'memberCard.status.pending': 'Pendente',
+  'memberCard.reliabilityTitle': 'Confiabilidade em todos os consórcios deste participante',
+  'memberCard.viewProfile': 'Ver perfil',
+  'memberCard.sendMessage': 'Enviar mensagem',
+  'memberCard.sendReminder': 'Enviar lembrete',
+  'memberCard.removeMember': 'Remover participante',
+  'memberCard.position': 'Posição:',
+  'memberCard.onTime': '{onTime} de {total} contribuições em dia',
+  'memberCard.cycles_one': '{count} ciclo concluído',
+  'memberCard.cycles_other': '{count} ciclos concluídos',
+  'memberCard.owes': 'deve {amount}',
+  'memberCard.receivingPayout': 'Recebe o pagamento nesta rodada',
+  'memberCard.verified': 'Verificado',
+  'memberCard.unverified': 'Não verificado',
+  'memberCard.lastUsed': 'Último uso: {date}',
+  'memberCard.history': 'Histórico de contribuições ({count})',
+  'memberCard.more': '+ {count} a mais',
+  'memberCard.header.members': 'Participantes ({count})',
+  'memberCard.header.invite': 'Convidar',
+  'memberCard.header.paid': '{paid}/{total} pagaram',
+
+  // Pool frequencies
+  'frequency.weekly': 'Semanal',
+  'frequency.biweekly': 'Quinzenal',
+  'frequency.monthly': 'Mensal',
+
+  // Shared email text
+  'email.greeting': 'Olá, {name},',
+  'email.greetingAnonymous': 'Olá,',
+  'email.allRightsReserved': 'Todos os direitos reservados.',
+  'email.managePreferences': 'Gerenciar preferências de e-mail',
+  'email.automatedMessage': 'Esta é uma mensagem automática do Juntas Seguras.',
+  'email.days_one': '{count} dia',
+  'email.days_other': '{count} dias',
+
+  // Payment reminder email
+  'email.paymentReminder.subject': 'Lembrete de pagamento - {pool}',
+  'email.paymentReminder.subjectOverdue': 'Pagamento atrasado - {pool}',
+  'email.paymentReminder.title': 'Lembrete de pagamento - {pool}',
+  'email.paymentReminder.titleOverdue': 'Lembrete de pagamento atrasado - {pool}',
+  'email.paymentReminder.preview': 'Sua contribuição de {amount} para {pool} vence em {date}',
+  'email.paymentReminder.previewOverdue': 'Sua contribuição de {amount} para {pool} está atrasada',
+  'email.paymentReminder.overdueHeadline': 'Sua contribuição está {days} atrasada',
+  'email.paymentReminder.overdueUrgent': 'URGENTE: Sua contribuição está {days} atrasada!',
+  'email.paymentReminder.overdueBody': 'Faça seu pagamento o quanto antes para não prejudicar os outros membros do consórcio.',
+  'email.paymentReminder.dueSoon': 'Este é um lembrete de que sua contribuição para {pool} vence em breve.',
+  'email.paymentReminder.details': 'Detalhes do pagamento',
+  'email.paymentReminder.pool': 'Consórcio',
+  'email.paymentReminder.round': 'Rodada',
+  'email.paymentReminder.roundOf': '{round} de {total}',
+  'email.paymentReminder.amountDue': 'Valor devido',
+  'email.paymentReminder.dueDate': 'Vencimento',
+  'email.paymentReminder.status': 'Situação',
+  'email.paymentReminder.statusOverdue': 'Atrasado',
+  'email.paymentReminder.statusDueSoon': 'Vence em breve',
+  'email.paymentReminder.howToPay': 'Como pagar',
+  'email.paymentReminder.methodsIntro': 'Envie sua contribuição usando uma das formas de pagamento abaixo:',
+  'email.paymentReminder.noMethods': 'O administrador do consórcio não configurou formas de pagamento. Entre em contato com ele para receber as instruções.',
+  'email.paymentReminder.preferred': 'Preferida',
+  'email.paymentReminder.payNow': 'Pagar agora',
+  'email.paymentReminder.sendToAccount': 'Envie diretamente para esta conta',
+  'email.paymentReminder.sendToZelle': 'Envie diretamente para este e-mail/telefone',
+  'email.paymentReminder.paymentNote': 'Contribuição do consórcio',
+  'email.paymentReminder.important': 'Importante:',
+  'email.paymentReminder.markAsPaid': 'Depois de pagar, marque o pagamento como feito no aplicativo para que o administrador possa confirmá-lo.',
+  'email.paymentReminder.makePayment': 'Fazer pagamento',
+  'email.paymentReminder.viewPool': 'Ver consórcio',
+  'email.paymentReminder.footer': 'Você recebeu este e-mail porque participa de um consórcio de poupança no Juntas Seguras.',
+
+  // Pool invitation email
+  'email.invitation.subject': 'Você foi convidado para participar de {pool}!',
+  'email.invitation.preview': '{inviter} convidou você para participar de {pool}',
+  'email.invitation.heading': 'Você foi convidado para participar de um consórcio de poupança!',
+  'email.invitation.intro': '{inviter} convidou você para participar do consórcio de poupança "{pool}".',
+  'email.invitation.inviterFallback': 'Um amigo',
+  'email.invitation.details': 'Detalhes do consórcio',
+  'email.invitation.poolName': 'Nome do consórcio',
+  'email.invitation.contribution': 'Valor da contribuição',
+  'email.invitation.frequency': 'Frequência',
+  'email.invitation.members': 'Membros atuais',
+  'email.invitation.personalMessage': 'Mensagem pessoal',
+  'email.invitation.acceptPrompt': 'Para aceitar o convite, clique no botão abaixo.',
+  'email.invitation.visitPrompt': 'Para aceitar o convite, acesse:',
+  'email.invitation.join': 'Participar do consórcio',
+  'email.invitation.copyLink': 'Ou copie e cole este link no seu navegador:',
+  'email.invitation.expires': 'Este convite expira em {days}.',
+  'email.invitation.footer': 'Se você não esperava este convite, pode ignorar este e-mail.',
+
+  // Scheduled reminders
+  'reminder.due.today': 'hoje',
+  'reminder.due.tomorrow': 'amanhã',
+  'reminder.due.inDays': 'em {count} dias',
+  'reminder.daysAgo_one': 'há {count} dia',
+  'reminder.daysAgo_other': 'há {count} dias',
+  'reminder.pool': 'Consórcio',
+  'reminder.amountDue': 'Valor devido',
+  'reminder.dueDate': 'Vencimento',
+  'reminder.payoutDate': 'Data do recebimento',
+  'reminder.round': 'Rodada',
+  'reminder.daysOverdue': 'Dias de atraso',
+  'reminder.currentRound': 'Atual',
+  'reminder.thanks': 'Obrigado por fazer parte deste consórcio!',
+  'reminder.regards': 'Atenciosamente,',
+  'reminder.thankYou': 'Obrigado,',
+  'reminder.optOut': 'Se não quiser mais receber estes lembretes, altere suas preferências de notificação nas configurações da sua conta.',
+  'reminder.paymentDue.subject': 'Lembrete de pagamento: {amount} vence {when} em {pool}',
+  'reminder.paymentDue.title': 'Lembrete de pagamento',
+  'reminder.paymentDue.body': 'Este é um lembrete de que sua contribuição de {amount} para o consórcio "{pool}" vence {when} ({date}).',
+  'reminder.paymentDue.bodyShort': 'Este é um lembrete de que sua contribuição vence {when}.',
+  'reminder.paymentDue.roundInProgress': 'A rodada {round} está em andamento e precisamos da contribuição de todos para concluir o pagamento.',
+  'reminder.paymentDue.payPrompt': 'Faça seu pagamento o quanto antes para evitar atrasos no recebimento.',
+  'reminder.paymentDue.cta': 'Fazer pagamento',
+  'reminder.paymentOverdue.subject': '⚠️ Pagamento atrasado: {amount} venceu {ago}',
+  'reminder.paymentOverdue.title': '⚠️ Pagamento atrasado',
+  'reminder.paymentOverdue.body': 'Sua contribuição de {amount} para o consórcio "{pool}" venceu em {date}, {ago}.',
+  'reminder.paymentOverdue.bodyShort': 'Sua contribuição venceu em {date}, {ago}.',
+  'reminder.paymentOverdue.impact': 'Pagamentos atrasados afetam todo o consórcio e podem atrasar o recebimento dos outros membros. Faça seu pagamento o quanto antes.',
+  'reminder.paymentOverdue.difficulties': 'Se estiver com dificuldades, fale com o administrador do seu consórcio.',
+  'reminder.paymentOverdue.cta': 'Pagar agora',
+  'reminder.payoutComing.subject': '🎉 Seu recebimento está chegando! {pool}',
+  'reminder.payoutComing.title': '🎉 Seu recebimento está chegando!',
+  'reminder.payoutComing.body': 'Ótimas notícias! Você vai receber seu pagamento do consórcio "{pool}" em {date}.',
+  'reminder.payoutComing.bodyShort': 'Ótimas notícias! Você vai receber seu pagamento em breve.',
+  'reminder.payoutComing.checkMethod': 'Confira se sua forma de recebimento está atualizada no seu perfil para receber o dinheiro rapidamente.',
+  'reminder.payoutComing.checkMethodShort': 'Confira se sua forma de recebimento está atualizada!',
+  'reminder.payoutComing.cta': 'Atualizar forma de recebimento',
+  'reminder.generic.subject': 'Notificação de {pool}',
+  'reminder.generic.body': 'Você tem uma notificação do seu consórcio.',
+  'reminder.push.round': 'a rodada {round}',
+  'reminder.push.thisRound': 'esta rodada',
+  'reminder.push.paymentDue.title': 'Pagamento pendente: {pool}',
+  'reminder.push.paymentDue.body': 'Sua contribuição de {amount} para {round} vence em {date}.',
+  'reminder.push.paymentOverdue.title': 'Pagamento atrasado: {pool}',
+  'reminder.push.paymentOverdue.body': 'Sua contribuição de {amount} para {round} venceu em {date}. Faça o pagamento o quanto antes.',
+  'reminder.push.payoutComing.title': 'Seu recebimento está chegando: {pool}',
+  'reminder.push.payoutComing.body': 'Você vai receber o pagamento de {round} em {date}. Confira se sua forma de recebimento está atualizada.',
+};
+
+export default pt;
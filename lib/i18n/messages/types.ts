@@ -0,0 +1,12 @@
+import type { MessageKey } from './en';
+
+// Base keys of messages with plural forms ('email.days' for 'email.days_one')
+type PluralBase<K> = K extends `${infer Base}_other` ? Base : never;
+
+export type PluralMessageKey = PluralBase<MessageKey>;
+
+// Every key a catalog may define: the English keys plus any plural form
+export type CatalogKey = MessageKey | `${PluralMessageKey}_${Intl.LDMLPluralRule}`;
+
+// Translations for one locale; missing keys fall back to English
+export type Catalog = Partial<Record<CatalogKey, string>>;
@@ -0,0 +1,38 @@
+/**
+ * The language to write to a recipient in, from their saved setting.
+ * Server-only (reads the User collection), so it isn't exported from the
+ * client-safe lib/i18n index.
+ */
+
+import { Types } from 'mongoose';
+import connectToDatabase from '../db/connect';
+import { getUserModel } from '../db/models/user';
+import { DEFAULT_LOCALE, Locale } from '../../types/i18n';
+import { resolveLocale } from './locales';
+
+/**
+ * Saved locales for a set of users, keyed by user id. Users without one get
+ * the default.
+ */
+export async function getUserLocales(userIds: Array<string | Types.ObjectId>): Promise<Map<string, Locale>> {
+  const ids = Array.from(new Set(userIds.map(id => id.toString())));
+  const locales = new Map<string, Locale>(ids.map(id => [id, DEFAULT_LOCALE]));
+  if (ids.length === 0) return locales;
+
+  await connectToDatabase();
+  const users = await getUserModel().find({ _id: { $in: ids } }).select('language');
+  for (const user of users) {
+    locales.set(user._id.toString(), resolveLocale(user.language));
+  }
+  return locales;
+}
+
+/**
+ * Locale for an email address: the account's setting if the address belongs
+ * to a user, otherwise the fallback (e.g. the language of whoever invited them)
+ */
+export async function getLocaleForEmail(email: string, fallback: Locale = DEFAULT_LOCALE): Promise<Locale> {
+  await connectToDatabase();
+  const user = await getUserModel().findOne({ email: email.trim().toLowerCase() }).select('language');
+  return user?.language ? resolveLocale(user.language) : fallback;
+}
@@ -0,0 +1,89 @@
+/**
+ * Message lookup with {placeholder} interpolation and plural forms
+ */
+
+import { DEFAULT_LOCALE, Locale, TranslationParams } from '../../types/i18n';
+import { catalogs, en, MessageKey, PluralMessageKey } from './messages';
+import { getIntlLocale } from './locales';
+
+// A message key, or the base key of a plural message ('email.days')
+export type TranslationKey = MessageKey | PluralMessageKey;
+
+export type Translator = (key: TranslationKey, params?: TranslationParams) => string;
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function getPluralRules(locale: Locale): Intl.PluralRules {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(getIntlLocale(locale));
+    pluralRules.set(locale, rules);
+  }
+  return rules;
+}
+
+function findMessage(locale: Locale, key: string, count: unknown): string | undefined {
+  const catalog = catalogs[locale] as Record<string, string | undefined>;
+
+  if (typeof count === 'number') {
+    const form = catalog[`${key}_${getPluralRules(locale).select(count)}`] ?? catalog[`${key}_other`];
+    if (form !== undefined) return form;
+  }
+  return catalog[key];
+}
+
+/**
+ * Replace {name} placeholders; unknown placeholders are left as they are
+ */
+export function interpolate(message: string, params: TranslationParams = {}): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(params, name) ? String(params[name]) : match
+  );
+}
+
+/**
+ * Translate a key, falling back to English and then to the key itself
+ */
+export function translate(locale: Locale, key: TranslationKey, params: TranslationParams = {}): string {
+  const message = findMessage(locale, key, params.count)
+    ?? findMessage(DEFAULT_LOCALE, key, params.count)
+    ?? key;
+  return interpolate(message, params);
+}
+
+export function createTranslator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
+
+/**
+ * Whether a key built at runtime (e.g. from a pool's frequency) exists
+ */
+export function isTranslationKey(key: string): key is TranslationKey {
+  return key in en || `${key}_other` in en;
+}
+
+/**
+ * A pool frequency ('weekly') in lowercase for use mid-sentence, e.g.
+ * "$10/weekly"; values without a translation are returned as they are
+ */
+export function translateFrequency(locale: Locale, frequency: string): string {
+  const key = `frequency.${frequency.toLowerCase()}`;
+  return isTranslationKey(key) ? translate(locale, key).toLowerCase() : frequency;
+}
+
+/**
+ * A transaction type ('payout') as a label; unknown types are returned as they are
+ */
+export function translateTransactionType(locale: Locale, type: string): string {
+  const key = `transactionType.${type.toLowerCase()}`;
+  return isTranslationKey(key) ? translate(locale, key) : type;
+}
+
+/**
+ * A transaction status ('completed') as a label; unknown statuses are returned
+ * as they are
+ */
+export function translateTransactionStatus(locale: Locale, status: string): string {
+  const key = `transactionStatus.${status.toLowerCase()}`;
+  return isTranslationKey(key) ? translate(locale, key) : status;
+}
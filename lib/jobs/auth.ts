@@ -0,0 +1,57 @@
+/**
+ * Access control for job endpoints
+ *
+ * Cron endpoints are called by Vercel Cron (or any scheduler) with the
+ * CRON_SECRET. The admin endpoint is limited to user accounts whose email is
+ * listed in the ADMIN_EMAILS environment variable (comma-separated).
+ */
+
+import type { NextRequest } from 'next/server';
+
+/**
+ * Verify the cron secret on a scheduler request
+ */
+export function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+
+  // If no secret is configured, allow in development only
+  if (!cronSecret) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('[Cron] No CRON_SECRET configured - allowing request in development');
+      return true;
+    }
+    return false;
+  }
+
+  // Check Authorization header (Vercel Cron sends "Bearer <CRON_SECRET>")
+  const authHeader = request.headers.get('authorization');
+  if (authHeader === `Bearer ${cronSecret}`) {
+    return true;
+  }
+
+  // Check Vercel cron header (for Vercel Cron Jobs)
+  const vercelCronHeader = request.headers.get('x-vercel-cron');
+  if (vercelCronHeader === cronSecret) {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Get the configured admin email addresses (normalized to lowercase)
+ */
+export function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Check whether an email address belongs to an app admin
+ */
+export function isAdminEmail(email?: string | null): boolean {
+  if (!email) return false;
+  return getAdminEmails().includes(email.toLowerCase());
+}
@@ -0,0 +1,53 @@
+/**
+ * Scheduled Jobs Module
+ *
+ * Components:
+ * - registry.ts: The jobs (reminders, digests, late payments, round advance, invitation expiry)
+ * - runner.ts: Runs jobs with Mongo locks, per-period idempotency, and run history
+ * - auth.ts: CRON_SECRET and ADMIN_EMAILS checks for the job endpoints
+ *
+ * Entry points:
+ * - /api/cron/reminders: reminders + digests (Vercel Cron)
+ * - /api/cron/jobs: every job, or ?job=<name> (Vercel Cron or any scheduler)
+ * - /api/admin/jobs: inspect runs and trigger jobs manually
+ * - scripts/run-jobs.ts: run jobs locally
+ */
+
+export {
+  listJobs,
+  getJob,
+  isJobName,
+} from './registry';
+
+export {
+  getIdempotencyKey,
+  acquireJobLock,
+  releaseJobLock,
+  serializeJobRun,
+  runJob,
+  runJobs,
+  getJobRuns,
+  getJobStatuses,
+} from './runner';
+
+export {
+  verifyCronSecret,
+  getAdminEmails,
+  isAdminEmail,
+} from './auth';
+
+export type {
+  JobName,
+  JobPeriod,
+  JobContext,
+  JobResult,
+  JobDefinition,
+  RunJobOptions,
+  JobRunSummary,
+  JobStatus,
+} from './types';
+
+export {
+  JobRunStatus,
+  JobTrigger,
+} from '../db/models/job';
@@ -0,0 +1,165 @@
+/**
+ * Job registry
+ *
+ * Every scheduled job the app runs. Jobs are executed through runJob()
+ * (lib/jobs/runner.ts), which adds locking, idempotency, and run history.
+ */
+
+import getPoolModel from '../db/models/pool';
+import { getPoolInvitationModel } from '../db/models/poolInvitation';
+import { getPendingReminders } from '../reminders/scheduler';
+import { processReminders, retryFailedReminders } from '../reminders/sender';
+import { processDigests } from '../reminders/digest';
+import { advancePoolRound } from '../payments/rounds';
+import { processLatePayments } from '../payments/late-policy';
+import { getEmailService } from '../email/index';
+import { JobDefinition, JobName } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Members get a day to see "payout sent" before the pool moves on
+const ROUND_AUTO_ADVANCE_DELAY_HOURS = 24;
+
+// Errors kept on a run record
+const MAX_RESULT_ERRORS = 10;
+
+const remindersJob: JobDefinition = {
+  name: 'reminders',
+  description: 'Send payment due, payout coming, and overdue reminders, then retry recent failures',
+  period: 'hour',
+  lockTtlMs: 15 * MINUTE_MS,
+  async run() {
+    const pendingReminders = await getPendingReminders();
+    const sendResults = await processReminders(pendingReminders);
+    const retryResults = await retryFailedReminders(3);
+
+    return {
+      pending: pendingReminders.length,
+      sent: sendResults.sent,
+      failed: sendResults.failed,
+      retried: retryResults.retried,
+      retrySucceeded: retryResults.succeeded,
+      retryFailed: retryResults.failed,
+      errors: sendResults.errors.slice(0, MAX_RESULT_ERRORS),
+    };
+  },
+};
+
+const digestsJob: JobDefinition = {
+  name: 'digests',
+  description: 'Send daily and weekly notification digests that are due',
+  period: 'hour',
+  lockTtlMs: 15 * MINUTE_MS,
+  async run({ now }) {
+    const results = await processDigests(now);
+    return { ...results, errors: results.errors.slice(0, MAX_RESULT_ERRORS) };
+  },
+};
+
+const roundAdvanceJob: JobDefinition = {
+  name: 'round-advance',
+  description: `Advance pools to the next round ${ROUND_AUTO_ADVANCE_DELAY_HOURS} hours after the payout is marked paid`,
+  period: 'hour',
+  lockTtlMs: 10 * MINUTE_MS,
+  async run({ now }) {
+    const Pool = getPoolModel();
+    const paidBefore = new Date(now.getTime() - ROUND_AUTO_ADVANCE_DELAY_HOURS * HOUR_MS);
+
+    const pools = await Pool.find({
+      status: 'active',
+      currentRoundPayoutStatus: 'paid',
+      currentRoundPayoutCompletedAt: { $lte: paidBefore },
+    });
+
+    let advanced = 0;
+    let completed = 0;
+    const errors: string[] = [];
+
+    for (const pool of pools) {
+      try {
+        const result = await advancePoolRound(pool);
+        if (!result) continue;
+
+        advanced++;
+        if (result.isComplete) completed++;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`Pool ${pool.id}: ${errorMessage}`);
+      }
+    }
+
+    return {
+      eligible: pools.length,
+      advanced,
+      completed,
+      errors: errors.slice(0, MAX_RESULT_ERRORS),
+    };
+  },
+};
+
+const latePaymentsJob: JobDefinition = {
+  name: 'late-payments',
+  description: "Mark unpaid contributions late or missed under each pool's late policy",
+  period: 'hour',
+  lockTtlMs: 10 * MINUTE_MS,
+  async run({ now }) {
+    const results = await processLatePayments(now);
+    return { ...results, errors: results.errors.slice(0, MAX_RESULT_ERRORS) };
+  },
+};
+
+const invitationExpiryJob: JobDefinition = {
+  name: 'invitation-expiry',
+  description: 'Expire pending pool invitations past their expiry date',
+  period: 'day',
+  lockTtlMs: 5 * MINUTE_MS,
+  async run() {
+    const expired = await getPoolInvitationModel().cleanupExpired();
+    return { expired };
+  },
+};
+
+const emailQueueJob: JobDefinition = {
+  name: 'email-queue',
+  description: 'Retry queued emails that failed or were held back by rate limits',
+  period: 'hour',
+  lockTtlMs: 15 * MINUTE_MS,
+  async run({ now }) {
+    const results = await getEmailService().processQueue({ now });
+    return { ...results, errors: results.errors.slice(0, MAX_RESULT_ERRORS) };
+  },
+};
+
+// Run order matters for the "run everything" cron: reminders see payments
+// before they're marked late, digests pick up reminders queued this run, and
+// the email queue goes last to retry anything the other jobs couldn't send
+const JOBS: JobDefinition[] = [
+  remindersJob,
+  digestsJob,
+  latePaymentsJob,
+  roundAdvanceJob,
+  invitationExpiryJob,
+  emailQueueJob,
+];
+
+/**
+ * Get all registered jobs in run order
+ */
+export function listJobs(): JobDefinition[] {
+  return JOBS;
+}
+
+/**
+ * Look up a job by name
+ */
+export function getJob(name: string): JobDefinition | undefined {
+  return JOBS.find(job => job.name === name);
+}
+
+/**
+ * Check whether a string is a registered job name
+ */
+export function isJobName(name: unknown): name is JobName {
+  return typeof name === 'string' && JOBS.some(job => job.name === name);
+}
@@ -0,0 +1,221 @@
+/**
+ * Job runner
+ *
+ * Runs registered jobs with:
+ * 1. A per-job lock in Mongo (JobLock) so overlapping runs are skipped
+ * 2. An idempotency key per period so a job succeeds at most once per period
+ * 3. A JobRun record for every attempt, including skipped ones
+ *
+ * Works the same from the cron endpoints, the admin endpoint, and
+ * scripts/run-jobs.ts, so jobs can be run locally without Vercel.
+ */
+
+import mongoose from 'mongoose';
+import connectToDatabase from '../db/connect';
+import {
+  getJobLockModel,
+  getJobRunModel,
+  JobRunDocument,
+  JobRunStatus,
+} from '../db/models/job';
+import { getJob, listJobs } from './registry';
+import {
+  JobDefinition,
+  JobName,
+  JobRunSummary,
+  JobStatus,
+  RunJobOptions,
+} from './types';
+
+/**
+ * Build the idempotency key for a job and time, e.g. "reminders:2024-03-01T08"
+ * Periods are in UTC
+ */
+export function getIdempotencyKey(job: Pick<JobDefinition, 'name' | 'period'>, at: Date): string {
+  const iso = at.toISOString();
+  const period = job.period === 'day' ? iso.slice(0, 10) : iso.slice(0, 13);
+  return `${job.name}:${period}`;
+}
+
+/**
+ * Take the job's lock for a run
+ * Returns false when another run holds an unexpired lock
+ */
+export async function acquireJobLock(
+  job: Pick<JobDefinition, 'name' | 'lockTtlMs'>,
+  runId: mongoose.Types.ObjectId
+): Promise<boolean> {
+  const JobLock = getJobLockModel();
+  const now = new Date();
+
+  try {
+    const lock = await JobLock.findOneAndUpdate(
+      { _id: job.name, lockedUntil: { $lte: now } },
+      { $set: { runId, lockedAt: now, lockedUntil: new Date(now.getTime() + job.lockTtlMs) } },
+      { upsert: true, new: true }
+    );
+    return !!lock;
+  } catch (error: unknown) {
+    // The upsert collides with the existing lock document while it's held
+    if ((error as { code?: number }).code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Release the job's lock if this run still holds it
+ */
+export async function releaseJobLock(name: string, runId: mongoose.Types.ObjectId): Promise<void> {
+  await getJobLockModel().updateOne(
+    { _id: name, runId },
+    { $set: { lockedUntil: new Date(0) }, $unset: { runId: 1 } }
+  );
+}
+
+/**
+ * Convert a JobRun document into the API shape
+ */
+export function serializeJobRun(run: JobRunDocument): JobRunSummary {
+  return {
+    id: run._id!.toString(),
+    job: run.job,
+    status: run.status,
+    trigger: run.trigger,
+    triggeredBy: run.triggeredBy?.toString(),
+    idempotencyKey: run.idempotencyKey,
+    forced: run.forced,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    durationMs: run.durationMs,
+    result: run.result,
+    error: run.error,
+    skipReason: run.skipReason,
+  };
+}
+
+/**
+ * Run a single job
+ */
+export async function runJob(name: JobName, options: RunJobOptions): Promise<JobRunSummary> {
+  const job = getJob(name);
+  if (!job) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+
+  await connectToDatabase();
+  const JobRun = getJobRunModel();
+
+  const startedAt = new Date();
+  const idempotencyKey = getIdempotencyKey(job, startedAt);
+
+  const run = await JobRun.create({
+    job: job.name,
+    status: JobRunStatus.RUNNING,
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy,
+    idempotencyKey,
+    forced: !!options.force,
+    startedAt,
+  });
+  const runId = run._id as mongoose.Types.ObjectId;
+
+  const finish = async (update: Partial<JobRunDocument>): Promise<JobRunSummary> => {
+    const finishedAt = new Date();
+    Object.assign(run, update, { finishedAt, durationMs: finishedAt.getTime() - startedAt.getTime() });
+    await run.save();
+    return serializeJobRun(run);
+  };
+
+  if (!(await acquireJobLock(job, runId))) {
+    console.log(`[Jobs] Skipping ${job.name}: another run is in progress`);
+    return finish({ status: JobRunStatus.SKIPPED, skipReason: 'Another run is in progress' });
+  }
+
+  try {
+    // Checked under the lock so two callers can't both pass it
+    if (!options.force) {
+      const completed = await JobRun.exists({ idempotencyKey, status: JobRunStatus.SUCCEEDED });
+      if (completed) {
+        console.log(`[Jobs] Skipping ${job.name}: already completed for ${idempotencyKey}`);
+        return await finish({ status: JobRunStatus.SKIPPED, skipReason: 'Already completed for this period' });
+      }
+    }
+
+    console.log(`[Jobs] Running ${job.name} (${options.trigger})`);
+    const result = await job.run({ now: startedAt, runId: runId.toString() });
+
+    const summary = await finish({ status: JobRunStatus.SUCCEEDED, result });
+    console.log(`[Jobs] ${job.name} succeeded in ${summary.durationMs}ms`, result);
+    return summary;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Jobs] ${job.name} failed:`, errorMessage);
+    return finish({ status: JobRunStatus.FAILED, error: errorMessage });
+  } finally {
+    await releaseJobLock(job.name, runId);
+  }
+}
+
+/**
+ * Run several jobs one after another (all jobs by default)
+ * A failing job doesn't stop the ones after it
+ */
+export async function runJobs(
+  names: JobName[] = listJobs().map(job => job.name),
+  options: RunJobOptions
+): Promise<JobRunSummary[]> {
+  const summaries: JobRunSummary[] = [];
+  for (const name of names) {
+    summaries.push(await runJob(name, options));
+  }
+  return summaries;
+}
+
+/**
+ * Get the run history of a job (or all jobs), newest first
+ */
+export async function getJobRuns(
+  options: { job?: JobName; limit?: number } = {}
+): Promise<JobRunSummary[]> {
+  await connectToDatabase();
+
+  const runs = await getJobRunModel()
+    .find(options.job ? { job: options.job } : {})
+    .sort({ startedAt: -1 })
+    .limit(Math.min(options.limit || 20, 100));
+
+  return runs.map(serializeJobRun);
+}
+
+/**
+ * Get every job with its lock state and latest runs
+ */
+export async function getJobStatuses(): Promise<JobStatus[]> {
+  await connectToDatabase();
+  const JobRun = getJobRunModel();
+  const JobLock = getJobLockModel();
+  const now = new Date();
+
+  const locks = await JobLock.find({});
+
+  return Promise.all(listJobs().map(async (job) => {
+    const [lastRun, lastSuccess] = await Promise.all([
+      JobRun.findOne({ job: job.name }).sort({ startedAt: -1 }),
+      JobRun.findOne({ job: job.name, status: JobRunStatus.SUCCEEDED }).sort({ startedAt: -1 }),
+    ]);
+    const lock = locks.find(l => l._id === job.name);
+    const locked = !!lock && lock.lockedUntil > now;
+
+    return {
+      name: job.name,
+      description: job.description,
+      period: job.period,
+      locked,
+      lockedUntil: locked ? lock!.lockedUntil : undefined,
+      lastRun: lastRun ? serializeJobRun(lastRun) : undefined,
+      lastSuccess: lastSuccess ? serializeJobRun(lastSuccess) : undefined,
+    };
+  }));
+}
@@ -0,0 +1,67 @@
+/**
+ * Scheduled job types
+ */
+
+import type mongoose from 'mongoose';
+import type { JobRunStatus, JobTrigger } from '../db/models/job';
+
+export type JobName =
+  | 'reminders'
+  | 'digests'
+  | 'round-advance'
+  | 'late-payments'
+  | 'invitation-expiry'
+  | 'email-queue';
+
+// Idempotency window: a job runs successfully at most once per period unless forced
+export type JobPeriod = 'hour' | 'day';
+
+export interface JobContext {
+  now: Date;
+  runId: string;
+}
+
+// Job-specific summary stored on the run (counts, first few errors, etc.)
+export type JobResult = Record<string, unknown>;
+
+export interface JobDefinition {
+  name: JobName;
+  description: string;
+  period: JobPeriod;
+  // How long a run may hold the lock before it's considered abandoned
+  lockTtlMs: number;
+  run(context: JobContext): Promise<JobResult>;
+}
+
+export interface RunJobOptions {
+  trigger: JobTrigger;
+  triggeredBy?: mongoose.Types.ObjectId;
+  // Run even if the job already succeeded this period (the lock still applies)
+  force?: boolean;
+}
+
+export interface JobRunSummary {
+  id: string;
+  job: string;
+  status: JobRunStatus;
+  trigger: JobTrigger;
+  triggeredBy?: string;
+  idempotencyKey: string;
+  forced: boolean;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: JobResult;
+  error?: string;
+  skipReason?: string;
+}
+
+export interface JobStatus {
+  name: JobName;
+  description: string;
+  period: JobPeriod;
+  locked: boolean;
+  lockedUntil?: Date;
+  lastRun?: JobRunSummary;
+  lastSuccess?: JobRunSummary;
+}
@@ -0,0 +1,487 @@
+/**
+ * Recording ledger entries
+ *
+ * Each record* function builds the balanced lines for one kind of money
+ * movement and posts it under a sourceKey that identifies the event, so the
+ * same contribution recorded by the round-payments API, the contributions
+ * API, and a repair run produces a single entry.
+ */
+
+import crypto from 'crypto';
+import getPoolModel from '../db/models/pool';
+import {
+  getLedgerEntryModel,
+  ILedgerEntry,
+  ILedgerLine,
+  LedgerAccount,
+  LedgerEntryType,
+  LedgerSource,
+} from '../db/models/ledgerEntry';
+import { refreshPoolRollupsSafely } from '../analytics/rollups';
+import {
+  LedgerBalances,
+  LedgerEntryInput,
+  LedgerPool,
+  MemberLedgerBalance,
+  RecordEntryOptions,
+} from './types';
+
+const MAX_ENTRIES = 500;
+
+/**
+ * Round to whole cents
+ */
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Check that an entry's debits equal its credits
+ */
+export function isBalanced(lines: Pick<ILedgerLine, 'debit' | 'credit'>[]): boolean {
+  const toCents = (value: number) => Math.round((value || 0) * 100);
+  const debits = lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+  const credits = lines.reduce((sum, line) => sum + toCents(line.credit), 0);
+  return debits === credits;
+}
+
+/**
+ * Source keys: one per real-world event within a pool
+ */
+export const ledgerKeys = {
+  // A contribution recorded again after a reversal gets the next attempt number
+  contribution: (cycle: number, round: number, memberId: number, attempt: number = 1) =>
+    attempt > 1 ? `contribution:${cycle}:${round}:${memberId}:${attempt}` : `contribution:${cycle}:${round}:${memberId}`,
+  reversal: (sourceKey: string) => `${sourceKey}:reversal`,
+  payout: (cycle: number, round: number) => `payout:${cycle}:${round}`,
+  lateFee: (cycle: number, round: number, memberId: number) => `late_fee:${cycle}:${round}:${memberId}`,
+  refund: (ref: string) => `refund:${ref}`,
+  adjustment: (ref: string) => `adjustment:${ref}`,
+  memberPayment: (ref: string) => `member_payment:${ref}`,
+};
+
+/**
+ * Balanced lines for each entry type
+ */
+export function buildLedgerLines(type: LedgerEntryType, memberId: number, amount: number): ILedgerLine[] {
+  const member = (debit: number, credit: number): ILedgerLine => ({ account: LedgerAccount.MEMBER, memberId, debit, credit });
+  const account = (name: LedgerAccount, debit: number, credit: number): ILedgerLine => ({ account: name, debit, credit });
+
+  switch (type) {
+    case LedgerEntryType.CONTRIBUTION:
+      return [account(LedgerAccount.POOL_CASH, amount, 0), member(0, amount)];
+    case LedgerEntryType.PAYOUT:
+    case LedgerEntryType.REFUND:
+    case LedgerEntryType.REVERSAL:
+      return [member(amount, 0), account(LedgerAccount.POOL_CASH, 0, amount)];
+    case LedgerEntryType.LATE_FEE:
+      return [member(amount, 0), account(LedgerAccount.FEES, 0, amount)];
+    case LedgerEntryType.ADJUSTMENT:
+      // Credit the member; debit adjustments are built by recordAdjustment
+      return [account(LedgerAccount.ADJUSTMENTS, amount, 0), member(0, amount)];
+  }
+}
+
+function generateEntryId(): string {
+  return `led_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Post an entry, or return the existing one when its sourceKey was already recorded
+ *
+ * New entries refresh the pool's analytics rollups; a repair run refreshes
+ * them once at the end instead.
+ */
+export async function postLedgerEntry(input: LedgerEntryInput): Promise<{ entry: ILedgerEntry; created: boolean }> {
+  const LedgerEntry = getLedgerEntryModel();
+
+  try {
+    const entry = await LedgerEntry.create({ ...input, amount: roundCents(input.amount), entryId: generateEntryId() });
+    if (input.source !== LedgerSource.REPAIR) {
+      await refreshPoolRollupsSafely(input.poolId);
+    }
+    return { entry, created: true };
+  } catch (error: unknown) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+
+    const existing = await LedgerEntry.findOne({ poolId: input.poolId, sourceKey: input.sourceKey });
+    if (!existing) throw error;
+    return { entry: existing, created: false };
+  }
+}
+
+/**
+ * Move a member's totalContributed counter by the given amount
+ */
+async function incrementContributed(pool: LedgerPool, memberId: number, amount: number): Promise<void> {
+  await getPoolModel().updateOne(
+    { id: pool.id },
+    { $inc: { 'members.$[member].totalContributed': roundCents(amount) } },
+    { arrayFilters: [{ 'member.id': memberId }] }
+  );
+}
+
+function memberName(pool: LedgerPool, memberId: number): string {
+  return pool.members.find(m => m.id === memberId)?.name || `Member ${memberId}`;
+}
+
+/**
+ * Find the member's contribution for a round that hasn't been reversed
+ *
+ * Each reversal moves the round on to its next attempt, so a payment that is
+ * undone and then made again is posted as a new entry instead of matching the
+ * reversed one.
+ */
+async function findLiveContribution(
+  poolId: string,
+  cycle: number,
+  round: number,
+  memberId: number
+): Promise<{ sourceKey: string; entry: ILedgerEntry | null }> {
+  const LedgerEntry = getLedgerEntryModel();
+  const reversals = await LedgerEntry.countDocuments({
+    poolId,
+    type: LedgerEntryType.REVERSAL,
+    cycle,
+    round,
+    memberId,
+  });
+  const sourceKey = ledgerKeys.contribution(cycle, round, memberId, reversals + 1);
+
+  return { sourceKey, entry: await LedgerEntry.findOne({ poolId, sourceKey }) };
+}
+
+/**
+ * Record a member's contribution for a round
+ */
+export async function recordContribution(
+  pool: LedgerPool,
+  memberId: number,
+  amount: number,
+  options: RecordEntryOptions
+): Promise<{ entry: ILedgerEntry; created: boolean }> {
+  const cycle = options.cycle ?? (pool.currentCycle || 0);
+  const round = options.round ?? (pool.currentRound || 1);
+  const { sourceKey } = await findLiveContribution(pool.id, cycle, round, memberId);
+
+  const result = await postLedgerEntry({
+    poolId: pool.id,
+    type: LedgerEntryType.CONTRIBUTION,
+    cycle,
+    round,
+    memberId,
+    amount,
+    description: `${memberName(pool, memberId)} contributed for round ${round}`,
+    lines: buildLedgerLines(LedgerEntryType.CONTRIBUTION, memberId, roundCents(amount)),
+    sourceKey,
+    source: options.source,
+    sourceRef: options.sourceRef,
+    createdBy: options.createdBy,
+    occurredAt: options.occurredAt || new Date(),
+  });
+
+  if (result.created && options.updateCounters !== false) {
+    await incrementContributed(pool, memberId, amount);
+  }
+
+  return result;
+}
+
+/**
+ * Cancel a member's contribution for a round after it was undone or disputed
+ *
+ * @returns null if the round has no unreversed contribution from the member
+ */
+export async function reverseContribution(
+  pool: LedgerPool,
+  memberId: number,
+  description: string,
+  options: RecordEntryOptions
+): Promise<{ entry: ILedgerEntry; created: boolean } | null> {
+  const cycle = options.cycle ?? (pool.currentCycle || 0);
+  const round = options.round ?? (pool.currentRound || 1);
+  const { entry: contribution } = await findLiveContribution(pool.id, cycle, round, memberId);
+  if (!contribution) return null;
+
+  const result = await postLedgerEntry({
+    poolId: pool.id,
+    type: LedgerEntryType.REVERSAL,
+    cycle,
+    round,
+    memberId,
+    amount: contribution.amount,
+    description,
+    lines: buildLedgerLines(LedgerEntryType.REVERSAL, memberId, contribution.amount),
+    sourceKey: ledgerKeys.reversal(contribution.sourceKey),
+    source: options.source,
+    sourceRef: options.sourceRef || contribution.entryId,
+    createdBy: options.createdBy,
+    occurredAt: options.occurredAt || new Date(),
+  });
+
+  if (result.created && options.updateCounters !== false) {
+    await incrementContributed(pool, memberId, -contribution.amount);
+  }
+
+  return result;
+}
+
+/**
+ * Record a round's payout to its recipient
+ */
+export async function recordPayout(
+  pool: LedgerPool,
+  memberId: number,
+  amount: number,
+  options: RecordEntryOptions
+): Promise<{ entry: ILedgerEntry; created: boolean }> {
+  const cycle = options.cycle ?? (pool.currentCycle || 0);
+  const round = options.round ?? (pool.currentRound || 1);
+
+  return postLedgerEntry({
+    poolId: pool.id,
+    type: LedgerEntryType.PAYOUT,
+    cycle,
+    round,
+    memberId,
+    amount,
+    description: `Round ${round} payout to ${memberName(pool, memberId)}`,
+    lines: buildLedgerLines(LedgerEntryType.PAYOUT, memberId, roundCents(amount)),
+    sourceKey: ledgerKeys.payout(cycle, round),
+    source: options.source,
+    sourceRef: options.sourceRef,
+    createdBy: options.createdBy,
+    occurredAt: options.occurredAt || new Date(),
+  });
+}
+
+/**
+ * Record a late fee charged to a member
+ */
+export async function recordLateFee(
+  pool: LedgerPool,
+  memberId: number,
+  amount: number,
+  options: RecordEntryOptions
+): Promise<{ entry: ILedgerEntry; created: boolean }> {
+  const cycle = options.cycle ?? (pool.currentCycle || 0);
+  const round = options.round ?? (pool.currentRound || 1);
+
+  return postLedgerEntry({
+    poolId: pool.id,
+    type: LedgerEntryType.LATE_FEE,
+    cycle,
+    round,
+    memberId,
+    amount,
+    description: `Late fee for ${memberName(pool, memberId)}, round ${round}`,
+    lines: buildLedgerLines(LedgerEntryType.LATE_FEE, memberId, roundCents(amount)),
+    sourceKey: ledgerKeys.lateFee(cycle, round, memberId),
+    source: options.source,
+    sourceRef: options.sourceRef,
+    createdBy: options.createdBy,
+    occurredAt: options.occurredAt || new Date(),
+  });
+}
+
+/**
+ * Record money returned to a member (reduces what they've contributed)
+ */
+export async function recordRefund(
+  pool: LedgerPool,
+  memberId: number,
+  amount: number,
+  description: string,
+  options: RecordEntryOptions
+): Promise<{ entry: ILedgerEntry; created: boolean }> {
+  const ref = options.sourceRef || generateEntryId();
+
+  const result = await postLedgerEntry({
+    poolId: pool.id,
+    type: LedgerEntryType.REFUND,
+    cycle: pool.currentCycle || 0,
+    round: options.round,
+    memberId,
+    amount,
+    description,
+    lines: buildLedgerLines(LedgerEntryType.REFUND, memberId, roundCents(amount)),
+    sourceKey: ledgerKeys.refund(ref),
+    source: options.source,
+    sourceRef: ref,
+    createdBy: options.createdBy,
+    occurredAt: options.occurredAt || new Date(),
+  });
+
+  if (result.created && options.updateCounters !== false) {
+    await incrementContributed(pool, memberId, -amount);
+  }
+
+  return result;
+}
+
+/**
+ * Record money a member paid the pool outside a round's contribution, such as
+ * a debt repaid after leaving or a replacement member's catch-up payment
+ */
+export async function recordMemberPayment(
+  pool: LedgerPool,
+  memberId: number,
+  amount: number,
+  description: string,
+  options: RecordEntryOptions
+): Promise<{ entry: ILedgerEntry; created: boolean }> {
+  const ref = options.sourceRef || generateEntryId();
+
+  const result = await postLedgerEntry({
+    poolId: pool.id,
+    type: LedgerEntryType.CONTRIBUTION,
+    cycle: options.cycle ?? (pool.currentCycle || 0),
+    round: options.round,
+    memberId,
+    amount,
+    description,
+    lines: buildLedgerLines(LedgerEntryType.CONTRIBUTION, memberId, roundCents(amount)),
+    sourceKey: ledgerKeys.memberPayment(ref),
+    source: options.source,
+    sourceRef: ref,
+    createdBy: options.createdBy,
+    occurredAt: options.occurredAt || new Date(),
+  });
+
+  if (result.created && options.updateCounters !== false) {
+    await incrementContributed(pool, memberId, amount);
+  }
+
+  return result;
+}
+
+/**
+ * Record a manual correction to a member's account
+ *
+ * A positive amount credits the member, a negative one debits them.
+ */
+export async function recordAdjustment(
+  pool: LedgerPool,
+  memberId: number,
+  amount: number,
+  description: string,
+  options: RecordEntryOptions
+): Promise<{ entry: ILedgerEntry; created: boolean }> {
+  const ref = options.sourceRef || generateEntryId();
+  const value = roundCents(Math.abs(amount));
+  const lines = amount >= 0
+    ? buildLedgerLines(LedgerEntryType.ADJUSTMENT, memberId, value)
+    : [
+      { account: LedgerAccount.MEMBER, memberId, debit: value, credit: 0 },
+      { account: LedgerAccount.ADJUSTMENTS, debit: 0, credit: value },
+    ];
+
+  return postLedgerEntry({
+    poolId: pool.id,
+    type: LedgerEntryType.ADJUSTMENT,
+    cycle: pool.currentCycle || 0,
+    round: options.round,
+    memberId,
+    amount: value,
+    description,
+    lines,
+    sourceKey: ledgerKeys.adjustment(ref),
+    source: options.source,
+    sourceRef: ref,
+    createdBy: options.createdBy,
+    occurredAt: options.occurredAt || new Date(),
+  });
+}
+
+/**
+ * Get a pool's entries, newest first
+ */
+export async function getLedgerEntries(
+  poolId: string,
+  options: { memberId?: number; limit?: number } = {}
+): Promise<ILedgerEntry[]> {
+  const query: Record<string, unknown> = { poolId };
+  if (options.memberId !== undefined) {
+    query.memberId = options.memberId;
+  }
+
+  return getLedgerEntryModel()
+    .find(query)
+    .sort({ occurredAt: -1 })
+    .limit(Math.min(options.limit || MAX_ENTRIES, MAX_ENTRIES));
+}
+
+/**
+ * Sum entries into account and per-member balances
+ */
+export function computeLedgerBalances(
+  entries: Pick<ILedgerEntry, 'type' | 'lines'>[]
+): LedgerBalances {
+  let poolCash = 0;
+  let fees = 0;
+  let adjustments = 0;
+  const members = new Map<number, MemberLedgerBalance>();
+
+  const getMember = (memberId: number) => {
+    let balance = members.get(memberId);
+    if (!balance) {
+      balance = { memberId, contributed: 0, received: 0, fees: 0, adjustments: 0, balance: 0 };
+      members.set(memberId, balance);
+    }
+    return balance;
+  };
+
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      const net = (line.credit || 0) - (line.debit || 0);
+
+      switch (line.account) {
+        case LedgerAccount.POOL_CASH:
+          poolCash -= net; // Debit-normal
+          break;
+        case LedgerAccount.FEES:
+          fees += net;
+          break;
+        case LedgerAccount.ADJUSTMENTS:
+          adjustments -= net; // Debit-normal: positive when members were credited
+          break;
+        case LedgerAccount.MEMBER: {
+          if (line.memberId === undefined) break;
+          const member = getMember(line.memberId);
+          member.balance += net;
+
+          if (
+            entry.type === LedgerEntryType.CONTRIBUTION ||
+            entry.type === LedgerEntryType.REFUND ||
+            entry.type === LedgerEntryType.REVERSAL
+          ) {
+            member.contributed += net;
+          } else if (entry.type === LedgerEntryType.PAYOUT) {
+            member.received -= net;
+          } else if (entry.type === LedgerEntryType.LATE_FEE) {
+            member.fees -= net;
+          } else {
+            member.adjustments += net;
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return {
+    poolCash: roundCents(poolCash),
+    fees: roundCents(fees),
+    adjustments: roundCents(adjustments),
+    members: Array.from(members.values())
+      .map(member => ({
+        memberId: member.memberId,
+        contributed: roundCents(member.contributed),
+        received: roundCents(member.received),
+        fees: roundCents(member.fees),
+        adjustments: roundCents(member.adjustments),
+        balance: roundCents(member.balance),
+      }))
+      .sort((a, b) => a.memberId - b.memberId),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Pool Ledger Module
+ *
+ * Components:
+ * - entries.ts: Records contributions (and their reversals), payouts, late fees, refunds, member payments, and adjustments as balanced entries
+ * - reconcile.ts: Compares the ledger to pool transactions, round payments, Payment documents, and member counters
+ *
+ * Entry points:
+ * - /api/pools/[id]/ledger: entries and balances; admins record refunds and adjustments
+ * - /api/pools/[id]/ledger/reconcile: reconciliation report and repair (admin)
+ */
+
+export {
+  roundCents,
+  isBalanced,
+  ledgerKeys,
+  buildLedgerLines,
+  postLedgerEntry,
+  recordContribution,
+  reverseContribution,
+  recordPayout,
+  recordLateFee,
+  recordRefund,
+  recordMemberPayment,
+  recordAdjustment,
+  getLedgerEntries,
+  computeLedgerBalances,
+} from './entries';
+
+export {
+  collectExpectedEntries,
+  buildReconciliationReport,
+  reconcilePool,
+  repairPoolLedger,
+} from './reconcile';
+
+export { DiscrepancyType } from './types';
+
+export type {
+  LedgerPool,
+  RecordEntryOptions,
+  LedgerEntryInput,
+  MemberLedgerBalance,
+  LedgerBalances,
+  ReconciliationSource,
+  Discrepancy,
+  ExpectedEntry,
+  ReconciliationReport,
+  LedgerRepairResult,
+} from './types';
+
+export {
+  LedgerEntryType,
+  LedgerAccount,
+  LedgerSource,
+} from '../db/models/ledgerEntry';
@@ -0,0 +1,410 @@
+/**
+ * Ledger reconciliation
+ *
+ * Money is also tracked outside the ledger: pool.transactions,
+ * currentRoundPayments, the Payment collection, and member.totalContributed.
+ * The report compares each of them to the ledger and flags drift:
+ * - money movements with no ledger entry (repairable: the entry is backfilled)
+ * - amounts that differ between a source and its ledger entry (needs an adjustment)
+ * - member counters that don't match the ledger (repairable: reset from the ledger)
+ * - unbalanced entries and negative pool cash (needs investigation)
+ *
+ * Repairs are audit-logged with the before/after discrepancy counts.
+ */
+
+import getPoolModel from '../db/models/pool';
+import { getPaymentModel } from '../db/models/payment';
+import { getLedgerEntryModel, ILedgerEntry, LedgerEntryType, LedgerSource } from '../db/models/ledgerEntry';
+import { getAuditLogModel } from '../db/models/auditLog';
+import { AuditLogType } from '../../types/audit';
+import { TransactionStatus, TransactionType } from '../../types/payment';
+import {
+  computeLedgerBalances,
+  isBalanced,
+  ledgerKeys,
+  recordContribution,
+  recordLateFee,
+  recordPayout,
+  roundCents,
+} from './entries';
+import { refreshPoolRollupsSafely } from '../analytics/rollups';
+import {
+  Discrepancy,
+  DiscrepancyType,
+  ExpectedEntry,
+  LedgerPool,
+  LedgerRepairResult,
+  ReconciliationReport,
+} from './types';
+
+// Payment collection fields the report reads
+interface ReconcilePayment {
+  paymentId: string;
+  userId: { toString(): string };
+  amount: number;
+  type: string;
+  status: string;
+  round?: number;
+  cycle?: number;
+  processedAt?: Date;
+  createdAt?: Date;
+}
+
+const SOURCE_LABELS: Record<ExpectedEntry['source'], string> = {
+  round_payment: 'Round payment',
+  pool_transaction: 'Pool transaction',
+  payment: 'Payment record',
+};
+
+/**
+ * Collect the money movements the ledger should contain
+ *
+ * Sources are read in order of trust (round payments, pool transactions, then
+ * Payment documents). When several describe the same event the first one wins,
+ * and later ones only produce an amount mismatch if they disagree. Transactions
+ * and payments from earlier cycles carry their cycle; the rest belong to the
+ * current one.
+ */
+export function collectExpectedEntries(
+  pool: LedgerPool,
+  payments: ReconcilePayment[] = []
+): { expected: ExpectedEntry[]; conflicts: Discrepancy[] } {
+  const cycle = pool.currentCycle || 0;
+  const currentRound = pool.currentRound || 1;
+  const expected = new Map<string, ExpectedEntry>();
+  const conflicts: Discrepancy[] = [];
+
+  const add = (entry: ExpectedEntry) => {
+    const existing = expected.get(entry.sourceKey);
+    if (!existing) {
+      expected.set(entry.sourceKey, entry);
+      return;
+    }
+    if (roundCents(existing.amount) !== roundCents(entry.amount)) {
+      conflicts.push({
+        type: DiscrepancyType.AMOUNT_MISMATCH,
+        message: `${SOURCE_LABELS[entry.source]} shows ${entry.amount} for ${entry.type} in round ${entry.round}, but ${SOURCE_LABELS[existing.source].toLowerCase()} shows ${existing.amount}`,
+        source: entry.source,
+        repairable: false,
+        memberId: entry.memberId,
+        round: entry.round,
+        sourceKey: entry.sourceKey,
+        expected: existing.amount,
+        actual: entry.amount,
+      });
+    }
+  };
+
+  for (const payment of pool.currentRoundPayments || []) {
+    if (payment.status === 'admin_verified') {
+      add({
+        type: LedgerEntryType.CONTRIBUTION,
+        sourceKey: ledgerKeys.contribution(cycle, currentRound, payment.memberId),
+        source: 'round_payment',
+        memberId: payment.memberId,
+        cycle,
+        round: currentRound,
+        amount: payment.amount,
+        occurredAt: payment.adminVerifiedAt ? new Date(payment.adminVerifiedAt) : new Date(),
+      });
+    }
+    if (payment.lateFee) {
+      add({
+        type: LedgerEntryType.LATE_FEE,
+        sourceKey: ledgerKeys.lateFee(cycle, currentRound, payment.memberId),
+        source: 'round_payment',
+        memberId: payment.memberId,
+        cycle,
+        round: currentRound,
+        amount: payment.lateFee,
+        occurredAt: new Date(payment.lateAt || payment.missedAt || Date.now()),
+      });
+    }
+  }
+
+  // Pool transactions name the member rather than referencing them
+  for (const transaction of pool.transactions || []) {
+    if (transaction.status !== TransactionStatus.COMPLETED) continue;
+    const member = pool.members.find(m => m.name === transaction.member);
+    if (!member) continue;
+
+    const round = transaction.round || currentRound;
+    const transactionCycle = transaction.cycle ?? cycle;
+    if (transaction.type === TransactionType.CONTRIBUTION) {
+      add({
+        type: LedgerEntryType.CONTRIBUTION,
+        sourceKey: ledgerKeys.contribution(transactionCycle, round, member.id),
+        source: 'pool_transaction',
+        sourceRef: String(transaction.id),
+        memberId: member.id,
+        cycle: transactionCycle,
+        round,
+        amount: transaction.amount,
+        occurredAt: new Date(transaction.date),
+      });
+    } else if (transaction.type === TransactionType.PAYOUT) {
+      add({
+        type: LedgerEntryType.PAYOUT,
+        sourceKey: ledgerKeys.payout(transactionCycle, round),
+        source: 'pool_transaction',
+        sourceRef: String(transaction.id),
+        memberId: member.id,
+        cycle: transactionCycle,
+        round,
+        amount: transaction.amount,
+        occurredAt: new Date(transaction.date),
+      });
+    }
+  }
+
+  for (const payment of payments) {
+    if (payment.status !== TransactionStatus.COMPLETED || !payment.round) continue;
+    const member = pool.members.find(m => m.userId?.toString() === payment.userId.toString());
+    if (!member) continue;
+
+    const occurredAt = new Date(payment.processedAt || payment.createdAt || Date.now());
+    const paymentCycle = payment.cycle ?? cycle;
+    if (payment.type === TransactionType.CONTRIBUTION) {
+      add({
+        type: LedgerEntryType.CONTRIBUTION,
+        sourceKey: ledgerKeys.contribution(paymentCycle, payment.round, member.id),
+        source: 'payment',
+        sourceRef: payment.paymentId,
+        memberId: member.id,
+        cycle: paymentCycle,
+        round: payment.round,
+        amount: payment.amount,
+        occurredAt,
+      });
+    } else if (payment.type === TransactionType.PAYOUT) {
+      add({
+        type: LedgerEntryType.PAYOUT,
+        sourceKey: ledgerKeys.payout(paymentCycle, payment.round),
+        source: 'payment',
+        sourceRef: payment.paymentId,
+        memberId: member.id,
+        cycle: paymentCycle,
+        round: payment.round,
+        amount: payment.amount,
+        occurredAt,
+      });
+    }
+  }
+
+  return { expected: Array.from(expected.values()), conflicts };
+}
+
+/**
+ * Compare a pool's ledger entries to everything else that tracks its money
+ */
+export function buildReconciliationReport(
+  pool: LedgerPool,
+  entries: Pick<ILedgerEntry, 'entryId' | 'type' | 'lines' | 'sourceKey' | 'amount'>[],
+  payments: ReconcilePayment[] = [],
+  now: Date = new Date()
+): ReconciliationReport {
+  const discrepancies: Discrepancy[] = [];
+  const entriesByKey = new Map(entries.map(entry => [entry.sourceKey, entry]));
+
+  for (const entry of entries) {
+    if (!isBalanced(entry.lines)) {
+      discrepancies.push({
+        type: DiscrepancyType.UNBALANCED_ENTRY,
+        message: `Ledger entry ${entry.entryId} does not balance`,
+        source: 'ledger',
+        repairable: false,
+        sourceKey: entry.sourceKey,
+      });
+    }
+  }
+
+  const { expected, conflicts } = collectExpectedEntries(pool, payments);
+
+  for (const item of expected) {
+    const entry = entriesByKey.get(item.sourceKey);
+    if (!entry) {
+      discrepancies.push({
+        type: DiscrepancyType.MISSING_LEDGER_ENTRY,
+        message: `${SOURCE_LABELS[item.source]} for ${item.type.replace('_', ' ')} in round ${item.round} (member ${item.memberId}) has no ledger entry`,
+        source: item.source,
+        repairable: true,
+        memberId: item.memberId,
+        round: item.round,
+        sourceKey: item.sourceKey,
+        expected: item.amount,
+      });
+    } else if (roundCents(entry.amount) !== roundCents(item.amount)) {
+      discrepancies.push({
+        type: DiscrepancyType.AMOUNT_MISMATCH,
+        message: `Ledger records ${entry.amount} for ${item.type.replace('_', ' ')} in round ${item.round}, but ${SOURCE_LABELS[item.source].toLowerCase()} shows ${item.amount}`,
+        source: item.source,
+        repairable: false,
+        memberId: item.memberId,
+        round: item.round,
+        sourceKey: item.sourceKey,
+        expected: item.amount,
+        actual: entry.amount,
+      });
+    }
+  }
+  discrepancies.push(...conflicts);
+
+  // Counters are compared to what the ledger will hold once missing entries are backfilled
+  const balances = computeLedgerBalances(entries);
+  const contributedByMember = new Map(balances.members.map(m => [m.memberId, m.contributed]));
+  for (const item of expected) {
+    if (item.type !== LedgerEntryType.CONTRIBUTION || entriesByKey.has(item.sourceKey)) continue;
+    contributedByMember.set(item.memberId, roundCents((contributedByMember.get(item.memberId) || 0) + item.amount));
+  }
+
+  for (const member of pool.members) {
+    const contributed = contributedByMember.get(member.id) || 0;
+    const counter = roundCents(member.totalContributed || 0);
+    if (counter !== contributed) {
+      discrepancies.push({
+        type: DiscrepancyType.MEMBER_COUNTER_DRIFT,
+        message: `${member.name}'s total contributed is ${counter}, but the ledger shows ${contributed}`,
+        source: 'member_counter',
+        repairable: true,
+        memberId: member.id,
+        expected: contributed,
+        actual: counter,
+      });
+    }
+  }
+
+  if (balances.poolCash < 0) {
+    discrepancies.push({
+      type: DiscrepancyType.NEGATIVE_CASH,
+      message: `The ledger shows more paid out than collected (pool cash ${balances.poolCash})`,
+      source: 'ledger',
+      repairable: false,
+      actual: balances.poolCash,
+    });
+  }
+
+  return {
+    poolId: pool.id,
+    generatedAt: now,
+    entryCount: entries.length,
+    balanced: discrepancies.length === 0,
+    balances,
+    discrepancies,
+  };
+}
+
+/**
+ * Load everything the report needs for a pool
+ */
+async function loadReconciliationData(poolId: string) {
+  const [entries, payments] = await Promise.all([
+    getLedgerEntryModel().find({ poolId }),
+    getPaymentModel().find({
+      poolId,
+      type: { $in: [TransactionType.CONTRIBUTION, TransactionType.PAYOUT] },
+      status: TransactionStatus.COMPLETED,
+    }),
+  ]);
+  return { entries, payments };
+}
+
+/**
+ * Build the reconciliation report for a pool
+ */
+export async function reconcilePool(pool: LedgerPool): Promise<ReconciliationReport> {
+  const { entries, payments } = await loadReconciliationData(pool.id);
+  return buildReconciliationReport(pool, entries, payments);
+}
+
+/**
+ * Fix the repairable discrepancies in a pool
+ *
+ * Backfills missing ledger entries, then resets member.totalContributed from
+ * the ledger. Amount mismatches are left for an admin adjustment.
+ */
+export async function repairPoolLedger(
+  pool: LedgerPool,
+  actor: { id: string; email?: string }
+): Promise<LedgerRepairResult> {
+  const Pool = getPoolModel();
+
+  const data = await loadReconciliationData(pool.id);
+  const before = buildReconciliationReport(pool, data.entries, data.payments);
+  const { expected } = collectExpectedEntries(pool, data.payments);
+
+  let entriesCreated = 0;
+  const missingKeys = new Set(
+    before.discrepancies
+      .filter(d => d.type === DiscrepancyType.MISSING_LEDGER_ENTRY)
+      .map(d => d.sourceKey)
+  );
+
+  for (const item of expected.filter(e => missingKeys.has(e.sourceKey))) {
+    const options = {
+      source: LedgerSource.REPAIR,
+      sourceRef: item.sourceRef,
+      cycle: item.cycle,
+      round: item.round,
+      occurredAt: item.occurredAt,
+      updateCounters: false,
+    };
+
+    const record = item.type === LedgerEntryType.CONTRIBUTION
+      ? recordContribution
+      : item.type === LedgerEntryType.PAYOUT
+        ? recordPayout
+        : recordLateFee;
+
+    const { created } = await record(pool, item.memberId, item.amount, options);
+    if (created) entriesCreated++;
+  }
+
+  // Reset member counters from the ledger
+  const entries = await getLedgerEntryModel().find({ poolId: pool.id });
+  const balances = computeLedgerBalances(entries);
+  let countersUpdated = 0;
+
+  for (const member of pool.members) {
+    const contributed = balances.members.find(m => m.memberId === member.id)?.contributed || 0;
+    if (roundCents(member.totalContributed || 0) === contributed) continue;
+
+    await Pool.updateOne(
+      { id: pool.id },
+      { $set: { 'members.$[member].totalContributed': contributed } },
+      { arrayFilters: [{ 'member.id': member.id }] }
+    );
+    countersUpdated++;
+  }
+
+  const updatedPool = (await Pool.findOne({ id: pool.id })) || pool;
+  const after = buildReconciliationReport(updatedPool, entries, data.payments);
+
+  if (entriesCreated > 0) {
+    await refreshPoolRollupsSafely(pool.id);
+  }
+
+  try {
+    await getAuditLogModel().create({
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      userId: actor.id,
+      userEmail: actor.email,
+      type: AuditLogType.POOL_LEDGER_REPAIR,
+      action: 'repair_ledger',
+      metadata: {
+        poolId: pool.id,
+        entriesCreated,
+        countersUpdated,
+        discrepanciesBefore: before.discrepancies.length,
+        discrepanciesAfter: after.discrepancies.length,
+        remaining: after.discrepancies.map(d => d.type),
+      },
+      poolId: pool.id,
+      success: true,
+    });
+  } catch (error) {
+    console.error(`Error logging ledger repair for pool ${pool.id}:`, error);
+  }
+
+  return { entriesCreated, countersUpdated, before, after };
+}
@@ -0,0 +1,135 @@
+/**
+ * Pool ledger types
+ */
+
+import type mongoose from 'mongoose';
+import type { ILedgerLine, LedgerEntryType, LedgerSource } from '../db/models/ledgerEntry';
+
+// The pool fields the ledger reads
+export interface LedgerPool {
+  _id?: unknown;
+  id: string;
+  currentCycle?: number;
+  currentRound?: number;
+  members: {
+    id: number;
+    name: string;
+    userId?: { toString(): string } | null;
+    totalContributed?: number;
+  }[];
+  transactions?: {
+    id: number;
+    type: string;
+    amount: number;
+    date: string;
+    member: string;
+    status: string;
+    round?: number;
+    cycle?: number;
+  }[];
+  currentRoundPayments?: {
+    memberId: number;
+    amount: number;
+    status: string;
+    adminVerifiedAt?: Date | string | null;
+    lateAt?: Date | string | null;
+    missedAt?: Date | string | null;
+    lateFee?: number | null;
+  }[];
+}
+
+export interface RecordEntryOptions {
+  source: LedgerSource;
+  sourceRef?: string;
+  cycle?: number;        // Defaults to the pool's current cycle
+  round?: number;
+  occurredAt?: Date;
+  createdBy?: mongoose.Types.ObjectId;
+  // Keep member.totalContributed in step (off during repair, which sets it directly)
+  updateCounters?: boolean;
+}
+
+export interface LedgerEntryInput {
+  poolId: string;
+  type: LedgerEntryType;
+  cycle: number;
+  round?: number;
+  memberId?: number;
+  amount: number;
+  description: string;
+  lines: ILedgerLine[];
+  sourceKey: string;
+  source: LedgerSource;
+  sourceRef?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  occurredAt: Date;
+}
+
+export interface MemberLedgerBalance {
+  memberId: number;
+  contributed: number;   // Contributions less refunds and reversals
+  received: number;      // Payouts
+  fees: number;          // Late fees charged
+  adjustments: number;   // Net manual adjustments (positive = credited to the member)
+  balance: number;       // Member account balance (credit-normal)
+}
+
+export interface LedgerBalances {
+  poolCash: number;
+  fees: number;
+  adjustments: number;
+  members: MemberLedgerBalance[];
+}
+
+export enum DiscrepancyType {
+  UNBALANCED_ENTRY = 'unbalanced_entry',
+  MISSING_LEDGER_ENTRY = 'missing_ledger_entry',
+  AMOUNT_MISMATCH = 'amount_mismatch',
+  MEMBER_COUNTER_DRIFT = 'member_counter_drift',
+  NEGATIVE_CASH = 'negative_cash',
+}
+
+// Where the expected money movement was found
+export type ReconciliationSource = 'round_payment' | 'pool_transaction' | 'payment' | 'member_counter' | 'ledger';
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  message: string;
+  source: ReconciliationSource;
+  // Repair can fix this on its own; otherwise an admin adjustment is needed
+  repairable: boolean;
+  memberId?: number;
+  round?: number;
+  sourceKey?: string;
+  expected?: number;
+  actual?: number;
+}
+
+// A money movement found outside the ledger that the ledger should contain
+export interface ExpectedEntry {
+  type: LedgerEntryType.CONTRIBUTION | LedgerEntryType.PAYOUT | LedgerEntryType.LATE_FEE;
+  sourceKey: string;
+  source: Exclude<ReconciliationSource, 'member_counter' | 'ledger'>;
+  sourceRef?: string;
+  memberId: number;
+  cycle: number;
+  round: number;
+  amount: number;
+  occurredAt: Date;
+}
+
+export interface ReconciliationReport {
+  poolId: string;
+  generatedAt: Date;
+  entryCount: number;
+  balanced: boolean;
+  balances: LedgerBalances;
+  discrepancies: Discrepancy[];
+}
+
+export interface LedgerRepairResult {
+  entriesCreated: number;
+  countersUpdated: number;
+  before: ReconciliationReport;
+  after: ReconciliationReport;
+}
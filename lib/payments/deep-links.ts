@@ -3,14 +3,19 @@
  *
  * Generates payment links for Venmo, Cash App, PayPal, and handles Zelle (no deep link).
  * These links open the respective payment apps with pre-filled recipient and amount.
+ * Apps that can't send the pool's currency get no link (lib/currency).
  */
 
+import { DEFAULT_CURRENCY } from '../../types/currency';
+import { resolveCurrency, supportsDeepLinkIn } from '../currency';
+
 export type PayoutMethodType = 'venmo' | 'cashapp' | 'paypal' | 'zelle' | 'bank';
 
 export interface PayoutLinkParams {
   recipientHandle: string;
   amount: number;
   note?: string; // e.g., "Junta: Family Savings - Week 5"
+  currency?: string; // The pool's currency; USD when not set
 }
 
 export interface PayoutMethod {
@@ -234,14 +239,14 @@ export function generateCashAppLink(params: PayoutLinkParams): string {
 
 /**
  * Generates a PayPal.me deep link
- * Supports amount and recipient only (no note support)
+ * Supports amount, currency, and recipient (no note support)
  *
  * @example
  * generatePayPalLink({ recipientHandle: 'johndoe', amount: 100 })
  * // => 'https://paypal.me/johndoe/100USD'
  */
 export function generatePayPalLink(params: PayoutLinkParams): string {
-  const { recipientHandle, amount } = params;
+  const { recipientHandle, amount, currency = DEFAULT_CURRENCY } = params;
 
   // Validate and sanitize handle
   const validation = validatePayPalHandle(recipientHandle);
@@ -251,13 +256,14 @@ export function generatePayPalLink(params: PayoutLinkParams): string {
 
   const cleanHandle = validation.sanitizedHandle;
 
-  // PayPal.me format: https://paypal.me/username/amountUSD
-  return `https://paypal.me/${cleanHandle}/${amount.toFixed(2)}USD`;
+  // PayPal.me format: https://paypal.me/username/amountCURRENCY
+  return `https://paypal.me/${cleanHandle}/${amount.toFixed(2)}${resolveCurrency(currency)}`;
 }
 
 /**
  * Generates a payout link based on the payment method type
- * Returns null for methods without deep link support (Zelle, Bank)
+ * Returns null for methods without deep link support (Zelle, Bank) and for
+ * apps that can't send params.currency
  *
  * @example
  * generatePayoutLink('venmo', { recipientHandle: 'john-doe', amount: 100, note: 'Junta payout' })
@@ -267,6 +273,10 @@ export function generatePayoutLink(
   method: PayoutMethodType,
   params: PayoutLinkParams
 ): string | null {
+  if (method !== 'bank' && !supportsDeepLinkIn(method, params.currency)) {
+    return null;
+  }
+
   try {
     switch (method) {
       case 'venmo':
@@ -298,7 +308,8 @@ export function generateJuntaPayoutLink(
   recipientHandle: string,
   amount: number,
   poolName: string,
-  round?: number
+  round?: number,
+  currency?: string
 ): string | null {
   const note = round
     ? `Junta: ${poolName} - Round ${round} Payout`
@@ -308,6 +319,7 @@ export function generateJuntaPayoutLink(
     recipientHandle,
     amount,
     note,
+    currency,
   });
 }
 
@@ -354,10 +366,14 @@ export function getHandleHelpText(type: PayoutMethodType): string {
 }
 
 /**
- * Checks if a payment method type supports deep links
+ * Checks if a payment method type supports deep links, optionally for a
+ * given currency
  */
-export function supportsDeepLink(type: PayoutMethodType): boolean {
-  return ['venmo', 'cashapp', 'paypal'].includes(type);
+export function supportsDeepLink(type: PayoutMethodType, currency?: string): boolean {
+  if (type === 'bank') return false;
+  return currency === undefined
+    ? ['venmo', 'cashapp', 'paypal'].includes(type)
+    : supportsDeepLinkIn(type, currency);
 }
 
 /**
@@ -0,0 +1,220 @@
+/**
+ * Payment history
+ *
+ * Merges a user's Payment records with the legacy transactions stored on each
+ * pool they belong to. Used by /api/payments/history for the payments page and
+ * by /api/payments/history/export for CSV and OFX downloads, so both always
+ * show the same rows.
+ */
+
+import { getPaymentModel } from '../db/models/payment';
+import { getPoolModel } from '../db/models/pool';
+import { TransactionType } from '../../types/payment';
+
+export interface PaymentHistoryFilters {
+  poolId?: string | null;
+  type?: string | null;
+  status?: string | null;
+  search?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  sortOrder?: 1 | -1;
+}
+
+export interface PaymentHistoryItem {
+  id: string;
+  paymentId: string;
+  poolId: string;
+  poolName: string;
+  amount: number;
+  currency: string;
+  type: string;
+  status: string;
+  description: string;
+  member: string;
+  round?: number;
+  stripePaymentIntentId?: string;
+  stripeSessionId?: string;
+  escrowId?: string;
+  releaseDate?: Date;
+  scheduledDate?: Date;
+  processedAt?: Date;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+  source: 'payment' | 'pool';
+}
+
+interface HistoryUser {
+  _id: unknown;
+  email: string;
+  name?: string;
+}
+
+/**
+ * Read query string filters shared by the history and export routes
+ */
+export function parseHistoryFilters(searchParams: URLSearchParams): PaymentHistoryFilters {
+  return {
+    poolId: searchParams.get('poolId'),
+    type: searchParams.get('type'),
+    status: searchParams.get('status'),
+    search: searchParams.get('search'),
+    startDate: searchParams.get('startDate'),
+    endDate: searchParams.get('endDate'),
+    sortOrder: searchParams.get('sortOrder') === 'asc' ? 1 : -1,
+  };
+}
+
+/**
+ * Get a user's full payment history, newest first unless sortOrder is 1
+ */
+export async function getPaymentHistory(
+  user: HistoryUser,
+  filters: PaymentHistoryFilters = {}
+): Promise<PaymentHistoryItem[]> {
+  const { poolId, type, status, search, startDate, endDate } = filters;
+  const sortOrder = filters.sortOrder ?? -1;
+
+  const Payment = getPaymentModel();
+  const Pool = getPoolModel();
+
+  // Build query filter
+  const filter: Record<string, unknown> = {
+    userId: user._id
+  };
+
+  if (poolId) {
+    filter.poolId = poolId;
+  }
+
+  if (type) {
+    filter.type = type;
+  }
+
+  if (status) {
+    filter.status = status;
+  }
+
+  if (startDate || endDate) {
+    filter.createdAt = {};
+    if (startDate) {
+      (filter.createdAt as Record<string, Date>).$gte = new Date(startDate);
+    }
+    if (endDate) {
+      (filter.createdAt as Record<string, Date>).$lte = new Date(endDate);
+    }
+  }
+
+  if (search) {
+    filter.$or = [
+      { description: { $regex: search, $options: 'i' } },
+      { member: { $regex: search, $options: 'i' } }
+    ];
+  }
+
+  const payments = await Payment.find(filter)
+    .sort({ createdAt: sortOrder })
+    .lean();
+
+  // Get unique pool IDs to fetch pool names
+  const poolIds = [...new Set(payments.map(p => p.poolId))];
+
+  const pools = await Pool.find({ id: { $in: poolIds } })
+    .select('id name')
+    .lean();
+
+  const poolMap = new Map(pools.map(p => [p.id, p.name]));
+
+  // Also get transactions from pool.transactions for legacy data
+  const userPools = await Pool.find({
+    'members.email': user.email
+  }).lean();
+
+  const poolTransactions: PaymentHistoryItem[] = [];
+
+  for (const pool of userPools) {
+    const userMember = pool.members.find(
+      (m: { email: string }) => m.email === user.email
+    );
+
+    if (!userMember || !pool.transactions) continue;
+
+    for (const tx of pool.transactions) {
+      // Only include transactions where the user is the member
+      if (tx.member !== userMember.name) continue;
+
+      if (search) {
+        const searchLower = search.toLowerCase();
+        const matchesSearch =
+          tx.member?.toLowerCase().includes(searchLower) ||
+          pool.name?.toLowerCase().includes(searchLower);
+        if (!matchesSearch) continue;
+      }
+
+      if (type && tx.type !== type) continue;
+      if (status && tx.status !== status) continue;
+      if (poolId && pool.id !== poolId) continue;
+
+      const txDate = new Date(tx.date);
+      if (startDate && txDate < new Date(startDate)) continue;
+      if (endDate && txDate > new Date(endDate)) continue;
+
+      poolTransactions.push({
+        id: `pool_${pool.id}_${tx.id}`,
+        paymentId: `pool_tx_${tx.id}`,
+        poolId: pool.id,
+        poolName: pool.name,
+        amount: tx.amount,
+        currency: 'USD',
+        type: tx.type,
+        status: tx.status,
+        description: `${tx.type === TransactionType.CONTRIBUTION ? 'Contribution' : tx.type === TransactionType.PAYOUT ? 'Payout' : tx.type} - ${pool.name}`,
+        member: tx.member,
+        round: tx.round,
+        createdAt: txDate,
+        source: 'pool'
+      });
+    }
+  }
+
+  const formattedPayments: PaymentHistoryItem[] = payments.map(p => ({
+    id: p._id.toString(),
+    paymentId: p.paymentId,
+    poolId: p.poolId,
+    poolName: poolMap.get(p.poolId) || 'Unknown Pool',
+    amount: p.amount,
+    currency: p.currency || 'USD',
+    type: p.type,
+    status: p.status,
+    description: p.description || '',
+    member: p.member || user.name || '',
+    round: p.round,
+    stripePaymentIntentId: p.stripePaymentIntentId,
+    stripeSessionId: p.stripeSessionId,
+    escrowId: p.escrowId,
+    releaseDate: p.releaseDate,
+    scheduledDate: p.scheduledDate,
+    processedAt: p.processedAt,
+    failureReason: p.failureReason,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+    source: 'payment'
+  }));
+
+  // Merge and deduplicate (payment records take priority)
+  const paymentIds = new Set(formattedPayments.map(p => p.paymentId));
+  const uniquePoolTransactions = poolTransactions.filter(
+    tx => !paymentIds.has(tx.paymentId)
+  );
+
+  const allTransactions = [...formattedPayments, ...uniquePoolTransactions];
+
+  allTransactions.sort((a, b) => {
+    const dateA = new Date(a.createdAt).getTime();
+    const dateB = new Date(b.createdAt).getTime();
+    return sortOrder === 1 ? dateA - dateB : dateB - dateA;
+  });
+
+  return allTransactions;
+}
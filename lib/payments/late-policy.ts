@@ -0,0 +1,269 @@
+/**
+ * Late payment policy
+ *
+ * Each pool has a policy, counted in days from a contribution's due date:
+ * - gracePeriodDays: a pending payment becomes late once the grace period ends
+ * - missedAfterDays: a pending or late payment becomes missed
+ * - lateFeeAmount: added to the payment when it goes late (0 = no fee)
+ *
+ * The late-payments job applies the policy to every active pool. Each change
+ * is a conditional update on the payment's current status, so a member
+ * confirming their payment at the same moment is never overwritten. Late
+ * payments get an overdue reminder right away; missed payments count against
+ * the member's missed counters. Both are posted to the pool's activity feed,
+ * and late fees are recorded in the pool ledger.
+ */
+
+import getPoolModel from '../db/models/pool';
+import { LatePaymentPolicy, RoundPaymentStatus } from '../../types/pool';
+import { postPaymentLate, postPaymentMissed } from '../activity/auto-posts';
+import { getLatePaymentReminders } from '../reminders/scheduler';
+import { processReminders } from '../reminders/sender';
+import { recordLateFee } from '../ledger/entries';
+import { LedgerSource } from '../db/models/ledgerEntry';
+import { refreshPoolRollupsSafely } from '../analytics/rollups';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_LATE_POLICY: LatePaymentPolicy = {
+  gracePeriodDays: 1,
+  missedAfterDays: 7,
+  lateFeeAmount: 0,
+};
+
+export const MAX_GRACE_PERIOD_DAYS = 30;
+export const MAX_MISSED_AFTER_DAYS = 90;
+
+// Only payments the member hasn't claimed yet can go late or missed
+const UNPAID_STATUSES: RoundPaymentStatus[] = ['pending', 'late'];
+
+interface PolicyPayment {
+  memberId: number;
+  memberName?: string;
+  amount: number;
+  status: RoundPaymentStatus;
+  dueDate?: Date | string | null;
+  lateAt?: Date | string | null;
+  missedAt?: Date | string | null;
+  lateFee?: number | null;
+}
+
+export interface LatePaymentChange {
+  memberId: number;
+  memberName: string;
+  amount: number;
+  status: 'late' | 'missed';
+  lateFee?: number;
+}
+
+export interface LatePolicyResult {
+  poolsChecked: number;
+  late: number;
+  missed: number;
+  remindersSent: number;
+  errors: string[];
+}
+
+/**
+ * Get a pool's policy, filling in defaults for anything unset
+ */
+export function getLatePolicy(pool: { latePolicy?: Partial<LatePaymentPolicy> | null }): LatePaymentPolicy {
+  const policy = pool.latePolicy || {};
+  return {
+    gracePeriodDays: policy.gracePeriodDays ?? DEFAULT_LATE_POLICY.gracePeriodDays,
+    missedAfterDays: policy.missedAfterDays ?? DEFAULT_LATE_POLICY.missedAfterDays,
+    lateFeeAmount: policy.lateFeeAmount ?? DEFAULT_LATE_POLICY.lateFeeAmount,
+  };
+}
+
+/**
+ * Validate a policy update, merged over the pool's current policy
+ */
+export function validateLatePolicy(
+  updates: Partial<Record<keyof LatePaymentPolicy, unknown>>,
+  current: LatePaymentPolicy,
+  contributionAmount: number
+): { policy?: LatePaymentPolicy; error?: string } {
+  const policy = { ...current };
+
+  for (const key of Object.keys(DEFAULT_LATE_POLICY) as (keyof LatePaymentPolicy)[]) {
+    const value = updates[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return { error: `${key} must be a non-negative number` };
+    }
+    policy[key] = value;
+  }
+
+  if (!Number.isInteger(policy.gracePeriodDays) || policy.gracePeriodDays > MAX_GRACE_PERIOD_DAYS) {
+    return { error: `gracePeriodDays must be a whole number of days up to ${MAX_GRACE_PERIOD_DAYS}` };
+  }
+  if (!Number.isInteger(policy.missedAfterDays) || policy.missedAfterDays > MAX_MISSED_AFTER_DAYS) {
+    return { error: `missedAfterDays must be a whole number of days up to ${MAX_MISSED_AFTER_DAYS}` };
+  }
+  if (policy.missedAfterDays <= policy.gracePeriodDays) {
+    return { error: 'missedAfterDays must be longer than the grace period' };
+  }
+  if (policy.lateFeeAmount > contributionAmount) {
+    return { error: 'lateFeeAmount cannot exceed the contribution amount' };
+  }
+
+  return { policy };
+}
+
+/**
+ * Work out which status an unpaid payment should move to, if any
+ */
+export function getLatePaymentTransition(
+  payment: Pick<PolicyPayment, 'status' | 'dueDate'>,
+  policy: LatePaymentPolicy,
+  now: Date = new Date()
+): 'late' | 'missed' | null {
+  if (!UNPAID_STATUSES.includes(payment.status) || !payment.dueDate) return null;
+
+  const overdueMs = now.getTime() - new Date(payment.dueDate).getTime();
+
+  if (overdueMs >= policy.missedAfterDays * DAY_MS) return 'missed';
+  if (payment.status === 'pending' && overdueMs >= policy.gracePeriodDays * DAY_MS) return 'late';
+  return null;
+}
+
+/**
+ * Whether a verified payment counts as on time (it never went late or missed)
+ */
+export function isPaidOnTime(payment: Pick<PolicyPayment, 'lateAt' | 'missedAt'>): boolean {
+  return !payment.lateAt && !payment.missedAt;
+}
+
+/**
+ * Apply the policy to one pool's current round
+ *
+ * @returns The payments that changed status
+ */
+export async function applyLatePolicy(pool: any, now: Date = new Date()): Promise<LatePaymentChange[]> {
+  const Pool = getPoolModel();
+  const policy = getLatePolicy(pool);
+  const changes: LatePaymentChange[] = [];
+
+  for (const payment of (pool.currentRoundPayments || []) as PolicyPayment[]) {
+    const nextStatus = getLatePaymentTransition(payment, policy, now);
+    if (!nextStatus) continue;
+
+    // The fee is charged once, whichever state the payment reaches first
+    const lateFee = !payment.lateFee && policy.lateFeeAmount > 0 ? policy.lateFeeAmount : undefined;
+
+    const $set: Record<string, unknown> = {
+      'currentRoundPayments.$[payment].status': nextStatus,
+      'currentRoundPayments.$[payment].updatedAt': now,
+      [`currentRoundPayments.$[payment].${nextStatus === 'late' ? 'lateAt' : 'missedAt'}`]: now,
+    };
+    if (lateFee) {
+      $set['currentRoundPayments.$[payment].lateFee'] = lateFee;
+    }
+
+    const update: Record<string, unknown> = { $set };
+    const arrayFilters: Record<string, unknown>[] = [
+      { 'payment.memberId': payment.memberId, 'payment.status': payment.status },
+    ];
+
+    if (nextStatus === 'missed') {
+      // missedPayments is the older name for the same counter; keep both in step
+      update.$inc = {
+        'members.$[member].paymentsMissed': 1,
+        'members.$[member].missedPayments': 1,
+      };
+      arrayFilters.push({ 'member.id': payment.memberId });
+    }
+
+    const result = await Pool.updateOne(
+      {
+        _id: pool._id,
+        currentRoundPayments: { $elemMatch: { memberId: payment.memberId, status: payment.status } },
+      },
+      update,
+      { arrayFilters }
+    );
+
+    if (result.modifiedCount === 0) continue;
+
+    if (lateFee) {
+      try {
+        await recordLateFee(pool, payment.memberId, lateFee, { source: LedgerSource.LATE_POLICY, occurredAt: now });
+      } catch (error) {
+        console.error(`Error recording late fee in ledger for pool ${pool.id}:`, error);
+      }
+    }
+
+    changes.push({
+      memberId: payment.memberId,
+      memberName: payment.memberName || `Member ${payment.memberId}`,
+      amount: payment.amount,
+      status: nextStatus,
+      lateFee,
+    });
+  }
+
+  if (changes.length > 0) {
+    await refreshPoolRollupsSafely(pool.id);
+  }
+
+  return changes;
+}
+
+/**
+ * Apply late policies to every active pool
+ * Used by the late-payments job (lib/jobs/registry.ts)
+ */
+export async function processLatePayments(now: Date = new Date()): Promise<LatePolicyResult> {
+  const Pool = getPoolModel();
+
+  const results: LatePolicyResult = {
+    poolsChecked: 0,
+    late: 0,
+    missed: 0,
+    remindersSent: 0,
+    errors: [],
+  };
+
+  const pools = await Pool.find({
+    status: 'active',
+    currentRoundPayments: {
+      $elemMatch: { status: { $in: UNPAID_STATUSES }, dueDate: { $lt: now } },
+    },
+  });
+
+  for (const pool of pools) {
+    results.poolsChecked++;
+
+    try {
+      const changes = await applyLatePolicy(pool, now);
+      if (changes.length === 0) continue;
+
+      const round = pool.currentRound || 1;
+      const lateMemberIds: number[] = [];
+
+      for (const change of changes) {
+        if (change.status === 'late') {
+          results.late++;
+          lateMemberIds.push(change.memberId);
+          await postPaymentLate(pool._id, change.memberId, change.memberName, change.amount, round, change.lateFee);
+        } else {
+          results.missed++;
+          await postPaymentMissed(pool._id, change.memberId, change.memberName, change.amount, round);
+        }
+      }
+
+      if (lateMemberIds.length > 0) {
+        const reminders = await getLatePaymentReminders(pool, lateMemberIds);
+        const sendResults = await processReminders(reminders);
+        results.remindersSent += sendResults.sent;
+        results.errors.push(...sendResults.errors);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      results.errors.push(`Pool ${pool.id}: ${errorMessage}`);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,220 @@
+/**
+ * Payout order strategies
+ *
+ * Every strategy resolves to member positions: the recipient of round N is
+ * always the member at position N. Strategies only differ in how positions
+ * get assigned:
+ * - fixed: the admin orders members manually
+ * - random_draw: a seeded shuffle whose seed hash is published at creation
+ *   and whose seed is revealed at draw time, so anyone can re-run it
+ * - bidding: members bid a discount to take the current round's position
+ *
+ * Member-to-member swaps are available under every strategy.
+ */
+
+import crypto from 'crypto';
+import { getAuditLogModel } from '../db/models/auditLog';
+import { AuditLogType } from '../../types/audit';
+import {
+  PayoutBid,
+  PayoutDraw,
+  PayoutSwapRequest,
+  PayoutSwapStatus,
+} from '../../types/pool';
+
+interface OrderMember {
+  id: number;
+  name?: string;
+  email?: string;
+  position: number;
+  payoutReceived?: boolean;
+  hasReceivedPayout?: boolean;
+}
+
+interface OrderPool {
+  id: string;
+  currentRound?: number;
+  currentRoundPayoutStatus?: string;
+  members: OrderMember[];
+  payoutBids?: PayoutBid[];
+}
+
+/**
+ * Generate a secret seed for a payout draw
+ */
+export function generateDrawSeed(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Hash a draw seed (the published commitment)
+ */
+export function hashDrawSeed(seed: string): string {
+  return crypto.createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * Deterministic Fisher-Yates shuffle driven by the seed
+ *
+ * Each swap index is derived from sha256(`${seed}:${i}`), so the same seed and
+ * input always produce the same order.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const digest = crypto.createHash('sha256').update(`${seed}:${i}`).digest();
+    const j = digest.readUInt32BE(0) % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Run the payout draw over the given member ids
+ *
+ * Input is sorted by member id so the result doesn't depend on storage order.
+ */
+export function runPayoutDraw(memberIds: number[], seed: string): { memberIds: number[]; order: number[] } {
+  const sortedIds = [...memberIds].sort((a, b) => a - b);
+  return { memberIds: sortedIds, order: seededShuffle(sortedIds, seed) };
+}
+
+/**
+ * Check that a revealed draw matches its commitment and its recorded order
+ */
+export function verifyPayoutDraw(draw: PayoutDraw): boolean {
+  if (!draw.seed || !draw.memberIds || !draw.order) {
+    return false;
+  }
+  if (hashDrawSeed(draw.seed) !== draw.seedHash) {
+    return false;
+  }
+  const { order } = runPayoutDraw(draw.memberIds, draw.seed);
+  return order.length === draw.order.length && order.every((id, index) => id === draw.order![index]);
+}
+
+/**
+ * Get the member who receives the pot for a round
+ */
+export function getRoundRecipient<T extends { position: number }>(members: T[], round: number): T | undefined {
+  return members.find(m => m.position === round);
+}
+
+/**
+ * Whether a member has already received their payout
+ */
+export function hasReceivedPayout(member: OrderMember): boolean {
+  return !!(member.payoutReceived || member.hasReceivedPayout);
+}
+
+/**
+ * Check whether a member's position can still change
+ *
+ * Returns an error message, or null if the position is open.
+ */
+export function getPositionLockReason(pool: OrderPool, member: OrderMember): string | null {
+  const currentRound = pool.currentRound || 1;
+
+  if (hasReceivedPayout(member)) {
+    return `${member.name || 'Member'} has already received a payout`;
+  }
+  if (member.position < currentRound) {
+    return `${member.name || 'Member'}'s round has already passed`;
+  }
+  if (
+    member.position === currentRound &&
+    (pool.currentRoundPayoutStatus === 'paid' || pool.currentRoundPayoutStatus === 'completed')
+  ) {
+    return 'The current round has already been paid out';
+  }
+  return null;
+}
+
+/**
+ * Validate that two members can swap payout positions
+ */
+export function validatePositionSwap(pool: OrderPool, requester: OrderMember, target: OrderMember): string | null {
+  if (requester.id === target.id) {
+    return 'Cannot swap positions with yourself';
+  }
+  return getPositionLockReason(pool, requester) || getPositionLockReason(pool, target);
+}
+
+/**
+ * Swap two members' positions in place
+ */
+export function swapMemberPositions(a: OrderMember, b: OrderMember): void {
+  const position = a.position;
+  a.position = b.position;
+  b.position = position;
+}
+
+/**
+ * Whether a member already has a pending swap request
+ */
+export function hasPendingSwap(swaps: PayoutSwapRequest[], memberId: number): boolean {
+  return swaps.some(
+    s => s.status === PayoutSwapStatus.PENDING && (s.requesterId === memberId || s.targetId === memberId)
+  );
+}
+
+/**
+ * Pick the winning bid for a round: highest discount, earliest bid on ties
+ */
+export function resolveWinningBid(bids: PayoutBid[], round: number): PayoutBid | null {
+  const roundBids = bids.filter(b => b.round === round);
+  if (roundBids.length === 0) {
+    return null;
+  }
+  return roundBids.reduce((best, bid) => {
+    if (bid.discountAmount > best.discountAmount) return bid;
+    if (
+      bid.discountAmount === best.discountAmount &&
+      new Date(bid.createdAt).getTime() < new Date(best.createdAt).getTime()
+    ) {
+      return bid;
+    }
+    return best;
+  });
+}
+
+/**
+ * Discount taken off a round's payout by its winning bid
+ *
+ * The discount stays in the pool balance rather than going to the recipient.
+ */
+export function getWinningDiscount(pool: OrderPool, round: number): number {
+  const winningBid = (pool.payoutBids || []).find(b => b.round === round && b.won);
+  return winningBid?.discountAmount || 0;
+}
+
+/**
+ * Record an audit entry for a payout order change
+ */
+export async function logPayoutOrderChange(
+  pool: { id: string; name?: string },
+  actor: { id: string; email?: string },
+  action: string,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    const AuditLog = getAuditLogModel();
+    await AuditLog.create({
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      userId: actor.id,
+      userEmail: actor.email,
+      type: AuditLogType.POOL_PAYOUT_ORDER_CHANGE,
+      action,
+      metadata: {
+        poolId: pool.id,
+        poolName: pool.name,
+        ...metadata,
+      },
+      poolId: pool.id,
+      success: true,
+    });
+  } catch (error) {
+    console.error(`Error logging payout order change for pool ${pool.id}:`, error);
+  }
+}
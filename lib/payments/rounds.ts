@@ -0,0 +1,334 @@
+/**
+ * Round history helpers
+ *
+ * Builds snapshots of a pool round from the live Pool document and archives
+ * them into the Round collection when the round closes. The same snapshot
+ * builder is used to present the live round alongside archived ones, so the
+ * /rounds API returns one consistent shape.
+ *
+ * Also advances a pool to its next round once the current payout is paid,
+ * used by the round-payout API and the round auto-advance job. The next
+ * payout date comes from the pool schedule (lib/schedule).
+ */
+
+import type { Document } from 'mongoose';
+import { getRoundModel, IRound } from '../db/models/round';
+import { getPoolModel } from '../db/models/pool';
+import { PoolStatus } from '../../types/pool';
+import { getRoundPayoutDate } from '../schedule';
+import { getCurrentCycleTransactions } from '../pools/cycles';
+import { refreshPoolRollupsSafely } from '../analytics/rollups';
+import { getPotAmount, resolveCurrency } from '../currency';
+import type {
+  RoundHistory,
+  RoundPaymentRecord,
+  RoundTransactionRecord,
+  RoundStatus,
+  PayoutStatus,
+  PaymentStatus,
+} from './types';
+
+type RoundSnapshot = Omit<IRound, keyof Document | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Derive the live round status from the pool's payout status
+ */
+function getLiveRoundStatus(payoutStatus: PayoutStatus, payments: { status: PaymentStatus }[], dueDate?: Date): RoundStatus {
+  switch (payoutStatus) {
+    case 'ready_to_pay':
+      return 'ready_for_payout';
+    case 'paid':
+      return 'paid';
+    case 'completed':
+      return 'completed';
+    default:
+      if (dueDate && dueDate.getTime() < Date.now() && payments.some(p => p.status !== 'admin_verified' && p.status !== 'excused')) {
+        return 'collecting';
+      }
+      return 'active';
+  }
+}
+
+/**
+ * Build a snapshot of a round from the Pool document
+ *
+ * Payments come from currentRoundPayments, so this must run before the pool
+ * advances to the next round and clears them.
+ */
+export function buildRoundSnapshot(
+  pool: any,
+  options: { roundNumber?: number; closedBy?: any; closed?: boolean } = {}
+): RoundSnapshot {
+  const roundNumber = options.roundNumber ?? (pool.currentRound || 1);
+  const members: any[] = pool.members || [];
+  const rawPayments: any[] = pool.currentRoundPayments || [];
+
+  const transactions: RoundTransactionRecord[] = getCurrentCycleTransactions(pool.transactions)
+    .filter((t: any) => t.round === roundNumber)
+    .map((t: any) => ({
+      id: t.id,
+      type: t.type,
+      amount: t.amount,
+      date: t.date,
+      member: t.member,
+      status: t.status,
+      wasEarlyPayout: t.wasEarlyPayout,
+    }));
+
+  // Prefer the recipient recorded on the payout transaction; fall back to position
+  const payoutTransaction = transactions.find(t => t.type === 'payout');
+  const winner = (payoutTransaction && members.find(m => m.name === payoutTransaction.member))
+    || members.find(m => m.position === roundNumber);
+
+  const payments = rawPayments.map((p: any) => ({
+    memberId: p.memberId,
+    memberName: p.memberName,
+    memberEmail: p.memberEmail,
+    amount: p.amount,
+    status: p.status,
+    memberConfirmedAt: p.memberConfirmedAt,
+    memberConfirmedVia: p.memberConfirmedVia,
+    adminVerifiedAt: p.adminVerifiedAt,
+    adminVerifiedBy: p.adminVerifiedBy,
+    adminNotes: p.adminNotes,
+    reminderSentAt: p.reminderSentAt,
+    reminderCount: p.reminderCount || 0,
+    dueDate: p.dueDate,
+    lateAt: p.lateAt,
+    missedAt: p.missedAt,
+    lateFee: p.lateFee,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+  }));
+
+  const countStatus = (status: PaymentStatus) => payments.filter(p => p.status === status).length;
+  const paymentsVerified = countStatus('admin_verified');
+  const paymentsCollected = paymentsVerified + countStatus('member_confirmed');
+
+  const dueDateSource = payments.find(p => p.dueDate)?.dueDate || pool.nextPayoutDate;
+  const dueDate = dueDateSource ? new Date(dueDateSource) : undefined;
+  const payoutStatus: PayoutStatus = pool.currentRoundPayoutStatus || 'pending_collection';
+  const payoutTransactionDate = payoutTransaction ? new Date(payoutTransaction.date) : undefined;
+
+  return {
+    poolId: pool.id,
+    cycle: pool.currentCycle || 0,
+    roundNumber,
+    dueDate,
+    winnerId: winner?.id,
+    winnerName: winner?.name,
+    winnerEmail: winner?.email,
+    currency: resolveCurrency(pool.currency),
+    contributionAmount: pool.contributionAmount,
+    totalMembers: members.length,
+    potAmount: getPotAmount(pool, members.length),
+    status: options.closed ? 'completed' : getLiveRoundStatus(payoutStatus, payments, dueDate),
+    payoutStatus: options.closed ? 'completed' : payoutStatus,
+    payoutCompletedAt: pool.currentRoundPayoutCompletedAt || payoutTransactionDate,
+    payoutMethod: pool.currentRoundPayoutMethod || undefined,
+    payoutNotes: pool.currentRoundPayoutNotes || undefined,
+    payoutConfirmedBy: pool.currentRoundPayoutConfirmedBy || undefined,
+    paymentsCollected,
+    paymentsVerified,
+    paymentsLate: countStatus('late'),
+    paymentsMissed: countStatus('missed'),
+    paymentsExcused: countStatus('excused'),
+    totalPaymentsExpected: members.length,
+    amountCollected: payments
+      .filter(p => p.status === 'admin_verified')
+      .reduce((sum, p) => sum + p.amount, 0),
+    payments,
+    transactions,
+    closedAt: new Date(),
+    closedBy: options.closedBy,
+  };
+}
+
+/**
+ * Archive the pool's current round into the Round collection
+ *
+ * Upserts on (poolId, cycle, roundNumber) so retries never duplicate a round.
+ * Failures are logged and swallowed: losing the archive must not block the
+ * round from advancing.
+ */
+export async function archiveRound(
+  pool: any,
+  options: { roundNumber?: number; closedBy?: any } = {}
+): Promise<IRound | null> {
+  try {
+    const RoundModel = getRoundModel();
+    const snapshot = buildRoundSnapshot(pool, { ...options, closed: true });
+
+    return await RoundModel.findOneAndUpdate(
+      { poolId: snapshot.poolId, cycle: snapshot.cycle, roundNumber: snapshot.roundNumber },
+      { $set: snapshot },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+  } catch (error) {
+    console.error(`Error archiving round for pool ${pool?.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Archive the current round and move the pool to the next one
+ *
+ * The pool must have its current round payout marked paid. The update is
+ * conditioned on the round number, so two concurrent calls advance only once;
+ * the loser gets null.
+ */
+export async function advancePoolRound(
+  pool: any,
+  options: { closedBy?: any } = {}
+): Promise<{ currentRound: number; isComplete: boolean; nextPayoutDate: string } | null> {
+  const currentRound = pool.currentRound || 1;
+  const nextRound = currentRound + 1;
+  const totalRounds = pool.totalRounds || pool.members.length;
+  const isComplete = nextRound > totalRounds;
+
+  // Archive the closing round before its live payment data is reset
+  await archiveRound(pool, { closedBy: options.closedBy });
+
+  const updateData: Record<string, unknown> = {
+    currentRound: nextRound,
+    currentRoundPayoutStatus: 'pending_collection',
+    currentRoundPayments: [],
+    currentRoundPayoutCompletedAt: null,
+    currentRoundPayoutMethod: null,
+    currentRoundPayoutNotes: null,
+    currentRoundPayoutConfirmedBy: null,
+    currentRoundReadyAt: null,
+    currentRoundPayoutApprovedBy: null,
+    currentRoundPayoutApprovedAt: null,
+    nextPayoutDate: getRoundPayoutDate(pool, nextRound).toISOString(),
+  };
+
+  // Check if pool is complete
+  if (isComplete) {
+    updateData.status = 'completed';
+  }
+
+  const updatedPool = await getPoolModel().findOneAndUpdate(
+    { _id: pool._id, currentRound: pool.currentRound ?? null, currentRoundPayoutStatus: 'paid' },
+    { $set: updateData },
+    { new: true }
+  );
+
+  if (!updatedPool) return null;
+
+  // The closed round moves to the archive and the next one opens
+  await refreshPoolRollupsSafely(pool.id);
+
+  return {
+    currentRound: nextRound,
+    isComplete,
+    nextPayoutDate: updatedPool.nextPayoutDate,
+  };
+}
+
+/**
+ * Convert an archived Round document or a live snapshot into the API shape
+ */
+export function serializeRound(round: RoundSnapshot & { _id?: any }, isArchived: boolean): RoundHistory {
+  const payments: RoundPaymentRecord[] = (round.payments || []).map(p => ({
+    memberId: p.memberId,
+    memberName: p.memberName,
+    memberEmail: p.memberEmail,
+    amount: p.amount,
+    status: p.status,
+    memberConfirmedAt: p.memberConfirmedAt,
+    memberConfirmedVia: p.memberConfirmedVia,
+    adminVerifiedAt: p.adminVerifiedAt,
+    adminVerifiedBy: p.adminVerifiedBy?.toString(),
+    adminNotes: p.adminNotes,
+    reminderSentAt: p.reminderSentAt,
+    reminderCount: p.reminderCount || 0,
+    dueDate: p.dueDate,
+    lateAt: p.lateAt,
+    missedAt: p.missedAt,
+    lateFee: p.lateFee,
+  }));
+
+  const closedAt = isArchived ? round.closedAt : undefined;
+
+  return {
+    id: round._id?.toString() || `${round.poolId}-${round.cycle}-${round.roundNumber}`,
+    poolId: round.poolId,
+    cycle: round.cycle,
+    roundNumber: round.roundNumber,
+    dueDate: (round.dueDate || round.closedAt) as Date,
+    isArchived,
+    winnerId: round.winnerId !== undefined ? String(round.winnerId) : '',
+    winnerName: round.winnerName || '',
+    winnerEmail: round.winnerEmail || '',
+    currency: resolveCurrency(round.currency),
+    contributionAmount: round.contributionAmount,
+    totalMembers: round.totalMembers,
+    potAmount: round.potAmount,
+    status: round.status,
+    payoutStatus: round.payoutStatus,
+    payoutCompletedAt: round.payoutCompletedAt,
+    payoutMethod: round.payoutMethod,
+    payoutNotes: round.payoutNotes,
+    payoutConfirmedByAdmin: round.payoutConfirmedBy?.toString(),
+    paymentsCollected: round.paymentsCollected,
+    paymentsVerified: round.paymentsVerified,
+    paymentsLate: round.paymentsLate,
+    paymentsMissed: round.paymentsMissed,
+    paymentsExcused: round.paymentsExcused,
+    totalPaymentsExpected: round.totalPaymentsExpected,
+    amountCollected: round.amountCollected,
+    payments,
+    transactions: round.transactions || [],
+    closedAt,
+    createdAt: (round as any).createdAt || round.closedAt,
+    updatedAt: (round as any).updatedAt || round.closedAt,
+  };
+}
+
+/**
+ * List a cycle's rounds: every archived round plus the live round if it
+ * belongs to the cycle and hasn't been archived yet
+ */
+export async function getPoolRounds(pool: any, cycle: number): Promise<RoundHistory[]> {
+  const archived = await getRoundModel()
+    .find({ poolId: pool.id, cycle })
+    .sort({ roundNumber: 1 })
+    .lean();
+
+  const rounds = archived.map(round => serializeRound(round, true));
+
+  const currentRound = pool.currentRound || 1;
+  const totalRounds = pool.totalRounds || pool.members.length;
+  const isLiveRoundOpen =
+    cycle === (pool.currentCycle || 0) &&
+    pool.status !== PoolStatus.COMPLETED &&
+    currentRound <= totalRounds &&
+    !archived.some(round => round.roundNumber === currentRound);
+
+  if (isLiveRoundOpen) {
+    rounds.push(serializeRound(buildRoundSnapshot(pool), false));
+  }
+
+  return rounds;
+}
+
+/**
+ * Find one round, archived or live
+ *
+ * @returns null if the round hasn't happened yet or doesn't exist
+ */
+export async function findPoolRound(pool: any, cycle: number, roundNumber: number): Promise<RoundHistory | null> {
+  const archived = await getRoundModel().findOne({ poolId: pool.id, cycle, roundNumber }).lean();
+
+  if (archived) {
+    return serializeRound(archived, true);
+  }
+
+  // The live round has no archive record until it closes
+  if (cycle === (pool.currentCycle || 0) && roundNumber === (pool.currentRound || 1)) {
+    return serializeRound(buildRoundSnapshot(pool), false);
+  }
+
+  return null;
+}
@@ -118,6 +118,7 @@ export interface Round {
   winnerPayoutMethods?: MemberPayoutInfo;
 
   // Financial details
+  currency?: string;
   contributionAmount: number;
   totalMembers: number;
   potAmount: number; // contributionAmount × totalMembers
@@ -143,6 +144,55 @@ export interface Round {
   updatedAt: Date;
 }
 
+/**
+ * Archived payment entry for a closed round
+ */
+export interface RoundPaymentRecord {
+  memberId: number;
+  memberName?: string;
+  memberEmail?: string;
+  amount: number;
+  status: PaymentStatus;
+  memberConfirmedAt?: Date;
+  memberConfirmedVia?: 'venmo' | 'cashapp' | 'paypal' | 'zelle' | 'cash' | 'other';
+  adminVerifiedAt?: Date;
+  adminVerifiedBy?: string;
+  adminNotes?: string;
+  reminderSentAt?: Date;
+  reminderCount: number;
+  dueDate?: Date;
+  lateAt?: Date;
+  missedAt?: Date;
+  lateFee?: number;
+}
+
+/**
+ * Pool transaction that belongs to a round
+ */
+export interface RoundTransactionRecord {
+  id: number;
+  type: string;
+  amount: number;
+  date: string;
+  member: string;
+  status: string;
+  wasEarlyPayout?: boolean;
+}
+
+/**
+ * Round with its full payment history (archived or live)
+ */
+export interface RoundHistory extends Round {
+  cycle: number;
+  isArchived: boolean;       // false for the live round that hasn't closed yet
+  paymentsLate: number;
+  paymentsMissed: number;
+  paymentsExcused: number;
+  payments: RoundPaymentRecord[];
+  transactions: RoundTransactionRecord[];
+  closedAt?: Date;
+}
+
 /**
  * Generated payment links for a payment
  */
@@ -0,0 +1,392 @@
+/**
+ * Multi-cycle pools
+ *
+ * Many groups run the same pool back-to-back. Once a cycle's final round is
+ * paid out the pool is completed, and an admin can open enrollment for the
+ * next cycle:
+ * - members of the finished cycle opt in or out
+ * - new members can be added while enrollment is open and take part unless
+ *   they opt out
+ * - starting the cycle archives a summary of the finished one, drops members
+ *   who opted out, renumbers payout positions (returning members keep their
+ *   relative order, newcomers go last), and resets rounds, payout flags, and
+ *   the live round. Reliability stats (payments on time/missed, total
+ *   contributed) carry over.
+ *
+ * Pool transactions and Payment records from the finished cycle are stamped
+ * with its cycle number, so round lookups and the ledger keep them apart from
+ * the new cycle's rounds.
+ */
+
+import { getCycleModel, ICycle, ICycleMemberRecord } from '../db/models/cycle';
+import { getPaymentModel } from '../db/models/payment';
+import {
+  CycleEnrollment,
+  PayoutBid,
+  PayoutDraw,
+  PayoutOrderStrategy,
+  PayoutSwapRequest,
+  PayoutSwapStatus,
+  PoolMemberStatus,
+  PoolStatus,
+  ScheduleRestart,
+  TransactionType,
+} from '../../types/pool';
+import { TransactionStatus } from '../../types/payment';
+import { getRoundPayoutDate, parseScheduleStartDate, getScheduleSettings, ScheduleSource } from '../schedule';
+import { generateDrawSeed, hashDrawSeed, hasReceivedPayout } from '../payments/payout-order';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A cycle needs someone to pay and someone to receive
+export const MIN_CYCLE_MEMBERS = 2;
+
+interface CycleMember {
+  id: number;
+  name: string;
+  email?: string;
+  userId?: { toString(): string } | null;
+  position: number;
+  status?: string;
+  payoutReceived?: boolean;
+  hasReceivedPayout?: boolean;
+  payoutDate?: string;
+  paymentsOnTime?: number;
+  paymentsMissed?: number;
+  totalContributed?: number;
+}
+
+// The pool fields cycle changes read and write (a Pool document)
+export interface CyclePool extends ScheduleSource {
+  id: string;
+  name?: string;
+  status: PoolStatus | string;
+  contributionAmount: number;
+  frequency: string;
+  currentCycle?: number;
+  totalCycles?: number | null;
+  currentRound?: number;
+  totalRounds?: number;
+  memberCount?: number;
+  nextPayoutDate?: string;
+  members: CycleMember[];
+  transactions?: {
+    type: string;
+    amount: number;
+    status: string;
+    round?: number;
+    cycle?: number | null;
+  }[];
+  currentRoundPayments?: unknown[];
+  currentRoundPayoutStatus?: string;
+  currentRoundPayoutCompletedAt?: Date | string | null;
+  currentRoundPayoutMethod?: string | null;
+  currentRoundPayoutNotes?: string | null;
+  currentRoundPayoutConfirmedBy?: unknown;
+  currentRoundReadyAt?: Date | string | null;
+  currentRoundPayoutApprovedBy?: unknown;
+  currentRoundPayoutApprovedAt?: Date | string | null;
+  payoutOrderStrategy?: PayoutOrderStrategy | string;
+  payoutDraw?: PayoutDraw | null;
+  payoutBids?: PayoutBid[];
+  payoutSwapRequests?: PayoutSwapRequest[];
+  scheduleRestarts?: ScheduleRestart[];
+  nextCycleEnrollment?: CycleEnrollment | null;
+}
+
+export interface CycleParticipants {
+  continuing: CycleMember[];   // Opted in from the finished cycle
+  joining: CycleMember[];      // Added while enrollment was open
+  leaving: CycleMember[];      // Opted out
+  undecided: CycleMember[];    // From the finished cycle, no answer yet
+}
+
+export type CycleSummary = Pick<
+  ICycle,
+  'poolId' | 'cycle' | 'startDate' | 'completedAt' | 'contributionAmount' | 'frequency' |
+  'totalRounds' | 'roundsCompleted' | 'totalPaidOut' | 'members'
+>;
+
+/**
+ * Pool transactions from the cycle in progress (earlier cycles carry their number)
+ *
+ * T defaults to any so untyped pool documents keep untyped transactions.
+ */
+export function getCurrentCycleTransactions<T extends { cycle?: number | null } = any>(transactions: T[] = []): T[] {
+  return transactions.filter(t => t.cycle === undefined || t.cycle === null);
+}
+
+/**
+ * Why the pool can't move on to a new cycle right now, or null if it can
+ */
+export function getNextCycleError(pool: Pick<CyclePool, 'status' | 'currentCycle' | 'totalCycles'>): string | null {
+  if (pool.status !== PoolStatus.COMPLETED) {
+    return 'The current cycle must be completed before the next one starts';
+  }
+  // currentCycle counts from 0, totalCycles from 1
+  if (pool.totalCycles && (pool.currentCycle || 0) + 1 >= pool.totalCycles) {
+    return `This pool is set to run ${pool.totalCycles} cycle${pool.totalCycles === 1 ? '' : 's'}`;
+  }
+  return null;
+}
+
+/**
+ * Parse the admin's round 1 payout date for the next cycle
+ */
+export function parseCycleStartDate(
+  pool: Pick<CyclePool, 'schedule'>,
+  value: string,
+  now: Date = new Date()
+): { date?: Date; error?: string } {
+  const date = parseScheduleStartDate(value, getScheduleSettings(pool).timezone);
+  if (!date) {
+    return { error: 'startDate must be a valid date' };
+  }
+  if (date.getTime() < now.getTime() - DAY_MS) {
+    return { error: 'startDate cannot be in the past' };
+  }
+  return { date };
+}
+
+/**
+ * Open enrollment for the next cycle
+ */
+export function openCycleEnrollment(
+  pool: CyclePool,
+  openedBy: string,
+  startDate?: Date,
+  now: Date = new Date()
+): CycleEnrollment {
+  const enrollment: CycleEnrollment = {
+    cycle: (pool.currentCycle || 0) + 1,
+    openedAt: now.toISOString(),
+    openedBy,
+    ...(startDate && { startDate: startDate.toISOString() }),
+    previousMemberIds: pool.members.map(m => m.id),
+    responses: [],
+  };
+  pool.nextCycleEnrollment = enrollment;
+  return enrollment;
+}
+
+/**
+ * Record or change a member's answer
+ */
+export function respondToEnrollment(
+  enrollment: CycleEnrollment,
+  member: { id: number; name: string },
+  optIn: boolean,
+  now: Date = new Date()
+): void {
+  const response = { memberId: member.id, memberName: member.name, optIn, respondedAt: now.toISOString() };
+  const index = enrollment.responses.findIndex(r => r.memberId === member.id);
+  if (index === -1) {
+    enrollment.responses.push(response);
+  } else {
+    enrollment.responses[index] = response;
+  }
+}
+
+/**
+ * Sort the pool's members by their answer to the enrollment
+ */
+export function getCycleParticipants(
+  pool: Pick<CyclePool, 'members'>,
+  enrollment: Pick<CycleEnrollment, 'previousMemberIds' | 'responses'>
+): CycleParticipants {
+  const participants: CycleParticipants = { continuing: [], joining: [], leaving: [], undecided: [] };
+  const previous = new Set(enrollment.previousMemberIds || []);
+
+  for (const member of pool.members) {
+    const response = enrollment.responses.find(r => r.memberId === member.id);
+    const isNew = !previous.has(member.id);
+
+    if (response && !response.optIn) {
+      participants.leaving.push(member);
+    } else if (isNew) {
+      participants.joining.push(member);
+    } else if (response) {
+      participants.continuing.push(member);
+    } else {
+      participants.undecided.push(member);
+    }
+  }
+
+  return participants;
+}
+
+/**
+ * Summarize the cycle that just ended
+ */
+export function buildCycleSummary(
+  pool: CyclePool,
+  continuingIds: number[],
+  now: Date = new Date()
+): CycleSummary {
+  const previousIds = pool.nextCycleEnrollment?.previousMemberIds;
+  const cycleMembers = previousIds
+    ? pool.members.filter(m => previousIds.includes(m.id))
+    : pool.members;
+
+  const members: ICycleMemberRecord[] = cycleMembers
+    .slice()
+    .sort((a, b) => a.position - b.position)
+    .map(m => ({
+      memberId: m.id,
+      name: m.name,
+      email: m.email,
+      position: m.position,
+      payoutReceived: hasReceivedPayout(m),
+      payoutDate: m.payoutDate,
+      paymentsOnTime: m.paymentsOnTime || 0,
+      paymentsMissed: m.paymentsMissed || 0,
+      totalContributed: m.totalContributed || 0,
+      continued: continuingIds.includes(m.id),
+    }));
+
+  const totalPaidOut = getCurrentCycleTransactions(pool.transactions)
+    .filter(t => t.type === TransactionType.PAYOUT && t.status === TransactionStatus.COMPLETED)
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  const startDate = pool.startDate ? new Date(pool.startDate) : undefined;
+
+  return {
+    poolId: pool.id,
+    cycle: pool.currentCycle || 0,
+    ...(startDate && !Number.isNaN(startDate.getTime()) && { startDate }),
+    completedAt: now,
+    contributionAmount: pool.contributionAmount,
+    frequency: pool.frequency,
+    totalRounds: pool.totalRounds || cycleMembers.length,
+    roundsCompleted: members.filter(m => m.payoutReceived).length,
+    totalPaidOut,
+    members,
+  };
+}
+
+/**
+ * Round 1 payout date for the next cycle: the admin's date, else one period
+ * after the last round (or one period from now if that has already passed)
+ */
+export function getNextCycleStartDate(pool: CyclePool, now: Date = new Date()): Date {
+  if (pool.nextCycleEnrollment?.startDate) {
+    return new Date(pool.nextCycleEnrollment.startDate);
+  }
+
+  const totalRounds = pool.totalRounds || pool.members.length;
+  const followOn = getRoundPayoutDate(pool, totalRounds + 1);
+  if (followOn.getTime() >= now.getTime()) {
+    return followOn;
+  }
+  return getRoundPayoutDate({ ...pool, startDate: now, scheduleRestarts: [] }, 2);
+}
+
+/**
+ * Move the pool into its next cycle
+ *
+ * @returns The finished cycle's summary and who is taking part in the new one
+ */
+export function applyNextCycle(
+  pool: CyclePool,
+  now: Date = new Date()
+): { summary: CycleSummary; participants: CycleParticipants; startDate: Date } {
+  const enrollment = pool.nextCycleEnrollment!;
+  const participants = getCycleParticipants(pool, enrollment);
+  const members = [
+    ...participants.continuing.slice().sort((a, b) => a.position - b.position),
+    ...participants.joining.slice().sort((a, b) => a.position - b.position),
+  ];
+
+  const summary = buildCycleSummary(pool, members.map(m => m.id), now);
+  const startDate = getNextCycleStartDate(pool, now);
+  const finishedCycle = pool.currentCycle || 0;
+
+  // Earlier cycles' transactions stay on the pool for history and the ledger
+  for (const transaction of pool.transactions || []) {
+    if (transaction.cycle === undefined || transaction.cycle === null) {
+      transaction.cycle = finishedCycle;
+    }
+  }
+
+  pool.currentCycle = finishedCycle + 1;
+  pool.startDate = startDate.toISOString();
+  pool.scheduleRestarts = [];
+  pool.currentRound = 1;
+  pool.totalRounds = members.length;
+  pool.memberCount = members.length;
+  pool.nextPayoutDate = startDate.toISOString();
+  pool.status = PoolStatus.ACTIVE;
+
+  members.forEach((member, index) => {
+    member.position = index + 1;
+    member.status = index === 0 ? PoolMemberStatus.CURRENT : PoolMemberStatus.ACTIVE;
+    member.payoutReceived = false;
+    member.hasReceivedPayout = false;
+    member.payoutDate = getRoundPayoutDate(pool, member.position).toISOString();
+  });
+  pool.members = members;
+
+  pool.currentRoundPayments = [];
+  pool.currentRoundPayoutStatus = 'pending_collection';
+  pool.currentRoundPayoutCompletedAt = null;
+  pool.currentRoundPayoutMethod = null;
+  pool.currentRoundPayoutNotes = null;
+  pool.currentRoundPayoutConfirmedBy = null;
+  pool.currentRoundReadyAt = null;
+  pool.currentRoundPayoutApprovedBy = null;
+  pool.currentRoundPayoutApprovedAt = null;
+
+  // Bids and swaps were for the finished cycle's rounds
+  pool.payoutBids = [];
+  for (const swap of pool.payoutSwapRequests || []) {
+    if (swap.status === PayoutSwapStatus.PENDING) {
+      swap.status = PayoutSwapStatus.CANCELLED;
+      swap.respondedAt = now.toISOString();
+    }
+  }
+
+  // A drawn order gets a fresh draw with a new published seed
+  if (pool.payoutOrderStrategy === PayoutOrderStrategy.RANDOM_DRAW) {
+    const seed = generateDrawSeed();
+    pool.payoutDraw = { seedHash: hashDrawSeed(seed), seed };
+  }
+
+  pool.nextCycleEnrollment = null;
+
+  return { summary, participants, startDate };
+}
+
+/**
+ * Save the finished cycle's summary
+ *
+ * Upserts on (poolId, cycle) so a retried start never duplicates it.
+ */
+export async function archiveCycle(summary: CycleSummary, closedBy?: unknown): Promise<ICycle | null> {
+  try {
+    return await getCycleModel().findOneAndUpdate(
+      { poolId: summary.poolId, cycle: summary.cycle },
+      { $set: { ...summary, closedBy } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+  } catch (error) {
+    console.error(`Error archiving cycle ${summary.cycle} for pool ${summary.poolId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Stamp the finished cycle on the pool's Payment records
+ */
+export async function stampPaymentCycle(poolId: string, cycle: number): Promise<void> {
+  await getPaymentModel().updateMany(
+    { poolId, cycle: { $exists: false } },
+    { $set: { cycle } }
+  );
+}
+
+/**
+ * Past cycle summaries, oldest first
+ */
+export async function getCycleHistory(poolId: string): Promise<ICycle[]> {
+  return getCycleModel().find({ poolId }).sort({ cycle: 1 });
+}
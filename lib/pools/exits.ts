@@ -0,0 +1,283 @@
+/**
+ * Members leaving mid-cycle
+ *
+ * When a member leaves a running pool, their standing comes from the pool
+ * ledger: contributions less payouts and late fees, plus adjustments.
+ * - A member who hasn't received the pot leaves an open position behind and
+ *   is owed what they paid in. The admin invites a replacement who takes over
+ *   the position (and its payout) and reimburses that amount as a catch-up
+ *   payment.
+ * - A member who already received the pot and paid in less than they got
+ *   leaves a debt. It stays on the pool until the admin marks it settled or
+ *   forgiven.
+ *
+ * Each exit is kept on the pool, so the member management page can show what
+ * is still owed after the member is gone.
+ */
+
+import crypto from 'crypto';
+import { getLedgerEntryModel } from '../db/models/ledgerEntry';
+import { computeLedgerBalances, roundCents } from '../ledger/entries';
+import type { MemberLedgerBalance } from '../ledger/types';
+import {
+  MemberDebtStatus,
+  MemberExit,
+  MemberExitStatus,
+  MemberNetPosition,
+  PoolMemberRole,
+  PoolMemberStatus,
+  PoolStatus,
+  RoundPaymentStatus,
+} from '../../types/pool';
+import { getRoundDueDate, getRoundPayoutDate, ScheduleSource } from '../schedule';
+
+// Amounts under a cent are rounding noise
+const MIN_AMOUNT = 0.01;
+
+// Pools whose rounds are still running; leaving any other pool is a plain removal
+const RUNNING_STATUSES: string[] = [PoolStatus.ACTIVE, PoolStatus.PAUSED, PoolStatus.PENDING];
+
+// Payments an admin has verified stay on the round
+const OPEN_PAYMENT_STATUSES: RoundPaymentStatus[] = ['pending', 'late', 'member_confirmed'];
+
+interface ExitMember {
+  id: number;
+  name: string;
+  email: string;
+  role?: string;
+  position: number;
+  status?: string;
+  payoutReceived?: boolean;
+  hasReceivedPayout?: boolean;
+}
+
+// The pool fields exits read and write (a Pool document)
+export interface ExitPool extends ScheduleSource {
+  id: string;
+  status: PoolStatus | string;
+  contributionAmount: number;
+  currentRound?: number;
+  memberCount?: number;
+  members: ExitMember[];
+  currentRoundPayments?: {
+    memberId: number;
+    status: RoundPaymentStatus;
+    [key: string]: unknown;
+  }[];
+  memberExits?: MemberExit[];
+}
+
+export interface ReplacementDetails {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+/**
+ * Whether leaving the pool goes through the exit process
+ */
+export function isExitTracked(pool: Pick<ExitPool, 'status'>): boolean {
+  return RUNNING_STATUSES.includes(pool.status);
+}
+
+/**
+ * Why the member can't leave, or null if they can
+ */
+export function getExitError(member: Pick<ExitMember, 'role'>): string | null {
+  if (member.role === PoolMemberRole.ADMIN || member.role === PoolMemberRole.CREATOR) {
+    return 'You cannot remove the pool administrator';
+  }
+  return null;
+}
+
+export function getNetPosition(balance?: MemberLedgerBalance): MemberNetPosition {
+  return {
+    contributed: balance?.contributed || 0,
+    received: balance?.received || 0,
+    fees: balance?.fees || 0,
+    adjustments: balance?.adjustments || 0,
+    net: balance?.balance || 0,
+  };
+}
+
+/**
+ * A member's ledger balance (undefined when nothing was recorded for them)
+ */
+export async function getMemberLedgerBalance(poolId: string, memberId: number): Promise<MemberLedgerBalance | undefined> {
+  const entries = await getLedgerEntryModel().find({ poolId });
+  return computeLedgerBalances(entries).members.find(m => m.memberId === memberId);
+}
+
+/**
+ * Work out what a departing member owes or is owed
+ */
+export function buildMemberExit(
+  member: ExitMember,
+  balance: MemberLedgerBalance | undefined,
+  options: { recordedBy: string; reason?: string; now?: Date }
+): MemberExit {
+  const now = options.now || new Date();
+  const netPosition = getNetPosition(balance);
+  const payoutReceived = !!(member.payoutReceived || member.hasReceivedPayout);
+  const owes = netPosition.net <= -MIN_AMOUNT;
+
+  return {
+    id: `exit_${now.getTime()}_${crypto.randomBytes(4).toString('hex')}`,
+    memberId: member.id,
+    memberName: member.name,
+    memberEmail: member.email,
+    position: member.position,
+    payoutReceived,
+    ...(options.reason && { reason: options.reason }),
+    exitedAt: now.toISOString(),
+    recordedBy: options.recordedBy,
+    status: payoutReceived ? MemberExitStatus.CLOSED : MemberExitStatus.AWAITING_REPLACEMENT,
+    netPosition,
+    refundOwed: netPosition.net >= MIN_AMOUNT ? roundCents(netPosition.net) : 0,
+    ...(owes && {
+      debt: {
+        amount: roundCents(-netPosition.net),
+        status: MemberDebtStatus.OUTSTANDING,
+        recordedAt: now.toISOString(),
+      },
+    }),
+  };
+}
+
+/**
+ * Remove the member and keep the exit record
+ */
+export function applyMemberExit(pool: ExitPool, exit: MemberExit): void {
+  pool.members = pool.members.filter(m => m.id !== exit.memberId);
+  pool.memberCount = pool.members.length;
+
+  // Nobody will collect an unverified payment from a member who has left
+  if (pool.currentRoundPayments) {
+    pool.currentRoundPayments = pool.currentRoundPayments.filter(
+      p => p.memberId !== exit.memberId || !OPEN_PAYMENT_STATUSES.includes(p.status)
+    );
+  }
+
+  pool.memberExits = [...(pool.memberExits || []), exit];
+}
+
+/**
+ * Add the replacement member in the departed member's position
+ *
+ * The replacement is a placeholder until they accept the invitation (matched
+ * by email). If the current round's payments are already being collected, a
+ * pending payment is added for them.
+ */
+export function applyReplacement(
+  pool: ExitPool,
+  exit: MemberExit,
+  details: ReplacementDetails,
+  now: Date = new Date()
+) {
+  const currentRound = pool.currentRound || 1;
+  // Departed members keep their ids in the ledger, so ids are never reused
+  const memberId = Math.max(
+    ...pool.members.map(m => m.id),
+    ...(pool.memberExits || []).map(e => e.memberId),
+    0
+  ) + 1;
+
+  const member = {
+    id: memberId,
+    name: details.name,
+    email: details.email.toLowerCase(),
+    phone: details.phone || null,
+    joinDate: now.toISOString(),
+    role: PoolMemberRole.MEMBER,
+    position: exit.position,
+    status: exit.position === currentRound ? PoolMemberStatus.CURRENT : PoolMemberStatus.UPCOMING,
+    paymentsOnTime: 0,
+    paymentsMissed: 0,
+    totalContributed: 0,
+    payoutReceived: false,
+    payoutDate: getRoundPayoutDate(pool, exit.position).toISOString(),
+    replacesMemberId: exit.memberId,
+  };
+
+  pool.members = [...pool.members, member];
+  pool.memberCount = pool.members.length;
+
+  if (pool.currentRoundPayments && pool.currentRoundPayments.length > 0) {
+    pool.currentRoundPayments = [
+      ...pool.currentRoundPayments,
+      {
+        memberId,
+        memberName: member.name,
+        memberEmail: member.email,
+        amount: pool.contributionAmount,
+        status: 'pending',
+        reminderCount: 0,
+        dueDate: getRoundDueDate(pool, currentRound),
+        createdAt: now,
+        updatedAt: now,
+      },
+    ];
+  }
+
+  exit.status = MemberExitStatus.REPLACED;
+  exit.replacement = {
+    memberId,
+    name: member.name,
+    email: member.email,
+    invitedAt: now.toISOString(),
+    catchUpAmount: exit.refundOwed,
+  };
+
+  return member;
+}
+
+/**
+ * Why the exit can't take a replacement, or null if it can
+ */
+export function getReplacementError(
+  pool: Pick<ExitPool, 'members'>,
+  exit: MemberExit,
+  details: ReplacementDetails
+): string | null {
+  if (exit.status !== MemberExitStatus.AWAITING_REPLACEMENT) {
+    return exit.status === MemberExitStatus.REPLACED
+      ? 'This position already has a replacement'
+      : 'This member was already paid out, so there is no position to take over';
+  }
+  if (pool.members.some(m => m.position === exit.position)) {
+    return `Position ${exit.position} has been given to another member`;
+  }
+  if (pool.members.some(m => m.email?.toLowerCase() === details.email.toLowerCase())) {
+    return 'A member with this email already exists in the pool';
+  }
+  return null;
+}
+
+/**
+ * Mark a departed member's debt settled (paid) or forgiven
+ */
+export function resolveDebt(
+  exit: MemberExit,
+  status: MemberDebtStatus.SETTLED | MemberDebtStatus.FORGIVEN,
+  resolvedBy: string,
+  notes?: string,
+  now: Date = new Date()
+): void {
+  if (!exit.debt) return;
+  exit.debt.status = status;
+  exit.debt.resolvedAt = now.toISOString();
+  exit.debt.resolvedBy = resolvedBy;
+  if (notes) exit.debt.notes = notes;
+}
+
+/**
+ * Whether anything is still owed or open on the exit
+ */
+export function hasOpenItems(exit: MemberExit): boolean {
+  return (
+    exit.status === MemberExitStatus.AWAITING_REPLACEMENT ||
+    (exit.refundOwed > 0 && !exit.refundPaidAt) ||
+    (!!exit.replacement && exit.replacement.catchUpAmount > 0 && !exit.replacement.catchUpReceivedAt) ||
+    exit.debt?.status === MemberDebtStatus.OUTSTANDING
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Pool Lifecycle Module
+ *
+ * Components:
+ * - lifecycle.ts: Pause, resume, and cancel transitions, member votes, and status history
+ * - settlement.ts: Refunds and collections owed when a pool is cancelled, from the pool ledger
+ * - cycles.ts: Next-cycle enrollment, rollover, and summaries of finished cycles
+ * - exits.ts: Members leaving mid-cycle, their replacements, refunds, and debts
+ * - tiers.ts: Contribution limits per tier and the identity, co-signer, and escrow safeguards
+ * - roles.ts: Member roles (admin, treasurer, moderator, viewer, ...) and their permissions
+ * - permissions.ts: requirePoolPermission for API routes, and role-change history
+ *
+ * Entry points:
+ * - /api/pools/[id]/lifecycle: status history, open proposal, and settlement; pause or propose resume/cancel
+ * - /api/pools/[id]/lifecycle/proposals/[proposalId]: vote on or withdraw a proposal
+ * - /api/pools/[id]/cycles: enrollment status and past cycles; open enrollment or start the next cycle
+ * - /api/pools/[id]/cycles/enrollment: opt in or out of the next cycle
+ * - /api/pools/[id]/members (DELETE): removing a member from a running pool records their exit
+ * - /api/pools/[id]/exits: exits with what is owed; replace, record refunds, catch-ups, and debts
+ * - POST /api/pools: the tier is chosen at creation and bounds the contribution
+ * - /api/pools/[id]/round-payout (and /approve): payouts wait for escrow and a co-signer
+ * - Every /api/pools/[id] route: checks the member's permission with requirePoolPermission
+ * - /api/pools/[id]/roles: roles, their permissions, and role-change history; change a member's role
+ */
+
+export {
+  LIFECYCLE_ACTIONS,
+  getLifecycleError,
+  getVotingMemberIds,
+  getRequiredVotes,
+  tallyVotes,
+  getOpenProposal,
+  createProposal,
+  castVote,
+  applyPause,
+  applyResume,
+  applyCancel,
+  applyApprovedProposal,
+  notifyPoolMembers,
+  logLifecycleChange,
+} from './lifecycle';
+
+export type {
+  LifecycleAction,
+  LifecyclePool,
+  VoteTally,
+} from './lifecycle';
+
+export {
+  buildSettlementPlan,
+  getSettlementPlan,
+} from './settlement';
+
+export {
+  MIN_CYCLE_MEMBERS,
+  getCurrentCycleTransactions,
+  getNextCycleError,
+  parseCycleStartDate,
+  openCycleEnrollment,
+  respondToEnrollment,
+  getCycleParticipants,
+  buildCycleSummary,
+  getNextCycleStartDate,
+  applyNextCycle,
+  archiveCycle,
+  stampPaymentCycle,
+  getCycleHistory,
+} from './cycles';
+
+export type {
+  CyclePool,
+  CycleParticipants,
+  CycleSummary,
+} from './cycles';
+
+export {
+  isExitTracked,
+  getExitError,
+  getNetPosition,
+  getMemberLedgerBalance,
+  buildMemberExit,
+  applyMemberExit,
+  applyReplacement,
+  getReplacementError,
+  resolveDebt,
+  hasOpenItems,
+} from './exits';
+
+export type {
+  ExitPool,
+  ReplacementDetails,
+} from './exits';
+
+export {
+  getPoolTiers,
+  resolvePoolTier,
+  getPoolTierInfo,
+  isPoolTierAvailable,
+  getTierSafeguards,
+  getContributionLimits,
+  getContributionPresets,
+  getTierForAmount,
+  describeContributionRange,
+  validateContributionAmount,
+  getIdentityVerificationError,
+  getEscrowReleaseDate,
+  getPayoutApprovalError,
+  getPayoutReadinessReset,
+  getPayoutSafeguardError,
+} from './tiers';
+
+export type {
+  SafeguardedPool,
+} from './tiers';
+
+export {
+  POOL_ROLES,
+  ASSIGNABLE_ROLES,
+  isPoolMemberRole,
+  getPoolRoleInfo,
+  describePoolRole,
+  hasPoolPermission,
+  isPoolAdmin,
+  getPermissionError,
+  findPoolMember,
+  getRoleChangeError,
+} from './roles';
+
+export {
+  requirePoolPermission,
+  logRoleChange,
+  getRoleHistory,
+} from './permissions';
+
+export type {
+  PoolAccessResult,
+  RoleChange,
+  RoleChangeRecord,
+} from './permissions';
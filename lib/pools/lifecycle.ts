@@ -0,0 +1,353 @@
+/**
+ * Pool lifecycle: pause, resume, and cancel
+ *
+ * - pause: an admin can pause an active pool right away. Reminders, the
+ *   late-payments job, and round auto-advance only look at active pools, so
+ *   nothing comes due while the pool is paused.
+ * - resume: needs a majority of members. The remaining schedule restarts from
+ *   the current round's payout date moved forward by the length of the pause.
+ * - cancel: needs two-thirds of members. The pool stops for good and a
+ *   settlement plan records who is owed a refund and who owes the pool.
+ *
+ * Resume and cancel start as a proposal from an admin; members vote, and the
+ * change is applied as soon as enough approve. One proposal can be open at a
+ * time. Every transition is kept in the pool's status history.
+ */
+
+import crypto from 'crypto';
+import { getAuditLogModel } from '../db/models/auditLog';
+import { AuditLogType } from '../../types/audit';
+import {
+  LifecycleProposal,
+  LifecycleProposalAction,
+  LifecycleProposalStatus,
+  PoolMemberStatus,
+  PoolPermission,
+  PoolStatus,
+  PoolStatusChange,
+  RoundPaymentStatus,
+  ScheduleRestart,
+  SettlementPlan,
+} from '../../types/pool';
+import { getRoundDueDate, getRoundPayoutDate, shiftRoundPayoutDate, ScheduleSource } from '../schedule';
+import { createNotification } from '../services/notifications';
+import { getSettlementPlan } from './settlement';
+import { hasPoolPermission } from './roles';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Members who no longer take part don't vote
+const NON_VOTING_STATUSES: string[] = [PoolMemberStatus.INACTIVE, PoolMemberStatus.SUSPENDED];
+
+// Due dates only move for payments nobody has claimed yet
+const UNPAID_STATUSES: RoundPaymentStatus[] = ['pending', 'late'];
+
+export type LifecycleAction = 'pause' | LifecycleProposalAction;
+
+export const LIFECYCLE_ACTIONS: LifecycleAction[] = [
+  'pause',
+  LifecycleProposalAction.RESUME,
+  LifecycleProposalAction.CANCEL,
+];
+
+// Statuses each action can be taken from
+const ALLOWED_FROM: Record<LifecycleAction, PoolStatus[]> = {
+  pause: [PoolStatus.ACTIVE],
+  [LifecycleProposalAction.RESUME]: [PoolStatus.PAUSED],
+  [LifecycleProposalAction.CANCEL]: [PoolStatus.ACTIVE, PoolStatus.PAUSED, PoolStatus.PENDING],
+};
+
+// The pool fields lifecycle changes read and write (a Pool document)
+export interface LifecyclePool extends ScheduleSource {
+  id: string;
+  status: PoolStatus | string;
+  currentRound?: number;
+  nextPayoutDate?: string;
+  pausedAt?: Date | string | null;
+  cancelledAt?: Date | string | null;
+  scheduleRestarts?: ScheduleRestart[];
+  lifecycleProposals?: LifecycleProposal[];
+  statusHistory?: PoolStatusChange[];
+  settlementPlan?: SettlementPlan;
+  name?: string;
+  members: {
+    id: number;
+    name: string;
+    userId?: { toString(): string } | null;
+    role?: string;
+    status?: string;
+    position?: number;
+    payoutReceived?: boolean;
+    payoutDate?: string;
+  }[];
+  currentRoundPayments?: {
+    status: RoundPaymentStatus;
+    dueDate?: Date | string | null;
+  }[];
+}
+
+export interface VoteTally {
+  approvals: number;
+  rejections: number;
+  eligible: number;
+  required: number;
+  outcome: 'approved' | 'rejected' | 'pending';
+}
+
+/**
+ * Why an action can't be taken right now, or null if it can
+ */
+export function getLifecycleError(pool: Pick<LifecyclePool, 'status'>, action: LifecycleAction): string | null {
+  if (ALLOWED_FROM[action].includes(pool.status as PoolStatus)) {
+    return null;
+  }
+  const verb = action === 'pause' ? 'paused' : action === LifecycleProposalAction.RESUME ? 'resumed' : 'cancelled';
+  return `A ${pool.status} pool can't be ${verb}`;
+}
+
+/**
+ * Ids of the members who can vote on proposals
+ */
+export function getVotingMemberIds(pool: Pick<LifecyclePool, 'members'>): number[] {
+  return pool.members
+    .filter(m => !NON_VOTING_STATUSES.includes(m.status || '') && hasPoolPermission(m, PoolPermission.PARTICIPATE))
+    .map(m => m.id);
+}
+
+/**
+ * Approvals needed: a majority to resume, two-thirds to cancel
+ */
+export function getRequiredVotes(action: LifecycleProposalAction, eligible: number): number {
+  if (action === LifecycleProposalAction.CANCEL) {
+    return Math.max(1, Math.ceil((eligible * 2) / 3));
+  }
+  return Math.floor(eligible / 2) + 1;
+}
+
+/**
+ * Count a proposal's votes. It's rejected once the remaining voters can no
+ * longer reach the threshold.
+ */
+export function tallyVotes(proposal: Pick<LifecycleProposal, 'action' | 'votes'>, voterIds: number[]): VoteTally {
+  const votes = proposal.votes.filter(v => voterIds.includes(v.memberId));
+  const approvals = votes.filter(v => v.approve).length;
+  const rejections = votes.length - approvals;
+  const eligible = voterIds.length;
+  const required = getRequiredVotes(proposal.action, eligible);
+
+  let outcome: VoteTally['outcome'] = 'pending';
+  if (approvals >= required) {
+    outcome = 'approved';
+  } else if (eligible - rejections < required) {
+    outcome = 'rejected';
+  }
+
+  return { approvals, rejections, eligible, required, outcome };
+}
+
+/**
+ * The proposal members are currently voting on, if any
+ */
+export function getOpenProposal(pool: Pick<LifecyclePool, 'lifecycleProposals'>): LifecycleProposal | undefined {
+  return (pool.lifecycleProposals || []).find(p => p.status === LifecycleProposalStatus.PENDING);
+}
+
+export function createProposal(
+  action: LifecycleProposalAction,
+  proposer: { id: number; name: string },
+  reason: string | undefined,
+  now: Date = new Date()
+): LifecycleProposal {
+  const createdAt = now.toISOString();
+  return {
+    id: `lcp_${now.getTime()}_${crypto.randomBytes(4).toString('hex')}`,
+    action,
+    proposedBy: proposer.id,
+    proposedByName: proposer.name,
+    ...(reason && { reason }),
+    status: LifecycleProposalStatus.PENDING,
+    // Proposing counts as a vote in favor
+    votes: [{ memberId: proposer.id, memberName: proposer.name, approve: true, votedAt: createdAt }],
+    createdAt,
+  };
+}
+
+/**
+ * Record or change a member's vote
+ */
+export function castVote(
+  proposal: LifecycleProposal,
+  voter: { id: number; name: string },
+  approve: boolean,
+  now: Date = new Date()
+): void {
+  const vote = { memberId: voter.id, memberName: voter.name, approve, votedAt: now.toISOString() };
+  const index = proposal.votes.findIndex(v => v.memberId === voter.id);
+  if (index === -1) {
+    proposal.votes.push(vote);
+  } else {
+    proposal.votes[index] = vote;
+  }
+}
+
+function recordStatusChange(
+  pool: LifecyclePool,
+  to: PoolStatus,
+  changedBy: string,
+  options: { reason?: string; proposalId?: string; now: Date }
+): PoolStatusChange {
+  const change: PoolStatusChange = {
+    from: pool.status as PoolStatus,
+    to,
+    changedBy,
+    ...(options.reason && { reason: options.reason }),
+    ...(options.proposalId && { proposalId: options.proposalId }),
+    date: options.now.toISOString(),
+  };
+
+  pool.status = to;
+  pool.statusHistory = [...(pool.statusHistory || []), change];
+  return change;
+}
+
+/**
+ * Pause the pool
+ */
+export function applyPause(
+  pool: LifecyclePool,
+  changedBy: string,
+  reason?: string,
+  now: Date = new Date()
+): PoolStatusChange {
+  pool.pausedAt = now;
+  return recordStatusChange(pool, PoolStatus.PAUSED, changedBy, { reason, now });
+}
+
+/**
+ * Resume the pool, moving the remaining schedule later by the time it was paused
+ *
+ * @returns The number of days the schedule moved
+ */
+export function applyResume(
+  pool: LifecyclePool,
+  changedBy: string,
+  proposalId?: string,
+  now: Date = new Date()
+): { change: PoolStatusChange; shiftedDays: number } {
+  const currentRound = pool.currentRound || 1;
+  const pausedAt = pool.pausedAt ? new Date(pool.pausedAt) : now;
+  const shiftedDays = Math.max(0, Math.ceil((now.getTime() - pausedAt.getTime()) / DAY_MS));
+
+  if (shiftedDays > 0) {
+    const restart = {
+      round: currentRound,
+      startDate: shiftRoundPayoutDate(pool, currentRound, shiftedDays).toISOString(),
+    };
+    pool.scheduleRestarts = [
+      ...(pool.scheduleRestarts || []).filter(r => r.round < currentRound),
+      restart,
+    ];
+
+    pool.nextPayoutDate = getRoundPayoutDate(pool, currentRound).toISOString();
+    for (const member of pool.members) {
+      if (!member.payoutReceived && member.position && member.position >= currentRound) {
+        member.payoutDate = getRoundPayoutDate(pool, member.position).toISOString();
+      }
+    }
+
+    const dueDate = getRoundDueDate(pool, currentRound);
+    for (const payment of pool.currentRoundPayments || []) {
+      if (UNPAID_STATUSES.includes(payment.status)) {
+        payment.dueDate = dueDate;
+      }
+    }
+  }
+
+  pool.pausedAt = null;
+  const change = recordStatusChange(pool, PoolStatus.ACTIVE, changedBy, { proposalId, now });
+  return { change, shiftedDays };
+}
+
+/**
+ * Cancel the pool and keep its settlement plan
+ */
+export function applyCancel(
+  pool: LifecyclePool,
+  changedBy: string,
+  settlementPlan: SettlementPlan,
+  proposalId?: string,
+  now: Date = new Date()
+): PoolStatusChange {
+  pool.cancelledAt = now;
+  pool.pausedAt = null;
+  pool.settlementPlan = settlementPlan;
+  return recordStatusChange(pool, PoolStatus.CANCELLED, changedBy, { proposalId, now });
+}
+
+/**
+ * Apply a proposal that reached its threshold
+ */
+export async function applyApprovedProposal(
+  pool: LifecyclePool,
+  proposal: LifecycleProposal,
+  changedBy: string,
+  now: Date = new Date()
+): Promise<PoolStatusChange> {
+  proposal.status = LifecycleProposalStatus.APPROVED;
+  proposal.resolvedAt = now.toISOString();
+
+  if (proposal.action === LifecycleProposalAction.RESUME) {
+    return applyResume(pool, changedBy, proposal.id, now).change;
+  }
+
+  const plan = await getSettlementPlan(pool, now);
+  return applyCancel(pool, changedBy, plan, proposal.id, now);
+}
+
+/**
+ * Let every member (but the one acting) know about a lifecycle change
+ */
+export async function notifyPoolMembers(
+  pool: Pick<LifecyclePool, 'members'>,
+  message: string,
+  exceptMemberId?: number
+): Promise<void> {
+  for (const member of pool.members) {
+    if (!member.userId || member.id === exceptMemberId) continue;
+    try {
+      await createNotification({ userId: member.userId.toString(), message, type: 'pool', isImportant: true });
+    } catch (error) {
+      console.error(`Failed to notify member ${member.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Audit-log a lifecycle action
+ */
+export async function logLifecycleChange(
+  pool: { id: string; name?: string },
+  actor: { id: string; email?: string },
+  action: string,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await getAuditLogModel().create({
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      userId: actor.id,
+      userEmail: actor.email,
+      type: AuditLogType.POOL_STATUS_CHANGE,
+      action,
+      metadata: {
+        poolId: pool.id,
+        poolName: pool.name,
+        ...metadata,
+      },
+      poolId: pool.id,
+      success: true,
+    });
+  } catch (error) {
+    console.error(`Error logging lifecycle change for pool ${pool.id}:`, error);
+  }
+}
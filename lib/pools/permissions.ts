@@ -0,0 +1,131 @@
+/**
+ * Pool permission checks for API routes, and the role-change history
+ *
+ * Every /api/pools/[id] route loads the pool through requirePoolPermission,
+ * which checks that the signed-in user is a member whose role grants the
+ * permission (see roles.ts). Role changes are kept in the audit log.
+ */
+
+import connectToDatabase from '../db/connect';
+import { getPoolModel } from '../db/models/pool';
+import { getAuditLogModel } from '../db/models/auditLog';
+import type { UserDocument } from '../db/models/user';
+import { getCurrentUser } from '../auth';
+import { isValidObjectId } from '../utils/objectId';
+import { AuditLogType } from '../../types/audit';
+import { PoolMember, PoolMemberRole, PoolPermission } from '../../types/pool';
+import { findPoolMember, getPermissionError, hasPoolPermission } from './roles';
+
+/**
+ * Result type for requirePoolPermission, shaped like getCurrentUser's
+ */
+export type PoolAccessResult =
+  | { user: UserDocument; pool: any; member: PoolMember; error: null }
+  | { user: null; pool: null; member: null; error: { message: string; status: number } };
+
+export interface RoleChange {
+  memberId: number;
+  memberName: string;
+  from: PoolMemberRole | string;
+  to: PoolMemberRole;
+}
+
+export interface RoleChangeRecord extends RoleChange {
+  changedAt: string;
+  changedBy: string;
+}
+
+/**
+ * Load the pool for the signed-in user if their role grants the permission
+ *
+ * The pool is looked up by its id, or its Mongo _id for older links.
+ * options.select adds fields the schema hides, e.g. '+payoutDraw.seed'.
+ *
+ * @returns The user, pool document, and their membership, or an error with message and status
+ */
+export async function requirePoolPermission(
+  poolId: string,
+  permission: PoolPermission,
+  options: { select?: string } = {}
+): Promise<PoolAccessResult> {
+  const userResult = await getCurrentUser();
+  if (userResult.error) {
+    return { user: null, pool: null, member: null, error: userResult.error };
+  }
+  const user = userResult.user;
+
+  await connectToDatabase();
+
+  const query = getPoolModel().findOne(
+    isValidObjectId(poolId) ? { $or: [{ id: poolId }, { _id: poolId }] } : { id: poolId }
+  );
+  const pool = await (options.select ? query.select(options.select) : query);
+
+  if (!pool) {
+    return { user: null, pool: null, member: null, error: { message: 'Pool not found', status: 404 } };
+  }
+
+  const member = findPoolMember<PoolMember>(pool.members, user);
+  if (!member) {
+    return { user: null, pool: null, member: null, error: { message: 'Not a member of this pool', status: 403 } };
+  }
+
+  if (!hasPoolPermission(member, permission)) {
+    return { user: null, pool: null, member: null, error: { message: getPermissionError(permission), status: 403 } };
+  }
+
+  return { user, pool, member, error: null };
+}
+
+/**
+ * Record a member's role change in the audit log
+ */
+export async function logRoleChange(
+  pool: { id: string; name?: string },
+  actor: { id: string; email?: string },
+  change: RoleChange
+): Promise<void> {
+  try {
+    await getAuditLogModel().create({
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      userId: actor.id,
+      userEmail: actor.email,
+      type: AuditLogType.POOL_ROLE_CHANGE,
+      action: 'pool_role_changed',
+      metadata: {
+        poolId: pool.id,
+        poolName: pool.name,
+        ...change,
+      },
+      poolId: pool.id,
+      success: true,
+    });
+  } catch (error) {
+    console.error(`Error logging role change for pool ${pool.id}:`, error);
+  }
+}
+
+/**
+ * The pool's role changes, newest first
+ */
+export async function getRoleHistory(poolId: string, limit = 100): Promise<RoleChangeRecord[]> {
+  const logs = await getAuditLogModel()
+    .find({ poolId, type: AuditLogType.POOL_ROLE_CHANGE })
+    .sort({ timestamp: -1 })
+    .limit(limit)
+    .lean();
+
+  return logs.map((log: any) => {
+    // Lean documents keep the metadata Map as a plain object
+    const metadata = log.metadata instanceof Map ? Object.fromEntries(log.metadata) : log.metadata || {};
+    return {
+      memberId: metadata.memberId,
+      memberName: metadata.memberName,
+      from: metadata.from,
+      to: metadata.to,
+      changedAt: log.timestamp,
+      changedBy: log.userEmail || log.userId,
+    };
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Pool roles and the permissions each one grants
+ *
+ * - creator / admin: everything, including changing other members' roles
+ * - treasurer: verifies payments and sends payouts, so the pool keeps
+ *   running when the admin is away
+ * - moderator: pins and removes discussion posts, and posts announcements
+ * - member: takes part (posts, votes, bids, swap requests)
+ * - viewer: read-only; can still record their own payments
+ *
+ * Routes check permissions with requirePoolPermission (permissions.ts).
+ * This module has no database access so the browser can use it too.
+ */
+
+import { PoolMemberRole, PoolPermission, PoolRoleInfo } from '../../types/pool';
+
+const ALL_PERMISSIONS = Object.values(PoolPermission);
+
+export const POOL_ROLES: PoolRoleInfo[] = [
+  {
+    role: PoolMemberRole.CREATOR,
+    label: 'Creator',
+    description: 'Created the pool. Can do everything, and their role can\'t be changed.',
+    permissions: ALL_PERMISSIONS,
+  },
+  {
+    role: PoolMemberRole.ADMIN,
+    label: 'Admin',
+    description: 'Runs the pool: settings, members, roles, payments, and payouts.',
+    permissions: ALL_PERMISSIONS,
+  },
+  {
+    role: PoolMemberRole.TREASURER,
+    label: 'Treasurer',
+    description: 'Verifies payments, sends reminders, and confirms payouts.',
+    permissions: [
+      PoolPermission.VIEW,
+      PoolPermission.PARTICIPATE,
+      PoolPermission.VERIFY_PAYMENTS,
+      PoolPermission.MANAGE_PAYOUTS,
+    ],
+  },
+  {
+    role: PoolMemberRole.MODERATOR,
+    label: 'Moderator',
+    description: 'Keeps discussions on track: posts announcements, pins and removes posts.',
+    permissions: [
+      PoolPermission.VIEW,
+      PoolPermission.PARTICIPATE,
+      PoolPermission.MODERATE_DISCUSSIONS,
+    ],
+  },
+  {
+    role: PoolMemberRole.MEMBER,
+    label: 'Member',
+    description: 'Contributes, posts in discussions, and votes on proposals.',
+    permissions: [PoolPermission.VIEW, PoolPermission.PARTICIPATE],
+  },
+  {
+    role: PoolMemberRole.VIEWER,
+    label: 'Viewer',
+    description: 'Can see the pool and record their own payments, but can\'t post or vote.',
+    permissions: [PoolPermission.VIEW],
+  },
+];
+
+// Roles an admin can give; there's only ever one creator
+export const ASSIGNABLE_ROLES = POOL_ROLES
+  .filter(info => info.role !== PoolMemberRole.CREATOR)
+  .map(info => info.role);
+
+const PERMISSION_DESCRIPTIONS: Record<PoolPermission, string> = {
+  [PoolPermission.VIEW]: 'view this pool',
+  [PoolPermission.PARTICIPATE]: 'post or vote in this pool',
+  [PoolPermission.MANAGE_POOL]: 'change this pool\'s settings',
+  [PoolPermission.MANAGE_MEMBERS]: 'manage this pool\'s members',
+  [PoolPermission.MANAGE_ROLES]: 'change roles in this pool',
+  [PoolPermission.VERIFY_PAYMENTS]: 'manage payments in this pool',
+  [PoolPermission.MANAGE_PAYOUTS]: 'manage payouts in this pool',
+  [PoolPermission.MODERATE_DISCUSSIONS]: 'moderate this pool\'s discussions',
+};
+
+export function isPoolMemberRole(value: unknown): value is PoolMemberRole {
+  return typeof value === 'string' && (Object.values(PoolMemberRole) as string[]).includes(value);
+}
+
+/**
+ * A role's details; unknown roles are treated as plain members
+ */
+export function getPoolRoleInfo(role: string | null | undefined): PoolRoleInfo {
+  const resolved = isPoolMemberRole(role) ? role : PoolMemberRole.MEMBER;
+  return POOL_ROLES.find(info => info.role === resolved)!;
+}
+
+/**
+ * The role with its article, e.g. "an admin" or "a treasurer"
+ */
+export function describePoolRole(role: string | null | undefined): string {
+  const label = getPoolRoleInfo(role).label.toLowerCase();
+  return `${/^[aeiou]/.test(label) ? 'an' : 'a'} ${label}`;
+}
+
+export function hasPoolPermission(
+  member: { role?: string | null } | null | undefined,
+  permission: PoolPermission
+): boolean {
+  return !!member && getPoolRoleInfo(member.role).permissions.includes(permission);
+}
+
+/**
+ * Whether the member runs the pool (creator or admin), e.g. as the one
+ * members pay and who can't simply leave
+ */
+export function isPoolAdmin(member: { role?: string | null } | null | undefined): boolean {
+  return member?.role === PoolMemberRole.ADMIN || member?.role === PoolMemberRole.CREATOR;
+}
+
+/**
+ * Error message for a member without the permission
+ */
+export function getPermissionError(permission: PoolPermission): string {
+  return `You don't have permission to ${PERMISSION_DESCRIPTIONS[permission]}`;
+}
+
+/**
+ * The user's membership in the pool, by user id with an email fallback
+ */
+export function findPoolMember<T extends { userId?: { toString(): string } | string | null; email?: string | null }>(
+  members: T[],
+  user: { _id: { toString(): string }; email?: string | null }
+): T | undefined {
+  const userId = user._id.toString();
+  const email = user.email?.toLowerCase();
+  return members.find(
+    m => m.userId?.toString() === userId || (!!email && m.email?.toLowerCase() === email)
+  );
+}
+
+/**
+ * Why the actor can't give the target this role, or null if they can
+ *
+ * Admins can't change their own role, so a pool always keeps the admin
+ * who made the change.
+ */
+export function getRoleChangeError(
+  actor: { id: number; role?: string | null },
+  target: { id: number; role?: string | null },
+  role: unknown
+): string | null {
+  if (!hasPoolPermission(actor, PoolPermission.MANAGE_ROLES)) {
+    return getPermissionError(PoolPermission.MANAGE_ROLES);
+  }
+  if (!isPoolMemberRole(role) || !ASSIGNABLE_ROLES.includes(role)) {
+    return `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`;
+  }
+  if (target.role === PoolMemberRole.CREATOR) {
+    return 'The pool creator\'s role can\'t be changed';
+  }
+  if (target.id === actor.id) {
+    return 'You can\'t change your own role';
+  }
+  if (target.role === role) {
+    return `This member is already ${describePoolRole(role)}`;
+  }
+  return null;
+}
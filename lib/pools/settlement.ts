@@ -0,0 +1,106 @@
+/**
+ * Cancellation settlement
+ *
+ * When a pool is cancelled mid-cycle, some members have paid in more than
+ * they received and others (earlier recipients) have received more than they
+ * paid. Each member's net position comes from the pool ledger:
+ * contributions less payouts and late fees, plus adjustments.
+ *
+ * Refunds are paid from the funds the admin is still holding for the pool
+ * first, then by members who owe the pool, largest amounts first. Whatever
+ * neither covers is reported as a shortfall for the members to sort out.
+ */
+
+import { getLedgerEntryModel } from '../db/models/ledgerEntry';
+import { computeLedgerBalances, roundCents } from '../ledger/entries';
+import type { LedgerBalances } from '../ledger/types';
+import type { SettlementMember, SettlementPlan, SettlementTransfer } from '../../types/pool';
+
+// Amounts under a cent are rounding noise
+const MIN_AMOUNT = 0.01;
+
+/**
+ * Work out refunds and collections from ledger balances
+ */
+export function buildSettlementPlan(
+  poolMembers: { id: number; name: string }[],
+  balances: LedgerBalances,
+  now: Date = new Date()
+): SettlementPlan {
+  const byId = new Map(balances.members.map(balance => [balance.memberId, balance]));
+
+  const members: SettlementMember[] = poolMembers.map(member => {
+    const balance = byId.get(member.id);
+    return {
+      memberId: member.id,
+      name: member.name,
+      contributed: balance?.contributed || 0,
+      received: balance?.received || 0,
+      fees: balance?.fees || 0,
+      adjustments: balance?.adjustments || 0,
+      net: balance?.balance || 0,
+    };
+  });
+
+  const creditors = members
+    .filter(m => m.net >= MIN_AMOUNT)
+    .map(m => ({ id: m.memberId, name: m.name, remaining: m.net }))
+    .sort((a, b) => b.remaining - a.remaining);
+
+  const poolCash = Math.max(0, balances.poolCash);
+  const sources = [
+    { id: null as number | null, name: 'Pool funds', remaining: poolCash },
+    ...members
+      .filter(m => m.net <= -MIN_AMOUNT)
+      .map(m => ({ id: m.memberId as number | null, name: m.name, remaining: -m.net }))
+      .sort((a, b) => b.remaining - a.remaining),
+  ];
+
+  const transfers: SettlementTransfer[] = [];
+  let sourceIndex = 0;
+
+  for (const creditor of creditors) {
+    while (creditor.remaining >= MIN_AMOUNT && sourceIndex < sources.length) {
+      const source = sources[sourceIndex];
+      const amount = roundCents(Math.min(creditor.remaining, source.remaining));
+
+      if (amount >= MIN_AMOUNT) {
+        transfers.push({
+          fromMemberId: source.id,
+          fromName: source.name,
+          toMemberId: creditor.id,
+          toName: creditor.name,
+          amount,
+        });
+      }
+
+      creditor.remaining = roundCents(creditor.remaining - amount);
+      source.remaining = roundCents(source.remaining - amount);
+      if (source.remaining < MIN_AMOUNT) sourceIndex++;
+    }
+  }
+
+  const refundsOwed = roundCents(members.reduce((sum, m) => sum + Math.max(0, m.net), 0));
+  const collectionsOwed = roundCents(members.reduce((sum, m) => sum + Math.max(0, -m.net), 0));
+
+  return {
+    generatedAt: now.toISOString(),
+    poolCash: roundCents(poolCash),
+    refundsOwed,
+    collectionsOwed,
+    shortfall: roundCents(Math.max(0, refundsOwed - poolCash - collectionsOwed)),
+    members,
+    transfers,
+  };
+}
+
+/**
+ * Build the settlement plan for a pool from its full ledger
+ */
+export async function getSettlementPlan(
+  pool: { id: string; members: { id: number; name: string }[] },
+  now: Date = new Date()
+): Promise<SettlementPlan> {
+  const entries = await getLedgerEntryModel().find({ poolId: pool.id });
+  return buildSettlementPlan(pool.members, computeLedgerBalances(entries), now);
+}
@@ -0,0 +1,283 @@
+/**
+ * Pool tiers: contribution limits and the safeguards that come with them
+ *
+ * - standard: the original cap of $20 a round, no extra checks.
+ * - plus: up to $100 a round. The creator, every member who joins, and each
+ *   payout recipient must have verified their identity.
+ * - premium: up to $500 a round. Identity verification, plus a second admin
+ *   co-signs every payout and collected contributions are held for 3 days
+ *   before the payout can be sent, so a reversed payment can be caught.
+ *
+ * Limits are in dollars and scale by each currency's limitScale. A deployment
+ * can change them with NEXT_PUBLIC_POOL_TIER_LIMITS, e.g.
+ * "standard:50,plus:250,premium:1000"; a limit of 0 stops offering the tier
+ * to new pools. The variable is public so the create-pool form shows the same
+ * limits the server enforces.
+ *
+ * This module has no database access so the browser can use it too.
+ */
+
+import { PoolTier, PoolTierInfo, PoolTierSafeguards } from '../../types/pool';
+import { getCurrencyInfo } from '../currency/currencies';
+import { formatAmountLabel } from '../currency/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_TIERS: PoolTierInfo[] = [
+  {
+    tier: PoolTier.STANDARD,
+    label: 'Standard',
+    description: 'Small pools among people who know each other.',
+    contributionMax: 20,
+    safeguards: { identityVerification: false, adminCoSigner: false, escrowHoldDays: 0 },
+  },
+  {
+    tier: PoolTier.PLUS,
+    label: 'Plus',
+    description: 'Larger contributions. Everyone in the pool verifies their identity.',
+    contributionMax: 100,
+    safeguards: { identityVerification: true, adminCoSigner: false, escrowHoldDays: 0 },
+  },
+  {
+    tier: PoolTier.PREMIUM,
+    label: 'Premium',
+    description: 'The largest pots. Verified members, a second admin approves each payout, and contributions are held for 3 days before paying out.',
+    contributionMax: 500,
+    safeguards: { identityVerification: true, adminCoSigner: true, escrowHoldDays: 3 },
+  },
+];
+
+// Amounts (in dollars, before scaling) offered when creating a pool
+const PRESET_AMOUNTS = [1, 3, 5, 10, 15, 20, 25, 30, 40, 50, 75, 100, 150, 200, 250, 300, 400, 500, 750, 1000];
+
+function isPoolTier(value: unknown): value is PoolTier {
+  return typeof value === 'string' && (Object.values(PoolTier) as string[]).includes(value);
+}
+
+/**
+ * Per-tier limit overrides from NEXT_PUBLIC_POOL_TIER_LIMITS; bad entries are ignored
+ */
+function getConfiguredLimits(): Partial<Record<PoolTier, number>> {
+  const limits: Partial<Record<PoolTier, number>> = {};
+  for (const entry of (process.env.NEXT_PUBLIC_POOL_TIER_LIMITS || '').split(',')) {
+    const [name, value] = entry.split(':').map(part => part.trim().toLowerCase());
+    const limit = Number(value);
+    if (isPoolTier(name) && value && Number.isFinite(limit) && limit >= 0) {
+      limits[name] = limit;
+    }
+  }
+  return limits;
+}
+
+/**
+ * Every tier with this deployment's limits, including ones not offered to new pools
+ */
+function getAllTiers(): PoolTierInfo[] {
+  const limits = getConfiguredLimits();
+  return DEFAULT_TIERS.map(info => ({
+    ...info,
+    contributionMax: limits[info.tier] ?? info.contributionMax,
+  }));
+}
+
+/**
+ * Tiers a new pool can be created in, smallest first
+ */
+export function getPoolTiers(): PoolTierInfo[] {
+  return getAllTiers().filter(info => info.contributionMax > 0);
+}
+
+/**
+ * A tier from storage or input; unknown or missing tiers are standard
+ */
+export function resolvePoolTier(value: string | null | undefined): PoolTier {
+  return isPoolTier(value) ? value : PoolTier.STANDARD;
+}
+
+export function getPoolTierInfo(tier: string | null | undefined): PoolTierInfo {
+  const resolved = resolvePoolTier(tier);
+  return getAllTiers().find(info => info.tier === resolved)!;
+}
+
+export function isPoolTierAvailable(tier: string | null | undefined): boolean {
+  return getPoolTierInfo(tier).contributionMax > 0;
+}
+
+export function getTierSafeguards(pool: { tier?: string | null }): PoolTierSafeguards {
+  return getPoolTierInfo(pool.tier).safeguards;
+}
+
+/**
+ * A tier's per-round limits in a currency's major units
+ */
+export function getContributionLimits(
+  currency: string | null | undefined,
+  tier: string | null | undefined
+): { min: number; max: number } {
+  const info = getCurrencyInfo(currency);
+  return {
+    min: info.contributionMin,
+    max: Math.round(getPoolTierInfo(tier).contributionMax * info.limitScale),
+  };
+}
+
+/**
+ * Amounts to offer in the create-pool form, always ending with the tier's limit
+ */
+export function getContributionPresets(
+  currency: string | null | undefined,
+  tier: string | null | undefined
+): number[] {
+  const { min, max } = getContributionLimits(currency, tier);
+  const scale = getCurrencyInfo(currency).limitScale;
+  const presets = PRESET_AMOUNTS
+    .map(amount => Math.round(amount * scale))
+    .filter(amount => amount >= min && amount < max);
+  return max >= min ? [...presets, max] : [];
+}
+
+/**
+ * The smallest tier offered to new pools that allows this contribution
+ */
+export function getTierForAmount(amount: number, currency: string | null | undefined): PoolTier | null {
+  const tier = getPoolTiers().find(info => amount <= getContributionLimits(currency, info.tier).max);
+  return tier ? tier.tier : null;
+}
+
+/**
+ * The tier's contribution limits for form messages ("$1 and $20")
+ */
+export function describeContributionRange(
+  currency: string | null | undefined,
+  tier?: string | null
+): string {
+  const { min, max } = getContributionLimits(currency, tier);
+  return `${formatAmountLabel(min, currency)} and ${formatAmountLabel(max, currency)}`;
+}
+
+/**
+ * Check a per-round contribution against the currency's minimum and the tier's limit
+ */
+export function validateContributionAmount(
+  amount: number,
+  currency?: string | null,
+  tier?: string | null
+): { error?: string } {
+  const { code } = getCurrencyInfo(currency);
+  const { min, max } = getContributionLimits(code, tier);
+
+  if (!Number.isFinite(amount)) {
+    return { error: 'Contribution must be a number' };
+  }
+  if (!Number.isInteger(amount)) {
+    return { error: 'Contribution must be a whole number' };
+  }
+  if (amount < min) {
+    return { error: `Contribution must be at least ${min} ${code}` };
+  }
+  if (amount > max) {
+    return { error: `Contribution must be at most ${max} ${code} for ${getPoolTierInfo(tier).label} pools` };
+  }
+  return {};
+}
+
+/**
+ * Why this user can't create or join the pool, or null if they can
+ */
+export function getIdentityVerificationError(
+  pool: { tier?: string | null },
+  user: { identityVerified?: boolean }
+): string | null {
+  if (!getTierSafeguards(pool).identityVerification || user.identityVerified) {
+    return null;
+  }
+  return `${getPoolTierInfo(pool.tier).label} pools are only open to members who have verified their identity`;
+}
+
+// The pool fields payout safeguards read (a Pool document)
+export interface SafeguardedPool {
+  tier?: string | null;
+  currentRoundPayoutStatus?: string;
+  currentRoundReadyAt?: Date | string | null;
+  currentRoundPayoutApprovedBy?: unknown;
+}
+
+/**
+ * When the round's contributions come out of escrow, or null if there's no
+ * hold or it hasn't started (not every payment is in yet)
+ */
+export function getEscrowReleaseDate(pool: SafeguardedPool): Date | null {
+  const { escrowHoldDays } = getTierSafeguards(pool);
+  if (!escrowHoldDays || !pool.currentRoundReadyAt) {
+    return null;
+  }
+  return new Date(new Date(pool.currentRoundReadyAt).getTime() + escrowHoldDays * DAY_MS);
+}
+
+/**
+ * Why this admin can't approve the round's payout as co-signer, or null if they can
+ */
+export function getPayoutApprovalError(pool: SafeguardedPool): string | null {
+  if (!getTierSafeguards(pool).adminCoSigner) {
+    return 'This pool\'s payouts don\'t need a co-signer';
+  }
+  if (pool.currentRoundPayoutStatus !== 'ready_to_pay') {
+    return 'All payments must be verified before the payout can be approved';
+  }
+  if (pool.currentRoundPayoutApprovedBy) {
+    return 'This payout has already been approved';
+  }
+  return null;
+}
+
+/**
+ * Fields that send a round back to collecting when one of its payments is
+ * taken back (undone or disputed): the escrow hold and co-signer approval
+ * start over once every payment is in again
+ */
+export function getPayoutReadinessReset() {
+  return {
+    currentRoundPayoutStatus: 'pending_collection',
+    currentRoundReadyAt: null,
+    currentRoundPayoutApprovedBy: null,
+    currentRoundPayoutApprovedAt: null,
+  };
+}
+
+/**
+ * Why the round's payout can't be sent yet, or null if it can
+ *
+ * Checks the tier's safeguards only; the caller still checks that the
+ * user is an admin and the round is ready to pay.
+ */
+export function getPayoutSafeguardError(
+  pool: SafeguardedPool,
+  options: { userId: string; recipientVerified: boolean; now?: Date }
+): string | null {
+  const safeguards = getTierSafeguards(pool);
+
+  if (safeguards.identityVerification && !options.recipientVerified) {
+    return 'The payout recipient must verify their identity before they can be paid';
+  }
+
+  // The hold only starts once the round's last payment is in
+  if (safeguards.escrowHoldDays && !pool.currentRoundReadyAt) {
+    return `Contributions are held in escrow for ${safeguards.escrowHoldDays} days once every payment is in`;
+  }
+  const releaseDate = getEscrowReleaseDate(pool);
+  if (releaseDate && (options.now || new Date()) < releaseDate) {
+    return `Contributions are held in escrow until ${releaseDate.toISOString()}`;
+  }
+
+  if (safeguards.adminCoSigner) {
+    const approvedBy = pool.currentRoundPayoutApprovedBy ? String(pool.currentRoundPayoutApprovedBy) : null;
+    if (!approvedBy) {
+      return 'A second admin must approve this payout before it is sent';
+    }
+    if (approvedBy === options.userId) {
+      return 'The payout must be sent by a different admin than the one who approved it';
+    }
+  }
+
+  return null;
+}
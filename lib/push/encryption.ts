@@ -0,0 +1,67 @@
+/**
+ * Web Push message encryption (RFC 8291, aes128gcm content coding)
+ */
+
+import crypto from 'crypto';
+import type { PushSubscriptionRecord } from './types';
+
+// Single record, so the record size only has to exceed the payload
+const RECORD_SIZE = 4096;
+
+function hmac(key: Buffer, data: Buffer): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// HKDF-Expand for outputs of at most one SHA-256 block
+function hkdfExpand(prk: Buffer, info: Buffer, length: number): Buffer {
+  return hmac(prk, Buffer.concat([info, Buffer.from([1])])).subarray(0, length);
+}
+
+/**
+ * Encrypt a payload for a subscription. Returns the full request body:
+ * salt | record size | key id length | sender public key | ciphertext
+ */
+export function encryptPushPayload(
+  subscription: Pick<PushSubscriptionRecord, 'keys'>,
+  payload: string | Buffer
+): Buffer {
+  const userAgentPublicKey = Buffer.from(subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+
+  if (userAgentPublicKey.length !== 65 || authSecret.length !== 16) {
+    throw new Error('Invalid push subscription keys');
+  }
+
+  // Fresh sender key pair and salt for every message
+  const ecdh = crypto.createECDH('prime256v1');
+  const senderPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    userAgentPublicKey,
+    senderPublicKey,
+  ]);
+  const ikm = hkdfExpand(hmac(authSecret, sharedSecret), keyInfo, 32);
+
+  const prk = hmac(salt, ikm);
+  const contentKey = hkdfExpand(prk, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdfExpand(prk, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record
+  const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload too large');
+  }
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+}
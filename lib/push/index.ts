@@ -0,0 +1,121 @@
+/**
+ * Web Push Service
+ * Sends encrypted, VAPID-signed messages straight to the browser's push
+ * service endpoint. Rendering happens in the service worker (public/sw.js).
+ */
+
+import { encryptPushPayload } from './encryption';
+import { createVapidAuthHeader } from './vapid';
+import type { PushPayload, PushSubscriptionRecord, SendPushOptions, SendPushResult, VapidConfig } from './types';
+
+// Reminders are only useful for about a day
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * VAPID keys from environment variables, or null when push is not set up
+ */
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || `mailto:${process.env.EMAIL_FROM || 'noreply@juntasseguras.com'}`,
+  };
+}
+
+export function isPushConfigured(): boolean {
+  return getVapidConfig() !== null;
+}
+
+/**
+ * Check that a client-submitted subscription has the fields we need
+ */
+export function isValidPushSubscription(value: unknown): value is PushSubscriptionRecord {
+  const subscription = value as PushSubscriptionRecord;
+  if (!subscription || typeof subscription.endpoint !== 'string') return false;
+  if (typeof subscription.keys?.p256dh !== 'string' || typeof subscription.keys?.auth !== 'string') return false;
+
+  try {
+    // Push services are always HTTPS (plain HTTP allowed for local stubs in development)
+    const { protocol } = new URL(subscription.endpoint);
+    return protocol === 'https:' || (protocol === 'http:' && process.env.NODE_ENV !== 'production');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Send one push message to one subscription.
+ * A 404 or 410 from the push service means the subscription has expired.
+ */
+export async function sendPushNotification(
+  subscription: PushSubscriptionRecord,
+  payload: PushPayload,
+  options: SendPushOptions = {}
+): Promise<SendPushResult> {
+  const vapid = options.vapid || getVapidConfig();
+  if (!vapid) {
+    return { success: false, error: 'VAPID keys not configured' };
+  }
+
+  try {
+    const body = encryptPushPayload(subscription, JSON.stringify(payload));
+
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: createVapidAuthHeader(subscription.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(options.ttl ?? DEFAULT_TTL_SECONDS),
+        Urgency: options.urgency || 'normal',
+        ...(payload.tag && { Topic: payload.tag.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 32) }),
+      },
+      body,
+    });
+
+    if (response.ok) {
+      return { success: true, statusCode: response.status };
+    }
+
+    const expired = response.status === 404 || response.status === 410;
+    const error = (await response.text().catch(() => '')) || `Push service responded with ${response.status}`;
+    if (!expired) {
+      console.error('[Push] Failed to send notification:', { status: response.status, error });
+    }
+
+    return { success: false, statusCode: response.status, expired, error };
+  } catch (error: any) {
+    console.error('[Push] Failed to send notification:', error.message);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Send the same message to every subscription of a user. Returns the
+ * endpoints of expired subscriptions so the caller can delete them.
+ */
+export async function sendPushToSubscriptions(
+  subscriptions: PushSubscriptionRecord[],
+  payload: PushPayload,
+  options: SendPushOptions = {}
+): Promise<{ sent: number; failed: number; expiredEndpoints: string[]; errors: string[] }> {
+  const results = await Promise.all(
+    subscriptions.map(subscription => sendPushNotification(subscription, payload, options))
+  );
+
+  return {
+    sent: results.filter(r => r.success).length,
+    failed: results.filter(r => !r.success).length,
+    expiredEndpoints: subscriptions.filter((_, i) => results[i].expired).map(s => s.endpoint),
+    errors: results.filter(r => !r.success && !r.expired && r.error).map(r => r.error as string),
+  };
+}
+
+// Re-export types and helpers for convenience
+export type { PushPayload, PushSubscriptionRecord, SendPushOptions, SendPushResult, VapidConfig } from './types';
+export { encryptPushPayload } from './encryption';
+export { createVapidAuthHeader, generateVapidKeys } from './vapid';
@@ -0,0 +1,43 @@
+/**
+ * Web Push types and interfaces
+ */
+
+// Browser PushSubscription as serialized by PushSubscription.toJSON()
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string; // base64url user agent public key (uncompressed P-256 point)
+    auth: string; // base64url 16-byte auth secret
+  };
+  userAgent?: string;
+  createdAt?: Date;
+}
+
+// What the service worker renders (see public/sw.js)
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string; // Path opened when the notification is clicked
+  type?: string; // Reminder type, used to pick the notification actions
+  tag?: string; // Notifications with the same tag replace each other
+}
+
+export interface VapidConfig {
+  publicKey: string; // base64url uncompressed P-256 public key
+  privateKey: string; // base64url 32-byte private key
+  subject: string; // mailto: or https: contact for the push service
+}
+
+export interface SendPushOptions {
+  ttl?: number; // Seconds the push service keeps an undelivered message
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  vapid?: VapidConfig;
+}
+
+export interface SendPushResult {
+  success: boolean;
+  statusCode?: number;
+  expired?: boolean; // The subscription is gone (404/410) and should be deleted
+  error?: string;
+}
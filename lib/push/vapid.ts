@@ -0,0 +1,69 @@
+/**
+ * VAPID authentication for Web Push (RFC 8292)
+ */
+
+import crypto from 'crypto';
+import type { VapidConfig } from './types';
+
+// Push services reject tokens valid for more than 24 hours
+const TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+function toBase64Url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function getSigningKey(vapid: VapidConfig): crypto.KeyObject {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+  if (publicKey.length !== 65) {
+    throw new Error('Invalid VAPID public key');
+  }
+
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Build the Authorization header for a push service request.
+ * The token audience is the origin of the subscription endpoint.
+ */
+export function createVapidAuthHeader(endpoint: string, vapid: VapidConfig, now = Date.now()): string {
+  const header = toBase64Url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = toBase64Url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  }));
+
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: getSigningKey(vapid),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Generate a VAPID key pair (run once, store in the environment)
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+
+  // The raw private key drops leading zero bytes; JWK needs all 32
+  const privateKey = Buffer.alloc(32);
+  const raw = ecdh.getPrivateKey();
+  raw.copy(privateKey, 32 - raw.length);
+
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(privateKey),
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Reliability history
+ *
+ * Gathers a user's record from every pool they've been in. Payment counters
+ * on a pool membership carry across that pool's cycles, so they're read from
+ * the current membership, or from the last archived cycle for members who
+ * have since left. Each completed cycle (archived, or a pool that has just
+ * finished) counts once. Debts come from the pool's member exits.
+ */
+
+import { getPoolModel } from '../db/models/pool';
+import { getCycleModel } from '../db/models/cycle';
+import { roundCents } from '../ledger/entries';
+import { MemberDebtStatus, PoolStatus } from '../../types/pool';
+import { ReliabilityBreakdown, ReliabilityScore } from '../../types/reliability';
+import { computeReliabilityScore } from './score';
+
+export interface ReliabilitySubject {
+  id: string;
+  email: string;
+}
+
+interface HistoryMember {
+  userId?: { toString(): string } | string | null;
+  email?: string;
+  paymentsOnTime?: number;
+  paymentsMissed?: number;
+  missedPayments?: number;
+}
+
+export interface HistoryPool {
+  id: string;
+  status: string;
+  members: HistoryMember[];
+  memberExits?: {
+    memberEmail?: string;
+    debt?: { amount: number; status: string };
+  }[];
+}
+
+export interface HistoryCycle {
+  poolId: string;
+  cycle: number;
+  members: { email?: string; paymentsOnTime: number; paymentsMissed: number }[];
+}
+
+/**
+ * Total up a user's record from the pools and archived cycles they appear in
+ */
+export function collectReliabilityBreakdown(
+  subject: ReliabilitySubject,
+  pools: HistoryPool[],
+  cycles: HistoryCycle[]
+): ReliabilityBreakdown {
+  const email = subject.email.toLowerCase();
+  const isSubject = (m: HistoryMember) =>
+    m.userId?.toString() === subject.id || m.email?.toLowerCase() === email;
+
+  const poolIds = new Set<string>();
+  const currentPoolIds = new Set<string>();
+  let paymentsOnTime = 0;
+  let paymentsMissed = 0;
+  let completedCycles = 0;
+  let outstandingDebts = 0;
+  let outstandingDebtAmount = 0;
+  let forgivenDebts = 0;
+
+  for (const pool of pools) {
+    const member = pool.members.find(isSubject);
+    if (member) {
+      poolIds.add(pool.id);
+      currentPoolIds.add(pool.id);
+      paymentsOnTime += member.paymentsOnTime || 0;
+      // missedPayments is the older name for the same counter
+      paymentsMissed += Math.max(member.paymentsMissed || 0, member.missedPayments || 0);
+      if (pool.status === PoolStatus.COMPLETED) {
+        completedCycles++;
+      }
+    }
+
+    for (const exit of pool.memberExits || []) {
+      if (exit.memberEmail?.toLowerCase() !== email) continue;
+      poolIds.add(pool.id);
+      if (exit.debt?.status === MemberDebtStatus.OUTSTANDING) {
+        outstandingDebts++;
+        outstandingDebtAmount += exit.debt.amount;
+      } else if (exit.debt?.status === MemberDebtStatus.FORGIVEN) {
+        forgivenDebts++;
+      }
+    }
+  }
+
+  // Latest archived record per pool, for pools the user has since left
+  const lastRecords = new Map<string, { cycle: number; paymentsOnTime: number; paymentsMissed: number }>();
+  for (const cycle of cycles) {
+    const record = cycle.members.find(m => m.email?.toLowerCase() === email);
+    if (!record) continue;
+
+    completedCycles++;
+    poolIds.add(cycle.poolId);
+    const last = lastRecords.get(cycle.poolId);
+    if (!last || cycle.cycle > last.cycle) {
+      lastRecords.set(cycle.poolId, { cycle: cycle.cycle, ...record });
+    }
+  }
+
+  lastRecords.forEach((record, poolId) => {
+    if (currentPoolIds.has(poolId)) return;
+    paymentsOnTime += record.paymentsOnTime || 0;
+    paymentsMissed += record.paymentsMissed || 0;
+  });
+
+  const totalPayments = paymentsOnTime + paymentsMissed;
+
+  return {
+    poolsJoined: poolIds.size,
+    paymentsOnTime,
+    paymentsMissed,
+    onTimeRate: totalPayments > 0 ? Math.round((paymentsOnTime / totalPayments) * 1000) / 1000 : null,
+    completedCycles,
+    outstandingDebts,
+    outstandingDebtAmount: roundCents(outstandingDebtAmount),
+    forgivenDebts,
+  };
+}
+
+/**
+ * Compute reliability scores for several users at once, keyed by user id
+ */
+export async function getReliabilityScores(
+  subjects: ReliabilitySubject[],
+  now: Date = new Date()
+): Promise<Map<string, ReliabilityScore>> {
+  const scores = new Map<string, ReliabilityScore>();
+  if (subjects.length === 0) return scores;
+
+  const ids = subjects.map(s => s.id);
+  const emails = subjects.map(s => s.email.toLowerCase());
+
+  const [pools, cycles] = await Promise.all([
+    getPoolModel()
+      .find({
+        $or: [
+          { 'members.userId': { $in: ids } },
+          { 'members.email': { $in: emails } },
+          { 'memberExits.memberEmail': { $in: emails } },
+        ],
+      })
+      .select('id status members memberExits')
+      .lean<HistoryPool[]>(),
+    getCycleModel()
+      .find({ 'members.email': { $in: emails } })
+      .select('poolId cycle members')
+      .lean<HistoryCycle[]>(),
+  ]);
+
+  for (const subject of subjects) {
+    const breakdown = collectReliabilityBreakdown(subject, pools, cycles);
+    scores.set(subject.id, computeReliabilityScore(breakdown, now));
+  }
+
+  return scores;
+}
+
+export async function getUserReliability(subject: ReliabilitySubject): Promise<ReliabilityScore> {
+  const scores = await getReliabilityScores([subject]);
+  return scores.get(subject.id)!;
+}
@@ -0,0 +1,33 @@
+/**
+ * Member Reliability Module
+ *
+ * Components:
+ * - score.ts: The 0-100 score, its levels, and what other admins can see of it
+ * - history.ts: A user's record across all their pools, archived cycles, and exits
+ *
+ * Entry points:
+ * - /api/users/reliability: the signed-in user's own score and visibility setting
+ * - /api/pools/[id]/members (GET): admins see each member's score, as far as they allow
+ * - /api/pools/invitations/accept: admins are told the new member's score
+ */
+
+export {
+  RELIABILITY_WEIGHTS,
+  DEFAULT_RELIABILITY_VISIBILITY,
+  getReliabilityLevel,
+  computeReliabilityScore,
+  viewReliability,
+  describeReliability,
+} from './score';
+
+export {
+  collectReliabilityBreakdown,
+  getReliabilityScores,
+  getUserReliability,
+} from './history';
+
+export type {
+  ReliabilitySubject,
+  HistoryPool,
+  HistoryCycle,
+} from './history';
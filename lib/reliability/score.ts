@@ -0,0 +1,100 @@
+/**
+ * Reliability score
+ *
+ * A 0-100 score built from a user's history across every pool:
+ * - up to 80 points for the share of payments made on time
+ * - 5 points per completed cycle, up to 20
+ * - 30 points off per outstanding debt, 15 per forgiven debt
+ *
+ * Users with no payments, cycles, or debts yet are "new" and have no score.
+ */
+
+import {
+  ReliabilityBreakdown,
+  ReliabilityLevel,
+  ReliabilityScore,
+  ReliabilityView,
+  ReliabilityVisibility,
+} from '../../types/reliability';
+
+export const RELIABILITY_WEIGHTS = {
+  onTime: 80,
+  perCompletedCycle: 5,
+  maxCompletedCycles: 4,
+  outstandingDebt: 30,
+  forgivenDebt: 15,
+};
+
+// Lowest score for each level, best first
+const LEVEL_THRESHOLDS: [ReliabilityLevel, number][] = [
+  [ReliabilityLevel.EXCELLENT, 85],
+  [ReliabilityLevel.GOOD, 70],
+  [ReliabilityLevel.FAIR, 50],
+  [ReliabilityLevel.POOR, 0],
+];
+
+export const DEFAULT_RELIABILITY_VISIBILITY = ReliabilityVisibility.SCORE;
+
+export function getReliabilityLevel(score: number | null): ReliabilityLevel {
+  if (score === null) return ReliabilityLevel.NEW;
+  return LEVEL_THRESHOLDS.find(([, min]) => score >= min)?.[0] || ReliabilityLevel.POOR;
+}
+
+export function computeReliabilityScore(
+  breakdown: ReliabilityBreakdown,
+  now: Date = new Date()
+): ReliabilityScore {
+  const hasHistory =
+    breakdown.paymentsOnTime + breakdown.paymentsMissed > 0 ||
+    breakdown.completedCycles > 0 ||
+    breakdown.outstandingDebts + breakdown.forgivenDebts > 0;
+
+  let score: number | null = null;
+  if (hasHistory) {
+    const w = RELIABILITY_WEIGHTS;
+    const raw =
+      (breakdown.onTimeRate ?? 1) * w.onTime +
+      Math.min(breakdown.completedCycles, w.maxCompletedCycles) * w.perCompletedCycle -
+      breakdown.outstandingDebts * w.outstandingDebt -
+      breakdown.forgivenDebts * w.forgivenDebt;
+    score = Math.max(0, Math.min(100, Math.round(raw)));
+  }
+
+  return {
+    score,
+    level: getReliabilityLevel(score),
+    breakdown,
+    computedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Trim a score to what the viewer may see. Users always see their own.
+ */
+export function viewReliability(
+  reliability: ReliabilityScore,
+  visibility: ReliabilityVisibility = DEFAULT_RELIABILITY_VISIBILITY,
+  isSelf = false
+): ReliabilityView {
+  if (isSelf || visibility === ReliabilityVisibility.FULL) {
+    return {
+      visibility,
+      score: reliability.score,
+      level: reliability.level,
+      breakdown: reliability.breakdown,
+    };
+  }
+  if (visibility === ReliabilityVisibility.SCORE) {
+    return { visibility, score: reliability.score, level: reliability.level };
+  }
+  return { visibility };
+}
+
+/**
+ * One-line summary for notifications, or null when the score is hidden
+ */
+export function describeReliability(view: ReliabilityView): string | null {
+  if (view.level === undefined) return null;
+  if (view.score === null || view.score === undefined) return 'New member with no payment history';
+  return `Reliability score ${view.score}/100 (${view.level})`;
+}
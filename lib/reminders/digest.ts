@@ -0,0 +1,282 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../db/connect';
+import getPoolModel from '../db/models/pool';
+import { getUserModel } from '../db/models/user';
+import {
+  getDigestItemModel,
+  DigestSource,
+  DigestFrequency,
+  DigestItemDocument,
+} from '../db/models/digestItem';
+import {
+  getNotificationPreferenceModel,
+  getNotificationFrequency,
+  isDigestFrequency,
+  isInQuietHours,
+  isPoolMuted,
+  NotificationPreferenceDocument,
+} from '../db/models/notificationPreference';
+import { getEmailService, DigestEmailData } from '../email/index';
+import { getReminderPushPayload } from './sender';
+import { PendingReminder } from './scheduler';
+import { getUserLocales } from '../i18n/recipients';
+
+/**
+ * Digest - Bundles notifications into one daily or weekly email per user
+ *
+ * This module is responsible for:
+ * 1. Queueing reminders, @mentions, and activity posts for users who chose a digest
+ * 2. Deciding when each user's digest is due (period elapsed, outside quiet hours)
+ * 3. Rendering and sending the combined email, then marking items as digested
+ */
+
+// Time between digests
+const DIGEST_PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// The cron doesn't run at exactly the same minute every time
+const DIGEST_SLACK_MS = 60 * 60 * 1000;
+
+// Items shown in one email (the rest are summarized as "N more")
+const MAX_DIGEST_ITEMS = 50;
+
+export interface QueueDigestItemInput {
+  userId: mongoose.Types.ObjectId;
+  frequency: DigestFrequency;
+  source: DigestSource;
+  sourceId: string;
+  poolId?: string;
+  poolName?: string;
+  title: string;
+  body?: string;
+  url?: string;
+  occurredAt?: Date;
+}
+
+/**
+ * Add an item to a user's next digest
+ * Queueing the same sourceId twice for a user is a no-op
+ */
+export async function queueDigestItem(item: QueueDigestItemInput): Promise<void> {
+  await connectToDatabase();
+  const DigestItem = getDigestItemModel();
+
+  await DigestItem.updateOne(
+    { userId: item.userId, sourceId: item.sourceId },
+    {
+      $setOnInsert: {
+        ...item,
+        title: item.title.slice(0, 200),
+        body: item.body?.slice(0, 500),
+        occurredAt: item.occurredAt || new Date(),
+        digestedAt: null,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Queue a scheduled reminder for a user who receives reminders as a digest
+ */
+export async function queueReminderDigest(
+  reminder: PendingReminder,
+  frequency: DigestFrequency
+): Promise<void> {
+  const locale = reminder.locale || (await getUserLocales([reminder.userId])).get(reminder.userId.toString());
+  const summary = getReminderPushPayload({ ...reminder, locale });
+
+  await queueDigestItem({
+    userId: reminder.userId,
+    frequency,
+    source: DigestSource.REMINDER,
+    sourceId: `reminder:${reminder.scheduleId}:${reminder.eventDate.toISOString()}`,
+    poolId: reminder.poolId,
+    poolName: reminder.poolName,
+    title: summary.title,
+    body: summary.body,
+    url: summary.url,
+    occurredAt: new Date(),
+  });
+}
+
+/**
+ * Queue a pool event for every listed user who receives notifications as a digest
+ * Users with immediate delivery are skipped; they're notified the usual way
+ */
+export async function queueDigestForUsers(
+  userIds: mongoose.Types.ObjectId[],
+  poolObjectId: mongoose.Types.ObjectId,
+  item: Pick<QueueDigestItemInput, 'source' | 'sourceId' | 'title' | 'body' | 'url'>
+): Promise<number> {
+  if (userIds.length === 0) return 0;
+
+  await connectToDatabase();
+  const NotificationPreference = getNotificationPreferenceModel();
+
+  const pool = await getPoolModel().findById(poolObjectId).select('id name');
+  const poolId = pool?.id || poolObjectId.toString();
+
+  const preferences = await NotificationPreference.find({ userId: { $in: userIds } });
+  let queued = 0;
+
+  for (const prefs of preferences as NotificationPreferenceDocument[]) {
+    if (!prefs.globalEnabled || isPoolMuted(prefs, poolId)) continue;
+
+    const frequency = getNotificationFrequency(prefs);
+    if (!isDigestFrequency(frequency)) continue;
+
+    await queueDigestItem({
+      ...item,
+      userId: prefs.userId,
+      frequency,
+      poolId,
+      poolName: pool?.name,
+      url: item.url || `/pools/${poolId}`,
+    });
+    queued++;
+  }
+
+  return queued;
+}
+
+/**
+ * Check whether a user's digest should go out now
+ */
+export function isDigestDue(
+  preferences: NotificationPreferenceDocument,
+  frequency: DigestFrequency,
+  now: Date = new Date()
+): boolean {
+  if (isInQuietHours(preferences, now)) return false;
+
+  const lastSent = preferences.lastDigestSentAt?.[frequency];
+  if (!lastSent) return true;
+
+  return now.getTime() - new Date(lastSent).getTime() >= DIGEST_PERIOD_MS[frequency] - DIGEST_SLACK_MS;
+}
+
+/**
+ * Group digest items by pool for the email template
+ */
+export function buildDigestEmailData(
+  items: Pick<DigestItemDocument, 'source' | 'poolId' | 'poolName' | 'title' | 'body' | 'url' | 'occurredAt'>[],
+  options: { frequency: DigestFrequency; recipientName?: string; timezone?: string }
+): DigestEmailData {
+  const sections = new Map<string, DigestEmailData['sections'][number]>();
+
+  for (const item of items.slice(0, MAX_DIGEST_ITEMS)) {
+    const key = item.poolId || '';
+    let section = sections.get(key);
+    if (!section) {
+      section = {
+        poolName: item.poolName || 'Your pools',
+        poolLink: item.poolId ? `/pools/${item.poolId}` : undefined,
+        items: [],
+      };
+      sections.set(key, section);
+    }
+    section.items.push({
+      source: item.source,
+      title: item.title,
+      body: item.body,
+      url: item.url,
+      occurredAt: item.occurredAt,
+    });
+  }
+
+  return {
+    recipientName: options.recipientName,
+    frequency: options.frequency,
+    timezone: options.timezone,
+    sections: Array.from(sections.values()),
+    totalItems: items.length,
+  };
+}
+
+/**
+ * Send every digest that is due
+ * Called by the reminders cron after immediate reminders are processed
+ */
+export async function processDigests(now: Date = new Date()): Promise<{
+  sent: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}> {
+  await connectToDatabase();
+  const DigestItem = getDigestItemModel();
+  const NotificationPreference = getNotificationPreferenceModel();
+  const User = getUserModel();
+
+  const results = { sent: 0, skipped: 0, failed: 0, errors: [] as string[] };
+
+  const groups = await DigestItem.aggregate<{
+    _id: { userId: mongoose.Types.ObjectId; frequency: DigestFrequency };
+  }>([
+    { $match: { digestedAt: null } },
+    { $group: { _id: { userId: '$userId', frequency: '$frequency' } } },
+  ]);
+
+  for (const { _id: { userId, frequency } } of groups) {
+    try {
+      const preferences = await NotificationPreference.findOne({ userId }) as NotificationPreferenceDocument | null;
+
+      if (preferences && !isDigestDue(preferences, frequency, now)) {
+        results.skipped++;
+        continue;
+      }
+
+      const items = await DigestItem.find({ userId, frequency, digestedAt: null }).sort({ occurredAt: 1 });
+      const itemIds = items.map(item => item._id);
+      const user = await User.findById(userId).select('name email');
+
+      // Nowhere to send it - drop the items rather than letting them pile up
+      if (!user?.email || preferences?.globalEnabled === false || preferences?.email?.enabled === false) {
+        await DigestItem.updateMany({ _id: { $in: itemIds } }, { $set: { digestedAt: now } });
+        results.skipped++;
+        continue;
+      }
+
+      const data = buildDigestEmailData(items, {
+        frequency,
+        recipientName: user.name,
+        timezone: preferences?.quietHours?.timezone,
+      });
+      const to = preferences?.email?.address || user.email;
+      const result = await getEmailService().sendDigest(to, data);
+
+      if (!result.success) {
+        results.failed++;
+        results.errors.push(`${frequency} digest for ${userId}: ${result.error}`);
+        continue;
+      }
+
+      await DigestItem.updateMany({ _id: { $in: itemIds } }, { $set: { digestedAt: now } });
+      await NotificationPreference.updateOne(
+        { userId },
+        { $set: { [`lastDigestSentAt.${frequency}`]: now } }
+      );
+
+      results.sent++;
+      console.log(`[Digest] Sent ${frequency} digest with ${items.length} items to user ${userId}`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      results.failed++;
+      results.errors.push(`${frequency} digest for ${userId}: ${errorMessage}`);
+    }
+  }
+
+  return results;
+}
+
+const digestExports = {
+  queueDigestItem,
+  queueReminderDigest,
+  queueDigestForUsers,
+  isDigestDue,
+  processDigests,
+};
+export default digestExports;
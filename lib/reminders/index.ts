@@ -7,10 +7,12 @@
  * Components:
  * - scheduler.ts: Identifies which reminders need to be sent
  * - sender.ts: Sends reminders through email, SMS, push, or in-app channels
+ * - digest.ts: Bundles notifications into daily/weekly digest emails
  *
  * Database Models (in lib/db/models/):
  * - reminder.ts: ReminderSchedule and SentReminder models
  * - notificationPreference.ts: User notification preferences
+ * - digestItem.ts: Notifications waiting for a user's next digest
  *
  * Usage:
  * 1. Reminders are automatically created when a pool is created
@@ -32,6 +34,7 @@
 // Re-export scheduler functions
 export {
   getPendingReminders,
+  getLatePaymentReminders,
   createDefaultReminderSchedules,
   getReminderStats,
   type PendingReminder,
@@ -43,6 +46,17 @@ export {
   retryFailedReminders,
 } from './sender';
 
+// Re-export digest functions
+export {
+  queueDigestItem,
+  queueReminderDigest,
+  queueDigestForUsers,
+  isDigestDue,
+  buildDigestEmailData,
+  processDigests,
+  type QueueDigestItemInput,
+} from './digest';
+
 // Re-export model types and enums
 export {
   ReminderType,
@@ -63,7 +77,18 @@ export {
   NotificationPreference,
   isPoolMuted,
   isInQuietHours,
+  getHourInTimezone,
   getEffectiveChannels,
+  getNotificationFrequency,
+  isDigestFrequency,
   createDefaultPreferences,
   type NotificationPreferenceDocument,
 } from '../db/models/notificationPreference';
+
+export {
+  DigestSource,
+  getDigestItemModel,
+  DigestItem,
+  type DigestFrequency,
+  type DigestItemDocument,
+} from '../db/models/digestItem';
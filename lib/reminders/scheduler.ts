@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import connectToDatabase from '../db/connect';
+import type { Locale } from '../../types/i18n';
 import getPoolModel from '../db/models/pool';
 import {
   getReminderScheduleModel,
@@ -16,8 +17,13 @@ import {
   isPoolMuted,
   isInQuietHours,
   getEffectiveChannels,
+  getNotificationFrequency,
+  isDigestFrequency,
+  NotificationFrequency,
   NotificationPreferenceDocument,
 } from '../db/models/notificationPreference';
+import { queueReminderDigest } from './digest';
+import { getRoundDueDate } from '../schedule';
 
 /**
  * ReminderScheduler - Identifies which reminders need to be sent
@@ -27,6 +33,7 @@ import {
  * 2. Checking reminder schedules for those pools
  * 3. Identifying which users need reminders based on their preferences
  * 4. Creating pending reminder records for the sender to process
+ * 5. Queueing reminders for users who prefer a daily/weekly digest (see digest.ts)
  *
  * Note: Designed for Vercel Hobby plan's once-per-day cron limit.
  * Uses a 24-hour window to catch all reminders that should be sent today.
@@ -48,14 +55,34 @@ export interface PendingReminder {
   customMessage?: string;
   // Pool context for message templates
   contributionAmount: number;
+  currency?: string;
   frequency: string;
   recipientPosition?: number;
+  locale?: Locale;             // Recipient's language, filled in by the sender
 }
 
 // Window for checking reminders (24 hours for daily cron on Hobby plan)
 // For Pro plan with hourly cron, this could be reduced to 1
 const REMINDER_WINDOW_HOURS = 24;
 
+/**
+ * Queue a reminder into the user's digest when they don't want it right away
+ * Returns true when the reminder should not be sent now
+ */
+async function deferToDigest(
+  preferences: NotificationPreferenceDocument,
+  reminder: Omit<PendingReminder, 'channel'>
+): Promise<boolean> {
+  const frequency = getNotificationFrequency(preferences, reminder.type);
+
+  if (frequency === NotificationFrequency.NONE) return true;
+  if (!isDigestFrequency(frequency)) return false;
+
+  // Digests are delivered by email
+  await queueReminderDigest({ ...reminder, channel: ReminderChannel.EMAIL }, frequency);
+  return true;
+}
+
 /**
  * Get all pending reminders that need to be sent
  * This is the main entry point for the scheduler
@@ -106,13 +133,8 @@ async function getPaymentDueReminders(): Promise<PendingReminder[]> {
 
     if (schedules.length === 0) continue;
 
-    // Calculate the next payment due date from the pool's nextPayoutDate
-    // In this app, payments are due before the payout date
-    const payoutDate = pool.nextPayoutDate ? new Date(pool.nextPayoutDate) : null;
-    if (!payoutDate) continue;
-
-    // Payment is typically due the day before payout (24 hours before)
-    const paymentDueDate = new Date(payoutDate.getTime() - 24 * 60 * 60 * 1000);
+    // Contributions are due on the schedule's due date for the current round
+    const paymentDueDate = getRoundDueDate(pool, pool.currentRound || 1);
 
     for (const schedule of schedules) {
       // Calculate when this reminder should be sent
@@ -163,6 +185,29 @@ async function getPaymentDueReminders(): Promise<PendingReminder[]> {
 
         if (channels.length === 0) continue;
 
+        const baseReminder: Omit<PendingReminder, 'channel'> = {
+          scheduleId: schedule._id as mongoose.Types.ObjectId,
+          poolId: pool.id,
+          poolName: pool.name,
+          userId: member.userId,
+          memberName: member.name,
+          memberEmail: member.email,
+          type: ReminderType.PAYMENT_DUE,
+          round: pool.currentRound,
+          eventDate: paymentDueDate,
+          customSubject: schedule.customSubject,
+          customMessage: schedule.customMessage,
+          contributionAmount: pool.contributionAmount,
+          currency: pool.currency,
+          frequency: pool.frequency,
+          recipientPosition: currentRecipient?.position,
+        };
+
+        // Digest subscribers get this in their next daily/weekly email instead
+        if (preferences && await deferToDigest(preferences as NotificationPreferenceDocument, baseReminder)) {
+          continue;
+        }
+
         // Check quiet hours (skip if in quiet hours)
         if (preferences && isInQuietHours(preferences as NotificationPreferenceDocument)) {
           continue;
@@ -178,23 +223,7 @@ async function getPaymentDueReminders(): Promise<PendingReminder[]> {
           });
 
           if (!existingReminder) {
-            reminders.push({
-              scheduleId: schedule._id as mongoose.Types.ObjectId,
-              poolId: pool.id,
-              poolName: pool.name,
-              userId: member.userId,
-              memberName: member.name,
-              memberEmail: member.email,
-              type: ReminderType.PAYMENT_DUE,
-              round: pool.currentRound,
-              channel,
-              eventDate: paymentDueDate,
-              customSubject: schedule.customSubject,
-              customMessage: schedule.customMessage,
-              contributionAmount: pool.contributionAmount,
-              frequency: pool.frequency,
-              recipientPosition: currentRecipient?.position,
-            });
+            reminders.push({ ...baseReminder, channel });
           }
         }
       }
@@ -258,6 +287,28 @@ async function getPayoutComingReminders(): Promise<PendingReminder[]> {
 
       if (channels.length === 0) continue;
 
+      const baseReminder: Omit<PendingReminder, 'channel'> = {
+        scheduleId: schedule._id as mongoose.Types.ObjectId,
+        poolId: pool.id,
+        poolName: pool.name,
+        userId: recipient.userId,
+        memberName: recipient.name,
+        memberEmail: recipient.email,
+        type: ReminderType.PAYOUT_COMING,
+        round: pool.currentRound,
+        eventDate: payoutDate,
+        customSubject: schedule.customSubject,
+        customMessage: schedule.customMessage,
+        contributionAmount: pool.contributionAmount,
+        currency: pool.currency,
+        frequency: pool.frequency,
+        recipientPosition: recipient.position,
+      };
+
+      if (preferences && await deferToDigest(preferences as NotificationPreferenceDocument, baseReminder)) {
+        continue;
+      }
+
       if (preferences && isInQuietHours(preferences as NotificationPreferenceDocument)) {
         continue;
       }
@@ -271,23 +322,7 @@ async function getPayoutComingReminders(): Promise<PendingReminder[]> {
         });
 
         if (!existingReminder) {
-          reminders.push({
-            scheduleId: schedule._id as mongoose.Types.ObjectId,
-            poolId: pool.id,
-            poolName: pool.name,
-            userId: recipient.userId,
-            memberName: recipient.name,
-            memberEmail: recipient.email,
-            type: ReminderType.PAYOUT_COMING,
-            round: pool.currentRound,
-            channel,
-            eventDate: payoutDate,
-            customSubject: schedule.customSubject,
-            customMessage: schedule.customMessage,
-            contributionAmount: pool.contributionAmount,
-            frequency: pool.frequency,
-            recipientPosition: recipient.position,
-          });
+          reminders.push({ ...baseReminder, channel });
         }
       }
     }
@@ -296,14 +331,15 @@ async function getPayoutComingReminders(): Promise<PendingReminder[]> {
   return reminders;
 }
 
+// Contributions still owed after the due date
+const OVERDUE_PAYMENT_STATUSES = ['pending', 'late'];
+
 /**
  * Get reminders for overdue payments
  */
 async function getOverduePaymentReminders(): Promise<PendingReminder[]> {
   const PoolModel = getPoolModel();
   const ReminderSchedule = getReminderScheduleModel();
-  const SentReminder = getSentReminderModel();
-  const NotificationPreference = getNotificationPreferenceModel();
 
   const reminders: PendingReminder[] = [];
   const now = new Date();
@@ -321,13 +357,11 @@ async function getOverduePaymentReminders(): Promise<PendingReminder[]> {
 
     // Find members with overdue payments
     const overduePayments = pool.currentRoundPayments?.filter(
-      (p: { status: string; dueDate: Date }) => p.status === 'pending' && p.dueDate && new Date(p.dueDate) < now
+      (p: { status: string; dueDate: Date }) =>
+        OVERDUE_PAYMENT_STATUSES.includes(p.status) && p.dueDate && new Date(p.dueDate) < now
     ) || [];
 
     for (const payment of overduePayments) {
-      const member = pool.members.find((m: { id: number }) => m.id === payment.memberId);
-      if (!member || !member.userId) continue;
-
       const overdueSince = new Date(payment.dueDate);
 
       for (const schedule of schedules) {
@@ -344,48 +378,110 @@ async function getOverduePaymentReminders(): Promise<PendingReminder[]> {
           continue;
         }
 
-        const preferences = await NotificationPreference.findOne({ userId: member.userId });
+        reminders.push(...await buildOverdueReminders(pool, payment, schedule));
+      }
+    }
+  }
 
-        if (preferences && isPoolMuted(preferences as NotificationPreferenceDocument, pool.id)) {
-          continue;
-        }
+  return reminders;
+}
 
-        const channels = preferences
-          ? getEffectiveChannels(preferences as NotificationPreferenceDocument, ReminderType.PAYMENT_OVERDUE)
-          : [ReminderChannel.EMAIL];
+/**
+ * Get overdue reminders for payments that were just marked late
+ *
+ * Sent right away instead of waiting for the schedule's timing. Uses the
+ * pool's earliest overdue schedule, so the scheduled reminder for the same
+ * due date isn't sent again.
+ */
+export async function getLatePaymentReminders(
+  pool: any,
+  memberIds: number[]
+): Promise<PendingReminder[]> {
+  await connectToDatabase();
+  const ReminderSchedule = getReminderScheduleModel();
 
-        if (channels.length === 0) continue;
+  const schedule = await ReminderSchedule.findOne({
+    poolId: pool.id,
+    type: ReminderType.PAYMENT_OVERDUE,
+    isActive: true,
+  }).sort({ timingValue: 1 });
 
-        // Don't skip quiet hours for overdue reminders - they're important
+  if (!schedule) return [];
 
-        for (const channel of channels) {
-          const existingReminder = await SentReminder.findOne({
-            scheduleId: schedule._id,
-            userId: member.userId,
-            eventDate: overdueSince,
-            channel,
-          });
+  const reminders: PendingReminder[] = [];
+  const latePayments = (pool.currentRoundPayments || []).filter(
+    (p: { memberId: number; dueDate?: Date }) => memberIds.includes(p.memberId) && p.dueDate
+  );
 
-          if (!existingReminder) {
-            reminders.push({
-              scheduleId: schedule._id as mongoose.Types.ObjectId,
-              poolId: pool.id,
-              poolName: pool.name,
-              userId: member.userId,
-              memberName: member.name,
-              memberEmail: member.email,
-              type: ReminderType.PAYMENT_OVERDUE,
-              round: pool.currentRound,
-              channel,
-              eventDate: overdueSince,
-              customSubject: schedule.customSubject,
-              customMessage: schedule.customMessage,
-              contributionAmount: pool.contributionAmount,
-              frequency: pool.frequency,
-            });
-          }
-        }
-      }
+  for (const payment of latePayments) {
+    reminders.push(...await buildOverdueReminders(pool, payment, schedule));
+  }
+
+  return reminders;
+}
+
+/**
+ * Build a member's overdue reminders for one schedule, honoring their
+ * preferences and skipping channels already sent for this due date
+ */
+async function buildOverdueReminders(
+  pool: any,
+  payment: { memberId: number; dueDate: Date },
+  schedule: ReminderScheduleDocument
+): Promise<PendingReminder[]> {
+  const SentReminder = getSentReminderModel();
+  const NotificationPreference = getNotificationPreferenceModel();
+
+  const member = pool.members.find((m: { id: number }) => m.id === payment.memberId);
+  if (!member || !member.userId) return [];
+
+  const overdueSince = new Date(payment.dueDate);
+  const preferences = await NotificationPreference.findOne({ userId: member.userId });
+
+  if (preferences && isPoolMuted(preferences as NotificationPreferenceDocument, pool.id)) {
+    return [];
+  }
+
+  const channels = preferences
+    ? getEffectiveChannels(preferences as NotificationPreferenceDocument, ReminderType.PAYMENT_OVERDUE)
+    : [ReminderChannel.EMAIL];
+
+  if (channels.length === 0) return [];
+
+  const baseReminder: Omit<PendingReminder, 'channel'> = {
+    scheduleId: schedule._id as mongoose.Types.ObjectId,
+    poolId: pool.id,
+    poolName: pool.name,
+    userId: member.userId,
+    memberName: member.name,
+    memberEmail: member.email,
+    type: ReminderType.PAYMENT_OVERDUE,
+    round: pool.currentRound,
+    eventDate: overdueSince,
+    customSubject: schedule.customSubject,
+    customMessage: schedule.customMessage,
+    contributionAmount: pool.contributionAmount,
+    currency: pool.currency,
+    frequency: pool.frequency,
+  };
+
+  if (preferences && await deferToDigest(preferences as NotificationPreferenceDocument, baseReminder)) {
+    return [];
+  }
+
+  // Don't skip quiet hours for overdue reminders - they're important
+
+  const reminders: PendingReminder[] = [];
+  for (const channel of channels) {
+    const existingReminder = await SentReminder.findOne({
+      scheduleId: schedule._id,
+      userId: member.userId,
+      eventDate: overdueSince,
+      channel,
+    });
+
+    if (!existingReminder) {
+      reminders.push({ ...baseReminder, channel });
     }
   }
 
@@ -527,6 +623,7 @@ export async function getReminderStats(): Promise<{
 
 export default {
   getPendingReminders,
+  getLatePaymentReminders,
   createDefaultReminderSchedules,
   getReminderStats,
 };
@@ -1,4 +1,3 @@
-import nodemailer from 'nodemailer';
 import connectToDatabase from '../db/connect';
 import {
   getSentReminderModel,
@@ -6,7 +5,15 @@ import {
   ReminderChannel,
   SentReminderDocument,
 } from '../db/models/reminder';
+import { getUserModel } from '../db/models/user';
+import { getNotificationPreferenceModel } from '../db/models/notificationPreference';
+import { getEmailService } from '../email/index';
+import { getSmsService, getSmsDailyLimit, maskPhoneNumber, SMS_REPLY_FOOTER } from '../sms';
+import { isPushConfigured, sendPushToSubscriptions, PushPayload, PushSubscriptionRecord } from '../push';
 import { PendingReminder } from './scheduler';
+import { DEFAULT_LOCALE } from '../../types/i18n';
+import { createTranslator, formatCurrency, formatDate } from '../i18n';
+import { getUserLocales } from '../i18n/recipients';
 
 /**
  * ReminderSender - Sends reminders through various channels
@@ -18,27 +25,6 @@ import { PendingReminder } from './scheduler';
  * 4. Recording sent reminders for tracking and deduplication
  */
 
-// Email transporter (lazy initialization)
-let emailTransporter: nodemailer.Transporter | null = null;
-
-function getEmailTransporter(): nodemailer.Transporter | null {
-  if (!emailTransporter) {
-    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
-      console.warn('[Sender] Email credentials not configured');
-      return null;
-    }
-
-    emailTransporter = nodemailer.createTransport({
-      service: 'gmail',
-      auth: {
-        user: process.env.EMAIL_USER,
-        pass: process.env.EMAIL_PASSWORD,
-      },
-    });
-  }
-  return emailTransporter;
-}
-
 // Message templates for each reminder type
 interface ReminderTemplate {
   subject: string;
@@ -47,93 +33,92 @@ interface ReminderTemplate {
 }
 
 function getPaymentDueTemplate(reminder: PendingReminder): ReminderTemplate {
+  const locale = reminder.locale || DEFAULT_LOCALE;
+  const t = createTranslator(locale);
   const daysUntil = Math.ceil(
     (reminder.eventDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
   );
-  const dueDate = reminder.eventDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const dueDate = formatDate(reminder.eventDate, locale, 'long');
+  const amount = formatCurrency(reminder.contributionAmount, locale, reminder.currency);
+  const round = reminder.round || t('reminder.currentRound');
 
   const urgencyText = daysUntil <= 0
-    ? 'TODAY'
+    ? t('reminder.due.today').toLocaleUpperCase(locale)
     : daysUntil === 1
-      ? 'tomorrow'
-      : `in ${daysUntil} days`;
+      ? t('reminder.due.tomorrow')
+      : t('reminder.due.inDays', { count: daysUntil });
 
   const subject = reminder.customSubject ||
-    `Payment Reminder: $${reminder.contributionAmount} due ${urgencyText} for ${reminder.poolName}`;
+    t('reminder.paymentDue.subject', { amount, when: urgencyText, pool: reminder.poolName });
 
   const textBody = reminder.customMessage || `
-Hi ${reminder.memberName},
+${t('email.greeting', { name: reminder.memberName })}
 
-This is a friendly reminder that your contribution of $${reminder.contributionAmount} for the "${reminder.poolName}" pool is due ${urgencyText} (${dueDate}).
+${t('reminder.paymentDue.body', { amount, pool: reminder.poolName, when: urgencyText, date: dueDate })}
 
-Round ${reminder.round || 'current'} is in progress, and we need everyone's contribution to complete the payout.
+${t('reminder.paymentDue.roundInProgress', { round })}
 
-Please make your payment as soon as possible to avoid any delays.
+${t('reminder.paymentDue.payPrompt')}
 
-Thank you for being part of this pool!
+${t('reminder.thanks')}
 
-Best regards,
+${t('reminder.regards')}
 Juntas Seguras
 `.trim();
 
   const htmlBody = `
 <!DOCTYPE html>
-<html>
+<html lang="${locale}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
 </head>
 <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
   <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; border-radius: 10px 10px 0 0;">
-    <h1 style="color: white; margin: 0;">Payment Reminder</h1>
+    <h1 style="color: white; margin: 0;">${t('reminder.paymentDue.title')}</h1>
   </div>
 
   <div style="background: #f9f9f9; padding: 20px; border-radius: 0 0 10px 10px;">
-    <p>Hi <strong>${reminder.memberName}</strong>,</p>
+    <p>${t('email.greeting', { name: `<strong>${reminder.memberName}</strong>` })}</p>
 
-    <p>This is a friendly reminder that your contribution is due <strong style="color: ${daysUntil <= 1 ? '#e53e3e' : '#667eea'};">${urgencyText}</strong>.</p>
+    <p>${t('reminder.paymentDue.bodyShort', { when: `<strong style="color: ${daysUntil <= 1 ? '#e53e3e' : '#667eea'};">${urgencyText}</strong>` })}</p>
 
     <div style="background: white; border: 1px solid #e2e8f0; border-radius: 8px; padding: 15px; margin: 20px 0;">
       <table style="width: 100%; border-collapse: collapse;">
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Pool:</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.pool')}:</td>
           <td style="padding: 8px 0; text-align: right; font-weight: bold;">${reminder.poolName}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Amount Due:</td>
-          <td style="padding: 8px 0; text-align: right; font-weight: bold; color: #667eea;">$${reminder.contributionAmount}</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.amountDue')}:</td>
+          <td style="padding: 8px 0; text-align: right; font-weight: bold; color: #667eea;">${amount}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Due Date:</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.dueDate')}:</td>
           <td style="padding: 8px 0; text-align: right;">${dueDate}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Round:</td>
-          <td style="padding: 8px 0; text-align: right;">${reminder.round || 'Current'}</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.round')}:</td>
+          <td style="padding: 8px 0; text-align: right;">${round}</td>
         </tr>
       </table>
     </div>
 
-    <p>Please make your payment as soon as possible to avoid any delays in the payout.</p>
+    <p>${t('reminder.paymentDue.payPrompt')}</p>
 
     <div style="text-align: center; margin: 30px 0;">
       <a href="${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/pools/${reminder.poolId}"
          style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 12px 30px; text-decoration: none; border-radius: 25px; font-weight: bold; display: inline-block;">
-        Make Payment
+        ${t('reminder.paymentDue.cta')}
       </a>
     </div>
 
-    <p style="color: #718096; font-size: 14px;">Thank you for being part of this pool!</p>
+    <p style="color: #718096; font-size: 14px;">${t('reminder.thanks')}</p>
   </div>
 
   <div style="text-align: center; padding: 20px; color: #a0aec0; font-size: 12px;">
-    <p>This is an automated message from Juntas Seguras.</p>
-    <p>If you no longer wish to receive these reminders, you can update your notification preferences in your account settings.</p>
+    <p>${t('email.automatedMessage')}</p>
+    <p>${t('reminder.optOut')}</p>
   </div>
 </body>
 </html>
@@ -143,84 +128,83 @@ Juntas Seguras
 }
 
 function getPaymentOverdueTemplate(reminder: PendingReminder): ReminderTemplate {
+  const locale = reminder.locale || DEFAULT_LOCALE;
+  const t = createTranslator(locale);
   const daysSince = Math.ceil(
     (Date.now() - reminder.eventDate.getTime()) / (1000 * 60 * 60 * 24)
   );
-  const dueDate = reminder.eventDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const dueDate = formatDate(reminder.eventDate, locale, 'long');
+  const amount = formatCurrency(reminder.contributionAmount, locale, reminder.currency);
+  const ago = t('reminder.daysAgo', { count: daysSince });
 
   const subject = reminder.customSubject ||
-    `⚠️ Overdue Payment: $${reminder.contributionAmount} was due ${daysSince} day${daysSince !== 1 ? 's' : ''} ago`;
+    t('reminder.paymentOverdue.subject', { amount, ago });
 
   const textBody = reminder.customMessage || `
-Hi ${reminder.memberName},
+${t('email.greeting', { name: reminder.memberName })}
 
-Your contribution of $${reminder.contributionAmount} for the "${reminder.poolName}" pool was due on ${dueDate} - that's ${daysSince} day${daysSince !== 1 ? 's' : ''} ago.
+${t('reminder.paymentOverdue.body', { amount, pool: reminder.poolName, date: dueDate, ago })}
 
-Late payments affect the entire pool and can delay payouts for other members. Please make your payment as soon as possible.
+${t('reminder.paymentOverdue.impact')}
 
-If you're experiencing difficulties, please reach out to your pool administrator.
+${t('reminder.paymentOverdue.difficulties')}
 
-Thank you,
+${t('reminder.thankYou')}
 Juntas Seguras
 `.trim();
 
   const htmlBody = `
 <!DOCTYPE html>
-<html>
+<html lang="${locale}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
 </head>
 <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
   <div style="background: linear-gradient(135deg, #e53e3e 0%, #c53030 100%); padding: 20px; border-radius: 10px 10px 0 0;">
-    <h1 style="color: white; margin: 0;">⚠️ Payment Overdue</h1>
+    <h1 style="color: white; margin: 0;">${t('reminder.paymentOverdue.title')}</h1>
   </div>
 
   <div style="background: #fff5f5; padding: 20px; border-radius: 0 0 10px 10px;">
-    <p>Hi <strong>${reminder.memberName}</strong>,</p>
+    <p>${t('email.greeting', { name: `<strong>${reminder.memberName}</strong>` })}</p>
 
-    <p>Your contribution was due on <strong>${dueDate}</strong> - that's <strong style="color: #e53e3e;">${daysSince} day${daysSince !== 1 ? 's' : ''} ago</strong>.</p>
+    <p>${t('reminder.paymentOverdue.bodyShort', { date: `<strong>${dueDate}</strong>`, ago: `<strong style="color: #e53e3e;">${ago}</strong>` })}</p>
 
     <div style="background: white; border: 2px solid #e53e3e; border-radius: 8px; padding: 15px; margin: 20px 0;">
       <table style="width: 100%; border-collapse: collapse;">
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Pool:</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.pool')}:</td>
           <td style="padding: 8px 0; text-align: right; font-weight: bold;">${reminder.poolName}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Amount Due:</td>
-          <td style="padding: 8px 0; text-align: right; font-weight: bold; color: #e53e3e;">$${reminder.contributionAmount}</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.amountDue')}:</td>
+          <td style="padding: 8px 0; text-align: right; font-weight: bold; color: #e53e3e;">${amount}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Due Date:</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.dueDate')}:</td>
           <td style="padding: 8px 0; text-align: right; color: #e53e3e;">${dueDate}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Days Overdue:</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.daysOverdue')}:</td>
           <td style="padding: 8px 0; text-align: right; font-weight: bold; color: #e53e3e;">${daysSince}</td>
         </tr>
       </table>
     </div>
 
-    <p><strong>Late payments affect the entire pool</strong> and can delay payouts for other members who are counting on receiving their funds.</p>
+    <p>${t('reminder.paymentOverdue.impact')}</p>
 
     <div style="text-align: center; margin: 30px 0;">
       <a href="${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/pools/${reminder.poolId}"
          style="background: linear-gradient(135deg, #e53e3e 0%, #c53030 100%); color: white; padding: 12px 30px; text-decoration: none; border-radius: 25px; font-weight: bold; display: inline-block;">
-        Pay Now
+        ${t('reminder.paymentOverdue.cta')}
       </a>
     </div>
 
-    <p style="color: #718096; font-size: 14px;">If you're experiencing difficulties, please reach out to your pool administrator.</p>
+    <p style="color: #718096; font-size: 14px;">${t('reminder.paymentOverdue.difficulties')}</p>
   </div>
 
   <div style="text-align: center; padding: 20px; color: #a0aec0; font-size: 12px;">
-    <p>This is an automated message from Juntas Seguras.</p>
+    <p>${t('email.automatedMessage')}</p>
   </div>
 </body>
 </html>
@@ -230,80 +214,76 @@ Juntas Seguras
 }
 
 function getPayoutComingTemplate(reminder: PendingReminder): ReminderTemplate {
-  const payoutDate = reminder.eventDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-  const totalPayout = reminder.contributionAmount * (reminder.recipientPosition ? reminder.recipientPosition : 1);
+  const locale = reminder.locale || DEFAULT_LOCALE;
+  const t = createTranslator(locale);
+  const payoutDate = formatDate(reminder.eventDate, locale, 'long');
 
   const subject = reminder.customSubject ||
-    `🎉 Your payout is coming! ${reminder.poolName}`;
+    t('reminder.payoutComing.subject', { pool: reminder.poolName });
 
   const textBody = reminder.customMessage || `
-Hi ${reminder.memberName},
+${t('email.greeting', { name: reminder.memberName })}
 
-Great news! You're scheduled to receive your payout from the "${reminder.poolName}" pool on ${payoutDate}.
+${t('reminder.payoutComing.body', { pool: reminder.poolName, date: payoutDate })}
 
-Make sure your payout method is up to date in your profile so you can receive your funds quickly.
+${t('reminder.payoutComing.checkMethod')}
 
-Thank you for being part of this pool!
+${t('reminder.thanks')}
 
-Best regards,
+${t('reminder.regards')}
 Juntas Seguras
 `.trim();
 
   const htmlBody = `
 <!DOCTYPE html>
-<html>
+<html lang="${locale}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
 </head>
 <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
   <div style="background: linear-gradient(135deg, #48bb78 0%, #38a169 100%); padding: 20px; border-radius: 10px 10px 0 0;">
-    <h1 style="color: white; margin: 0;">🎉 Your Payout is Coming!</h1>
+    <h1 style="color: white; margin: 0;">${t('reminder.payoutComing.title')}</h1>
   </div>
 
   <div style="background: #f0fff4; padding: 20px; border-radius: 0 0 10px 10px;">
-    <p>Hi <strong>${reminder.memberName}</strong>,</p>
+    <p>${t('email.greeting', { name: `<strong>${reminder.memberName}</strong>` })}</p>
 
-    <p>Great news! You're scheduled to receive your payout soon.</p>
+    <p>${t('reminder.payoutComing.bodyShort')}</p>
 
     <div style="background: white; border: 2px solid #48bb78; border-radius: 8px; padding: 15px; margin: 20px 0;">
       <table style="width: 100%; border-collapse: collapse;">
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Pool:</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.pool')}:</td>
           <td style="padding: 8px 0; text-align: right; font-weight: bold;">${reminder.poolName}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Payout Date:</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.payoutDate')}:</td>
           <td style="padding: 8px 0; text-align: right; font-weight: bold; color: #48bb78;">${payoutDate}</td>
         </tr>
         <tr>
-          <td style="padding: 8px 0; color: #718096;">Round:</td>
-          <td style="padding: 8px 0; text-align: right;">${reminder.round || 'Current'}</td>
+          <td style="padding: 8px 0; color: #718096;">${t('reminder.round')}:</td>
+          <td style="padding: 8px 0; text-align: right;">${reminder.round || t('reminder.currentRound')}</td>
         </tr>
       </table>
     </div>
 
     <div style="background: #c6f6d5; border-radius: 8px; padding: 15px; margin: 20px 0; text-align: center;">
-      <p style="margin: 0; color: #276749;">Make sure your payout method is up to date!</p>
+      <p style="margin: 0; color: #276749;">${t('reminder.payoutComing.checkMethodShort')}</p>
     </div>
 
     <div style="text-align: center; margin: 30px 0;">
       <a href="${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/settings"
          style="background: linear-gradient(135deg, #48bb78 0%, #38a169 100%); color: white; padding: 12px 30px; text-decoration: none; border-radius: 25px; font-weight: bold; display: inline-block;">
-        Update Payout Method
+        ${t('reminder.payoutComing.cta')}
       </a>
     </div>
 
-    <p style="color: #718096; font-size: 14px;">Thank you for being part of this pool!</p>
+    <p style="color: #718096; font-size: 14px;">${t('reminder.thanks')}</p>
   </div>
 
   <div style="text-align: center; padding: 20px; color: #a0aec0; font-size: 12px;">
-    <p>This is an automated message from Juntas Seguras.</p>
+    <p>${t('email.automatedMessage')}</p>
   </div>
 </body>
 </html>
@@ -320,42 +300,53 @@ function getReminderTemplate(reminder: PendingReminder): ReminderTemplate {
       return getPaymentOverdueTemplate(reminder);
     case ReminderType.PAYOUT_COMING:
       return getPayoutComingTemplate(reminder);
-    default:
+    default: {
       // Generic template for other types
+      const t = createTranslator(reminder.locale || DEFAULT_LOCALE);
+      const message = reminder.customMessage || t('reminder.generic.body');
       return {
-        subject: `Notification from ${reminder.poolName}`,
-        textBody: reminder.customMessage || 'You have a notification from your pool.',
-        htmlBody: `<p>${reminder.customMessage || 'You have a notification from your pool.'}</p>`,
+        subject: t('reminder.generic.subject', { pool: reminder.poolName }),
+        textBody: message,
+        htmlBody: `<p>${message}</p>`,
       };
+    }
   }
 }
 
 /**
  * Send a single reminder via email
+ *
+ * Goes through the email queue, so a reminder whose first attempt failed but
+ * was queued for a retry counts as sent here.
  */
 async function sendEmailReminder(reminder: PendingReminder): Promise<{
   success: boolean;
   messageId?: string;
   error?: string;
 }> {
-  const transporter = getEmailTransporter();
-  if (!transporter) {
-    return { success: false, error: 'Email transporter not configured' };
+  const emailService = getEmailService();
+  if (!emailService.isConfigured()) {
+    return { success: false, error: 'Email provider not configured' };
   }
 
   const template = getReminderTemplate(reminder);
 
   try {
-    const result = await transporter.sendMail({
-      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+    const result = await emailService.send({
       to: reminder.memberEmail,
       subject: template.subject,
       text: template.textBody,
       html: template.htmlBody,
+      tags: ['reminder', reminder.type],
     });
 
-    console.log(`[Sender] Email sent to ${reminder.memberEmail}: ${result.messageId}`);
-    return { success: true, messageId: result.messageId };
+    if (!result.success) {
+      console.error(`[Sender] Failed to send email to ${reminder.memberEmail}:`, result.error);
+      return { success: false, error: result.error };
+    }
+
+    console.log(`[Sender] Email ${result.status === 'queued' ? 'queued' : 'sent'} to ${reminder.memberEmail}: ${result.messageId || result.queueId}`);
+    return { success: true, messageId: result.messageId || result.queueId };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[Sender] Failed to send email to ${reminder.memberEmail}:`, errorMessage);
@@ -364,29 +355,150 @@ async function sendEmailReminder(reminder: PendingReminder): Promise<{
 }
 
 /**
- * Send a single reminder via SMS (placeholder - requires Twilio integration)
+ * Send a single reminder via SMS
+ *
+ * Only texts users with a verified phone number who have not replied STOP,
+ * and at most SMS_DAILY_LIMIT reminder texts per user per day.
  */
 async function sendSmsReminder(reminder: PendingReminder): Promise<{
   success: boolean;
   messageId?: string;
   error?: string;
 }> {
-  // TODO: Implement Twilio SMS integration
-  console.log(`[Sender] SMS not implemented yet. Would send to ${reminder.memberName}`);
-  return { success: false, error: 'SMS not implemented' };
+  const smsService = getSmsService();
+  if (!smsService.isConfigured()) {
+    return { success: false, error: 'SMS provider not configured' };
+  }
+
+  const user = await getUserModel()
+    .findById(reminder.userId)
+    .select('phone phoneVerified smsOptOut');
+
+  if (!user?.phone || !user.phoneVerified) {
+    return { success: false, error: 'No verified phone number' };
+  }
+  if (user.smsOptOut) {
+    return { success: false, error: 'Recipient opted out of SMS' };
+  }
+
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  const sentToday = await getSentReminderModel().countDocuments({
+    userId: reminder.userId,
+    channel: ReminderChannel.SMS,
+    status: { $in: ['sent', 'delivered'] },
+    sentAt: { $gte: startOfDay },
+  });
+  if (sentToday >= getSmsDailyLimit()) {
+    return { success: false, error: 'Daily SMS limit reached' };
+  }
+
+  const template = getReminderTemplate(reminder);
+  const result = await smsService.send({
+    to: user.phone,
+    body: `${template.subject}. ${SMS_REPLY_FOOTER}`,
+  });
+
+  if (!result.success) {
+    console.error(`[Sender] Failed to send SMS to ${maskPhoneNumber(user.phone)}:`, result.error);
+    return { success: false, error: result.error };
+  }
+
+  console.log(`[Sender] SMS sent to ${maskPhoneNumber(user.phone)}: ${result.messageId}`);
+  return { success: true, messageId: result.messageId };
+}
+
+/**
+ * Build the short summary of a reminder shown in push notifications and digests
+ */
+export function getReminderPushPayload(reminder: PendingReminder): PushPayload {
+  const locale = reminder.locale || DEFAULT_LOCALE;
+  const t = createTranslator(locale);
+  const poolUrl = `/pools/${reminder.poolId}`;
+  const round = reminder.round ? t('reminder.push.round', { round: reminder.round }) : t('reminder.push.thisRound');
+  const date = formatDate(reminder.eventDate, locale, 'medium');
+  const amount = formatCurrency(reminder.contributionAmount, locale, reminder.currency);
+  const base = {
+    type: reminder.type,
+    tag: `${reminder.type}-${reminder.poolId}-${reminder.round ?? 'current'}`,
+  };
+
+  switch (reminder.type) {
+    case ReminderType.PAYMENT_DUE:
+      return {
+        ...base,
+        title: reminder.customSubject || t('reminder.push.paymentDue.title', { pool: reminder.poolName }),
+        body: t('reminder.push.paymentDue.body', { amount, round, date }),
+        url: `${poolUrl}?tab=contributions`,
+      };
+    case ReminderType.PAYMENT_OVERDUE:
+      return {
+        ...base,
+        title: reminder.customSubject || t('reminder.push.paymentOverdue.title', { pool: reminder.poolName }),
+        body: t('reminder.push.paymentOverdue.body', { amount, round, date }),
+        url: `${poolUrl}?tab=contributions`,
+      };
+    case ReminderType.PAYOUT_COMING:
+      return {
+        ...base,
+        title: reminder.customSubject || t('reminder.push.payoutComing.title', { pool: reminder.poolName }),
+        body: t('reminder.push.payoutComing.body', { round, date }),
+        url: `${poolUrl}?tab=payouts`,
+      };
+    default: {
+      const template = getReminderTemplate(reminder);
+      return {
+        ...base,
+        title: template.subject,
+        body: reminder.customMessage || t('reminder.generic.body'),
+        url: poolUrl,
+      };
+    }
+  }
 }
 
 /**
- * Send a single reminder via push notification (placeholder)
+ * Send a single reminder via web push to every subscribed device.
+ * Subscriptions the push service reports as gone are removed.
  */
 async function sendPushReminder(reminder: PendingReminder): Promise<{
   success: boolean;
   messageId?: string;
   error?: string;
 }> {
-  // TODO: Implement web push notifications
-  console.log(`[Sender] Push notifications not implemented yet. Would send to ${reminder.memberName}`);
-  return { success: false, error: 'Push notifications not implemented' };
+  if (!isPushConfigured()) {
+    return { success: false, error: 'Push notifications not configured' };
+  }
+
+  const NotificationPreference = getNotificationPreferenceModel();
+  const preferences = await NotificationPreference.findOne({ userId: reminder.userId }).select('push');
+  const subscriptions = (preferences?.push?.subscriptions || []) as PushSubscriptionRecord[];
+
+  if (subscriptions.length === 0) {
+    return { success: false, error: 'No push subscriptions' };
+  }
+
+  const urgency = reminder.type === ReminderType.PAYMENT_OVERDUE ? 'high' : 'normal';
+  const result = await sendPushToSubscriptions(subscriptions, getReminderPushPayload(reminder), { urgency });
+
+  if (result.expiredEndpoints.length > 0) {
+    const allExpired = result.expiredEndpoints.length === subscriptions.length;
+    await NotificationPreference.updateOne(
+      { userId: reminder.userId },
+      {
+        $pull: { 'push.subscriptions': { endpoint: { $in: result.expiredEndpoints } } },
+        ...(allExpired && { $set: { 'push.enabled': false } }),
+      }
+    );
+    console.log(`[Sender] Removed ${result.expiredEndpoints.length} expired push subscriptions for ${reminder.memberName}`);
+  }
+
+  if (result.sent === 0) {
+    return { success: false, error: result.errors[0] || 'All push subscriptions have expired' };
+  }
+
+  console.log(`[Sender] Push sent to ${result.sent} devices for ${reminder.memberName}`);
+  return { success: true, messageId: `push_${Date.now()}` };
 }
 
 /**
@@ -473,6 +585,12 @@ export async function processReminders(reminders: PendingReminder[]): Promise<{
     errors: [] as string[],
   };
 
+  // Write each reminder in its recipient's language
+  const locales = await getUserLocales(reminders.filter(r => !r.locale).map(r => r.userId));
+  for (const reminder of reminders) {
+    reminder.locale = reminder.locale || locales.get(reminder.userId.toString());
+  }
+
   for (const reminder of reminders) {
     try {
       const result = await sendReminder(reminder);
@@ -546,6 +664,8 @@ export async function retryFailedReminders(maxRetries: number = 3): Promise<{
     if (result.success) {
       failedReminder.externalMessageId = result.messageId;
       failedReminder.failureReason = undefined;
+      failedReminder.deliveryStatus = undefined;
+      failedReminder.deliveryErrorCode = undefined;
       results.succeeded++;
     } else {
       failedReminder.failureReason = result.error;
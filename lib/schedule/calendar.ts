@@ -0,0 +1,148 @@
+/**
+ * Calendar dates and time zones
+ *
+ * Schedule math works on calendar dates (year, month, day) so that "monthly
+ * on the 31st" or "every Friday" never drifts with daylight saving or the
+ * server's own time zone. Dates only become instants at the end, in the
+ * pool's IANA time zone, using the built-in Intl API.
+ */
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the name is an IANA time zone this runtime knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timezone: string): CalendarDate & TimeOfDay {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * The instant a wall-clock date and time happens in a time zone
+ *
+ * Times skipped by a daylight saving change resolve to the hour after.
+ */
+export function zonedTimeToUtc(date: CalendarDate, time: TimeOfDay, timezone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute, time.second);
+
+  // The offset at the wall-clock time is a guess; re-check it at the result
+  const guess = wallClock - getTimezoneOffsetMs(new Date(wallClock), timezone);
+  return new Date(wallClock - getTimezoneOffsetMs(new Date(guess), timezone));
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Day of the week, 0 = Sunday
+ */
+export function getWeekday(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const result = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+  return { year: result.getUTCFullYear(), month: result.getUTCMonth() + 1, day: result.getUTCDate() };
+}
+
+/**
+ * Add months, keeping the day of the month where it exists (Jan 31 + 1 = Feb 28/29)
+ */
+export function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const index = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
+
+export function formatCalendarDate(date: CalendarDate): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string, rejecting dates that don't exist
+ */
+export function parseCalendarDate(value: string): CalendarDate | null {
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const date = { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) };
+  if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > daysInMonth(date.year, date.month)) {
+    return null;
+  }
+  return date;
+}
+
+export function isCalendarDateString(value: string): boolean {
+  return CALENDAR_DATE_PATTERN.test(value);
+}
@@ -0,0 +1,456 @@
+/**
+ * Pool schedule engine
+ *
+ * Every round's payout date and contribution due date is derived from the
+ * pool's startDate, frequency, and schedule settings, never from "now". An
+ * admin paying out a day late therefore doesn't push later rounds back.
+ *
+ * Round 1 pays out on the first scheduled date on or after the start date:
+ * - interval: the start date, then every week, two weeks, or month after it
+ * - weekday: the first matching weekday, then every one or two weeks
+ * - month_days: each listed day of every month (the 1st and 15th = two rounds a month)
+ * - month_weekday: the nth or last weekday of every month
+ *
+ * Dates that fall on a pool holiday are kept, skipped, or shifted to the
+ * nearest non-holiday. All calendar math happens in the pool's time zone.
+ *
+ * A schedule restart (recorded when a paused pool resumes) starts the
+ * remaining rounds over from a new date, with the same rules.
+ *
+ * The engine is pure, so the pool pages use it to preview dates too.
+ */
+
+import {
+  ScheduleAnchorType,
+  HolidayRule,
+  PoolScheduleSettings,
+} from '../../types/pool';
+import {
+  CalendarDate,
+  TimeOfDay,
+  addDays,
+  addMonths,
+  compareDates,
+  daysInMonth,
+  formatCalendarDate,
+  getWeekday,
+  getZonedParts,
+  isCalendarDateString,
+  isValidTimezone,
+  parseCalendarDate,
+  zonedTimeToUtc,
+} from './calendar';
+
+export const DEFAULT_SCHEDULE: PoolScheduleSettings = {
+  timezone: 'UTC',
+  anchor: ScheduleAnchorType.INTERVAL,
+  holidays: [],
+  holidayRule: HolidayRule.NONE,
+  contributionLeadDays: 0,
+};
+
+export const SCHEDULE_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const;
+export type ScheduleFrequency = typeof SCHEDULE_FREQUENCIES[number];
+
+export const MAX_HOLIDAYS = 100;
+export const MAX_MONTH_DAYS = 4;
+export const MAX_CONTRIBUTION_LEAD_DAYS = 14;
+
+// Generous bound so a schedule whose every date is a skipped holiday still ends
+const MAX_SCHEDULE_DATES = 5000;
+
+/**
+ * Anything with the fields the engine reads: a Pool document, a lean pool,
+ * or the pool being created
+ */
+export interface ScheduleSource {
+  frequency?: string;
+  startDate?: Date | string | null;
+  createdAt?: Date | string | null;
+  schedule?: Partial<PoolScheduleSettings> | null;
+  scheduleRestarts?: { round: number; startDate: Date | string }[] | null;
+}
+
+export interface RoundDates {
+  round: number;
+  payoutDate: Date;
+  dueDate: Date;
+  payoutDay: string;        // YYYY-MM-DD in the pool time zone
+  dueDay: string;
+  shiftedForHoliday: boolean;
+}
+
+interface ScheduledDate {
+  date: CalendarDate;
+  shifted: boolean;
+}
+
+/**
+ * Normalize a pool frequency; unknown values fall back to weekly
+ */
+export function getScheduleFrequency(frequency?: string): ScheduleFrequency {
+  const normalized = frequency?.toLowerCase() as ScheduleFrequency;
+  return SCHEDULE_FREQUENCIES.includes(normalized) ? normalized : 'weekly';
+}
+
+/**
+ * Get a pool's schedule settings, filling in defaults for anything unset
+ */
+export function getScheduleSettings(source: Pick<ScheduleSource, 'schedule'>): PoolScheduleSettings {
+  const schedule = source.schedule || {};
+  return {
+    timezone: schedule.timezone || DEFAULT_SCHEDULE.timezone,
+    anchor: schedule.anchor || DEFAULT_SCHEDULE.anchor,
+    ...(schedule.weekday !== undefined && schedule.weekday !== null && { weekday: schedule.weekday }),
+    ...(schedule.weekOfMonth !== undefined && schedule.weekOfMonth !== null && { weekOfMonth: schedule.weekOfMonth }),
+    ...(schedule.monthDays?.length && { monthDays: [...schedule.monthDays] }),
+    holidays: [...(schedule.holidays || [])],
+    holidayRule: schedule.holidayRule || DEFAULT_SCHEDULE.holidayRule,
+    contributionLeadDays: schedule.contributionLeadDays ?? DEFAULT_SCHEDULE.contributionLeadDays,
+  };
+}
+
+/**
+ * Validate a settings update, merged over the pool's current settings.
+ * Fields left undefined keep their current value.
+ */
+export function validateScheduleSettings(
+  updates: Partial<Record<keyof PoolScheduleSettings, unknown>>,
+  current: PoolScheduleSettings,
+  frequency?: string
+): { settings?: PoolScheduleSettings; error?: string } {
+  const defined = Object.entries(updates).filter(([, value]) => value !== undefined);
+  const settings = { ...current, ...Object.fromEntries(defined) } as PoolScheduleSettings;
+  const period = getScheduleFrequency(frequency);
+
+  if (typeof settings.timezone !== 'string' || !isValidTimezone(settings.timezone)) {
+    return { error: 'timezone must be an IANA time zone, e.g. America/New_York' };
+  }
+  if (!Object.values(ScheduleAnchorType).includes(settings.anchor)) {
+    return { error: `anchor must be one of: ${Object.values(ScheduleAnchorType).join(', ')}` };
+  }
+  if (!Object.values(HolidayRule).includes(settings.holidayRule)) {
+    return { error: `holidayRule must be one of: ${Object.values(HolidayRule).join(', ')}` };
+  }
+
+  const isMonthlyAnchor =
+    settings.anchor === ScheduleAnchorType.MONTH_DAYS || settings.anchor === ScheduleAnchorType.MONTH_WEEKDAY;
+  if (isMonthlyAnchor && period !== 'monthly') {
+    return { error: `The ${settings.anchor} anchor needs a monthly pool` };
+  }
+  if (settings.anchor === ScheduleAnchorType.WEEKDAY && period === 'monthly') {
+    return { error: 'The weekday anchor needs a weekly or biweekly pool' };
+  }
+
+  const needsWeekday =
+    settings.anchor === ScheduleAnchorType.WEEKDAY || settings.anchor === ScheduleAnchorType.MONTH_WEEKDAY;
+  if (needsWeekday && !(Number.isInteger(settings.weekday) && settings.weekday! >= 0 && settings.weekday! <= 6)) {
+    return { error: 'weekday must be 0 (Sunday) to 6 (Saturday)' };
+  }
+  if (settings.anchor === ScheduleAnchorType.MONTH_WEEKDAY) {
+    const week = settings.weekOfMonth;
+    if (!(Number.isInteger(week) && (week === -1 || (week! >= 1 && week! <= 4)))) {
+      return { error: 'weekOfMonth must be 1-4, or -1 for the last week' };
+    }
+  }
+  if (settings.anchor === ScheduleAnchorType.MONTH_DAYS) {
+    const days = settings.monthDays;
+    if (
+      !Array.isArray(days) ||
+      days.length === 0 ||
+      days.length > MAX_MONTH_DAYS ||
+      !days.every(day => Number.isInteger(day) && (day === -1 || (day >= 1 && day <= 31)))
+    ) {
+      return { error: `monthDays must list 1-${MAX_MONTH_DAYS} days from 1-31, or -1 for the last day` };
+    }
+    settings.monthDays = [...new Set(days)];
+  }
+
+  if (!Array.isArray(settings.holidays) || settings.holidays.length > MAX_HOLIDAYS) {
+    return { error: `holidays must be a list of up to ${MAX_HOLIDAYS} dates` };
+  }
+  for (const holiday of settings.holidays) {
+    if (typeof holiday !== 'string' || !parseCalendarDate(holiday)) {
+      return { error: `Invalid holiday date: ${String(holiday)} (use YYYY-MM-DD)` };
+    }
+  }
+  settings.holidays = [...new Set(settings.holidays)].sort();
+
+  const lead = settings.contributionLeadDays;
+  if (!Number.isInteger(lead) || lead < 0 || lead > MAX_CONTRIBUTION_LEAD_DAYS) {
+    return { error: `contributionLeadDays must be a whole number from 0 to ${MAX_CONTRIBUTION_LEAD_DAYS}` };
+  }
+  if (period === 'weekly' && lead >= 7) {
+    return { error: 'contributionLeadDays must be shorter than the pool period' };
+  }
+
+  // Drop anchor fields that don't apply so stale values never resurface
+  if (!needsWeekday) delete settings.weekday;
+  if (settings.anchor !== ScheduleAnchorType.MONTH_WEEKDAY) delete settings.weekOfMonth;
+  if (settings.anchor !== ScheduleAnchorType.MONTH_DAYS) delete settings.monthDays;
+
+  return { settings };
+}
+
+/**
+ * Turn a start date from the API into an instant. A plain YYYY-MM-DD date
+ * means midnight in the pool's time zone.
+ */
+export function parseScheduleStartDate(value: string, timezone: string = DEFAULT_SCHEDULE.timezone): Date | null {
+  if (isCalendarDateString(value)) {
+    const date = parseCalendarDate(value);
+    return date ? zonedTimeToUtc(date, { hour: 0, minute: 0, second: 0 }, timezone) : null;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * The start of the schedule in the pool's time zone
+ *
+ * Pools created before startDate was stored paid round 1 one period after
+ * they were created, so they count from their creation date with round 1
+ * being the second scheduled date.
+ */
+function getScheduleStart(source: ScheduleSource, timezone: string): { date: CalendarDate; time: TimeOfDay; offset: number } {
+  const startValue = source.startDate || source.createdAt;
+  const parsed = startValue ? new Date(startValue) : new Date();
+  const start = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  const parts = getZonedParts(start, timezone);
+
+  return {
+    date: { year: parts.year, month: parts.month, day: parts.day },
+    time: { hour: parts.hour, minute: parts.minute, second: parts.second },
+    offset: source.startDate ? 0 : 1,
+  };
+}
+
+function getMonthWeekday(year: number, month: number, weekday: number, weekOfMonth: number): CalendarDate {
+  if (weekOfMonth === -1) {
+    const last = { year, month, day: daysInMonth(year, month) };
+    return addDays(last, -((getWeekday(last) - weekday + 7) % 7));
+  }
+
+  const first = { year, month, day: 1 };
+  return addDays(first, (weekday - getWeekday(first) + 7) % 7 + (weekOfMonth - 1) * 7);
+}
+
+/**
+ * Scheduled dates on or after the start, before holidays are applied
+ */
+function* anchorDates(
+  frequency: ScheduleFrequency,
+  settings: PoolScheduleSettings,
+  start: CalendarDate
+): Generator<CalendarDate> {
+  const weekStep = frequency === 'biweekly' ? 14 : 7;
+
+  switch (settings.anchor) {
+    case ScheduleAnchorType.WEEKDAY: {
+      const first = addDays(start, ((settings.weekday ?? getWeekday(start)) - getWeekday(start) + 7) % 7);
+      for (let i = 0; ; i++) yield addDays(first, i * weekStep);
+    }
+
+    case ScheduleAnchorType.MONTH_DAYS: {
+      const monthDays = settings.monthDays?.length ? settings.monthDays : [start.day];
+      for (let i = 0; ; i++) {
+        const month = addMonths({ ...start, day: 1 }, i);
+        const lastDay = daysInMonth(month.year, month.month);
+        const days = [...new Set(monthDays.map(day => (day === -1 ? lastDay : Math.min(day, lastDay))))]
+          .sort((a, b) => a - b);
+        for (const day of days) {
+          const date = { ...month, day };
+          if (compareDates(date, start) >= 0) yield date;
+        }
+      }
+    }
+
+    case ScheduleAnchorType.MONTH_WEEKDAY: {
+      for (let i = 0; ; i++) {
+        const month = addMonths({ ...start, day: 1 }, i);
+        const date = getMonthWeekday(
+          month.year,
+          month.month,
+          settings.weekday ?? getWeekday(start),
+          settings.weekOfMonth ?? 1
+        );
+        if (compareDates(date, start) >= 0) yield date;
+      }
+    }
+
+    default: {
+      // Months are always added to the start date so a 31st stays the 31st where it exists
+      for (let i = 0; ; i++) {
+        yield frequency === 'monthly' ? addMonths(start, i) : addDays(start, i * weekStep);
+      }
+    }
+  }
+}
+
+/**
+ * Scheduled dates with the pool's holiday rule applied
+ */
+function* scheduledDates(
+  frequency: ScheduleFrequency,
+  settings: PoolScheduleSettings,
+  start: CalendarDate
+): Generator<ScheduledDate> {
+  const holidays = new Set(settings.holidays);
+  const isHoliday = (date: CalendarDate) => holidays.has(formatCalendarDate(date));
+  let count = 0;
+
+  for (const date of anchorDates(frequency, settings, start)) {
+    if (++count > MAX_SCHEDULE_DATES) return;
+
+    if (!isHoliday(date) || settings.holidayRule === HolidayRule.NONE) {
+      yield { date, shifted: false };
+      continue;
+    }
+    if (settings.holidayRule === HolidayRule.SKIP) continue;
+
+    const step = settings.holidayRule === HolidayRule.SHIFT_BACKWARD ? -1 : 1;
+    let shifted = date;
+    while (isHoliday(shifted)) shifted = addDays(shifted, step);
+    yield { date: shifted, shifted: true };
+  }
+}
+
+/**
+ * Dates for rounds fromRound to toRound (exclusive) of one stretch of the
+ * schedule, which starts over at firstRound
+ */
+function getSegmentRounds(
+  source: ScheduleSource,
+  settings: PoolScheduleSettings,
+  firstRound: number,
+  fromRound: number,
+  toRound: number
+): RoundDates[] {
+  const frequency = getScheduleFrequency(source.frequency);
+  const start = getScheduleStart(source, settings.timezone);
+  const rounds: RoundDates[] = [];
+
+  let index = 0;
+  for (const scheduled of scheduledDates(frequency, settings, start.date)) {
+    const round = ++index + firstRound - 1 - start.offset;
+    if (round < fromRound) continue;
+    if (round >= toRound) break;
+
+    const dueDay = addDays(scheduled.date, -settings.contributionLeadDays);
+    rounds.push({
+      round,
+      payoutDate: zonedTimeToUtc(scheduled.date, start.time, settings.timezone),
+      dueDate: zonedTimeToUtc(dueDay, start.time, settings.timezone),
+      payoutDay: formatCalendarDate(scheduled.date),
+      dueDay: formatCalendarDate(dueDay),
+      shiftedForHoliday: scheduled.shifted,
+    });
+  }
+
+  return rounds;
+}
+
+/**
+ * Get the dates of a range of rounds
+ */
+export function getScheduleRounds(source: ScheduleSource, fromRound: number, count: number): RoundDates[] {
+  const settings = getScheduleSettings(source);
+  const restarts = (source.scheduleRestarts || [])
+    .filter(restart => restart.round >= 1)
+    .sort((a, b) => a.round - b.round);
+  const rounds: RoundDates[] = [];
+
+  if (count <= 0 || fromRound < 1) return rounds;
+
+  const endRound = fromRound + count;
+  let round = fromRound;
+  while (round < endRound) {
+    const restart = restarts.filter(r => r.round <= round).pop();
+    const nextRestart = restarts.find(r => r.round > round);
+    const segmentEnd = Math.min(endRound, nextRestart ? nextRestart.round : endRound);
+
+    const segmentSource = restart ? { ...source, startDate: restart.startDate } : source;
+    const segment = getSegmentRounds(segmentSource, settings, restart ? restart.round : 1, round, segmentEnd);
+    if (segment.length === 0) break;
+
+    rounds.push(...segment);
+    round = segmentEnd;
+  }
+
+  return rounds;
+}
+
+/**
+ * The instant a round's payout falls after moving it a number of calendar
+ * days in the pool's time zone (used to restart the schedule after a pause)
+ */
+export function shiftRoundPayoutDate(source: ScheduleSource, round: number, days: number): Date {
+  const timezone = getScheduleSettings(source).timezone;
+  const parts = getZonedParts(getRoundDates(source, round).payoutDate, timezone);
+  return zonedTimeToUtc(addDays(parts, days), parts, timezone);
+}
+
+/**
+ * Get one round's payout and due dates
+ */
+export function getRoundDates(source: ScheduleSource, round: number): RoundDates {
+  const [dates] = getScheduleRounds(source, Math.max(1, round), 1);
+  if (!dates) {
+    throw new Error(`Pool schedule has no date for round ${round}`);
+  }
+  return dates;
+}
+
+/**
+ * The day a round pays out
+ */
+export function getRoundPayoutDate(source: ScheduleSource, round: number): Date {
+  return getRoundDates(source, round).payoutDate;
+}
+
+/**
+ * The day contributions for a round are due
+ */
+export function getRoundDueDate(source: ScheduleSource, round: number): Date {
+  return getRoundDates(source, round).dueDate;
+}
+
+/**
+ * Every round of a pool, 1 through totalRounds
+ */
+export function getPoolSchedule(source: ScheduleSource & { totalRounds?: number }, totalRounds?: number): RoundDates[] {
+  return getScheduleRounds(source, 1, totalRounds ?? source.totalRounds ?? 0);
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Describe a schedule in words, e.g. "Monthly on the last Friday"
+ */
+export function describeSchedule(source: ScheduleSource): string {
+  const settings = getScheduleSettings(source);
+  const frequency = getScheduleFrequency(source.frequency);
+  const label = { weekly: 'Weekly', biweekly: 'Every two weeks', monthly: 'Monthly' }[frequency];
+
+  switch (settings.anchor) {
+    case ScheduleAnchorType.WEEKDAY:
+      return `${label} on ${WEEKDAY_NAMES[settings.weekday ?? 0]}`;
+    case ScheduleAnchorType.MONTH_DAYS: {
+      const days = (settings.monthDays || []).map(day => (day === -1 ? 'last day' : ordinal(day)));
+      const list = days.length > 1 ? `${days.slice(0, -1).join(', ')} and ${days[days.length - 1]}` : days[0];
+      return `Monthly on the ${list}`;
+    }
+    case ScheduleAnchorType.MONTH_WEEKDAY: {
+      const week = settings.weekOfMonth === -1 ? 'last' : ordinal(settings.weekOfMonth ?? 1);
+      return `Monthly on the ${week} ${WEEKDAY_NAMES[settings.weekday ?? 0]}`;
+    }
+    default:
+      return label;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Pool Schedule Module
+ *
+ * Components:
+ * - engine.ts: Derives each round's payout and contribution due dates from a pool's start date,
+ *   frequency, anchor, time zone, and holiday rule
+ * - calendar.ts: Calendar date math and IANA time zone conversion
+ *
+ * Entry points:
+ * - /api/pools/[id]/schedule: schedule settings and upcoming round dates
+ * - Pool creation, member positions, payouts, round advance, and reminders all read round dates from here
+ */
+
+export {
+  DEFAULT_SCHEDULE,
+  SCHEDULE_FREQUENCIES,
+  MAX_HOLIDAYS,
+  MAX_MONTH_DAYS,
+  MAX_CONTRIBUTION_LEAD_DAYS,
+  getScheduleFrequency,
+  getScheduleSettings,
+  validateScheduleSettings,
+  parseScheduleStartDate,
+  getScheduleRounds,
+  getRoundDates,
+  getRoundPayoutDate,
+  getRoundDueDate,
+  shiftRoundPayoutDate,
+  getPoolSchedule,
+  describeSchedule,
+} from './engine';
+
+export type {
+  ScheduleFrequency,
+  ScheduleSource,
+  RoundDates,
+} from './engine';
+
+export {
+  isValidTimezone,
+  getZonedParts,
+  zonedTimeToUtc,
+  formatCalendarDate,
+  parseCalendarDate,
+} from './calendar';
+
+export type { CalendarDate, TimeOfDay } from './calendar';
@@ -0,0 +1,415 @@
+/**
+ * Security activity log
+ *
+ * A user's account activity (sign-ins, password and 2FA changes, payment
+ * methods, ...) is stored in the AuditLog collection as SECURITY_EVENT entries,
+ * with the ActivityType as the action. Each entry carries the device and
+ * location it came from and an expiry date from ACTIVITY_RETENTION_DAYS, after
+ * which MongoDB removes it.
+ *
+ * Sign-ins are compared against the user's earlier sign-ins; one from a device
+ * or location not seen before raises an in-app alert and an email.
+ */
+
+import connectToDatabase from '../db/connect';
+import { getAuditLogModel } from '../db/models/auditLog';
+import { createNotification } from '../services/notifications';
+import { getEmailService } from '../email/index';
+import type { SecurityAlertData } from '../email/types';
+import { AuditLogType } from '../../types/audit';
+import { ActivityType, ActivityLog, ActivityLogResponse } from '../../types/security';
+
+/**
+ * Days each kind of activity is kept. Changes to how the account is secured
+ * are kept longest; sign-ins are kept a year, since new-device detection
+ * compares against them.
+ */
+export const ACTIVITY_RETENTION_DAYS: Record<ActivityType, number> = {
+  [ActivityType.LOGIN]: 365,
+  [ActivityType.LOGOUT]: 365,
+  [ActivityType.PASSWORD_CHANGE]: 730,
+  [ActivityType.EMAIL_CHANGE]: 730,
+  [ActivityType.PHONE_CHANGE]: 730,
+  [ActivityType.PROFILE_UPDATE]: 180,
+  [ActivityType.SETTINGS_CHANGE]: 180,
+  [ActivityType.TWO_FACTOR_SETUP]: 730,
+  [ActivityType.TWO_FACTOR_DISABLE]: 730,
+  [ActivityType.PAYMENT_METHOD_ADD]: 365,
+  [ActivityType.PAYMENT_METHOD_REMOVE]: 365,
+  [ActivityType.POOL_JOIN]: 180,
+  [ActivityType.POOL_CREATE]: 180,
+  [ActivityType.PAYMENT_SENT]: 180,
+  [ActivityType.PAYMENT_RECEIVED]: 180,
+  [ActivityType.ACCOUNT_RECOVERY]: 730,
+  [ActivityType.SUSPICIOUS_ACTIVITY]: 730,
+  [ActivityType.PASSKEY_ADD]: 730,
+  [ActivityType.PASSKEY_REMOVE]: 730,
+  [ActivityType.BACKUP_CODE_USED]: 730,
+  [ActivityType.BACKUP_CODES_REGENERATED]: 730,
+};
+
+/**
+ * Activities the browser may report itself through POST
+ * /api/security/activity-log. Everything else (sign-ins, password, 2FA, and
+ * payment method changes) is logged by the server route where it happens, so
+ * a client can't forge it or trigger a new sign-in alert.
+ */
+export const CLIENT_ACTIVITY_TYPES: readonly ActivityType[] = [ActivityType.SETTINGS_CHANGE];
+
+// Limits on the metadata a client sends with an activity
+const MAX_CLIENT_METADATA_KEYS = 10;
+const MAX_CLIENT_METADATA_VALUE_LENGTH = 200;
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 10;
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+
+// How many earlier sign-ins a new one is compared against
+const KNOWN_SIGN_IN_LOOKBACK = 100;
+
+export type NewSignInReason = SecurityAlertData['reason'];
+
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+  deviceInfo?: ActivityLog['deviceInfo'];
+  location?: ActivityLog['location'];
+}
+
+// Headers from a NextRequest, or the plain object NextAuth passes to authorize()
+export type HeadersLike =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | undefined>;
+
+export interface SecurityActivityInput {
+  userId: string;
+  userEmail?: string;
+  userName?: string;
+  type: ActivityType;
+  metadata?: Record<string, unknown>;
+  context?: RequestContext;
+  now?: Date;
+}
+
+export interface ActivityLogQuery {
+  page?: number;
+  limit?: number;
+  type?: ActivityType;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Is the value one of the ActivityType values
+ */
+export function isActivityType(value: unknown): value is ActivityType {
+  return typeof value === 'string' && (Object.values(ActivityType) as string[]).includes(value);
+}
+
+/**
+ * Why a client-reported activity can't be logged, or null if it can. Metadata
+ * must be a flat object of a few short strings, numbers, or booleans.
+ */
+export function getClientActivityError(type: unknown, metadata: unknown): string | null {
+  if (!isActivityType(type) || !CLIENT_ACTIVITY_TYPES.includes(type)) {
+    return `Activity type must be one of: ${CLIENT_ACTIVITY_TYPES.join(', ')}`;
+  }
+  if (metadata === undefined) return null;
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return 'metadata must be an object';
+  }
+
+  const entries = Object.entries(metadata);
+  if (entries.length > MAX_CLIENT_METADATA_KEYS) {
+    return `metadata can have at most ${MAX_CLIENT_METADATA_KEYS} fields`;
+  }
+  const invalid = entries.some(([, value]) =>
+    typeof value === 'string'
+      ? value.length > MAX_CLIENT_METADATA_VALUE_LENGTH
+      : typeof value !== 'number' && typeof value !== 'boolean'
+  );
+  if (invalid) {
+    return `metadata values must be numbers, booleans, or strings of up to ${MAX_CLIENT_METADATA_VALUE_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * When an entry of this type logged now should be removed
+ */
+export function getActivityExpiry(type: ActivityType, now: Date = new Date()): Date {
+  return new Date(now.getTime() + ACTIVITY_RETENTION_DAYS[type] * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Pick out the browser, operating system, and kind of device from a user agent
+ */
+export function parseUserAgent(userAgent: string | undefined | null): ActivityLog['deviceInfo'] {
+  if (!userAgent) return undefined;
+
+  let browser: string | undefined;
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\/|Opera/.test(userAgent)) browser = 'Opera';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Chrome\/|CriOS\//.test(userAgent)) browser = 'Chrome';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+
+  let os: string | undefined;
+  if (/iPhone|iPad|iPod/.test(userAgent)) os = 'iOS';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/Mac OS X|Macintosh/.test(userAgent)) os = 'macOS';
+  else if (/CrOS/.test(userAgent)) os = 'ChromeOS';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  let device = 'Desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) device = 'Tablet';
+  else if (/Mobi|iPhone|iPod/.test(userAgent)) device = 'Mobile';
+
+  if (!browser && !os) return undefined;
+  return { browser, os, device };
+}
+
+function readHeader(headers: HeadersLike | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) || undefined;
+  }
+  const value = (headers as Record<string, string | string[] | undefined>)[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+/**
+ * The IP address, device, and location a request came from. Location comes
+ * from the headers the hosting platform's edge adds (Vercel, or Cloudflare's
+ * country header); it is left empty when there are none.
+ */
+export function getRequestContext(headers: HeadersLike | undefined): RequestContext {
+  const forwardedFor = readHeader(headers, 'x-forwarded-for');
+  const ipAddress = forwardedFor?.split(',')[0].trim() || readHeader(headers, 'x-real-ip');
+  const userAgent = readHeader(headers, 'user-agent');
+
+  const city = readHeader(headers, 'x-vercel-ip-city');
+  const country = readHeader(headers, 'x-vercel-ip-country') || readHeader(headers, 'cf-ipcountry');
+  const location = city || country
+    ? { city: city ? decodeURIComponent(city) : undefined, country }
+    : undefined;
+
+  return {
+    ipAddress,
+    userAgent,
+    deviceInfo: parseUserAgent(userAgent),
+    location,
+  };
+}
+
+function deviceKey(deviceInfo: ActivityLog['deviceInfo']): string | null {
+  if (!deviceInfo?.browser && !deviceInfo?.os) return null;
+  return [deviceInfo.browser, deviceInfo.os, deviceInfo.device].join('|').toLowerCase();
+}
+
+function locationKey(location: ActivityLog['location']): string | null {
+  if (!location?.country) return null;
+  return [location.country, location.city].join('|').toLowerCase();
+}
+
+/**
+ * Whether a sign-in comes from a device or location the user hasn't signed in
+ * from before. A first sign-in, or one whose device and location can't be
+ * told, is never reported.
+ */
+export function detectNewSignIn(
+  previous: Pick<ActivityLog, 'deviceInfo' | 'location'>[],
+  current: Pick<ActivityLog, 'deviceInfo' | 'location'>
+): NewSignInReason | null {
+  if (previous.length === 0) return null;
+
+  const device = deviceKey(current.deviceInfo);
+  const location = locationKey(current.location);
+
+  const newDevice = device !== null && !previous.some(p => deviceKey(p.deviceInfo) === device);
+  const newLocation = location !== null && !previous.some(p => locationKey(p.location) === location);
+
+  if (newDevice && newLocation) return 'new_device_and_location';
+  if (newDevice) return 'new_device';
+  if (newLocation) return 'new_location';
+  return null;
+}
+
+/**
+ * A device as shown in alerts, e.g. "Chrome on macOS"
+ */
+export function describeDevice(deviceInfo: ActivityLog['deviceInfo']): string | undefined {
+  if (!deviceInfo?.browser && !deviceInfo?.os) return undefined;
+  return [deviceInfo.browser, deviceInfo.os && `on ${deviceInfo.os}`].filter(Boolean).join(' ');
+}
+
+/**
+ * A location as shown in alerts, e.g. "Austin, US"
+ */
+export function describeLocation(location: ActivityLog['location']): string | undefined {
+  return [location?.city, location?.country].filter(Boolean).join(', ') || undefined;
+}
+
+/**
+ * Tell the user about a sign-in from a new device or location, in the app and
+ * by email. Failures are logged and don't affect the sign-in.
+ */
+async function notifyNewSignIn(
+  input: SecurityActivityInput,
+  reason: NewSignInReason,
+  occurredAt: Date
+): Promise<void> {
+  const device = describeDevice(input.context?.deviceInfo);
+  const location = describeLocation(input.context?.location);
+  const from = [device, location].filter(Boolean).join(' in ');
+
+  await createNotification({
+    userId: input.userId,
+    message: `New sign-in to your account${from ? ` from ${from}` : ''}. If this wasn't you, change your password now.`,
+    type: 'alert',
+    isImportant: true,
+  });
+
+  if (!input.userEmail) return;
+
+  try {
+    const result = await getEmailService().sendSecurityAlert(input.userEmail, {
+      recipientName: input.userName,
+      reason,
+      occurredAt: occurredAt.toISOString(),
+      device,
+      location,
+      ipAddress: input.context?.ipAddress,
+    });
+    if (!result.success) {
+      console.error('[SECURITY] Failed to send new sign-in email:', result.error);
+    }
+  } catch (error) {
+    console.error('[SECURITY] Failed to send new sign-in email:', error);
+  }
+}
+
+/**
+ * Map a stored SECURITY_EVENT entry to the ActivityLog shape the UI shows
+ */
+export function toActivityLog(entry: any): ActivityLog {
+  const metadata = entry.metadata instanceof Map
+    ? Object.fromEntries(entry.metadata)
+    : entry.metadata;
+
+  return {
+    id: entry.id,
+    userId: entry.userId,
+    type: (entry.activityType || entry.action) as ActivityType,
+    timestamp: entry.timestamp,
+    ipAddress: entry.ip || undefined,
+    deviceInfo: entry.deviceInfo?.browser || entry.deviceInfo?.os ? entry.deviceInfo : undefined,
+    location: entry.location?.city || entry.location?.country ? entry.location : undefined,
+    metadata: metadata || {},
+  };
+}
+
+/**
+ * Record a security activity for a user. Sign-ins are also checked for a new
+ * device or location. Logging never throws; it returns null when the entry
+ * couldn't be saved.
+ */
+export async function logSecurityActivity(input: SecurityActivityInput): Promise<ActivityLog | null> {
+  const now = input.now || new Date();
+
+  try {
+    await connectToDatabase();
+    const AuditLog = getAuditLogModel();
+
+    let newSignIn: NewSignInReason | null = null;
+    if (input.type === ActivityType.LOGIN && input.context) {
+      const previous = await AuditLog.find({
+        userId: input.userId,
+        type: AuditLogType.SECURITY_EVENT,
+        activityType: ActivityType.LOGIN,
+      })
+        .sort({ timestamp: -1 })
+        .limit(KNOWN_SIGN_IN_LOOKBACK)
+        .select('deviceInfo location')
+        .lean<Pick<ActivityLog, 'deviceInfo' | 'location'>[]>();
+
+      newSignIn = detectNewSignIn(previous, input.context);
+    }
+
+    const entry = await AuditLog.create({
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: now.toISOString(),
+      userId: input.userId,
+      userEmail: input.userEmail,
+      type: AuditLogType.SECURITY_EVENT,
+      action: input.type,
+      activityType: input.type,
+      ip: input.context?.ipAddress,
+      userAgent: input.context?.userAgent,
+      deviceInfo: input.context?.deviceInfo,
+      location: input.context?.location,
+      metadata: newSignIn ? { ...input.metadata, newSignIn } : input.metadata || {},
+      success: true,
+      expiresAt: getActivityExpiry(input.type, now),
+    });
+
+    if (newSignIn) {
+      await notifyNewSignIn(input, newSignIn, now);
+    }
+
+    return toActivityLog(entry.toObject());
+  } catch (error) {
+    console.error('[SECURITY] Failed to log security activity:', error);
+    return null;
+  }
+}
+
+/**
+ * A page of the user's security activity, newest first, optionally limited
+ * to one ActivityType and a date range
+ */
+export async function getSecurityActivity(
+  userId: string,
+  query: ActivityLogQuery = {}
+): Promise<ActivityLogResponse> {
+  const page = Math.max(1, query.page || 1);
+  const limit = Math.min(MAX_ACTIVITY_PAGE_SIZE, Math.max(1, query.limit || DEFAULT_ACTIVITY_PAGE_SIZE));
+
+  await connectToDatabase();
+  const AuditLog = getAuditLogModel();
+
+  const filter: Record<string, unknown> = {
+    userId,
+    type: AuditLogType.SECURITY_EVENT,
+    // Entries still waiting on MongoDB's expiry sweep are already out of retention
+    $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+  };
+  if (query.type) {
+    filter.activityType = query.type;
+  }
+  if (query.from || query.to) {
+    const timestamp: Record<string, string> = {};
+    if (query.from) timestamp.$gte = query.from.toISOString();
+    if (query.to) timestamp.$lte = query.to.toISOString();
+    filter.timestamp = timestamp;
+  }
+
+  const [entries, totalItems] = await Promise.all([
+    AuditLog.find(filter)
+      .sort({ timestamp: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    AuditLog.countDocuments(filter),
+  ]);
+
+  return {
+    logs: entries.map(toActivityLog),
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalItems / limit),
+      totalItems,
+      itemsPerPage: limit,
+    },
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * MFA backup codes
+ *
+ * One-time codes for when the user's second factor isn't at hand. They're
+ * shown once, when generated, and stored in twoFactorAuth.backupCodes only as
+ * salted scrypt hashes. A code is checked against every stored hash with a
+ * constant-time comparison, then removed; each use is logged and emailed to
+ * the user along with how many codes are left.
+ *
+ * Codes generated before hashing was introduced are still stored in
+ * plaintext; they keep working (compared the same constant-time way) until
+ * used or regenerated.
+ */
+
+import { createHash, randomBytes, randomInt, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import connectToDatabase from '../db/connect';
+import { getUserModel } from '../db/models/user';
+import { getEmailService } from '../email/index';
+import { ActivityType, BackupCodeStatus } from '../../types/security';
+import {
+  logSecurityActivity,
+  describeDevice,
+  describeLocation,
+  RequestContext,
+} from './activity';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const BACKUP_CODE_COUNT = 8;
+export const BACKUP_CODE_LENGTH = 8;
+
+// At or below this many codes left, settings suggests regenerating them
+export const LOW_BACKUP_CODE_THRESHOLD = 2;
+
+const HASH_SCHEME = 'scrypt';
+const HASH_KEY_LENGTH = 32;
+
+/**
+ * A fresh set of random numeric codes
+ */
+export function generateBackupCodes(count: number = BACKUP_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () =>
+    Array.from({ length: BACKUP_CODE_LENGTH }, () => randomInt(10).toString()).join('')
+  );
+}
+
+/**
+ * Strip the spaces and dashes people add when copying a code
+ */
+export function normalizeBackupCode(code: string): string {
+  return code.replace(/[\s-]/g, '');
+}
+
+/**
+ * Hash a code for storage as "scrypt:<salt>:<hash>"
+ */
+export async function hashBackupCode(code: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(normalizeBackupCode(code), salt, HASH_KEY_LENGTH);
+  return `${HASH_SCHEME}:${salt.toString('base64')}:${hash.toString('base64')}`;
+}
+
+async function matchesStoredCode(stored: string, code: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+
+  if (scheme === HASH_SCHEME && salt && hash) {
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scryptAsync(code, Buffer.from(salt, 'base64'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  // Legacy plaintext code: compare digests so the lengths always match
+  const expected = createHash('sha256').update(stored).digest();
+  const actual = createHash('sha256').update(code).digest();
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Find which stored code a submitted code matches. Every stored code is
+ * checked, so the time taken doesn't reveal which one (if any) matched.
+ * Returns the matching entry's index, or -1.
+ */
+export async function findBackupCode(stored: string[], code: string): Promise<number> {
+  const normalized = normalizeBackupCode(code);
+  if (!normalized) return -1;
+
+  const matches = await Promise.all(stored.map(entry => matchesStoredCode(entry, normalized)));
+  return matches.indexOf(true);
+}
+
+/**
+ * How many backup codes the user has left, for settings
+ */
+export function getBackupCodeStatus(twoFactorAuth?: {
+  backupCodes?: string[];
+  backupCodesGeneratedAt?: string;
+}): BackupCodeStatus {
+  const remaining = twoFactorAuth?.backupCodes?.length || 0;
+  return {
+    remaining,
+    total: BACKUP_CODE_COUNT,
+    generatedAt: twoFactorAuth?.backupCodesGeneratedAt || undefined,
+    low: remaining <= LOW_BACKUP_CODE_THRESHOLD,
+  };
+}
+
+/**
+ * Replace the user's backup codes with a new set. Returns the plaintext codes,
+ * which are shown to the user this once and never stored.
+ */
+export async function regenerateBackupCodes(
+  userId: string,
+  options: { context?: RequestContext } = {}
+): Promise<string[] | null> {
+  await connectToDatabase();
+  const UserModel = getUserModel();
+
+  const codes = generateBackupCodes();
+  const hashes = await Promise.all(codes.map(hashBackupCode));
+
+  const user = await UserModel.findByIdAndUpdate(userId, {
+    $set: {
+      'twoFactorAuth.backupCodes': hashes,
+      'twoFactorAuth.backupCodesGeneratedAt': new Date().toISOString(),
+    },
+  });
+  if (!user) {
+    return null;
+  }
+
+  await logSecurityActivity({
+    userId,
+    userEmail: user.email,
+    userName: user.name,
+    type: ActivityType.BACKUP_CODES_REGENERATED,
+    metadata: { count: codes.length },
+    context: options.context,
+  });
+
+  return codes;
+}
+
+/**
+ * Use one of the user's backup codes. On a match the code is removed (only
+ * one request can remove it, so it can't be used twice), the use is logged,
+ * and the user is emailed. Returns how many codes are left, or null if the
+ * code didn't match.
+ */
+export async function redeemBackupCode(
+  userId: string,
+  code: string,
+  options: { context?: RequestContext } = {}
+): Promise<{ remaining: number } | null> {
+  await connectToDatabase();
+  const UserModel = getUserModel();
+
+  const user = await UserModel.findById(userId);
+  const stored: string[] = user?.twoFactorAuth?.backupCodes ? [...user.twoFactorAuth.backupCodes] : [];
+  if (!user || stored.length === 0) {
+    return null;
+  }
+
+  const index = await findBackupCode(stored, code);
+  if (index === -1) {
+    return null;
+  }
+
+  const result = await UserModel.updateOne(
+    { _id: user._id, 'twoFactorAuth.backupCodes': stored[index] },
+    { $pull: { 'twoFactorAuth.backupCodes': stored[index] } }
+  );
+  if (result.modifiedCount === 0) {
+    return null;
+  }
+
+  const remaining = stored.length - 1;
+  const occurredAt = new Date();
+
+  await logSecurityActivity({
+    userId,
+    userEmail: user.email,
+    userName: user.name,
+    type: ActivityType.BACKUP_CODE_USED,
+    metadata: { remaining },
+    context: options.context,
+    now: occurredAt,
+  });
+
+  try {
+    const emailResult = await getEmailService().sendBackupCodeUsed(user.email, {
+      recipientName: user.name,
+      remaining,
+      occurredAt: occurredAt.toISOString(),
+      device: describeDevice(options.context?.deviceInfo),
+      location: describeLocation(options.context?.location),
+      ipAddress: options.context?.ipAddress,
+    });
+    if (!emailResult.success) {
+      console.error('[SECURITY] Failed to send backup code email:', emailResult.error);
+    }
+  } catch (error) {
+    console.error('[SECURITY] Failed to send backup code email:', error);
+  }
+
+  return { remaining };
+}
@@ -0,0 +1,102 @@
+/**
+ * Account Security Module
+ *
+ * Components:
+ * - activity.ts: The security activity log (stored as SECURITY_EVENT audit
+ *   entries), its retention, and new-device / new-location sign-in alerts
+ * - sessions.ts: The registry of signed-in sessions behind remote sign-out
+ * - passkeys.ts: WebAuthn passkey registration and sign-in, as a second factor
+ *   or passwordless
+ * - backupCodes.ts: Hashed MFA backup codes, their redemption and regeneration
+ *
+ * Entry points:
+ * - /api/security/activity-log: the signed-in user's activity, filtered by type
+ *   and date; the browser can only add the few CLIENT_ACTIVITY_TYPES itself
+ * - /api/security/sessions: list active sessions, sign out one or all of them
+ * - /api/security/passkeys: register, list, rename, and remove passkeys
+ * - /api/security/two-factor/backup-codes: remaining backup codes; regenerate
+ *   after re-authenticating
+ * - /api/auth/passkey/options: challenges for passkey sign-in and the MFA step
+ * - /api/auth/session-status: middleware.ts checks each token's session here
+ * - NextAuth authorize() / signIn() / jwt(): logs each completed sign-in and
+ *   registers its session; a sign-in whose session can't be registered fails
+ * - Profile, 2FA, and payment method routes log their changes; password reset
+ *   and MFA changes revoke sessions
+ */
+
+export {
+  ACTIVITY_RETENTION_DAYS,
+  CLIENT_ACTIVITY_TYPES,
+  DEFAULT_ACTIVITY_PAGE_SIZE,
+  MAX_ACTIVITY_PAGE_SIZE,
+  isActivityType,
+  getClientActivityError,
+  getActivityExpiry,
+  parseUserAgent,
+  getRequestContext,
+  detectNewSignIn,
+  describeDevice,
+  describeLocation,
+  toActivityLog,
+  logSecurityActivity,
+  getSecurityActivity,
+} from './activity';
+
+export {
+  SESSION_MAX_AGE_SECONDS,
+  SESSION_TOUCH_INTERVAL_MS,
+  isSessionActive,
+  shouldTouchSession,
+  toActiveSession,
+  createUserSession,
+  touchUserSession,
+  listUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+} from './sessions';
+
+export {
+  PASSKEY_CEREMONY_TIMEOUT_MS,
+  MAX_PASSKEYS_PER_USER,
+  MAX_PASSKEY_NAME_LENGTH,
+  getRelyingParty,
+  getResponseChallenge,
+  getDefaultPasskeyName,
+  toPasskey,
+  verifyPasskeyRegistration,
+  verifyPasskeyAssertion,
+  createPasskeyRegistrationOptions,
+  registerPasskey,
+  createPasskeyAuthenticationOptions,
+  authenticateWithPasskey,
+  listPasskeys,
+  renamePasskey,
+  removePasskey,
+} from './passkeys';
+
+export {
+  BACKUP_CODE_COUNT,
+  BACKUP_CODE_LENGTH,
+  LOW_BACKUP_CODE_THRESHOLD,
+  generateBackupCodes,
+  normalizeBackupCode,
+  hashBackupCode,
+  findBackupCode,
+  getBackupCodeStatus,
+  regenerateBackupCodes,
+  redeemBackupCode,
+} from './backupCodes';
+
+export type {
+  NewSignInReason,
+  RequestContext,
+  HeadersLike,
+  SecurityActivityInput,
+  ActivityLogQuery,
+} from './activity';
+
+export type {
+  RelyingParty,
+  StoredPasskeyCredential,
+  VerifiedPasskeyRegistration,
+} from './passkeys';
@@ -0,0 +1,411 @@
+/**
+ * Passkeys (WebAuthn)
+ *
+ * Registration and sign-in ceremonies for passkeys, built on
+ * @simplewebauthn/server. A passkey can be the user's second factor
+ * (twoFactorAuth.method 'passkey', after a password or OAuth sign-in) or a
+ * passwordless sign-in on its own, in which case the authenticator must verify
+ * the user (PIN or biometric) so it still counts as two factors.
+ *
+ * Every ceremony starts with a challenge stored in PasskeyChallenge. The
+ * challenge signed by the authenticator is read back from the response and
+ * deleted as it's checked, so each one can only be used once.
+ */
+
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+} from '@simplewebauthn/server';
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { decodeClientDataJSON, isoBase64URL, isoUint8Array } from '@simplewebauthn/server/helpers';
+import connectToDatabase from '../db/connect';
+import { getPasskeyModel } from '../db/models/passkey';
+import { getPasskeyChallengeModel, PasskeyChallengePurpose } from '../db/models/passkeyChallenge';
+import { Passkey } from '../../types/security';
+
+// How long the browser prompt stays open, and how long its challenge is kept
+export const PASSKEY_CEREMONY_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const MAX_PASSKEYS_PER_USER = 10;
+export const MAX_PASSKEY_NAME_LENGTH = 60;
+
+export interface RelyingParty {
+  rpID: string;
+  rpName: string;
+  origin: string;
+}
+
+// What's needed to check an assertion against a stored passkey
+export interface StoredPasskeyCredential {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports?: string[];
+}
+
+export interface VerifiedPasskeyRegistration {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports: string[];
+  deviceType: Passkey['deviceType'];
+  backedUp: boolean;
+  aaguid: string;
+}
+
+/**
+ * The relying party passkeys are bound to: the app's own host and origin
+ */
+export function getRelyingParty(
+  appUrl: string = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'
+): RelyingParty {
+  const url = new URL(appUrl);
+  return {
+    rpID: url.hostname,
+    rpName: 'Juntas Seguras',
+    origin: url.origin,
+  };
+}
+
+/**
+ * Read the challenge a browser response was made against, or null if the
+ * response is malformed
+ */
+export function getResponseChallenge(
+  response: Pick<RegistrationResponseJSON | AuthenticationResponseJSON, 'response'>
+): string | null {
+  try {
+    return decodeClientDataJSON(response.response.clientDataJSON).challenge || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Default name for a new passkey, from the device it was created on
+ */
+export function getDefaultPasskeyName(deviceInfo?: { browser?: string; os?: string }): string {
+  const { browser, os } = deviceInfo || {};
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Passkey';
+}
+
+/**
+ * Map a stored passkey to what the settings page lists
+ */
+export function toPasskey(passkey: any): Passkey {
+  return {
+    id: passkey.credentialId,
+    name: passkey.name,
+    deviceType: passkey.deviceType,
+    backedUp: !!passkey.backedUp,
+    transports: passkey.transports?.length ? [...passkey.transports] : undefined,
+    createdAt: new Date(passkey.createdAt).toISOString(),
+    lastUsedAt: passkey.lastUsedAt ? new Date(passkey.lastUsedAt).toISOString() : undefined,
+  };
+}
+
+/**
+ * Check a new credential from the browser against the challenge it was
+ * created for. Attestation isn't requested, so any authenticator is accepted.
+ */
+export async function verifyPasskeyRegistration(
+  response: RegistrationResponseJSON,
+  expectedChallenge: string,
+  rp: RelyingParty = getRelyingParty()
+): Promise<VerifiedPasskeyRegistration | { error: string }> {
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Passkey could not be verified' };
+  }
+
+  if (!verification.verified) {
+    return { error: 'Passkey could not be verified' };
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp, aaguid } = verification.registrationInfo;
+  return {
+    credentialId: credential.id,
+    publicKey: isoBase64URL.fromBuffer(credential.publicKey),
+    counter: credential.counter,
+    transports: credential.transports || response.response.transports || [],
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp,
+    aaguid,
+  };
+}
+
+/**
+ * Check a sign-in assertion against the stored passkey it claims to come from.
+ * Returns the new signature counter to store.
+ */
+export async function verifyPasskeyAssertion(
+  response: AuthenticationResponseJSON,
+  passkey: StoredPasskeyCredential,
+  expectedChallenge: string,
+  options: { requireUserVerification?: boolean; rp?: RelyingParty } = {}
+): Promise<{ newCounter: number } | { error: string }> {
+  const rp = options.rp || getRelyingParty();
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: isoBase64URL.toBuffer(passkey.publicKey),
+        counter: passkey.counter,
+        transports: passkey.transports as AuthenticatorTransportFuture[] | undefined,
+      },
+      requireUserVerification: options.requireUserVerification ?? false,
+    });
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Passkey could not be verified' };
+  }
+
+  if (!verification.verified) {
+    return { error: 'Passkey could not be verified' };
+  }
+
+  return { newCounter: verification.authenticationInfo.newCounter };
+}
+
+async function storeChallenge(challenge: string, purpose: PasskeyChallengePurpose, userId?: string) {
+  await getPasskeyChallengeModel().create({
+    challenge,
+    purpose,
+    userId,
+    expiresAt: new Date(Date.now() + PASSKEY_CEREMONY_TIMEOUT_MS),
+  });
+}
+
+/**
+ * Take the stored challenge a response was made against. It's deleted whether
+ * or not the response then verifies, so a challenge is only ever tried once.
+ */
+async function consumeChallenge(
+  response: RegistrationResponseJSON | AuthenticationResponseJSON,
+  purpose: PasskeyChallengePurpose,
+  userId?: string
+): Promise<string | null> {
+  const challenge = getResponseChallenge(response);
+  if (!challenge) return null;
+
+  const stored = await getPasskeyChallengeModel().findOneAndDelete({
+    challenge,
+    purpose,
+    ...(userId && { userId }),
+    expiresAt: { $gt: new Date() },
+  });
+
+  return stored ? stored.challenge : null;
+}
+
+/**
+ * Options for the browser to create a passkey for the signed-in user
+ */
+export async function createPasskeyRegistrationOptions(user: {
+  id: string;
+  email: string;
+  name?: string;
+}): Promise<PublicKeyCredentialCreationOptionsJSON | { error: string }> {
+  await connectToDatabase();
+  const rp = getRelyingParty();
+
+  const existing = await getPasskeyModel().find({ userId: user.id }).lean();
+  if (existing.length >= MAX_PASSKEYS_PER_USER) {
+    return { error: `You can register up to ${MAX_PASSKEYS_PER_USER} passkeys` };
+  }
+
+  const options = await generateRegistrationOptions({
+    rpName: rp.rpName,
+    rpID: rp.rpID,
+    userName: user.email,
+    userID: isoUint8Array.fromUTF8String(user.id),
+    userDisplayName: user.name || user.email,
+    timeout: PASSKEY_CEREMONY_TIMEOUT_MS,
+    attestationType: 'none',
+    // Don't register the same authenticator twice
+    excludeCredentials: existing.map(p => ({
+      id: p.credentialId,
+      transports: p.transports as AuthenticatorTransportFuture[],
+    })),
+    // Discoverable credentials are what make passwordless sign-in possible
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      userVerification: 'preferred',
+    },
+  });
+
+  await storeChallenge(options.challenge, 'registration', user.id);
+  return options;
+}
+
+/**
+ * Verify the browser's new credential and save it to the user's passkeys
+ */
+export async function registerPasskey(
+  userId: string,
+  response: RegistrationResponseJSON,
+  name: string
+): Promise<{ passkey: Passkey } | { error: string }> {
+  await connectToDatabase();
+
+  const challenge = await consumeChallenge(response, 'registration', userId);
+  if (!challenge) {
+    return { error: 'Passkey request expired. Please try again.' };
+  }
+
+  const verified = await verifyPasskeyRegistration(response, challenge);
+  if ('error' in verified) {
+    return verified;
+  }
+
+  const PasskeyModel = getPasskeyModel();
+  if (await PasskeyModel.exists({ credentialId: verified.credentialId })) {
+    return { error: 'This passkey is already registered' };
+  }
+
+  const passkey = await PasskeyModel.create({
+    ...verified,
+    userId,
+    name: name.slice(0, MAX_PASSKEY_NAME_LENGTH),
+  });
+
+  return { passkey: toPasskey(passkey) };
+}
+
+/**
+ * Options for the browser to sign in with a passkey. With a userId (the MFA
+ * step) only that user's passkeys are offered; without one (passwordless
+ * sign-in) the browser offers any passkey it holds for this site.
+ */
+export async function createPasskeyAuthenticationOptions(
+  userId?: string
+): Promise<PublicKeyCredentialRequestOptionsJSON | { error: string }> {
+  await connectToDatabase();
+  const rp = getRelyingParty();
+
+  let allowCredentials: { id: string; transports?: AuthenticatorTransportFuture[] }[] | undefined;
+  if (userId) {
+    const passkeys = await getPasskeyModel().find({ userId }).lean();
+    if (passkeys.length === 0) {
+      return { error: 'No passkeys are registered to this account' };
+    }
+    allowCredentials = passkeys.map(p => ({
+      id: p.credentialId,
+      transports: p.transports as AuthenticatorTransportFuture[],
+    }));
+  }
+
+  const options = await generateAuthenticationOptions({
+    rpID: rp.rpID,
+    allowCredentials,
+    timeout: PASSKEY_CEREMONY_TIMEOUT_MS,
+    userVerification: userId ? 'preferred' : 'required',
+  });
+
+  await storeChallenge(options.challenge, userId ? 'mfa' : 'sign_in', userId);
+  return options;
+}
+
+/**
+ * Verify a passkey sign-in. With a userId (the MFA step) the passkey must
+ * belong to that user; without one (passwordless) it identifies the user and
+ * must have verified them. Returns the user the passkey belongs to.
+ */
+export async function authenticateWithPasskey(
+  response: AuthenticationResponseJSON,
+  options: { userId?: string } = {}
+): Promise<{ userId: string; credentialId: string } | { error: string }> {
+  await connectToDatabase();
+  const PasskeyModel = getPasskeyModel();
+
+  const passkey = await PasskeyModel.findOne({ credentialId: response.id });
+  if (!passkey || (options.userId && passkey.userId !== options.userId)) {
+    return { error: 'This passkey is not registered' };
+  }
+
+  const purpose = options.userId ? 'mfa' : 'sign_in';
+  const challenge = await consumeChallenge(response, purpose, options.userId);
+  if (!challenge) {
+    return { error: 'Passkey request expired. Please try again.' };
+  }
+
+  const verified = await verifyPasskeyAssertion(response, passkey, challenge, {
+    requireUserVerification: !options.userId,
+  });
+  if ('error' in verified) {
+    return verified;
+  }
+
+  await PasskeyModel.updateOne(
+    { _id: passkey._id },
+    { $set: { counter: verified.newCounter, lastUsedAt: new Date() } }
+  );
+
+  return { userId: passkey.userId, credentialId: passkey.credentialId };
+}
+
+/**
+ * The user's passkeys, most recently added first
+ */
+export async function listPasskeys(userId: string): Promise<Passkey[]> {
+  await connectToDatabase();
+
+  const passkeys = await getPasskeyModel().find({ userId }).sort({ createdAt: -1 }).lean();
+  return passkeys.map(toPasskey);
+}
+
+/**
+ * Rename one of the user's passkeys. Returns null if it isn't theirs.
+ */
+export async function renamePasskey(userId: string, credentialId: string, name: string): Promise<Passkey | null> {
+  await connectToDatabase();
+
+  const passkey = await getPasskeyModel().findOneAndUpdate(
+    { userId, credentialId },
+    { $set: { name: name.slice(0, MAX_PASSKEY_NAME_LENGTH) } },
+    { new: true }
+  );
+
+  return passkey ? toPasskey(passkey) : null;
+}
+
+/**
+ * Remove one of the user's passkeys. Returns its name and how many the user
+ * has left, or null if it isn't theirs.
+ */
+export async function removePasskey(
+  userId: string,
+  credentialId: string
+): Promise<{ name: string; remaining: number } | null> {
+  await connectToDatabase();
+  const PasskeyModel = getPasskeyModel();
+
+  const removed = await PasskeyModel.findOneAndDelete({ userId, credentialId });
+  if (!removed) {
+    return null;
+  }
+
+  return { name: removed.name, remaining: await PasskeyModel.countDocuments({ userId }) };
+}
@@ -0,0 +1,176 @@
+/**
+ * Session registry
+ *
+ * Every JWT NextAuth issues is recorded here under a random sessionId carried
+ * in the token. middleware.ts only lets a token through while its record is
+ * active, which is what makes remote sign-out possible with JWT sessions.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import connectToDatabase from '../db/connect';
+import { getUserSessionModel, IUserSession } from '../db/models/userSession';
+import { ActiveSession, SessionRevokedReason } from '../../types/security';
+import type { RequestContext } from './activity';
+
+// Matches the NextAuth session maxAge; a record lives as long as its token can
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// lastSeenAt is only written when it's older than this, not on every request
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+type SessionRecord = Pick<IUserSession, 'revokedAt' | 'expiresAt' | 'lastSeenAt'>;
+
+/**
+ * Whether a session record still lets its token through
+ */
+export function isSessionActive(session: SessionRecord | null | undefined, now: Date = new Date()): boolean {
+  if (!session) return false;
+  if (session.revokedAt) return false;
+  return new Date(session.expiresAt).getTime() > now.getTime();
+}
+
+/**
+ * Whether lastSeenAt is stale enough to be worth writing again
+ */
+export function shouldTouchSession(session: SessionRecord, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(session.lastSeenAt).getTime() >= SESSION_TOUCH_INTERVAL_MS;
+}
+
+function getSessionExpiry(now: Date): Date {
+  return new Date(now.getTime() + SESSION_MAX_AGE_SECONDS * 1000);
+}
+
+/**
+ * Map a stored session to what the settings page lists
+ */
+export function toActiveSession(session: any, currentSessionId?: string): ActiveSession {
+  return {
+    id: session.sessionId,
+    provider: session.provider || undefined,
+    ipAddress: session.ipAddress || undefined,
+    deviceInfo: session.deviceInfo?.browser || session.deviceInfo?.os ? session.deviceInfo : undefined,
+    location: session.location?.city || session.location?.country ? session.location : undefined,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+    current: session.sessionId === currentSessionId,
+  };
+}
+
+/**
+ * Record a new signed-in session and return the id to put in the token
+ */
+export async function createUserSession(
+  userId: string,
+  options: { provider?: string; context?: RequestContext; now?: Date } = {}
+): Promise<string> {
+  const now = options.now || new Date();
+  const sessionId = uuidv4();
+
+  await connectToDatabase();
+  await getUserSessionModel().create({
+    sessionId,
+    userId,
+    provider: options.provider,
+    ipAddress: options.context?.ipAddress,
+    userAgent: options.context?.userAgent,
+    deviceInfo: options.context?.deviceInfo,
+    location: options.context?.location,
+    lastSeenAt: now,
+    expiresAt: getSessionExpiry(now),
+  });
+
+  return sessionId;
+}
+
+/**
+ * Check a token's session against the registry, refreshing its last-seen time
+ * (and sliding its expiry, as NextAuth does for the token) while it's active
+ */
+export async function touchUserSession(
+  sessionId: string,
+  userId: string,
+  context?: RequestContext,
+  now: Date = new Date()
+): Promise<boolean> {
+  await connectToDatabase();
+  const UserSession = getUserSessionModel();
+
+  const session = await UserSession.findOne({ sessionId, userId });
+  if (!session || !isSessionActive(session, now)) {
+    return false;
+  }
+
+  if (shouldTouchSession(session, now)) {
+    await UserSession.updateOne(
+      { _id: session._id },
+      {
+        $set: {
+          lastSeenAt: now,
+          expiresAt: getSessionExpiry(now),
+          ...(context?.ipAddress && { ipAddress: context.ipAddress }),
+          ...(context?.location && { location: context.location }),
+        },
+      }
+    );
+  }
+
+  return true;
+}
+
+/**
+ * The user's active sessions, most recently used first
+ */
+export async function listUserSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+  await connectToDatabase();
+
+  const sessions = await getUserSessionModel()
+    .find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastSeenAt: -1 })
+    .lean();
+
+  return sessions.map(s => toActiveSession(s, currentSessionId));
+}
+
+/**
+ * Sign out one of the user's sessions. Returns false if it wasn't active.
+ */
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokedReason
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const result = await getUserSessionModel().updateOne(
+    { userId, sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Sign out all of the user's sessions, optionally keeping the one making the
+ * request. Returns how many were signed out.
+ *
+ * Changing how the account is secured (password reset, 2FA, passkeys) signs
+ * out every other device this way.
+ */
+export async function revokeAllUserSessions(
+  userId: string,
+  reason: SessionRevokedReason,
+  options: { exceptSessionId?: string } = {}
+): Promise<number> {
+  await connectToDatabase();
+
+  const filter: Record<string, unknown> = { userId, revokedAt: null };
+  if (options.exceptSessionId) {
+    filter.sessionId = { $ne: options.exceptSessionId };
+  }
+
+  const result = await getUserSessionModel().updateMany(filter, {
+    $set: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.modifiedCount;
+}
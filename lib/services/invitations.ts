@@ -6,13 +6,15 @@
  */
 
 import crypto from 'crypto';
-import nodemailer from 'nodemailer';
 import { InvitationStatus } from '../../types/pool';
 import connectToDatabase from '../db/connect';
 import { PoolInvitation } from '../db/models/poolInvitation';
 import { getPoolModel } from '../db/models/pool';
 import { User } from '../db/models/user';
 import { createNotification, NotificationTemplates } from './notifications';
+import { getEmailService } from '../email/index';
+import { getLocaleForEmail } from '../i18n/recipients';
+import { DEFAULT_LOCALE } from '../../types/i18n';
 
 // Types
 export interface CreateInvitationParams {
@@ -40,21 +42,6 @@ export interface InvitationResult {
   message?: string;
 }
 
-// Create email transporter
-const getEmailTransporter = () => {
-  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
-    console.warn('[INVITATIONS SERVICE] Email credentials not configured');
-    return null;
-  }
-  return nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASSWORD
-    }
-  });
-};
-
 /**
  * Create and send a pool invitation
  *
@@ -244,6 +231,7 @@ async function sendInvitationEmail(
   pool: {
     name: string;
     contributionAmount: number;
+    currency?: string;
     frequency: string;
     members: unknown[];
   },
@@ -253,81 +241,43 @@ async function sendInvitationEmail(
   }
 ) {
   try {
-    const transporter = getEmailTransporter();
-    if (!transporter) {
-      console.error('[INVITATIONS SERVICE] Cannot send email - transporter not configured');
+    const emailService = getEmailService();
+    if (!emailService.isConfigured()) {
+      console.error('[INVITATIONS SERVICE] Cannot send email - email provider not configured');
       return;
     }
 
     const invitationUrl = `${process.env.NEXTAUTH_URL}/pools/join?code=${invitation.invitationCode}`;
 
-    const mailOptions = {
-      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
-      to: invitation.email,
-      subject: `You're invited to join ${pool.name}!`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>You've been invited to join a savings pool!</h2>
-          <p>Hello${invitation.name ? ' ' + invitation.name : ''},</p>
-          <p>${inviter.name || inviter.email || 'A friend'} has invited you to join the savings pool "${pool.name}".</p>
-
-          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h3>Pool Details:</h3>
-            <ul style="list-style: none; padding: 0;">
-              <li><strong>Pool Name:</strong> ${pool.name}</li>
-              <li><strong>Contribution Amount:</strong> $${pool.contributionAmount}</li>
-              <li><strong>Frequency:</strong> ${pool.frequency}</li>
-              <li><strong>Current Members:</strong> ${pool.members.length}</li>
-            </ul>
-            ${invitation.message ? `<p><strong>Personal Message:</strong> ${invitation.message}</p>` : ''}
-          </div>
-
-          <p>To accept this invitation, click the link below:</p>
-          <p style="text-align: center; margin: 30px 0;">
-            <a href="${invitationUrl}" style="background: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">Join Pool</a>
-          </p>
-
-          <p style="color: #666; font-size: 14px;">Or copy and paste this link into your browser:</p>
-          <p style="color: #666; font-size: 14px; word-break: break-all;">${invitationUrl}</p>
-
-          <p style="color: #666; font-size: 14px; margin-top: 30px;">This invitation will expire in 7 days.</p>
-
-          <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
-          <p style="color: #999; font-size: 12px;">If you didn't expect this invitation, you can safely ignore this email.</p>
-        </div>
-      `,
-      text: `
-You've been invited to join a savings pool!
-
-Hello${invitation.name ? ' ' + invitation.name : ''},
-
-${inviter.name || inviter.email || 'A friend'} has invited you to join the savings pool "${pool.name}".
-
-Pool Details:
-- Pool Name: ${pool.name}
-- Contribution Amount: $${pool.contributionAmount}
-- Frequency: ${pool.frequency}
-- Current Members: ${pool.members.length}
-${invitation.message ? '\nPersonal Message: ' + invitation.message : ''}
-
-To accept this invitation, visit:
-${invitationUrl}
-
-This invitation will expire in 7 days.
-
-If you didn't expect this invitation, you can safely ignore this email.
-      `
-    };
+    // Write in the invitee's language if they have an account, otherwise the inviter's
+    const inviterLocale = inviter.email ? await getLocaleForEmail(inviter.email) : DEFAULT_LOCALE;
+    const locale = await getLocaleForEmail(invitation.email, inviterLocale);
 
     console.log(`[INVITATIONS SERVICE] Sending invitation email to ${invitation.email}`);
-    const result = await transporter.sendMail(mailOptions);
+    const result = await emailService.sendPoolInvitation(invitation.email, {
+      recipientName: invitation.name,
+      poolName: pool.name,
+      inviterName: inviter.name || inviter.email,
+      contributionAmount: pool.contributionAmount,
+      currency: pool.currency,
+      frequency: pool.frequency,
+      memberCount: pool.members.length,
+      invitationUrl,
+      message: invitation.message,
+      expiresInDays: 7,
+      locale,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send invitation email');
+    }
 
     invitation.emailSent = true;
     invitation.emailSentAt = new Date();
     await invitation.save();
 
-    console.log(`[INVITATIONS SERVICE] Successfully sent invitation email to ${invitation.email}`, {
-      messageId: result.messageId
+    console.log(`[INVITATIONS SERVICE] Invitation email to ${invitation.email} ${result.status === 'queued' ? 'queued for retry' : 'sent'}`, {
+      messageId: result.messageId,
+      queueId: result.queueId
     });
   } catch (error) {
     console.error(`[INVITATIONS SERVICE] Error sending invitation email to ${invitation.email}:`, error);
@@ -1,40 +1,10 @@
 import speakeasy from 'speakeasy';
 import qrcode from 'qrcode';
-import nodemailer from 'nodemailer';
 import connectToDatabase from '../db/connect';
 import { getUserModel, User } from '../db/models/user';
 import { generateVerificationCode } from '../utils/verification';
 import { isValidObjectId } from '../utils/objectId';
-
-// Email configuration
-const createTransporter = () => {
-  console.log('[MFA] Creating email transporter with:', {
-    user: process.env.EMAIL_USER ? `${process.env.EMAIL_USER.substring(0, 5)}...` : 'NOT SET',
-    passwordSet: !!process.env.EMAIL_PASSWORD
-  });
-
-  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
-    console.warn('[MFA] Email credentials not configured - emails will not be sent');
-    return null;
-  }
-
-  return nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASSWORD
-    }
-  });
-};
-
-// Create a global transporter (lazy initialization to ensure env vars are loaded)
-let transporter: nodemailer.Transporter | null = null;
-const getTransporter = () => {
-  if (!transporter) {
-    transporter = createTransporter();
-  }
-  return transporter;
-};
+import { getEmailService } from '../email/index';
 
 // Generate a random 6-digit code for verification
 function generateEmailCode(): string {
@@ -107,13 +77,13 @@ export async function sendEmailVerificationCode(userId: string): Promise<boolean
 
     // Attempt to send email
     try {
-      const emailTransporter = getTransporter();
-      if (!emailTransporter) {
-        console.warn('[MFA] Email transporter not configured. Skipping email send.');
+      const emailService = getEmailService();
+      if (!emailService.isConfigured()) {
+        console.warn('[MFA] Email service not configured. Skipping email send.');
       } else {
         const mailOptions = {
-          from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
           to: user.email,
+          priority: 'high' as const,
           subject: 'Your Verification Code',
           text: `Your verification code for Juntas Seguras is: ${verificationCode}\n\nThis code will expire in 10 minutes.`,
           html: `
@@ -129,17 +99,16 @@ export async function sendEmailVerificationCode(userId: string): Promise<boolean
         };
 
         console.log(`[MFA] Sending verification email to ${user.email}`);
-        const result = await emailTransporter.sendMail(mailOptions);
-        console.log(`[MFA] Email sent successfully to ${user.email}`, {
-          messageId: result.messageId,
-          response: result.response
-        });
+        const result = await emailService.send(mailOptions);
+        if (result.success) {
+          console.log(`[MFA] Email ${result.status} for ${user.email}`, { queueId: result.queueId });
+        } else {
+          console.error('[MFA] Failed to send email:', result.error);
+        }
       }
     } catch (emailError: any) {
       console.error('[MFA] Failed to send email:', {
         message: emailError.message,
-        code: emailError.code,
-        command: emailError.command
       });
       // Continue even if email fails - at least we've set the code in the database
     }
@@ -310,14 +279,14 @@ export async function verifyTotpCode(userObjectId: string, code: string): Promis
 
 export async function sendVerificationEmail(email: string, code: string) {
   try {
-    const emailTransporter = getTransporter();
-    if (!emailTransporter) {
-      throw new Error('Email transporter not configured - check EMAIL_USER and EMAIL_PASSWORD env vars');
+    const emailService = getEmailService();
+    if (!emailService.isConfigured()) {
+      throw new Error('Email service not configured - check EMAIL_USER and EMAIL_PASSWORD env vars');
     }
 
     const mailOptions = {
-      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
       to: email,
+      priority: 'high' as const,
       subject: 'Your Verification Code',
       text: `Your verification code is: ${code}`,
       html: `
@@ -333,16 +302,15 @@ export async function sendVerificationEmail(email: string, code: string) {
     };
 
     console.log(`[MFA] Sending verification email to ${email}`);
-    const result = await emailTransporter.sendMail(mailOptions);
-    console.log(`[MFA] Verification email sent to ${email}:`, {
-      messageId: result.messageId,
-      response: result.response
-    });
+    const result = await emailService.send(mailOptions);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send verification email');
+    }
+    console.log(`[MFA] Verification email ${result.status} for ${email}`, { queueId: result.queueId });
     return true;
   } catch (error: any) {
     console.error('[MFA] Error sending verification email:', {
       message: error.message,
-      code: error.code
     });
     throw error;
   }
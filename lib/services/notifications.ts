@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import connect from '../db/connect';
+import { formatAmount } from '../currency';
 
 export type NotificationType = 'payment' | 'transaction' | 'pool' | 'invite' | 'alert' | 'system';
 
@@ -101,24 +102,24 @@ export async function createBulkNotifications({
  * Notification templates for common events
  */
 export const NotificationTemplates = {
-  // Payment notifications
-  paymentReceived: (poolName: string, amount: number, memberName: string) =>
-    `${memberName} contributed $${amount} to ${poolName}.`,
+  // Payment notifications (amounts are in the pool's currency)
+  paymentReceived: (poolName: string, amount: number, memberName: string, currency?: string | null) =>
+    `${memberName} contributed ${formatAmount(amount, currency)} to ${poolName}.`,
 
-  paymentDue: (poolName: string, amount: number, daysUntil: number) =>
+  paymentDue: (poolName: string, amount: number, daysUntil: number, currency?: string | null) =>
     daysUntil === 0
-      ? `Your payment of $${amount} for ${poolName} is due today.`
-      : `Your payment of $${amount} for ${poolName} is due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}.`,
+      ? `Your payment of ${formatAmount(amount, currency)} for ${poolName} is due today.`
+      : `Your payment of ${formatAmount(amount, currency)} for ${poolName} is due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}.`,
 
-  paymentOverdue: (poolName: string, amount: number) =>
-    `Your payment of $${amount} for ${poolName} is overdue. Please pay as soon as possible.`,
+  paymentOverdue: (poolName: string, amount: number, currency?: string | null) =>
+    `Your payment of ${formatAmount(amount, currency)} for ${poolName} is overdue. Please pay as soon as possible.`,
 
   // Payout notifications
-  payoutReceived: (poolName: string, amount: number) =>
-    `You received a payout of $${amount} from ${poolName}!`,
+  payoutReceived: (poolName: string, amount: number, currency?: string | null) =>
+    `You received a payout of ${formatAmount(amount, currency)} from ${poolName}!`,
 
-  payoutProcessed: (poolName: string, recipientName: string, amount: number) =>
-    `Payout of $${amount} was sent to ${recipientName} from ${poolName}.`,
+  payoutProcessed: (poolName: string, recipientName: string, amount: number, currency?: string | null) =>
+    `Payout of ${formatAmount(amount, currency)} was sent to ${recipientName} from ${poolName}.`,
 
   payoutUpcoming: (poolName: string, daysUntil: number) =>
     `Your payout from ${poolName} is coming in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}!`,
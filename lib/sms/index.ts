@@ -0,0 +1,132 @@
+/**
+ * SMS Service
+ * Provider-agnostic SMS sending. Twilio in production, an in-memory fake for
+ * tests and local development (SMS_PROVIDER=fake).
+ */
+
+import { TwilioProvider } from './providers/twilio';
+import { FakeSmsProvider } from './providers/fake';
+import { PHONE_VERIFICATION_EXPIRY_MINUTES } from './phone';
+import type { SmsProvider, SendSmsOptions, SendSmsResult, SmsDeliveryStatus } from './types';
+
+// Singleton SMS service instance
+let smsService: SmsService | null = null;
+
+// Default number of reminder texts a user can receive per day
+const DEFAULT_DAILY_LIMIT = 3;
+
+export class SmsService {
+  private provider: SmsProvider;
+
+  constructor(provider: SmsProvider) {
+    this.provider = provider;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Check if the SMS service is properly configured
+   */
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * Send a text message
+   */
+  async send(options: SendSmsOptions): Promise<SendSmsResult> {
+    return this.provider.send({
+      ...options,
+      statusCallback: options.statusCallback ?? getSmsStatusCallbackUrl(),
+    });
+  }
+
+  /**
+   * Send a phone verification code
+   */
+  async sendVerificationCode(to: string, code: string): Promise<SendSmsResult> {
+    return this.send({
+      to,
+      body: `Your Juntas Seguras verification code is ${code}. It expires in ${PHONE_VERIFICATION_EXPIRY_MINUTES} minutes.`,
+    });
+  }
+}
+
+/**
+ * Pick the provider from environment variables
+ */
+function getDefaultProvider(): SmsProvider {
+  const providerName = process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'test' ? 'fake' : 'twilio');
+
+  if (providerName === 'fake') {
+    return new FakeSmsProvider();
+  }
+
+  return new TwilioProvider({
+    accountSid: process.env.TWILIO_ACCOUNT_SID || '',
+    authToken: process.env.TWILIO_AUTH_TOKEN || '',
+    fromNumber: process.env.TWILIO_FROM_NUMBER || '',
+  });
+}
+
+/**
+ * Get the singleton SMS service instance
+ */
+export function getSmsService(provider?: SmsProvider): SmsService {
+  if (!smsService) {
+    smsService = new SmsService(provider || getDefaultProvider());
+  }
+  return smsService;
+}
+
+/**
+ * Create a new SMS service instance with a custom provider
+ */
+export function createSmsService(provider: SmsProvider): SmsService {
+  return new SmsService(provider);
+}
+
+/**
+ * Maximum reminder texts per user per day (SMS_DAILY_LIMIT)
+ */
+export function getSmsDailyLimit(): number {
+  const limit = parseInt(process.env.SMS_DAILY_LIMIT || '', 10);
+  return Number.isFinite(limit) && limit >= 0 ? limit : DEFAULT_DAILY_LIMIT;
+}
+
+/**
+ * Public URL the provider posts delivery status updates to
+ */
+export function getSmsStatusCallbackUrl(): string | undefined {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}/api/sms/status` : undefined;
+}
+
+/**
+ * Map a provider delivery status onto the SentReminder status field
+ */
+export function toReminderStatus(status: SmsDeliveryStatus): 'sent' | 'delivered' | 'failed' {
+  switch (status) {
+    case 'delivered':
+      return 'delivered';
+    case 'undelivered':
+    case 'failed':
+      return 'failed';
+    default:
+      return 'sent';
+  }
+}
+
+// Re-export types and helpers for convenience
+export type { SmsProvider, SendSmsOptions, SendSmsResult, SmsDeliveryStatus, SmsKeyword } from './types';
+export { TwilioProvider, FakeSmsProvider, verifyTwilioSignature } from './providers';
+export { parseSmsKeyword, getKeywordReply, SMS_REPLY_FOOTER } from './keywords';
+export {
+  normalizePhoneNumber,
+  maskPhoneNumber,
+  generatePhoneVerificationCode,
+  hashPhoneVerificationCode,
+  PHONE_VERIFICATION_EXPIRY_MINUTES,
+} from './phone';
@@ -0,0 +1,48 @@
+/**
+ * Inbound SMS keyword handling (STOP / START / HELP)
+ *
+ * Carriers require that STOP-style replies opt the number out of all further
+ * messages and that HELP replies return contact information.
+ */
+
+import type { SmsKeyword } from './types';
+
+const KEYWORDS: Record<SmsKeyword, string[]> = {
+  stop: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT'],
+  start: ['START', 'YES', 'UNSTOP', 'SUBSCRIBE'],
+  help: ['HELP', 'INFO'],
+};
+
+/**
+ * Match an inbound message body to a keyword. Only the whole message counts,
+ * so "please stop by tomorrow" is not treated as an opt-out.
+ */
+export function parseSmsKeyword(body: string | null | undefined): SmsKeyword | null {
+  const normalized = (body || '').trim().replace(/[.!]+$/, '').toUpperCase();
+  if (!normalized) return null;
+
+  for (const [keyword, words] of Object.entries(KEYWORDS) as [SmsKeyword, string[]][]) {
+    if (words.includes(normalized)) {
+      return keyword;
+    }
+  }
+  return null;
+}
+
+export const SMS_REPLY_FOOTER = 'Reply STOP to opt out, HELP for help.';
+
+/**
+ * Reply sent back for each keyword
+ */
+export function getKeywordReply(keyword: SmsKeyword): string {
+  const supportEmail = process.env.SUPPORT_EMAIL || process.env.EMAIL_FROM || 'support@juntasseguras.com';
+
+  switch (keyword) {
+    case 'stop':
+      return 'Juntas Seguras: You are unsubscribed and will no longer receive text reminders. Reply START to resubscribe.';
+    case 'start':
+      return `Juntas Seguras: You are subscribed to text reminders again. ${SMS_REPLY_FOOTER}`;
+    case 'help':
+      return `Juntas Seguras payment reminders. Msg & data rates may apply. Contact ${supportEmail}. Reply STOP to opt out.`;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Phone number helpers and SMS verification codes
+ */
+
+import crypto from 'crypto';
+
+// How long a phone verification code stays valid
+export const PHONE_VERIFICATION_EXPIRY_MINUTES = 10;
+
+/**
+ * Normalize a user-entered phone number to E.164.
+ * Numbers without a country code are treated as US/Canada numbers.
+ * Returns null when the input cannot be a valid number.
+ */
+export function normalizePhoneNumber(input: string | null | undefined, defaultCountryCode = '1'): string | null {
+  if (!input) return null;
+
+  const trimmed = input.trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  let e164: string;
+  if (trimmed.startsWith('+')) {
+    e164 = `+${digits}`;
+  } else if (trimmed.startsWith('00')) {
+    e164 = `+${digits.slice(2)}`;
+  } else if (digits.length === 10) {
+    e164 = `+${defaultCountryCode}${digits}`;
+  } else if (digits.length === 11 && digits.startsWith(defaultCountryCode)) {
+    e164 = `+${digits}`;
+  } else {
+    return null;
+  }
+
+  // E.164: up to 15 digits, no leading zero in the country code
+  return /^\+[1-9]\d{7,14}$/.test(e164) ? e164 : null;
+}
+
+/**
+ * Mask a phone number for display and logs, keeping the last four digits
+ */
+export function maskPhoneNumber(phone: string): string {
+  if (phone.length <= 4) return phone;
+  return `${'*'.repeat(phone.length - 4)}${phone.slice(-4)}`;
+}
+
+export function generatePhoneVerificationCode(): string {
+  return crypto.randomInt(100000, 1000000).toString();
+}
+
+export function hashPhoneVerificationCode(code: string): string {
+  return crypto.createHash('sha256').update(code.trim()).digest('hex');
+}
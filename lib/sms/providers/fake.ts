@@ -0,0 +1,65 @@
+/**
+ * Fake SMS Provider
+ * Keeps sent messages in memory instead of calling a carrier. Used in tests
+ * and local development so reminder flows can run without Twilio credentials.
+ */
+
+import type { SmsProvider, SendSmsOptions, SendSmsResult } from '../types';
+
+export interface FakeSmsMessage extends SendSmsOptions {
+  messageId: string;
+  sentAt: Date;
+}
+
+export class FakeSmsProvider implements SmsProvider {
+  name = 'fake';
+  readonly messages: FakeSmsMessage[] = [];
+  private failWith: string | null = null;
+  private counter = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(options: SendSmsOptions): Promise<SendSmsResult> {
+    if (this.failWith) {
+      return { success: false, error: this.failWith, provider: this.name };
+    }
+
+    this.counter += 1;
+    const messageId = `SMfake${this.counter.toString().padStart(8, '0')}`;
+    this.messages.push({ ...options, messageId, sentAt: new Date() });
+
+    console.log(`[FakeSMS] ${options.to}: ${options.body}`);
+
+    return {
+      success: true,
+      messageId,
+      status: 'queued',
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Make every following send fail with the given error (null to recover)
+   */
+  simulateFailure(error: string | null): void {
+    this.failWith = error;
+  }
+
+  /**
+   * Messages sent to a specific number, oldest first
+   */
+  messagesTo(to: string): FakeSmsMessage[] {
+    return this.messages.filter(m => m.to === to);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+    this.failWith = null;
+  }
+}
+
+export function createFakeSmsProvider(): FakeSmsProvider {
+  return new FakeSmsProvider();
+}
@@ -0,0 +1,7 @@
+/**
+ * SMS provider exports
+ */
+
+export { TwilioProvider, createTwilioProvider, verifyTwilioSignature } from './twilio';
+export { FakeSmsProvider, createFakeSmsProvider } from './fake';
+export type { FakeSmsMessage } from './fake';
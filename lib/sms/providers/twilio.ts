@@ -0,0 +1,111 @@
+/**
+ * Twilio SMS Provider
+ * Talks to the Twilio REST API directly over HTTP (no SDK dependency)
+ */
+
+import crypto from 'crypto';
+import type { SmsProvider, SendSmsOptions, SendSmsResult, SmsDeliveryStatus, TwilioConfig } from '../types';
+
+const DEFAULT_API_BASE_URL = 'https://api.twilio.com/2010-04-01';
+
+export class TwilioProvider implements SmsProvider {
+  name = 'twilio';
+  private config: TwilioConfig;
+
+  constructor(config: TwilioConfig) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config.accountSid && this.config.authToken && this.config.fromNumber);
+  }
+
+  async send(options: SendSmsOptions): Promise<SendSmsResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        error: 'Twilio credentials not configured',
+        provider: this.name,
+      };
+    }
+
+    const { accountSid, authToken } = this.config;
+    const baseUrl = this.config.apiBaseUrl || DEFAULT_API_BASE_URL;
+
+    const form = new URLSearchParams({
+      To: options.to,
+      From: options.from || this.config.fromNumber,
+      Body: options.body,
+    });
+    if (options.statusCallback) {
+      form.set('StatusCallback', options.statusCallback);
+    }
+
+    try {
+      const response = await fetch(`${baseUrl}/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form.toString(),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const error = data.message || `Twilio request failed with status ${response.status}`;
+        console.error('[Twilio] Failed to send SMS:', { status: response.status, code: data.code, error });
+        return {
+          success: false,
+          error,
+          provider: this.name,
+        };
+      }
+
+      console.log(`[Twilio] SMS queued`, { messageId: data.sid, status: data.status });
+
+      return {
+        success: true,
+        messageId: data.sid,
+        status: data.status as SmsDeliveryStatus,
+        provider: this.name,
+      };
+    } catch (error: any) {
+      console.error('[Twilio] Failed to send SMS:', error.message);
+      return {
+        success: false,
+        error: error.message,
+        provider: this.name,
+      };
+    }
+  }
+}
+
+/**
+ * Verify the X-Twilio-Signature header of a webhook request.
+ * Twilio signs the full callback URL followed by every POST parameter
+ * (sorted by name, key and value concatenated) with HMAC-SHA1.
+ */
+export function verifyTwilioSignature(
+  authToken: string,
+  signature: string | null,
+  url: string,
+  params: Record<string, string>
+): boolean {
+  if (!authToken || !signature) return false;
+
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  const expected = crypto.createHmac('sha1', authToken).update(payload, 'utf8').digest('base64');
+
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  return expectedBuffer.length === signatureBuffer.length && crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+export function createTwilioProvider(config: TwilioConfig): TwilioProvider {
+  return new TwilioProvider(config);
+}
@@ -0,0 +1,45 @@
+/**
+ * SMS service types and interfaces
+ */
+
+// Delivery states reported by the provider (Twilio message statuses)
+export type SmsDeliveryStatus =
+  | 'queued'
+  | 'accepted'
+  | 'sending'
+  | 'sent'
+  | 'delivered'
+  | 'undelivered'
+  | 'failed'
+  | 'received';
+
+export interface SendSmsOptions {
+  to: string; // E.164 phone number
+  body: string;
+  from?: string;
+  statusCallback?: string; // URL the provider posts delivery updates to
+}
+
+export interface SendSmsResult {
+  success: boolean;
+  messageId?: string;
+  status?: SmsDeliveryStatus;
+  error?: string;
+  provider: string;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(options: SendSmsOptions): Promise<SendSmsResult>;
+  isConfigured(): boolean;
+}
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  apiBaseUrl?: string;
+}
+
+// Inbound keywords we act on (carrier-standard opt-out / help words)
+export type SmsKeyword = 'stop' | 'start' | 'help';
@@ -0,0 +1,57 @@
+/**
+ * Helpers for provider webhooks (inbound messages and delivery status callbacks)
+ */
+
+import { getSmsService } from './index';
+import { verifyTwilioSignature } from './providers/twilio';
+
+export interface SmsWebhookPayload {
+  params: Record<string, string>;
+  valid: boolean;
+}
+
+/**
+ * Read a form-encoded webhook body and check its signature.
+ * Twilio signs the public URL it was configured with, so behind a proxy the
+ * URL is rebuilt from NEXT_PUBLIC_APP_URL. The fake provider skips the check.
+ */
+export async function parseSmsWebhook(request: Request): Promise<SmsWebhookPayload> {
+  const formData = await request.formData();
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    params[key] = value.toString();
+  });
+
+  if (getSmsService().providerName === 'fake') {
+    return { params, valid: true };
+  }
+
+  const requestUrl = new URL(request.url);
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/$/, '');
+  const url = baseUrl ? `${baseUrl}${requestUrl.pathname}${requestUrl.search}` : request.url;
+
+  const valid = verifyTwilioSignature(
+    process.env.TWILIO_AUTH_TOKEN || '',
+    request.headers.get('x-twilio-signature'),
+    url,
+    params
+  );
+
+  return { params, valid };
+}
+
+/**
+ * Build a TwiML response, optionally replying with a message
+ */
+export function twimlResponse(message?: string): string {
+  if (!message) {
+    return '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+  }
+  const escaped = message
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+  return `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escaped}</Message></Response>`;
+}
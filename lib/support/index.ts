@@ -0,0 +1,35 @@
+/**
+ * Support Module Index
+ *
+ * Re-exports the support ticket helpers used by /api/support/tickets.
+ */
+
+// SLA timers
+export {
+  SLA_TARGETS,
+  SLA_AT_RISK_THRESHOLD,
+  calculateSlaDeadlines,
+  getSlaTimerStatus,
+  getTicketSla,
+  getOverallSlaStatus,
+  type SlaTarget,
+} from './sla';
+
+// Staff directory
+export {
+  getSupportStaffEmails,
+  getSupportInboxEmail,
+  isSupportStaffEmail,
+  getSupportStaff,
+  findSupportStaffMember,
+} from './staff';
+
+// Ticket serialization, statistics, and email notifications
+export {
+  CLOSED_TICKET_STATUSES,
+  generateTicketId,
+  generateResponseId,
+  serializeTicket,
+  getTicketStats,
+  sendTicketEmail,
+} from './tickets';
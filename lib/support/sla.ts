@@ -0,0 +1,119 @@
+/**
+ * Support SLA (Service Level Agreement) timers
+ *
+ * Each ticket priority has a target for the first staff response and for
+ * resolution. Deadlines are stamped on the ticket when it is created (and
+ * re-stamped when the priority changes); the status of each timer is derived
+ * on read from those deadlines and the time the milestone was reached.
+ */
+
+import { TicketPriority, SlaStatus, TicketSla } from '../../types/support';
+
+export interface SlaTarget {
+  firstResponseHours: number;
+  resolutionHours: number;
+}
+
+// Response and resolution targets per priority
+export const SLA_TARGETS: Record<TicketPriority, SlaTarget> = {
+  [TicketPriority.URGENT]: { firstResponseHours: 1, resolutionHours: 8 },
+  [TicketPriority.HIGH]: { firstResponseHours: 4, resolutionHours: 24 },
+  [TicketPriority.NORMAL]: { firstResponseHours: 24, resolutionHours: 72 },
+  [TicketPriority.LOW]: { firstResponseHours: 48, resolutionHours: 168 },
+};
+
+// A running timer is "at risk" once less than this fraction of its window remains
+export const SLA_AT_RISK_THRESHOLD = 0.25;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Calculate the first-response and resolution deadlines for a ticket
+ */
+export function calculateSlaDeadlines(
+  openedAt: Date,
+  priority: TicketPriority
+): { firstResponseDueAt: Date; resolutionDueAt: Date } {
+  const target = SLA_TARGETS[priority] || SLA_TARGETS[TicketPriority.NORMAL];
+
+  return {
+    firstResponseDueAt: new Date(openedAt.getTime() + target.firstResponseHours * HOUR_MS),
+    resolutionDueAt: new Date(openedAt.getTime() + target.resolutionHours * HOUR_MS),
+  };
+}
+
+/**
+ * Get the status of a single SLA timer
+ *
+ * @param startedAt - When the timer started (ticket creation)
+ * @param dueAt - The deadline for the milestone
+ * @param completedAt - When the milestone was reached, if it has been
+ * @param now - Current time (injectable for tests)
+ */
+export function getSlaTimerStatus(
+  startedAt: Date,
+  dueAt: Date,
+  completedAt?: Date | null,
+  now: Date = new Date()
+): SlaStatus {
+  if (completedAt) {
+    return completedAt.getTime() <= dueAt.getTime() ? SlaStatus.MET : SlaStatus.BREACHED;
+  }
+
+  const remaining = dueAt.getTime() - now.getTime();
+  if (remaining < 0) {
+    return SlaStatus.BREACHED;
+  }
+
+  const window = dueAt.getTime() - startedAt.getTime();
+  if (window > 0 && remaining / window < SLA_AT_RISK_THRESHOLD) {
+    return SlaStatus.AT_RISK;
+  }
+
+  return SlaStatus.ON_TRACK;
+}
+
+/**
+ * Build the SLA summary returned with a ticket
+ */
+export function getTicketSla(
+  ticket: {
+    createdAt: Date;
+    firstResponseDueAt: Date;
+    resolutionDueAt: Date;
+    firstRespondedAt?: Date | null;
+    resolvedAt?: Date | null;
+  },
+  now: Date = new Date()
+): TicketSla {
+  return {
+    firstResponseDueAt: ticket.firstResponseDueAt.toISOString(),
+    resolutionDueAt: ticket.resolutionDueAt.toISOString(),
+    firstRespondedAt: ticket.firstRespondedAt?.toISOString(),
+    resolvedAt: ticket.resolvedAt?.toISOString(),
+    firstResponseStatus: getSlaTimerStatus(
+      ticket.createdAt,
+      ticket.firstResponseDueAt,
+      ticket.firstRespondedAt,
+      now
+    ),
+    resolutionStatus: getSlaTimerStatus(
+      ticket.createdAt,
+      ticket.resolutionDueAt,
+      ticket.resolvedAt,
+      now
+    ),
+  };
+}
+
+/**
+ * Get the most severe status across both timers (for list badges and stats)
+ */
+export function getOverallSlaStatus(sla: TicketSla): SlaStatus {
+  const statuses = [sla.firstResponseStatus, sla.resolutionStatus];
+
+  if (statuses.includes(SlaStatus.BREACHED)) return SlaStatus.BREACHED;
+  if (statuses.includes(SlaStatus.AT_RISK)) return SlaStatus.AT_RISK;
+  if (statuses.every(status => status === SlaStatus.MET)) return SlaStatus.MET;
+  return SlaStatus.ON_TRACK;
+}
@@ -0,0 +1,65 @@
+/**
+ * Support staff directory
+ *
+ * Staff are regular user accounts whose email is listed in the
+ * SUPPORT_STAFF_EMAILS environment variable (comma-separated). Only staff can
+ * see every ticket, respond as support, change status, and be assigned.
+ */
+
+import connectToDatabase from '../db/connect';
+import { getUserModel } from '../db/models/user';
+import { SupportStaffMember } from '../../types/support';
+
+/**
+ * Get the configured staff email addresses (normalized to lowercase)
+ */
+export function getSupportStaffEmails(): string[] {
+  return (process.env.SUPPORT_STAFF_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * The inbox that receives support requests and ticket notifications
+ */
+export function getSupportInboxEmail(): string {
+  return process.env.SUPPORT_EMAIL || process.env.EMAIL_USER || 'juntassegurasservice@gmail.com';
+}
+
+/**
+ * Check whether an email address belongs to support staff
+ */
+export function isSupportStaffEmail(email?: string | null): boolean {
+  if (!email) return false;
+  return getSupportStaffEmails().includes(email.toLowerCase());
+}
+
+/**
+ * Get all support staff members that have a user account
+ */
+export async function getSupportStaff(): Promise<SupportStaffMember[]> {
+  const emails = getSupportStaffEmails();
+  if (emails.length === 0) return [];
+
+  await connectToDatabase();
+  const UserModel = getUserModel();
+
+  const users = await UserModel.find({ email: { $in: emails } })
+    .select('name email')
+    .lean();
+
+  return users.map((user: any) => ({
+    id: user._id.toString(),
+    name: user.name,
+    email: user.email,
+  }));
+}
+
+/**
+ * Find a single staff member by user ID
+ */
+export async function findSupportStaffMember(staffId: string): Promise<SupportStaffMember | null> {
+  const staff = await getSupportStaff();
+  return staff.find(member => member.id === staffId) || null;
+}
@@ -0,0 +1,184 @@
+/**
+ * Support ticket helpers shared by the ticket API routes
+ */
+
+import connectToDatabase from '../db/connect';
+import { getSupportTicketModel, ISupportTicket } from '../db/models/supportTicket';
+import {
+  SupportTicket,
+  TicketResponse,
+  TicketStats,
+  TicketStatus,
+  SlaStatus,
+} from '../../types/support';
+import { getEmailService } from '../email/index';
+import type { SupportTicketEvent } from '../email/types';
+import { getTicketSla, getOverallSlaStatus } from './sla';
+import { getSupportInboxEmail } from './staff';
+
+// Statuses that stop the resolution timer
+export const CLOSED_TICKET_STATUSES = [TicketStatus.RESOLVED, TicketStatus.CLOSED];
+
+/**
+ * Generate a public ticket ID (e.g., TKT-LX3K9A2B)
+ */
+export function generateTicketId(): string {
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `TKT-${Date.now().toString(36).toUpperCase()}${random}`;
+}
+
+/**
+ * Generate a public response ID (e.g., RES-LX3K9A2B)
+ */
+export function generateResponseId(): string {
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `RES-${Date.now().toString(36).toUpperCase()}${random}`;
+}
+
+/**
+ * Convert a ticket document into the API shape used by the client
+ */
+export function serializeTicket(ticket: ISupportTicket, now: Date = new Date()): SupportTicket {
+  const responses: TicketResponse[] = (ticket.responses || []).map(response => ({
+    id: response.responseId,
+    ticketId: ticket.ticketId,
+    message: response.message,
+    fromSupport: response.fromSupport,
+    userName: response.userName,
+    createdAt: new Date(response.createdAt).toISOString(),
+    attachments: response.attachments?.length ? response.attachments : undefined,
+  }));
+
+  return {
+    id: ticket.ticketId,
+    userId: ticket.userId || undefined,
+    userName: ticket.userName,
+    userEmail: ticket.userEmail,
+    subject: ticket.subject,
+    message: ticket.message,
+    category: ticket.category,
+    priority: ticket.priority,
+    status: ticket.status,
+    createdAt: new Date(ticket.createdAt).toISOString(),
+    updatedAt: new Date(ticket.updatedAt).toISOString(),
+    assignedTo: ticket.assignedTo || undefined,
+    assignedToName: ticket.assignedToName || undefined,
+    attachments: ticket.attachments?.length ? ticket.attachments : undefined,
+    responses,
+    sla: getTicketSla(ticket, now),
+  };
+}
+
+/**
+ * Compute ticket statistics from the database
+ */
+export async function getTicketStats(now: Date = new Date()): Promise<TicketStats> {
+  await connectToDatabase();
+  const SupportTicket = getSupportTicketModel();
+
+  const [facets] = await SupportTicket.aggregate([
+    {
+      $facet: {
+        byStatus: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+        byCategory: [{ $group: { _id: '$category', count: { $sum: 1 } } }],
+        byPriority: [{ $group: { _id: '$priority', count: { $sum: 1 } } }],
+        byAssignee: [
+          { $match: { status: { $nin: CLOSED_TICKET_STATUSES } } },
+          { $group: { _id: { $ifNull: ['$assignedToName', 'unassigned'] }, count: { $sum: 1 } } },
+        ],
+        firstResponse: [
+          { $match: { firstRespondedAt: { $exists: true, $ne: null } } },
+          {
+            $group: {
+              _id: null,
+              averageMs: { $avg: { $subtract: ['$firstRespondedAt', '$createdAt'] } },
+            },
+          },
+        ],
+      },
+    },
+  ]);
+
+  const toRecord = (rows: Array<{ _id: string; count: number }> = []) =>
+    rows.reduce<Record<string, number>>((acc, row) => {
+      acc[row._id] = row.count;
+      return acc;
+    }, {});
+
+  const byStatus = toRecord(facets?.byStatus);
+  const byAssignee = toRecord(facets?.byAssignee);
+  const unassigned = byAssignee.unassigned || 0;
+  delete byAssignee.unassigned;
+
+  // SLA state depends on "now", so evaluate it for active tickets with the
+  // same helper used when rendering individual tickets
+  const activeTickets = await SupportTicket.find({ status: { $nin: CLOSED_TICKET_STATUSES } })
+    .select('createdAt firstResponseDueAt resolutionDueAt firstRespondedAt resolvedAt')
+    .lean<Array<Pick<ISupportTicket, 'createdAt' | 'firstResponseDueAt' | 'resolutionDueAt' | 'firstRespondedAt' | 'resolvedAt'>>>();
+
+  let slaBreached = 0;
+  let slaAtRisk = 0;
+  for (const ticket of activeTickets) {
+    const status = getOverallSlaStatus(getTicketSla(ticket, now));
+    if (status === SlaStatus.BREACHED) slaBreached++;
+    if (status === SlaStatus.AT_RISK) slaAtRisk++;
+  }
+
+  const averageMs = facets?.firstResponse?.[0]?.averageMs;
+
+  return {
+    total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+    open: byStatus[TicketStatus.OPEN] || 0,
+    inProgress: byStatus[TicketStatus.IN_PROGRESS] || 0,
+    waiting: byStatus[TicketStatus.WAITING] || 0,
+    resolved: byStatus[TicketStatus.RESOLVED] || 0,
+    closed: byStatus[TicketStatus.CLOSED] || 0,
+    byCategory: toRecord(facets?.byCategory),
+    byPriority: toRecord(facets?.byPriority),
+    unassigned,
+    byAssignee,
+    slaBreached,
+    slaAtRisk,
+    averageFirstResponseHours: typeof averageMs === 'number'
+      ? Math.round((averageMs / (60 * 60 * 1000)) * 10) / 10
+      : null,
+  };
+}
+
+/**
+ * Email the other side of a ticket: the support inbox hears about new tickets
+ * and user replies, the user about support replies and status changes. A
+ * failed send is logged; the ticket is already saved.
+ */
+export async function sendTicketEmail(
+  event: SupportTicketEvent,
+  ticket: SupportTicket,
+  response?: TicketResponse
+): Promise<boolean> {
+  const toStaff = event === 'new_ticket' || event === 'user_response';
+
+  try {
+    const result = await getEmailService().sendSupportTicketUpdate(
+      toStaff ? getSupportInboxEmail() : ticket.userEmail,
+      {
+        event,
+        recipientName: toStaff ? undefined : ticket.userName,
+        ticketId: ticket.id,
+        subject: ticket.subject,
+        status: ticket.status,
+        category: ticket.category,
+        priority: ticket.priority,
+        fromName: response?.userName || ticket.userName,
+        fromEmail: toStaff ? ticket.userEmail : undefined,
+        message: response ? response.message : event === 'new_ticket' ? ticket.message : undefined,
+      }
+    );
+    if (!result.success) {
+      console.error(`[Support] Failed to email ${event} for ${ticket.id}:`, result.error);
+    }
+    return result.success;
+  } catch (error) {
+    console.error(`[Support] Failed to email ${event} for ${ticket.id}:`, error);
+    return false;
+  }
+}
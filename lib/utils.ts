@@ -1,10 +1,5 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { v4 as uuidv4 } from 'uuid';
-import { ActivityType, ActivityLog } from '../types/security';
-
-// For server-side local storage of logs (memory store for development)
-const activityLogs: ActivityLog[] = [];
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -54,73 +49,3 @@ export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength) + '...';
 }
-
-// Activity logging for server components
-export function logServerActivity(userId: string, type: ActivityType, metadata: any = {}) {
-  try {
-    // Create the activity log entry
-    const activityLog: ActivityLog = {
-      id: uuidv4(),
-      userId,
-      type,
-      timestamp: new Date().toISOString(),
-      ipAddress: '127.0.0.1', // Default for server-side
-      metadata,
-    };
-
-    // In a real app, this would save to a database
-    activityLogs.unshift(activityLog); // Add to the beginning for chronological order
-    
-    // Keep logs manageable for this example
-    if (activityLogs.length > 1000) {
-      activityLogs.pop();
-    }
-    
-    return activityLog;
-  } catch (error) {
-    console.error('Activity log error:', error);
-    return null;
-  }
-}
-
-// Get activity logs
-export function getActivityLogs(userId: string, page = 1, limit = 20, type?: ActivityType) {
-  try {
-    // Filter logs by user ID and optionally by type
-    let filteredLogs = activityLogs.filter(log => log.userId === userId);
-    
-    if (type) {
-      filteredLogs = filteredLogs.filter(log => log.type === type);
-    }
-
-    // Calculate pagination
-    const startIndex = (page - 1) * limit;
-    const endIndex = page * limit;
-    const totalItems = filteredLogs.length;
-    const totalPages = Math.ceil(totalItems / limit);
-    
-    // Get the paginated logs
-    const paginatedLogs = filteredLogs.slice(startIndex, endIndex);
-
-    return {
-      logs: paginatedLogs,
-      pagination: {
-        currentPage: page,
-        totalPages,
-        totalItems,
-        itemsPerPage: limit
-      }
-    };
-  } catch (error) {
-    console.error('Activity log fetch error:', error);
-    return {
-      logs: [],
-      pagination: {
-        currentPage: page,
-        totalPages: 0,
-        totalItems: 0,
-        itemsPerPage: limit
-      }
-    };
-  }
-}
\ No newline at end of file
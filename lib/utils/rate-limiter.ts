@@ -139,6 +139,30 @@ export const RateLimiters = {
       windowMs: 60 * 60 * 1000, // 1 hour
       prefix: 'pwd-reset',
     }),
+
+  // Phone verification texts: 3 requests per 10 minutes
+  phoneVerificationSend: (identifier: string) =>
+    checkRateLimit(identifier, {
+      maxRequests: 3,
+      windowMs: 10 * 60 * 1000, // 10 minutes
+      prefix: 'phone-send',
+    }),
+
+  // Phone verification attempts: 5 attempts per 10 minutes
+  phoneVerification: (identifier: string) =>
+    checkRateLimit(identifier, {
+      maxRequests: 5,
+      windowMs: 10 * 60 * 1000, // 10 minutes
+      prefix: 'phone-verify',
+    }),
+
+  // Re-authentication for sensitive settings: 5 attempts per 15 minutes
+  reauthentication: (identifier: string) =>
+    checkRateLimit(identifier, {
+      maxRequests: 5,
+      windowMs: 15 * 60 * 1000, // 15 minutes
+      prefix: 'reauth',
+    }),
 };
 
 /**
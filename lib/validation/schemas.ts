@@ -6,6 +6,8 @@
  */
 
 import { z } from 'zod';
+import { SUPPORTED_CURRENCIES } from '../../types/currency';
+import { isPoolTierAvailable, validateContributionAmount } from '../pools/tiers';
 
 // ============================================================================
 // Common Schemas
@@ -30,6 +32,28 @@ export const PoolStatusSchema = z.enum(['pending', 'active', 'completed', 'cance
 
 export const PaymentMethodTypeSchema = z.enum(['venmo', 'cashapp', 'paypal', 'zelle']);
 
+export const PayoutOrderStrategySchema = z.enum(['fixed', 'random_draw', 'bidding']);
+
+export const PoolTierSchema = z.enum(['standard', 'plus', 'premium']);
+
+export const ScheduleAnchorTypeSchema = z.enum(['interval', 'weekday', 'month_days', 'month_weekday']);
+
+export const HolidayRuleSchema = z.enum(['none', 'skip', 'shift_forward', 'shift_backward']);
+
+export const CurrencySchema = z.enum(SUPPORTED_CURRENCIES);
+
+// Shape only; lib/schedule validates how the fields combine with the frequency
+export const PoolScheduleSchema = z.object({
+  timezone: z.string().max(64).optional(),
+  anchor: ScheduleAnchorTypeSchema.optional(),
+  weekday: z.number().int().min(0).max(6).optional(),
+  weekOfMonth: z.number().int().min(-1).max(4).optional(),
+  monthDays: z.array(z.number().int().min(-1).max(31)).optional(),
+  holidays: z.array(z.string().date('Holidays must be YYYY-MM-DD dates')).optional(),
+  holidayRule: HolidayRuleSchema.optional(),
+  contributionLeadDays: z.number().int().min(0).optional(),
+});
+
 export const CreatePoolSchema = z.object({
   name: z.string()
     .min(3, 'Pool name must be at least 3 characters')
@@ -39,18 +63,30 @@ export const CreatePoolSchema = z.object({
     .max(500, 'Description must be less than 500 characters')
     .optional()
     .default(''),
-  contributionAmount: z.number()
-    .int('Contribution must be a whole number')
-    .min(1, 'Contribution must be at least $1')
-    .max(20, 'Contribution must be at most $20'),
+  currency: CurrencySchema.optional().default('USD'),
+  tier: PoolTierSchema.optional().default('standard'),
+  // Limits depend on the currency and tier (lib/pools/tiers.ts)
+  contributionAmount: z.number(),
   totalRounds: z.number()
     .int('Total rounds must be a whole number')
     .min(2, 'Pool must have at least 2 rounds')
     .max(20, 'Pool can have at most 20 rounds'),
   frequency: PoolFrequencySchema.optional().default('weekly'),
-  startDate: z.string().datetime().optional(),
+  // A plain date means midnight in the pool's time zone
+  startDate: z.union([z.string().date(), z.string().datetime()]).optional(),
   allowedPaymentMethods: z.array(PaymentMethodTypeSchema).optional(),
   invitations: z.array(EmailSchema).optional(),
+  payoutOrderStrategy: PayoutOrderStrategySchema.optional().default('fixed'),
+  schedule: PoolScheduleSchema.optional(),
+}).superRefine((pool, ctx) => {
+  if (!isPoolTierAvailable(pool.tier)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tier'], message: 'This tier is not available' });
+    return;
+  }
+  const { error } = validateContributionAmount(pool.contributionAmount, pool.currency, pool.tier);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['contributionAmount'], message: error });
+  }
 });
 
 export const UpdatePoolSchema = z.object({
@@ -63,10 +99,8 @@ export const UpdatePoolSchema = z.object({
     .max(500, 'Description must be less than 500 characters')
     .optional(),
   status: PoolStatusSchema.optional(),
-  contributionAmount: z.number()
-    .min(1, 'Contribution must be at least $1')
-    .max(20, 'Contribution must be at most $20')
-    .optional(),
+  // Checked against the pool's currency and tier when the pool is saved
+  contributionAmount: z.number().optional(),
   frequency: PoolFrequencySchema.optional(),
   maxMembers: z.number()
     .min(2, 'Pool must have at least 2 members')
@@ -13,6 +13,10 @@ const publicRoutes = [
   '/help',
   '/help/documentation',
   '/api/auth', // Allow all NextAuth routes (signin, callback, session, providers, etc.)
+  '/api/sms/inbound', // Twilio webhooks (verified by request signature)
+  '/api/sms/status',
+  '/api/cron', // Scheduled jobs (verified by CRON_SECRET)
+  '/api/email/events', // Bounce/complaint webhooks (verified by EMAIL_WEBHOOK_SECRET)
 ];
 
 // List of API routes that require authentication
@@ -24,6 +28,7 @@ const protectedApiRoutes = [
   '/api/admin',
   '/api/audit',
   '/api/security',
+  '/api/email',
 ];
 
 // List of routes that require MFA verification
@@ -32,6 +37,52 @@ const mfaProtectedRoutes = [
   '/admin',
 ];
 
+// NextAuth session cookies, cleared when a revoked session is turned away
+const sessionCookies = [
+  'next-auth.session-token',
+  '__Secure-next-auth.session-token',
+];
+
+// How long a session registry answer is reused before asking again. This is
+// also the longest a remotely signed-out device keeps working.
+const SESSION_CHECK_CACHE_MS = 30 * 1000;
+const sessionCheckCache = new Map<string, { active: boolean; checkedAt: number }>();
+
+/**
+ * Check the token's session against the server-side registry. The edge
+ * runtime can't reach the database, so this asks /api/auth/session-status
+ * with the request's own cookies. Throws if the check itself fails.
+ */
+async function isSessionActive(request: NextRequest, sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) return false;
+
+  const cached = sessionCheckCache.get(sessionId);
+  if (cached && Date.now() - cached.checkedAt < SESSION_CHECK_CACHE_MS) {
+    return cached.active;
+  }
+
+  const response = await fetch(new URL('/api/auth/session-status', request.url), {
+    headers: {
+      cookie: request.headers.get('cookie') || '',
+      'user-agent': request.headers.get('user-agent') || '',
+      'x-forwarded-for': request.headers.get('x-forwarded-for') || request.ip || '',
+      'x-vercel-ip-city': request.headers.get('x-vercel-ip-city') || '',
+      'x-vercel-ip-country': request.headers.get('x-vercel-ip-country') || '',
+    },
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    throw new Error(`Session check failed with status ${response.status}`);
+  }
+
+  const { active } = await response.json();
+  if (sessionCheckCache.size > 10000) {
+    sessionCheckCache.clear();
+  }
+  sessionCheckCache.set(sessionId, { active: active === true, checkedAt: Date.now() });
+  return active === true;
+}
+
 export default async function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
   
@@ -72,6 +123,18 @@ export default async function middleware(request: NextRequest) {
       signInUrl.searchParams.set('callbackUrl', pathname);
       return NextResponse.redirect(signInUrl);
     }
+
+    // Reject tokens whose session was signed out remotely or never registered
+    if (!(await isSessionActive(request, token.sessionId))) {
+      const response = pathname.startsWith('/api/')
+        ? new NextResponse(
+            JSON.stringify({ error: 'Session has been signed out' }),
+            { status: 401, headers: { 'content-type': 'application/json' } }
+          )
+        : NextResponse.redirect(new URL('/auth/signin?error=SessionRevoked', request.url));
+      sessionCookies.forEach(name => response.cookies.delete(name));
+      return response;
+    }
     
     // Check if MFA is required but not completed
     if (token.requiresMfa && pathname !== '/mfa/verify') {
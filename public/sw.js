@@ -0,0 +1,64 @@
+/**
+ * Service worker for Juntas Seguras web push notifications.
+ *
+ * Push payloads are JSON built by lib/reminders/sender.ts:
+ * { title, body, url, type, tag }
+ */
+
+const ICON = '/favicon.ico';
+
+// Extra buttons per reminder type
+const ACTIONS = {
+  payment_due: [{ action: 'open', title: 'Pay now' }],
+  payment_overdue: [{ action: 'open', title: 'Pay now' }],
+  payout_coming: [{ action: 'open', title: 'View payout' }],
+};
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (error) {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = data.title || 'Juntas Seguras';
+  const options = {
+    body: data.body || '',
+    icon: ICON,
+    badge: ICON,
+    tag: data.tag,
+    renotify: !!data.tag,
+    requireInteraction: data.type === 'payment_overdue',
+    actions: ACTIONS[data.type] || [],
+    data: { url: data.url || '/dashboard' },
+  };
+
+  event.waitUntil(self.registration.showNotification(title, options));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app when there is one
+      for (const client of windows) {
+        if (client.url.startsWith(self.location.origin) && 'focus' in client) {
+          return client.navigate(url).then((navigated) => (navigated || client).focus());
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,15 @@
+/**
+ * Generate a VAPID key pair for web push notifications
+ *
+ * Copy the output into .env.local (and your deployment's environment).
+ *
+ * Run with: npx ts-node scripts/generate-vapid-keys.ts
+ */
+
+import { generateVapidKeys } from '../lib/push/vapid';
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`NEXT_PUBLIC_VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
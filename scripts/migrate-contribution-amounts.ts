@@ -1,8 +1,14 @@
 /**
- * Migration script: Normalize contribution amounts to valid $1-$20 range
+ * Migration script: Assign pool tiers from existing contribution amounts
  *
- * This script finds any existing pools with contribution amounts outside
- * the valid range (1-20) and updates them to a valid amount.
+ * Pools created before tiers existed have no tier. Each one is put in the
+ * smallest tier whose limit covers its contribution, so pools above the old
+ * $20 cap keep their amount instead of being clamped. Fractional amounts are
+ * rounded to whole units.
+ *
+ * Pools whose contribution is above every tier this deployment offers (see
+ * NEXT_PUBLIC_POOL_TIER_LIMITS) are put in the largest tier and listed for
+ * review; their amount is left alone because members already agreed to it.
  *
  * Run with: npx ts-node scripts/migrate-contribution-amounts.ts
  * Or: node -r ts-node/register scripts/migrate-contribution-amounts.ts
@@ -10,6 +16,8 @@
 
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
+import { toMinorUnits } from '../lib/currency';
+import { getPoolTiers, getTierForAmount, getContributionLimits } from '../lib/pools/tiers';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -25,11 +33,14 @@ if (!MONGODB_URI) {
 const PoolSchema = new mongoose.Schema({
   id: String,
   name: String,
+  currency: String,
+  tier: String,
   contributionAmount: Number,
+  contributionAmountMinor: Number,
 });
 
 async function migrateContributionAmounts() {
-  console.log('Starting contribution amount migration...');
+  console.log('Starting pool tier migration...');
 
   try {
     await mongoose.connect(MONGODB_URI);
@@ -37,47 +48,64 @@ async function migrateContributionAmounts() {
 
     const Pool = mongoose.models.Pool || mongoose.model('Pool', PoolSchema);
 
-    // Find pools with invalid contribution amounts
-    const invalidPools = await Pool.find({
+    const tiers = getPoolTiers();
+    const largestTier = tiers[tiers.length - 1].tier;
+
+    // Pools without a tier, or with amounts that were never whole units
+    const pools = await Pool.find({
       $or: [
-        { contributionAmount: { $lt: 1 } },
-        { contributionAmount: { $gt: 20 } },
+        { tier: { $exists: false } },
         { contributionAmount: { $not: { $type: 'int' } } }
       ]
     });
 
-    console.log(`Found ${invalidPools.length} pools with invalid contribution amounts`);
+    console.log(`Found ${pools.length} pools to migrate`);
 
-    if (invalidPools.length === 0) {
-      console.log('No migration needed - all pools have valid contribution amounts');
+    if (pools.length === 0) {
+      console.log('No migration needed - all pools have a tier');
       return;
     }
 
-    // Update each invalid pool
-    for (const pool of invalidPools) {
+    const needsReview: string[] = [];
+    let migrated = 0;
+
+    for (const pool of pools) {
       const oldAmount = pool.contributionAmount;
-      let newAmount: number;
 
-      // Determine the new amount based on the old value
       if (typeof oldAmount !== 'number' || isNaN(oldAmount)) {
-        newAmount = 10; // Default to $10 if invalid
-      } else if (oldAmount < 1) {
-        newAmount = 1; // Minimum $1
-      } else if (oldAmount > 20) {
-        newAmount = 20; // Maximum $20
-      } else {
-        newAmount = Math.round(oldAmount); // Round to nearest integer
+        needsReview.push(`Pool "${pool.name}" (${pool.id}): no valid contribution amount`);
+        continue;
+      }
+
+      const { min } = getContributionLimits(pool.currency, null);
+      const newAmount = Math.max(Math.round(oldAmount), min);
+      const tier = pool.tier || getTierForAmount(newAmount, pool.currency) || largestTier;
+
+      if (newAmount > getContributionLimits(pool.currency, tier).max) {
+        needsReview.push(`Pool "${pool.name}" (${pool.id}): ${newAmount} is above the ${tier} limit`);
       }
 
-      console.log(`Pool "${pool.name}" (${pool.id}): $${oldAmount} -> $${newAmount}`);
+      console.log(`Pool "${pool.name}" (${pool.id}): ${oldAmount} -> ${newAmount}, ${tier}`);
 
       await Pool.updateOne(
         { _id: pool._id },
-        { $set: { contributionAmount: newAmount } }
+        {
+          $set: {
+            tier,
+            contributionAmount: newAmount,
+            contributionAmountMinor: toMinorUnits(newAmount, pool.currency),
+          }
+        }
       );
+      migrated++;
     }
 
-    console.log(`Successfully migrated ${invalidPools.length} pools`);
+    console.log(`Successfully migrated ${migrated} pools`);
+
+    if (needsReview.length > 0) {
+      console.log(`${needsReview.length} pools need review:`);
+      needsReview.forEach(line => console.log(`  ${line}`));
+    }
 
   } catch (error) {
     console.error('Migration failed:', error);
@@ -0,0 +1,95 @@
+/**
+ * Migration script: Backfill pool currencies and minor-unit amounts
+ *
+ * Pools created before currencies were added have no currency (they are in
+ * dollars) and no contributionAmountMinor; payments have no amountMinor.
+ * This sets both so totals can be computed from the integer amounts.
+ *
+ * Run with: npx ts-node scripts/migrate-pool-currency.ts
+ * Or: node -r ts-node/register scripts/migrate-pool-currency.ts
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { resolveCurrency, toMinorUnits } from '../lib/currency';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error('Error: MONGODB_URI environment variable is not set');
+  process.exit(1);
+}
+
+// Minimal schemas for migration
+const PoolSchema = new mongoose.Schema({
+  id: String,
+  name: String,
+  contributionAmount: Number,
+  contributionAmountMinor: Number,
+  currency: String,
+});
+
+const PaymentSchema = new mongoose.Schema({
+  amount: Number,
+  amountMinor: Number,
+  currency: String,
+});
+
+async function migratePoolCurrency() {
+  console.log('Starting pool currency migration...');
+
+  try {
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB');
+
+    const Pool = mongoose.models.Pool || mongoose.model('Pool', PoolSchema);
+    const Payment = mongoose.models.Payment || mongoose.model('Payment', PaymentSchema);
+
+    const pools = await Pool.find({
+      $or: [
+        { currency: { $exists: false } },
+        { contributionAmountMinor: { $exists: false } },
+      ]
+    });
+
+    console.log(`Found ${pools.length} pools to backfill`);
+
+    for (const pool of pools) {
+      const currency = resolveCurrency(pool.currency);
+      const contributionAmountMinor = toMinorUnits(pool.contributionAmount || 0, currency);
+
+      console.log(`Pool "${pool.name}" (${pool.id}): ${currency}, ${contributionAmountMinor} minor units`);
+
+      await Pool.updateOne(
+        { _id: pool._id },
+        { $set: { currency, contributionAmountMinor } }
+      );
+    }
+
+    const payments = await Payment.find({ amountMinor: { $exists: false } });
+
+    console.log(`Found ${payments.length} payments to backfill`);
+
+    for (const payment of payments) {
+      await Payment.updateOne(
+        { _id: payment._id },
+        { $set: { amountMinor: toMinorUnits(payment.amount || 0, payment.currency) } }
+      );
+    }
+
+    console.log(`Successfully migrated ${pools.length} pools and ${payments.length} payments`);
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  }
+}
+
+// Run the migration
+migratePoolCurrency();
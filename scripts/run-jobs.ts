@@ -0,0 +1,66 @@
+/**
+ * Run scheduled jobs locally (no Vercel needed)
+ *
+ * Uses the same runner as /api/cron/jobs, so locks, idempotency, and run
+ * history behave exactly as in production.
+ *
+ * Run with:
+ *   npx ts-node scripts/run-jobs.ts                 # every job
+ *   npx ts-node scripts/run-jobs.ts reminders       # selected jobs
+ *   npx ts-node scripts/run-jobs.ts digests --force # ignore "already ran this period"
+ *   npx ts-node scripts/run-jobs.ts --list          # show jobs and last runs
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+// Load environment variables before the app modules read them
+dotenv.config({ path: '.env.local' });
+
+async function main() {
+  const { listJobs, isJobName, runJobs, getJobStatuses, JobTrigger } = await import('../lib/jobs');
+
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const names = args.filter(arg => !arg.startsWith('--'));
+
+  if (args.includes('--list')) {
+    for (const job of await getJobStatuses()) {
+      const last = job.lastRun
+        ? `${job.lastRun.status} at ${job.lastRun.startedAt.toISOString()}`
+        : 'never run';
+      console.log(`${job.name.padEnd(18)} ${job.locked ? '[locked] ' : ''}${last} - ${job.description}`);
+    }
+    return;
+  }
+
+  const unknown = names.filter(name => !isJobName(name));
+  if (unknown.length > 0) {
+    console.error(`Unknown job: ${unknown.join(', ')}`);
+    console.error(`Available jobs: ${listJobs().map(job => job.name).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const runs = await runJobs(
+    names.length > 0 ? names.filter(isJobName) : undefined,
+    { trigger: JobTrigger.CLI, force }
+  );
+
+  for (const run of runs) {
+    console.log(`\n${run.job}: ${run.status}${run.skipReason ? ` (${run.skipReason})` : ''}`);
+    if (run.result) console.log(JSON.stringify(run.result, null, 2));
+    if (run.error) console.log(`Error: ${run.error}`);
+  }
+
+  if (runs.some(run => run.error)) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Job run failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,154 @@
+/**
+ * Types for pool and user analytics, served from rollups computed on the server
+ */
+
+export type AnalyticsTimeframe = '1month' | '3months' | '6months' | '1year' | 'all';
+
+// How a member's contribution for a round turned out
+export type RoundPaymentOutcome = 'on_time' | 'late' | 'missed' | 'pending' | 'excused';
+
+export interface RoundRollup {
+  cycle: number;
+  round: number;
+  dueDate: string | null;
+  closed: boolean;
+  expected: number;                        // Contribution amount x paying members
+  collected: number;                       // Contributions posted to the ledger
+  onTime: number;
+  late: number;
+  missed: number;
+  onTimeRate: number | null;               // 0-100, null before any payment is settled
+  averageLatencyHours: number | null;      // Mean hours from due date to each contribution (negative = early)
+  collectionLatencyHours: number | null;   // Hours from due date until the round was fully collected
+  payoutAmount: number;
+  payoutAt: string | null;
+  outcomes: { memberId: number; outcome: RoundPaymentOutcome }[];
+}
+
+export interface MemberContributionRecord {
+  cycle: number;
+  round: number | null;
+  amount: number;
+  date: string;
+  latencyHours: number | null;             // Hours after the round's due date (negative = early)
+}
+
+export interface MemberRollup {
+  memberId: number;
+  name: string;
+  contributions: MemberContributionRecord[];
+  payouts: { cycle: number; round: number | null; amount: number; date: string }[];
+}
+
+export interface PoolRollups {
+  poolId: string;
+  rounds: RoundRollup[];
+  members: MemberRollup[];
+  computedAt: string;
+}
+
+export interface PoolAnalyticsReport {
+  timeframe: AnalyticsTimeframe;
+  computedAt: string;
+
+  // Summary stats (within the timeframe, except completion)
+  totalSaved: number;
+  completionPercentage: number;
+  onTimeRate: number;
+  averageContribution: number;
+  averageCollectionLatencyHours: number | null;
+
+  // Chart data, one point per round unless noted
+  savingsGrowthData: Array<{
+    period: string;
+    amount: number;
+  }>;
+
+  // Actual savings, then the rest of the cycle at the scheduled contribution amounts
+  projectedGrowthData: Array<{
+    period: string;
+    actual: number | null;
+    projected: number | null;
+  }>;
+
+  payoutDistributionData: Array<{
+    name: string;
+    value: number;
+  }>;
+
+  onTimeRateData: Array<{
+    period: string;
+    rate: number | null;
+  }>;
+
+  contributionData: Array<{
+    period: string;
+    onTime: number;
+    late: number;
+    missed: number;
+  }>;
+
+  collectionLatencyData: Array<{
+    period: string;
+    averageHours: number | null;
+    collectedHours: number | null;
+  }>;
+
+  memberContributionData: Array<{
+    memberId: number;
+    name: string;
+    totalContributed: number;
+    totalReceived: number;
+    onTimeRate: number;
+    averageLatencyHours: number | null;
+  }>;
+
+  memberHistories: Array<{
+    memberId: number;
+    name: string;
+    contributions: Array<MemberContributionRecord & { period: string }>;
+  }>;
+
+  // Projections from the pool schedule
+  projectedCompletionDate: string;
+  projectedTotalValue: number;
+  expectedReturn: number;
+
+  // Calculated risk level from 0-100
+  riskLevel: number;
+
+  payoutSchedule: Array<{
+    round: number;
+    member: string;
+    date: string;
+    amount: number;
+    status: 'completed' | 'upcoming' | 'scheduled';
+  }>;
+}
+
+export interface UserAnalyticsReport {
+  timeframe: AnalyticsTimeframe;
+  computedAt: string;
+  totals: {
+    pools: number;
+    contributed: number;
+    received: number;
+    onTimeRate: number | null;
+    averageLatencyHours: number | null;
+  };
+  pools: Array<{
+    poolId: string;
+    name: string;
+    status: string;
+    contributed: number;
+    received: number;
+    onTimeRate: number | null;
+    averageLatencyHours: number | null;
+  }>;
+  // The user's own on-time rate by month of the round due date
+  onTimeRateData: Array<{
+    period: string;
+    rate: number | null;
+  }>;
+  contributionHistory: Array<MemberContributionRecord & { poolId: string; poolName: string }>;
+}
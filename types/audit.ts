@@ -28,6 +28,11 @@ export enum AuditLogType {
   POOL_INVITATION_ACCEPT = 'pool_invitation_accept',
   POOL_INVITATION_REJECT = 'pool_invitation_reject',
   POOL_MESSAGE_SEND = 'pool_message_send',
+  POOL_PAYOUT_ORDER_CHANGE = 'pool_payout_order_change',
+  POOL_LEDGER_ADJUSTMENT = 'pool_ledger_adjustment',
+  POOL_LEDGER_REPAIR = 'pool_ledger_repair',
+  POOL_STATUS_CHANGE = 'pool_status_change',
+  POOL_ROLE_CHANGE = 'pool_role_change',
   
   // Payment-related actions
   PAYMENT_CONTRIBUTION = 'payment_contribution',
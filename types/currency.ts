@@ -0,0 +1,22 @@
+/**
+ * Types for pool currencies and money amounts
+ */
+
+import type { PaymentMethodType } from './pool';
+
+// ISO 4217 codes a pool can be run in
+export const SUPPORTED_CURRENCIES = ['USD', 'MXN', 'GTQ', 'DOP'] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+// Pools created before currencies were added are in dollars
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  minorDigits: number;                     // Digits after the decimal point (2 = cents)
+  contributionMin: number;                 // Smallest per-round contribution, in major units
+  limitScale: number;                      // Units worth about a dollar, for scaling tier limits
+  deepLinkMethods: PaymentMethodType[];    // Apps whose payment links can carry this currency
+}
@@ -23,6 +23,8 @@ export enum ActivityType {
   POOL_CREATED = 'pool_created',
   POOL_STATUS_CHANGED = 'pool_status_changed',
   REMINDER_SENT = 'reminder_sent',
+  PAYMENT_LATE = 'payment_late',
+  PAYMENT_MISSED = 'payment_missed',
 }
 
 // Activity metadata for rich display
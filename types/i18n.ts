@@ -0,0 +1,21 @@
+/**
+ * Types for localization of the UI, emails, and reminders
+ */
+
+// Languages with a translation catalog in lib/i18n/messages
+export const SUPPORTED_LOCALES = ['en', 'es', 'pt'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Catalog every other locale falls back to for missing keys
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Values substituted for {name} placeholders; a numeric `count` also picks the plural form
+export type TranslationParams = Record<string, string | number>;
+
+export interface CatalogIssues {
+  locale: Locale;
+  missing: string[];                 // Keys in the default catalog with no translation
+  extra: string[];                   // Keys that don't exist in the default catalog
+  placeholderMismatches: string[];   // Keys whose {placeholders} differ from the default
+}
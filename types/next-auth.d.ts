@@ -32,6 +32,8 @@ declare module "next-auth" {
     requiresMfa?: boolean;
     /** The MFA method to use */
     mfaMethod?: TwoFactorMethod;
+    /** Session registry id, set by the signIn callback for credentials sign-ins */
+    sessionId?: string;
   }
 }
 
@@ -45,5 +47,7 @@ declare module "next-auth/jwt" {
     mfaMethod?: TwoFactorMethod;
     /** Timestamp of the last login */
     lastLoginTime?: string;
+    /** Session registry id (lib/security/sessions.ts), checked by middleware */
+    sessionId?: string;
   }
 }
\ No newline at end of file
@@ -2,11 +2,15 @@
  * Types for pool-related features
  */
 
+import type { ReliabilityView } from './reliability';
+import type { CurrencyCode } from './currency';
+
 export enum PoolStatus {
   ACTIVE = 'active',
   COMPLETED = 'completed',
   PAUSED = 'paused',
   PENDING = 'pending',
+  CANCELLED = 'cancelled',
 }
 
 export enum PoolMemberStatus {
@@ -22,6 +26,23 @@ export enum PoolMemberRole {
   ADMIN = 'admin',
   MEMBER = 'member',
   CREATOR = 'creator',
+  TREASURER = 'treasurer',   // Verifies payments and sends payouts
+  MODERATOR = 'moderator',   // Moderates discussions
+  VIEWER = 'viewer',         // Read-only
+}
+
+/**
+ * What a member's role lets them do in a pool (lib/pools/roles)
+ */
+export enum PoolPermission {
+  VIEW = 'view',                                  // See the pool, its members, rounds, and ledger
+  PARTICIPATE = 'participate',                    // Post, vote, propose, bid, and request swaps
+  MANAGE_POOL = 'manage_pool',                    // Settings, schedule, lifecycle, cycles, payout order
+  MANAGE_MEMBERS = 'manage_members',              // Invitations, adding, removing, and replacing members
+  MANAGE_ROLES = 'manage_roles',                  // Change other members' roles
+  VERIFY_PAYMENTS = 'verify_payments',            // Verify contributions, send reminders, adjust the ledger
+  MANAGE_PAYOUTS = 'manage_payouts',              // Confirm, approve, and send payouts; advance rounds
+  MODERATE_DISCUSSIONS = 'moderate_discussions',  // Pin, edit, and delete anyone's posts
 }
 
 export enum InvitationStatus {
@@ -36,6 +57,65 @@ export enum TransactionType {
   PAYOUT = 'payout',
 }
 
+/**
+ * How the payout order is decided, chosen at pool creation
+ */
+export enum PayoutOrderStrategy {
+  FIXED = 'fixed',               // Admin sets the order (drag-to-reorder)
+  RANDOM_DRAW = 'random_draw',   // Verifiable seeded draw
+  BIDDING = 'bidding',           // Members bid a discount to receive each round's pot
+}
+
+/**
+ * Pool tier, chosen at creation; higher tiers allow larger contributions
+ * and add safeguards
+ */
+export enum PoolTier {
+  STANDARD = 'standard',
+  PLUS = 'plus',
+  PREMIUM = 'premium',
+}
+
+export interface PoolTierSafeguards {
+  identityVerification: boolean;   // Creator, members joining, and each payout recipient must be verified
+  adminCoSigner: boolean;          // A second admin approves each payout before it's sent
+  escrowHoldDays: number;          // Collected contributions are held this long before the payout
+}
+
+export interface PoolTierInfo {
+  tier: PoolTier;
+  label: string;
+  description: string;
+  contributionMax: number;         // In dollars; other currencies scale by their limitScale
+  safeguards: PoolTierSafeguards;
+}
+
+export interface PoolRoleInfo {
+  role: PoolMemberRole;
+  label: string;
+  description: string;
+  permissions: PoolPermission[];
+}
+
+export enum MemberExitStatus {
+  AWAITING_REPLACEMENT = 'awaiting_replacement',  // Leaves an unpaid position behind
+  REPLACED = 'replaced',
+  CLOSED = 'closed',                              // Already paid out; nothing to take over
+}
+
+export enum MemberDebtStatus {
+  OUTSTANDING = 'outstanding',
+  SETTLED = 'settled',
+  FORGIVEN = 'forgiven',
+}
+
+export enum PayoutSwapStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  CANCELLED = 'cancelled',
+}
+
 export interface ZelleQRData {
   token?: string;
   rawContent?: string;
@@ -72,6 +152,8 @@ export interface PoolMember {
   payoutDate: string;
   avatar?: string;
   payoutMethods?: MemberPayoutMethods; // Member's payout methods for when they win
+  replacesMemberId?: number; // Set when this member took over a departed member's position
+  reliability?: ReliabilityView; // Only in member lists fetched by pool admins
 }
 
 export interface PoolInvitation {
@@ -89,6 +171,7 @@ export interface PoolTransaction {
   member: string;
   status: string;
   round?: number;
+  cycle?: number;  // Set when the pool moves on to its next cycle
   stripePaymentIntentId?: string;
   stripeTransferId?: string;
   // Early payout tracking fields
@@ -160,10 +243,268 @@ export interface RoundPayment {
   reminderSentAt?: string;
   reminderCount: number;
   dueDate?: string;
+  lateAt?: string;
+  missedAt?: string;
+  lateFee?: number;
   createdAt?: string;
   updatedAt?: string;
 }
 
+/**
+ * When an unpaid contribution becomes late or missed, counted from its due date
+ */
+export interface LatePaymentPolicy {
+  gracePeriodDays: number;   // Pending payments become late after this
+  missedAfterDays: number;   // Pending or late payments become missed after this
+  lateFeeAmount: number;     // Added to the payment when it goes late (0 = no fee)
+}
+
+/**
+ * What round dates are anchored to (see lib/schedule)
+ */
+export enum ScheduleAnchorType {
+  INTERVAL = 'interval',             // Every period from the start date
+  WEEKDAY = 'weekday',               // A day of the week, e.g. every other Friday
+  MONTH_DAYS = 'month_days',         // Days of the month, e.g. the 1st and 15th
+  MONTH_WEEKDAY = 'month_weekday',   // A weekday of the month, e.g. the last Friday
+}
+
+/**
+ * What happens to a round date that falls on a pool holiday
+ */
+export enum HolidayRule {
+  NONE = 'none',                     // Keep the date
+  SKIP = 'skip',                     // Drop the date; the round moves to the next one
+  SHIFT_FORWARD = 'shift_forward',   // Move to the next non-holiday
+  SHIFT_BACKWARD = 'shift_backward', // Move to the previous non-holiday
+}
+
+/**
+ * How a pool's round dates are derived from its start date and frequency
+ */
+export interface PoolScheduleSettings {
+  timezone: string;                  // IANA name, e.g. America/New_York
+  anchor: ScheduleAnchorType;
+  weekday?: number;                  // 0 = Sunday; WEEKDAY and MONTH_WEEKDAY anchors
+  weekOfMonth?: number;              // 1-4, or -1 for the last; MONTH_WEEKDAY anchor
+  monthDays?: number[];              // 1-31, or -1 for the last day; MONTH_DAYS anchor
+  holidays: string[];                // YYYY-MM-DD in the pool timezone
+  holidayRule: HolidayRule;
+  contributionLeadDays: number;      // Contributions are due this many days before the payout
+}
+
+/**
+ * A point where the remaining schedule starts over, e.g. after a pause.
+ * Rounds from `round` on count from `startDate` instead of the pool's start.
+ */
+export interface ScheduleRestart {
+  round: number;
+  startDate: string;
+}
+
+/**
+ * Lifecycle changes that need the members' consent (pausing is admin-only)
+ */
+export enum LifecycleProposalAction {
+  RESUME = 'resume',
+  CANCEL = 'cancel',
+}
+
+export enum LifecycleProposalStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  WITHDRAWN = 'withdrawn',
+}
+
+export interface LifecycleVote {
+  memberId: number;
+  memberName?: string;
+  approve: boolean;
+  votedAt: string;
+}
+
+/**
+ * Proposal to resume or cancel a pool, applied once enough members approve
+ */
+export interface LifecycleProposal {
+  id: string;
+  action: LifecycleProposalAction;
+  proposedBy: number;
+  proposedByName?: string;
+  reason?: string;
+  status: LifecycleProposalStatus;
+  votes: LifecycleVote[];
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+/**
+ * One pool status transition, kept for the pool's history
+ */
+export interface PoolStatusChange {
+  from: PoolStatus;
+  to: PoolStatus;
+  changedBy: string;
+  reason?: string;
+  proposalId?: string;
+  date: string;
+}
+
+/**
+ * What one member is owed or owes when a pool is cancelled. A positive net
+ * means the member paid in more than they received.
+ */
+export interface SettlementMember {
+  memberId: number;
+  name: string;
+  contributed: number;
+  received: number;
+  fees: number;
+  adjustments: number;
+  net: number;
+}
+
+export interface SettlementTransfer {
+  fromMemberId: number | null;  // null = funds the admin is holding for the pool
+  fromName: string;
+  toMemberId: number;
+  toName: string;
+  amount: number;
+}
+
+export interface SettlementPlan {
+  generatedAt: string;
+  poolCash: number;           // Collected but not yet paid out
+  refundsOwed: number;        // Sum of positive member nets
+  collectionsOwed: number;    // Sum of negative member nets
+  shortfall: number;          // Refunds that neither pool cash nor collections cover
+  members: SettlementMember[];
+  transfers: SettlementTransfer[];
+}
+
+/**
+ * A departing member's standing with the pool, from the ledger. A positive
+ * net means the member paid in more than they received.
+ */
+export interface MemberNetPosition {
+  contributed: number;
+  received: number;
+  fees: number;
+  adjustments: number;
+  net: number;
+}
+
+/**
+ * What a member who received the pot still owes after leaving
+ */
+export interface MemberDebt {
+  amount: number;
+  status: MemberDebtStatus;
+  recordedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  notes?: string;
+}
+
+/**
+ * The member who takes over a departed member's position
+ */
+export interface MemberExitReplacement {
+  memberId: number;
+  name: string;
+  email: string;
+  invitedAt: string;
+  catchUpAmount: number;     // Reimburses what the departed member paid toward the position
+  catchUpReceivedAt?: string;
+}
+
+/**
+ * Record of a member leaving mid-cycle
+ */
+export interface MemberExit {
+  id: string;
+  memberId: number;
+  memberName: string;
+  memberEmail?: string;
+  position: number;
+  payoutReceived: boolean;
+  reason?: string;
+  exitedAt: string;
+  recordedBy: string;
+  status: MemberExitStatus;
+  netPosition: MemberNetPosition;
+  refundOwed: number;        // Owed to the departed member
+  refundPaidAt?: string;
+  debt?: MemberDebt;
+  replacement?: MemberExitReplacement;
+}
+
+/**
+ * A member's answer to whether they'll take part in the pool's next cycle
+ */
+export interface CycleEnrollmentResponse {
+  memberId: number;
+  memberName?: string;
+  optIn: boolean;
+  respondedAt: string;
+}
+
+/**
+ * Re-confirmation for the next cycle, opened by an admin once a cycle completes
+ */
+export interface CycleEnrollment {
+  cycle: number;                // The cycle members are enrolling in
+  openedAt: string;
+  openedBy?: string;
+  startDate?: string;           // Round 1 payout date of the new cycle, if the admin set one
+  previousMemberIds: number[];  // Members of the cycle that just ended; anyone else is joining
+  responses: CycleEnrollmentResponse[];
+}
+
+/**
+ * Seeded payout-order draw. The seed hash is published when the pool is
+ * created; the seed is revealed at draw time so anyone can re-run the shuffle.
+ */
+export interface PayoutDraw {
+  seedHash: string;
+  seed?: string;
+  drawnAt?: string;
+  drawnBy?: string;
+  memberIds?: number[];  // Draw input, sorted by member id
+  order?: number[];      // Member ids in payout order
+}
+
+/**
+ * Member-to-member position swap, approved by both parties
+ */
+export interface PayoutSwapRequest {
+  id: string;
+  requesterId: number;
+  requesterName?: string;
+  requesterPosition: number;
+  targetId: number;
+  targetName?: string;
+  targetPosition: number;
+  reason?: string;
+  status: PayoutSwapStatus;
+  createdAt: string;
+  respondedAt?: string;
+  respondedBy?: number;
+}
+
+/**
+ * Discount bid to receive a round's pot ("tanda con puja")
+ */
+export interface PayoutBid {
+  round: number;
+  memberId: number;
+  memberName?: string;
+  discountAmount: number;
+  won?: boolean;
+  createdAt: string;
+}
+
 export interface Pool {
   id: string;
   name: string;
@@ -171,10 +512,15 @@ export interface Pool {
   createdAt: string;
   status: PoolStatus;
   totalAmount: number;
+  currency?: CurrencyCode;          // Unset = USD
   contributionAmount: number;
+  contributionAmountMinor?: number; // contributionAmount in cents (or the currency's minor unit)
   frequency: string;
   currentRound: number;
   totalRounds: number;
+  currentCycle?: number;
+  totalCycles?: number;   // Unset = the pool can keep running new cycles
+  startDate?: string;
   nextPayoutDate: string;
   memberCount: number;
   members: PoolMember[];
@@ -194,18 +540,54 @@ export interface Pool {
   currentRoundPayoutMethod?: ManualPaymentMethod;
   currentRoundPayoutNotes?: string;
   currentRoundPayoutConfirmedBy?: string;
+  currentRoundReadyAt?: string;              // When the last contribution was verified
+  currentRoundPayoutApprovedBy?: string;     // Co-signer, for tiers that need one
+  currentRoundPayoutApprovedAt?: string;
+
+  // Contribution limits and payout safeguards (unset = standard)
+  tier?: PoolTier;
+
+  // Payout order strategy
+  payoutOrderStrategy?: PayoutOrderStrategy;
+  payoutDraw?: PayoutDraw;
+  payoutSwapRequests?: PayoutSwapRequest[];
+  payoutBids?: PayoutBid[];
+
+  // Late/missed payment policy (defaults apply when unset)
+  latePolicy?: LatePaymentPolicy;
+
+  // Round date rules (defaults apply when unset)
+  schedule?: PoolScheduleSettings;
+  scheduleRestarts?: ScheduleRestart[];
+
+  // Pause, resume, and cancellation
+  pausedAt?: string;
+  cancelledAt?: string;
+  lifecycleProposals?: LifecycleProposal[];
+  statusHistory?: PoolStatusChange[];
+  settlementPlan?: SettlementPlan;
+
+  // Re-confirmation for the next cycle
+  nextCycleEnrollment?: CycleEnrollment;
+
+  // Members who left mid-cycle
+  memberExits?: MemberExit[];
 }
 
 // API Request & Response Types
 export interface CreatePoolRequest {
   name: string;
   description: string;
+  currency?: CurrencyCode;
+  tier?: PoolTier;
   contributionAmount: number;
   frequency: string;
   totalRounds: number;
   startDate?: string;
   invitations?: string[];
   allowedPaymentMethods?: PaymentMethodType[];
+  payoutOrderStrategy?: PayoutOrderStrategy;
+  schedule?: Partial<PoolScheduleSettings>;
 }
 
 export interface UpdatePoolRequest {
@@ -0,0 +1,44 @@
+/**
+ * Types for member reliability scores, computed per user across all of their pools
+ */
+
+export enum ReliabilityLevel {
+  NEW = 'new',             // No payment history yet
+  EXCELLENT = 'excellent',
+  GOOD = 'good',
+  FAIR = 'fair',
+  POOR = 'poor',
+}
+
+// What admins of the user's other pools can see
+export enum ReliabilityVisibility {
+  FULL = 'full',           // Score and the history behind it
+  SCORE = 'score',         // Score and level only
+  HIDDEN = 'hidden',
+}
+
+export interface ReliabilityBreakdown {
+  poolsJoined: number;
+  paymentsOnTime: number;
+  paymentsMissed: number;
+  onTimeRate: number | null;     // 0-1, null with no payments yet
+  completedCycles: number;
+  outstandingDebts: number;
+  outstandingDebtAmount: number;
+  forgivenDebts: number;
+}
+
+export interface ReliabilityScore {
+  score: number | null;          // 0-100, null for new members
+  level: ReliabilityLevel;
+  breakdown: ReliabilityBreakdown;
+  computedAt: string;
+}
+
+// A score as shown to someone else, trimmed to the user's visibility setting
+export interface ReliabilityView {
+  visibility: ReliabilityVisibility;
+  score?: number | null;
+  level?: ReliabilityLevel;
+  breakdown?: ReliabilityBreakdown;
+}
@@ -1,10 +1,10 @@
 /**
  * Types for security-related features including 2FA and account activity logging
- * Note: SMS-based MFA has been removed. Only email and authenticator app methods are supported.
+ * Note: SMS-based MFA has been removed. Email, authenticator app, and passkey methods are supported.
  */
 
-// Two-factor authentication types (Email-only MFA - SMS removed)
-export type TwoFactorMethod = 'app' | 'email';
+// Two-factor authentication types (SMS removed)
+export type TwoFactorMethod = 'app' | 'email' | 'passkey';
 
 export interface TwoFactorSetup {
   enabled: boolean;
@@ -34,6 +34,10 @@ export enum ActivityType {
   PAYMENT_RECEIVED = 'payment_received',
   ACCOUNT_RECOVERY = 'account_recovery',
   SUSPICIOUS_ACTIVITY = 'suspicious_activity',
+  PASSKEY_ADD = 'passkey_add',
+  PASSKEY_REMOVE = 'passkey_remove',
+  BACKUP_CODE_USED = 'backup_code_used',
+  BACKUP_CODES_REGENERATED = 'backup_codes_regenerated',
 }
 
 export interface ActivityLog {
@@ -54,6 +58,56 @@ export interface ActivityLog {
   metadata?: Record<string, any>;
 }
 
+// Why a signed-in session was ended
+export type SessionRevokedReason =
+  | 'signed_out'
+  | 'revoked_by_user'
+  | 'signed_out_everywhere'
+  | 'password_reset'
+  | 'mfa_changed';
+
+// A device the user is signed in on, as listed in settings
+export interface ActiveSession {
+  id: string;
+  provider?: string;
+  ipAddress?: string;
+  deviceInfo?: {
+    browser?: string;
+    os?: string;
+    device?: string;
+  };
+  location?: {
+    city?: string;
+    country?: string;
+  };
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// A WebAuthn credential registered to the user, as listed in settings
+export interface Passkey {
+  id: string;                       // base64url credential ID
+  name: string;
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;                // Synced to a cloud keychain
+  transports?: string[];
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// How the user confirms it's them before a sensitive change: their password,
+// or for accounts without one, a code from their two-factor method
+export type ReauthenticationMethod = 'password' | 'app' | 'email';
+
+// How many MFA backup codes the user has left, as shown in settings
+export interface BackupCodeStatus {
+  remaining: number;
+  total: number;                    // Codes in a freshly generated set
+  generatedAt?: string;
+  low: boolean;                     // Few enough left to suggest regenerating
+}
+
 export interface ActivityLogResponse {
   logs: ActivityLog[];
   pagination: {
@@ -23,6 +23,28 @@ export enum TicketCategory {
   SECURITY = 'security'
 }
 
+export enum SlaStatus {
+  ON_TRACK = 'on_track',
+  AT_RISK = 'at_risk',
+  BREACHED = 'breached',
+  MET = 'met'
+}
+
+export interface TicketSla {
+  firstResponseDueAt: string; // ISO date string
+  resolutionDueAt: string; // ISO date string
+  firstRespondedAt?: string; // ISO date string
+  resolvedAt?: string; // ISO date string
+  firstResponseStatus: SlaStatus;
+  resolutionStatus: SlaStatus;
+}
+
+export interface SupportStaffMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
 export interface SupportTicket {
   id: string;
   userId?: string;
@@ -36,6 +58,8 @@ export interface SupportTicket {
   createdAt: string; // ISO date string
   updatedAt: string; // ISO date string
   assignedTo?: string; // Support staff ID
+  assignedToName?: string;
+  sla?: TicketSla;
   attachments?: string[]; // URLs to attachment files
   responses?: TicketResponse[];
 }
@@ -90,4 +114,9 @@ export interface TicketStats {
   closed: number;
   byCategory: Record<string, number>;
   byPriority: Record<string, number>;
+  unassigned?: number;
+  byAssignee?: Record<string, number>;
+  slaBreached?: number;
+  slaAtRisk?: number;
+  averageFirstResponseHours?: number | null;
 }
\ No newline at end of file